@@ -11,6 +11,12 @@ import Analytics from "./pages/Analytics"
 import BarcodeScannerDemo from "./pages/BarcodeScannerDemo"
 import LandingPage from "./pages/LandingPage"
 import Reports from "./pages/Reports"
+import Promotions from "./pages/Promotions"
+import PurchaseOrders from "./pages/PurchaseOrders"
+import ReorderPlanner from "./pages/ReorderPlanner"
+import Suppliers from "./pages/Suppliers"
+import Stocktake from "./pages/Stocktake"
+import Locations from "./pages/Locations"
 import Settings from "./pages/Settings"
 import { ThemeProvider } from './components/ThemeProvider'
 
@@ -28,6 +34,12 @@ function App() {
               <Route path="/tickets" element={<Tickets />} />
               <Route path="/customers" element={<Customers />} />
               <Route path="/analytics" element={<Analytics />} />
+              <Route path="/promotions" element={<Promotions />} />
+              <Route path="/purchase-orders" element={<PurchaseOrders />} />
+              <Route path="/reorder-planner" element={<ReorderPlanner />} />
+              <Route path="/suppliers" element={<Suppliers />} />
+              <Route path="/stocktake" element={<Stocktake />} />
+              <Route path="/locations" element={<Locations />} />
               <Route path="/reports" element={<Reports />} />
               <Route path="/settings" element={<Settings />} />
               <Route path="/barcode" element={<BarcodeScannerDemo />} />
@@ -1,4 +1,6 @@
 import React, { createContext, useContext, useEffect, useState } from 'react';
+import { settingsStore } from '../lib/settingsStore';
+import { ThemePreference } from '../types/settings';
 
 interface ThemeContextType {
   theme: 'light' | 'dark';
@@ -8,18 +10,35 @@ interface ThemeContextType {
 
 const ThemeContext = createContext<ThemeContextType | undefined>(undefined);
 
+const resolveTheme = (preference: ThemePreference): 'light' | 'dark' => {
+  if (preference === 'system') {
+    return window.matchMedia('(prefers-color-scheme: dark)').matches ? 'dark' : 'light';
+  }
+  return preference;
+};
+
 export const ThemeProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const [theme, setThemeState] = useState<'light' | 'dark'>(() => {
     if (typeof window !== 'undefined') {
       const stored = localStorage.getItem('theme');
       if (stored === 'light' || stored === 'dark') return stored;
-      if (window.matchMedia('(prefers-color-scheme: dark)').matches) return 'dark';
+      return resolveTheme(settingsStore.get().theme);
     }
     return 'light';
   });
 
+  // Follow the store-wide default theme until this device picks its own
+  useEffect(() => {
+    const unsubscribe = settingsStore.subscribe(settings => {
+      if (!localStorage.getItem('theme')) {
+        setThemeState(resolveTheme(settings.theme));
+      }
+    });
+    settingsStore.load();
+    return unsubscribe;
+  }, []);
+
   useEffect(() => {
-    localStorage.setItem('theme', theme);
     const root = window.document.documentElement;
     if (theme === 'dark') {
       root.classList.add('dark');
@@ -28,8 +47,11 @@ export const ThemeProvider: React.FC<{ children: React.ReactNode }> = ({ childre
     }
   }, [theme]);
 
-  const setTheme = (t: 'light' | 'dark') => setThemeState(t);
-  const toggleTheme = () => setThemeState((prev) => (prev === 'light' ? 'dark' : 'light'));
+  const setTheme = (t: 'light' | 'dark') => {
+    localStorage.setItem('theme', t);
+    setThemeState(t);
+  };
+  const toggleTheme = () => setTheme(theme === 'light' ? 'dark' : 'light');
 
   return (
     <ThemeContext.Provider value={{ theme, setTheme, toggleTheme }}>
@@ -0,0 +1,61 @@
+import { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { CalendarClock } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { ExpiringLot } from '../../types/lots';
+import { useLots } from '../../hooks/useLots';
+import { getExpiryStatus, NEAR_EXPIRY_DAYS } from '../../lib/lots';
+import { formatDate } from '@/lib/utils';
+
+const MAX_ROWS = 8;
+
+export default function ExpiringLotsCard() {
+  const { t } = useTranslation();
+  const { getExpiringLots } = useLots();
+  const [lots, setLots] = useState<ExpiringLot[]>([]);
+
+  useEffect(() => {
+    getExpiringLots().then(setLots).catch(error => {
+      console.warn('Failed to load expiring lots:', error);
+    });
+  }, [getExpiringLots]);
+
+  // Nothing to flag, nothing to show
+  if (lots.length === 0) return null;
+
+  return (
+    <Card className="bg-white dark:bg-card/80 min-w-0 mb-8">
+      <CardHeader className="pb-2">
+        <CardTitle className="text-base font-semibold flex items-center gap-2">
+          <CalendarClock className="h-5 w-5 text-orange-500" /> {t('lots.expiringTitle')}
+        </CardTitle>
+        <CardDescription>{t('lots.expiringDescription', { count: lots.length, days: NEAR_EXPIRY_DAYS })}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {lots.slice(0, MAX_ROWS).map(lot => {
+          const expired = getExpiryStatus(lot.expiry_date) === 'expired';
+          return (
+            <div key={lot.id || `${lot.product_id}-${lot.lot_number}`} className="flex items-center justify-between gap-4 text-sm">
+              <div className="min-w-0">
+                <div className="font-medium truncate">
+                  {lot.product_name}
+                  {lot.variant_name && <span className="text-muted-foreground"> · {lot.variant_name}</span>}
+                </div>
+                <div className="text-xs text-muted-foreground font-mono">
+                  {t('lots.lotLabel', { lot: lot.lot_number })} · {t('lots.unitsLeft', { count: lot.quantity })}
+                </div>
+              </div>
+              <Badge className={expired ? 'bg-red-100 text-red-800' : 'bg-orange-100 text-orange-800'}>
+                {t(expired ? 'lots.expiredOn' : 'lots.expiresOn', { date: formatDate(lot.expiry_date || '') })}
+              </Badge>
+            </div>
+          );
+        })}
+        {lots.length > MAX_ROWS && (
+          <p className="text-xs text-muted-foreground">{t('lots.moreExpiring', { count: lots.length - MAX_ROWS })}</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
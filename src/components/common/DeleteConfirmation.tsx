@@ -10,9 +10,10 @@ interface DeleteConfirmationProps {
   onConfirm: () => void;
   title: string;
   description: string;
+  confirmLabel?: string;
 }
 
-export default function DeleteConfirmation({ open, onOpenChange, onConfirm, title, description }: DeleteConfirmationProps) {
+export default function DeleteConfirmation({ open, onOpenChange, onConfirm, title, description, confirmLabel }: DeleteConfirmationProps) {
   const { t } = useTranslation();
 
   const handleConfirm = () => {
@@ -37,7 +38,7 @@ export default function DeleteConfirmation({ open, onOpenChange, onConfirm, titl
             {t('common.cancel')}
           </Button>
           <Button variant="destructive" onClick={handleConfirm}>
-            {t('common.delete')}
+            {confirmLabel || t('common.delete')}
           </Button>
         </DialogFooter>
       </DialogContent>
@@ -0,0 +1,345 @@
+import React, { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { AlertTriangle, CheckCircle2, Download, FileSpreadsheet, Upload } from 'lucide-react';
+import {
+  CatalogColumnMapping,
+  CatalogField,
+  CatalogImportContext,
+  CatalogImportIssue,
+  CatalogImportMode,
+  CatalogImportPlan
+} from '../../types/catalogImport';
+import { useCatalogImport } from '../../hooks/useCatalogImport';
+import { CATALOG_FIELDS, guessColumnMapping, validateCatalogImport } from '../../lib/catalogImport';
+import { downloadSpreadsheet, readSpreadsheetFile } from '../../lib/spreadsheet';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+
+interface CatalogImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onImported: () => void;
+}
+
+type ImportStep = 'file' | 'mapping' | 'review';
+
+const NOT_MAPPED = 'none';
+const MAX_ISSUES_SHOWN = 100;
+const REQUIRED_FIELDS: CatalogField[] = ['product_code', 'name', 'category'];
+
+export default function CatalogImportDialog({ open, onOpenChange, onImported }: CatalogImportDialogProps) {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const { isOnline, loadImportContext, importCatalog } = useCatalogImport();
+  const [step, setStep] = useState<ImportStep>('file');
+  const [fileName, setFileName] = useState('');
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [rows, setRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<CatalogColumnMapping>({});
+  const [mode, setMode] = useState<CatalogImportMode>('create');
+  const [createMissing, setCreateMissing] = useState(false);
+  const [context, setContext] = useState<CatalogImportContext | null>(null);
+  const [plan, setPlan] = useState<CatalogImportPlan | null>(null);
+  const [error, setError] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  const issueMessage = (issue: CatalogImportIssue) =>
+    t(`catalogImport.issues.${issue.code}`, { value: issue.value || '' });
+  const fieldLabel = (field?: CatalogField) => (field ? t(`catalogImport.fields.${field}`) : '');
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setError('');
+    try {
+      const [headerRow, ...dataRows] = await readSpreadsheetFile(file);
+      if (!headerRow || dataRows.length === 0) throw new Error(t('catalogImport.emptyFile'));
+      setFileName(file.name);
+      setHeaders(headerRow.map(h => h.trim()));
+      setRows(dataRows);
+      setMapping(guessColumnMapping(headerRow));
+      setPlan(null);
+      setStep('mapping');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('catalogImport.readFailed'));
+    }
+  };
+
+  const downloadTemplate = () => {
+    downloadSpreadsheet('catalog-template', [CATALOG_FIELDS.map(f => f.field)], 'csv');
+  };
+
+  const updateMapping = (field: CatalogField, value: string) => {
+    setMapping(prev => {
+      const next = { ...prev };
+      if (value === NOT_MAPPED) delete next[field];
+      else next[field] = parseInt(value);
+      return next;
+    });
+  };
+
+  const handleValidate = async () => {
+    setError('');
+    setLoading(true);
+    try {
+      // Loaded once per dialog, so re-validating after a mapping change is instant
+      const catalog = context || await loadImportContext();
+      setContext(catalog);
+      setPlan(validateCatalogImport(rows, mapping, catalog, { mode, create_missing: createMissing }));
+      setStep('review');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('catalogImport.readFailed'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const downloadErrorReport = () => {
+    if (!plan) return;
+    downloadSpreadsheet('catalog-import-report', [
+      [t('catalogImport.row'), t('catalogImport.column'), t('catalogImport.severity'), t('catalogImport.message')],
+      ...plan.issues.map(issue => [
+        issue.row,
+        fieldLabel(issue.field),
+        t(`catalogImport.severities.${issue.severity}`),
+        issueMessage(issue)
+      ])
+    ], 'csv');
+  };
+
+  const handleImport = async () => {
+    if (!plan || !context) return;
+
+    setError('');
+    setLoading(true);
+    try {
+      const result = await importCatalog(plan, context);
+      toast({
+        title: t('common.success'),
+        description: t('catalogImport.imported', { ...result }),
+      });
+      onImported();
+      onOpenChange(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('errors.savingFailed'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const errorCount = plan?.issues.filter(issue => issue.severity === 'error').length || 0;
+  const toCreate = plan?.products.filter(p => !p.existing_id).length || 0;
+  const toUpdate = plan?.products.filter(p => p.existing_id).length || 0;
+  const variantCount = plan?.products.reduce((sum, p) => sum + p.variants.length, 0) || 0;
+  const missingRequired = REQUIRED_FIELDS.filter(field => mapping[field] === undefined);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FileSpreadsheet className="h-5 w-5" />
+            {t('catalogImport.title')}
+          </DialogTitle>
+        </DialogHeader>
+
+        {step === 'file' && (
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">{t('catalogImport.fileHint')}</p>
+            <Label
+              htmlFor="catalog-file"
+              className="flex flex-col items-center justify-center gap-2 rounded-md border-2 border-dashed border-border p-8 cursor-pointer hover:bg-muted/50"
+            >
+              <Upload className="h-8 w-8 text-muted-foreground" />
+              <span>{t('catalogImport.chooseFile')}</span>
+              <span className="text-xs text-muted-foreground">CSV, XLSX</span>
+            </Label>
+            <Input id="catalog-file" type="file" accept=".csv,.txt,.xlsx" onChange={handleFile} className="hidden" />
+            <Button type="button" variant="outline" onClick={downloadTemplate} className="flex items-center gap-2">
+              <Download className="h-4 w-4" />
+              {t('catalogImport.downloadTemplate')}
+            </Button>
+          </div>
+        )}
+
+        {step === 'mapping' && (
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              {t('catalogImport.mappingHint', { file: fileName, count: rows.length })}
+            </p>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              {CATALOG_FIELDS.map(({ field }) => (
+                <div key={field} className="space-y-1">
+                  <Label className="text-xs">
+                    {fieldLabel(field)}
+                    {REQUIRED_FIELDS.includes(field) && <span className="text-red-500"> *</span>}
+                  </Label>
+                  <Select
+                    value={mapping[field] === undefined ? NOT_MAPPED : String(mapping[field])}
+                    onValueChange={(value) => updateMapping(field, value)}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NOT_MAPPED}>{t('catalogImport.notImported')}</SelectItem>
+                      {headers.map((header, index) => (
+                        <SelectItem key={index} value={String(index)}>
+                          {header || t('catalogImport.columnNumber', { number: index + 1 })}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 rounded-md border border-border p-3">
+              <div className="space-y-1">
+                <Label className="text-xs">{t('catalogImport.mode')}</Label>
+                <Select value={mode} onValueChange={(value) => setMode(value as CatalogImportMode)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="create">{t('catalogImport.modes.create')}</SelectItem>
+                    <SelectItem value="upsert">{t('catalogImport.modes.upsert')}</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <Label className="flex items-center gap-2 text-sm font-normal self-end pb-2">
+                <Checkbox checked={createMissing} onCheckedChange={(checked) => setCreateMissing(checked === true)} />
+                {t('catalogImport.createMissing')}
+              </Label>
+            </div>
+
+            {missingRequired.length > 0 && (
+              <p className="text-sm text-orange-600">
+                {t('catalogImport.unmappedRequired', { fields: missingRequired.map(fieldLabel).join(', ') })}
+              </p>
+            )}
+          </div>
+        )}
+
+        {step === 'review' && plan && (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 sm:grid-cols-3 gap-3 text-sm">
+              <div className="rounded-md bg-muted/50 p-3">
+                <div className="text-muted-foreground">{t('catalogImport.toCreate')}</div>
+                <div className="text-xl font-semibold">{toCreate}</div>
+              </div>
+              <div className="rounded-md bg-muted/50 p-3">
+                <div className="text-muted-foreground">{t('catalogImport.toUpdate')}</div>
+                <div className="text-xl font-semibold">{toUpdate}</div>
+              </div>
+              <div className="rounded-md bg-muted/50 p-3">
+                <div className="text-muted-foreground">{t('catalogImport.variants')}</div>
+                <div className="text-xl font-semibold">{variantCount}</div>
+              </div>
+              <div className="rounded-md bg-muted/50 p-3">
+                <div className="text-muted-foreground">{t('catalogImport.newCategories')}</div>
+                <div className="text-xl font-semibold">{plan.new_categories.length}</div>
+              </div>
+              <div className="rounded-md bg-muted/50 p-3">
+                <div className="text-muted-foreground">{t('catalogImport.newSuppliers')}</div>
+                <div className="text-xl font-semibold">{plan.new_suppliers.length}</div>
+              </div>
+              <div className="rounded-md bg-muted/50 p-3">
+                <div className="text-muted-foreground">{t('catalogImport.skippedRows')}</div>
+                <div className={`text-xl font-semibold ${plan.skipped_rows > 0 ? 'text-red-600' : ''}`}>{plan.skipped_rows}</div>
+              </div>
+            </div>
+
+            {plan.issues.length === 0 ? (
+              <p className="flex items-center gap-2 text-sm text-green-600">
+                <CheckCircle2 className="h-4 w-4" />
+                {t('catalogImport.noIssues')}
+              </p>
+            ) : (
+              <div className="space-y-2">
+                <div className="flex items-center justify-between gap-2">
+                  <p className="flex items-center gap-2 text-sm">
+                    <AlertTriangle className="h-4 w-4 text-orange-500" />
+                    {t('catalogImport.issueSummary', { errors: errorCount, warnings: plan.issues.length - errorCount })}
+                  </p>
+                  <Button type="button" size="sm" variant="outline" onClick={downloadErrorReport} className="flex items-center gap-2">
+                    <Download className="h-4 w-4" />
+                    {t('catalogImport.downloadReport')}
+                  </Button>
+                </div>
+                <div className="max-h-64 overflow-y-auto rounded-md border border-border">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="w-16">{t('catalogImport.row')}</TableHead>
+                        <TableHead>{t('catalogImport.column')}</TableHead>
+                        <TableHead>{t('catalogImport.message')}</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {plan.issues.slice(0, MAX_ISSUES_SHOWN).map((issue, index) => (
+                        <TableRow key={index}>
+                          <TableCell className="font-mono">{issue.row}</TableCell>
+                          <TableCell className="whitespace-nowrap">{fieldLabel(issue.field)}</TableCell>
+                          <TableCell>
+                            <Badge className={issue.severity === 'error' ? 'bg-red-100 text-red-800 mr-2' : 'bg-orange-100 text-orange-800 mr-2'}>
+                              {t(`catalogImport.severities.${issue.severity}`)}
+                            </Badge>
+                            {issueMessage(issue)}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+                {plan.issues.length > MAX_ISSUES_SHOWN && (
+                  <p className="text-xs text-muted-foreground">
+                    {t('catalogImport.moreIssues', { count: plan.issues.length - MAX_ISSUES_SHOWN })}
+                  </p>
+                )}
+              </div>
+            )}
+
+            {!isOnline && <p className="text-sm text-orange-600">{t('catalogImport.offline')}</p>}
+          </div>
+        )}
+
+        {error && <p className="text-sm text-red-500">{error}</p>}
+
+        <div className="flex justify-between gap-2">
+          <div>
+            {step !== 'file' && (
+              <Button type="button" variant="outline" onClick={() => setStep(step === 'review' ? 'mapping' : 'file')}>
+                {t('common.back')}
+              </Button>
+            )}
+          </div>
+          <div className="flex gap-2">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              {t('common.cancel')}
+            </Button>
+            {step === 'mapping' && (
+              <Button type="button" onClick={handleValidate} disabled={loading || mapping.product_code === undefined}>
+                {loading ? t('common.loading') : t('catalogImport.validate')}
+              </Button>
+            )}
+            {step === 'review' && (
+              <Button type="button" onClick={handleImport} disabled={loading || !isOnline || plan?.products.length === 0}>
+                {loading ? t('common.loading') : t('catalogImport.import', { count: plan?.products.length || 0 })}
+              </Button>
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,114 @@
+import { useTranslation } from 'react-i18next';
+import { Plus, Trash2 } from 'lucide-react';
+import { KitComponent, Product } from '../../types/inventory';
+import { canBeKitComponent, kitComponentFor } from '../../lib/kits';
+import { activeVariants } from '../../lib/variants';
+import { formatCurrency } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+
+interface KitComponentsEditorProps {
+  components: KitComponent[];
+  onChange: (components: KitComponent[]) => void;
+  // Catalogue to pick components from, without the kit being edited
+  products: Product[];
+  cost: number;
+  error?: string | null;
+}
+
+const optionKey = (productId: string, variantId?: string | null) => `${productId}:${variantId || ''}`;
+
+export default function KitComponentsEditor({ components, onChange, products, cost, error }: KitComponentsEditorProps) {
+  const { t } = useTranslation();
+
+  // Each variant is its own option since it's a different item on the shelf
+  const options = products.filter(canBeKitComponent).flatMap(product => {
+    const variants = activeVariants(product);
+    return variants.length > 0
+      ? variants.map(variant => ({ key: optionKey(product.id, variant.id), component: kitComponentFor(product, variant) }))
+      : [{ key: optionKey(product.id), component: kitComponentFor(product) }];
+  });
+
+  const selectComponent = (index: number, key: string) => {
+    const option = options.find(o => o.key === key);
+    if (!option) return;
+    onChange(components.map((component, i) => (
+      i === index ? { ...option.component, quantity: component.quantity } : component
+    )));
+  };
+
+  const updateQuantity = (index: number, quantity: number) => {
+    onChange(components.map((component, i) => (i === index ? { ...component, quantity } : component)));
+  };
+
+  const addComponent = () => {
+    const used = new Set(components.map(c => optionKey(c.product_id, c.variant_id)));
+    const next = options.find(o => !used.has(o.key));
+    if (next) onChange([...components, next.component]);
+  };
+
+  return (
+    <div className="space-y-3">
+      {components.map((component, index) => (
+        <div key={index} className="grid grid-cols-[1fr_6rem_auto] items-end gap-2">
+          <div className="space-y-2">
+            {index === 0 && <Label>{t('kits.component')}</Label>}
+            <Select
+              value={optionKey(component.product_id, component.variant_id)}
+              onValueChange={(value) => selectComponent(index, value)}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder={component.name} />
+              </SelectTrigger>
+              <SelectContent>
+                {options.map(option => (
+                  <SelectItem key={option.key} value={option.key}>
+                    {option.component.name} ({option.component.product_code})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            {index === 0 && <Label>{t('common.quantity')}</Label>}
+            <Input
+              type="number"
+              min="1"
+              step="1"
+              value={component.quantity}
+              onChange={(e) => updateQuantity(index, Math.max(parseInt(e.target.value) || 0, 0))}
+            />
+          </div>
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            onClick={() => onChange(components.filter((_, i) => i !== index))}
+            className="text-destructive hover:text-destructive"
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+
+      <div className="flex items-center justify-between gap-2">
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={addComponent}
+          disabled={options.length <= components.length}
+        >
+          <Plus className="h-4 w-4 mr-2" />
+          {t('kits.addComponent')}
+        </Button>
+        <span className="text-sm text-muted-foreground">{t('kits.componentCost', { cost: formatCurrency(cost) })}</span>
+      </div>
+
+      {error && <p className="text-sm text-destructive">{error}</p>}
+      <p className="text-xs text-muted-foreground">{t('kits.hint')}</p>
+    </div>
+  );
+}
@@ -0,0 +1,228 @@
+import { useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Printer } from 'lucide-react';
+import { Product } from '../../types/inventory';
+import { LabelSettings } from '../../types/labels';
+import { useSettings } from '../../hooks/useSettings';
+import {
+  buildLabelDocument,
+  CUSTOM_TEMPLATE_ID,
+  getLabelTemplate,
+  LABEL_TEMPLATES,
+  labelItemFor,
+  labelsPerPage,
+  printLabels
+} from '../../lib/labels';
+import { activeVariants } from '../../lib/variants';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { formatCurrency } from '@/lib/utils';
+
+interface PrintLabelsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  products: Product[];
+}
+
+// Rough CSS pixels per millimetre, only used to fit the preview in the dialog
+const PX_PER_MM = 3.78;
+const PREVIEW_WIDTH_PX = 640;
+
+export default function PrintLabelsDialog({ open, onOpenChange, products }: PrintLabelsDialogProps) {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const { settings } = useSettings();
+  const currency = settings.pos.currency;
+
+  // Template and style can be switched for one print run without touching the saved settings
+  const [labelSettings, setLabelSettings] = useState<LabelSettings>(settings.labels);
+  const [copies, setCopies] = useState<Record<string, number>>({});
+  const [skip, setSkip] = useState(0);
+
+  // Each variant gets its own label since it has its own price and barcode
+  const rows = useMemo(() => products.flatMap(product => {
+    const variants = activeVariants(product);
+    return variants.length > 0
+      ? variants.map(variant => ({ item: labelItemFor(product, variant), stock: variant.quantity_in_stock }))
+      : [{ item: labelItemFor(product), stock: product.quantity_in_stock }];
+  }), [products]);
+
+  const items = useMemo(
+    () => rows.map(({ item }) => ({ ...item, copies: copies[item.key] ?? 1 })),
+    [rows, copies]
+  );
+  const total = items.reduce((sum, item) => sum + item.copies, 0);
+
+  const template = getLabelTemplate(labelSettings);
+  const perPage = labelsPerPage(template);
+  const offset = template.kind === 'sheet' ? Math.min(skip, perPage - 1) : 0;
+
+  const preview = useMemo(() => {
+    let room = template.kind === 'sheet' ? perPage - offset : 1;
+    const firstPage = items.flatMap(item => {
+      const count = Math.min(item.copies, room);
+      room -= count;
+      return count > 0 ? [{ ...item, copies: count }] : [];
+    });
+    const scale = Math.min(PREVIEW_WIDTH_PX / (template.page_width_mm * PX_PER_MM), 1.5);
+    return buildLabelDocument(firstPage, labelSettings, { currency, skip: offset, preview_scale: scale });
+  }, [items, template, perPage, offset, labelSettings, currency]);
+
+  const setAll = (value: (stock: number) => number) => {
+    setCopies(Object.fromEntries(rows.map(({ item, stock }) => [item.key, Math.max(value(stock), 0)])));
+  };
+
+  const handlePrint = () => {
+    try {
+      printLabels(items.filter(item => item.copies > 0), labelSettings, { currency, skip: offset });
+    } catch (error) {
+      toast({
+        title: t('common.error'),
+        description: error instanceof Error ? error.message : t('labels.printFailed'),
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Printer className="h-5 w-5" />
+            {t('labels.title')}
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label>{t('settings.labels.template')}</Label>
+              <Select
+                value={labelSettings.template_id}
+                onValueChange={(value) => setLabelSettings(prev => ({ ...prev, template_id: value }))}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {LABEL_TEMPLATES.map(option => (
+                    <SelectItem key={option.id} value={option.id}>{option.name}</SelectItem>
+                  ))}
+                  <SelectItem value={CUSTOM_TEMPLATE_ID}>{t('settings.labels.customTemplate')}</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>{t('settings.labels.style')}</Label>
+              <Select
+                value={labelSettings.style}
+                onValueChange={(value) => setLabelSettings(prev => ({ ...prev, style: value as LabelSettings['style'] }))}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="shelf">{t('settings.labels.styles.shelf')}</SelectItem>
+                  <SelectItem value="sticker">{t('settings.labels.styles.sticker')}</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            {template.kind === 'sheet' && (
+              <div className="space-y-2">
+                <Label htmlFor="label-skip">{t('labels.skip')}</Label>
+                <Input
+                  id="label-skip"
+                  type="number"
+                  min={0}
+                  max={perPage - 1}
+                  value={skip}
+                  onChange={(e) => setSkip(Math.max(parseInt(e.target.value) || 0, 0))}
+                />
+              </div>
+            )}
+          </div>
+
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="text-sm text-muted-foreground">{t('labels.setCopies')}</span>
+            <Button type="button" variant="outline" size="sm" onClick={() => setAll(() => 1)}>
+              {t('labels.onePerProduct')}
+            </Button>
+            <Button type="button" variant="outline" size="sm" onClick={() => setAll(stock => stock)}>
+              {t('labels.matchStock')}
+            </Button>
+            <Button type="button" variant="outline" size="sm" onClick={() => setAll(() => 0)}>
+              {t('labels.clear')}
+            </Button>
+          </div>
+
+          <div className="border rounded-md max-h-64 overflow-y-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>{t('common.product')}</TableHead>
+                  <TableHead>{t('labels.barcode')}</TableHead>
+                  <TableHead className="text-right">{t('labels.price')}</TableHead>
+                  <TableHead className="w-24">{t('labels.copies')}</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {items.map(item => (
+                  <TableRow key={item.key}>
+                    <TableCell>
+                      <div className="font-medium">{item.name}</div>
+                      <div className="text-xs text-muted-foreground font-mono">{item.product_code}</div>
+                    </TableCell>
+                    <TableCell className="font-mono text-xs">{item.barcode || '-'}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(item.price, currency)}</TableCell>
+                    <TableCell>
+                      <Input
+                        type="number"
+                        min={0}
+                        value={item.copies}
+                        onChange={(e) => setCopies(prev => ({
+                          ...prev,
+                          [item.key]: Math.max(parseInt(e.target.value) || 0, 0)
+                        }))}
+                      />
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+
+          <div className="space-y-2">
+            <Label>{t('labels.preview')}</Label>
+            <iframe
+              title={t('labels.preview')}
+              srcDoc={preview}
+              className="w-full h-80 border rounded-md bg-muted"
+            />
+          </div>
+
+          <div className="flex items-center justify-between gap-2">
+            <span className="text-sm text-muted-foreground">
+              {t('labels.total', { count: total })}
+              {template.kind === 'sheet' && total > 0 && ` · ${t('labels.sheets', { count: Math.ceil((total + offset) / perPage) })}`}
+            </span>
+            <div className="flex gap-2">
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                {t('common.cancel')}
+              </Button>
+              <Button type="button" onClick={handlePrint} disabled={total === 0}>
+                <Printer className="h-4 w-4 mr-2" />
+                {t('labels.print')}
+              </Button>
+            </div>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -2,6 +2,8 @@ import React from 'react';
 import { useTranslation } from 'react-i18next';
 import { Search, Download, Upload, RefreshCw, Plus } from 'lucide-react';
 import { Category, Supplier, InventoryFilters, Product } from '../../types/inventory';
+import { Location } from '../../types/locations';
+import { SpreadsheetFormat } from '../../lib/spreadsheet';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -13,6 +15,7 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
 import { Badge } from '@/components/ui/badge';
 import BarcodeScanButton from '../barcode/BarcodeScanButton';
 import { useInventory } from '../../hooks/useInventory';
@@ -23,8 +26,9 @@ interface ProductFiltersProps {
   filters: InventoryFilters;
   categories: Category[];
   suppliers: Supplier[];
+  locations: Location[];
   onFiltersChange: (filters: InventoryFilters) => void;
-  onExport: () => void;
+  onExport: (format: SpreadsheetFormat) => void;
   onImport: () => void;
   onRefresh: () => void;
   onAddProduct: () => void;
@@ -35,6 +39,7 @@ export default function ProductFilters({
   filters,
   categories,
   suppliers,
+  locations,
   onFiltersChange,
   onExport,
   onImport,
@@ -151,6 +156,14 @@ export default function ProductFilters({
     }
   };
 
+  const handleLocationChange = (value: string) => {
+    if (value === 'all') {
+      handleFilterChange('location_id', '');
+    } else {
+      handleFilterChange('location_id', value);
+    }
+  };
+
   const handleStockStatusChange = (value: string) => {
     handleFilterChange('low_stock_only', value === 'low');
   };
@@ -167,6 +180,7 @@ export default function ProductFilters({
       category_id: '',
       subcategory_id: '',
       supplier_id: '',
+      location_id: '',
       low_stock_only: false,
       is_active: true
     });
@@ -177,6 +191,7 @@ export default function ProductFilters({
     filters.category_id,
     filters.subcategory_id,
     filters.supplier_id,
+    filters.location_id,
     filters.low_stock_only
   ].filter(Boolean).length;
 
@@ -208,10 +223,18 @@ export default function ProductFilters({
               <RefreshCw className={`h-4 w-4 mr-2 ${isLoading ? 'animate-spin' : ''}`} />
               {t('common.refresh')}
             </Button>
-            <Button variant="outline" onClick={onExport}>
-              <Download className="h-4 w-4 mr-2" />
-              {t('common.export')}
-            </Button>
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="outline">
+                  <Download className="h-4 w-4 mr-2" />
+                  {t('common.export')}
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuItem onClick={() => onExport('csv')}>{t('catalogImport.exportCsv')}</DropdownMenuItem>
+                <DropdownMenuItem onClick={() => onExport('xlsx')}>{t('catalogImport.exportXlsx')}</DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
             <Button variant="outline" onClick={onImport}>
               <Upload className="h-4 w-4 mr-2" />
               {t('common.import')}
@@ -365,6 +388,28 @@ export default function ProductFilters({
             </Select>
           </div>
 
+          {locations.length > 1 && (
+            <div className="space-y-2">
+              <Label>{t('locations.location')}</Label>
+              <Select
+                value={filters.location_id || 'all'}
+                onValueChange={handleLocationChange}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder={t('locations.allLocations')} />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">{t('locations.allLocations')}</SelectItem>
+                  {locations.map(location => (
+                    <SelectItem key={location.id} value={location.id}>
+                      {location.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
           <div className="space-y-2">
             <Label>Stock Status</Label>
             <Select
@@ -439,6 +484,18 @@ export default function ProductFilters({
               </Badge>
             )}
             
+            {filters.location_id && (
+              <Badge variant="secondary" className="gap-1">
+                {t('locations.location')}: {locations.find(l => l.id === filters.location_id)?.name}
+                <button
+                  onClick={() => handleFilterChange('location_id', '')}
+                  className="ml-1 hover:text-destructive"
+                >
+                  ×
+                </button>
+              </Badge>
+            )}
+            
             {filters.low_stock_only && (
               <Badge variant="secondary" className="gap-1">
                 Low stock only
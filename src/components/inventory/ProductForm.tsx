@@ -1,11 +1,25 @@
 import React, { useState, useEffect } from 'react';
 import { useTranslation } from 'react-i18next';
-import { Plus, Trash2, Upload, Copy, RefreshCw } from 'lucide-react';
-import { Product, Category, Supplier, ProductFormData, ProductVariantFormData } from '../../types/inventory';
+import { Upload, Copy, RefreshCw } from 'lucide-react';
+import {
+  Product,
+  Category,
+  Supplier,
+  ProductFormData,
+  ProductVariantFormData,
+  UnitOfMeasure,
+  KitComponent,
+  VariantOption
+} from '../../types/inventory';
+import { TaxClass } from '../../types/tax';
+import { UNITS_OF_MEASURE, isMeasured, normalizeQuantity } from '../../lib/units';
+import { getKitCost, validateKitComponents } from '../../lib/kits';
+import { activeVariants, getVariantAttributes, getVariantOptions, validateVariantMatrix } from '../../lib/variants';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import {
@@ -17,11 +31,16 @@ import {
 } from '@/components/ui/select';
 import BarcodeScanButton from '../barcode/BarcodeScanButton';
 import CameraScannerModal from '../CameraScannerModal';
+import KitComponentsEditor from './KitComponentsEditor';
+import VariantMatrixEditor from './VariantMatrixEditor';
 
 interface ProductFormProps {
   product?: Product;
   categories: Category[];
   suppliers: Supplier[];
+  taxClasses?: TaxClass[];
+  // Catalogue kit components are picked from
+  products?: Product[];
   onSubmit: (data: ProductFormData) => Promise<void>;
   onCancel: () => void;
   onGenerateProductCode: () => Promise<string>;
@@ -33,6 +52,8 @@ export default function ProductForm({
   product, 
   categories, 
   suppliers, 
+  taxClasses = [],
+  products = [],
   onSubmit, 
   onCancel, 
   onGenerateProductCode,
@@ -53,7 +74,16 @@ export default function ProductForm({
     quantity_in_stock: 0,
     min_stock_level: 5,
     supplier_id: '',
+    tax_class_id: '',
     image_url: '',
+    is_serialized: false,
+    warranty_months: 0,
+    track_lots: false,
+    unit_of_measure: 'each',
+    plu: '',
+    is_kit: false,
+    kit_components: [],
+    variant_options: [],
     variants: []
   });
 
@@ -61,6 +91,9 @@ export default function ProductForm({
   const [imagePreview, setImagePreview] = useState<string>('');
   const [isGeneratingCode, setIsGeneratingCode] = useState(false);
   const [isGeneratingBarcode, setIsGeneratingBarcode] = useState(false);
+  const [barcodeError, setBarcodeError] = useState('');
+  const [kitError, setKitError] = useState<string | null>(null);
+  const [variantError, setVariantError] = useState<string | null>(null);
   const [showCameraScanner, setShowCameraScanner] = useState(false);
 
   useEffect(() => {
@@ -77,14 +110,26 @@ export default function ProductForm({
         quantity_in_stock: product.quantity_in_stock,
         min_stock_level: product.min_stock_level,
         supplier_id: product.supplier_id || '',
+        tax_class_id: product.tax_class_id || '',
         image_url: product.image_url || '',
-        variants: product.variants?.map(v => ({
+        is_serialized: !!product.is_serialized,
+        warranty_months: product.warranty_months || 0,
+        track_lots: !!product.track_lots,
+        unit_of_measure: product.unit_of_measure || 'each',
+        plu: product.plu || '',
+        is_kit: !!product.is_kit,
+        kit_components: product.kit_components || [],
+        variant_options: getVariantOptions(product),
+        variants: activeVariants(product).map(v => ({
+          id: v.id,
           name: v.name,
           value: v.value,
+          attributes: getVariantAttributes(v),
+          sku: v.sku || '',
           additional_cost: v.additional_cost,
           quantity_in_stock: v.quantity_in_stock,
           barcode: v.barcode || ''
-        })) || []
+        }))
       });
       setImagePreview(product.image_url || '');
       
@@ -99,9 +144,46 @@ export default function ProductForm({
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+    if (formData.is_kit) {
+      const problem = validateKitComponents(product?.id, formData.kit_components, products);
+      setKitError(problem);
+      if (problem) return;
+    } else {
+      const problem = validateVariantMatrix(
+        formData.variant_options,
+        formData.variants,
+        product ? activeVariants(product) : []
+      );
+      setVariantError(problem);
+      if (problem) return;
+    }
     await onSubmit(formData);
   };
 
+  // A kit is sold each, holds no stock of its own and costs what its components cost
+  const handleKitChange = (isKit: boolean) => {
+    setKitError(null);
+    setFormData(prev => ({
+      ...prev,
+      is_kit: isKit,
+      unit_of_measure: isKit ? 'each' : prev.unit_of_measure,
+      is_serialized: isKit ? false : prev.is_serialized,
+      track_lots: isKit ? false : prev.track_lots,
+      quantity_in_stock: isKit && !product ? 0 : prev.quantity_in_stock,
+      variant_options: isKit ? [] : prev.variant_options,
+      variants: isKit ? [] : prev.variants,
+      cost_price: isKit ? getKitCost(prev.kit_components, products) : prev.cost_price
+    }));
+  };
+
+  const handleKitComponentsChange = (components: KitComponent[]) => {
+    setKitError(null);
+    setFormData(prev => ({ ...prev, kit_components: components, cost_price: getKitCost(components, products) }));
+  };
+
+  // Stock on hand is carried at what it cost, so the cost follows deliveries and sales
+  const costFromStock = !!product && !product.is_kit && product.quantity_in_stock > 0;
+
   const handleInputChange = (field: keyof ProductFormData, value: unknown) => {
     setFormData(prev => ({ ...prev, [field]: value as never }));
   };
@@ -157,10 +239,12 @@ export default function ProductForm({
   const handleGenerateBarcode = async () => {
     try {
       setIsGeneratingBarcode(true);
+      setBarcodeError('');
       const barcode = await onGenerateBarcode();
       handleInputChange('barcode', barcode);
     } catch (error) {
       console.error('Failed to generate barcode:', error);
+      setBarcodeError(error instanceof Error ? error.message : t('inventory.barcodeGenerationFailed'));
     } finally {
       setIsGeneratingBarcode(false);
     }
@@ -175,27 +259,9 @@ export default function ProductForm({
     }
   };
 
-  const addVariant = () => {
-    const newVariant: ProductVariantFormData = {
-      name: '',
-      value: '',
-      additional_cost: 0,
-      quantity_in_stock: 0,
-      barcode: ''
-    };
-    handleInputChange('variants', [...formData.variants, newVariant]);
-  };
-
-  const updateVariant = (index: number, field: keyof ProductVariantFormData, value: unknown) => {
-    const updatedVariants = formData.variants.map((variant, i) => 
-      i === index ? { ...variant, [field]: value } : variant
-    );
-    handleInputChange('variants', updatedVariants);
-  };
-
-  const removeVariant = (index: number) => {
-    const updatedVariants = formData.variants.filter((_, i) => i !== index);
-    handleInputChange('variants', updatedVariants);
+  const handleVariantsChange = (variantOptions: VariantOption[], variants: ProductVariantFormData[]) => {
+    setVariantError(null);
+    setFormData(prev => ({ ...prev, variant_options: variantOptions, variants }));
   };
 
   const handleImageUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -332,6 +398,7 @@ export default function ProductForm({
                       <RefreshCw className={`h-4 w-4 ${isGeneratingBarcode ? 'animate-spin' : ''}`} />
                     </Button>
                   </div>
+                  {barcodeError && <p className="text-xs text-destructive">{barcodeError}</p>}
                 </div>
               </CardContent>
             </Card>
@@ -408,6 +475,27 @@ export default function ProductForm({
                   </Select>
                 </div>
 
+                {/* Tax Class */}
+                <div className="space-y-2">
+                  <Label>{t('inventory.taxClass')}</Label>
+                  <Select
+                    value={formData.tax_class_id || 'inherit'}
+                    onValueChange={(value) => handleInputChange('tax_class_id', value === 'inherit' ? '' : value)}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="inherit">{t('inventory.taxClassFromCategory')}</SelectItem>
+                      {taxClasses.filter(taxClass => taxClass.is_active).map(taxClass => (
+                        <SelectItem key={taxClass.id} value={taxClass.id}>
+                          {taxClass.name} ({taxClass.rate}%)
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
                 {/* Pricing */}
                 <div className="grid grid-cols-2 gap-4">
                   <div className="space-y-2">
@@ -420,7 +508,11 @@ export default function ProductForm({
                       required
                       value={formData.cost_price}
                       onChange={(e) => handleInputChange('cost_price', parseFloat(e.target.value) || 0)}
+                      disabled={formData.is_kit || costFromStock}
                     />
+                    {costFromStock && (
+                      <p className="text-xs text-muted-foreground">{t('inventory.costFromStock')}</p>
+                    )}
                   </div>
                   <div className="space-y-2">
                     <Label htmlFor="selling_price">{t('inventory.price')} *</Label>
@@ -433,6 +525,48 @@ export default function ProductForm({
                       value={formData.selling_price}
                       onChange={(e) => handleInputChange('selling_price', parseFloat(e.target.value) || 0)}
                     />
+                    {product && (
+                      <p className="text-xs text-muted-foreground">{t('inventory.priceHistoryHint')}</p>
+                    )}
+                  </div>
+                </div>
+
+                {/* Unit of measure */}
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label>{t('inventory.unitOfMeasure')}</Label>
+                    <Select
+                      value={formData.unit_of_measure}
+                      disabled={formData.is_kit}
+                      onValueChange={(value) => setFormData(prev => ({
+                        ...prev,
+                        unit_of_measure: value as UnitOfMeasure,
+                        // Serials and lots are counted in whole units
+                        is_serialized: value === 'each' && prev.is_serialized,
+                        track_lots: value === 'each' && prev.track_lots,
+                        quantity_in_stock: normalizeQuantity(prev.quantity_in_stock, value as UnitOfMeasure)
+                      }))}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {UNITS_OF_MEASURE.map(unit => (
+                          <SelectItem key={unit} value={unit}>{t(`inventory.units.${unit}`)}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="plu">{t('inventory.plu')}</Label>
+                    <Input
+                      id="plu"
+                      inputMode="numeric"
+                      maxLength={5}
+                      value={formData.plu}
+                      onChange={(e) => handleInputChange('plu', e.target.value.replace(/\D/g, ''))}
+                    />
+                    <p className="text-xs text-muted-foreground">{t('inventory.pluHint')}</p>
                   </div>
                 </div>
 
@@ -444,10 +578,20 @@ export default function ProductForm({
                       id="quantity"
                       type="number"
                       min="0"
+                      step={isMeasured(formData.unit_of_measure) ? '0.001' : '1'}
                       required
                       value={formData.quantity_in_stock}
-                      onChange={(e) => handleInputChange('quantity_in_stock', parseInt(e.target.value) || 0)}
+                      onChange={(e) => handleInputChange(
+                        'quantity_in_stock',
+                        normalizeQuantity(parseFloat(e.target.value) || 0, formData.unit_of_measure)
+                      )}
+                      disabled={!!product || formData.is_serialized || formData.is_kit}
                     />
+                    {product ? (
+                      <p className="text-xs text-muted-foreground">{t('stockMovements.editHint')}</p>
+                    ) : formData.is_serialized && (
+                      <p className="text-xs text-muted-foreground">{t('serials.openingStockHint')}</p>
+                    )}
                   </div>
                   <div className="space-y-2">
                     <Label htmlFor="min_stock">{t('inventory.minStock')} *</Label>
@@ -461,6 +605,60 @@ export default function ProductForm({
                     />
                   </div>
                 </div>
+
+                {/* Serial tracking */}
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label className="flex items-center gap-2 pt-8 font-normal">
+                      <Checkbox
+                        checked={formData.is_serialized}
+                        disabled={isMeasured(formData.unit_of_measure) || formData.is_kit}
+                        onCheckedChange={(checked) => setFormData(prev => ({
+                          ...prev,
+                          is_serialized: checked === true,
+                          // Serialized stock only arrives with its serials, through receiving
+                          quantity_in_stock: checked === true && !product ? 0 : prev.quantity_in_stock
+                        }))}
+                      />
+                      {t('serials.trackSerials')}
+                    </Label>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="warranty_months">{t('serials.warrantyMonths')}</Label>
+                    <Input
+                      id="warranty_months"
+                      type="number"
+                      min="0"
+                      value={formData.warranty_months}
+                      onChange={(e) => handleInputChange('warranty_months', parseInt(e.target.value) || 0)}
+                    />
+                  </div>
+                </div>
+
+                {/* Lot tracking */}
+                <div className="space-y-2">
+                  <Label className="flex items-center gap-2 font-normal">
+                    <Checkbox
+                      checked={formData.track_lots}
+                      disabled={isMeasured(formData.unit_of_measure) || formData.is_kit}
+                      onCheckedChange={(checked) => setFormData(prev => ({ ...prev, track_lots: checked === true }))}
+                    />
+                    {t('lots.trackLots')}
+                  </Label>
+                  <p className="text-xs text-muted-foreground">{t('lots.trackLotsHint')}</p>
+                </div>
+
+                {/* Kit */}
+                <div className="space-y-2">
+                  <Label className="flex items-center gap-2 font-normal">
+                    <Checkbox
+                      checked={formData.is_kit}
+                      onCheckedChange={(checked) => handleKitChange(checked === true)}
+                    />
+                    {t('kits.isKit')}
+                  </Label>
+                  <p className="text-xs text-muted-foreground">{t('kits.isKitHint')}</p>
+                </div>
               </CardContent>
             </Card>
           </div>
@@ -498,96 +696,40 @@ export default function ProductForm({
             </CardContent>
           </Card>
 
-          {/* Product Variants */}
-          <Card>
-            <CardHeader>
-              <div className="flex justify-between items-center">
+          {formData.is_kit ? (
+            <Card>
+              <CardHeader>
+                <CardTitle>{t('kits.components')}</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <KitComponentsEditor
+                  components={formData.kit_components}
+                  onChange={handleKitComponentsChange}
+                  products={products.filter(p => p.id !== product?.id)}
+                  cost={formData.cost_price}
+                  error={kitError}
+                />
+              </CardContent>
+            </Card>
+          ) : (
+            /* Product Variants */
+            <Card>
+              <CardHeader>
                 <CardTitle>{t('inventory.productVariants')}</CardTitle>
-                <Button type="button" variant="outline" onClick={addVariant}>
-                  <Plus className="h-4 w-4 mr-2" />
-                  {t('inventory.addVariant')}
-                </Button>
-              </div>
-            </CardHeader>
-            <CardContent>
-              {formData.variants.map((variant, index) => (
-                <Card key={index} className="mb-4">
-                  <CardContent className="pt-6">
-                    <div className="flex justify-between items-center mb-3">
-                      <h5 className="text-sm font-medium">
-                        {t('inventory.variant')} {index + 1}
-                      </h5>
-                      <Button
-                        type="button"
-                        variant="ghost"
-                        size="sm"
-                        onClick={() => removeVariant(index)}
-                        className="text-destructive hover:text-destructive"
-                      >
-                        <Trash2 className="h-4 w-4" />
-                      </Button>
-                    </div>
-                    
-                    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4">
-                      <div className="space-y-2">
-                        <Label>{t('common.name')}</Label>
-                        <Input
-                          value={variant.name}
-                          onChange={(e) => updateVariant(index, 'name', e.target.value)}
-                          placeholder="e.g., Color, Size"
-                        />
-                      </div>
-                      <div className="space-y-2">
-                        <Label>{t('common.value', 'Value')}</Label>
-                        <Input
-                          value={variant.value}
-                          onChange={(e) => updateVariant(index, 'value', e.target.value)}
-                          placeholder="e.g., Red, Large"
-                        />
-                      </div>
-                      <div className="space-y-2">
-                        <Label>{t('inventory.additionalCost')}</Label>
-                        <Input
-                          type="number"
-                          step="0.01"
-                          value={variant.additional_cost}
-                          onChange={(e) => updateVariant(index, 'additional_cost', parseFloat(e.target.value) || 0)}
-                        />
-                      </div>
-                      <div className="space-y-2">
-                        <Label>{t('common.quantity')}</Label>
-                        <Input
-                          type="number"
-                          min="0"
-                          value={variant.quantity_in_stock}
-                          onChange={(e) => updateVariant(index, 'quantity_in_stock', parseInt(e.target.value) || 0)}
-                        />
-                      </div>
-                      <div className="space-y-2">
-                        <Label>Barcode</Label>
-                        <div className="flex">
-                          <Input
-                            value={variant.barcode}
-                            onChange={(e) => updateVariant(index, 'barcode', e.target.value)}
-                            className="rounded-r-none"
-                            placeholder="Variant barcode"
-                          />
-                          <BarcodeScanButton
-                            onScan={(barcode) => updateVariant(index, 'barcode', barcode)}
-                            variant="outline"
-                            size="icon"
-                            className="rounded-l-none border-l-0"
-                            title="Scan Variant Barcode"
-                            description="Scan the barcode for this product variant"
-                          />
-                        </div>
-                      </div>
-                    </div>
-                  </CardContent>
-                </Card>
-              ))}
-            </CardContent>
-          </Card>
+              </CardHeader>
+              <CardContent>
+                <VariantMatrixEditor
+                  options={formData.variant_options}
+                  variants={formData.variants}
+                  onChange={handleVariantsChange}
+                  savedVariants={product ? activeVariants(product) : []}
+                  productCode={formData.product_code}
+                  onGenerateBarcode={onGenerateBarcode}
+                  error={variantError}
+                />
+              </CardContent>
+            </Card>
+          )}
 
           {/* Form Actions */}
           <div className="flex justify-end space-x-3 pt-6 border-t">
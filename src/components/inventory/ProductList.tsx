@@ -1,7 +1,9 @@
 import React from 'react';
 import { Product } from '../../types/inventory';
 import { UnifiedTable } from '../common/UnifiedTable';
-import { Eye, Edit, Trash2, Copy } from 'lucide-react';
+import { getSellableQuantity, isKit } from '../../lib/kits';
+import { getLocationQuantity } from '../../lib/locations';
+import { Eye, Edit, Trash2, Copy, Tag } from 'lucide-react';
 
 function CopiableCode({ value }: { value: string }) {
   const [copied, setCopied] = React.useState(false);
@@ -28,10 +30,15 @@ interface ProductListProps {
   onEdit: (product: Product) => void;
   onDelete: (id: string) => void;
   onView: (product: Product) => void;
+  onPrintLabels?: (product: Product) => void;
   loading?: boolean;
+  // Show stock at this location instead of the total
+  locationId?: string;
+  // Whole catalogue, for working out how many kits their components make up
+  catalog?: Product[];
 }
 
-export default function ProductList({ products, onEdit, onDelete, onView, loading }: ProductListProps) {
+export default function ProductList({ products, onEdit, onDelete, onView, onPrintLabels, loading, locationId, catalog = products }: ProductListProps) {
   const columns = [
     {
       key: 'image',
@@ -50,7 +57,11 @@ export default function ProductList({ products, onEdit, onDelete, onView, loadin
     { key: 'barcode', label: 'Barcode', render: (p: Product) => <CopiableCode value={p.barcode || ''} /> },
     { key: 'category', label: 'Category', render: (p: Product) => p.category?.name || '-' },
     { key: 'supplier', label: 'Supplier', render: (p: Product) => p.supplier_info?.name || p.supplier || '-' },
-    { key: 'quantity_in_stock', label: 'Stock' },
+    {
+      key: 'quantity_in_stock',
+      label: 'Stock',
+      render: (p: Product) => isKit(p) ? `${getSellableQuantity(p, catalog, locationId)} (kit)` : getLocationQuantity(p, locationId)
+    },
     { key: 'selling_price', label: 'Price', render: (p: Product) => `$${Number(p.selling_price || 0).toFixed(2)}` },
     { key: 'min_stock_level', label: 'Min Stock' },
     { key: 'is_active', label: 'Active', render: (p: Product) => p.is_active ? 'Yes' : 'No' },
@@ -68,6 +79,11 @@ export default function ProductList({ products, onEdit, onDelete, onView, loadin
           <button onClick={() => onView(product)} className="text-blue-600 hover:text-blue-900" title="View">
             <Eye className="h-4 w-4" />
           </button>
+          {onPrintLabels && (
+            <button onClick={() => onPrintLabels(product)} className="text-gray-600 hover:text-gray-900" title="Print labels">
+              <Tag className="h-4 w-4" />
+            </button>
+          )}
           <button onClick={() => onEdit(product)} className="text-indigo-600 hover:text-indigo-900" title="Edit">
             <Edit className="h-4 w-4" />
           </button>
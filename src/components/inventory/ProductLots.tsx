@@ -0,0 +1,214 @@
+import React, { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Product } from '../../types/inventory';
+import { ExpiryStatus, ProductLot } from '../../types/lots';
+import { useLots } from '../../hooks/useLots';
+import { getExpiryStatus, getUnassignedQuantity } from '../../lib/lots';
+import { activeVariants } from '../../lib/variants';
+import { formatDate } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import LoadingSpinner from '@/components/common/LoadingSpinner';
+
+interface ProductLotsProps {
+  product: Product;
+}
+
+const expiryStatusStyles: Record<ExpiryStatus, string> = {
+  none: 'bg-gray-100 text-gray-800',
+  ok: 'bg-green-100 text-green-800',
+  near_expiry: 'bg-orange-100 text-orange-800',
+  expired: 'bg-red-100 text-red-800'
+};
+
+const BASE_PRODUCT = 'base';
+
+export default function ProductLots({ product }: ProductLotsProps) {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const { getProductLots, addLot } = useLots();
+  const [lots, setLots] = useState<ProductLot[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showEmpty, setShowEmpty] = useState(false);
+  const [lotNumber, setLotNumber] = useState('');
+  const [expiryDate, setExpiryDate] = useState('');
+  const [quantity, setQuantity] = useState(0);
+  const [lotVariant, setLotVariant] = useState(BASE_PRODUCT);
+  const [saving, setSaving] = useState(false);
+
+  const loadLots = async () => {
+    setLoading(true);
+    try {
+      setLots(await getProductLots(product.id));
+    } catch (error) {
+      console.error('Error loading lots:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadLots();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [product.id]);
+
+  const variantId = lotVariant === BASE_PRODUCT ? undefined : lotVariant;
+  const selectedVariant = product.variants?.find(v => v.id === variantId);
+  const onHand = selectedVariant ? selectedVariant.quantity_in_stock : product.quantity_in_stock;
+  const unassigned = getUnassignedQuantity(lots, onHand, product.id, variantId);
+  const visibleLots = showEmpty ? lots : lots.filter(lot => lot.quantity > 0);
+
+  const variantLabel = (lot: ProductLot) => {
+    const variant = product.variants?.find(v => v.id === lot.variant_id);
+    return variant ? `${variant.name}: ${variant.value}` : '';
+  };
+
+  const handleAddLot = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      const lot = await addLot(product, {
+        lot_number: lotNumber,
+        expiry_date: expiryDate || undefined,
+        quantity,
+        variant_id: variantId
+      });
+      toast({
+        title: t('common.success'),
+        description: t('lots.lotAdded', { lot: lot.lot_number, count: lot.quantity }),
+      });
+      setLotNumber('');
+      setExpiryDate('');
+      setQuantity(0);
+      await loadLots();
+    } catch (error) {
+      toast({
+        title: t('common.error'),
+        description: error instanceof Error ? error.message : t('errors.savingFailed'),
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return <LoadingSpinner />;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-end">
+        <Label className="flex items-center gap-2 text-sm font-normal">
+          <Checkbox checked={showEmpty} onCheckedChange={(checked) => setShowEmpty(checked === true)} />
+          {t('lots.showEmpty')}
+        </Label>
+      </div>
+
+      {visibleLots.length === 0 ? (
+        <p className="text-center py-8 text-muted-foreground">{t('lots.noLots')}</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>{t('lots.lotNumber')}</TableHead>
+                <TableHead>{t('lots.expiryDate')}</TableHead>
+                <TableHead className="text-right">{t('common.quantity')}</TableHead>
+                <TableHead>{t('lots.receivedOn')}</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {visibleLots.map(lot => {
+                const status = getExpiryStatus(lot.expiry_date);
+                return (
+                  <TableRow key={lot.id || `${lot.variant_id}-${lot.lot_number}`}>
+                    <TableCell>
+                      <div className="font-mono text-sm">{lot.lot_number}</div>
+                      {lot.variant_id && (
+                        <div className="text-xs text-muted-foreground">{variantLabel(lot)}</div>
+                      )}
+                    </TableCell>
+                    <TableCell className="whitespace-nowrap">
+                      <div>{lot.expiry_date ? formatDate(lot.expiry_date) : '—'}</div>
+                      <Badge className={expiryStatusStyles[status]}>{t(`lots.expiryStatuses.${status}`)}</Badge>
+                    </TableCell>
+                    <TableCell className="text-right">{lot.quantity}</TableCell>
+                    <TableCell className="whitespace-nowrap">
+                      {lot.received_at ? formatDate(lot.received_at) : '—'}
+                      {lot.po_number && <div className="text-xs font-mono text-muted-foreground">{lot.po_number}</div>}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+
+      {/* Units already on the shelf when tracking was turned on are assigned to a lot here */}
+      <form onSubmit={handleAddLot} className="space-y-2 rounded-md border border-border p-4">
+        <h4 className="font-medium">{t('lots.addLotTitle')}</h4>
+        <p className="text-sm text-muted-foreground">{t('lots.unassigned', { count: unassigned })}</p>
+        {activeVariants(product).length > 0 && (
+          <Select value={lotVariant} onValueChange={setLotVariant}>
+            <SelectTrigger className="w-64">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={BASE_PRODUCT}>{t('stockMovements.baseProduct')}</SelectItem>
+              {activeVariants(product).map(variant => (
+                <SelectItem key={variant.id} value={variant.id}>{variant.name}: {variant.value}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+          <div className="space-y-1">
+            <Label htmlFor="new-lot-number" className="text-xs">{t('lots.lotNumber')}</Label>
+            <Input
+              id="new-lot-number"
+              value={lotNumber}
+              onChange={(e) => setLotNumber(e.target.value)}
+              className="font-mono uppercase"
+              disabled={unassigned === 0}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="new-lot-expiry" className="text-xs">{t('lots.expiryDate')}</Label>
+            <Input
+              id="new-lot-expiry"
+              type="date"
+              value={expiryDate}
+              onChange={(e) => setExpiryDate(e.target.value)}
+              disabled={unassigned === 0}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="new-lot-quantity" className="text-xs">{t('common.quantity')}</Label>
+            <Input
+              id="new-lot-quantity"
+              type="number"
+              min="0"
+              max={unassigned}
+              value={quantity}
+              onChange={(e) => setQuantity(Math.min(Math.max(parseInt(e.target.value) || 0, 0), unassigned))}
+              disabled={unassigned === 0}
+            />
+          </div>
+        </div>
+        <div className="flex justify-end">
+          <Button type="submit" disabled={saving || !lotNumber.trim() || quantity <= 0}>
+            {saving ? t('common.loading') : t('lots.addLot')}
+          </Button>
+        </div>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,310 @@
+import React, { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Product } from '../../types/inventory';
+import { PriceChange, ScheduledPrice, ScheduledPriceKind, ScheduledPriceState } from '../../types/pricing';
+import { usePricing } from '../../hooks/usePricing';
+import { getPriceChangePercent, getScheduledPriceState, getTillPrice } from '../../lib/pricing';
+import { activeVariants, variantLabel } from '../../lib/variants';
+import { formatCurrency, formatDateTime, toDateTimeInputValue } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import LoadingSpinner from '@/components/common/LoadingSpinner';
+
+interface ProductPricingProps {
+  product: Product;
+  onPriceChanged?: () => void;
+}
+
+const stateStyles: Record<ScheduledPriceState, string> = {
+  upcoming: 'bg-blue-100 text-blue-800',
+  live: 'bg-green-100 text-green-800',
+  ended: 'bg-gray-100 text-gray-800',
+  applied: 'bg-gray-100 text-gray-800',
+  cancelled: 'bg-red-100 text-red-800'
+};
+
+const BASE_PRODUCT = 'base';
+
+export default function ProductPricing({ product, onPriceChanged }: ProductPricingProps) {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const { getPriceHistory, getProductSchedules, schedulePrice, cancelScheduledPrice } = usePricing();
+  const [history, setHistory] = useState<PriceChange[]>([]);
+  const [schedules, setSchedules] = useState<ScheduledPrice[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [kind, setKind] = useState<ScheduledPriceKind>('sale');
+  const [priceVariant, setPriceVariant] = useState(BASE_PRODUCT);
+  const [price, setPrice] = useState(product.selling_price);
+  const [startsAt, setStartsAt] = useState(() => toDateTimeInputValue(new Date()));
+  const [endsAt, setEndsAt] = useState('');
+  const [notes, setNotes] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const loadPricing = async () => {
+    setLoading(true);
+    try {
+      const [priceHistory, productSchedules] = await Promise.all([
+        getPriceHistory(product.id),
+        getProductSchedules(product.id)
+      ]);
+      setHistory(priceHistory);
+      setSchedules(productSchedules);
+    } catch (error) {
+      console.error('Error loading pricing:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadPricing();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [product.id, product.selling_price]);
+
+  const variants = activeVariants(product);
+  const targetLabel = (variantId?: string | null) => {
+    const variant = product.variants?.find(v => v.id === variantId);
+    return variant ? variantLabel(variant) : t('stockMovements.baseProduct');
+  };
+  const tillPrice = getTillPrice(product, undefined, schedules);
+
+  const handleSchedule = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      await schedulePrice(product, {
+        variant_id: priceVariant === BASE_PRODUCT ? undefined : priceVariant,
+        kind,
+        price,
+        starts_at: startsAt,
+        ends_at: kind === 'sale' ? endsAt : undefined,
+        notes
+      });
+      toast({
+        title: t('common.success'),
+        description: t(`pricing.scheduled.${kind}`, { price: formatCurrency(price) }),
+      });
+      setEndsAt('');
+      setNotes('');
+      await loadPricing();
+      onPriceChanged?.();
+    } catch (error) {
+      toast({
+        title: t('common.error'),
+        description: error instanceof Error ? error.message : t('errors.savingFailed'),
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleCancel = async (entry: ScheduledPrice) => {
+    try {
+      await cancelScheduledPrice(entry.id);
+      await loadPricing();
+    } catch (error) {
+      toast({
+        title: t('common.error'),
+        description: error instanceof Error ? error.message : t('errors.savingFailed'),
+        variant: 'destructive',
+      });
+    }
+  };
+
+  if (loading) {
+    return <LoadingSpinner />;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-sm text-muted-foreground">{t('pricing.tillPrice')}</span>
+        <span className="text-lg font-semibold">{formatCurrency(tillPrice.price)}</span>
+        {tillPrice.sale && (
+          <>
+            <span className="text-sm text-muted-foreground line-through">{formatCurrency(tillPrice.regular_price)}</span>
+            <Badge className={stateStyles.live}>
+              {t('pricing.onSaleUntil', { date: formatDateTime(tillPrice.sale.ends_at || '') })}
+            </Badge>
+          </>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <h4 className="font-medium">{t('pricing.scheduleTitle')}</h4>
+        {schedules.length === 0 ? (
+          <p className="text-sm text-muted-foreground">{t('pricing.noSchedules')}</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>{t('pricing.kind')}</TableHead>
+                  <TableHead className="text-right">{t('pricing.price')}</TableHead>
+                  <TableHead>{t('pricing.startsAt')}</TableHead>
+                  <TableHead>{t('pricing.endsAt')}</TableHead>
+                  <TableHead>{t('pricing.state')}</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {schedules.map(entry => {
+                  const state = getScheduledPriceState(entry);
+                  return (
+                    <TableRow key={entry.id}>
+                      <TableCell>
+                        <div>{t(`pricing.kinds.${entry.kind}`)}</div>
+                        <div className="text-xs text-muted-foreground">{targetLabel(entry.variant_id)}</div>
+                        {entry.notes && <div className="text-xs text-muted-foreground">{entry.notes}</div>}
+                      </TableCell>
+                      <TableCell className="text-right">{formatCurrency(entry.price)}</TableCell>
+                      <TableCell className="whitespace-nowrap">{formatDateTime(entry.starts_at)}</TableCell>
+                      <TableCell className="whitespace-nowrap">{entry.ends_at ? formatDateTime(entry.ends_at) : '—'}</TableCell>
+                      <TableCell>
+                        <Badge className={stateStyles[state]}>{t(`pricing.states.${state}`)}</Badge>
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {(state === 'upcoming' || (state === 'live' && entry.kind === 'sale')) && (
+                          <Button variant="ghost" size="sm" onClick={() => handleCancel(entry)}>
+                            {state === 'live' ? t('pricing.endNow') : t('common.cancel')}
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </div>
+
+      <form onSubmit={handleSchedule} className="space-y-2 rounded-md border border-border p-4">
+        <h4 className="font-medium">{t('pricing.addTitle')}</h4>
+        <div className="flex flex-wrap gap-2">
+          <Select value={kind} onValueChange={(value) => setKind(value as ScheduledPriceKind)}>
+            <SelectTrigger className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="sale">{t('pricing.kinds.sale')}</SelectItem>
+              <SelectItem value="change">{t('pricing.kinds.change')}</SelectItem>
+            </SelectContent>
+          </Select>
+          {variants.length > 0 && (
+            <Select value={priceVariant} onValueChange={setPriceVariant}>
+              <SelectTrigger className="w-64">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={BASE_PRODUCT}>{t('stockMovements.baseProduct')}</SelectItem>
+                {variants.map(variant => (
+                  <SelectItem key={variant.id} value={variant.id}>{variantLabel(variant)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+        </div>
+        <p className="text-sm text-muted-foreground">{t(`pricing.kindHints.${kind}`)}</p>
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+          <div className="space-y-1">
+            <Label htmlFor="scheduled-price" className="text-xs">{t('pricing.price')}</Label>
+            <Input
+              id="scheduled-price"
+              type="number"
+              step="0.01"
+              min="0"
+              value={price}
+              onChange={(e) => setPrice(parseFloat(e.target.value) || 0)}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="scheduled-starts" className="text-xs">{t('pricing.startsAt')}</Label>
+            <Input
+              id="scheduled-starts"
+              type="datetime-local"
+              value={startsAt}
+              onChange={(e) => setStartsAt(e.target.value)}
+            />
+          </div>
+          {kind === 'sale' && (
+            <div className="space-y-1">
+              <Label htmlFor="scheduled-ends" className="text-xs">{t('pricing.endsAt')}</Label>
+              <Input
+                id="scheduled-ends"
+                type="datetime-local"
+                value={endsAt}
+                min={startsAt}
+                onChange={(e) => setEndsAt(e.target.value)}
+              />
+            </div>
+          )}
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="scheduled-notes" className="text-xs">{t('pricing.notes')}</Label>
+          <Input id="scheduled-notes" value={notes} onChange={(e) => setNotes(e.target.value)} />
+        </div>
+        <div className="flex justify-end">
+          <Button type="submit" disabled={saving || !startsAt || (kind === 'sale' && !endsAt)}>
+            {saving ? t('common.loading') : t('pricing.schedule')}
+          </Button>
+        </div>
+      </form>
+
+      <div className="space-y-2">
+        <h4 className="font-medium">{t('pricing.historyTitle')}</h4>
+        {history.length === 0 ? (
+          <p className="text-sm text-muted-foreground">{t('pricing.noHistory')}</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>{t('pricing.changedAt')}</TableHead>
+                  <TableHead className="text-right">{t('pricing.oldPrice')}</TableHead>
+                  <TableHead className="text-right">{t('pricing.newPrice')}</TableHead>
+                  <TableHead>{t('pricing.source')}</TableHead>
+                  <TableHead>{t('stockMovements.user')}</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {history.map(change => {
+                  const percent = getPriceChangePercent(change);
+                  return (
+                    <TableRow key={change.id}>
+                      <TableCell className="whitespace-nowrap">
+                        <div>{formatDateTime(change.created_at)}</div>
+                        {change.variant_id && (
+                          <div className="text-xs text-muted-foreground">{targetLabel(change.variant_id)}</div>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {change.old_price !== null ? formatCurrency(change.old_price) : '—'}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <div>{formatCurrency(change.new_price)}</div>
+                        {percent !== null && (
+                          <div className={`text-xs ${percent < 0 ? 'text-red-600' : 'text-green-600'}`}>
+                            {percent > 0 ? '+' : ''}{percent.toFixed(1)}%
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell>{t(`pricing.sources.${change.source}`)}</TableCell>
+                      <TableCell className="text-sm text-muted-foreground">{change.user_email || '—'}</TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,225 @@
+import React, { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Search } from 'lucide-react';
+import { Product } from '../../types/inventory';
+import { ProductSerial, SerialStatus } from '../../types/serials';
+import { useSerials } from '../../hooks/useSerials';
+import { getInStockSerials, getWarrantyStatus, parseSerialList } from '../../lib/serials';
+import { activeVariants } from '../../lib/variants';
+import { formatDate } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import LoadingSpinner from '@/components/common/LoadingSpinner';
+import SerialLookupDialog from './SerialLookupDialog';
+
+interface ProductSerialsProps {
+  product: Product;
+}
+
+const serialStatusStyles: Record<SerialStatus, string> = {
+  in_stock: 'bg-green-100 text-green-800',
+  sold: 'bg-blue-100 text-blue-800',
+  returned: 'bg-orange-100 text-orange-800'
+};
+
+const BASE_PRODUCT = 'base';
+
+export default function ProductSerials({ product }: ProductSerialsProps) {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const { getProductSerials, registerSerials } = useSerials();
+  const [serials, setSerials] = useState<ProductSerial[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [search, setSearch] = useState('');
+  const [statusFilter, setStatusFilter] = useState<SerialStatus | 'all'>('all');
+  const [registerText, setRegisterText] = useState('');
+  const [registerVariant, setRegisterVariant] = useState(BASE_PRODUCT);
+  const [registering, setRegistering] = useState(false);
+  const [lookupSerial, setLookupSerial] = useState<string | null>(null);
+
+  const loadSerials = async () => {
+    setLoading(true);
+    try {
+      setSerials(await getProductSerials(product.id));
+    } catch (error) {
+      console.error('Error loading serial numbers:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadSerials();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [product.id]);
+
+  const variantId = registerVariant === BASE_PRODUCT ? undefined : registerVariant;
+  const selectedVariant = product.variants?.find(v => v.id === variantId);
+  const onHand = selectedVariant ? selectedVariant.quantity_in_stock : product.quantity_in_stock;
+  const untracked = Math.max(onHand - getInStockSerials(serials, product.id, variantId).length, 0);
+  const entered = parseSerialList(registerText);
+
+  const variantLabel = (serial: ProductSerial) => {
+    const variant = product.variants?.find(v => v.id === serial.variant_id);
+    return variant ? `${variant.name}: ${variant.value}` : '';
+  };
+
+  const term = search.trim().toUpperCase();
+  const filteredSerials = serials.filter(serial =>
+    (statusFilter === 'all' || serial.status === statusFilter) &&
+    (!term || serial.serial_number.includes(term))
+  );
+
+  const handleRegister = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setRegistering(true);
+    try {
+      const registered = await registerSerials(product, entered, variantId);
+      toast({
+        title: t('common.success'),
+        description: t('serials.registered', { count: registered.length }),
+      });
+      setRegisterText('');
+      await loadSerials();
+    } catch (error) {
+      toast({
+        title: t('common.error'),
+        description: error instanceof Error ? error.message : t('errors.savingFailed'),
+        variant: 'destructive',
+      });
+    } finally {
+      setRegistering(false);
+    }
+  };
+
+  if (loading) {
+    return <LoadingSpinner />;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col sm:flex-row gap-2">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+          <Input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder={t('serials.searchPlaceholder')}
+            className="pl-9"
+          />
+        </div>
+        <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as SerialStatus | 'all')}>
+          <SelectTrigger className="w-44">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">{t('serials.allStatuses')}</SelectItem>
+            <SelectItem value="in_stock">{t('serials.statuses.in_stock')}</SelectItem>
+            <SelectItem value="sold">{t('serials.statuses.sold')}</SelectItem>
+            <SelectItem value="returned">{t('serials.statuses.returned')}</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {filteredSerials.length === 0 ? (
+        <p className="text-center py-8 text-muted-foreground">{t('serials.noSerials')}</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>{t('serials.serialNumber')}</TableHead>
+                <TableHead>{t('common.status')}</TableHead>
+                <TableHead>{t('serials.received')}</TableHead>
+                <TableHead>{t('serials.sold')}</TableHead>
+                <TableHead>{t('serials.warranty')}</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {filteredSerials.map(serial => (
+                <TableRow
+                  key={serial.serial_number}
+                  className="cursor-pointer"
+                  onClick={() => setLookupSerial(serial.serial_number)}
+                >
+                  <TableCell>
+                    <div className="font-mono text-sm">{serial.serial_number}</div>
+                    {serial.variant_id && (
+                      <div className="text-xs text-muted-foreground">{variantLabel(serial)}</div>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <Badge className={serialStatusStyles[serial.status]}>{t(`serials.statuses.${serial.status}`)}</Badge>
+                  </TableCell>
+                  <TableCell className="whitespace-nowrap">
+                    {serial.received_at ? formatDate(serial.received_at) : '—'}
+                    {serial.po_number && <div className="text-xs font-mono text-muted-foreground">{serial.po_number}</div>}
+                  </TableCell>
+                  <TableCell className="whitespace-nowrap">
+                    {serial.sold_at ? formatDate(serial.sold_at) : '—'}
+                    {serial.transaction_number && (
+                      <div className="text-xs font-mono text-muted-foreground">{serial.transaction_number}</div>
+                    )}
+                  </TableCell>
+                  <TableCell className="whitespace-nowrap">
+                    {serial.warranty_expires_at
+                      ? t(`serials.warrantyStatuses.${getWarrantyStatus(serial)}`, { date: formatDate(serial.warranty_expires_at) })
+                      : '—'}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+
+      {/* Units already on the shelf when tracking was turned on get their serials here */}
+      <form onSubmit={handleRegister} className="space-y-2 rounded-md border border-border p-4">
+        <h4 className="font-medium">{t('serials.registerTitle')}</h4>
+        <p className="text-sm text-muted-foreground">{t('serials.untracked', { count: untracked })}</p>
+        {activeVariants(product).length > 0 && (
+          <Select value={registerVariant} onValueChange={setRegisterVariant}>
+            <SelectTrigger className="w-64">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={BASE_PRODUCT}>{t('stockMovements.baseProduct')}</SelectItem>
+              {activeVariants(product).map(variant => (
+                <SelectItem key={variant.id} value={variant.id}>{variant.name}: {variant.value}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+        <Label htmlFor="register-serials" className="sr-only">{t('serials.serialNumber')}</Label>
+        <Textarea
+          id="register-serials"
+          value={registerText}
+          onChange={(e) => setRegisterText(e.target.value)}
+          placeholder={t('serials.scanPlaceholder')}
+          rows={3}
+          className="font-mono text-xs"
+          disabled={untracked === 0}
+        />
+        <div className="flex justify-end">
+          <Button type="submit" disabled={registering || entered.length === 0 || entered.length > untracked}>
+            {registering ? t('common.loading') : t('serials.register', { count: entered.length })}
+          </Button>
+        </div>
+      </form>
+
+      {lookupSerial && (
+        <SerialLookupDialog
+          open={!!lookupSerial}
+          onOpenChange={(open) => !open && setLookupSerial(null)}
+          initialSerial={lookupSerial}
+        />
+      )}
+    </div>
+  );
+}
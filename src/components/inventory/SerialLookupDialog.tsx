@@ -0,0 +1,197 @@
+import React, { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Search, ShieldCheck, ShieldOff, Wrench } from 'lucide-react';
+import { SerialLookupResult } from '../../types/serials';
+import { useSerials } from '../../hooks/useSerials';
+import { getWarrantyStatus } from '../../lib/serials';
+import { formatCurrency, formatDate, formatDateTime } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+
+interface SerialLookupDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  initialSerial?: string;
+}
+
+export default function SerialLookupDialog({ open, onOpenChange, initialSerial }: SerialLookupDialogProps) {
+  const { t } = useTranslation();
+  const { lookupSerial, isOnline } = useSerials();
+  const [query, setQuery] = useState(initialSerial || '');
+  const [result, setResult] = useState<SerialLookupResult | null>(null);
+  const [searched, setSearched] = useState(false);
+  const [error, setError] = useState('');
+  const [searching, setSearching] = useState(false);
+
+  const runLookup = async (serialNumber: string) => {
+    if (!serialNumber.trim()) return;
+
+    setSearching(true);
+    setError('');
+    try {
+      setResult(await lookupSerial(serialNumber));
+      setSearched(true);
+    } catch (err) {
+      setResult(null);
+      setError(err instanceof Error ? err.message : t('serials.errors.lookupFailed'));
+    } finally {
+      setSearching(false);
+    }
+  };
+
+  useEffect(() => {
+    if (open && initialSerial) {
+      runLookup(initialSerial);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open, initialSerial]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    runLookup(query);
+  };
+
+  const serial = result?.serial;
+  const warranty = serial ? getWarrantyStatus(serial) : 'none';
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{t('serials.lookupTitle')}</DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="flex gap-2">
+          <Input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder={t('serials.lookupPlaceholder')}
+            className="font-mono uppercase"
+            autoFocus
+          />
+          <Button type="submit" disabled={searching || !isOnline || !query.trim()}>
+            <Search className="h-4 w-4 mr-2" />
+            {t('common.search')}
+          </Button>
+        </form>
+
+        {!isOnline && <p className="text-sm text-muted-foreground">{t('serials.lookupOffline')}</p>}
+        {error && <p className="text-sm text-red-500">{error}</p>}
+        {searched && !result && !error && (
+          <p className="text-center py-6 text-muted-foreground">{t('serials.notFound')}</p>
+        )}
+
+        {result && (
+          <div className="space-y-6">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 text-sm">
+              <div>
+                <div className="text-muted-foreground">{t('common.product')}</div>
+                <div className="font-medium">{result.product_name || '—'}</div>
+                {result.product_code && <div className="text-xs text-muted-foreground">{result.product_code}</div>}
+                {result.variant_name && <div className="text-xs text-muted-foreground">{result.variant_name}</div>}
+              </div>
+              <div>
+                <div className="text-muted-foreground">{t('serials.serialNumber')}</div>
+                <div className="font-mono">{result.serial_number}</div>
+                {serial ? (
+                  <Badge variant="outline" className="mt-1">{t(`serials.statuses.${serial.status}`)}</Badge>
+                ) : (
+                  <Badge variant="outline" className="mt-1">{t('serials.unregistered')}</Badge>
+                )}
+              </div>
+              <div>
+                <div className="text-muted-foreground">{t('serials.received')}</div>
+                <div>{serial?.received_at ? formatDate(serial.received_at) : '—'}</div>
+                {serial?.po_number && <div className="text-xs font-mono text-muted-foreground">{serial.po_number}</div>}
+              </div>
+              <div>
+                <div className="text-muted-foreground">{t('serials.sold')}</div>
+                <div>{serial?.sold_at ? formatDate(serial.sold_at) : '—'}</div>
+                {serial?.transaction_number && (
+                  <div className="text-xs font-mono text-muted-foreground">{serial.transaction_number}</div>
+                )}
+              </div>
+              <div>
+                <div className="text-muted-foreground">{t('serials.customer')}</div>
+                <div>{result.customer?.name || '—'}</div>
+                {result.customer?.phone && <div className="text-xs text-muted-foreground">{result.customer.phone}</div>}
+              </div>
+              <div>
+                <div className="text-muted-foreground">{t('serials.warranty')}</div>
+                <div className={`flex items-center gap-1 ${warranty === 'active' ? 'text-green-700' : warranty === 'expired' ? 'text-red-700' : ''}`}>
+                  {warranty === 'active' ? <ShieldCheck className="h-4 w-4" /> : <ShieldOff className="h-4 w-4" />}
+                  {t(`serials.warrantyStatuses.${warranty}`, {
+                    date: serial?.warranty_expires_at ? formatDate(serial.warranty_expires_at) : ''
+                  })}
+                </div>
+              </div>
+            </div>
+
+            {result.history.length > 0 && (
+              <div className="space-y-2">
+                <h4 className="font-medium">{t('serials.history')}</h4>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>{t('common.date')}</TableHead>
+                      <TableHead>{t('serials.transaction')}</TableHead>
+                      <TableHead className="text-right">{t('serials.unitPrice')}</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {result.history.map(entry => (
+                      <TableRow key={`${entry.transaction_number}-${entry.transaction_type}`}>
+                        <TableCell className="whitespace-nowrap">{formatDateTime(entry.created_at)}</TableCell>
+                        <TableCell>
+                          <span className="font-mono text-xs">{entry.transaction_number}</span>
+                          {entry.transaction_type === 'refund' && (
+                            <Badge variant="outline" className="ml-2">{t('serials.refund')}</Badge>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right">{formatCurrency(entry.unit_price)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <h4 className="font-medium flex items-center gap-2">
+                <Wrench className="h-4 w-4" />
+                {t('serials.repairTickets')}
+              </h4>
+              {result.tickets.length === 0 ? (
+                <p className="text-sm text-muted-foreground">{t('serials.noTickets')}</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>{t('serials.ticket')}</TableHead>
+                      <TableHead>{t('common.date')}</TableHead>
+                      <TableHead>{t('common.status')}</TableHead>
+                      <TableHead>{t('common.description')}</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {result.tickets.map(ticket => (
+                      <TableRow key={ticket.id}>
+                        <TableCell className="font-mono text-xs">{ticket.ticket_number}</TableCell>
+                        <TableCell className="whitespace-nowrap">{formatDate(ticket.created_at)}</TableCell>
+                        <TableCell>{t(`tickets.${ticket.status}`)}</TableCell>
+                        <TableCell className="max-w-xs truncate">{ticket.device_info?.problemDescription || '—'}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
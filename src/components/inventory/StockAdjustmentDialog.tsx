@@ -0,0 +1,207 @@
+import React, { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Product } from '../../types/inventory';
+import { Location } from '../../types/locations';
+import { ManualMovementType, StockAdjustmentFormData } from '../../types/stockMovements';
+import { MANUAL_MOVEMENT_TYPES, getAdjustmentDelta } from '../../lib/stockMovements';
+import { getDefaultLocation, getLocationQuantity } from '../../lib/locations';
+import { isMeasured, normalizeQuantity, roundQuantity } from '../../lib/units';
+import { activeVariants } from '../../lib/variants';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+
+interface StockAdjustmentDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  product: Product;
+  locations: Location[];
+  onSubmit: (data: StockAdjustmentFormData) => Promise<void>;
+}
+
+const BASE_PRODUCT = 'base';
+
+export default function StockAdjustmentDialog({ open, onOpenChange, product, locations, onSubmit }: StockAdjustmentDialogProps) {
+  const { t } = useTranslation();
+  const [formData, setFormData] = useState<StockAdjustmentFormData>({
+    movement_type: 'adjustment',
+    location_id: getDefaultLocation(locations)?.id || '',
+    direction: 'in',
+    quantity: 0,
+    reason: '',
+    reference: ''
+  });
+  const [error, setError] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  const onHand = getLocationQuantity(product, formData.location_id, formData.variant_id);
+  const delta = getAdjustmentDelta(formData, onHand, product.unit_of_measure);
+  const isCount = formData.movement_type === 'count_correction';
+  const hasDirection = formData.movement_type === 'adjustment' || formData.movement_type === 'transfer';
+
+  const handleInputChange = <K extends keyof StockAdjustmentFormData>(field: K, value: StockAdjustmentFormData[K]) => {
+    setFormData(prev => ({ ...prev, [field]: value }));
+    setError('');
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!formData.reason.trim()) {
+      setError(t('stockMovements.errors.reasonRequired'));
+      return;
+    }
+    if (delta === 0) {
+      setError(t('stockMovements.errors.noChange'));
+      return;
+    }
+    if (roundQuantity(onHand + delta) < 0) {
+      setError(t('stockMovements.errors.insufficientStock', { onHand }));
+      return;
+    }
+
+    setLoading(true);
+    try {
+      await onSubmit(formData);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{t('stockMovements.adjustTitle', { name: product.name })}</DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {activeVariants(product).length > 0 && (
+            <div className="space-y-2">
+              <Label>{t('stockMovements.variant')}</Label>
+              <Select
+                value={formData.variant_id || BASE_PRODUCT}
+                onValueChange={(value) => handleInputChange('variant_id', value === BASE_PRODUCT ? undefined : value)}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={BASE_PRODUCT}>{t('stockMovements.baseProduct')}</SelectItem>
+                  {activeVariants(product).map(v => (
+                    <SelectItem key={v.id} value={v.id}>{v.name}: {v.value}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {locations.length > 1 && (
+            <div className="space-y-2">
+              <Label>{t('locations.location')}</Label>
+              <Select value={formData.location_id} onValueChange={(value) => handleInputChange('location_id', value)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {locations.map(location => (
+                    <SelectItem key={location.id} value={location.id}>{location.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>{t('stockMovements.type')}</Label>
+              <Select
+                value={formData.movement_type}
+                onValueChange={(value) => handleInputChange('movement_type', value as ManualMovementType)}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {MANUAL_MOVEMENT_TYPES.map(type => (
+                    <SelectItem key={type} value={type}>{t(`stockMovements.types.${type}`)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {hasDirection && (
+              <div className="space-y-2">
+                <Label>{t('stockMovements.direction')}</Label>
+                <Select
+                  value={formData.direction}
+                  onValueChange={(value) => handleInputChange('direction', value as StockAdjustmentFormData['direction'])}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="in">{t('stockMovements.directions.in')}</SelectItem>
+                    <SelectItem value="out">{t('stockMovements.directions.out')}</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="adjustment-quantity">
+              {isCount ? t('stockMovements.countedQuantity') : t('common.quantity')}
+            </Label>
+            <Input
+              id="adjustment-quantity"
+              type="number"
+              min="0"
+              step={isMeasured(product.unit_of_measure) ? '0.001' : '1'}
+              value={formData.quantity}
+              onChange={(e) => handleInputChange(
+                'quantity',
+                normalizeQuantity(parseFloat(e.target.value) || 0, product.unit_of_measure)
+              )}
+            />
+            <p className="text-sm text-muted-foreground">
+              {t('stockMovements.preview', { onHand, after: roundQuantity(onHand + delta) })}
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="adjustment-reason">{t('stockMovements.reason')} *</Label>
+            <Textarea
+              id="adjustment-reason"
+              value={formData.reason}
+              onChange={(e) => handleInputChange('reason', e.target.value)}
+              rows={2}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="adjustment-reference">{t('stockMovements.reference')}</Label>
+            <Input
+              id="adjustment-reference"
+              value={formData.reference}
+              onChange={(e) => handleInputChange('reference', e.target.value)}
+            />
+          </div>
+
+          {error && <p className="text-sm text-red-500">{error}</p>}
+
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={loading}>
+              {t('common.cancel')}
+            </Button>
+            <Button type="submit" disabled={loading}>
+              {loading ? t('common.loading') : t('stockMovements.record')}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
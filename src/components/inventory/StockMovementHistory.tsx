@@ -0,0 +1,189 @@
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { AlertTriangle, CheckCircle, SlidersHorizontal } from 'lucide-react';
+import { Product } from '../../types/inventory';
+import { Location } from '../../types/locations';
+import { StockAdjustmentFormData, StockMovement, StockMovementType } from '../../types/stockMovements';
+import { useStockMovements } from '../../hooks/useStockMovements';
+import { STOCK_MOVEMENT_TYPES, buildAdjustmentMovement, checkLedger } from '../../lib/stockMovements';
+import { getLocationQuantity } from '../../lib/locations';
+import { formatCurrency, formatDateTime } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import LoadingSpinner from '@/components/common/LoadingSpinner';
+import StockAdjustmentDialog from './StockAdjustmentDialog';
+
+interface StockMovementHistoryProps {
+  product: Product;
+  locations?: Location[];
+  onStockChanged?: () => void;
+}
+
+const typeStyles: Record<StockMovementType, string> = {
+  sale: 'bg-blue-100 text-blue-800',
+  refund: 'bg-purple-100 text-purple-800',
+  receive: 'bg-green-100 text-green-800',
+  adjustment: 'bg-gray-100 text-gray-800',
+  damage: 'bg-orange-100 text-orange-800',
+  theft: 'bg-red-100 text-red-800',
+  transfer: 'bg-indigo-100 text-indigo-800',
+  count_correction: 'bg-yellow-100 text-yellow-800',
+  repair: 'bg-teal-100 text-teal-800'
+};
+
+export default function StockMovementHistory({ product, locations = [], onStockChanged }: StockMovementHistoryProps) {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const { movements, loading, recordMovement } = useStockMovements(product.id);
+  const [typeFilter, setTypeFilter] = useState<StockMovementType | 'all'>('all');
+  const [showAdjust, setShowAdjust] = useState(false);
+
+  // Compare each stock holding (the product itself and every variant) with its ledger
+  const holdings = [
+    { id: null as string | null, label: t('stockMovements.baseProduct'), onHand: product.quantity_in_stock },
+    ...(product.variants || []).map(v => ({ id: v.id as string | null, label: `${v.name}: ${v.value}`, onHand: v.quantity_in_stock }))
+  ].map(holding => ({ ...holding, check: checkLedger(holding.onHand, movements, holding.id) }));
+
+  const unbalanced = holdings.filter(holding => !holding.check.balanced);
+  const filteredMovements = movements.filter(m => typeFilter === 'all' || m.movement_type === typeFilter);
+
+  const variantLabel = (movement: StockMovement) => {
+    const variant = product.variants?.find(v => v.id === movement.variant_id);
+    return variant ? `${variant.name}: ${variant.value}` : '';
+  };
+
+  const showLocations = locations.length > 1;
+  const locationName = (movement: StockMovement) => locations.find(l => l.id === movement.location_id)?.name || '—';
+
+  const handleAdjust = async (formData: StockAdjustmentFormData) => {
+    const onHand = getLocationQuantity(product, formData.location_id, formData.variant_id);
+
+    try {
+      await recordMovement(buildAdjustmentMovement(product.id, formData, onHand, product.unit_of_measure), onHand);
+      toast({
+        title: t('common.success'),
+        description: t('stockMovements.recorded'),
+      });
+      setShowAdjust(false);
+      onStockChanged?.();
+    } catch (error) {
+      console.error('Error recording stock movement:', error);
+      toast({
+        title: t('common.error'),
+        description: error instanceof Error ? error.message : t('errors.savingFailed'),
+        variant: 'destructive',
+      });
+    }
+  };
+
+  if (loading) {
+    return <LoadingSpinner />;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+        {unbalanced.length === 0 ? (
+          <div className="flex items-center gap-2 text-sm text-green-700">
+            <CheckCircle className="h-4 w-4" />
+            {t('stockMovements.balanced')}
+          </div>
+        ) : (
+          <div className="space-y-1 text-sm text-red-700">
+            {unbalanced.map(holding => (
+              <div key={holding.id || 'base'} className="flex items-center gap-2">
+                <AlertTriangle className="h-4 w-4" />
+                {t('stockMovements.unbalanced', {
+                  label: holding.label,
+                  onHand: holding.check.on_hand,
+                  ledger: holding.check.ledger_quantity
+                })}
+              </div>
+            ))}
+          </div>
+        )}
+        <div className="flex items-center gap-2">
+          <Select value={typeFilter} onValueChange={(value) => setTypeFilter(value as StockMovementType | 'all')}>
+            <SelectTrigger className="w-44">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">{t('stockMovements.allTypes')}</SelectItem>
+              {STOCK_MOVEMENT_TYPES.map(type => (
+                <SelectItem key={type} value={type}>{t(`stockMovements.types.${type}`)}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button onClick={() => setShowAdjust(true)} className="flex items-center gap-2">
+            <SlidersHorizontal className="h-4 w-4" />
+            {t('stockMovements.adjust')}
+          </Button>
+        </div>
+      </div>
+
+      {filteredMovements.length === 0 ? (
+        <p className="text-center py-8 text-muted-foreground">{t('stockMovements.noMovements')}</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>{t('common.date')}</TableHead>
+                <TableHead>{t('stockMovements.type')}</TableHead>
+                {showLocations && <TableHead>{t('locations.location')}</TableHead>}
+                <TableHead className="text-right">{t('common.quantity')}</TableHead>
+                <TableHead className="text-right">{t('stockMovements.balance')}</TableHead>
+                <TableHead className="text-right">{t('stockMovements.unitCost')}</TableHead>
+                <TableHead>{t('stockMovements.reason')}</TableHead>
+                <TableHead>{t('stockMovements.reference')}</TableHead>
+                <TableHead>{t('stockMovements.user')}</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {filteredMovements.map(movement => (
+                <TableRow key={movement.id}>
+                  <TableCell className="whitespace-nowrap">{formatDateTime(movement.created_at)}</TableCell>
+                  <TableCell>
+                    <div className="flex flex-wrap items-center gap-1">
+                      <Badge className={typeStyles[movement.movement_type]}>
+                        {t(`stockMovements.types.${movement.movement_type}`)}
+                      </Badge>
+                      {movement.pending && <Badge variant="outline">{t('stockMovements.pending')}</Badge>}
+                    </div>
+                    {movement.variant_id && (
+                      <div className="text-xs text-muted-foreground mt-1">{variantLabel(movement)}</div>
+                    )}
+                  </TableCell>
+                  {showLocations && <TableCell className="whitespace-nowrap">{locationName(movement)}</TableCell>}
+                  <TableCell className={`text-right font-medium ${movement.quantity < 0 ? 'text-red-600' : 'text-green-600'}`}>
+                    {movement.quantity > 0 ? `+${movement.quantity}` : movement.quantity}
+                  </TableCell>
+                  <TableCell className="text-right">{movement.quantity_after}</TableCell>
+                  <TableCell className="text-right">
+                    {movement.unit_cost != null ? formatCurrency(movement.unit_cost) : '—'}
+                  </TableCell>
+                  <TableCell className="max-w-xs truncate">{movement.reason || '—'}</TableCell>
+                  <TableCell className="font-mono text-xs">{movement.reference || '—'}</TableCell>
+                  <TableCell className="text-sm">{movement.user_email || '—'}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+
+      {showAdjust && (
+        <StockAdjustmentDialog
+          open={showAdjust}
+          onOpenChange={setShowAdjust}
+          product={product}
+          locations={locations}
+          onSubmit={handleAdjust}
+        />
+      )}
+    </div>
+  );
+}
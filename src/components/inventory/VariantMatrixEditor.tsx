@@ -0,0 +1,316 @@
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Plus, Trash2, X, Wand2, Barcode } from 'lucide-react';
+import { ProductVariant, ProductVariantFormData, VariantOption } from '../../types/inventory';
+import { buildVariantMatrix, variantLabel, variantSkuFor } from '../../lib/variants';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+
+interface VariantMatrixEditorProps {
+  options: VariantOption[];
+  variants: ProductVariantFormData[];
+  onChange: (options: VariantOption[], variants: ProductVariantFormData[]) => void;
+  // Active variants as last saved, to warn about the ones a change drops
+  savedVariants: ProductVariant[];
+  productCode: string;
+  onGenerateBarcode: () => Promise<string>;
+  error?: string | null;
+}
+
+const MAX_OPTIONS = 4;
+
+export default function VariantMatrixEditor({
+  options,
+  variants,
+  onChange,
+  savedVariants,
+  productCode,
+  onGenerateBarcode,
+  error
+}: VariantMatrixEditorProps) {
+  const { t } = useTranslation();
+  const [newValues, setNewValues] = useState<Record<number, string>>({});
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [bulkPrice, setBulkPrice] = useState('');
+  const [bulkStock, setBulkStock] = useState('');
+  const [generatingBarcodes, setGeneratingBarcodes] = useState(false);
+
+  const keptIds = new Set(variants.map(variant => variant.id).filter(Boolean));
+  const dropped = savedVariants.filter(variant => !keptIds.has(variant.id));
+
+  const changeOptions = (next: VariantOption[]) => {
+    setSelected(new Set());
+    onChange(next, buildVariantMatrix(next, variants));
+  };
+
+  const updateOption = (index: number, changes: Partial<VariantOption>) => {
+    changeOptions(options.map((option, i) => (i === index ? { ...option, ...changes } : option)));
+  };
+
+  // Renaming an axis would otherwise orphan every row keyed on the old name
+  const renameOption = (index: number, name: string) => {
+    const previous = options[index].name;
+    const renamed = variants.map(variant => {
+      const { [previous]: value, ...rest } = variant.attributes;
+      return value === undefined ? variant : { ...variant, attributes: { ...rest, [name]: value } };
+    });
+    const next = options.map((option, i) => (i === index ? { ...option, name } : option));
+    setSelected(new Set());
+    onChange(next, buildVariantMatrix(next, renamed));
+  };
+
+  const addValue = (index: number) => {
+    const values = (newValues[index] || '').split(',').map(value => value.trim()).filter(Boolean);
+    const option = options[index];
+    const merged = [...option.values, ...values.filter(value => !option.values.includes(value))];
+    setNewValues(prev => ({ ...prev, [index]: '' }));
+    if (merged.length !== option.values.length) updateOption(index, { values: merged });
+  };
+
+  const updateRow = (index: number, changes: Partial<ProductVariantFormData>) => {
+    onChange(options, variants.map((variant, i) => (i === index ? { ...variant, ...changes } : variant)));
+  };
+
+  const toggleRow = (index: number, checked: boolean) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (checked) next.add(index); else next.delete(index);
+      return next;
+    });
+  };
+
+  const allSelected = variants.length > 0 && selected.size === variants.length;
+  const targets = (index: number) => selected.size === 0 || selected.has(index);
+
+  // Applies to the ticked rows, or every row when none are ticked
+  const applyBulk = () => {
+    const price = bulkPrice.trim() === '' ? undefined : parseFloat(bulkPrice);
+    const stock = bulkStock.trim() === '' ? undefined : parseInt(bulkStock);
+    onChange(options, variants.map((variant, index) => {
+      if (!targets(index)) return variant;
+      return {
+        ...variant,
+        additional_cost: price !== undefined && !isNaN(price) ? price : variant.additional_cost,
+        // Stock on saved variants only changes through adjustments
+        quantity_in_stock: stock !== undefined && !isNaN(stock) && !variant.id ? Math.max(stock, 0) : variant.quantity_in_stock
+      };
+    }));
+    setBulkPrice('');
+    setBulkStock('');
+  };
+
+  const generateSkus = () => {
+    onChange(options, variants.map((variant, index) => (
+      targets(index) && !variant.sku ? { ...variant, sku: variantSkuFor(productCode, options, variant.attributes) } : variant
+    )));
+  };
+
+  const generateBarcodes = async () => {
+    try {
+      setGeneratingBarcodes(true);
+      const next = [...variants];
+      for (let index = 0; index < next.length; index++) {
+        if (targets(index) && !next[index].barcode) {
+          next[index] = { ...next[index], barcode: await onGenerateBarcode() };
+        }
+      }
+      onChange(options, next);
+    } catch (error) {
+      console.error('Failed to generate variant barcodes:', error);
+    } finally {
+      setGeneratingBarcodes(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-3">
+        {options.map((option, index) => (
+          <div key={index} className="grid grid-cols-1 md:grid-cols-[12rem_1fr_auto] items-start gap-2">
+            <Input
+              aria-label={t('variants.optionName')}
+              value={option.name}
+              onChange={(e) => renameOption(index, e.target.value)}
+              placeholder={t('variants.optionPlaceholder')}
+            />
+            <div className="flex flex-wrap items-center gap-2 rounded-md border border-input px-2 py-1.5 min-h-10">
+              {option.values.map(value => (
+                <span key={value} className="inline-flex items-center gap-1 rounded bg-muted px-2 py-0.5 text-sm">
+                  {value}
+                  <button
+                    type="button"
+                    aria-label={t('variants.removeValue', { value })}
+                    onClick={() => updateOption(index, { values: option.values.filter(v => v !== value) })}
+                    className="text-muted-foreground hover:text-foreground"
+                  >
+                    <X className="h-3 w-3" />
+                  </button>
+                </span>
+              ))}
+              <input
+                aria-label={t('variants.addValue')}
+                value={newValues[index] || ''}
+                onChange={(e) => setNewValues(prev => ({ ...prev, [index]: e.target.value }))}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter' || e.key === ',') {
+                    e.preventDefault();
+                    addValue(index);
+                  }
+                }}
+                onBlur={() => addValue(index)}
+                placeholder={t('variants.valuePlaceholder')}
+                className="flex-1 min-w-[8rem] bg-transparent text-sm outline-none"
+              />
+            </div>
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              onClick={() => changeOptions(options.filter((_, i) => i !== index))}
+              className="text-destructive hover:text-destructive"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => changeOptions([...options, { name: '', values: [] }])}
+          disabled={options.length >= MAX_OPTIONS}
+        >
+          <Plus className="h-4 w-4 mr-2" />
+          {t('variants.addOption')}
+        </Button>
+      </div>
+
+      {variants.length > 0 && (
+        <>
+          <div className="flex flex-wrap items-end gap-2 rounded-md border border-border p-3">
+            <div className="space-y-1">
+              <Label className="text-xs">{t('inventory.additionalCost')}</Label>
+              <Input
+                type="number"
+                step="0.01"
+                value={bulkPrice}
+                onChange={(e) => setBulkPrice(e.target.value)}
+                className="w-28"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">{t('variants.openingStock')}</Label>
+              <Input
+                type="number"
+                min="0"
+                value={bulkStock}
+                onChange={(e) => setBulkStock(e.target.value)}
+                className="w-28"
+              />
+            </div>
+            <Button type="button" variant="secondary" size="sm" onClick={applyBulk}>
+              {selected.size > 0
+                ? t('variants.applySelected', { count: selected.size })
+                : t('variants.applyAll')}
+            </Button>
+            <Button type="button" variant="outline" size="sm" onClick={generateSkus}>
+              <Wand2 className="h-4 w-4 mr-2" />
+              {t('variants.generateSkus')}
+            </Button>
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={generateBarcodes}
+              disabled={generatingBarcodes}
+            >
+              <Barcode className="h-4 w-4 mr-2" />
+              {generatingBarcodes ? t('common.loading') : t('variants.generateBarcodes')}
+            </Button>
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-border text-left text-muted-foreground">
+                  <th className="p-2 w-8">
+                    <Checkbox
+                      checked={allSelected}
+                      onCheckedChange={(checked) => setSelected(checked ? new Set(variants.map((_, i) => i)) : new Set())}
+                    />
+                  </th>
+                  {options.filter(option => option.name.trim() && option.values.length > 0).map(option => (
+                    <th key={option.name} className="p-2 font-medium">{option.name}</th>
+                  ))}
+                  <th className="p-2 font-medium">{t('inventory.sku')}</th>
+                  <th className="p-2 font-medium">{t('inventory.barcode')}</th>
+                  <th className="p-2 font-medium">{t('inventory.additionalCost')}</th>
+                  <th className="p-2 font-medium">{t('common.quantity')}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {variants.map((variant, index) => (
+                  <tr key={Object.values(variant.attributes).join('|')} className="border-b border-border">
+                    <td className="p-2">
+                      <Checkbox checked={selected.has(index)} onCheckedChange={(checked) => toggleRow(index, !!checked)} />
+                    </td>
+                    {options.filter(option => option.name.trim() && option.values.length > 0).map(option => (
+                      <td key={option.name} className="p-2 whitespace-nowrap">{variant.attributes[option.name]}</td>
+                    ))}
+                    <td className="p-2">
+                      <Input
+                        value={variant.sku}
+                        onChange={(e) => updateRow(index, { sku: e.target.value })}
+                        className="min-w-[8rem]"
+                      />
+                    </td>
+                    <td className="p-2">
+                      <Input
+                        value={variant.barcode}
+                        onChange={(e) => updateRow(index, { barcode: e.target.value })}
+                        className="min-w-[9rem]"
+                      />
+                    </td>
+                    <td className="p-2">
+                      <Input
+                        type="number"
+                        step="0.01"
+                        value={variant.additional_cost}
+                        onChange={(e) => updateRow(index, { additional_cost: parseFloat(e.target.value) || 0 })}
+                        className="w-24"
+                      />
+                    </td>
+                    <td className="p-2">
+                      <Input
+                        type="number"
+                        min="0"
+                        value={variant.quantity_in_stock}
+                        onChange={(e) => updateRow(index, { quantity_in_stock: Math.max(parseInt(e.target.value) || 0, 0) })}
+                        disabled={!!variant.id}
+                        title={variant.id ? t('variants.stockHint') : undefined}
+                        className="w-24"
+                      />
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+
+      {dropped.length > 0 && (
+        <p className="text-sm text-amber-600 dark:text-amber-400">
+          {t('variants.dropped', {
+            count: dropped.length,
+            variants: dropped.map(variant => variantLabel(variant)).join(', ')
+          })}
+        </p>
+      )}
+      {error && <p className="text-sm text-destructive">{error}</p>}
+      <p className="text-xs text-muted-foreground">{t('variants.hint')}</p>
+    </div>
+  );
+}
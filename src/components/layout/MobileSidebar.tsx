@@ -10,7 +10,13 @@ import {
   BarChart3,
   Settings,
   Wrench,
-  TrendingUp
+  TrendingUp,
+  Tag,
+  ClipboardList,
+  PackagePlus,
+  Truck,
+  ScanLine,
+  Warehouse
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { Button } from '@/components/ui/button';
@@ -29,6 +35,12 @@ const navigation = [
   { name: 'tickets', href: '/tickets', icon: Wrench },
   { name: 'analytics', href: '/analytics', icon: TrendingUp },
   { name: 'customers', href: '/customers', icon: Users },
+  { name: 'promotions', href: '/promotions', icon: Tag },
+  { name: 'purchaseOrders', href: '/purchase-orders', icon: ClipboardList },
+  { name: 'reorderPlanner', href: '/reorder-planner', icon: PackagePlus },
+  { name: 'suppliers', href: '/suppliers', icon: Truck },
+  { name: 'stocktake', href: '/stocktake', icon: ScanLine },
+  { name: 'locations', href: '/locations', icon: Warehouse },
   { name: 'reports', href: '/reports', icon: BarChart3 },
   { name: 'settings', href: '/settings', icon: Settings },
 ];
@@ -10,6 +10,12 @@ import {
   Settings,
   Wrench,
   TrendingUp,
+  Tag,
+  ClipboardList,
+  PackagePlus,
+  Truck,
+  ScanLine,
+  Warehouse,
   ChevronsLeft,
   ChevronsRight
 } from 'lucide-react';
@@ -22,6 +28,12 @@ const navigation = [
   { name: 'tickets', href: '/tickets', icon: Wrench },
   { name: 'analytics', href: '/analytics', icon: TrendingUp },
   { name: 'customers', href: '/customers', icon: Users },
+  { name: 'promotions', href: '/promotions', icon: Tag },
+  { name: 'purchaseOrders', href: '/purchase-orders', icon: ClipboardList },
+  { name: 'reorderPlanner', href: '/reorder-planner', icon: PackagePlus },
+  { name: 'suppliers', href: '/suppliers', icon: Truck },
+  { name: 'stocktake', href: '/stocktake', icon: ScanLine },
+  { name: 'locations', href: '/locations', icon: Warehouse },
   { name: 'reports', href: '/reports', icon: BarChart3 },
   { name: 'settings', href: '/settings', icon: Settings },
 ];
@@ -0,0 +1,112 @@
+import React, { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Location, LocationFormData } from '../../types/locations';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+
+interface LocationFormProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSubmit: (data: LocationFormData) => Promise<void>;
+  location?: Location;
+}
+
+export default function LocationForm({ open, onOpenChange, onSubmit, location }: LocationFormProps) {
+  const { t } = useTranslation();
+  const [formData, setFormData] = useState<LocationFormData>({
+    name: location?.name || '',
+    code: location?.code || '',
+    address: location?.address || '',
+    is_active: location?.is_active ?? true
+  });
+  const [error, setError] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  const handleInputChange = <K extends keyof LocationFormData>(field: K, value: LocationFormData[K]) => {
+    setFormData(prev => ({ ...prev, [field]: value }));
+    setError('');
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!formData.name.trim()) {
+      setError(t('locations.errors.nameRequired'));
+      return;
+    }
+
+    setLoading(true);
+    try {
+      await onSubmit(formData);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{location ? t('locations.editLocation') : t('locations.addLocation')}</DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+            <div className="space-y-2 sm:col-span-2">
+              <Label htmlFor="location-name">{t('common.name')} *</Label>
+              <Input
+                id="location-name"
+                value={formData.name}
+                onChange={(e) => handleInputChange('name', e.target.value)}
+                placeholder={t('locations.namePlaceholder')}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="location-code">{t('locations.code')}</Label>
+              <Input
+                id="location-code"
+                value={formData.code}
+                onChange={(e) => handleInputChange('code', e.target.value.toUpperCase())}
+                placeholder="BACK"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="location-address">{t('locations.address')}</Label>
+            <Textarea
+              id="location-address"
+              value={formData.address}
+              onChange={(e) => handleInputChange('address', e.target.value)}
+              rows={2}
+            />
+          </div>
+
+          <label className="flex items-center gap-2 text-sm">
+            <Checkbox
+              checked={formData.is_active}
+              disabled={location?.is_default}
+              onCheckedChange={(checked) => handleInputChange('is_active', checked === true)}
+            />
+            {t('locations.active')}
+          </label>
+
+          {error && <p className="text-sm text-red-500">{error}</p>}
+
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={loading}>
+              {t('common.cancel')}
+            </Button>
+            <Button type="submit" disabled={loading}>
+              {loading ? t('common.loading') : t('common.save')}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
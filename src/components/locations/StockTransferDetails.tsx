@@ -0,0 +1,92 @@
+import { useTranslation } from 'react-i18next';
+import { Location, StockTransfer } from '../../types/locations';
+import { getTransferUnits } from '../../lib/locations';
+import { formatDateTime } from '@/lib/utils';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+
+interface StockTransferDetailsProps {
+  transfer: StockTransfer;
+  locations: Location[];
+  onClose: () => void;
+}
+
+export default function StockTransferDetails({ transfer, locations, onClose }: StockTransferDetailsProps) {
+  const { t } = useTranslation();
+  const locationName = (id: string) => locations.find(l => l.id === id)?.name || '—';
+
+  const timeline = [
+    { label: t('locations.created'), at: transfer.created_at },
+    { label: t('locations.sent'), at: transfer.sent_at },
+    { label: t('locations.receivedAt'), at: transfer.received_at }
+  ];
+
+  return (
+    <Dialog open={true} onOpenChange={onClose}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>
+            {t('locations.transfer')} <span className="font-mono">{transfer.transfer_number}</span>
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 text-sm">
+            <div>
+              <div className="text-muted-foreground">{t('locations.from')}</div>
+              <div className="font-medium">{locationName(transfer.from_location_id)}</div>
+            </div>
+            <div>
+              <div className="text-muted-foreground">{t('locations.to')}</div>
+              <div className="font-medium">{locationName(transfer.to_location_id)}</div>
+            </div>
+            <div>
+              <div className="text-muted-foreground">{t('common.status')}</div>
+              <div className="font-medium">{t(`locations.statuses.${transfer.status}`)}</div>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 text-sm">
+            {timeline.map(step => (
+              <div key={step.label}>
+                <div className="text-muted-foreground">{step.label}</div>
+                <div>{step.at ? formatDateTime(step.at) : '—'}</div>
+              </div>
+            ))}
+          </div>
+
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>{t('common.product')}</TableHead>
+                <TableHead className="text-right">{t('common.quantity')}</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {transfer.lines.map(line => (
+                <TableRow key={line.id}>
+                  <TableCell>
+                    <div className="font-medium">{line.product_name}</div>
+                    <div className="text-xs text-muted-foreground">{line.product_code}</div>
+                  </TableCell>
+                  <TableCell className="text-right">{line.quantity}</TableCell>
+                </TableRow>
+              ))}
+              <TableRow>
+                <TableCell className="font-medium">{t('common.total')}</TableCell>
+                <TableCell className="text-right font-medium">{getTransferUnits(transfer)}</TableCell>
+              </TableRow>
+            </TableBody>
+          </Table>
+
+          {transfer.notes && (
+            <div className="text-sm">
+              <div className="text-muted-foreground">{t('locations.notes')}</div>
+              <p className="whitespace-pre-wrap">{transfer.notes}</p>
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,257 @@
+import React, { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Plus, Trash2 } from 'lucide-react';
+import { Product } from '../../types/inventory';
+import { Location, StockTransferFormData, StockTransferLine } from '../../types/locations';
+import { buildTransferCandidates, getDefaultLocation } from '../../lib/locations';
+import { isMeasured } from '../../lib/units';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+
+interface StockTransferFormProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSubmit: (data: StockTransferFormData) => Promise<void>;
+  locations: Location[];
+  products: Product[];
+}
+
+export default function StockTransferForm({ open, onOpenChange, onSubmit, locations, products }: StockTransferFormProps) {
+  const { t } = useTranslation();
+  const [formData, setFormData] = useState<StockTransferFormData>(() => {
+    const from = getDefaultLocation(locations) || locations[0];
+    return {
+      from_location_id: from?.id || '',
+      to_location_id: locations.find(l => l.id !== from?.id)?.id || '',
+      lines: [],
+      notes: ''
+    };
+  });
+  const [productSearch, setProductSearch] = useState('');
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(false);
+
+  // What the source location holds, keyed by line id
+  const candidates = formData.from_location_id ? buildTransferCandidates(products, formData.from_location_id) : [];
+  const available = new Map(candidates.map(candidate => [candidate.id, candidate.quantity]));
+
+  // Lines picked for one location don't carry over to another
+  const handleFromChange = (locationId: string) => {
+    setFormData(prev => ({
+      ...prev,
+      from_location_id: locationId,
+      to_location_id: prev.to_location_id === locationId ? '' : prev.to_location_id,
+      lines: []
+    }));
+  };
+
+  const addLine = (candidate: StockTransferLine) => {
+    setFormData(prev => ({ ...prev, lines: [...prev.lines, { ...candidate, quantity: 1 }] }));
+    setProductSearch('');
+  };
+
+  const updateQuantity = (lineId: string, quantity: number) => {
+    setFormData(prev => ({
+      ...prev,
+      lines: prev.lines.map(line => line.id === lineId ? { ...line, quantity } : line)
+    }));
+  };
+
+  const removeLine = (lineId: string) => {
+    setFormData(prev => ({ ...prev, lines: prev.lines.filter(line => line.id !== lineId) }));
+  };
+
+  const validateForm = () => {
+    const newErrors: Record<string, string> = {};
+
+    if (!formData.from_location_id || !formData.to_location_id) {
+      newErrors.locations = t('locations.errors.locationsRequired');
+    } else if (formData.from_location_id === formData.to_location_id) {
+      newErrors.locations = t('locations.errors.sameLocation');
+    }
+    if (formData.lines.length === 0) {
+      newErrors.lines = t('locations.errors.linesRequired');
+    } else if (formData.lines.some(line => line.quantity <= 0 || line.quantity > (available.get(line.id) || 0))) {
+      newErrors.lines = t('locations.errors.invalidLine');
+    }
+
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!validateForm()) return;
+
+    setLoading(true);
+    try {
+      await onSubmit(formData);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const term = productSearch.toLowerCase();
+  const productResults = term
+    ? candidates
+      .filter(candidate => !formData.lines.some(line => line.id === candidate.id))
+      .filter(candidate =>
+        candidate.product_name.toLowerCase().includes(term) || candidate.product_code.toLowerCase().includes(term)
+      )
+      .slice(0, 50)
+    : [];
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{t('locations.newTransfer')}</DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>{t('locations.from')} *</Label>
+              <Select value={formData.from_location_id} onValueChange={handleFromChange}>
+                <SelectTrigger className={errors.locations ? 'border-red-500' : ''}>
+                  <SelectValue placeholder={t('locations.selectLocation')} />
+                </SelectTrigger>
+                <SelectContent>
+                  {locations.map(location => (
+                    <SelectItem key={location.id} value={location.id}>{location.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>{t('locations.to')} *</Label>
+              <Select
+                value={formData.to_location_id}
+                onValueChange={(value) => setFormData(prev => ({ ...prev, to_location_id: value }))}
+              >
+                <SelectTrigger className={errors.locations ? 'border-red-500' : ''}>
+                  <SelectValue placeholder={t('locations.selectLocation')} />
+                </SelectTrigger>
+                <SelectContent>
+                  {locations.filter(l => l.id !== formData.from_location_id).map(location => (
+                    <SelectItem key={location.id} value={location.id}>{location.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          {errors.locations && <p className="text-sm text-red-500">{errors.locations}</p>}
+
+          {/* Lines */}
+          <div className="space-y-3">
+            <h4 className="font-medium">{t('locations.lines')}</h4>
+            <div className="rounded-md border border-border overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead className="bg-muted/50">
+                  <tr>
+                    <th className="px-3 py-2 text-left">{t('common.product')}</th>
+                    <th className="px-3 py-2 text-right w-28">{t('locations.available')}</th>
+                    <th className="px-3 py-2 text-right w-28">{t('common.quantity')}</th>
+                    <th className="px-3 py-2 w-10" />
+                  </tr>
+                </thead>
+                <tbody>
+                  {formData.lines.length === 0 ? (
+                    <tr>
+                      <td colSpan={4} className="px-3 py-6 text-center text-muted-foreground">
+                        {t('locations.noLines')}
+                      </td>
+                    </tr>
+                  ) : formData.lines.map(line => (
+                    <tr key={line.id} className="border-t border-border">
+                      <td className="px-3 py-2">
+                        <div className="font-medium">{line.product_name}</div>
+                        <div className="text-xs text-muted-foreground">{line.product_code}</div>
+                      </td>
+                      <td className="px-3 py-2 text-right">{available.get(line.id) || 0}</td>
+                      <td className="px-3 py-2">
+                        <Input
+                          type="number"
+                          min={isMeasured(line.unit_of_measure) ? '0.001' : '1'}
+                          step={isMeasured(line.unit_of_measure) ? '0.001' : '1'}
+                          max={available.get(line.id) || 0}
+                          value={line.quantity}
+                          onChange={(e) => updateQuantity(line.id, parseFloat(e.target.value) || 0)}
+                          className="text-right"
+                        />
+                      </td>
+                      <td className="px-3 py-2 text-right">
+                        <button
+                          type="button"
+                          className="text-red-600 hover:text-red-900"
+                          onClick={() => removeLine(line.id)}
+                          title={t('common.delete')}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            {errors.lines && <p className="text-sm text-red-500">{errors.lines}</p>}
+
+            <div className="space-y-2">
+              <Input
+                value={productSearch}
+                onChange={(e) => setProductSearch(e.target.value)}
+                placeholder={t('locations.searchProducts')}
+                disabled={!formData.from_location_id}
+              />
+              {productResults.length > 0 && (
+                <div className="max-h-40 overflow-y-auto rounded-md border border-border p-1">
+                  {productResults.map(candidate => (
+                    <button
+                      key={candidate.id}
+                      type="button"
+                      className="flex w-full items-center justify-between gap-2 rounded px-2 py-1 text-left text-sm hover:bg-accent"
+                      onClick={() => addLine(candidate)}
+                    >
+                      <span className="flex items-center gap-2 truncate">
+                        <Plus className="h-3 w-3" />
+                        {candidate.product_name}
+                        <span className="text-xs text-muted-foreground">{candidate.product_code}</span>
+                      </span>
+                      <span className="text-xs text-muted-foreground">
+                        {t('locations.availableCount', { count: candidate.quantity })}
+                      </span>
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="transfer-notes">{t('locations.notes')}</Label>
+            <Textarea
+              id="transfer-notes"
+              value={formData.notes}
+              onChange={(e) => setFormData(prev => ({ ...prev, notes: e.target.value }))}
+              rows={2}
+            />
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              {t('common.cancel')}
+            </Button>
+            <Button type="submit" disabled={loading}>
+              {loading ? t('common.loading') : t('locations.saveDraft')}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,12 +1,16 @@
-import React from 'react';
-import { Trash2, Plus, Minus, ShoppingCart } from 'lucide-react';
+import React, { useState } from 'react';
+import { Trash2, Plus, Minus, ShoppingCart, Tag, X } from 'lucide-react';
 import { Cart } from '../../types/pos';
+import { getExpiryStatus } from '../../lib/lots';
+import { formatQuantity, isMeasured } from '../../lib/units';
 
 interface CartDisplayProps {
   cart: Cart;
   onUpdateQuantity: (itemId: string, quantity: number) => void;
   onRemoveItem: (itemId: string) => void;
   onApplyDiscount: (percentage?: number, amount?: number) => void;
+  onApplyCoupon?: (code: string) => void;
+  onRemoveCoupon?: (code: string) => void;
   currency?: string;
 }
 
@@ -15,8 +19,13 @@ export default function CartDisplay({
   onUpdateQuantity, 
   onRemoveItem, 
   onApplyDiscount,
+  onApplyCoupon,
+  onRemoveCoupon,
   currency = 'CAD'
 }: CartDisplayProps) {
+  const [couponCode, setCouponCode] = useState('');
+  const [couponError, setCouponError] = useState<string | null>(null);
+
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat('en-CA', {
       style: 'currency',
@@ -37,6 +46,19 @@ export default function CartDisplay({
     }
   };
 
+  const handleCouponSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!onApplyCoupon || !couponCode.trim()) return;
+
+    try {
+      onApplyCoupon(couponCode);
+      setCouponCode('');
+      setCouponError(null);
+    } catch (err) {
+      setCouponError(err instanceof Error ? err.message : 'Invalid coupon code');
+    }
+  };
+
   if (cart.items.length === 0) {
     return (
       <div className="bg-card border border-border rounded-lg shadow-sm p-6 dark:bg-card/80">
@@ -85,37 +107,85 @@ export default function CartDisplay({
                     <p className="text-xs text-muted-foreground">
                       {item.product_code} {item.barcode && `• ${item.barcode}`}
                     </p>
+                    {item.serial_number && (
+                      <p className="text-xs font-mono text-muted-foreground">S/N {item.serial_number}</p>
+                    )}
+                    {item.lot_number && (
+                      <p className={`text-xs font-mono ${getExpiryStatus(item.expiry_date) === 'near_expiry' ? 'text-orange-500' : 'text-muted-foreground'}`}>
+                        Lot {item.lot_number}{item.expiry_date && ` • Exp ${item.expiry_date}`}
+                      </p>
+                    )}
+                    {item.promotions?.map(promotion => (
+                      <p key={promotion.promotion_id} className="text-xs text-green-500 flex items-center gap-1">
+                        <Tag className="h-3 w-3" />
+                        {promotion.name}: -{formatCurrency(promotion.amount)}
+                      </p>
+                    ))}
                   </div>
                 </div>
               </div>
 
               <div className="flex items-center space-x-2 ml-4">
-                {/* Quantity Controls */}
-                <div className="flex items-center space-x-1">
-                  <button
-                    onClick={() => onUpdateQuantity(item.id, item.quantity - 1)}
-                    className="p-1 rounded-full hover:bg-accent text-muted-foreground hover:text-foreground"
-                  >
-                    <Minus className="h-4 w-4" />
-                  </button>
-                  <span className="w-8 text-center text-sm font-medium">
-                    {item.quantity}
-                  </span>
-                  <button
-                    onClick={() => onUpdateQuantity(item.id, item.quantity + 1)}
-                    className="p-1 rounded-full hover:bg-accent text-muted-foreground hover:text-foreground"
-                  >
-                    <Plus className="h-4 w-4" />
-                  </button>
-                </div>
+                {/* Quantity Controls (a serialized line is always one unit, a collected ticket is as agreed) */}
+                {item.serial_number ? (
+                  <span className="w-8 text-center text-sm font-medium">1</span>
+                ) : item.service_ticket_id ? (
+                  <span className="w-8 text-center text-sm font-medium">{item.quantity}</span>
+                ) : isMeasured(item.unit_of_measure) ? (
+                  // Weights and lengths are typed in; the line is only updated once the entry is complete
+                  <div className="flex items-center space-x-1">
+                    <input
+                      key={item.quantity}
+                      type="number"
+                      step="0.001"
+                      min="0"
+                      defaultValue={item.quantity}
+                      onBlur={(e) => {
+                        const quantity = parseFloat(e.target.value);
+                        if (!isNaN(quantity) && quantity !== item.quantity) onUpdateQuantity(item.id, quantity);
+                      }}
+                      className="w-20 text-sm text-right border-border rounded-md focus:ring-primary focus:border-primary bg-background text-foreground dark:bg-background/80"
+                    />
+                    <span className="text-xs text-muted-foreground">{item.unit_of_measure}</span>
+                  </div>
+                ) : (
+                  <div className="flex items-center space-x-1">
+                    <button
+                      onClick={() => onUpdateQuantity(item.id, item.quantity - 1)}
+                      className="p-1 rounded-full hover:bg-accent text-muted-foreground hover:text-foreground"
+                    >
+                      <Minus className="h-4 w-4" />
+                    </button>
+                    <span className="w-8 text-center text-sm font-medium">
+                      {item.quantity}
+                    </span>
+                    <button
+                      onClick={() => onUpdateQuantity(item.id, item.quantity + 1)}
+                      className="p-1 rounded-full hover:bg-accent text-muted-foreground hover:text-foreground"
+                    >
+                      <Plus className="h-4 w-4" />
+                    </button>
+                  </div>
+                )}
 
                 {/* Price */}
                 <div className="text-right min-w-0">
+                  {item.discount_amount > 0 ? (
+                    <p className="text-xs text-muted-foreground line-through">
+                      {formatCurrency(item.price * item.quantity)}
+                    </p>
+                  ) : item.regular_price !== undefined && item.regular_price > item.price && (
+                    <p className="text-xs text-muted-foreground line-through">
+                      {formatCurrency(item.regular_price * item.quantity)}
+                    </p>
+                  )}
                   <p className="text-sm font-medium text-foreground">
                     {formatCurrency(item.subtotal)}
                   </p>
                   <p className="text-xs text-muted-foreground">
-                    {formatCurrency(item.price)} each
+                    {isMeasured(item.unit_of_measure)
+                      ? `${formatQuantity(item.quantity, item.unit_of_measure)} @ ${formatCurrency(item.price)}/${item.unit_of_measure}`
+                      : `${formatCurrency(item.price)} each`}
                   </p>
                 </div>
 
@@ -160,6 +230,45 @@ export default function CartDisplay({
         </form>
       </div>
 
+      {/* Coupon Section */}
+      {onApplyCoupon && (
+        <div className="px-4 py-3 border-b border-border bg-muted dark:bg-muted/40 space-y-2">
+          <form onSubmit={handleCouponSubmit} className="flex items-center space-x-2">
+            <input
+              type="text"
+              value={couponCode}
+              onChange={(e) => setCouponCode(e.target.value)}
+              placeholder="Coupon code"
+              className="flex-1 text-sm uppercase border-border rounded-md focus:ring-primary focus:border-primary bg-background text-foreground dark:bg-background/80"
+            />
+            <button
+              type="submit"
+              className="px-3 py-1 bg-primary text-primary-foreground text-sm rounded-md hover:bg-primary/80"
+            >
+              Redeem
+            </button>
+          </form>
+          {couponError && <p className="text-xs text-destructive">{couponError}</p>}
+          {cart.coupon_codes && cart.coupon_codes.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {cart.coupon_codes.map(code => (
+                <span
+                  key={code}
+                  className="inline-flex items-center gap-1 rounded-full bg-primary/10 px-2 py-0.5 text-xs font-mono text-primary"
+                >
+                  {code}
+                  {onRemoveCoupon && (
+                    <button type="button" onClick={() => onRemoveCoupon(code)} className="hover:text-destructive">
+                      <X className="h-3 w-3" />
+                    </button>
+                  )}
+                </span>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Cart Summary */}
       <div className="px-4 py-3 bg-muted dark:bg-muted/40">
         <div className="space-y-2">
@@ -167,6 +276,13 @@ export default function CartDisplay({
             <span className="text-muted-foreground">Subtotal:</span>
             <span className="font-medium">{formatCurrency(cart.subtotal)}</span>
           </div>
+
+          {(cart.promotion_discount || 0) > 0 && (
+            <div className="flex justify-between text-sm text-green-400">
+              <span>Promotions saved:</span>
+              <span>{formatCurrency(cart.promotion_discount || 0)}</span>
+            </div>
+          )}
           
           {cart.discount_amount > 0 && (
             <div className="flex justify-between text-sm text-green-400">
@@ -177,10 +293,21 @@ export default function CartDisplay({
             </div>
           )}
           
-          <div className="flex justify-between text-sm">
-            <span className="text-muted-foreground">Tax:</span>
-            <span className="font-medium">{formatCurrency(cart.tax_amount)}</span>
-          </div>
+          {cart.tax_breakdown && cart.tax_breakdown.length > 0 ? (
+            cart.tax_breakdown.map(line => (
+              <div key={`${line.name}-${line.rate}`} className="flex justify-between text-sm">
+                <span className="text-muted-foreground">
+                  {line.name} ({line.rate}%){cart.prices_include_tax && ' incl.'}:
+                </span>
+                <span className="font-medium">{formatCurrency(line.tax_amount)}</span>
+              </div>
+            ))
+          ) : (
+            <div className="flex justify-between text-sm">
+              <span className="text-muted-foreground">Tax:</span>
+              <span className="font-medium">{formatCurrency(cart.tax_amount)}</span>
+            </div>
+          )}
           
           <div className="flex justify-between text-lg font-bold border-t border-border pt-2">
             <span>Total:</span>
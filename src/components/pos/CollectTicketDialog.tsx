@@ -0,0 +1,172 @@
+import { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { AlertCircle, Camera, Search, Wrench } from 'lucide-react';
+import { CartItem } from '../../types/pos';
+import { ServiceTicket } from '../../types/tickets';
+import { describeTicketDevice, findTicketNumber, getServiceAmount, validateTicketForCollection } from '../../lib/ticketCheckout';
+import { getPartsTotal } from '../../lib/ticketParts';
+import { formatCurrency } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
+import CameraScannerModal from '../CameraScannerModal';
+
+interface CollectTicketDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onFindTicket: (ticketNumber: string) => Promise<ServiceTicket | null>;
+  onCollect: (ticket: ServiceTicket) => Promise<void>;
+  cartItems: CartItem[];
+  currency?: string;
+}
+
+export default function CollectTicketDialog({
+  open,
+  onOpenChange,
+  onFindTicket,
+  onCollect,
+  cartItems,
+  currency = 'CAD'
+}: CollectTicketDialogProps) {
+  const { t } = useTranslation();
+  const [lookup, setLookup] = useState('');
+  const [ticket, setTicket] = useState<ServiceTicket | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [searching, setSearching] = useState(false);
+  const [adding, setAdding] = useState(false);
+  const [showScanner, setShowScanner] = useState(false);
+
+  useEffect(() => {
+    if (!open) {
+      setLookup('');
+      setTicket(null);
+      setError(null);
+    }
+  }, [open]);
+
+  const handleLookup = async (code: string) => {
+    setError(null);
+    setTicket(null);
+    setSearching(true);
+
+    try {
+      const found = await onFindTicket(findTicketNumber(code) || code);
+      if (!found) {
+        setError(t('pos.collect.notFound'));
+        return;
+      }
+      setTicket(found);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('pos.collect.lookupFailed'));
+    } finally {
+      setSearching(false);
+    }
+  };
+
+  const problem = ticket ? validateTicketForCollection(ticket, cartItems) : null;
+  const parts = (ticket?.parts || []).filter(part => part.status === 'consumed');
+
+  const handleCollect = async () => {
+    if (!ticket || problem) return;
+    setAdding(true);
+
+    try {
+      setError(null);
+      await onCollect(ticket);
+      onOpenChange(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('pos.collect.failed'));
+    } finally {
+      setAdding(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>{t('pos.collect.title')}</DialogTitle>
+          <DialogDescription>{t('pos.collect.description')}</DialogDescription>
+        </DialogHeader>
+
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            handleLookup(lookup);
+          }}
+          className="flex gap-2"
+        >
+          <Input
+            value={lookup}
+            onChange={(e) => setLookup(e.target.value)}
+            placeholder={t('pos.collect.lookupPlaceholder')}
+            className="font-mono"
+            autoFocus
+          />
+          <Button type="submit" disabled={!lookup.trim() || searching}>
+            <Search className="h-4 w-4 mr-2" />
+            {searching ? t('pos.searching') : t('common.search')}
+          </Button>
+          <Button type="button" variant="outline" onClick={() => setShowScanner(true)}>
+            <Camera className="h-4 w-4" />
+          </Button>
+        </form>
+
+        {(error || problem) && (
+          <div className="flex items-center gap-2 rounded-md border border-destructive bg-destructive/10 p-3 text-sm text-destructive">
+            <AlertCircle className="h-4 w-4" />
+            {error || problem}
+          </div>
+        )}
+
+        {ticket && (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-2 rounded-md border border-border p-3 text-sm">
+              <span className="text-muted-foreground">{t('tickets.ticketNumber')}</span>
+              <span className="font-mono text-right">{ticket.ticket_number}</span>
+              <span className="text-muted-foreground">{t('tickets.customer')}</span>
+              <span className="text-right">{ticket.customer?.name || '—'}</span>
+              <span className="text-muted-foreground">{t('pos.collect.device')}</span>
+              <span className="text-right">{describeTicketDevice(ticket) || '—'}</span>
+              <span className="text-muted-foreground">{t('common.status')}</span>
+              <span className="text-right">{t(`tickets.${ticket.status}`)}</span>
+              <span className="text-muted-foreground">{t('pos.collect.service')}</span>
+              <span className="text-right">{formatCurrency(getServiceAmount(ticket), currency)}</span>
+              {parts.length > 0 && (
+                <>
+                  <span className="text-muted-foreground">{t('pos.collect.parts', { count: parts.length })}</span>
+                  <span className="text-right">{formatCurrency(getPartsTotal(parts), currency)}</span>
+                </>
+              )}
+              <span className="text-muted-foreground">{t('pos.totalAmount')}</span>
+              <span className="text-right font-medium">
+                {formatCurrency(getServiceAmount(ticket) + getPartsTotal(parts), currency)}
+              </span>
+            </div>
+
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                {t('common.cancel')}
+              </Button>
+              <Button type="button" onClick={handleCollect} disabled={!!problem || adding}>
+                <Wrench className="h-4 w-4 mr-2" />
+                {t('pos.collect.addToCart')}
+              </Button>
+            </div>
+          </div>
+        )}
+
+        <CameraScannerModal
+          open={showScanner}
+          onClose={() => setShowScanner(false)}
+          onScanSuccess={(code) => {
+            setShowScanner(false);
+            setLookup(findTicketNumber(code) || code);
+            handleLookup(code);
+          }}
+          title={t('pos.collect.scanTicket')}
+        />
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,89 @@
+import { useTranslation } from 'react-i18next';
+import { PlayCircle, Trash2, User, Clock } from 'lucide-react';
+import { HeldCart } from '../../types/pos';
+import { formatCurrency, formatDateTime } from '@/lib/utils';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+
+interface HeldCartsProps {
+  heldCarts: HeldCart[];
+  onResume: (heldCartId: string) => void;
+  onDiscard: (heldCartId: string) => void;
+  canResume: boolean;
+  currency?: string;
+}
+
+export default function HeldCarts({ heldCarts, onResume, onDiscard, canResume, currency = 'CAD' }: HeldCartsProps) {
+  const { t } = useTranslation();
+
+  return (
+    <Card className="bg-card border border-border dark:bg-card/80 w-full">
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center justify-between">
+          {t('pos.held.title')}
+          <Badge variant="secondary">{heldCarts.length}</Badge>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {heldCarts.length === 0 ? (
+          <p className="text-sm text-muted-foreground">{t('pos.held.empty')}</p>
+        ) : (
+          <div className="space-y-2">
+            {!canResume && (
+              <p className="text-xs text-muted-foreground">{t('pos.held.clearToResume')}</p>
+            )}
+            {heldCarts.map(held => (
+              <div
+                key={held.id}
+                className="flex items-center justify-between gap-3 rounded-md border border-border p-3"
+              >
+                <div className="min-w-0 flex-1">
+                  <p className="font-medium truncate">{held.label}</p>
+                  <div className="flex flex-wrap items-center gap-x-3 text-xs text-muted-foreground">
+                    {held.customer_name && (
+                      <span className="flex items-center gap-1">
+                        <User className="h-3 w-3" />
+                        {held.customer_name}
+                      </span>
+                    )}
+                    <span className="flex items-center gap-1">
+                      <Clock className="h-3 w-3" />
+                      {formatDateTime(held.parked_at)}
+                    </span>
+                    <span>
+                      {t('pos.held.summary', {
+                        count: held.cart.items.length,
+                        total: formatCurrency(held.cart.total, currency)
+                      })}
+                    </span>
+                  </div>
+                </div>
+                <div className="flex gap-1">
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => onResume(held.id)}
+                    disabled={!canResume}
+                    title={t('pos.held.resume')}
+                  >
+                    <PlayCircle className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => onDiscard(held.id)}
+                    title={t('pos.held.discard')}
+                    className="text-destructive hover:text-destructive"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
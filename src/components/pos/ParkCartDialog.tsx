@@ -0,0 +1,84 @@
+import React, { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { customerService } from '../../lib/customerService';
+import CustomerSelect from '../customers/CustomerSelect';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
+
+interface ParkCartDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onPark: (label: string, customer?: { id: string; name: string }) => Promise<unknown>;
+  initialCustomerId?: string;
+}
+
+export default function ParkCartDialog({ open, onOpenChange, onPark, initialCustomerId }: ParkCartDialogProps) {
+  const { t } = useTranslation();
+  const [label, setLabel] = useState('');
+  const [customerId, setCustomerId] = useState<string | undefined>(initialCustomerId);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setLabel('');
+      setCustomerId(initialCustomerId);
+    }
+  }, [open, initialCustomerId]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+
+    try {
+      let customer: { id: string; name: string } | undefined;
+      if (customerId) {
+        const found = await customerService.getCustomerById(customerId);
+        customer = { id: customerId, name: found?.full_name || '' };
+      }
+
+      await onPark(label, customer);
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Failed to park sale:', error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>{t('pos.held.parkTitle')}</DialogTitle>
+          <DialogDescription>{t('pos.held.parkDescription')}</DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="held-cart-label">{t('pos.held.label')}</Label>
+            <Input
+              id="held-cart-label"
+              value={label}
+              onChange={(e) => setLabel(e.target.value)}
+              placeholder={t('pos.held.labelPlaceholder')}
+              autoFocus
+            />
+          </div>
+
+          <CustomerSelect value={customerId} onValueChange={setCustomerId} />
+
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              {t('common.cancel')}
+            </Button>
+            <Button type="submit" disabled={saving}>
+              {t('pos.held.park')}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
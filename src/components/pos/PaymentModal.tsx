@@ -9,15 +9,24 @@ interface PaymentModalProps {
   onPayment: (payment: PaymentMethod, customerInfo: { id: string } | null) => void;
   onCancel: () => void;
   currency?: string;
+  initialCustomerId?: string;
+  defaultPaymentType?: 'cash' | 'card';
 }
 
-export default function PaymentModal({ total, onPayment, onCancel, currency = 'CAD' }: PaymentModalProps) {
+export default function PaymentModal({
+  total,
+  onPayment,
+  onCancel,
+  currency = 'CAD',
+  initialCustomerId,
+  defaultPaymentType = 'cash'
+}: PaymentModalProps) {
   const { t } = useTranslation();
-  const [paymentType, setPaymentType] = useState<'cash' | 'card' | 'mixed'>('cash');
-  const [cashAmount, setCashAmount] = useState(total);
-  const [cardAmount, setCardAmount] = useState(0);
-  const [selectedCustomerId, setSelectedCustomerId] = useState<string | null>(null);
-  const [isPassenger, setIsPassenger] = useState(true); // Default to Passenger
+  const [paymentType, setPaymentType] = useState<'cash' | 'card' | 'mixed'>(defaultPaymentType);
+  const [cashAmount, setCashAmount] = useState(defaultPaymentType === 'cash' ? total : 0);
+  const [cardAmount, setCardAmount] = useState(defaultPaymentType === 'card' ? total : 0);
+  const [selectedCustomerId, setSelectedCustomerId] = useState<string | null>(initialCustomerId || null);
+  const [isPassenger, setIsPassenger] = useState(!initialCustomerId); // Default to Passenger
 
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat('en-CA', {
@@ -2,6 +2,14 @@ import React, { useEffect, useRef, useState } from 'react';
 import { Package, Plus } from 'lucide-react';
 import { Product, ProductVariant } from '../../types/inventory';
 import { useInventory } from '../../hooks/useInventory';
+import { useLocations } from '../../hooks/useLocations';
+import { useTillLocation } from '../../hooks/useTillLocation';
+import { usePricing } from '../../hooks/usePricing';
+import { getUnreservedQuantity, resolveLocation } from '../../lib/locations';
+import { getSellableQuantity } from '../../lib/kits';
+import { activeVariants } from '../../lib/variants';
+import { roundQuantity } from '../../lib/units';
+import VariantPicker from './VariantPicker';
 
 interface ProductSearchProps {
   onAddToCart: (product: Product, variant?: ProductVariant) => void;
@@ -10,10 +18,14 @@ interface ProductSearchProps {
 }
 
 export default function ProductSearch({ onAddToCart, searchQuery, onClearSearch }: ProductSearchProps) {
-  const { searchProducts } = useInventory();
+  const { products: catalog, searchProducts } = useInventory();
+  const { locations } = useLocations();
+  const { tillLocationId } = useTillLocation();
+  const { priceFor } = usePricing();
   const [products, setProducts] = useState<Product[]>([]);
   const [loading, setLoading] = useState(false);
   const [showDropdown, setShowDropdown] = useState(false);
+  const [pickingVariant, setPickingVariant] = useState<Product | null>(null);
   const dropdownRef = useRef<HTMLDivElement>(null);
 
   useEffect(() => {
@@ -42,7 +54,9 @@ export default function ProductSearch({ onAddToCart, searchQuery, onClearSearch
 
   // Close dropdown on outside click or ESC
   useEffect(() => {
+    // The variant picker is a modal of its own
     function handleClick(e: MouseEvent) {
+      if (pickingVariant) return;
       if (
         dropdownRef.current &&
         !dropdownRef.current.contains(e.target as Node)
@@ -52,6 +66,7 @@ export default function ProductSearch({ onAddToCart, searchQuery, onClearSearch
       }
     }
     function handleEsc(e: KeyboardEvent) {
+      if (pickingVariant) return;
       if (e.key === 'Escape') {
         setShowDropdown(false);
         if (onClearSearch) onClearSearch();
@@ -63,7 +78,7 @@ export default function ProductSearch({ onAddToCart, searchQuery, onClearSearch
       document.removeEventListener('mousedown', handleClick);
       document.removeEventListener('keydown', handleEsc);
     };
-  }, [onClearSearch]);
+  }, [onClearSearch, pickingVariant]);
 
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat('en-CA', {
@@ -72,8 +87,36 @@ export default function ProductSearch({ onAddToCart, searchQuery, onClearSearch
     }).format(amount);
   };
 
+  // Sale prices show the shelf price struck through beside them
+  const renderPrice = (product: Product) => {
+    const tillPrice = priceFor(product);
+    return (
+      <>
+        {formatCurrency(tillPrice.price)}
+        {tillPrice.sale && <span className="ml-1 line-through">{formatCurrency(tillPrice.regular_price)}</span>}
+      </>
+    );
+  };
+
+  // The till only sells what is on its own shelves and not held for a service ticket
+  const tillLocation = resolveLocation(locations, tillLocationId);
+  const variantStockAtTill = (product: Product, variant: ProductVariant) =>
+    getUnreservedQuantity(product, tillLocation?.id, variant.id);
+  // Products with variants are sold by variant, so their stock is what the variants hold
+  const availableAtTill = (product: Product) => {
+    const variants = activeVariants(product);
+    return variants.length > 0
+      ? roundQuantity(variants.reduce((sum, variant) => sum + variantStockAtTill(product, variant), 0))
+      : getSellableQuantity(product, catalog, tillLocation?.id);
+  };
+
   const handleAddProduct = (product: Product, variant?: ProductVariant) => {
-    if (product.quantity_in_stock <= 0) return;
+    if (availableAtTill(product) <= 0) return;
+    if (!variant && activeVariants(product).length > 0) {
+      setPickingVariant(product);
+      return;
+    }
+    setPickingVariant(null);
     onAddToCart(product, variant);
     setShowDropdown(false);
     if (onClearSearch) onClearSearch();
@@ -85,6 +128,14 @@ export default function ProductSearch({ onAddToCart, searchQuery, onClearSearch
 
   return (
     <div ref={dropdownRef} className="absolute top-full left-0 right-0 mt-1 bg-white border border-gray-200 rounded-lg shadow-lg z-50 max-h-96 overflow-y-auto">
+      <VariantPicker
+        product={pickingVariant}
+        stockFor={variantStockAtTill}
+        priceFor={priceFor}
+        onSelect={handleAddProduct}
+        onClose={() => setPickingVariant(null)}
+      />
+
       {loading && (
         <div className="p-4 text-center">
           <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600 mx-auto"></div>
@@ -105,7 +156,7 @@ export default function ProductSearch({ onAddToCart, searchQuery, onClearSearch
             <div
               key={product.id}
               className={`p-3 hover:bg-gray-50 cursor-pointer flex items-center justify-between`}
-              onClick={() => product.quantity_in_stock > 0 && handleAddProduct(product)}
+              onClick={() => availableAtTill(product) > 0 && handleAddProduct(product)}
             >
               <div className="flex items-center space-x-3 flex-1">
                 {product.image_url && (
@@ -120,15 +171,16 @@ export default function ProductSearch({ onAddToCart, searchQuery, onClearSearch
                     {product.name}
                   </p>
                   <p className="text-xs text-gray-500">
-                    {product.product_code} • {formatCurrency(product.selling_price)}
+                    {product.product_code} • {renderPrice(product)}
                   </p>
                   <p className="text-xs text-gray-500">
-                    Stock: {product.quantity_in_stock} units
+                    Stock: {availableAtTill(product)} units
+                    {tillLocation && locations.length > 1 && ` (${tillLocation.name})`}
                   </p>
                 </div>
               </div>
               <div className="flex items-center space-x-2">
-                {product.quantity_in_stock <= 0 ? (
+                {availableAtTill(product) <= 0 ? (
                   <span className="text-xs bg-red-100 text-red-700 px-2 py-1 rounded">Out of stock</span>
                 ) : (
                   <button
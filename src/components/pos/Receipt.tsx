@@ -1,5 +1,6 @@
 import React from 'react';
 import { Receipt as ReceiptType } from '../../types/pos';
+import { formatQuantity } from '../../lib/units';
 import { Printer, Mail, Download } from 'lucide-react';
 
 interface ReceiptProps {
@@ -11,7 +12,8 @@ interface ReceiptProps {
 }
 
 export default function Receipt({ receipt, onPrint, onEmail, onDownload, onClose }: ReceiptProps) {
-  const { transaction, store_info } = receipt;
+  const { transaction, store_info, footer_text, show_kit_components } = receipt;
+  const isRefund = transaction.transaction_type === 'refund';
 
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat('en-CA', {
@@ -35,18 +37,33 @@ export default function Receipt({ receipt, onPrint, onEmail, onDownload, onClose
       <div className="relative top-10 mx-auto p-5 border w-11/12 max-w-md shadow-lg rounded-md bg-white">
         {/* Receipt Header */}
         <div className="text-center mb-6">
+          {store_info.logo_url && (
+            <img src={store_info.logo_url} alt={store_info.name} className="mx-auto mb-2 max-h-16 object-contain" />
+          )}
           <h2 className="text-xl font-bold text-gray-900">{store_info.name}</h2>
           <p className="text-sm text-gray-600">{store_info.address}</p>
           <p className="text-sm text-gray-600">{store_info.phone}</p>
           <p className="text-sm text-gray-600">{store_info.email}</p>
+          {store_info.tax_id && (
+            <p className="text-xs text-gray-500">Tax ID: {store_info.tax_id}</p>
+          )}
         </div>
 
         {/* Transaction Info */}
         <div className="border-t border-b border-gray-200 py-4 mb-4">
+          {isRefund && (
+            <p className="text-center text-sm font-bold uppercase tracking-wide mb-2">Refund</p>
+          )}
           <div className="flex justify-between text-sm">
             <span>Transaction #:</span>
             <span className="font-mono">{transaction.transaction_number}</span>
           </div>
+          {isRefund && transaction.original_transaction_number && (
+            <div className="flex justify-between text-sm">
+              <span>Original #:</span>
+              <span className="font-mono">{transaction.original_transaction_number}</span>
+            </div>
+          )}
           <div className="flex justify-between text-sm">
             <span>Date:</span>
             <span>{formatDate(transaction.created_at)}</span>
@@ -70,10 +87,31 @@ export default function Receipt({ receipt, onPrint, onEmail, onDownload, onClose
                   {item.variant_name}
                 </div>
               )}
+              {item.serial_number && (
+                <div className="text-xs text-gray-500 ml-2 font-mono">
+                  S/N {item.serial_number}
+                </div>
+              )}
+              {item.lot_number && (
+                <div className="text-xs text-gray-500 ml-2 font-mono">
+                  Lot {item.lot_number}{item.expiry_date && ` · Exp ${item.expiry_date}`}
+                </div>
+              )}
+              {show_kit_components && item.kit_components?.map(component => (
+                <div key={`${component.product_id}:${component.variant_id || ''}`} className="text-xs text-gray-500 ml-2">
+                  {Math.abs(item.quantity) * component.quantity} × {component.name}
+                </div>
+              ))}
               <div className="flex justify-between text-xs text-gray-500">
-                <span>{item.quantity} × {formatCurrency(item.price)}</span>
+                <span>{formatQuantity(item.quantity, item.unit_of_measure)} × {formatCurrency(item.price)}</span>
                 <span>{item.product_code}</span>
               </div>
+              {item.promotions?.map(promotion => (
+                <div key={promotion.promotion_id} className="flex justify-between text-xs text-green-600 ml-2">
+                  <span>{promotion.name}</span>
+                  <span>-{formatCurrency(promotion.amount)}</span>
+                </div>
+              ))}
             </div>
           ))}
         </div>
@@ -85,17 +123,29 @@ export default function Receipt({ receipt, onPrint, onEmail, onDownload, onClose
             <span>{formatCurrency(transaction.subtotal)}</span>
           </div>
           
-          {transaction.discount_amount > 0 && (
+          {transaction.discount_amount !== 0 && (
             <div className="flex justify-between text-sm text-green-600">
               <span>Discount:</span>
-              <span>-{formatCurrency(transaction.discount_amount)}</span>
+              <span>{formatCurrency(-transaction.discount_amount)}</span>
             </div>
           )}
           
-          <div className="flex justify-between text-sm">
-            <span>Tax:</span>
-            <span>{formatCurrency(transaction.tax_amount)}</span>
-          </div>
+          {transaction.tax_breakdown && transaction.tax_breakdown.length > 0 ? (
+            transaction.tax_breakdown.map(line => (
+              <div key={`${line.name}-${line.rate}`} className="flex justify-between text-sm">
+                <span>
+                  {line.name} {line.rate}% on {formatCurrency(line.taxable_amount)}
+                  {transaction.prices_include_tax && ' (incl.)'}:
+                </span>
+                <span>{formatCurrency(line.tax_amount)}</span>
+              </div>
+            ))
+          ) : (
+            <div className="flex justify-between text-sm">
+              <span>Tax:</span>
+              <span>{formatCurrency(transaction.tax_amount)}</span>
+            </div>
+          )}
           
           <div className="flex justify-between text-lg font-bold border-t border-gray-200 pt-2">
             <span>Total:</span>
@@ -104,11 +154,18 @@ export default function Receipt({ receipt, onPrint, onEmail, onDownload, onClose
 
           {/* Payment Details */}
           <div className="mt-4 pt-2 border-t border-gray-200">
+            {isRefund && transaction.payment_method.type === 'card' && (
+              <div className="flex justify-between text-sm">
+                <span>Refunded to Card:</span>
+                <span>{formatCurrency(Math.abs(transaction.payment_method.card_amount || 0))}</span>
+              </div>
+            )}
+
             {transaction.payment_method.type === 'cash' && (
               <>
                 <div className="flex justify-between text-sm">
-                  <span>Cash Paid:</span>
-                  <span>{formatCurrency(transaction.payment_method.cash_amount || 0)}</span>
+                  <span>{isRefund ? 'Cash Refunded:' : 'Cash Paid:'}</span>
+                  <span>{formatCurrency(Math.abs(transaction.payment_method.cash_amount || 0))}</span>
                 </div>
                 {transaction.payment_method.change_due && transaction.payment_method.change_due > 0 && (
                   <div className="flex justify-between text-sm font-medium">
@@ -142,8 +199,11 @@ export default function Receipt({ receipt, onPrint, onEmail, onDownload, onClose
 
         {/* Footer */}
         <div className="text-center mt-6 pt-4 border-t border-gray-200">
-          <p className="text-xs text-gray-500">Thank you for your business!</p>
-          <p className="text-xs text-gray-500">Please keep this receipt for your records</p>
+          {(footer_text ?? 'Thank you for your business!\nPlease keep this receipt for your records')
+            .split('\n')
+            .map((line, index) => (
+              <p key={index} className="text-xs text-gray-500">{line}</p>
+            ))}
         </div>
 
         {/* Action Buttons */}
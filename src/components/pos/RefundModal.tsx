@@ -0,0 +1,331 @@
+import React, { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Camera, Search, AlertCircle } from 'lucide-react';
+import { CartItem, Transaction, RefundRequest } from '../../types/pos';
+import { buildRefundTransaction, getRefundableQuantity, getRefundedQuantities, isFullyRefunded } from '../../lib/refunds';
+import { normalizeQuantity, isMeasured } from '../../lib/units';
+import { formatCurrency, formatDateTime } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
+import CameraScannerModal from '../CameraScannerModal';
+
+interface RefundModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onFindTransaction: (transactionNumber: string) => Promise<Transaction | null>;
+  onGetRefunds: (original: Transaction) => Promise<Transaction[]>;
+  onRefund: (request: RefundRequest) => Promise<Transaction>;
+  isProcessing?: boolean;
+  currency?: string;
+}
+
+export default function RefundModal({
+  open,
+  onOpenChange,
+  onFindTransaction,
+  onGetRefunds,
+  onRefund,
+  isProcessing = false,
+  currency = 'CAD'
+}: RefundModalProps) {
+  const { t } = useTranslation();
+  const [lookup, setLookup] = useState('');
+  const [original, setOriginal] = useState<Transaction | null>(null);
+  const [refunded, setRefunded] = useState<Record<string, number>>({});
+  const [quantities, setQuantities] = useState<Record<string, number>>({});
+  const [restock, setRestock] = useState<Record<string, boolean>>({});
+  const [tender, setTender] = useState<'cash' | 'card'>('cash');
+  const [reason, setReason] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [searching, setSearching] = useState(false);
+  const [showScanner, setShowScanner] = useState(false);
+
+  useEffect(() => {
+    if (!open) {
+      setLookup('');
+      setOriginal(null);
+      setRefunded({});
+      setQuantities({});
+      setRestock({});
+      setReason('');
+      setError(null);
+    }
+  }, [open]);
+
+  const handleLookup = async (transactionNumber: string) => {
+    setError(null);
+    setOriginal(null);
+    setSearching(true);
+
+    try {
+      const transaction = await onFindTransaction(transactionNumber);
+      if (!transaction) {
+        setError(t('pos.refund.notFound'));
+        return;
+      }
+      if (transaction.transaction_type === 'refund') {
+        setError(t('pos.refund.cannotRefundRefund'));
+        return;
+      }
+
+      const refunds = await onGetRefunds(transaction);
+      setOriginal(transaction);
+      setRefunded(getRefundedQuantities(refunds));
+      setQuantities({});
+      setRestock(Object.fromEntries(transaction.items.map(item => [item.id, true])));
+      setTender(transaction.payment_method.type === 'card' ? 'card' : 'cash');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('pos.refund.lookupFailed'));
+    } finally {
+      setSearching(false);
+    }
+  };
+
+  const handleReturnAll = () => {
+    if (!original) return;
+    setQuantities(Object.fromEntries(
+      original.items.map(item => [item.id, getRefundableQuantity(item, refunded)])
+    ));
+  };
+
+  const setLineQuantity = (item: CartItem, value: number, max: number) => {
+    const quantity = Math.min(max, Math.max(0, normalizeQuantity(value, item.unit_of_measure) || 0));
+    setQuantities(prev => ({ ...prev, [item.id]: quantity }));
+  };
+
+  const request: RefundRequest | null = original ? {
+    original,
+    lines: original.items.map(item => ({
+      item_id: item.id,
+      quantity: quantities[item.id] || 0,
+      restock: restock[item.id] ?? true
+    })),
+    tender,
+    reason: reason.trim() || undefined
+  } : null;
+
+  const preview = (() => {
+    if (!request || !request.lines.some(line => line.quantity > 0)) return null;
+    try {
+      return buildRefundTransaction(request, refunded, '');
+    } catch {
+      return null;
+    }
+  })();
+
+  const fullyRefunded = original ? isFullyRefunded(original, refunded) : false;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!request || !preview) return;
+
+    try {
+      setError(null);
+      await onRefund(request);
+      onOpenChange(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('pos.refund.failed'));
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{t('pos.refund.title')}</DialogTitle>
+          <DialogDescription>{t('pos.refund.description')}</DialogDescription>
+        </DialogHeader>
+
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            handleLookup(lookup);
+          }}
+          className="flex gap-2"
+        >
+          <Input
+            value={lookup}
+            onChange={(e) => setLookup(e.target.value)}
+            placeholder={t('pos.refund.lookupPlaceholder')}
+            className="font-mono"
+            autoFocus
+          />
+          <Button type="submit" disabled={!lookup.trim() || searching}>
+            <Search className="h-4 w-4 mr-2" />
+            {searching ? t('pos.searching') : t('common.search')}
+          </Button>
+          <Button type="button" variant="outline" onClick={() => setShowScanner(true)}>
+            <Camera className="h-4 w-4" />
+          </Button>
+        </form>
+
+        {error && (
+          <div className="flex items-center gap-2 rounded-md border border-destructive bg-destructive/10 p-3 text-sm text-destructive">
+            <AlertCircle className="h-4 w-4" />
+            {error}
+          </div>
+        )}
+
+        {original && (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-2 gap-2 rounded-md border border-border p-3 text-sm">
+              <span className="text-muted-foreground">{t('pos.transactionNumber')}</span>
+              <span className="font-mono text-right">{original.transaction_number}</span>
+              <span className="text-muted-foreground">{t('common.date')}</span>
+              <span className="text-right">{formatDateTime(original.created_at)}</span>
+              <span className="text-muted-foreground">{t('pos.payment')}</span>
+              <span className="text-right">{t(`pos.${original.payment_method.type}`)}</span>
+              <span className="text-muted-foreground">{t('pos.totalAmount')}</span>
+              <span className="text-right font-medium">{formatCurrency(original.total, currency)}</span>
+            </div>
+
+            {fullyRefunded ? (
+              <p className="text-sm text-muted-foreground">{t('pos.refund.alreadyRefunded')}</p>
+            ) : (
+              <>
+                <div className="flex items-center justify-between">
+                  <h4 className="font-medium">{t('pos.refund.selectItems')}</h4>
+                  <Button type="button" variant="outline" size="sm" onClick={handleReturnAll}>
+                    {t('pos.refund.returnAll')}
+                  </Button>
+                </div>
+
+                <div className="space-y-2">
+                  {original.items.map(item => {
+                    const available = getRefundableQuantity(item, refunded);
+                    return (
+                      <div
+                        key={item.id}
+                        className="flex flex-col gap-2 rounded-md border border-border p-3 sm:flex-row sm:items-center"
+                      >
+                        <div className="flex-1 min-w-0">
+                          <p className="font-medium truncate">{item.name}</p>
+                          {item.variant_name && (
+                            <p className="text-xs text-muted-foreground">{item.variant_name}</p>
+                          )}
+                          {item.serial_number && (
+                            <p className="text-xs font-mono text-muted-foreground">
+                              {t('serials.serialLabel', { serial: item.serial_number })}
+                            </p>
+                          )}
+                          {item.lot_number && (
+                            <p className="text-xs font-mono text-muted-foreground">
+                              {t('lots.lotLabel', { lot: item.lot_number })}
+                            </p>
+                          )}
+                          <p className="text-xs text-muted-foreground">
+                            {t('pos.refund.soldReturned', {
+                              sold: item.quantity,
+                              returned: refunded[item.id] || 0
+                            })}
+                            {' · '}
+                            {formatCurrency(item.price, currency)} {t('pos.each')}
+                          </p>
+                        </div>
+                        <div className="flex items-center gap-3">
+                          <Input
+                            type="number"
+                            min={0}
+                            max={available}
+                            step={isMeasured(item.unit_of_measure) ? 0.001 : 1}
+                            value={quantities[item.id] || 0}
+                            onChange={(e) => setLineQuantity(item, Number(e.target.value), available)}
+                            disabled={available === 0}
+                            className="w-20"
+                          />
+                          <div className="flex items-center gap-2">
+                            <Checkbox
+                              id={`restock-${item.id}`}
+                              checked={restock[item.id] ?? true}
+                              onCheckedChange={(checked) =>
+                                setRestock(prev => ({ ...prev, [item.id]: checked === true }))
+                              }
+                            />
+                            <Label htmlFor={`restock-${item.id}`} className="text-sm">
+                              {t('pos.refund.restock')}
+                            </Label>
+                          </div>
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+
+                <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+                  <div className="space-y-2">
+                    <Label>{t('pos.refund.tender')}</Label>
+                    <Select value={tender} onValueChange={(value) => setTender(value as 'cash' | 'card')}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="cash">{t('pos.cash')}</SelectItem>
+                        <SelectItem value="card">{t('pos.card')}</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="refund-reason">{t('pos.refund.reason')}</Label>
+                    <Input
+                      id="refund-reason"
+                      value={reason}
+                      onChange={(e) => setReason(e.target.value)}
+                      placeholder={t('pos.refund.reasonPlaceholder')}
+                    />
+                  </div>
+                </div>
+
+                {preview && (
+                  <div className="space-y-1 rounded-md bg-muted p-3 text-sm">
+                    <div className="flex justify-between">
+                      <span>{t('common.subtotal')}</span>
+                      <span>{formatCurrency(Math.abs(preview.subtotal), currency)}</span>
+                    </div>
+                    {preview.discount_amount !== 0 && (
+                      <div className="flex justify-between">
+                        <span>{t('common.discount')}</span>
+                        <span>-{formatCurrency(Math.abs(preview.discount_amount), currency)}</span>
+                      </div>
+                    )}
+                    <div className="flex justify-between">
+                      <span>{t('common.tax')}</span>
+                      <span>{formatCurrency(Math.abs(preview.tax_amount), currency)}</span>
+                    </div>
+                    <div className="flex justify-between border-t border-border pt-1 text-base font-bold">
+                      <span>{t('pos.refund.refundTotal')}</span>
+                      <span>{formatCurrency(Math.abs(preview.total), currency)}</span>
+                    </div>
+                  </div>
+                )}
+
+                <div className="flex justify-end gap-2">
+                  <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                    {t('common.cancel')}
+                  </Button>
+                  <Button type="submit" disabled={!preview || isProcessing}>
+                    {isProcessing ? t('pos.processing') : t('pos.refund.confirm')}
+                  </Button>
+                </div>
+              </>
+            )}
+          </form>
+        )}
+
+        <CameraScannerModal
+          open={showScanner}
+          onClose={() => setShowScanner(false)}
+          onScanSuccess={(code) => {
+            setShowScanner(false);
+            setLookup(code);
+            handleLookup(code);
+          }}
+          title={t('pos.refund.scanReceipt')}
+        />
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,219 @@
+import React, { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Lock, Unlock, ArrowDownCircle, ArrowUpCircle, FileText } from 'lucide-react';
+import { RegisterSession, ZReport } from '../../types/register';
+import { formatCurrency, formatDateTime } from '@/lib/utils';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
+
+type RegisterDialog = 'open' | 'cash_in' | 'cash_out' | 'close' | null;
+
+interface RegisterSessionCardProps {
+  session: RegisterSession | null;
+  report: ZReport | null;
+  onOpenSession: (cashierName: string, openingFloat: number) => Promise<unknown>;
+  onCashMovement: (type: 'cash_in' | 'cash_out', amount: number, reason: string) => Promise<unknown>;
+  onCloseSession: (countedCash: number, notes?: string) => Promise<ZReport>;
+  onShowReport: (report: ZReport) => void;
+  lastReport?: ZReport;
+  currency?: string;
+}
+
+export default function RegisterSessionCard({
+  session,
+  report,
+  onOpenSession,
+  onCashMovement,
+  onCloseSession,
+  onShowReport,
+  lastReport,
+  currency = 'CAD'
+}: RegisterSessionCardProps) {
+  const { t } = useTranslation();
+  const [dialog, setDialog] = useState<RegisterDialog>(null);
+  const [cashierName, setCashierName] = useState('');
+  const [amount, setAmount] = useState('');
+  const [reason, setReason] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const openDialog = (next: RegisterDialog) => {
+    setAmount('');
+    setReason('');
+    setError(null);
+    setDialog(next);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const value = parseFloat(amount) || 0;
+
+    try {
+      setSaving(true);
+      setError(null);
+
+      if (dialog === 'open') {
+        await onOpenSession(cashierName, value);
+      } else if (dialog === 'cash_in' || dialog === 'cash_out') {
+        await onCashMovement(dialog, value, reason);
+      } else if (dialog === 'close') {
+        const finalReport = await onCloseSession(value, reason);
+        onShowReport(finalReport);
+      }
+
+      setDialog(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('errors.savingFailed'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const dialogTitle = {
+    open: t('pos.register.openRegister'),
+    cash_in: t('pos.register.cashIn'),
+    cash_out: t('pos.register.cashOut'),
+    close: t('pos.register.closeRegister')
+  };
+
+  return (
+    <Card className="bg-card border border-border dark:bg-card/80 w-full">
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center justify-between">
+          {t('pos.register.title')}
+          <Badge variant={session ? 'default' : 'secondary'}>
+            {session ? t('pos.register.open') : t('pos.register.closed')}
+          </Badge>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {session && report ? (
+          <>
+            <div className="grid grid-cols-2 gap-1 text-sm">
+              <span className="text-muted-foreground">{t('pos.register.cashier')}</span>
+              <span className="text-right">{session.cashier_name}</span>
+              <span className="text-muted-foreground">{t('pos.register.openedAt')}</span>
+              <span className="text-right">{formatDateTime(session.opened_at)}</span>
+              <span className="text-muted-foreground">{t('pos.register.netSales')}</span>
+              <span className="text-right">{formatCurrency(report.net_sales, currency)}</span>
+              <span className="text-muted-foreground">{t('pos.register.expectedCash')}</span>
+              <span className="text-right font-medium">{formatCurrency(report.expected_cash, currency)}</span>
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <Button variant="outline" size="sm" onClick={() => openDialog('cash_in')}>
+                <ArrowDownCircle className="h-4 w-4 mr-2" />
+                {t('pos.register.cashIn')}
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => openDialog('cash_out')}>
+                <ArrowUpCircle className="h-4 w-4 mr-2" />
+                {t('pos.register.cashOut')}
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => onShowReport(report)}>
+                <FileText className="h-4 w-4 mr-2" />
+                {t('pos.register.xReport')}
+              </Button>
+              <Button variant="destructive" size="sm" onClick={() => openDialog('close')}>
+                <Lock className="h-4 w-4 mr-2" />
+                {t('pos.register.closeRegister')}
+              </Button>
+            </div>
+          </>
+        ) : (
+          <>
+            <p className="text-sm text-muted-foreground">{t('pos.register.noSession')}</p>
+            <div className="flex gap-2">
+              <Button size="sm" onClick={() => openDialog('open')}>
+                <Unlock className="h-4 w-4 mr-2" />
+                {t('pos.register.openRegister')}
+              </Button>
+              {lastReport && (
+                <Button variant="outline" size="sm" onClick={() => onShowReport(lastReport)}>
+                  <FileText className="h-4 w-4 mr-2" />
+                  {t('pos.register.lastZReport')}
+                </Button>
+              )}
+            </div>
+          </>
+        )}
+      </CardContent>
+
+      <Dialog open={dialog !== null} onOpenChange={(open) => !open && setDialog(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>{dialog ? dialogTitle[dialog] : ''}</DialogTitle>
+            {dialog === 'close' && report && (
+              <DialogDescription>
+                {t('pos.register.expectedInDrawer', { amount: formatCurrency(report.expected_cash, currency) })}
+              </DialogDescription>
+            )}
+          </DialogHeader>
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            {dialog === 'open' && (
+              <div className="space-y-2">
+                <Label htmlFor="register-cashier">{t('pos.register.cashier')}</Label>
+                <Input
+                  id="register-cashier"
+                  value={cashierName}
+                  onChange={(e) => setCashierName(e.target.value)}
+                  required
+                  autoFocus
+                />
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="register-amount">
+                {dialog === 'open'
+                  ? t('pos.register.openingFloat')
+                  : dialog === 'close'
+                    ? t('pos.register.countedCash')
+                    : t('pos.register.amount')}
+              </Label>
+              <Input
+                id="register-amount"
+                type="number"
+                min="0"
+                step="0.01"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                required
+                autoFocus={dialog !== 'open'}
+              />
+            </div>
+
+            {dialog !== 'open' && (
+              <div className="space-y-2">
+                <Label htmlFor="register-reason">
+                  {dialog === 'close' ? t('pos.register.notes') : t('pos.register.reason')}
+                </Label>
+                <Input
+                  id="register-reason"
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                  required={dialog !== 'close'}
+                  placeholder={dialog === 'close' ? '' : t('pos.register.reasonPlaceholder')}
+                />
+              </div>
+            )}
+
+            {error && <p className="text-sm text-destructive">{error}</p>}
+
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="outline" onClick={() => setDialog(null)}>
+                {t('common.cancel')}
+              </Button>
+              <Button type="submit" disabled={saving}>
+                {t('common.confirm')}
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
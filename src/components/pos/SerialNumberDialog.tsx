@@ -0,0 +1,84 @@
+import React, { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { ScanLine } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
+
+interface SerialNumberDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  productName: string;
+  onSubmit: (serialNumber: string) => Promise<void>;
+}
+
+export default function SerialNumberDialog({ open, onOpenChange, productName, onSubmit }: SerialNumberDialogProps) {
+  const { t } = useTranslation();
+  const [serialNumber, setSerialNumber] = useState('');
+  const [error, setError] = useState('');
+  const [checking, setChecking] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setSerialNumber('');
+      setError('');
+    }
+  }, [open]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!serialNumber.trim()) return;
+
+    setChecking(true);
+    try {
+      await onSubmit(serialNumber);
+      onOpenChange(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('serials.errors.invalid'));
+      setSerialNumber('');
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ScanLine className="h-5 w-5" />
+            {t('serials.scanTitle')}
+          </DialogTitle>
+          <DialogDescription>{t('serials.scanDescription', { product: productName })}</DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="sale-serial">{t('serials.serialNumber')}</Label>
+            <Input
+              id="sale-serial"
+              value={serialNumber}
+              onChange={(e) => {
+                setSerialNumber(e.target.value);
+                setError('');
+              }}
+              className="font-mono uppercase"
+              autoFocus
+            />
+            {error && <p className="text-sm text-red-500">{error}</p>}
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              {t('common.cancel')}
+            </Button>
+            <Button type="submit" disabled={checking || !serialNumber.trim()}>
+              {checking ? t('common.loading') : t('common.add')}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
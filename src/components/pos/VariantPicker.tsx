@@ -0,0 +1,120 @@
+import { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Layers } from 'lucide-react';
+import { Product, ProductVariant } from '../../types/inventory';
+import { TillPrice } from '../../types/pricing';
+import { activeVariants, getVariantOptions, narrowVariants, variantLabel } from '../../lib/variants';
+import { formatCurrency } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
+
+interface VariantPickerProps {
+  product: Product | null;
+  // Stock of one variant at the till
+  stockFor: (product: Product, variant: ProductVariant) => number;
+  // Price at the till, counting scheduled sale prices
+  priceFor: (product: Product, variant: ProductVariant) => TillPrice;
+  onSelect: (product: Product, variant: ProductVariant) => void;
+  onClose: () => void;
+}
+
+export default function VariantPicker({ product, stockFor, priceFor, onSelect, onClose }: VariantPickerProps) {
+  const { t } = useTranslation();
+  const [selection, setSelection] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    setSelection({});
+  }, [product]);
+
+  if (!product) return null;
+
+  const variants = activeVariants(product);
+  const options = getVariantOptions(product);
+  const matching = narrowVariants(variants, selection);
+  const inStock = (variant: ProductVariant) => stockFor(product, variant) > 0;
+
+  // A value is worth offering when some variant with it, and the other picks so far, is in stock
+  const isAvailable = (axis: string, value: string) => {
+    return narrowVariants(variants, { ...selection, [axis]: value }).some(inStock);
+  };
+
+  const toggleValue = (axis: string, value: string) => {
+    setSelection(prev => {
+      const { [axis]: current, ...others } = prev;
+      return current === value ? others : { ...others, [axis]: value };
+    });
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Layers className="h-5 w-5" />
+            {product.name}
+          </DialogTitle>
+          <DialogDescription>{t('variants.pickDescription')}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {options.map(option => (
+            <div key={option.name} className="space-y-2">
+              <p className="text-sm font-medium">{option.name}</p>
+              <div className="flex flex-wrap gap-2">
+                {option.values.map(value => (
+                  <Button
+                    key={value}
+                    type="button"
+                    size="sm"
+                    variant={selection[option.name] === value ? 'default' : 'outline'}
+                    disabled={!isAvailable(option.name, value)}
+                    onClick={() => toggleValue(option.name, value)}
+                  >
+                    {value}
+                  </Button>
+                ))}
+              </div>
+            </div>
+          ))}
+
+          <div className="max-h-60 overflow-y-auto divide-y divide-border rounded-md border border-border">
+            {matching.map(variant => {
+              const stock = stockFor(product, variant);
+              const tillPrice = priceFor(product, variant);
+              return (
+                <button
+                  key={variant.id}
+                  type="button"
+                  disabled={stock <= 0}
+                  onClick={() => onSelect(product, variant)}
+                  className="w-full flex items-center justify-between p-3 text-left text-sm hover:bg-muted disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <div>
+                    <p className="font-medium">{variantLabel(variant)}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {[variant.sku, variant.barcode].filter(Boolean).join(' • ')}
+                    </p>
+                  </div>
+                  <div className="text-right">
+                    <p>
+                      {tillPrice.sale && (
+                        <span className="mr-1 text-xs text-muted-foreground line-through">{formatCurrency(tillPrice.regular_price)}</span>
+                      )}
+                      {formatCurrency(tillPrice.price)}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {stock > 0 ? t('variants.inStock', { count: stock }) : t('variants.outOfStock')}
+                    </p>
+                  </div>
+                </button>
+              );
+            })}
+            {matching.length === 0 && (
+              <p className="p-3 text-sm text-muted-foreground">{t('variants.noMatch')}</p>
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
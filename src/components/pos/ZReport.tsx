@@ -0,0 +1,113 @@
+import { useTranslation } from 'react-i18next';
+import { Printer } from 'lucide-react';
+import { ZReport as ZReportType } from '../../types/register';
+import { formatCurrency, formatDateTime } from '@/lib/utils';
+
+interface ZReportProps {
+  report: ZReportType;
+  storeName: string;
+  onPrint: () => void;
+  onClose: () => void;
+  currency?: string;
+}
+
+export default function ZReport({ report, storeName, onPrint, onClose, currency = 'CAD' }: ZReportProps) {
+  const { t } = useTranslation();
+  const isFinal = Boolean(report.closed_at);
+  const money = (amount: number) => formatCurrency(amount, currency);
+
+  const Row = ({ label, value, bold }: { label: string; value: string; bold?: boolean }) => (
+    <div className={`flex justify-between text-sm ${bold ? 'font-bold' : ''}`}>
+      <span>{label}</span>
+      <span>{value}</span>
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+      <div className="relative top-10 mx-auto p-5 border w-11/12 max-w-md shadow-lg rounded-md bg-white text-gray-900">
+        <div className="text-center mb-4">
+          <h2 className="text-xl font-bold">{storeName}</h2>
+          <p className="text-sm font-semibold uppercase tracking-wide">
+            {isFinal ? t('pos.register.zReport') : t('pos.register.xReport')}
+          </p>
+        </div>
+
+        <div className="border-t border-b border-gray-200 py-3 mb-3 space-y-1">
+          <Row label={t('pos.register.session')} value={report.session_number} />
+          <Row label={t('pos.register.cashier')} value={report.cashier_name} />
+          <Row label={t('pos.register.openedAt')} value={formatDateTime(report.opened_at)} />
+          {report.closed_at && (
+            <Row label={t('pos.register.closedAt')} value={formatDateTime(report.closed_at)} />
+          )}
+        </div>
+
+        <div className="space-y-1 mb-3">
+          <Row label={t('pos.register.salesCount', { count: report.sale_count })} value={money(report.gross_sales)} />
+          <Row label={t('pos.register.refundsCount', { count: report.refund_count })} value={money(report.refunds_total)} />
+          <Row label={t('pos.register.netSales')} value={money(report.net_sales)} bold />
+          <Row label={t('common.discount')} value={money(report.discount_total)} />
+          <Row label={t('common.tax')} value={money(report.tax_total)} />
+        </div>
+
+        <div className="border-t border-gray-200 pt-3 mb-3 space-y-1">
+          <p className="text-sm font-semibold">{t('pos.register.paymentBreakdown')}</p>
+          <Row
+            label={`${t('pos.cash')} (${report.payments.cash.count})`}
+            value={money(report.payments.cash.total)}
+          />
+          <Row
+            label={`${t('pos.card')} (${report.payments.card.count})`}
+            value={money(report.payments.card.total)}
+          />
+          <Row
+            label={`${t('pos.mixed')} (${report.payments.mixed.count})`}
+            value={money(report.payments.mixed.total)}
+          />
+          {report.payments.mixed.count > 0 && (
+            <div className="ml-4 text-xs text-gray-600 space-y-1">
+              <Row label={t('pos.cash')} value={money(report.payments.mixed.cash)} />
+              <Row label={t('pos.card')} value={money(report.payments.mixed.card)} />
+            </div>
+          )}
+          <Row label={t('pos.register.changeGiven')} value={money(report.change_given)} />
+        </div>
+
+        <div className="border-t border-gray-200 pt-3 space-y-1">
+          <p className="text-sm font-semibold">{t('pos.register.cashDrawer')}</p>
+          <Row label={t('pos.register.openingFloat')} value={money(report.opening_float)} />
+          <Row label={t('pos.register.cashSales')} value={money(report.cash_sales)} />
+          <Row label={t('pos.register.cashIn')} value={money(report.cash_in)} />
+          <Row label={t('pos.register.cashOut')} value={money(-report.cash_out)} />
+          <Row label={t('pos.register.expectedCash')} value={money(report.expected_cash)} bold />
+          {report.counted_cash !== undefined && (
+            <>
+              <Row label={t('pos.register.countedCash')} value={money(report.counted_cash)} />
+              <Row
+                label={t('pos.register.variance')}
+                value={money(report.variance || 0)}
+                bold
+              />
+            </>
+          )}
+        </div>
+
+        <div className="flex space-x-2 mt-6">
+          <button
+            onClick={onPrint}
+            className="flex-1 inline-flex items-center justify-center px-3 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+          >
+            <Printer className="h-4 w-4 mr-1" />
+            {t('pos.print')}
+          </button>
+          <button
+            onClick={onClose}
+            className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700"
+          >
+            {t('common.close')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,494 @@
+import React, { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Plus, Trash2 } from 'lucide-react';
+import { Promotion, PromotionFormData, PromotionType, QuantityBreak } from '../../types/promotions';
+import { Category, Product } from '../../types/inventory';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { cn } from '@/lib/utils';
+
+interface PromotionFormProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSubmit: (data: PromotionFormData) => Promise<void>;
+  promotion?: Promotion;
+  products: Product[];
+  categories: Category[];
+  title: string;
+}
+
+const PROMOTION_TYPES: PromotionType[] = ['percentage_off', 'fixed_price', 'quantity_break', 'buy_x_get_y'];
+const DAYS_OF_WEEK = [0, 1, 2, 3, 4, 5, 6];
+
+const emptyForm: PromotionFormData = {
+  name: '',
+  description: '',
+  type: 'percentage_off',
+  is_active: true,
+  product_ids: [],
+  category_ids: [],
+  discount_percentage: 10,
+  quantity_breaks: [],
+  get_discount_percentage: 100,
+  days_of_week: [],
+  stackable: false,
+  priority: 0
+};
+
+const flattenCategories = (categories: Category[], depth = 0): { category: Category; depth: number }[] =>
+  categories.flatMap(category => [
+    { category, depth },
+    ...flattenCategories(category.children || [], depth + 1)
+  ]);
+
+export default function PromotionForm({
+  open,
+  onOpenChange,
+  onSubmit,
+  promotion,
+  products,
+  categories,
+  title
+}: PromotionFormProps) {
+  const { t } = useTranslation();
+  const [formData, setFormData] = useState<PromotionFormData>(emptyForm);
+  const [productSearch, setProductSearch] = useState('');
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (promotion) {
+      setFormData({
+        name: promotion.name,
+        description: promotion.description || '',
+        type: promotion.type,
+        is_active: promotion.is_active,
+        product_ids: promotion.product_ids || [],
+        category_ids: promotion.category_ids || [],
+        discount_percentage: promotion.discount_percentage,
+        fixed_price: promotion.fixed_price,
+        quantity_breaks: promotion.quantity_breaks || [],
+        buy_quantity: promotion.buy_quantity,
+        get_quantity: promotion.get_quantity,
+        get_discount_percentage: promotion.get_discount_percentage,
+        coupon_code: promotion.coupon_code,
+        starts_at: promotion.starts_at?.slice(0, 10),
+        ends_at: promotion.ends_at?.slice(0, 10),
+        days_of_week: promotion.days_of_week || [],
+        start_time: promotion.start_time?.slice(0, 5),
+        end_time: promotion.end_time?.slice(0, 5),
+        stackable: promotion.stackable,
+        priority: promotion.priority
+      });
+    } else {
+      setFormData(emptyForm);
+    }
+    setProductSearch('');
+    setErrors({});
+  }, [promotion, open]);
+
+  const update = <K extends keyof PromotionFormData>(key: K, value: PromotionFormData[K]) => {
+    setFormData(prev => ({ ...prev, [key]: value }));
+  };
+
+  const toggleInList = (key: 'product_ids' | 'category_ids' | 'days_of_week', value: string | number) => {
+    setFormData(prev => {
+      const list = (prev[key] || []) as (string | number)[];
+      const next = list.includes(value) ? list.filter(item => item !== value) : [...list, value];
+      return { ...prev, [key]: next };
+    });
+  };
+
+  const updateBreak = (index: number, field: keyof QuantityBreak, value: number) => {
+    const breaks = [...(formData.quantity_breaks || [])];
+    breaks[index] = { ...breaks[index], [field]: value };
+    update('quantity_breaks', breaks);
+  };
+
+  const validateForm = (): boolean => {
+    const newErrors: Record<string, string> = {};
+
+    if (!formData.name.trim()) {
+      newErrors.name = t('promotions.errors.nameRequired');
+    }
+
+    switch (formData.type) {
+      case 'percentage_off':
+        if (!formData.discount_percentage || formData.discount_percentage <= 0 || formData.discount_percentage > 100) {
+          newErrors.mechanics = t('promotions.errors.percentageRange');
+        }
+        break;
+      case 'fixed_price':
+        if (formData.fixed_price === undefined || formData.fixed_price < 0) {
+          newErrors.mechanics = t('promotions.errors.fixedPriceRequired');
+        }
+        break;
+      case 'quantity_break':
+        if (!formData.quantity_breaks?.length) {
+          newErrors.mechanics = t('promotions.errors.breaksRequired');
+        }
+        break;
+      case 'buy_x_get_y':
+        if (!formData.buy_quantity || !formData.get_quantity) {
+          newErrors.mechanics = t('promotions.errors.buyGetRequired');
+        }
+        break;
+    }
+
+    if ((formData.start_time && !formData.end_time) || (!formData.start_time && formData.end_time)) {
+      newErrors.time = t('promotions.errors.timeWindow');
+    }
+
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!validateForm()) return;
+
+    setLoading(true);
+    try {
+      await onSubmit({
+        ...formData,
+        coupon_code: formData.coupon_code?.trim() || undefined,
+        starts_at: formData.starts_at || undefined,
+        ends_at: formData.ends_at ? `${formData.ends_at}T23:59:59` : undefined,
+        start_time: formData.start_time || undefined,
+        end_time: formData.end_time || undefined
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const filteredProducts = products
+    .filter(product =>
+      formData.product_ids.includes(product.id) ||
+      (productSearch &&
+        (product.name.toLowerCase().includes(productSearch.toLowerCase()) ||
+         product.product_code.toLowerCase().includes(productSearch.toLowerCase())))
+    )
+    .slice(0, 50);
+
+  const numberValue = (value: string) => (value === '' ? undefined : Number(value));
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-6">
+          {/* Basics */}
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="promotion-name">{t('promotions.name')} *</Label>
+              <Input
+                id="promotion-name"
+                value={formData.name}
+                onChange={(e) => update('name', e.target.value)}
+                className={errors.name ? 'border-red-500' : ''}
+              />
+              {errors.name && <p className="text-sm text-red-500">{errors.name}</p>}
+            </div>
+            <div className="space-y-2">
+              <Label>{t('promotions.type')}</Label>
+              <Select value={formData.type} onValueChange={(value) => update('type', value as PromotionType)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {PROMOTION_TYPES.map(type => (
+                    <SelectItem key={type} value={type}>{t(`promotions.types.${type}`)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2 md:col-span-2">
+              <Label htmlFor="promotion-description">{t('common.description')}</Label>
+              <Textarea
+                id="promotion-description"
+                value={formData.description || ''}
+                onChange={(e) => update('description', e.target.value)}
+                rows={2}
+              />
+            </div>
+          </div>
+
+          {/* Mechanics */}
+          <div className="space-y-3">
+            <h4 className="font-medium">{t('promotions.mechanics')}</h4>
+            {formData.type === 'percentage_off' && (
+              <div className="space-y-2 max-w-xs">
+                <Label>{t('promotions.discountPercentage')}</Label>
+                <Input
+                  type="number"
+                  min="0"
+                  max="100"
+                  step="0.01"
+                  value={formData.discount_percentage ?? ''}
+                  onChange={(e) => update('discount_percentage', numberValue(e.target.value))}
+                />
+              </div>
+            )}
+            {formData.type === 'fixed_price' && (
+              <div className="space-y-2 max-w-xs">
+                <Label>{t('promotions.fixedPrice')}</Label>
+                <Input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={formData.fixed_price ?? ''}
+                  onChange={(e) => update('fixed_price', numberValue(e.target.value))}
+                />
+              </div>
+            )}
+            {formData.type === 'quantity_break' && (
+              <div className="space-y-2">
+                {(formData.quantity_breaks || []).map((tier, index) => (
+                  <div key={index} className="flex items-end gap-2">
+                    <div className="space-y-1">
+                      <Label className="text-xs">{t('promotions.minQuantity')}</Label>
+                      <Input
+                        type="number"
+                        min="1"
+                        value={tier.min_quantity}
+                        onChange={(e) => updateBreak(index, 'min_quantity', Number(e.target.value))}
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <Label className="text-xs">{t('promotions.discountPercentage')}</Label>
+                      <Input
+                        type="number"
+                        min="0"
+                        max="100"
+                        step="0.01"
+                        value={tier.discount_percentage}
+                        onChange={(e) => updateBreak(index, 'discount_percentage', Number(e.target.value))}
+                      />
+                    </div>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => update('quantity_breaks', (formData.quantity_breaks || []).filter((_, i) => i !== index))}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => update('quantity_breaks', [
+                    ...(formData.quantity_breaks || []),
+                    { min_quantity: 2, discount_percentage: 5 }
+                  ])}
+                >
+                  <Plus className="h-4 w-4 mr-2" />
+                  {t('promotions.addBreak')}
+                </Button>
+              </div>
+            )}
+            {formData.type === 'buy_x_get_y' && (
+              <div className="grid grid-cols-3 gap-4">
+                <div className="space-y-2">
+                  <Label>{t('promotions.buyQuantity')}</Label>
+                  <Input
+                    type="number"
+                    min="1"
+                    value={formData.buy_quantity ?? ''}
+                    onChange={(e) => update('buy_quantity', numberValue(e.target.value))}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>{t('promotions.getQuantity')}</Label>
+                  <Input
+                    type="number"
+                    min="1"
+                    value={formData.get_quantity ?? ''}
+                    onChange={(e) => update('get_quantity', numberValue(e.target.value))}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>{t('promotions.getDiscountPercentage')}</Label>
+                  <Input
+                    type="number"
+                    min="0"
+                    max="100"
+                    value={formData.get_discount_percentage ?? 100}
+                    onChange={(e) => update('get_discount_percentage', numberValue(e.target.value))}
+                  />
+                </div>
+              </div>
+            )}
+            {errors.mechanics && <p className="text-sm text-red-500">{errors.mechanics}</p>}
+          </div>
+
+          {/* Targeting */}
+          <div className="space-y-3">
+            <h4 className="font-medium">{t('promotions.appliesTo')}</h4>
+            <p className="text-xs text-muted-foreground">{t('promotions.appliesToHint')}</p>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>{t('promotions.categories')}</Label>
+                <div className="max-h-48 overflow-y-auto rounded-md border border-border p-2 space-y-1">
+                  {flattenCategories(categories).map(({ category, depth }) => (
+                    <label
+                      key={category.id}
+                      className="flex items-center gap-2 text-sm"
+                      style={{ paddingLeft: depth * 16 }}
+                    >
+                      <Checkbox
+                        checked={formData.category_ids.includes(category.id)}
+                        onCheckedChange={() => toggleInList('category_ids', category.id)}
+                      />
+                      {category.name}
+                    </label>
+                  ))}
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label>{t('promotions.products')}</Label>
+                <Input
+                  value={productSearch}
+                  onChange={(e) => setProductSearch(e.target.value)}
+                  placeholder={t('promotions.searchProducts')}
+                />
+                <div className="max-h-36 overflow-y-auto rounded-md border border-border p-2 space-y-1">
+                  {filteredProducts.map(product => (
+                    <label key={product.id} className="flex items-center gap-2 text-sm">
+                      <Checkbox
+                        checked={formData.product_ids.includes(product.id)}
+                        onCheckedChange={() => toggleInList('product_ids', product.id)}
+                      />
+                      <span className="truncate">{product.name}</span>
+                      <span className="text-xs text-muted-foreground">{product.product_code}</span>
+                    </label>
+                  ))}
+                </div>
+              </div>
+            </div>
+          </div>
+
+          {/* Conditions */}
+          <div className="space-y-3">
+            <h4 className="font-medium">{t('promotions.conditions')}</h4>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="promotion-coupon">{t('promotions.couponCode')}</Label>
+                <Input
+                  id="promotion-coupon"
+                  value={formData.coupon_code || ''}
+                  onChange={(e) => update('coupon_code', e.target.value.toUpperCase())}
+                  placeholder={t('promotions.couponPlaceholder')}
+                  className="font-mono"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>{t('promotions.startsAt')}</Label>
+                <Input
+                  type="date"
+                  value={formData.starts_at || ''}
+                  onChange={(e) => update('starts_at', e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>{t('promotions.endsAt')}</Label>
+                <Input
+                  type="date"
+                  value={formData.ends_at || ''}
+                  onChange={(e) => update('ends_at', e.target.value)}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>{t('promotions.daysOfWeek')}</Label>
+              <div className="flex flex-wrap gap-2">
+                {DAYS_OF_WEEK.map(day => (
+                  <button
+                    key={day}
+                    type="button"
+                    onClick={() => toggleInList('days_of_week', day)}
+                    className={cn(
+                      'px-3 py-1 rounded-md border text-sm',
+                      formData.days_of_week?.includes(day)
+                        ? 'bg-primary text-primary-foreground border-primary'
+                        : 'border-border text-muted-foreground'
+                    )}
+                  >
+                    {t(`promotions.days.${day}`)}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4 max-w-md">
+              <div className="space-y-2">
+                <Label>{t('promotions.startTime')}</Label>
+                <Input
+                  type="time"
+                  value={formData.start_time || ''}
+                  onChange={(e) => update('start_time', e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>{t('promotions.endTime')}</Label>
+                <Input
+                  type="time"
+                  value={formData.end_time || ''}
+                  onChange={(e) => update('end_time', e.target.value)}
+                />
+              </div>
+            </div>
+            {errors.time && <p className="text-sm text-red-500">{errors.time}</p>}
+          </div>
+
+          {/* Options */}
+          <div className="flex flex-wrap items-end gap-6">
+            <label className="flex items-center gap-2 text-sm">
+              <Checkbox
+                checked={formData.is_active}
+                onCheckedChange={(checked) => update('is_active', checked === true)}
+              />
+              {t('promotions.active')}
+            </label>
+            <label className="flex items-center gap-2 text-sm">
+              <Checkbox
+                checked={formData.stackable}
+                onCheckedChange={(checked) => update('stackable', checked === true)}
+              />
+              {t('promotions.stackable')}
+            </label>
+            <div className="space-y-2 w-32">
+              <Label>{t('promotions.priority')}</Label>
+              <Input
+                type="number"
+                value={formData.priority}
+                onChange={(e) => update('priority', Number(e.target.value) || 0)}
+              />
+            </div>
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              {t('common.cancel')}
+            </Button>
+            <Button type="submit" disabled={loading}>
+              {loading ? t('common.loading') : t('common.save')}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
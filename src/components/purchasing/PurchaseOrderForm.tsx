@@ -0,0 +1,344 @@
+import React, { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Plus, Trash2, AlertTriangle } from 'lucide-react';
+import { PurchaseOrder, PurchaseOrderFormData, PurchaseOrderLine } from '../../types/purchaseOrders';
+import { Supplier } from '../../types/supplier';
+import { Product } from '../../types/inventory';
+import { calculatePurchaseOrderTotals, getExpectedDeliveryDate, getMinimumOrderShortfall } from '../../lib/purchaseOrders';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { formatCurrency } from '@/lib/utils';
+
+interface PurchaseOrderFormProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSubmit: (data: PurchaseOrderFormData, supplier: Supplier) => Promise<void>;
+  order?: PurchaseOrder;
+  suppliers: Supplier[];
+  products: Product[];
+  title: string;
+  currency?: string;
+}
+
+const emptyForm: PurchaseOrderFormData = {
+  supplier_id: '',
+  lines: [],
+  discount_percentage: 0,
+  expected_date: '',
+  notes: ''
+};
+
+export default function PurchaseOrderForm({
+  open,
+  onOpenChange,
+  onSubmit,
+  order,
+  suppliers,
+  products,
+  title,
+  currency = 'CAD'
+}: PurchaseOrderFormProps) {
+  const { t } = useTranslation();
+  const [formData, setFormData] = useState<PurchaseOrderFormData>(emptyForm);
+  const [productSearch, setProductSearch] = useState('');
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (order) {
+      setFormData({
+        supplier_id: order.supplier_id,
+        lines: order.lines,
+        discount_percentage: order.discount_percentage,
+        expected_date: order.expected_date?.slice(0, 10) || '',
+        notes: order.notes || ''
+      });
+    } else {
+      setFormData(emptyForm);
+    }
+    setErrors({});
+  }, [order, open]);
+
+  const supplier = suppliers.find(s => s.id === formData.supplier_id);
+  const totals = calculatePurchaseOrderTotals(formData.lines, formData.discount_percentage);
+  const shortfall = getMinimumOrderShortfall(totals.subtotal, supplier);
+  const money = (amount: number) => formatCurrency(amount, currency);
+
+  // Picking a supplier brings in their negotiated discount and lead time
+  const handleSupplierChange = (supplierId: string) => {
+    const selected = suppliers.find(s => s.id === supplierId);
+    setFormData(prev => ({
+      ...prev,
+      supplier_id: supplierId,
+      discount_percentage: selected?.discount_percentage || 0,
+      expected_date: selected ? getExpectedDeliveryDate(selected) : prev.expected_date
+    }));
+  };
+
+  const addProduct = (product: Product) => {
+    if (formData.lines.some(line => line.product_id === product.id)) return;
+
+    const line: PurchaseOrderLine = {
+      id: product.id,
+      product_id: product.id,
+      product_name: product.name,
+      product_code: product.product_code,
+      quantity_ordered: Math.max(product.min_stock_level - product.quantity_in_stock, 1),
+      quantity_received: 0,
+      unit_cost: product.cost_price
+    };
+    setFormData(prev => ({ ...prev, lines: [...prev.lines, line] }));
+    setProductSearch('');
+  };
+
+  const updateLine = (lineId: string, changes: Partial<PurchaseOrderLine>) => {
+    setFormData(prev => ({
+      ...prev,
+      lines: prev.lines.map(line => line.id === lineId ? { ...line, ...changes } : line)
+    }));
+  };
+
+  const removeLine = (lineId: string) => {
+    setFormData(prev => ({ ...prev, lines: prev.lines.filter(line => line.id !== lineId) }));
+  };
+
+  const validateForm = () => {
+    const newErrors: Record<string, string> = {};
+
+    if (!formData.supplier_id) {
+      newErrors.supplier = t('purchaseOrders.errors.supplierRequired');
+    }
+    if (formData.lines.length === 0) {
+      newErrors.lines = t('purchaseOrders.errors.linesRequired');
+    } else if (formData.lines.some(line => line.quantity_ordered <= 0 || line.unit_cost < 0)) {
+      newErrors.lines = t('purchaseOrders.errors.invalidLine');
+    }
+
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!validateForm() || !supplier) return;
+
+    setLoading(true);
+    try {
+      await onSubmit(formData, supplier);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const term = productSearch.toLowerCase();
+  const productResults = products
+    // Kits are bought as their components
+    .filter(product => product.is_active && !product.is_kit && !formData.lines.some(line => line.product_id === product.id))
+    .filter(product => term
+      ? product.name.toLowerCase().includes(term) || product.product_code.toLowerCase().includes(term)
+      : Boolean(supplier) && product.supplier_id === supplier?.id)
+    .slice(0, 50);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label>{t('purchaseOrders.supplier')} *</Label>
+              <Select value={formData.supplier_id} onValueChange={handleSupplierChange}>
+                <SelectTrigger className={errors.supplier ? 'border-red-500' : ''}>
+                  <SelectValue placeholder={t('purchaseOrders.selectSupplier')} />
+                </SelectTrigger>
+                <SelectContent>
+                  {suppliers.filter(s => s.is_active).map(s => (
+                    <SelectItem key={s.id} value={s.id}>{s.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {errors.supplier && <p className="text-sm text-red-500">{errors.supplier}</p>}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="po-discount">{t('purchaseOrders.discountPercentage')}</Label>
+              <Input
+                id="po-discount"
+                type="number"
+                min="0"
+                max="100"
+                step="0.01"
+                value={formData.discount_percentage}
+                onChange={(e) => setFormData(prev => ({ ...prev, discount_percentage: parseFloat(e.target.value) || 0 }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="po-expected">{t('purchaseOrders.expectedDate')}</Label>
+              <Input
+                id="po-expected"
+                type="date"
+                value={formData.expected_date}
+                onChange={(e) => setFormData(prev => ({ ...prev, expected_date: e.target.value }))}
+              />
+            </div>
+          </div>
+
+          {supplier && (
+            <p className="text-sm text-muted-foreground">
+              {t('purchaseOrders.supplierTerms', {
+                minimum: money(supplier.minimum_order_amount || 0),
+                discount: supplier.discount_percentage || 0,
+                days: supplier.lead_time_days || 0
+              })}
+            </p>
+          )}
+
+          {/* Lines */}
+          <div className="space-y-3">
+            <h4 className="font-medium">{t('purchaseOrders.lines')}</h4>
+            <div className="rounded-md border border-border overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead className="bg-muted/50">
+                  <tr>
+                    <th className="px-3 py-2 text-left">{t('common.product')}</th>
+                    <th className="px-3 py-2 text-right w-28">{t('common.quantity')}</th>
+                    <th className="px-3 py-2 text-right w-32">{t('purchaseOrders.unitCost')}</th>
+                    <th className="px-3 py-2 text-right w-32">{t('common.total')}</th>
+                    <th className="px-3 py-2 w-10" />
+                  </tr>
+                </thead>
+                <tbody>
+                  {formData.lines.length === 0 ? (
+                    <tr>
+                      <td colSpan={5} className="px-3 py-6 text-center text-muted-foreground">
+                        {t('purchaseOrders.noLines')}
+                      </td>
+                    </tr>
+                  ) : formData.lines.map(line => (
+                    <tr key={line.id} className="border-t border-border">
+                      <td className="px-3 py-2">
+                        <div className="font-medium">{line.product_name}</div>
+                        <div className="text-xs text-muted-foreground">{line.product_code}</div>
+                      </td>
+                      <td className="px-3 py-2">
+                        <Input
+                          type="number"
+                          min="1"
+                          value={line.quantity_ordered}
+                          onChange={(e) => updateLine(line.id, { quantity_ordered: parseInt(e.target.value) || 0 })}
+                          className="text-right"
+                        />
+                      </td>
+                      <td className="px-3 py-2">
+                        <Input
+                          type="number"
+                          min="0"
+                          step="0.01"
+                          value={line.unit_cost}
+                          onChange={(e) => updateLine(line.id, { unit_cost: parseFloat(e.target.value) || 0 })}
+                          className="text-right"
+                        />
+                      </td>
+                      <td className="px-3 py-2 text-right">{money(line.quantity_ordered * line.unit_cost)}</td>
+                      <td className="px-3 py-2 text-right">
+                        <button
+                          type="button"
+                          className="text-red-600 hover:text-red-900"
+                          onClick={() => removeLine(line.id)}
+                          title={t('common.delete')}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            {errors.lines && <p className="text-sm text-red-500">{errors.lines}</p>}
+
+            <div className="space-y-2">
+              <Input
+                value={productSearch}
+                onChange={(e) => setProductSearch(e.target.value)}
+                placeholder={t('purchaseOrders.searchProducts')}
+              />
+              {productResults.length > 0 && (
+                <div className="max-h-40 overflow-y-auto rounded-md border border-border p-1">
+                  {productResults.map(product => (
+                    <button
+                      key={product.id}
+                      type="button"
+                      className="flex w-full items-center justify-between gap-2 rounded px-2 py-1 text-left text-sm hover:bg-accent"
+                      onClick={() => addProduct(product)}
+                    >
+                      <span className="flex items-center gap-2 truncate">
+                        <Plus className="h-3 w-3" />
+                        {product.name}
+                        <span className="text-xs text-muted-foreground">{product.product_code}</span>
+                      </span>
+                      <span className="text-xs text-muted-foreground">
+                        {t('purchaseOrders.inStock', { count: product.quantity_in_stock })}
+                      </span>
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+
+          {/* Totals */}
+          <div className="ml-auto max-w-xs space-y-1 text-sm">
+            <div className="flex justify-between">
+              <span>{t('common.subtotal')}</span>
+              <span>{money(totals.subtotal)}</span>
+            </div>
+            <div className="flex justify-between">
+              <span>{t('common.discount')} ({formData.discount_percentage}%)</span>
+              <span>-{money(totals.discount_amount)}</span>
+            </div>
+            <div className="flex justify-between font-bold">
+              <span>{t('common.total')}</span>
+              <span>{money(totals.total)}</span>
+            </div>
+          </div>
+
+          {supplier && shortfall > 0 && (
+            <div className="flex items-start gap-2 rounded-md border border-yellow-200 bg-yellow-50 p-3 text-sm text-yellow-800">
+              <AlertTriangle className="h-4 w-4 mt-0.5" />
+              {t('purchaseOrders.belowMinimum', {
+                shortfall: money(shortfall),
+                minimum: money(supplier.minimum_order_amount)
+              })}
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="po-notes">{t('purchaseOrders.notes')}</Label>
+            <Textarea
+              id="po-notes"
+              value={formData.notes}
+              onChange={(e) => setFormData(prev => ({ ...prev, notes: e.target.value }))}
+              rows={2}
+            />
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              {t('common.cancel')}
+            </Button>
+            <Button type="submit" disabled={loading}>
+              {loading ? t('common.loading') : t('purchaseOrders.saveDraft')}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,293 @@
+import React, { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { PackageCheck, ScanLine } from 'lucide-react';
+import { PurchaseOrder, ReceiveLine } from '../../types/purchaseOrders';
+import { Product } from '../../types/inventory';
+import { getOutstandingQuantity } from '../../lib/purchaseOrders';
+import { findDuplicateSerials, parseSerialList } from '../../lib/serials';
+import { gtinToBarcodes, parseGS1Barcode } from '../../lib/barcodeScanner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+
+interface ReceiveDeliveryDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  order: PurchaseOrder;
+  products: Product[];
+  onReceive: (lines: ReceiveLine[], notes?: string) => Promise<void>;
+}
+
+export default function ReceiveDeliveryDialog({ open, onOpenChange, order, products, onReceive }: ReceiveDeliveryDialogProps) {
+  const { t } = useTranslation();
+  const [quantities, setQuantities] = useState<Record<string, number>>({});
+  const [serialText, setSerialText] = useState<Record<string, string>>({});
+  const [lots, setLots] = useState<Record<string, { lot_number: string; expiry_date: string }>>({});
+  const [gs1Scan, setGs1Scan] = useState('');
+  const [notes, setNotes] = useState('');
+  const [error, setError] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  const serializedIds = new Set(products.filter(product => product.is_serialized).map(product => product.id));
+  const lotTrackedIds = new Set(products.filter(product => product.track_lots).map(product => product.id));
+  const serialsFor = (lineId: string) => parseSerialList(serialText[lineId] || '');
+
+  const receiveAll = () => {
+    setQuantities(Object.fromEntries(order.lines.map(line => [line.id, getOutstandingQuantity(line)])));
+  };
+
+  // Default to the full outstanding quantity; staff lower it for short deliveries
+  useEffect(() => {
+    if (open) {
+      setQuantities(Object.fromEntries(order.lines.map(line => [line.id, getOutstandingQuantity(line)])));
+      setSerialText({});
+      setLots({});
+      setGs1Scan('');
+      setNotes('');
+      setError('');
+    }
+  }, [open, order]);
+
+  const totalUnits = Object.values(quantities).reduce((sum, quantity) => sum + quantity, 0);
+
+  const updateLot = (lineId: string, changes: Partial<{ lot_number: string; expiry_date: string }>) => {
+    setLots(prev => ({
+      ...prev,
+      [lineId]: { ...(prev[lineId] || { lot_number: '', expiry_date: '' }), ...changes }
+    }));
+  };
+
+  // A GS1 label on the carton names the product, lot and expiry in one scan
+  const handleGs1Scan = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key !== 'Enter') return;
+    e.preventDefault();
+
+    const data = parseGS1Barcode(gs1Scan);
+    setGs1Scan('');
+    if (!data?.gtin) {
+      setError(t('lots.errors.notGs1'));
+      return;
+    }
+
+    const barcodes = gtinToBarcodes(data.gtin);
+    const line = order.lines.find(orderLine => {
+      const product = products.find(p => p.id === orderLine.product_id);
+      const variant = product?.variants?.find(v => v.id === orderLine.variant_id);
+      const barcode = variant?.barcode || product?.barcode;
+      return !!barcode && barcodes.includes(barcode);
+    });
+    if (!line) {
+      setError(t('lots.errors.noMatchingLine', { gtin: data.gtin }));
+      return;
+    }
+
+    setError('');
+    updateLot(line.id, {
+      ...(data.lot ? { lot_number: data.lot } : {}),
+      ...(data.expiry ? { expiry_date: data.expiry } : {})
+    });
+    if (data.serial && serializedIds.has(line.product_id)) {
+      setSerialText(prev => ({ ...prev, [line.id]: [prev[line.id], data.serial].filter(Boolean).join('\n') }));
+    }
+  };
+
+  // Every serialized unit needs its own serial, and no serial may appear twice in the delivery
+  const validateSerials = () => {
+    const serializedLines = order.lines.filter(line => serializedIds.has(line.product_id) && (quantities[line.id] || 0) > 0);
+    const mismatch = serializedLines.find(line => serialsFor(line.id).length !== quantities[line.id]);
+    if (mismatch) {
+      return t('serials.errors.countMismatch', { count: quantities[mismatch.id], product: mismatch.product_name });
+    }
+
+    const duplicates = findDuplicateSerials(serializedLines.flatMap(line => serialsFor(line.id)));
+    if (duplicates.length > 0) {
+      return t('serials.errors.duplicates', { serials: duplicates.join(', ') });
+    }
+
+    const missingLot = order.lines.find(line =>
+      lotTrackedIds.has(line.product_id) && (quantities[line.id] || 0) > 0 && !lots[line.id]?.lot_number.trim()
+    );
+    if (missingLot) {
+      return t('lots.errors.lotRequired', { product: missingLot.product_name });
+    }
+    return '';
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const serialError = validateSerials();
+    setError(serialError);
+    if (serialError) return;
+
+    setLoading(true);
+    try {
+      await onReceive(
+        order.lines
+          .filter(line => (quantities[line.id] || 0) > 0)
+          .map(line => ({
+            line_id: line.id,
+            quantity: quantities[line.id],
+            ...(serializedIds.has(line.product_id) ? { serials: serialsFor(line.id) } : {}),
+            ...(lotTrackedIds.has(line.product_id) ? {
+              lot_number: lots[line.id]?.lot_number.trim(),
+              expiry_date: lots[line.id]?.expiry_date || undefined
+            } : {})
+          })),
+        notes.trim() || undefined
+      );
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <PackageCheck className="h-5 w-5" />
+            {t('purchaseOrders.receiveTitle', { number: order.po_number })}
+          </DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {order.lines.some(line => lotTrackedIds.has(line.product_id)) && (
+            <div className="relative">
+              <ScanLine className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+              <Input
+                value={gs1Scan}
+                onChange={(e) => setGs1Scan(e.target.value)}
+                onKeyDown={handleGs1Scan}
+                placeholder={t('lots.gs1ScanPlaceholder')}
+                className="pl-9 font-mono"
+              />
+            </div>
+          )}
+
+          <div className="rounded-md border border-border overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="bg-muted/50">
+                <tr>
+                  <th className="px-3 py-2 text-left">{t('common.product')}</th>
+                  <th className="px-3 py-2 text-right">{t('purchaseOrders.ordered')}</th>
+                  <th className="px-3 py-2 text-right">{t('purchaseOrders.received')}</th>
+                  <th className="px-3 py-2 text-right w-28">{t('purchaseOrders.receiveNow')}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {order.lines.map(line => {
+                  const outstanding = getOutstandingQuantity(line);
+                  const needsSerials = serializedIds.has(line.product_id) && (quantities[line.id] || 0) > 0;
+                  const needsLot = lotTrackedIds.has(line.product_id) && (quantities[line.id] || 0) > 0;
+                  return (
+                    <React.Fragment key={line.id}>
+                      <tr className="border-t border-border">
+                        <td className="px-3 py-2">
+                          <div className="font-medium">{line.product_name}</div>
+                          <div className="text-xs text-muted-foreground">{line.product_code}</div>
+                        </td>
+                        <td className="px-3 py-2 text-right">{line.quantity_ordered}</td>
+                        <td className="px-3 py-2 text-right">{line.quantity_received}</td>
+                        <td className="px-3 py-2">
+                          <Input
+                            type="number"
+                            min="0"
+                            max={outstanding}
+                            disabled={outstanding === 0}
+                            value={quantities[line.id] ?? 0}
+                            onChange={(e) => setQuantities(prev => ({
+                              ...prev,
+                              [line.id]: Math.min(Math.max(parseInt(e.target.value) || 0, 0), outstanding)
+                            }))}
+                            className="text-right"
+                          />
+                        </td>
+                      </tr>
+                      {needsSerials && (
+                        <tr>
+                          <td colSpan={4} className="px-3 pb-3">
+                            <Label htmlFor={`serials-${line.id}`} className="text-xs text-muted-foreground">
+                              {t('serials.scanForLine', { scanned: serialsFor(line.id).length, count: quantities[line.id] })}
+                            </Label>
+                            <Textarea
+                              id={`serials-${line.id}`}
+                              value={serialText[line.id] || ''}
+                              onChange={(e) => setSerialText(prev => ({ ...prev, [line.id]: e.target.value }))}
+                              placeholder={t('serials.scanPlaceholder')}
+                              rows={Math.min(Math.max(quantities[line.id], 2), 6)}
+                              className="mt-1 font-mono text-xs"
+                            />
+                          </td>
+                        </tr>
+                      )}
+                      {needsLot && (
+                        <tr>
+                          <td colSpan={4} className="px-3 pb-3">
+                            <div className="grid grid-cols-2 gap-2">
+                              <div>
+                                <Label htmlFor={`lot-${line.id}`} className="text-xs text-muted-foreground">
+                                  {t('lots.lotNumber')}
+                                </Label>
+                                <Input
+                                  id={`lot-${line.id}`}
+                                  value={lots[line.id]?.lot_number || ''}
+                                  onChange={(e) => updateLot(line.id, { lot_number: e.target.value })}
+                                  className="mt-1 font-mono uppercase"
+                                />
+                              </div>
+                              <div>
+                                <Label htmlFor={`expiry-${line.id}`} className="text-xs text-muted-foreground">
+                                  {t('lots.expiryDate')}
+                                </Label>
+                                <Input
+                                  id={`expiry-${line.id}`}
+                                  type="date"
+                                  value={lots[line.id]?.expiry_date || ''}
+                                  onChange={(e) => updateLot(line.id, { expiry_date: e.target.value })}
+                                  className="mt-1"
+                                />
+                              </div>
+                            </div>
+                          </td>
+                        </tr>
+                      )}
+                    </React.Fragment>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="receive-notes">{t('purchaseOrders.notes')}</Label>
+            <Textarea
+              id="receive-notes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder={t('purchaseOrders.receiveNotesPlaceholder')}
+              rows={2}
+            />
+          </div>
+
+          {error && <p className="text-sm text-red-500">{error}</p>}
+
+          <div className="flex justify-between gap-2">
+            <Button type="button" variant="outline" onClick={receiveAll}>
+              {t('purchaseOrders.receiveAll')}
+            </Button>
+            <div className="flex gap-2">
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                {t('common.cancel')}
+              </Button>
+              <Button type="submit" disabled={loading || totalUnits === 0}>
+                {loading ? t('common.loading') : t('purchaseOrders.confirmReceive', { count: totalUnits })}
+              </Button>
+            </div>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,173 @@
+import React, { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Barcode, Plus, Trash2 } from 'lucide-react';
+import { BarcodeSettings, VariableMeasureRule } from '../../types/settings';
+import { barcodeForSequence, getBarcodePrefix, validateBarcodeSettings } from '../../lib/barcode';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+
+interface BarcodeNumberingSettingsProps {
+  barcodes: BarcodeSettings;
+  onSave: (barcodes: BarcodeSettings) => Promise<void>;
+}
+
+export default function BarcodeNumberingSettings({ barcodes, onSave }: BarcodeNumberingSettingsProps) {
+  const { t } = useTranslation();
+  const [formData, setFormData] = useState<BarcodeSettings>(barcodes);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    setFormData(barcodes);
+  }, [barcodes]);
+
+  const problem = validateBarcodeSettings(formData);
+
+  const updateRule = (index: number, changes: Partial<VariableMeasureRule>) => {
+    setFormData(prev => ({
+      ...prev,
+      variable_measure: prev.variable_measure.map((rule, i) => (i === index ? { ...rule, ...changes } : rule))
+    }));
+  };
+
+  const addRule = () => {
+    setFormData(prev => ({
+      ...prev,
+      variable_measure: [...prev.variable_measure, { prefix: '', kind: 'price', decimals: 2 }]
+    }));
+  };
+
+  const removeRule = (index: number) => {
+    setFormData(prev => ({ ...prev, variable_measure: prev.variable_measure.filter((_, i) => i !== index) }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (problem) return;
+    try {
+      setSaving(true);
+      await onSave(formData);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card className="bg-card border border-border dark:bg-card/80">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Barcode className="h-5 w-5" />
+          {t('settings.barcodes.title')}
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>{t('settings.barcodes.scheme')}</Label>
+              <Select
+                value={formData.scheme}
+                onValueChange={(value) => setFormData(prev => ({ ...prev, scheme: value as BarcodeSettings['scheme'] }))}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="in_store">{t('settings.barcodes.schemes.in_store')}</SelectItem>
+                  <SelectItem value="gs1">{t('settings.barcodes.schemes.gs1')}</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            {formData.scheme === 'gs1' ? (
+              <div className="space-y-2">
+                <Label htmlFor="company-prefix">{t('settings.barcodes.companyPrefix')}</Label>
+                <Input
+                  id="company-prefix"
+                  inputMode="numeric"
+                  value={formData.company_prefix}
+                  onChange={(e) => setFormData(prev => ({ ...prev, company_prefix: e.target.value.replace(/\D/g, '') }))}
+                  maxLength={11}
+                />
+              </div>
+            ) : (
+              <div className="space-y-2">
+                <Label htmlFor="in-store-prefix">{t('settings.barcodes.inStorePrefix')}</Label>
+                <Input
+                  id="in-store-prefix"
+                  inputMode="numeric"
+                  value={formData.in_store_prefix}
+                  onChange={(e) => setFormData(prev => ({ ...prev, in_store_prefix: e.target.value.replace(/\D/g, '') }))}
+                  maxLength={3}
+                />
+              </div>
+            )}
+          </div>
+
+          {problem ? (
+            <p className="text-sm text-destructive">{t(`settings.barcodes.errors.${problem}`)}</p>
+          ) : (
+            <p className="text-sm text-muted-foreground">
+              {t('settings.barcodes.firstNumber', { barcode: barcodeForSequence(getBarcodePrefix(formData), 1) })}
+            </p>
+          )}
+          <p className="text-xs text-muted-foreground">{t('settings.barcodes.hint')}</p>
+
+          <div className="space-y-2">
+            <Label>{t('settings.barcodes.variable.title')}</Label>
+            <p className="text-xs text-muted-foreground">{t('settings.barcodes.variable.hint')}</p>
+            {formData.variable_measure.map((rule, index) => (
+              <div key={index} className="grid grid-cols-[5rem_1fr_6rem_auto] items-center gap-2">
+                <Input
+                  aria-label={t('settings.barcodes.variable.prefix')}
+                  inputMode="numeric"
+                  value={rule.prefix}
+                  onChange={(e) => updateRule(index, { prefix: e.target.value.replace(/\D/g, '') })}
+                  maxLength={2}
+                />
+                <Select
+                  value={rule.kind}
+                  onValueChange={(value) => updateRule(index, {
+                    kind: value as VariableMeasureRule['kind'],
+                    decimals: value === 'price' ? 2 : 3
+                  })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="price">{t('settings.barcodes.variable.kinds.price')}</SelectItem>
+                    <SelectItem value="measure">{t('settings.barcodes.variable.kinds.measure')}</SelectItem>
+                  </SelectContent>
+                </Select>
+                <Input
+                  aria-label={t('settings.barcodes.variable.decimals')}
+                  type="number"
+                  min={0}
+                  max={4}
+                  value={rule.decimals}
+                  onChange={(e) => updateRule(index, { decimals: Math.min(Math.max(parseInt(e.target.value) || 0, 0), 4) })}
+                />
+                <Button type="button" variant="ghost" size="icon" onClick={() => removeRule(index)}>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            <Button type="button" variant="outline" size="sm" onClick={addRule}>
+              <Plus className="h-4 w-4 mr-2" />
+              {t('settings.barcodes.variable.add')}
+            </Button>
+          </div>
+
+          <div className="flex justify-end">
+            <Button type="submit" disabled={saving || !!problem}>
+              {saving ? t('common.loading') : t('common.save')}
+            </Button>
+          </div>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,71 @@
+import React, { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Calculator } from 'lucide-react';
+import { CostingSettings as CostingSettingsData, CostMethod } from '../../types/settings';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+
+interface CostingSettingsProps {
+  costing: CostingSettingsData;
+  onSave: (costing: CostingSettingsData) => Promise<void>;
+}
+
+export default function CostingSettings({ costing, onSave }: CostingSettingsProps) {
+  const { t } = useTranslation();
+  const [formData, setFormData] = useState<CostingSettingsData>(costing);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    setFormData(costing);
+  }, [costing]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setSaving(true);
+      await onSave(formData);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card className="bg-card border border-border dark:bg-card/80">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Calculator className="h-5 w-5" />
+          {t('settings.costing.title')}
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label>{t('settings.costing.method')}</Label>
+            <Select
+              value={formData.method}
+              onValueChange={(value) => setFormData(prev => ({ ...prev, method: value as CostMethod }))}
+            >
+              <SelectTrigger className="md:w-80">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="weighted_average">{t('settings.costing.methods.weighted_average')}</SelectItem>
+                <SelectItem value="fifo">{t('settings.costing.methods.fifo')}</SelectItem>
+              </SelectContent>
+            </Select>
+            <p className="text-sm text-muted-foreground">{t(`settings.costing.descriptions.${formData.method}`)}</p>
+          </div>
+          <p className="text-xs text-muted-foreground">{t('settings.costing.hint')}</p>
+
+          <div className="flex justify-end">
+            <Button type="submit" disabled={saving}>
+              {saving ? t('common.loading') : t('common.save')}
+            </Button>
+          </div>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
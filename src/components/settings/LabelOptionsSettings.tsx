@@ -0,0 +1,170 @@
+import React, { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Tags } from 'lucide-react';
+import { LabelSettings, LabelTemplate } from '../../types/labels';
+import { CUSTOM_TEMPLATE_ID, LABEL_TEMPLATES } from '../../lib/labels';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+
+interface LabelOptionsSettingsProps {
+  labels: LabelSettings;
+  onSave: (labels: LabelSettings) => Promise<void>;
+}
+
+type TemplateDimension = Exclude<keyof LabelTemplate, 'id' | 'name' | 'kind'>;
+
+const DIMENSIONS: TemplateDimension[] = [
+  'page_width_mm', 'page_height_mm',
+  'columns', 'rows',
+  'label_width_mm', 'label_height_mm',
+  'margin_top_mm', 'margin_left_mm',
+  'gap_x_mm', 'gap_y_mm'
+];
+
+export default function LabelOptionsSettings({ labels, onSave }: LabelOptionsSettingsProps) {
+  const { t } = useTranslation();
+  const [formData, setFormData] = useState<LabelSettings>(labels);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    setFormData(labels);
+  }, [labels]);
+
+  const handleChange = <K extends keyof LabelSettings>(field: K, value: LabelSettings[K]) => {
+    setFormData(prev => ({ ...prev, [field]: value }));
+  };
+
+  const handleDimensionChange = (field: TemplateDimension, value: string) => {
+    const number = field === 'columns' || field === 'rows'
+      ? Math.max(parseInt(value) || 1, 1)
+      : Math.max(parseFloat(value) || 0, 0);
+    setFormData(prev => ({ ...prev, custom_template: { ...prev.custom_template, [field]: number } }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setSaving(true);
+      await onSave(formData);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const toggles: { field: 'show_name' | 'show_price' | 'show_code' | 'print_on_receive'; label: string }[] = [
+    { field: 'show_name', label: t('settings.labels.showName') },
+    { field: 'show_price', label: t('settings.labels.showPrice') },
+    { field: 'show_code', label: t('settings.labels.showCode') },
+    { field: 'print_on_receive', label: t('settings.labels.printOnReceive') }
+  ];
+
+  return (
+    <Card className="bg-card border border-border dark:bg-card/80">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Tags className="h-5 w-5" />
+          {t('settings.labels.title')}
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label>{t('settings.labels.template')}</Label>
+              <Select value={formData.template_id} onValueChange={(value) => handleChange('template_id', value)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {LABEL_TEMPLATES.map(template => (
+                    <SelectItem key={template.id} value={template.id}>{template.name}</SelectItem>
+                  ))}
+                  <SelectItem value={CUSTOM_TEMPLATE_ID}>{t('settings.labels.customTemplate')}</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label>{t('settings.labels.style')}</Label>
+              <Select
+                value={formData.style}
+                onValueChange={(value) => handleChange('style', value as LabelSettings['style'])}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="shelf">{t('settings.labels.styles.shelf')}</SelectItem>
+                  <SelectItem value="sticker">{t('settings.labels.styles.sticker')}</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label>{t('settings.labels.symbology')}</Label>
+              <Select
+                value={formData.symbology}
+                onValueChange={(value) => handleChange('symbology', value as LabelSettings['symbology'])}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="auto">{t('settings.labels.symbologies.auto')}</SelectItem>
+                  <SelectItem value="ean13">EAN-13</SelectItem>
+                  <SelectItem value="upca">UPC-A</SelectItem>
+                  <SelectItem value="code128">Code 128</SelectItem>
+                  <SelectItem value="qr">QR</SelectItem>
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">{t('settings.labels.symbologyHint')}</p>
+            </div>
+          </div>
+
+          {formData.template_id === CUSTOM_TEMPLATE_ID && (
+            <div className="space-y-2">
+              <p className="text-sm text-muted-foreground">{t('settings.labels.customHint')}</p>
+              <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+                {DIMENSIONS.map(field => (
+                  <div key={field} className="space-y-2">
+                    <Label htmlFor={`label-${field}`}>{t(`settings.labels.dimensions.${field}`)}</Label>
+                    <Input
+                      id={`label-${field}`}
+                      type="number"
+                      min={field === 'columns' || field === 'rows' ? 1 : 0}
+                      step={field === 'columns' || field === 'rows' ? 1 : 0.1}
+                      value={formData.custom_template[field]}
+                      onChange={(e) => handleDimensionChange(field, e.target.value)}
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div className="space-y-3">
+            {toggles.map(({ field, label }) => (
+              <label key={field} className="flex items-center gap-2 text-sm">
+                <Checkbox
+                  checked={formData[field]}
+                  onCheckedChange={(checked) => handleChange(field, checked === true)}
+                />
+                {label}
+              </label>
+            ))}
+          </div>
+
+          <div className="flex justify-end">
+            <Button type="submit" disabled={saving}>
+              {saving ? t('common.loading') : t('common.save')}
+            </Button>
+          </div>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,168 @@
+import React, { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { ShoppingCart } from 'lucide-react';
+import { POSSettings } from '../../types/pos';
+import { Location } from '../../types/locations';
+import { useTillLocation } from '../../hooks/useTillLocation';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+
+interface POSOptionsSettingsProps {
+  pos: POSSettings;
+  locations: Location[];
+  onSave: (pos: POSSettings) => Promise<void>;
+}
+
+const CURRENCIES = ['CAD', 'USD', 'EUR'];
+
+const DEFAULT_LOCATION = 'default';
+
+export default function POSOptionsSettings({ pos, locations, onSave }: POSOptionsSettingsProps) {
+  const { t } = useTranslation();
+  const { tillLocationId, updateTillLocation } = useTillLocation();
+  const [formData, setFormData] = useState<POSSettings>(pos);
+  const [locationId, setLocationId] = useState(tillLocationId);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    setFormData(pos);
+  }, [pos]);
+
+  useEffect(() => {
+    setLocationId(tillLocationId);
+  }, [tillLocationId]);
+
+  const handleChange = <K extends keyof POSSettings>(field: K, value: POSSettings[K]) => {
+    setFormData(prev => ({ ...prev, [field]: value }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setSaving(true);
+      // The till location belongs to this device, not to the shared settings
+      await updateTillLocation(locationId);
+      await onSave(formData);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const toggles: { field: 'prices_include_tax' | 'auto_print_receipt' | 'sound_enabled' | 'barcode_scanner_enabled'; label: string }[] = [
+    { field: 'prices_include_tax', label: t('settings.tax.pricesIncludeTax') },
+    { field: 'auto_print_receipt', label: t('settings.pos.autoPrint') },
+    { field: 'sound_enabled', label: t('settings.pos.sound') },
+    { field: 'barcode_scanner_enabled', label: t('settings.pos.scanner') }
+  ];
+
+  return (
+    <Card className="bg-card border border-border dark:bg-card/80">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ShoppingCart className="h-5 w-5" />
+          {t('settings.pos.title')}
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="pos-tax-rate">{t('settings.pos.fallbackTaxRate')} (%)</Label>
+              <Input
+                id="pos-tax-rate"
+                type="number"
+                min="0"
+                max="100"
+                step="0.001"
+                value={formData.tax_rate}
+                onChange={(e) => handleChange('tax_rate', parseFloat(e.target.value) || 0)}
+              />
+              <p className="text-xs text-muted-foreground">{t('settings.pos.fallbackTaxRateHint')}</p>
+            </div>
+            <div className="space-y-2">
+              <Label>{t('settings.pos.currency')}</Label>
+              <Select value={formData.currency} onValueChange={(value) => handleChange('currency', value)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CURRENCIES.map(currency => (
+                    <SelectItem key={currency} value={currency}>{currency}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>{t('settings.pos.defaultPayment')}</Label>
+              <Select
+                value={formData.default_payment_method}
+                onValueChange={(value) => handleChange('default_payment_method', value as POSSettings['default_payment_method'])}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="cash">{t('settings.pos.cash')}</SelectItem>
+                  <SelectItem value="card">{t('settings.pos.card')}</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="pos-held-expiry">{t('settings.pos.heldCartExpiry')}</Label>
+              <Input
+                id="pos-held-expiry"
+                type="number"
+                min="1"
+                value={formData.held_cart_expiry_hours}
+                onChange={(e) => handleChange('held_cart_expiry_hours', parseInt(e.target.value) || 1)}
+              />
+            </div>
+            {locations.length > 1 && (
+              <div className="space-y-2">
+                <Label>{t('settings.pos.location')}</Label>
+                <Select
+                  value={locationId || DEFAULT_LOCATION}
+                  onValueChange={(value) => setLocationId(value === DEFAULT_LOCATION ? '' : value)}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={DEFAULT_LOCATION}>{t('settings.pos.defaultLocation')}</SelectItem>
+                    {locations.map(location => (
+                      <SelectItem key={location.id} value={location.id}>{location.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">{t('settings.pos.locationHint')}</p>
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-3">
+            {toggles.map(({ field, label }) => (
+              <label key={field} className="flex items-center gap-2 text-sm">
+                <Checkbox
+                  checked={formData[field]}
+                  onCheckedChange={(checked) => handleChange(field, checked === true)}
+                />
+                {label}
+              </label>
+            ))}
+            <p className="text-xs text-muted-foreground">{t('settings.tax.pricesIncludeTaxHint')}</p>
+          </div>
+
+          <div className="flex justify-end">
+            <Button type="submit" disabled={saving}>
+              {saving ? t('common.loading') : t('common.save')}
+            </Button>
+          </div>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,89 @@
+import React, { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Globe } from 'lucide-react';
+import { AppLanguage, ThemePreference } from '../../types/settings';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+
+interface PreferencesSettingsProps {
+  language: AppLanguage;
+  theme: ThemePreference;
+  onSave: (preferences: { language: AppLanguage; theme: ThemePreference }) => Promise<void>;
+}
+
+export default function PreferencesSettings({ language, theme, onSave }: PreferencesSettingsProps) {
+  const { t } = useTranslation();
+  const [formData, setFormData] = useState({ language, theme });
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    setFormData({ language, theme });
+  }, [language, theme]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setSaving(true);
+      await onSave(formData);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card className="bg-card border border-border dark:bg-card/80">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Globe className="h-5 w-5" />
+          {t('settings.preferences.title')}
+        </CardTitle>
+        <p className="text-sm text-muted-foreground">{t('settings.preferences.hint')}</p>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>{t('settings.preferences.language')}</Label>
+              <Select
+                value={formData.language}
+                onValueChange={(value) => setFormData(prev => ({ ...prev, language: value as AppLanguage }))}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="en">English</SelectItem>
+                  <SelectItem value="fr">Français</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>{t('settings.preferences.theme')}</Label>
+              <Select
+                value={formData.theme}
+                onValueChange={(value) => setFormData(prev => ({ ...prev, theme: value as ThemePreference }))}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="light">{t('settings.preferences.light')}</SelectItem>
+                  <SelectItem value="dark">{t('settings.preferences.dark')}</SelectItem>
+                  <SelectItem value="system">{t('settings.preferences.system')}</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="flex justify-end">
+            <Button type="submit" disabled={saving}>
+              {saving ? t('common.loading') : t('common.save')}
+            </Button>
+          </div>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,89 @@
+import React, { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { ReceiptText } from 'lucide-react';
+import { ReceiptSettings } from '../../types/settings';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+
+interface ReceiptOptionsSettingsProps {
+  receipt: ReceiptSettings;
+  onSave: (receipt: ReceiptSettings) => Promise<void>;
+}
+
+export default function ReceiptOptionsSettings({ receipt, onSave }: ReceiptOptionsSettingsProps) {
+  const { t } = useTranslation();
+  const [formData, setFormData] = useState<ReceiptSettings>(receipt);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    setFormData(receipt);
+  }, [receipt]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setSaving(true);
+      await onSave(formData);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card className="bg-card border border-border dark:bg-card/80">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ReceiptText className="h-5 w-5" />
+          {t('settings.receipt.title')}
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="receipt-footer">{t('settings.receipt.footer')}</Label>
+            <Textarea
+              id="receipt-footer"
+              value={formData.footer_text}
+              onChange={(e) => setFormData(prev => ({ ...prev, footer_text: e.target.value }))}
+              rows={4}
+            />
+            <p className="text-xs text-muted-foreground">{t('settings.receipt.footerHint')}</p>
+          </div>
+
+          <div className="space-y-3">
+            <label className="flex items-center gap-2 text-sm">
+              <Checkbox
+                checked={formData.show_logo}
+                onCheckedChange={(checked) => setFormData(prev => ({ ...prev, show_logo: checked === true }))}
+              />
+              {t('settings.receipt.showLogo')}
+            </label>
+            <label className="flex items-center gap-2 text-sm">
+              <Checkbox
+                checked={formData.show_tax_id}
+                onCheckedChange={(checked) => setFormData(prev => ({ ...prev, show_tax_id: checked === true }))}
+              />
+              {t('settings.receipt.showTaxId')}
+            </label>
+            <label className="flex items-center gap-2 text-sm">
+              <Checkbox
+                checked={formData.show_kit_components}
+                onCheckedChange={(checked) => setFormData(prev => ({ ...prev, show_kit_components: checked === true }))}
+              />
+              {t('settings.receipt.showKitComponents')}
+            </label>
+          </div>
+
+          <div className="flex justify-end">
+            <Button type="submit" disabled={saving}>
+              {saving ? t('common.loading') : t('common.save')}
+            </Button>
+          </div>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
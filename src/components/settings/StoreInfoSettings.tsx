@@ -0,0 +1,142 @@
+import React, { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Store, Upload, X } from 'lucide-react';
+import { StoreInfo } from '../../types/settings';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+
+interface StoreInfoSettingsProps {
+  store: StoreInfo;
+  onSave: (store: StoreInfo) => Promise<void>;
+}
+
+export default function StoreInfoSettings({ store, onSave }: StoreInfoSettingsProps) {
+  const { t } = useTranslation();
+  const [formData, setFormData] = useState<StoreInfo>(store);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    setFormData(store);
+  }, [store]);
+
+  const handleChange = (field: keyof StoreInfo, value: string) => {
+    setFormData(prev => ({ ...prev, [field]: value }));
+  };
+
+  // Logos are stored inline so receipts can print them offline
+  const handleLogoUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      const reader = new FileReader();
+      reader.onload = (e) => {
+        handleChange('logo_url', e.target?.result as string);
+      };
+      reader.readAsDataURL(file);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setSaving(true);
+      await onSave(formData);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card className="bg-card border border-border dark:bg-card/80">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Store className="h-5 w-5" />
+          {t('settings.store.title')}
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="store-name">{t('settings.store.name')} *</Label>
+              <Input
+                id="store-name"
+                value={formData.name}
+                onChange={(e) => handleChange('name', e.target.value)}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="store-tax-id">{t('settings.store.taxId')}</Label>
+              <Input
+                id="store-tax-id"
+                value={formData.tax_id || ''}
+                onChange={(e) => handleChange('tax_id', e.target.value)}
+              />
+            </div>
+            <div className="space-y-2 md:col-span-2">
+              <Label htmlFor="store-address">{t('settings.store.address')}</Label>
+              <Textarea
+                id="store-address"
+                value={formData.address}
+                onChange={(e) => handleChange('address', e.target.value)}
+                rows={2}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="store-phone">{t('settings.store.phone')}</Label>
+              <Input
+                id="store-phone"
+                value={formData.phone}
+                onChange={(e) => handleChange('phone', e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="store-email">{t('settings.store.email')}</Label>
+              <Input
+                id="store-email"
+                type="email"
+                value={formData.email}
+                onChange={(e) => handleChange('email', e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>{t('settings.store.logo')}</Label>
+            <div className="flex items-center gap-4">
+              {formData.logo_url ? (
+                <div className="relative">
+                  <img src={formData.logo_url} alt={formData.name} className="h-16 max-w-[160px] object-contain rounded border border-border" />
+                  <button
+                    type="button"
+                    onClick={() => handleChange('logo_url', '')}
+                    className="absolute -top-2 -right-2 rounded-full bg-background border border-border p-0.5"
+                    title={t('common.delete')}
+                  >
+                    <X className="h-3 w-3" />
+                  </button>
+                </div>
+              ) : (
+                <div className="h-16 w-16 rounded border border-dashed border-border" />
+              )}
+              <Label className="cursor-pointer inline-flex items-center gap-2 px-3 py-2 border border-border rounded-md text-sm">
+                <Upload className="h-4 w-4" />
+                {t('settings.store.uploadLogo')}
+                <input type="file" accept="image/*" onChange={handleLogoUpload} className="hidden" />
+              </Label>
+            </div>
+          </div>
+
+          <div className="flex justify-end">
+            <Button type="submit" disabled={saving}>
+              {saving ? t('common.loading') : t('common.save')}
+            </Button>
+          </div>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
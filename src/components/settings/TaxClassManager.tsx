@@ -0,0 +1,279 @@
+import React, { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Plus, Edit, Trash2, Percent } from 'lucide-react';
+import { TaxClass, TaxClassFormData } from '../../types/tax';
+import { Category } from '../../types/inventory';
+import { useTaxClasses } from '../../hooks/useTaxClasses';
+import { useInventory } from '../../hooks/useInventory';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import DeleteConfirmation from '@/components/common/DeleteConfirmation';
+import { UnifiedTable } from '@/components/common/UnifiedTable';
+
+const emptyForm: TaxClassFormData = {
+  name: '',
+  rate: 0,
+  description: '',
+  is_default: false,
+  is_active: true
+};
+
+const flattenCategories = (categories: Category[], depth = 0): { category: Category; depth: number }[] =>
+  categories.flatMap(category => [
+    { category, depth },
+    ...flattenCategories(category.children || [], depth + 1)
+  ]);
+
+export default function TaxClassManager() {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const { taxClasses, loading, createTaxClass, updateTaxClass, deleteTaxClass, assignCategoryTaxClass } = useTaxClasses();
+  const { categories, refreshData: refreshCategories } = useInventory();
+
+  const [editing, setEditing] = useState<TaxClass | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [formData, setFormData] = useState<TaxClassFormData>(emptyForm);
+  const [deleting, setDeleting] = useState<TaxClass | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const openForm = (taxClass?: TaxClass) => {
+    setEditing(taxClass || null);
+    setFormData(taxClass
+      ? {
+          name: taxClass.name,
+          rate: taxClass.rate,
+          description: taxClass.description || '',
+          is_default: taxClass.is_default,
+          is_active: taxClass.is_active
+        }
+      : emptyForm);
+    setShowForm(true);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setSaving(true);
+      if (editing) {
+        await updateTaxClass(editing.id, formData);
+      } else {
+        await createTaxClass(formData);
+      }
+      toast({
+        title: t('common.success'),
+        description: t('settings.tax.saved'),
+      });
+      setShowForm(false);
+    } catch (error) {
+      toast({
+        title: t('common.error'),
+        description: error instanceof Error ? error.message : t('errors.savingFailed'),
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleting) return;
+
+    try {
+      await deleteTaxClass(deleting.id);
+      setDeleting(null);
+    } catch (error) {
+      toast({
+        title: t('common.error'),
+        description: error instanceof Error ? error.message : t('errors.savingFailed'),
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleCategoryChange = async (categoryId: string, value: string) => {
+    try {
+      await assignCategoryTaxClass(categoryId, value === 'inherit' ? null : value);
+      await refreshCategories();
+    } catch (error) {
+      toast({
+        title: t('common.error'),
+        description: error instanceof Error ? error.message : t('errors.savingFailed'),
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const columns = [
+    { key: 'name', label: t('settings.tax.name') },
+    { key: 'rate', label: t('settings.tax.rate'), type: 'number' as const, render: (c: TaxClass) => `${c.rate}%` },
+    { key: 'description', label: t('common.description'), render: (c: TaxClass) => c.description || '—' },
+    {
+      key: 'is_default',
+      label: t('common.status'),
+      render: (c: TaxClass) => (
+        <div className="flex gap-1">
+          {c.is_default && <Badge>{t('settings.tax.default')}</Badge>}
+          {!c.is_active && <Badge variant="secondary">{t('settings.tax.inactive')}</Badge>}
+        </div>
+      )
+    },
+  ];
+
+  return (
+    <div className="space-y-6">
+      <Card className="bg-card border border-border dark:bg-card/80">
+        <CardHeader className="flex flex-row items-center justify-between">
+          <CardTitle className="flex items-center gap-2">
+            <Percent className="h-5 w-5" />
+            {t('settings.tax.title')}
+          </CardTitle>
+          <Button size="sm" onClick={() => openForm()}>
+            <Plus className="h-4 w-4 mr-2" />
+            {t('settings.tax.addClass')}
+          </Button>
+        </CardHeader>
+        <CardContent>
+          <UnifiedTable
+            columns={columns}
+            data={taxClasses}
+            loading={loading}
+            emptyMessage={t('settings.tax.noClasses')}
+            rowKey={c => c.id}
+            actions={taxClass => (
+              <div className="flex items-center justify-end gap-2">
+                <button
+                  className="text-indigo-600 hover:text-indigo-900"
+                  onClick={() => openForm(taxClass)}
+                  title={t('common.edit')}
+                >
+                  <Edit className="h-4 w-4" />
+                </button>
+                <button
+                  className="text-red-600 hover:text-red-900"
+                  onClick={() => setDeleting(taxClass)}
+                  title={t('common.delete')}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </div>
+            )}
+          />
+        </CardContent>
+      </Card>
+
+      <Card className="bg-card border border-border dark:bg-card/80">
+        <CardHeader>
+          <CardTitle>{t('settings.tax.categoryClasses')}</CardTitle>
+          <p className="text-sm text-muted-foreground">{t('settings.tax.categoryClassesHint')}</p>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          {flattenCategories(categories).map(({ category, depth }) => (
+            <div key={category.id} className="flex items-center justify-between gap-4">
+              <span className="text-sm" style={{ paddingLeft: depth * 16 }}>{category.name}</span>
+              <Select
+                value={category.tax_class_id || 'inherit'}
+                onValueChange={(value) => handleCategoryChange(category.id, value)}
+              >
+                <SelectTrigger className="w-56">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="inherit">
+                    {depth > 0 ? t('settings.tax.inheritParent') : t('settings.tax.useDefault')}
+                  </SelectItem>
+                  {taxClasses.filter(c => c.is_active).map(taxClass => (
+                    <SelectItem key={taxClass.id} value={taxClass.id}>
+                      {taxClass.name} ({taxClass.rate}%)
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+
+      <Dialog open={showForm} onOpenChange={setShowForm}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>{editing ? t('settings.tax.editClass') : t('settings.tax.addClass')}</DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="tax-name">{t('settings.tax.name')} *</Label>
+              <Input
+                id="tax-name"
+                value={formData.name}
+                onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="tax-rate">{t('settings.tax.rate')} (%) *</Label>
+              <Input
+                id="tax-rate"
+                type="number"
+                min="0"
+                max="100"
+                step="0.001"
+                value={formData.rate}
+                onChange={(e) => setFormData(prev => ({ ...prev, rate: parseFloat(e.target.value) || 0 }))}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="tax-description">{t('common.description')}</Label>
+              <Input
+                id="tax-description"
+                value={formData.description || ''}
+                onChange={(e) => setFormData(prev => ({ ...prev, description: e.target.value }))}
+              />
+            </div>
+            <div className="flex gap-6">
+              <label className="flex items-center gap-2 text-sm">
+                <Checkbox
+                  checked={formData.is_default}
+                  onCheckedChange={(checked) => setFormData(prev => ({ ...prev, is_default: checked === true }))}
+                />
+                {t('settings.tax.default')}
+              </label>
+              <label className="flex items-center gap-2 text-sm">
+                <Checkbox
+                  checked={formData.is_active}
+                  onCheckedChange={(checked) => setFormData(prev => ({ ...prev, is_active: checked === true }))}
+                />
+                {t('settings.tax.active')}
+              </label>
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="outline" onClick={() => setShowForm(false)}>
+                {t('common.cancel')}
+              </Button>
+              <Button type="submit" disabled={saving}>
+                {t('common.save')}
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      {deleting && (
+        <DeleteConfirmation
+          open={!!deleting}
+          onOpenChange={(open) => !open && setDeleting(null)}
+          onConfirm={handleDelete}
+          title={t('settings.tax.deleteTitle')}
+          description={t('settings.tax.deleteDescription', { name: deleting.name })}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,56 @@
+import { useEffect, useRef, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { CameraOff } from 'lucide-react';
+import { BarcodeScanner } from '../../lib/barcodeScanner';
+
+interface ContinuousScannerProps {
+  onScan: (code: string) => void;
+}
+
+// Camera stays on between reads so items can be counted one after another
+export default function ContinuousScanner({ onScan }: ContinuousScannerProps) {
+  const { t } = useTranslation();
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const onScanRef = useRef(onScan);
+  const [error, setError] = useState<string | null>(null);
+
+  onScanRef.current = onScan;
+
+  useEffect(() => {
+    const scanner = new BarcodeScanner({ continuous: true, cooldownMs: 1200 });
+
+    if (videoRef.current) {
+      scanner
+        .startScanning(
+          videoRef.current,
+          result => {
+            if (BarcodeScanner.validateBarcode(result.text, result.format)) {
+              onScanRef.current(result.text);
+            }
+          },
+          err => setError(err.message)
+        )
+        .catch(err => setError(err instanceof Error ? err.message : t('stocktake.cameraFailed')));
+    }
+
+    return () => scanner.stopScanning();
+  }, [t]);
+
+  return (
+    <div className="relative aspect-video bg-black rounded-lg overflow-hidden">
+      {error ? (
+        <div className="absolute inset-0 flex flex-col items-center justify-center text-white p-4 text-center text-sm">
+          <CameraOff className="h-10 w-10 mb-3 opacity-50" />
+          {error}
+        </div>
+      ) : (
+        <>
+          <video ref={videoRef} className="w-full h-full object-cover" playsInline muted />
+          <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
+            <div className="w-64 h-32 border-2 border-white rounded-lg opacity-75" />
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,159 @@
+import React, { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Category, Product } from '../../types/inventory';
+import { Location } from '../../types/locations';
+import { StocktakeFormData, StocktakeScope } from '../../types/stocktake';
+import { buildStocktakeLines } from '../../lib/stocktake';
+import { getDefaultLocation } from '../../lib/locations';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+
+interface NewStocktakeDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSubmit: (data: StocktakeFormData) => Promise<void>;
+  products: Product[];
+  categories: Category[];
+  locations: Location[];
+}
+
+export default function NewStocktakeDialog({ open, onOpenChange, onSubmit, products, categories, locations }: NewStocktakeDialogProps) {
+  const { t } = useTranslation();
+  const [formData, setFormData] = useState<StocktakeFormData>({
+    name: '',
+    scope: 'all',
+    category_id: '',
+    location_id: getDefaultLocation(locations)?.id || '',
+    notes: ''
+  });
+  const [error, setError] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  const lineCount = formData.scope === 'category' && !formData.category_id
+    ? 0
+    : buildStocktakeLines(
+      products,
+      formData.scope === 'category' ? formData.category_id : undefined,
+      formData.location_id || undefined
+    ).length;
+
+  const handleInputChange = <K extends keyof StocktakeFormData>(field: K, value: StocktakeFormData[K]) => {
+    setFormData(prev => ({ ...prev, [field]: value }));
+    setError('');
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (formData.scope === 'category' && !formData.category_id) {
+      setError(t('stocktake.errors.categoryRequired'));
+      return;
+    }
+    if (lineCount === 0) {
+      setError(t('stocktake.errors.nothingToCount'));
+      return;
+    }
+
+    setLoading(true);
+    try {
+      await onSubmit(formData);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{t('stocktake.newTitle')}</DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="stocktake-name">{t('common.name')}</Label>
+            <Input
+              id="stocktake-name"
+              value={formData.name}
+              onChange={(e) => handleInputChange('name', e.target.value)}
+              placeholder={t('stocktake.namePlaceholder')}
+            />
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>{t('stocktake.scope')}</Label>
+              <Select value={formData.scope} onValueChange={(value) => handleInputChange('scope', value as StocktakeScope)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">{t('stocktake.scopes.all')}</SelectItem>
+                  <SelectItem value="category">{t('stocktake.scopes.category')}</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            {formData.scope === 'category' && (
+              <div className="space-y-2">
+                <Label>{t('stocktake.category')}</Label>
+                <Select value={formData.category_id} onValueChange={(value) => handleInputChange('category_id', value)}>
+                  <SelectTrigger>
+                    <SelectValue placeholder={t('stocktake.selectCategory')} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {categories.map(category => (
+                      <SelectItem key={category.id} value={category.id}>{category.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+          </div>
+
+          {locations.length > 1 && (
+            <div className="space-y-2">
+              <Label>{t('locations.location')}</Label>
+              <Select value={formData.location_id} onValueChange={(value) => handleInputChange('location_id', value)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {locations.map(location => (
+                    <SelectItem key={location.id} value={location.id}>{location.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="stocktake-notes">{t('stocktake.notes')}</Label>
+            <Textarea
+              id="stocktake-notes"
+              value={formData.notes}
+              onChange={(e) => handleInputChange('notes', e.target.value)}
+              rows={2}
+            />
+          </div>
+
+          <p className="text-sm text-muted-foreground">{t('stocktake.linesInScope', { count: lineCount })}</p>
+
+          {error && <p className="text-sm text-red-500">{error}</p>}
+
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={loading}>
+              {t('common.cancel')}
+            </Button>
+            <Button type="submit" disabled={loading}>
+              {loading ? t('common.loading') : t('stocktake.start')}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
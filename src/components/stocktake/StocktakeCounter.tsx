@@ -0,0 +1,382 @@
+import React, { useRef, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { ArrowLeft, Camera, CameraOff, CheckCircle, AlertTriangle, Save, Send, XCircle, Search } from 'lucide-react';
+import { StocktakeLine, StocktakeSession } from '../../types/stocktake';
+import { addLineCount, findStocktakeLine, getLineVariance, setLineCount, summarizeStocktake } from '../../lib/stocktake';
+import { isMeasured, roundQuantity } from '../../lib/units';
+import { formatCurrency } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Card, CardContent } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import DeleteConfirmation from '@/components/common/DeleteConfirmation';
+import ContinuousScanner from './ContinuousScanner';
+
+type LineFilter = 'all' | 'uncounted' | 'counted' | 'variances';
+
+interface StocktakeCounterProps {
+  session: StocktakeSession;
+  currency?: string;
+  isOnline: boolean;
+  onChange: (session: StocktakeSession) => void;
+  onSave: (session: StocktakeSession) => Promise<void>;
+  onPost: (session: StocktakeSession) => Promise<void>;
+  onCancel: () => Promise<void>;
+  onClose: () => void;
+}
+
+interface ScanFeedback {
+  code: string;
+  line?: StocktakeLine;
+}
+
+export default function StocktakeCounter({
+  session,
+  currency = 'CAD',
+  isOnline,
+  onChange,
+  onSave,
+  onPost,
+  onCancel,
+  onClose
+}: StocktakeCounterProps) {
+  const { t } = useTranslation();
+  const [draft, setDraft] = useState(session);
+  // Scans can arrive faster than React re-renders, so edits always start from the latest copy
+  const draftRef = useRef(session);
+  const codeInputRef = useRef<HTMLInputElement>(null);
+  const [code, setCode] = useState('');
+  const [scanQuantity, setScanQuantity] = useState(1);
+  const [feedback, setFeedback] = useState<ScanFeedback | null>(null);
+  const [cameraOn, setCameraOn] = useState(false);
+  const [lineFilter, setLineFilter] = useState<LineFilter>('all');
+  const [search, setSearch] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [confirming, setConfirming] = useState<'post' | 'cancel' | null>(null);
+
+  const isCounting = draft.status === 'counting';
+  const money = (amount: number) => formatCurrency(amount, currency);
+  const summary = summarizeStocktake(draft.lines);
+  const approvedSummary = summarizeStocktake(draft.lines.filter(line => line.approved));
+
+  const updateDraft = (next: StocktakeSession) => {
+    draftRef.current = next;
+    setDraft(next);
+    onChange(next);
+  };
+
+  const countCode = (value: string) => {
+    const line = findStocktakeLine(draftRef.current.lines, value);
+    if (line) {
+      const next = addLineCount(draftRef.current, line.id, scanQuantity);
+      updateDraft(next);
+      setFeedback({ code: value, line: next.lines.find(l => l.id === line.id) });
+    } else {
+      setFeedback({ code: value });
+    }
+  };
+
+  const handleCodeSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!code.trim()) return;
+    countCode(code.trim());
+    setCode('');
+    codeInputRef.current?.focus();
+  };
+
+  const handleCountChange = (lineId: string, value: string) => {
+    updateDraft(setLineCount(draftRef.current, lineId, value === '' ? null : parseFloat(value) || 0));
+  };
+
+  const toggleApproved = (lineId: string, approved: boolean) => {
+    updateDraft({
+      ...draftRef.current,
+      lines: draftRef.current.lines.map(line => line.id === lineId ? { ...line, approved } : line),
+      updated_at: new Date().toISOString()
+    });
+  };
+
+  const runAction = async (action: () => Promise<void>) => {
+    setBusy(true);
+    try {
+      await action();
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const filteredLines = draft.lines.filter(line => {
+    const term = search.toLowerCase();
+    const matchesSearch = !term ||
+      line.product_name.toLowerCase().includes(term) ||
+      line.product_code.toLowerCase().includes(term) ||
+      (line.barcode || '').includes(term);
+    const variance = getLineVariance(line).quantity;
+
+    switch (lineFilter) {
+      case 'uncounted':
+        return matchesSearch && line.counted_quantity === null;
+      case 'counted':
+        return matchesSearch && line.counted_quantity !== null;
+      case 'variances':
+        return matchesSearch && variance !== 0;
+      default:
+        return matchesSearch;
+    }
+  });
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div className="flex items-center gap-3">
+          <Button variant="outline" size="icon" onClick={onClose} title={t('common.back')}>
+            <ArrowLeft className="h-4 w-4" />
+          </Button>
+          <div>
+            <h1 className="text-2xl font-bold tracking-tight">{draft.name || draft.session_number}</h1>
+            <p className="text-sm text-muted-foreground">
+              <span className="font-mono">{draft.session_number}</span>
+              {' · '}
+              {draft.scope === 'category' ? draft.category_name : t('stocktake.scopes.all')}
+              {draft.location_name && ` · ${draft.location_name}`}
+              {' · '}
+              {t(`stocktake.statuses.${draft.status}`)}
+              {!isOnline && ` · ${t('stocktake.offline')}`}
+            </p>
+          </div>
+        </div>
+        {isCounting && (
+          <div className="flex flex-wrap gap-2">
+            <Button variant="outline" onClick={() => runAction(() => onSave(draftRef.current))} disabled={busy}>
+              <Save className="h-4 w-4 mr-2" />
+              {t('stocktake.saveProgress')}
+            </Button>
+            <Button variant="outline" onClick={() => setConfirming('cancel')} disabled={busy}>
+              <XCircle className="h-4 w-4 mr-2" />
+              {t('stocktake.cancelSession')}
+            </Button>
+            <Button onClick={() => setConfirming('post')} disabled={busy || approvedSummary.variance_lines === 0}>
+              <Send className="h-4 w-4 mr-2" />
+              {t('stocktake.post')}
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {/* Summary */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <Card>
+          <CardContent className="pt-6">
+            <div className="text-2xl font-bold">{summary.counted_lines} / {summary.total_lines}</div>
+            <p className="text-sm text-muted-foreground">{t('stocktake.counted')}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="pt-6">
+            <div className="text-2xl font-bold">{summary.variance_lines}</div>
+            <p className="text-sm text-muted-foreground">{t('stocktake.varianceLines')}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="pt-6">
+            <div className={`text-2xl font-bold ${summary.variance_units < 0 ? 'text-red-600' : ''}`}>
+              {summary.variance_units > 0 ? `+${summary.variance_units}` : summary.variance_units}
+            </div>
+            <p className="text-sm text-muted-foreground">{t('stocktake.varianceUnits')}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="pt-6">
+            <div className={`text-2xl font-bold ${summary.variance_value < 0 ? 'text-red-600' : ''}`}>
+              {money(summary.variance_value)}
+            </div>
+            <p className="text-sm text-muted-foreground">{t('stocktake.varianceValue')}</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Scanning */}
+      {isCounting && (
+        <Card>
+          <CardContent className="pt-6 space-y-4">
+            <form onSubmit={handleCodeSubmit} className="flex flex-col sm:flex-row gap-2">
+              <Input
+                ref={codeInputRef}
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                placeholder={t('stocktake.scanPlaceholder')}
+                autoFocus
+                className="flex-1"
+              />
+              <Input
+                type="number"
+                min="0"
+                step="any"
+                value={scanQuantity}
+                onChange={(e) => {
+                  // Each line keeps the count to what its unit allows
+                  const quantity = roundQuantity(parseFloat(e.target.value));
+                  setScanQuantity(quantity > 0 ? quantity : 1);
+                }}
+                className="sm:w-24"
+                title={t('stocktake.perScan')}
+              />
+              <div className="flex gap-2">
+                <Button type="submit" className="flex-1">{t('stocktake.count')}</Button>
+                <Button type="button" variant="outline" onClick={() => setCameraOn(on => !on)} title={t('stocktake.camera')}>
+                  {cameraOn ? <CameraOff className="h-4 w-4" /> : <Camera className="h-4 w-4" />}
+                </Button>
+              </div>
+            </form>
+
+            {cameraOn && <ContinuousScanner onScan={countCode} />}
+
+            {feedback && (
+              feedback.line ? (
+                <div className="flex items-center gap-2 text-sm text-green-700">
+                  <CheckCircle className="h-4 w-4" />
+                  {t('stocktake.scanned', { name: feedback.line.product_name, count: feedback.line.counted_quantity ?? 0 })}
+                </div>
+              ) : (
+                <div className="flex items-center gap-2 text-sm text-red-700">
+                  <AlertTriangle className="h-4 w-4" />
+                  {t('stocktake.unknownCode', { code: feedback.code })}
+                </div>
+              )
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Lines */}
+      <div className="flex flex-col sm:flex-row gap-2">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+          <Input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder={t('stocktake.searchLines')}
+            className="pl-10"
+          />
+        </div>
+        <Select value={lineFilter} onValueChange={(value) => setLineFilter(value as LineFilter)}>
+          <SelectTrigger className="sm:w-48">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(['all', 'uncounted', 'counted', 'variances'] as LineFilter[]).map(filter => (
+              <SelectItem key={filter} value={filter}>{t(`stocktake.lineFilters.${filter}`)}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="overflow-x-auto rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>{t('common.product')}</TableHead>
+              <TableHead className="text-right">{t('stocktake.expected')}</TableHead>
+              <TableHead className="text-right">{t('stocktake.countedQuantity')}</TableHead>
+              <TableHead className="text-right">{t('stocktake.variance')}</TableHead>
+              <TableHead className="text-right">{t('stocktake.varianceValue')}</TableHead>
+              <TableHead className="text-center">{t('stocktake.approve')}</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {filteredLines.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={6} className="text-center py-8 text-muted-foreground">
+                  {t('stocktake.noLines')}
+                </TableCell>
+              </TableRow>
+            ) : filteredLines.map(line => {
+              const variance = getLineVariance(line);
+              return (
+                <TableRow key={line.id}>
+                  <TableCell>
+                    <div className="font-medium">{line.product_name}</div>
+                    <div className="text-xs text-muted-foreground font-mono">
+                      {line.product_code}{line.barcode ? ` · ${line.barcode}` : ''}
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-right">{line.expected_quantity}</TableCell>
+                  <TableCell className="text-right">
+                    {isCounting ? (
+                      <Input
+                        type="number"
+                        min="0"
+                        step={isMeasured(line.unit_of_measure) ? '0.001' : '1'}
+                        value={line.counted_quantity ?? ''}
+                        onChange={(e) => handleCountChange(line.id, e.target.value)}
+                        className="w-24 ml-auto text-right"
+                      />
+                    ) : (
+                      line.counted_quantity ?? '—'
+                    )}
+                  </TableCell>
+                  <TableCell className={`text-right font-medium ${variance.quantity < 0 ? 'text-red-600' : variance.quantity > 0 ? 'text-green-600' : ''}`}>
+                    {line.counted_quantity === null ? '—' : variance.quantity > 0 ? `+${variance.quantity}` : variance.quantity}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {line.counted_quantity === null ? '—' : money(variance.value)}
+                  </TableCell>
+                  <TableCell className="text-center">
+                    {variance.quantity !== 0 && (
+                      isCounting ? (
+                        <Checkbox
+                          checked={line.approved}
+                          onCheckedChange={(checked) => toggleApproved(line.id, checked === true)}
+                        />
+                      ) : (
+                        <Badge variant={line.approved ? 'default' : 'secondary'}>
+                          {line.approved ? t('stocktake.posted') : t('stocktake.skipped')}
+                        </Badge>
+                      )
+                    )}
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </div>
+
+      {confirming === 'post' && (
+        <DeleteConfirmation
+          open={confirming === 'post'}
+          onOpenChange={(open) => !open && setConfirming(null)}
+          onConfirm={() => {
+            setConfirming(null);
+            runAction(() => onPost(draftRef.current));
+          }}
+          title={t('stocktake.postTitle')}
+          confirmLabel={t('stocktake.post')}
+          description={t('stocktake.postDescription', {
+            lines: approvedSummary.variance_lines,
+            value: money(approvedSummary.variance_value),
+            uncounted: summary.total_lines - summary.counted_lines
+          })}
+        />
+      )}
+
+      {confirming === 'cancel' && (
+        <DeleteConfirmation
+          open={confirming === 'cancel'}
+          onOpenChange={(open) => !open && setConfirming(null)}
+          onConfirm={() => {
+            setConfirming(null);
+            runAction(onCancel);
+          }}
+          title={t('stocktake.cancelTitle')}
+          confirmLabel={t('stocktake.cancelSession')}
+          description={t('stocktake.cancelDescription')}
+        />
+      )}
+    </div>
+  );
+}
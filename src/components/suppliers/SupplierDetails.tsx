@@ -0,0 +1,436 @@
+import React, { useState, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  Truck, Mail, Phone, Globe, MapPin, Star, Clock, Package, Activity, TrendingUp, TrendingDown, Minus, Plus
+} from 'lucide-react';
+import { Supplier, SupplierActivityLog, SupplierPerformance } from '../../types/supplier';
+import { Product } from '../../types/inventory';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { formatCurrency, formatDate, formatDateTime, toDateInputValue } from '@/lib/utils';
+import LoadingSpinner from '../common/LoadingSpinner';
+
+type MetricType = SupplierPerformance['metric_type'];
+
+const METRIC_TYPES: MetricType[] = ['delivery_time', 'quality_rating', 'order_accuracy', 'communication'];
+
+// Delivery time is measured in days, so a falling value is an improvement
+const LOWER_IS_BETTER: MetricType[] = ['delivery_time'];
+
+interface SupplierDetailsProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  supplier: Supplier;
+  products: Product[];
+  currency?: string;
+  loadPerformance: (supplierId: string) => Promise<SupplierPerformance[]>;
+  loadActivity: (supplierId: string) => Promise<SupplierActivityLog[]>;
+  addPerformance: (performance: Omit<SupplierPerformance, 'id' | 'created_at'>) => Promise<unknown>;
+}
+
+const activityColors: Record<SupplierActivityLog['activity_type'], string> = {
+  order_placed: 'bg-blue-100 text-blue-800',
+  delivery_received: 'bg-green-100 text-green-800',
+  payment_made: 'bg-purple-100 text-purple-800',
+  communication: 'bg-gray-100 text-gray-800',
+  rating_updated: 'bg-yellow-100 text-yellow-800',
+  contract_updated: 'bg-orange-100 text-orange-800'
+};
+
+export default function SupplierDetails({
+  open,
+  onOpenChange,
+  supplier,
+  products,
+  currency = 'CAD',
+  loadPerformance,
+  loadActivity,
+  addPerformance
+}: SupplierDetailsProps) {
+  const { t } = useTranslation();
+  const [performance, setPerformance] = useState<SupplierPerformance[]>([]);
+  const [activity, setActivity] = useState<SupplierActivityLog[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [metricForm, setMetricForm] = useState({
+    metric_type: 'delivery_time' as MetricType,
+    metric_value: '',
+    measurement_date: toDateInputValue(new Date()),
+    notes: ''
+  });
+  const [savingMetric, setSavingMetric] = useState(false);
+
+  const loadSupplierData = async () => {
+    setLoading(true);
+    try {
+      const [performanceData, activityData] = await Promise.all([
+        loadPerformance(supplier.id),
+        loadActivity(supplier.id)
+      ]);
+      setPerformance(performanceData);
+      setActivity(activityData);
+    } catch (error) {
+      console.error('Error loading supplier data:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (open) {
+      loadSupplierData();
+    }
+    // Reload only when the dialog opens for a different supplier
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open, supplier.id]);
+
+  const linkedProducts = products.filter(product => product.supplier_id === supplier.id);
+  const money = (amount: number) => formatCurrency(amount, currency);
+
+  const formatMetric = (type: MetricType, value: number) => {
+    if (type === 'delivery_time') return t('suppliers.performance.days', { count: value });
+    if (type === 'order_accuracy') return `${value}%`;
+    return `${value} / 5`;
+  };
+
+  // Measurements arrive newest first
+  const metricSummary = METRIC_TYPES.map(type => {
+    const values = performance.filter(p => p.metric_type === type);
+    const latest = values[0]?.metric_value;
+    const previous = values[1]?.metric_value;
+    const average = values.length > 0
+      ? values.reduce((sum, p) => sum + Number(p.metric_value), 0) / values.length
+      : undefined;
+    let trend: 'up' | 'down' | 'flat' = 'flat';
+    if (latest !== undefined && previous !== undefined && latest !== previous) {
+      const improved = LOWER_IS_BETTER.includes(type) ? latest < previous : latest > previous;
+      trend = improved ? 'up' : 'down';
+    }
+    return { type, latest, average, count: values.length, trend };
+  });
+
+  const handleAddMetric = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const value = parseFloat(metricForm.metric_value);
+    if (isNaN(value)) return;
+
+    setSavingMetric(true);
+    try {
+      await addPerformance({
+        supplier_id: supplier.id,
+        metric_type: metricForm.metric_type,
+        metric_value: value,
+        measurement_date: metricForm.measurement_date,
+        notes: metricForm.notes || undefined
+      });
+      setMetricForm(prev => ({ ...prev, metric_value: '', notes: '' }));
+      await loadSupplierData();
+    } catch (error) {
+      console.error('Error adding supplier performance:', error);
+    } finally {
+      setSavingMetric(false);
+    }
+  };
+
+  const InfoRow = ({ icon: Icon, label, value }: { icon: typeof Mail; label: string; value?: React.ReactNode }) =>
+    value ? (
+      <div className="flex items-start gap-2 text-sm">
+        <Icon className="h-4 w-4 text-muted-foreground mt-0.5" />
+        <span className="font-medium">{label}:</span>
+        <span className="text-muted-foreground break-all">{value}</span>
+      </div>
+    ) : null;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Truck className="h-5 w-5" />
+            {supplier.name}
+            {!supplier.is_active && <Badge variant="secondary">{t('suppliers.inactive')}</Badge>}
+          </DialogTitle>
+        </DialogHeader>
+
+        <Tabs defaultValue="overview" className="space-y-4">
+          <TabsList>
+            <TabsTrigger value="overview">{t('suppliers.tabs.overview')}</TabsTrigger>
+            <TabsTrigger value="products">{t('suppliers.tabs.products')} ({linkedProducts.length})</TabsTrigger>
+            <TabsTrigger value="performance">{t('suppliers.tabs.performance')}</TabsTrigger>
+            <TabsTrigger value="activity">{t('suppliers.tabs.activity')}</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="overview" className="space-y-4">
+            <Card>
+              <CardHeader>
+                <CardTitle>{t('suppliers.contactSection')}</CardTitle>
+              </CardHeader>
+              <CardContent className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                <InfoRow icon={Truck} label={t('suppliers.fields.contact_person')} value={supplier.contact_person} />
+                <InfoRow icon={Mail} label={t('suppliers.fields.email')} value={supplier.email} />
+                <InfoRow icon={Phone} label={t('suppliers.fields.phone')} value={supplier.phone} />
+                <InfoRow icon={Globe} label={t('suppliers.fields.website')} value={supplier.website} />
+                <InfoRow icon={MapPin} label={t('suppliers.fields.address')} value={supplier.address} />
+                <InfoRow
+                  icon={Mail}
+                  label={t('suppliers.fields.preferred_contact_method')}
+                  value={t(`suppliers.contactMethods.${supplier.preferred_contact_method}`)}
+                />
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader>
+                <CardTitle>{t('suppliers.termsSection')}</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-center">
+                  <div>
+                    <div className="text-2xl font-bold">{supplier.lead_time_days}</div>
+                    <div className="text-sm text-muted-foreground">{t('suppliers.fields.lead_time_days')}</div>
+                  </div>
+                  <div>
+                    <div className="text-2xl font-bold">{money(supplier.minimum_order_amount)}</div>
+                    <div className="text-sm text-muted-foreground">{t('suppliers.fields.minimum_order_amount')}</div>
+                  </div>
+                  <div>
+                    <div className="text-2xl font-bold">{supplier.discount_percentage}%</div>
+                    <div className="text-sm text-muted-foreground">{t('suppliers.fields.discount_percentage')}</div>
+                  </div>
+                  <div>
+                    <div className="text-2xl font-bold flex items-center justify-center gap-1">
+                      <Star className="h-5 w-5 text-yellow-500 fill-yellow-500" />
+                      {supplier.rating}
+                    </div>
+                    <div className="text-sm text-muted-foreground">{t('suppliers.fields.rating')}</div>
+                  </div>
+                </div>
+                <div className="mt-4 space-y-2">
+                  <InfoRow icon={Clock} label={t('suppliers.fields.payment_terms')} value={supplier.payment_terms} />
+                  <InfoRow icon={Clock} label={t('suppliers.fields.tax_id')} value={supplier.tax_id} />
+                </div>
+                {supplier.notes && (
+                  <p className="mt-4 text-sm text-muted-foreground whitespace-pre-line">{supplier.notes}</p>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="products">
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Package className="h-5 w-5" />
+                  {t('suppliers.linkedProducts')}
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                {linkedProducts.length === 0 ? (
+                  <p className="text-center py-8 text-muted-foreground">{t('suppliers.noLinkedProducts')}</p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>{t('common.product')}</TableHead>
+                        <TableHead>{t('inventory.productCode')}</TableHead>
+                        <TableHead className="text-right">{t('suppliers.costPrice')}</TableHead>
+                        <TableHead className="text-right">{t('suppliers.inStock')}</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {linkedProducts.map(product => (
+                        <TableRow key={product.id}>
+                          <TableCell className="font-medium">{product.name}</TableCell>
+                          <TableCell>{product.product_code}</TableCell>
+                          <TableCell className="text-right">{money(product.cost_price)}</TableCell>
+                          <TableCell className="text-right">
+                            <span className={product.quantity_in_stock <= product.min_stock_level ? 'text-red-600 font-medium' : ''}>
+                              {product.quantity_in_stock}
+                            </span>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="performance" className="space-y-4">
+            {loading ? (
+              <LoadingSpinner />
+            ) : (
+              <>
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                  {metricSummary.map(metric => (
+                    <Card key={metric.type}>
+                      <CardContent className="pt-6">
+                        <p className="text-sm text-muted-foreground">{t(`suppliers.performance.metrics.${metric.type}`)}</p>
+                        <div className="flex items-center gap-2">
+                          <span className="text-2xl font-bold">
+                            {metric.latest !== undefined ? formatMetric(metric.type, Number(metric.latest)) : '—'}
+                          </span>
+                          {metric.trend === 'up' && <TrendingUp className="h-4 w-4 text-green-600" />}
+                          {metric.trend === 'down' && <TrendingDown className="h-4 w-4 text-red-600" />}
+                          {metric.trend === 'flat' && metric.count > 1 && <Minus className="h-4 w-4 text-muted-foreground" />}
+                        </div>
+                        {metric.average !== undefined && (
+                          <p className="text-xs text-muted-foreground">
+                            {t('suppliers.performance.average', {
+                              value: formatMetric(metric.type, Math.round(metric.average * 10) / 10),
+                              count: metric.count
+                            })}
+                          </p>
+                        )}
+                      </CardContent>
+                    </Card>
+                  ))}
+                </div>
+
+                <Card>
+                  <CardHeader>
+                    <CardTitle>{t('suppliers.performance.addMeasurement')}</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <form onSubmit={handleAddMetric} className="grid grid-cols-1 md:grid-cols-5 gap-3 items-end">
+                      <div className="space-y-2">
+                        <Label>{t('suppliers.performance.metric')}</Label>
+                        <Select
+                          value={metricForm.metric_type}
+                          onValueChange={(value) => setMetricForm(prev => ({ ...prev, metric_type: value as MetricType }))}
+                        >
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {METRIC_TYPES.map(type => (
+                              <SelectItem key={type} value={type}>{t(`suppliers.performance.metrics.${type}`)}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="metric-value">{t('common.value')}</Label>
+                        <Input
+                          id="metric-value"
+                          type="number"
+                          step="0.1"
+                          min="0"
+                          value={metricForm.metric_value}
+                          onChange={(e) => setMetricForm(prev => ({ ...prev, metric_value: e.target.value }))}
+                          required
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="metric-date">{t('common.date')}</Label>
+                        <Input
+                          id="metric-date"
+                          type="date"
+                          value={metricForm.measurement_date}
+                          onChange={(e) => setMetricForm(prev => ({ ...prev, measurement_date: e.target.value }))}
+                          required
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="metric-notes">{t('suppliers.fields.notes')}</Label>
+                        <Input
+                          id="metric-notes"
+                          value={metricForm.notes}
+                          onChange={(e) => setMetricForm(prev => ({ ...prev, notes: e.target.value }))}
+                        />
+                      </div>
+                      <Button type="submit" disabled={savingMetric}>
+                        <Plus className="h-4 w-4 mr-2" />
+                        {t('common.add')}
+                      </Button>
+                    </form>
+                  </CardContent>
+                </Card>
+
+                <Card>
+                  <CardHeader>
+                    <CardTitle>{t('suppliers.performance.history')}</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    {performance.length === 0 ? (
+                      <p className="text-center py-8 text-muted-foreground">{t('suppliers.performance.noData')}</p>
+                    ) : (
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead>{t('common.date')}</TableHead>
+                            <TableHead>{t('suppliers.performance.metric')}</TableHead>
+                            <TableHead className="text-right">{t('common.value')}</TableHead>
+                            <TableHead>{t('suppliers.fields.notes')}</TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {performance.map(entry => (
+                            <TableRow key={entry.id}>
+                              <TableCell>{formatDate(`${entry.measurement_date}T00:00:00`)}</TableCell>
+                              <TableCell>{t(`suppliers.performance.metrics.${entry.metric_type}`)}</TableCell>
+                              <TableCell className="text-right">{formatMetric(entry.metric_type, Number(entry.metric_value))}</TableCell>
+                              <TableCell className="text-muted-foreground">{entry.notes || '—'}</TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    )}
+                  </CardContent>
+                </Card>
+              </>
+            )}
+          </TabsContent>
+
+          <TabsContent value="activity">
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Activity className="h-5 w-5" />
+                  {t('suppliers.tabs.activity')}
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                {loading ? (
+                  <LoadingSpinner />
+                ) : activity.length === 0 ? (
+                  <p className="text-center py-8 text-muted-foreground">{t('suppliers.noActivity')}</p>
+                ) : (
+                  <ol className="relative border-l border-border ml-2 space-y-6">
+                    {activity.map(entry => (
+                      <li key={entry.id} className="ml-4">
+                        <span className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-background bg-primary" />
+                        <div className="flex flex-wrap items-center gap-2">
+                          <Badge className={activityColors[entry.activity_type]}>
+                            {t(`suppliers.activityTypes.${entry.activity_type}`)}
+                          </Badge>
+                          <time className="text-xs text-muted-foreground">{formatDateTime(entry.created_at)}</time>
+                        </div>
+                        <p className="mt-1 text-sm">{entry.description}</p>
+                        {entry.created_by && (
+                          <p className="text-xs text-muted-foreground">{entry.created_by}</p>
+                        )}
+                      </li>
+                    ))}
+                  </ol>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+        </Tabs>
+
+        <div className="flex justify-end">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            {t('common.close')}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
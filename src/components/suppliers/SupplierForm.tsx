@@ -0,0 +1,221 @@
+import React, { useState, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Supplier, SupplierFormData } from '../../types/supplier';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+
+interface SupplierFormProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSubmit: (data: SupplierFormData) => Promise<void>;
+  supplier?: Supplier;
+  title: string;
+}
+
+const emptyForm: SupplierFormData = {
+  name: '',
+  contact_person: '',
+  email: '',
+  phone: '',
+  address: '',
+  website: '',
+  tax_id: '',
+  payment_terms: '',
+  lead_time_days: 7,
+  minimum_order_amount: 0,
+  discount_percentage: 0,
+  rating: 3,
+  notes: '',
+  preferred_contact_method: 'email'
+};
+
+type TextField = 'name' | 'contact_person' | 'email' | 'phone' | 'website' | 'tax_id' | 'payment_terms';
+type NumberField = 'lead_time_days' | 'minimum_order_amount' | 'discount_percentage' | 'rating';
+
+export default function SupplierForm({ open, onOpenChange, onSubmit, supplier, title }: SupplierFormProps) {
+  const { t } = useTranslation();
+  const [formData, setFormData] = useState<SupplierFormData>(emptyForm);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(false);
+
+  // Initialize form with supplier data when editing
+  useEffect(() => {
+    if (supplier) {
+      setFormData({
+        name: supplier.name,
+        contact_person: supplier.contact_person || '',
+        email: supplier.email || '',
+        phone: supplier.phone || '',
+        address: supplier.address || '',
+        website: supplier.website || '',
+        tax_id: supplier.tax_id || '',
+        payment_terms: supplier.payment_terms || '',
+        lead_time_days: supplier.lead_time_days,
+        minimum_order_amount: supplier.minimum_order_amount,
+        discount_percentage: supplier.discount_percentage,
+        rating: supplier.rating,
+        notes: supplier.notes || '',
+        preferred_contact_method: supplier.preferred_contact_method
+      });
+    } else {
+      setFormData(emptyForm);
+    }
+    setErrors({});
+  }, [supplier, open]);
+
+  const validateForm = (): boolean => {
+    const newErrors: Record<string, string> = {};
+
+    if (!formData.name.trim()) {
+      newErrors.name = t('suppliers.errors.nameRequired');
+    }
+    if (formData.email && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(formData.email)) {
+      newErrors.email = t('suppliers.errors.emailInvalid');
+    }
+    if (formData.phone && !/^[\d\s\-+()]+$/.test(formData.phone)) {
+      newErrors.phone = t('suppliers.errors.phoneInvalid');
+    }
+    if (formData.discount_percentage < 0 || formData.discount_percentage > 100) {
+      newErrors.discount_percentage = t('suppliers.errors.discountRange');
+    }
+    if (formData.rating < 0 || formData.rating > 5) {
+      newErrors.rating = t('suppliers.errors.ratingRange');
+    }
+
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!validateForm()) return;
+
+    setLoading(true);
+    try {
+      await onSubmit({ ...formData, name: formData.name.trim() });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleInputChange = <K extends keyof SupplierFormData>(field: K, value: SupplierFormData[K]) => {
+    setFormData(prev => ({ ...prev, [field]: value }));
+    if (errors[field]) {
+      setErrors(prev => ({ ...prev, [field]: '' }));
+    }
+  };
+
+  const textField = (field: TextField, type = 'text', required = false) => (
+    <div className="space-y-2">
+      <Label htmlFor={`supplier-${field}`}>{t(`suppliers.fields.${field}`)}{required && ' *'}</Label>
+      <Input
+        id={`supplier-${field}`}
+        type={type}
+        value={formData[field]}
+        onChange={(e) => handleInputChange(field, e.target.value)}
+        className={errors[field] ? 'border-red-500' : ''}
+      />
+      {errors[field] && <p className="text-sm text-red-500">{errors[field]}</p>}
+    </div>
+  );
+
+  const numberField = (field: NumberField, props: { min?: number; max?: number; step?: string }) => (
+    <div className="space-y-2">
+      <Label htmlFor={`supplier-${field}`}>{t(`suppliers.fields.${field}`)}</Label>
+      <Input
+        id={`supplier-${field}`}
+        type="number"
+        {...props}
+        value={formData[field]}
+        onChange={(e) => handleInputChange(field, parseFloat(e.target.value) || 0)}
+        className={errors[field] ? 'border-red-500' : ''}
+      />
+      {errors[field] && <p className="text-sm text-red-500">{errors[field]}</p>}
+    </div>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-6">
+          {/* Contact */}
+          <div className="space-y-3">
+            <h4 className="font-medium">{t('suppliers.contactSection')}</h4>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {textField('name', 'text', true)}
+              {textField('contact_person')}
+              {textField('email', 'email')}
+              {textField('phone', 'tel')}
+              {textField('website', 'url')}
+              <div className="space-y-2">
+                <Label>{t('suppliers.fields.preferred_contact_method')}</Label>
+                <Select
+                  value={formData.preferred_contact_method}
+                  onValueChange={(value) => handleInputChange('preferred_contact_method', value as SupplierFormData['preferred_contact_method'])}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="email">{t('suppliers.contactMethods.email')}</SelectItem>
+                    <SelectItem value="phone">{t('suppliers.contactMethods.phone')}</SelectItem>
+                    <SelectItem value="both">{t('suppliers.contactMethods.both')}</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="supplier-address">{t('suppliers.fields.address')}</Label>
+              <Textarea
+                id="supplier-address"
+                value={formData.address}
+                onChange={(e) => handleInputChange('address', e.target.value)}
+                rows={2}
+              />
+            </div>
+          </div>
+
+          {/* Terms */}
+          <div className="space-y-3">
+            <h4 className="font-medium">{t('suppliers.termsSection')}</h4>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              {textField('payment_terms')}
+              {textField('tax_id')}
+              {numberField('lead_time_days', { min: 0, step: '1' })}
+              {numberField('minimum_order_amount', { min: 0, step: '0.01' })}
+              {numberField('discount_percentage', { min: 0, max: 100, step: '0.01' })}
+              {numberField('rating', { min: 0, max: 5, step: '0.1' })}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="supplier-notes">{t('suppliers.fields.notes')}</Label>
+            <Textarea
+              id="supplier-notes"
+              value={formData.notes}
+              onChange={(e) => handleInputChange('notes', e.target.value)}
+              rows={3}
+            />
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={loading}>
+              {t('common.cancel')}
+            </Button>
+            <Button type="submit" disabled={loading}>
+              {loading ? t('common.loading') : t('common.save')}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,17 +1,22 @@
-import React, { useState, useEffect } from 'react';
+import { useState } from 'react';
 import { useTranslation } from 'react-i18next';
-import { X, Edit, Clock, User, Wrench, Smartphone, FileText, DollarSign, Calendar } from 'lucide-react';
-import { ServiceTicket, TicketStatusHistory } from '../../types/tickets';
+import { X, Edit, Clock, User, Wrench, Smartphone, FileText, DollarSign, Calendar, ScanSearch } from 'lucide-react';
+import { ServiceTicket, TicketPart, TicketStatusHistory } from '../../types/tickets';
+import { getPartsTotal, partsHaveArrived } from '../../lib/ticketParts';
+import SerialLookupDialog from '../inventory/SerialLookupDialog';
+import TicketParts from './TicketParts';
 
 interface TicketDetailsProps {
   ticket: ServiceTicket;
   statusHistory: TicketStatusHistory[];
   onClose: () => void;
   onEdit: () => void;
+  onSaveParts?: (parts: TicketPart[], laborAmount: number) => Promise<void>;
 }
 
-export default function TicketDetails({ ticket, statusHistory, onClose, onEdit }: TicketDetailsProps) {
+export default function TicketDetails({ ticket, statusHistory, onClose, onEdit, onSaveParts }: TicketDetailsProps) {
   const { t } = useTranslation();
+  const [showSerialLookup, setShowSerialLookup] = useState(false);
 
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat('en-CA', {
@@ -201,7 +206,17 @@ export default function TicketDetails({ ticket, statusHistory, onClose, onEdit }
                       <label className="block text-sm font-medium text-gray-500">
                         {t('tickets.serialNumber')}
                       </label>
-                      <p className="mt-1 text-sm text-gray-900">{ticket.device_info.serialNumber}</p>
+                      <p className="mt-1 text-sm text-gray-900 flex items-center gap-2">
+                        {ticket.device_info.serialNumber}
+                        <button
+                          type="button"
+                          onClick={() => setShowSerialLookup(true)}
+                          className="text-blue-600 hover:text-blue-900"
+                          title={t('serials.lookupTitle')}
+                        >
+                          <ScanSearch className="h-4 w-4" />
+                        </button>
+                      </p>
                     </div>
                   )}
                   {ticket.device_info.condition && (
@@ -279,6 +294,11 @@ export default function TicketDetails({ ticket, statusHistory, onClose, onEdit }
               ) : null}
             </div>
 
+            {/* Parts & labour */}
+            {ticket.type === 'repair' && onSaveParts && (
+              <TicketParts ticket={ticket} onSave={onSaveParts} />
+            )}
+
             {/* Notes */}
             {ticket.notes && (
               <div className="bg-white border border-gray-200 rounded-lg p-6">
@@ -305,6 +325,13 @@ export default function TicketDetails({ ticket, statusHistory, onClose, onEdit }
                     {t(`tickets.${ticket.status}`)}
                   </span>
                 </div>
+                {partsHaveArrived(ticket) && (
+                  <div className="flex justify-end">
+                    <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800">
+                      {t('ticketParts.partsIn')}
+                    </span>
+                  </div>
+                )}
                 <div className="flex justify-between">
                   <span className="text-sm text-gray-500">{t('tickets.priority')}:</span>
                   <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getPriorityColor(ticket.priority)}`}>
@@ -345,6 +372,22 @@ export default function TicketDetails({ ticket, statusHistory, onClose, onEdit }
                     {formatCurrency(ticket.price_quote)}
                   </span>
                 </div>
+                {(ticket.parts?.length || 0) > 0 && (
+                  <div className="flex justify-between">
+                    <span className="text-sm text-gray-500">{t('ticketParts.partsTotal')}:</span>
+                    <span className="text-sm text-gray-900">
+                      {formatCurrency(getPartsTotal(ticket.parts))}
+                    </span>
+                  </div>
+                )}
+                {!!ticket.labor_amount && (
+                  <div className="flex justify-between">
+                    <span className="text-sm text-gray-500">{t('ticketParts.labor')}:</span>
+                    <span className="text-sm text-gray-900">
+                      {formatCurrency(ticket.labor_amount)}
+                    </span>
+                  </div>
+                )}
                 {ticket.final_price && (
                   <div className="flex justify-between">
                     <span className="text-sm text-gray-500">{t('tickets.finalPrice')}:</span>
@@ -359,6 +402,11 @@ export default function TicketDetails({ ticket, statusHistory, onClose, onEdit }
                     {ticket.paid ? t('tickets.paid') : t('tickets.unpaid')}
                   </span>
                 </div>
+                {ticket.transaction_id ? (
+                  <p className="text-xs text-gray-500">{t('pos.collect.paidAtTill')}</p>
+                ) : ticket.status === 'completed' && !ticket.paid && (
+                  <p className="text-xs text-gray-500">{t('pos.collect.readyHint')}</p>
+                )}
               </div>
             </div>
 
@@ -396,6 +444,14 @@ export default function TicketDetails({ ticket, statusHistory, onClose, onEdit }
           </div>
         </div>
       </div>
+
+      {showSerialLookup && (
+        <SerialLookupDialog
+          open={showSerialLookup}
+          onOpenChange={setShowSerialLookup}
+          initialSerial={ticket.device_info?.serialNumber}
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -2,6 +2,7 @@ import React, { useState } from 'react';
 import { useTranslation } from 'react-i18next';
 import { Eye, Edit, Clock, CheckCircle, AlertTriangle, Package, Smartphone, Wrench, Copy } from 'lucide-react';
 import { ServiceTicket } from '../../types/tickets';
+import { partsHaveArrived } from '../../lib/ticketParts';
 import { UnifiedTable } from '../common/UnifiedTable';
 
 interface TicketListProps {
@@ -107,6 +108,9 @@ export default function TicketList({ tickets, onView, onEdit, loading }: TicketL
         <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getStatusColor(ticket.status)} dark:bg-background dark:text-foreground`}>
           {getStatusIcon(ticket.status)}
           <span className="ml-1">{t(`tickets.${ticket.status}`)}</span>
+          {partsHaveArrived(ticket) && (
+            <span className="ml-1 text-green-700">· {t('ticketParts.partsIn')}</span>
+          )}
         </span>
       ),
       className: 'min-w-[100px]'
@@ -0,0 +1,280 @@
+import { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { CheckCircle, Package, Plus, Trash2 } from 'lucide-react';
+import { Product, ProductVariant } from '../../types/inventory';
+import { ServiceTicket, TicketPart, TicketPartStatus } from '../../types/tickets';
+import { useInventory } from '../../hooks/useInventory';
+import { usePricing } from '../../hooks/usePricing';
+import { activeVariants, variantLabel } from '../../lib/variants';
+import {
+  canBeTicketPart,
+  getFreeStock,
+  getPartsCost,
+  getPartsTotal,
+  getTicketFinalPrice,
+  holdsParts,
+  partsHaveArrived,
+  ticketPartFor
+} from '../../lib/ticketParts';
+import { formatCurrency } from '../../lib/utils';
+
+interface TicketPartsProps {
+  ticket: ServiceTicket;
+  onSave: (parts: TicketPart[], laborAmount: number) => Promise<void>;
+}
+
+const statusStyles: Record<TicketPartStatus, string> = {
+  reserved: 'bg-green-100 text-green-800',
+  awaiting_stock: 'bg-orange-100 text-orange-800',
+  consumed: 'bg-gray-100 text-gray-800'
+};
+
+interface PartOption {
+  key: string;
+  label: string;
+  product: Product;
+  variant?: ProductVariant;
+}
+
+const optionKey = (productId: string, variantId?: string | null) => `${productId}:${variantId || ''}`;
+
+export default function TicketParts({ ticket, onSave }: TicketPartsProps) {
+  const { t } = useTranslation();
+  const { products } = useInventory();
+  const { priceFor } = usePricing();
+  const [parts, setParts] = useState<TicketPart[]>(ticket.parts || []);
+  const [laborAmount, setLaborAmount] = useState(ticket.labor_amount || 0);
+  const [selected, setSelected] = useState('');
+  const [quantity, setQuantity] = useState(1);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const editable = holdsParts(ticket);
+  const savedIds = new Set((ticket.parts || []).map(part => part.id));
+
+  // Saving brings back the statuses the server settled on
+  useEffect(() => {
+    setParts(ticket.parts || []);
+    setLaborAmount(ticket.labor_amount || 0);
+  }, [ticket]);
+
+  // Each variant is its own option since it's a different item on the shelf
+  const options = products.filter(canBeTicketPart).flatMap<PartOption>(product => {
+    const variants = activeVariants(product);
+    return variants.length > 0
+      ? variants.map(variant => ({
+          key: optionKey(product.id, variant.id),
+          label: `${product.name} – ${variantLabel(variant)}`,
+          product,
+          variant
+        }))
+      : [{ key: optionKey(product.id), label: product.name, product }];
+  });
+
+  const addPart = () => {
+    const option = options.find(o => o.key === selected);
+    if (!option || !(quantity > 0)) return;
+    const unitPrice = priceFor(option.product, option.variant).price;
+    setParts([...parts, ticketPartFor(option.product, option.variant, unitPrice, quantity)]);
+    setSelected('');
+    setQuantity(1);
+  };
+
+  const updatePart = (id: string, changes: Partial<TicketPart>) => {
+    setParts(parts.map(part => (part.id === id ? { ...part, ...changes } : part)));
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      await onSave(parts, laborAmount);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('errors.savingFailed'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg p-6">
+      <h4 className="text-lg font-medium text-gray-900 mb-4 flex items-center">
+        <Package className="h-5 w-5 mr-2" />
+        {t('ticketParts.title')}
+      </h4>
+
+      {partsHaveArrived(ticket) && (
+        <div className="mb-4 flex items-center rounded-md bg-green-50 p-3 text-sm text-green-800">
+          <CheckCircle className="h-4 w-4 mr-2" />
+          {t('ticketParts.arrived', { date: new Date(ticket.parts_arrived_at || '').toLocaleDateString() })}
+        </div>
+      )}
+
+      {parts.length === 0 ? (
+        <p className="text-sm text-gray-500 mb-4">{t('ticketParts.noParts')}</p>
+      ) : (
+        <div className="overflow-x-auto mb-4">
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead>
+              <tr className="text-left text-xs font-medium uppercase text-gray-500">
+                <th className="py-2 pr-2">{t('ticketParts.part')}</th>
+                <th className="py-2 pr-2 w-20">{t('common.quantity')}</th>
+                <th className="py-2 pr-2 w-28">{t('ticketParts.unitPrice')}</th>
+                <th className="py-2 pr-2 text-right">{t('ticketParts.total')}</th>
+                <th className="py-2 pr-2">{t('common.status')}</th>
+                <th className="py-2" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {parts.map(part => {
+                const locked = !editable || part.status === 'consumed';
+                return (
+                  <tr key={part.id}>
+                    <td className="py-2 pr-2">
+                      <div className="font-medium text-gray-900">{part.name}</div>
+                      <div className="text-xs text-gray-500 font-mono">{part.product_code}</div>
+                    </td>
+                    <td className="py-2 pr-2">
+                      {locked ? part.quantity : (
+                        <input
+                          type="number"
+                          min="1"
+                          step="1"
+                          value={part.quantity}
+                          onChange={(e) => updatePart(part.id, { quantity: Math.max(parseInt(e.target.value) || 0, 0) })}
+                          className="block w-full border-gray-300 rounded-md shadow-sm text-sm"
+                        />
+                      )}
+                    </td>
+                    <td className="py-2 pr-2">
+                      {locked ? formatCurrency(part.unit_price) : (
+                        <input
+                          type="number"
+                          min="0"
+                          step="0.01"
+                          value={part.unit_price}
+                          onChange={(e) => updatePart(part.id, { unit_price: parseFloat(e.target.value) || 0 })}
+                          className="block w-full border-gray-300 rounded-md shadow-sm text-sm"
+                        />
+                      )}
+                    </td>
+                    <td className="py-2 pr-2 text-right">{formatCurrency(part.quantity * part.unit_price)}</td>
+                    <td className="py-2 pr-2">
+                      {savedIds.has(part.id) ? (
+                        <span className={`inline-flex px-2 py-0.5 rounded-full text-xs font-medium ${statusStyles[part.status]}`}>
+                          {t(`ticketParts.statuses.${part.status}`)}
+                        </span>
+                      ) : (
+                        <span className="text-xs text-gray-500">{t('ticketParts.unsaved')}</span>
+                      )}
+                    </td>
+                    <td className="py-2 text-right">
+                      {!locked && (
+                        <button
+                          type="button"
+                          onClick={() => setParts(parts.filter(p => p.id !== part.id))}
+                          className="text-red-600 hover:text-red-800"
+                          title={t('common.delete')}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {editable && (
+        <div className="flex flex-wrap items-end gap-2 mb-4">
+          <div className="flex-1 min-w-[200px]">
+            <label className="block text-xs font-medium text-gray-700 mb-1">{t('ticketParts.addPart')}</label>
+            <select
+              value={selected}
+              onChange={(e) => setSelected(e.target.value)}
+              className="block w-full border-gray-300 rounded-md shadow-sm text-sm"
+            >
+              <option value="">{t('ticketParts.selectPart')}</option>
+              {options.map(option => (
+                <option key={option.key} value={option.key}>
+                  {option.label} ({t('ticketParts.free', { count: getFreeStock(option.product, option.variant) })})
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="w-20">
+            <label className="block text-xs font-medium text-gray-700 mb-1">{t('common.quantity')}</label>
+            <input
+              type="number"
+              min="1"
+              step="1"
+              value={quantity}
+              onChange={(e) => setQuantity(Math.max(parseInt(e.target.value) || 0, 0))}
+              className="block w-full border-gray-300 rounded-md shadow-sm text-sm"
+            />
+          </div>
+          <button
+            type="button"
+            onClick={addPart}
+            disabled={!selected || !(quantity > 0)}
+            className="inline-flex items-center px-3 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            {t('common.add')}
+          </button>
+        </div>
+      )}
+
+      <div className="space-y-2 border-t border-gray-200 pt-4">
+        <div className="flex justify-between text-sm">
+          <span className="text-gray-500">{t('ticketParts.partsTotal')}</span>
+          <span className="font-medium text-gray-900">{formatCurrency(getPartsTotal(parts))}</span>
+        </div>
+        <div className="flex justify-between items-center text-sm">
+          <label htmlFor="ticket-labor" className="text-gray-500">{t('ticketParts.labor')}</label>
+          {editable ? (
+            <input
+              id="ticket-labor"
+              type="number"
+              min="0"
+              step="0.01"
+              value={laborAmount}
+              onChange={(e) => setLaborAmount(parseFloat(e.target.value) || 0)}
+              className="block w-28 border-gray-300 rounded-md shadow-sm text-sm text-right"
+            />
+          ) : (
+            <span className="font-medium text-gray-900">{formatCurrency(laborAmount)}</span>
+          )}
+        </div>
+        <div className="flex justify-between text-sm">
+          <span className="font-medium text-gray-900">{t('tickets.finalPrice')}</span>
+          <span className="font-semibold text-gray-900">{formatCurrency(getTicketFinalPrice(parts, laborAmount))}</span>
+        </div>
+        <div className="flex justify-between text-xs text-gray-500">
+          <span>{t('ticketParts.partsCost')}</span>
+          <span>{formatCurrency(getPartsCost(parts))}</span>
+        </div>
+      </div>
+
+      {error && <p className="mt-3 text-sm text-red-600">{error}</p>}
+
+      {editable ? (
+        <div className="mt-4 flex items-center justify-between gap-2">
+          <p className="text-xs text-gray-500">{t('ticketParts.hint')}</p>
+          <button
+            type="button"
+            onClick={handleSave}
+            disabled={saving}
+            className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+          >
+            {saving ? t('common.loading') : t('common.save')}
+          </button>
+        </div>
+      ) : (
+        <p className="mt-4 text-xs text-gray-500">{t('ticketParts.closedHint')}</p>
+      )}
+    </div>
+  );
+}
@@ -3,6 +3,21 @@ import { AnalyticsMetric, DashboardMetrics, ChartDataPoint, AnalyticsFilters, Pr
 import { supabase } from '../lib/supabase';
 import { syncManager } from '../lib/syncManager';
 import { offlineDB } from '../lib/offlineDB';
+import { getLocationQuantity } from '../lib/locations';
+import { summarizeProductSales, withGrossProfit } from '../lib/costing';
+
+// Restate stock figures for a single location; like the product_analytics view, only the
+// product's own stock is counted, not its variants
+const withLocationStock = (items: ProductAnalytics[], quantities: Map<string, number>): ProductAnalytics[] =>
+  items.map(item => {
+    const quantity = quantities.get(item.id) || 0;
+    return {
+      ...item,
+      quantity_in_stock: quantity,
+      inventory_value: quantity * item.cost_price,
+      stock_status: quantity <= 0 ? 'out_of_stock' : quantity <= item.min_stock_level ? 'low_stock' : 'in_stock'
+    };
+  });
 
 export function useAnalytics() {
   const [metrics, setMetrics] = useState<AnalyticsMetric[]>([]);
@@ -161,7 +176,9 @@ export function useAnalytics() {
       }));
   };
 
-  const getProductAnalytics = async (): Promise<ProductAnalytics[]> => {
+  const getProductAnalytics = async (filters?: AnalyticsFilters): Promise<ProductAnalytics[]> => {
+    const locationId = filters?.location_id;
+
     if (isOnline) {
       try {
         const { data, error } = await supabase
@@ -170,15 +187,27 @@ export function useAnalytics() {
           .order('inventory_value', { ascending: false });
 
         if (error) throw error;
-        return data || [];
+        if (!locationId) return data || [];
+
+        const { data: stock, error: stockError } = await supabase
+          .from('location_stock')
+          .select('product_id, quantity')
+          .eq('location_id', locationId)
+          .is('variant_id', null);
+
+        if (stockError) throw stockError;
+
+        const quantities = new Map<string, number>((stock || []).map(row => [row.product_id, row.quantity]));
+        return withLocationStock(data || [], quantities);
       } catch (error) {
         console.warn('Failed to load product analytics online:', error);
       }
     }
 
-    // Fallback to basic product data
+    // Fallback to basic product data and the sales cached on this device
     const products = await syncManager.getOfflineProducts();
-    return products.map(product => ({
+    const sales = summarizeProductSales(await offlineDB.getTransactions(), products);
+    const analytics: ProductAnalytics[] = products.map(product => withGrossProfit({
       id: product.id,
       sku: product.product_code, // Fallback to product_code if SKU not available
       name: product.name,
@@ -190,14 +219,18 @@ export function useAnalytics() {
       selling_price: product.selling_price,
       quantity_in_stock: product.quantity_in_stock,
       min_stock_level: product.min_stock_level,
-      profit_per_unit: product.selling_price - product.cost_price,
-      profit_margin_percentage: ((product.selling_price - product.cost_price) / product.selling_price) * 100,
       inventory_value: product.quantity_in_stock * product.cost_price,
       stock_status: product.quantity_in_stock === 0 ? 'out_of_stock' : 
                    product.quantity_in_stock <= product.min_stock_level ? 'low_stock' : 'in_stock',
       created_at: product.created_at,
       updated_at: product.updated_at
-    }));
+    }, sales.get(product.id)));
+
+    if (!locationId) return analytics;
+    return withLocationStock(
+      analytics,
+      new Map(products.map(product => [product.id, getLocationQuantity(product, locationId)]))
+    );
   };
 
   const getSupplierAnalytics = async (): Promise<SupplierAnalytics[]> => {
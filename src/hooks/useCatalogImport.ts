@@ -0,0 +1,190 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Category, Product, Supplier } from '../types/inventory';
+import { CatalogImportContext, CatalogImportPlan, CatalogImportResult } from '../types/catalogImport';
+import { fetchAllPages, supabase } from '../lib/supabase';
+import { syncManager } from '../lib/syncManager';
+import { offlineDB } from '../lib/offlineDB';
+import { findCategory, findSupplier } from '../lib/catalogImport';
+
+const BATCH_SIZE = 200;
+
+const inBatches = <T>(items: T[]) =>
+  Array.from({ length: Math.ceil(items.length / BATCH_SIZE) }, (_, i) => items.slice(i * BATCH_SIZE, (i + 1) * BATCH_SIZE));
+
+export function useCatalogImport() {
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
+
+  useEffect(() => {
+    const unsubscribe = syncManager.onOnlineStatusChange(setIsOnline);
+    return unsubscribe;
+  }, []);
+
+  // The whole catalog, inactive products included, since their codes and barcodes are still taken
+  const loadImportContext = useCallback(async (): Promise<CatalogImportContext> => {
+    if (isOnline) {
+      try {
+        const [products, categoriesResult, suppliersResult] = await Promise.all([
+          fetchAllPages<Product>((from, to) =>
+            supabase
+              .from('products')
+              .select('*, variants:product_variants(*)')
+              .order('product_code')
+              .range(from, to)
+          ),
+          supabase.from('categories').select('*'),
+          supabase.from('suppliers').select('id, name')
+        ]);
+
+        if (categoriesResult.error) throw categoriesResult.error;
+        if (suppliersResult.error) throw suppliersResult.error;
+        return { products, categories: categoriesResult.data || [], suppliers: suppliersResult.data || [] };
+      } catch (error) {
+        console.warn('Online catalog load failed, using offline data:', error);
+      }
+    }
+
+    const [products, categories, suppliers] = await Promise.all([
+      syncManager.getOfflineProducts(),
+      syncManager.getOfflineCategories(),
+      offlineDB.getSetting('suppliers')
+    ]);
+    return {
+      products,
+      categories: categories.flatMap((c: Category) => [c, ...(c.children || [])]),
+      suppliers: (suppliers as unknown as Supplier[]) || []
+    };
+  }, [isOnline]);
+
+  // Categories and suppliers go first so products can point at them. Bulk changes are not
+  // queued offline: a half-synced catalog is harder to fix than a retried import.
+  const importCatalog = useCallback(async (
+    plan: CatalogImportPlan,
+    context: CatalogImportContext
+  ): Promise<CatalogImportResult> => {
+    try {
+      if (!isOnline) throw new Error('Connect to the server to import the catalog');
+
+      const categories = [...context.categories];
+      const roots = plan.new_categories.filter(c => !c.parent);
+      if (roots.length > 0) {
+        const { data, error } = await supabase
+          .from('categories')
+          .insert(roots.map(c => ({ name: c.name, name_fr: c.name, is_active: true })))
+          .select();
+        if (error) throw error;
+        categories.push(...(data || []));
+      }
+
+      const subcategories = plan.new_categories.filter(c => c.parent);
+      if (subcategories.length > 0) {
+        const { data, error } = await supabase
+          .from('categories')
+          .insert(subcategories.map(c => ({
+            name: c.name,
+            name_fr: c.name,
+            parent_id: findCategory(categories, c.parent!)?.id,
+            is_active: true
+          })))
+          .select();
+        if (error) throw error;
+        categories.push(...(data || []));
+      }
+
+      const suppliers = [...context.suppliers];
+      if (plan.new_suppliers.length > 0) {
+        const { data, error } = await supabase
+          .from('suppliers')
+          .insert(plan.new_suppliers.map(name => ({ name, is_active: true })))
+          .select('id, name');
+        if (error) throw error;
+        suppliers.push(...(data || []));
+      }
+
+      const productRow = (product: CatalogImportPlan['products'][number]) => {
+        const category = product.category ? findCategory(categories, product.category) : undefined;
+        const subcategory = category && product.subcategory
+          ? findCategory(categories, product.subcategory, category.id)
+          : undefined;
+        const supplier = product.supplier ? findSupplier(suppliers, product.supplier) : undefined;
+        return {
+          ...product.values,
+          product_code: product.product_code,
+          ...(category && { category_id: category.id, subcategory_id: subcategory?.id || null }),
+          ...(supplier && { supplier_id: supplier.id }),
+          is_active: true
+        };
+      };
+
+      const productIds = new Map<string, string>();
+      const created = plan.products.filter(p => !p.existing_id);
+      for (const batch of inBatches(created)) {
+        const { data, error } = await supabase
+          .from('products')
+          .insert(batch.map(productRow))
+          .select('id, product_code');
+        if (error) throw error;
+        (data || []).forEach(row => productIds.set(row.product_code, row.id));
+      }
+
+      // Stock on existing products only changes through recorded stock movements
+      const updated = plan.products.filter(p => p.existing_id);
+      for (const product of updated) {
+        const changes = productRow(product);
+        delete changes.quantity_in_stock;
+        const { error } = await supabase
+          .from('products')
+          .update(changes)
+          .eq('id', product.existing_id);
+        if (error) throw error;
+        productIds.set(product.product_code, product.existing_id!);
+      }
+
+      let variants = 0;
+      const newVariants = plan.products.flatMap(product => product.variants
+        .filter(v => !v.existing_id)
+        .map(v => ({
+          product_id: productIds.get(product.product_code),
+          name: v.name,
+          value: v.value,
+          barcode: v.barcode || null,
+          additional_cost: v.additional_cost ?? 0,
+          quantity_in_stock: v.quantity_in_stock ?? 0
+        })));
+      for (const batch of inBatches(newVariants)) {
+        const { error } = await supabase.from('product_variants').insert(batch);
+        if (error) throw error;
+        variants += batch.length;
+      }
+
+      for (const variant of plan.products.flatMap(p => p.variants).filter(v => v.existing_id)) {
+        const changes = {
+          ...(variant.barcode && { barcode: variant.barcode }),
+          ...(variant.additional_cost !== undefined && { additional_cost: variant.additional_cost })
+        };
+        if (Object.keys(changes).length === 0) continue;
+        const { error } = await supabase
+          .from('product_variants')
+          .update(changes)
+          .eq('id', variant.existing_id);
+        if (error) throw error;
+        variants++;
+      }
+
+      return {
+        created: created.length,
+        updated: updated.length,
+        variants,
+        categories: plan.new_categories.length,
+        suppliers: plan.new_suppliers.length
+      };
+    } catch (err) {
+      throw new Error(err instanceof Error ? err.message : 'Failed to import catalog');
+    }
+  }, [isOnline]);
+
+  return {
+    isOnline,
+    loadImportContext,
+    importCatalog
+  };
+}
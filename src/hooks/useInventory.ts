@@ -1,10 +1,30 @@
 import { useState, useEffect } from 'react';
-import { Product, Category, Supplier, InventoryFilters } from '../types/inventory';
+import { Product, Category, Supplier, InventoryFilters, ProductVariant, ProductVariantFormData } from '../types/inventory';
 import { supabase } from '../lib/supabase';
 import { syncManager } from '../lib/syncManager';
 import { offlineDB } from '../lib/offlineDB';
+import { getLocationQuantity, hasStockAtLocation } from '../lib/locations';
+import { getSellableQuantity, isKit } from '../lib/kits';
+import { settingsStore } from '../lib/settingsStore';
+import {
+  barcodeForSequence,
+  BarcodeSettingsProblem,
+  getBarcodePrefix,
+  sequenceFromBarcode,
+  validateBarcodeSettings
+} from '../lib/barcode';
 import { useToast } from './useToast';
 
+const BARCODE_SEQUENCES_KEY = 'barcode_sequences';
+const MAX_BARCODE_ATTEMPTS = 5;
+
+const BARCODE_SETTINGS_ERRORS: Record<BarcodeSettingsProblem, string> = {
+  invalid_company_prefix: 'Set a valid GS1 company prefix in Settings before generating barcodes',
+  invalid_in_store_prefix: 'Set an in-store barcode prefix between 200 and 299 in Settings',
+  invalid_variable_prefix: 'Variable-measure barcode prefixes in Settings must run from 20 to 29',
+  prefix_conflict: 'The in-store barcode prefix overlaps a variable-measure prefix in Settings'
+};
+
 export function useInventory() {
   const [products, setProducts] = useState<Product[]>([]);
   const [categories, setCategories] = useState<Category[]>([]);
@@ -70,7 +90,8 @@ export function useInventory() {
         category:categories!products_category_id_fkey(*),
         subcategory:categories!products_subcategory_id_fkey(*),
         supplier_info:suppliers!products_supplier_id_fkey(*),
-        variants:product_variants(*)
+        variants:product_variants(*),
+        location_stock(*)
       `)
       .eq('is_active', true)
       .order('name');
@@ -154,24 +175,86 @@ export function useInventory() {
     return `PRD${timestamp}${random}`;
   };
 
+  // Sequential within the configured prefix. The server and each device keep their own
+  // counter; both skip numbers already on a product, so codes handed out offline are
+  // passed over once they sync.
   const generateBarcode = async (): Promise<string> => {
+    const numbering = settingsStore.get().barcodes;
+    const problem = validateBarcodeSettings(numbering);
+    if (problem) throw new Error(BARCODE_SETTINGS_ERRORS[problem]);
+
+    const prefix = getBarcodePrefix(numbering);
+    const cachedProducts: Product[] = await offlineDB.getProducts();
+    const taken = new Set(cachedProducts.flatMap(product => [
+      product.barcode,
+      ...(product.variants || []).map(variant => variant.barcode)
+    ]).filter((barcode): barcode is string => !!barcode));
+
+    const sequences = (await offlineDB.getSetting(BARCODE_SEQUENCES_KEY) || {}) as Record<string, number>;
+    const remember = async (barcode: string) => {
+      const sequence = sequenceFromBarcode(prefix, barcode) || 0;
+      if (sequence > (sequences[prefix] || 0)) {
+        await offlineDB.saveSetting(BARCODE_SEQUENCES_KEY, { ...sequences, [prefix]: sequence });
+      }
+      return barcode;
+    };
+
     if (isOnline) {
       try {
-        const { data, error } = await supabase.rpc('generate_barcode');
-        if (error) throw error;
-        return data;
+        // The server can't see products created here that haven't synced yet
+        for (let attempt = 0; attempt < MAX_BARCODE_ATTEMPTS; attempt++) {
+          const { data, error } = await supabase.rpc('generate_barcode', { p_prefix: prefix });
+          if (error) throw error;
+          if (!taken.has(data)) return remember(data);
+        }
       } catch (error) {
         console.warn('Failed to generate barcode online, using fallback:', error);
       }
     }
-    
-    // Fallback generation
-    const timestamp = Date.now().toString().slice(-8);
-    const random = Math.floor(Math.random() * 10000).toString().padStart(4, '0');
-    return `${timestamp}${random}1`; // Simple 13-digit barcode
+
+    // Carry on from the highest number this device has seen in the range
+    let sequence = Array.from(taken).reduce(
+      (highest, barcode) => Math.max(highest, sequenceFromBarcode(prefix, barcode) || 0),
+      sequences[prefix] || 0
+    );
+    let barcode: string;
+    do {
+      barcode = barcodeForSequence(prefix, ++sequence);
+    } while (taken.has(barcode));
+    return remember(barcode);
   };
 
-  const createProduct = async (productData: Partial<Product>) => {
+  // Rows without an id are new; saved variants missing from the list are removed, or retired
+  // when stock has been recorded against them
+  const toVariantPayload = (variants: ProductVariantFormData[]) => variants.map(variant => ({
+    id: variant.id && !variant.id.startsWith('temp_') ? variant.id : null,
+    name: variant.name,
+    value: variant.value,
+    attributes: variant.attributes,
+    sku: variant.sku || null,
+    barcode: variant.barcode || null,
+    additional_cost: variant.additional_cost,
+    quantity_in_stock: variant.quantity_in_stock
+  }));
+
+  // Offline stand-ins until the queued save reaches the server
+  const toLocalVariants = (productId: string, variants: ProductVariantFormData[], previous: ProductVariant[] = []) => {
+    const kept = variants.map((variant, index) => ({
+      ...previous.find(v => v.id === variant.id),
+      ...variant,
+      id: variant.id || `temp_${Date.now()}_${index}`,
+      product_id: productId,
+      sku: variant.sku || null,
+      is_active: true,
+      created_at: previous.find(v => v.id === variant.id)?.created_at || new Date().toISOString()
+    }));
+    const retired = previous
+      .filter(v => !variants.some(variant => variant.id === v.id))
+      .map(v => ({ ...v, is_active: false, barcode: undefined }));
+    return [...kept, ...retired] as ProductVariant[];
+  };
+
+  const createProduct = async (productData: Partial<Product>, variants: ProductVariantFormData[] = []) => {
     try {
       if (isOnline) {
         const { data, error } = await supabase
@@ -186,6 +269,14 @@ export function useInventory() {
           .single();
 
         if (error) throw error;
+
+        if (variants.length > 0) {
+          const { error: variantError } = await supabase.rpc('save_product_variants', {
+            p_product_id: data.id,
+            p_variants: toVariantPayload(variants)
+          });
+          if (variantError) throw variantError;
+        }
         
         await loadProducts();
         return data;
@@ -193,13 +284,15 @@ export function useInventory() {
         // Queue for sync when online
         await syncManager.queueAction({
           type: 'CREATE_PRODUCT',
-          data: productData
+          data: variants.length > 0 ? { ...productData, variants: toVariantPayload(variants) } : productData
         });
         
         // Add to local storage temporarily
+        const tempId = `temp_${Date.now()}`;
         const tempProduct = {
           ...productData,
-          id: `temp_${Date.now()}`,
+          id: tempId,
+          variants: toLocalVariants(tempId, variants),
           created_at: new Date().toISOString(),
           updated_at: new Date().toISOString()
         } as Product;
@@ -215,7 +308,8 @@ export function useInventory() {
     }
   };
 
-  const updateProduct = async (id: string, productData: Partial<Product>) => {
+  // Variants are left alone unless a list is given
+  const updateProduct = async (id: string, productData: Partial<Product>, variants?: ProductVariantFormData[]) => {
     try {
       if (isOnline) {
         const { data, error } = await supabase
@@ -231,6 +325,14 @@ export function useInventory() {
           .single();
 
         if (error) throw error;
+
+        if (variants) {
+          const { error: variantError } = await supabase.rpc('save_product_variants', {
+            p_product_id: id,
+            p_variants: toVariantPayload(variants)
+          });
+          if (variantError) throw variantError;
+        }
         
         await loadProducts();
         return data;
@@ -241,10 +343,25 @@ export function useInventory() {
           id,
           data: productData
         });
+
+        if (variants) {
+          await syncManager.queueAction({
+            type: 'SAVE_PRODUCT_VARIANTS',
+            id,
+            data: { variants: toVariantPayload(variants) }
+          });
+        }
         
         // Update local storage
         const updatedProducts = products.map(p => 
-          p.id === id ? { ...p, ...productData, updated_at: new Date().toISOString() } : p
+          p.id === id
+            ? {
+              ...p,
+              ...productData,
+              ...(variants ? { variants: toLocalVariants(id, variants, p.variants) } : {}),
+              updated_at: new Date().toISOString()
+            }
+            : p
         );
         setProducts(updatedProducts);
         await offlineDB.saveProducts(updatedProducts);
@@ -313,7 +430,16 @@ export function useInventory() {
         return false;
       }
       
-      if (filters.low_stock_only && product.quantity_in_stock > product.min_stock_level) {
+      // With a location picked, stock is judged at that location; products it doesn't
+      // hold are hidden unless we are looking for low stock
+      const onHand = isKit(product) ? getSellableQuantity(product, products, filters.location_id) : getLocationQuantity(product, filters.location_id);
+      const held = isKit(product) ? onHand > 0 : !filters.location_id || hasStockAtLocation(product, filters.location_id);
+
+      if (filters.location_id && !filters.low_stock_only && !held) {
+        return false;
+      }
+
+      if (filters.low_stock_only && onHand > product.min_stock_level) {
         return false;
       }
       
@@ -330,7 +456,8 @@ export function useInventory() {
             *,
             category:categories!products_category_id_fkey(*),
             supplier_info:suppliers!products_supplier_id_fkey(*),
-            variants:product_variants(*)
+            variants:product_variants(*),
+            location_stock(*)
           `)
           .or(`name.ilike.%${query}%,product_code.ilike.%${query}%,barcode.ilike.%${query}%`)
           .eq('is_active', true)
@@ -357,7 +484,8 @@ export function useInventory() {
             *,
             category:categories!products_category_id_fkey(*),
             supplier_info:suppliers!products_supplier_id_fkey(*),
-            variants:product_variants(*)
+            variants:product_variants(*),
+            location_stock(*)
           `)
           .eq('barcode', barcode)
           .eq('is_active', true)
@@ -379,10 +507,12 @@ export function useInventory() {
             product:products!product_variants_product_id_fkey(
               *,
               category:categories!products_category_id_fkey(*),
-              supplier_info:suppliers!products_supplier_id_fkey(*)
+              supplier_info:suppliers!products_supplier_id_fkey(*),
+              location_stock(*)
             )
           `)
           .eq('barcode', barcode)
+          .eq('is_active', true)
           .single();
 
         if (!variantError && variants) {
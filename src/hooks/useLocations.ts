@@ -0,0 +1,153 @@
+import { useState, useEffect } from 'react';
+import { Location, LocationFormData } from '../types/locations';
+import { supabase } from '../lib/supabase';
+import { syncManager } from '../lib/syncManager';
+import { offlineDB } from '../lib/offlineDB';
+
+const readOfflineLocations = async () =>
+  (await offlineDB.getSetting('locations')) as unknown as Location[] || [];
+
+const byDefaultThenName = (a: Location, b: Location) =>
+  Number(b.is_default) - Number(a.is_default) || a.name.localeCompare(b.name);
+
+const toLocationRow = (formData: LocationFormData) => ({
+  name: formData.name.trim(),
+  code: formData.code.trim() || null,
+  address: formData.address.trim() || null,
+  is_active: formData.is_active
+});
+
+export function useLocations() {
+  const [locations, setLocations] = useState<Location[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
+
+  useEffect(() => {
+    loadLocations();
+
+    const unsubscribe = syncManager.onOnlineStatusChange(setIsOnline);
+    return unsubscribe;
+  }, []);
+
+  const loadLocations = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      if (navigator.onLine) {
+        try {
+          const { data, error } = await supabase
+            .from('locations')
+            .select('*')
+            .order('name');
+
+          if (error) throw error;
+
+          const sorted = [...(data || [])].sort(byDefaultThenName);
+          setLocations(sorted);
+          await offlineDB.saveSetting('locations', sorted as unknown as Record<string, unknown>);
+        } catch (serverError) {
+          console.warn('Server load failed, falling back to offline data:', serverError);
+          setLocations(await readOfflineLocations());
+        }
+      } else {
+        setLocations(await readOfflineLocations());
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load locations');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Stock rows and transfers point at location ids, so locations are only set up online
+  const requireOnline = () => {
+    if (!isOnline) throw new Error('Locations can only be changed while online');
+  };
+
+  const createLocation = async (formData: LocationFormData) => {
+    try {
+      requireOnline();
+
+      const { data, error } = await supabase
+        .from('locations')
+        .insert([{ ...toLocationRow(formData), is_default: locations.length === 0 }])
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      await loadLocations();
+      return data as Location;
+    } catch (err) {
+      throw new Error(err instanceof Error ? err.message : 'Failed to create location');
+    }
+  };
+
+  const updateLocation = async (id: string, formData: LocationFormData) => {
+    try {
+      requireOnline();
+
+      const location = locations.find(l => l.id === id);
+      if (location?.is_default && !formData.is_active) {
+        throw new Error('The default location cannot be deactivated');
+      }
+
+      const { data, error } = await supabase
+        .from('locations')
+        .update(toLocationRow(formData))
+        .eq('id', id)
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      await loadLocations();
+      return data as Location;
+    } catch (err) {
+      throw new Error(err instanceof Error ? err.message : 'Failed to update location');
+    }
+  };
+
+  // Only one location can be the default, so clear the current one first
+  const setDefaultLocation = async (id: string) => {
+    try {
+      requireOnline();
+
+      const location = locations.find(l => l.id === id);
+      if (!location) throw new Error('Location not found');
+      if (!location.is_active) throw new Error('Only active locations can be the default');
+
+      const { error: clearError } = await supabase
+        .from('locations')
+        .update({ is_default: false })
+        .eq('is_default', true);
+
+      if (clearError) throw clearError;
+
+      const { error } = await supabase
+        .from('locations')
+        .update({ is_default: true })
+        .eq('id', id);
+
+      if (error) throw error;
+
+      await loadLocations();
+    } catch (err) {
+      throw new Error(err instanceof Error ? err.message : 'Failed to set default location');
+    }
+  };
+
+  return {
+    locations,
+    activeLocations: locations.filter(location => location.is_active),
+    loading,
+    error,
+    isOnline,
+    createLocation,
+    updateLocation,
+    setDefaultLocation,
+    refreshLocations: loadLocations
+  };
+}
@@ -0,0 +1,163 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Product, ProductVariant } from '../types/inventory';
+import { CartItem } from '../types/pos';
+import { ExpiringLot, LotSelection, ProductLot } from '../types/lots';
+import { supabase } from '../lib/supabase';
+import { syncManager } from '../lib/syncManager';
+import { offlineDB } from '../lib/offlineDB';
+import {
+  getExpiringLots as filterExpiringLots,
+  getExpiryStatus,
+  getProductLots as filterProductLots,
+  getUnassignedQuantity,
+  mergeReceivedLots,
+  NEAR_EXPIRY_DAYS,
+  normalizeLot,
+  sortByExpiry,
+  suggestFefoLot
+} from '../lib/lots';
+
+export function useLots() {
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
+
+  useEffect(() => {
+    const unsubscribe = syncManager.onOnlineStatusChange(setIsOnline);
+    return unsubscribe;
+  }, []);
+
+  const getProductLots = useCallback(async (productId: string): Promise<ProductLot[]> => {
+    if (isOnline) {
+      try {
+        const { data, error } = await supabase
+          .from('product_lots')
+          .select('*')
+          .eq('product_id', productId);
+
+        if (error) throw error;
+        return sortByExpiry(data || []);
+      } catch (error) {
+        console.warn('Online lot load failed, using offline data:', error);
+      }
+    }
+
+    const offlineLots = await syncManager.getOfflineLots();
+    return sortByExpiry(offlineLots.filter(lot => lot.product_id === productId));
+  }, [isOnline]);
+
+  // Lots with stock left that expire within the window, with product names for the alert list
+  const getExpiringLots = useCallback(async (days = NEAR_EXPIRY_DAYS): Promise<ExpiringLot[]> => {
+    if (isOnline) {
+      try {
+        const horizon = new Date(Date.now() + days * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+        const { data, error } = await supabase
+          .from('product_lots')
+          .select('*, product:products(name, product_code), variant:product_variants(name, value)')
+          .gt('quantity', 0)
+          .lte('expiry_date', horizon)
+          .order('expiry_date', { ascending: true });
+
+        if (error) throw error;
+        return (data || []).map(({ product, variant, ...lot }) => ({
+          ...lot,
+          product_name: product?.name || '',
+          product_code: product?.product_code || '',
+          variant_name: variant ? `${variant.name}: ${variant.value}` : undefined
+        }));
+      } catch (error) {
+        console.warn('Online expiring lots load failed, using offline data:', error);
+      }
+    }
+
+    const [offlineLots, products] = await Promise.all([syncManager.getOfflineLots(), offlineDB.getProducts()]);
+    return filterExpiringLots(offlineLots, days).map(lot => {
+      const product: Product | undefined = products.find((p: Product) => p.id === lot.product_id);
+      const variant = product?.variants?.find(v => v.id === lot.variant_id);
+      return {
+        ...lot,
+        product_name: product?.name || '',
+        product_code: product?.product_code || '',
+        variant_name: variant ? `${variant.name}: ${variant.value}` : undefined
+      };
+    });
+  }, [isOnline]);
+
+  // First expired, first out: the lot the cashier should take from the shelf next
+  const suggestLotForSale = useCallback(async (
+    product: Product,
+    variant: ProductVariant | undefined,
+    cartItems: CartItem[]
+  ): Promise<LotSelection | undefined> => {
+    const lot = suggestFefoLot(await getProductLots(product.id), product.id, variant?.id, cartItems);
+    return lot ? { lot_number: lot.lot_number, expiry_date: lot.expiry_date } : undefined;
+  }, [getProductLots]);
+
+  // A scanned lot is sold as labelled unless it has expired
+  const checkLotForSale = useCallback(async (
+    product: Product,
+    variant: ProductVariant | undefined,
+    lotNumber: string,
+    scannedExpiry?: string
+  ): Promise<LotSelection> => {
+    const lot_number = normalizeLot(lotNumber);
+    const known = filterProductLots(await getProductLots(product.id), product.id, variant?.id)
+      .find(lot => lot.lot_number === lot_number);
+    const expiry_date = scannedExpiry || known?.expiry_date || null;
+
+    if (getExpiryStatus(expiry_date) === 'expired') {
+      throw new Error(`Lot ${lot_number} of ${product.name} expired on ${expiry_date}`);
+    }
+    return { lot_number, expiry_date };
+  }, [getProductLots]);
+
+  // Assign units already on the shelf to a lot, e.g. stock counted before tracking was turned on
+  const addLot = useCallback(async (
+    product: Product,
+    lot: { lot_number: string; expiry_date?: string; quantity: number; variant_id?: string }
+  ): Promise<ProductLot> => {
+    try {
+      const lot_number = normalizeLot(lot.lot_number);
+      if (!lot_number) throw new Error('Enter a lot number');
+      if (lot.quantity <= 0) throw new Error('Enter a quantity');
+
+      const existing = await getProductLots(product.id);
+      const variant = lot.variant_id ? product.variants?.find(v => v.id === lot.variant_id) : undefined;
+      const onHand = variant ? variant.quantity_in_stock : product.quantity_in_stock;
+      const unassigned = getUnassignedQuantity(existing, onHand, product.id, lot.variant_id);
+      if (lot.quantity > unassigned) {
+        throw new Error(`Only ${unassigned} unit(s) on hand are not assigned to a lot`);
+      }
+
+      const newLot: ProductLot = {
+        product_id: product.id,
+        variant_id: lot.variant_id || null,
+        lot_number,
+        expiry_date: lot.expiry_date || null,
+        quantity: lot.quantity,
+        supplier_id: product.supplier_id,
+        received_at: new Date().toISOString()
+      };
+
+      if (isOnline) {
+        await syncManager.receiveLots([newLot]);
+      } else {
+        await syncManager.queueAction({
+          type: 'RECEIVE_LOTS',
+          data: [newLot]
+        });
+      }
+      await syncManager.saveOfflineLots(mergeReceivedLots(await syncManager.getOfflineLots(), [newLot]));
+      return newLot;
+    } catch (err) {
+      throw new Error(err instanceof Error ? err.message : 'Failed to add lot');
+    }
+  }, [getProductLots, isOnline]);
+
+  return {
+    isOnline,
+    getProductLots,
+    getExpiringLots,
+    suggestLotForSale,
+    checkLotForSale,
+    addLot
+  };
+}
@@ -1,30 +1,66 @@
 import { useState, useEffect, useCallback } from 'react';
-import { CartItem, Cart, Transaction, PaymentMethod, POSSettings } from '../types/pos';
+import { CartItem, Cart, Transaction, PaymentMethod, POSSettings, RefundRequest, HeldCart, MeasuredScan } from '../types/pos';
 import { Product, ProductVariant } from '../types/inventory';
+import { ServiceTicket } from '../types/tickets';
 import { supabase } from '../lib/supabase';
 import { syncManager } from '../lib/syncManager';
 import { offlineDB } from '../lib/offlineDB';
+import { buildRefundTransaction, getRefundedQuantities } from '../lib/refunds';
+import { applyPromotions, findCouponPromotion, isPromotionLive, normalizeCouponCode } from '../lib/promotions';
+import { Promotion } from '../types/promotions';
+import { TaxClass } from '../types/tax';
+import { calculateTaxes, getProductTaxClassId } from '../lib/tax';
+import { buildSaleMovements } from '../lib/stockMovements';
+import { applyTransactionToSerials, normalizeSerial } from '../lib/serials';
+import { applyTransactionToLots, normalizeLot } from '../lib/lots';
+import { LotSelection } from '../types/lots';
+import { measuredScanFor, parseVariableMeasureBarcode } from '../lib/barcode';
+import { isMeasured, normalizeQuantity, roundQuantity } from '../lib/units';
+import { isKit } from '../lib/kits';
+import { buildTicketCartItems, getCartTicketId, validateTicketForCollection } from '../lib/ticketCheckout';
 import { useToast } from './useToast';
+import { useSettings } from './useSettings';
+import { useTillLocation } from './useTillLocation';
+import { usePricing } from './usePricing';
+
+const HELD_CARTS_KEY = 'pos_held_carts';
+
+const emptyCart: Cart = {
+  items: [],
+  subtotal: 0,
+  discount_amount: 0,
+  discount_percentage: 0,
+  tax_amount: 0,
+  total: 0
+};
+
+// Held carts are kept on this device only; expired ones are dropped whenever the list is read
+const writeHeldCarts = async (carts: HeldCart[]) => {
+  await offlineDB.saveSetting(HELD_CARTS_KEY, carts as unknown as Record<string, unknown>);
+};
+
+const readHeldCarts = async (): Promise<HeldCart[]> => {
+  const stored = (await offlineDB.getSetting(HELD_CARTS_KEY)) as unknown as HeldCart[] || [];
+  const now = new Date().toISOString();
+  const active = stored.filter(held => held.expires_at > now);
+
+  if (active.length !== stored.length) {
+    await writeHeldCarts(active);
+  }
+  return active;
+};
 
 export function usePOS() {
   const { toast } = useToast();
-  const [cart, setCart] = useState<Cart>({
-    items: [],
-    subtotal: 0,
-    discount_amount: 0,
-    discount_percentage: 0,
-    tax_amount: 0,
-    total: 0
-  });
-
-  const [settings, setSettings] = useState<POSSettings>({
-    tax_rate: 0.13, // 13% HST for Canada
-    currency: 'CAD',
-    auto_print_receipt: false,
-    barcode_scanner_enabled: true,
-    sound_enabled: true,
-    default_payment_method: 'cash'
-  });
+  const [cart, setCart] = useState<Cart>(emptyCart);
+  const [heldCarts, setHeldCarts] = useState<HeldCart[]>([]);
+  const [promotions, setPromotions] = useState<Promotion[]>([]);
+  const [taxClasses, setTaxClasses] = useState<TaxClass[]>([]);
+
+  const { settings: appSettings, updateSettings } = useSettings();
+  const { priceFor } = usePricing();
+  const { tillLocationId } = useTillLocation();
+  const settings = appSettings.pos;
 
   const [isProcessing, setIsProcessing] = useState(false);
   const [lastTransaction, setLastTransaction] = useState<Transaction | null>(null);
@@ -33,7 +69,8 @@ export function usePOS() {
   // Load cart from storage on mount
   useEffect(() => {
     loadCartFromStorage();
-    loadSettingsFromStorage();
+    loadPromotions();
+    loadTaxClasses();
     
     // Subscribe to online status changes
     const unsubscribe = syncManager.onOnlineStatusChange(setIsOnline);
@@ -56,15 +93,71 @@ export function usePOS() {
     await offlineDB.saveSetting('pos_cart', cart);
   };
 
-  const loadSettingsFromStorage = async () => {
-    const savedSettings = await offlineDB.getSetting('pos_settings');
-    if (savedSettings) {
-      setSettings(savedSettings);
+  // Promotions are cached by the sync manager so the rules can be evaluated offline
+  const loadPromotions = async () => {
+    if (navigator.onLine) {
+      try {
+        const { data, error } = await supabase
+          .from('promotions')
+          .select('*');
+
+        if (error) throw error;
+
+        if (data) {
+          setPromotions(data);
+          await offlineDB.saveSetting('promotions', data as unknown as Record<string, unknown>);
+          return;
+        }
+      } catch (error) {
+        console.warn('Online promotions load failed, using offline data:', error);
+      }
     }
+
+    const offlinePromotions = (await offlineDB.getSetting('promotions')) as unknown as Promotion[] || [];
+    setPromotions(offlinePromotions);
   };
 
-  const calculateCart = useCallback((items: CartItem[], discountPercentage = 0, discountAmount = 0) => {
-    const subtotal = items.reduce((sum, item) => sum + item.subtotal, 0);
+  // Tax classes are cached alongside promotions for offline checkout
+  const loadTaxClasses = async () => {
+    if (navigator.onLine) {
+      try {
+        const { data, error } = await supabase
+          .from('tax_classes')
+          .select('*');
+
+        if (error) throw error;
+
+        if (data) {
+          setTaxClasses(data);
+          await offlineDB.saveSetting('tax_classes', data as unknown as Record<string, unknown>);
+          return;
+        }
+      } catch (error) {
+        console.warn('Online tax classes load failed, using offline data:', error);
+      }
+    }
+
+    const offlineTaxClasses = (await offlineDB.getSetting('tax_classes')) as unknown as TaxClass[] || [];
+    setTaxClasses(offlineTaxClasses);
+  };
+
+  // Load held carts on mount and purge stale ones periodically
+  useEffect(() => {
+    const purgeExpired = () => {
+      readHeldCarts().then(setHeldCarts).catch(error => {
+        console.warn('Failed to load held carts:', error);
+      });
+    };
+
+    purgeExpired();
+    const interval = setInterval(purgeExpired, 60 * 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const calculateCart = useCallback((items: CartItem[], discountPercentage = 0, discountAmount = 0, couponCodes: string[] = []) => {
+    const pricedItems = applyPromotions(items, promotions, { couponCodes });
+    const subtotal = pricedItems.reduce((sum, item) => sum + item.subtotal, 0);
+    const promotionDiscount = pricedItems.reduce((sum, item) => sum + item.discount_amount, 0);
     
     let totalDiscount = discountAmount;
     if (discountPercentage > 0) {
@@ -72,22 +165,77 @@ export function usePOS() {
     }
 
     const discountedSubtotal = subtotal - totalDiscount;
-    const taxAmount = discountedSubtotal * (settings.tax_rate / 100);
-    const total = discountedSubtotal + taxAmount;
+    const taxes = calculateTaxes(pricedItems, taxClasses, {
+      defaultRate: settings.tax_rate,
+      pricesIncludeTax: settings.prices_include_tax,
+      orderDiscount: totalDiscount
+    });
+    // Inclusive prices already contain the tax, so it is only added on top for exclusive pricing
+    const total = settings.prices_include_tax ? discountedSubtotal : discountedSubtotal + taxes.tax_amount;
 
     return {
-      items,
+      items: taxes.items,
       subtotal,
       discount_amount: totalDiscount,
       discount_percentage: discountPercentage,
-      tax_amount: taxAmount,
-      total
+      tax_amount: taxes.tax_amount,
+      tax_breakdown: taxes.tax_breakdown,
+      prices_include_tax: settings.prices_include_tax,
+      total,
+      coupon_codes: couponCodes,
+      promotion_discount: promotionDiscount
     };
-  }, [settings.tax_rate]);
+  }, [settings.tax_rate, settings.prices_include_tax, promotions, taxClasses]);
 
-  const addToCart = useCallback(async (product: Product, variant?: ProductVariant, quantity = 1) => {
-    const price = variant ? product.selling_price + variant.additional_cost : product.selling_price;
-    const itemId = variant ? `${product.id}-${variant.id}` : product.id;
+  // Re-evaluate promotions when the rules change and every minute for time-windowed deals
+  useEffect(() => {
+    const recalculate = () => {
+      setCart(prev => {
+        if (prev.items.length === 0) return prev;
+        const next = {
+          ...calculateCart(prev.items, prev.discount_percentage, prev.discount_amount, prev.coupon_codes),
+          customer_id: prev.customer_id
+        };
+        return JSON.stringify(next) === JSON.stringify(prev) ? prev : next;
+      });
+    };
+
+    recalculate();
+    const interval = setInterval(recalculate, 60 * 1000);
+    return () => clearInterval(interval);
+  }, [calculateCart]);
+
+  const addToCart = useCallback(async (
+    product: Product,
+    variant?: ProductVariant,
+    quantity = 1,
+    serialNumber?: string,
+    lot?: LotSelection,
+    measure?: MeasuredScan
+  ) => {
+    const unit = isMeasured(product.unit_of_measure) ? product.unit_of_measure : undefined;
+    const tillPrice = priceFor(product, variant);
+    const price = measure ? measure.price : tillPrice.price;
+    const regularPrice = !measure && tillPrice.sale ? tillPrice.regular_price : undefined;
+    quantity = measure ? measure.quantity : normalizeQuantity(quantity, unit);
+    const serial = serialNumber ? normalizeSerial(serialNumber) : undefined;
+    const lotNumber = lot?.lot_number ? normalizeLot(lot.lot_number) : undefined;
+
+    // Serialized units are sold one per line so each line carries its own serial
+    if (product.is_serialized) {
+      if (!serial) throw new Error(`Scan the serial number of ${product.name}`);
+      if (cart.items.some(item => item.serial_number === serial)) {
+        throw new Error(`Serial ${serial} is already in the cart`);
+      }
+      quantity = 1;
+    }
+
+    const baseId = variant ? `${product.id}-${variant.id}` : product.id;
+    // Each lot gets its own line so the sale records exactly which lot left the shelf
+    // Scale labels carry their own price, so each label stays a separate line
+    const itemId = serial
+      ? `${baseId}-${serial}`
+      : lotNumber ? `${baseId}-lot-${lotNumber}` : measure ? `${baseId}-scale-${measure.barcode}` : baseId;
     
     // Check if item already exists in cart
     const existingItemIndex = cart.items.findIndex(item => item.id === itemId);
@@ -98,7 +246,7 @@ export function usePOS() {
       // Update existing item quantity
       newItems = cart.items.map((item, index) => {
         if (index === existingItemIndex) {
-          const newQuantity = item.quantity + quantity;
+          const newQuantity = roundQuantity(item.quantity + quantity);
           return {
             ...item,
             quantity: newQuantity,
@@ -115,21 +263,30 @@ export function usePOS() {
         variant_id: variant?.id,
         name: product.name,
         product_code: product.product_code,
-        barcode: variant?.barcode || product.barcode,
+        barcode: measure?.barcode || variant?.barcode || product.barcode,
         price,
         quantity,
+        unit_of_measure: unit,
         discount_amount: 0,
         discount_percentage: 0,
         subtotal: price * quantity,
         image_url: product.image_url,
-        variant_name: variant ? `${variant.name}: ${variant.value}` : undefined
+        variant_name: variant ? `${variant.name}: ${variant.value}` : undefined,
+        category_id: product.category_id,
+        subcategory_id: product.subcategory_id,
+        tax_class_id: getProductTaxClassId(product),
+        serial_number: serial,
+        lot_number: lotNumber,
+        expiry_date: lotNumber ? lot?.expiry_date || null : undefined,
+        kit_components: isKit(product) ? product.kit_components : undefined,
+        regular_price: regularPrice
       };
       
       newItems = [...cart.items, newItem];
     }
 
-    const updatedCart = calculateCart(newItems, cart.discount_percentage, cart.discount_amount);
-    setCart(updatedCart);
+    const updatedCart = calculateCart(newItems, cart.discount_percentage, cart.discount_amount, cart.coupon_codes);
+    setCart({ ...updatedCart, customer_id: cart.customer_id });
 
     // Play sound if enabled
     if (settings.sound_enabled) {
@@ -139,16 +296,27 @@ export function usePOS() {
     // Show toast notification
     toast({
       title: "Product Added",
-      description: `Added ${product.name}${variant ? ` (${variant.name}: ${variant.value})` : ''} to cart`,
+      description: `Added ${product.name}${variant ? ` (${variant.name}: ${variant.value})` : ''}${serial ? ` S/N ${serial}` : ''}${lotNumber ? ` from lot ${lotNumber}` : ''} to cart`,
     });
-  }, [cart, calculateCart, settings.sound_enabled, toast]);
+  }, [cart, calculateCart, priceFor, settings.sound_enabled, toast]);
 
   const updateItemQuantity = useCallback((itemId: string, quantity: number) => {
+    quantity = normalizeQuantity(quantity, cart.items.find(item => item.id === itemId)?.unit_of_measure);
     if (quantity <= 0) {
       removeFromCart(itemId);
       return;
     }
 
+    // A collected ticket is charged as it was agreed
+    if (cart.items.some(item => item.id === itemId && item.service_ticket_id)) {
+      return;
+    }
+
+    // A serialized line is a single unit; more units need their own scans
+    if (quantity > 1 && cart.items.some(item => item.id === itemId && item.serial_number)) {
+      return;
+    }
+
     const newItems = cart.items.map(item => {
       if (item.id === itemId) {
         return {
@@ -160,15 +328,18 @@ export function usePOS() {
       return item;
     });
 
-    const updatedCart = calculateCart(newItems, cart.discount_percentage, cart.discount_amount);
-    setCart(updatedCart);
+    const updatedCart = calculateCart(newItems, cart.discount_percentage, cart.discount_amount, cart.coupon_codes);
+    setCart({ ...updatedCart, customer_id: cart.customer_id });
   }, [cart, calculateCart]);
 
   const removeFromCart = useCallback((itemId: string) => {
     const itemToRemove = cart.items.find(item => item.id === itemId);
-    const newItems = cart.items.filter(item => item.id !== itemId);
-    const updatedCart = calculateCart(newItems, cart.discount_percentage, cart.discount_amount);
-    setCart(updatedCart);
+    // A ticket's service line and parts come out of the cart together
+    const newItems = cart.items.filter(item => itemToRemove?.service_ticket_id
+      ? item.service_ticket_id !== itemToRemove.service_ticket_id
+      : item.id !== itemId);
+    const updatedCart = calculateCart(newItems, cart.discount_percentage, cart.discount_amount, cart.coupon_codes);
+    setCart({ ...updatedCart, customer_id: cart.customer_id });
     
     if (itemToRemove) {
       toast({
@@ -178,13 +349,34 @@ export function usePOS() {
     }
   }, [cart, calculateCart, toast]);
 
+  const collectTicket = useCallback(async (ticket: ServiceTicket) => {
+    const problem = validateTicketForCollection(ticket, cart.items);
+    if (problem) throw new Error(problem);
+
+    const products = await syncManager.getOfflineProducts();
+    const newItems = [...cart.items, ...buildTicketCartItems(ticket, products)];
+    const updatedCart = calculateCart(newItems, cart.discount_percentage, cart.discount_amount, cart.coupon_codes);
+    // The ticket's customer pays unless one was already picked for this sale
+    setCart({ ...updatedCart, customer_id: cart.customer_id || ticket.customer_id });
+
+    if (settings.sound_enabled) {
+      playBeepSound();
+    }
+
+    toast({
+      title: "Ticket Added",
+      description: `Added ticket ${ticket.ticket_number} to cart`,
+    });
+  }, [cart, calculateCart, settings.sound_enabled, toast]);
+
   const applyDiscount = useCallback((percentage?: number, amount?: number) => {
     const updatedCart = calculateCart(
       cart.items, 
       percentage || 0, 
-      amount || 0
+      amount || 0,
+      cart.coupon_codes
     );
-    setCart(updatedCart);
+    setCart({ ...updatedCart, customer_id: cart.customer_id });
     
     toast({
       title: "Discount Applied",
@@ -194,17 +386,9 @@ export function usePOS() {
           ? `Applied $${amount.toFixed(2)} discount` 
           : "Removed discount",
     });
-  }, [cart.items, calculateCart, toast]);
+  }, [cart.items, cart.customer_id, cart.coupon_codes, calculateCart, toast]);
 
   const clearCart = useCallback(async () => {
-    const emptyCart: Cart = {
-      items: [],
-      subtotal: 0,
-      discount_amount: 0,
-      discount_percentage: 0,
-      tax_amount: 0,
-      total: 0
-    };
     setCart(emptyCart);
     await offlineDB.saveSetting('pos_cart', emptyCart);
     
@@ -214,6 +398,95 @@ export function usePOS() {
     });
   }, [toast]);
 
+  const applyCoupon = useCallback((code: string) => {
+    const normalized = normalizeCouponCode(code);
+    const promotion = findCouponPromotion(promotions, normalized);
+
+    if (!promotion || !isPromotionLive(promotion, { couponCodes: [normalized] })) {
+      throw new Error('Invalid or expired coupon code');
+    }
+
+    const couponCodes = Array.from(new Set([...(cart.coupon_codes || []), normalized]));
+    const updatedCart = calculateCart(cart.items, cart.discount_percentage, cart.discount_amount, couponCodes);
+    setCart({ ...updatedCart, customer_id: cart.customer_id });
+
+    toast({
+      title: "Coupon Applied",
+      description: `${promotion.name} (${normalized})`,
+    });
+  }, [cart, promotions, calculateCart, toast]);
+
+  const removeCoupon = useCallback((code: string) => {
+    const couponCodes = (cart.coupon_codes || []).filter(existing => existing !== code);
+    const updatedCart = calculateCart(cart.items, cart.discount_percentage, cart.discount_amount, couponCodes);
+    setCart({ ...updatedCart, customer_id: cart.customer_id });
+  }, [cart, calculateCart]);
+
+  const parkCart = useCallback(async (label: string, customer?: { id: string; name: string }) => {
+    if (cart.items.length === 0) {
+      throw new Error('Cart is empty');
+    }
+
+    const parkedAt = new Date();
+    const expiresAt = new Date(parkedAt.getTime() + settings.held_cart_expiry_hours * 60 * 60 * 1000);
+    const heldCart: HeldCart = {
+      id: `held_${parkedAt.getTime()}`,
+      label: label.trim() || `Sale ${parkedAt.toLocaleTimeString()}`,
+      customer_id: customer?.id,
+      customer_name: customer?.name,
+      cart: { ...cart, customer_id: customer?.id },
+      parked_at: parkedAt.toISOString(),
+      expires_at: expiresAt.toISOString()
+    };
+
+    const updated = [...(await readHeldCarts()), heldCart];
+    await writeHeldCarts(updated);
+    setHeldCarts(updated);
+    setCart(emptyCart);
+
+    toast({
+      title: "Sale Parked",
+      description: `${heldCart.label} has been put on hold`,
+    });
+
+    return heldCart;
+  }, [cart, settings.held_cart_expiry_hours, toast]);
+
+  const resumeHeldCart = useCallback(async (heldCartId: string) => {
+    if (cart.items.length > 0) {
+      throw new Error('Park or clear the current cart before resuming another sale');
+    }
+
+    const existing = await readHeldCarts();
+    const heldCart = existing.find(held => held.id === heldCartId);
+    if (!heldCart) {
+      throw new Error('Held sale not found or expired');
+    }
+
+    // Recalculate in case tax settings changed while the sale was parked
+    const resumed = calculateCart(
+      heldCart.cart.items,
+      heldCart.cart.discount_percentage,
+      heldCart.cart.discount_percentage > 0 ? 0 : heldCart.cart.discount_amount,
+      heldCart.cart.coupon_codes
+    );
+    const remaining = existing.filter(held => held.id !== heldCartId);
+    await writeHeldCarts(remaining);
+    setHeldCarts(remaining);
+    setCart({ ...resumed, customer_id: heldCart.customer_id });
+
+    toast({
+      title: "Sale Resumed",
+      description: `${heldCart.label} is back in the cart`,
+    });
+  }, [cart.items.length, calculateCart, toast]);
+
+  const discardHeldCart = useCallback(async (heldCartId: string) => {
+    const remaining = (await readHeldCarts()).filter(held => held.id !== heldCartId);
+    await writeHeldCarts(remaining);
+    setHeldCarts(remaining);
+  }, []);
+
   const processTransaction = useCallback(async (paymentMethod: PaymentMethod, customerInfo?: any) => {
     if (cart.items.length === 0) {
       throw new Error('Cart is empty');
@@ -223,6 +496,7 @@ export function usePOS() {
 
     try {
       const transactionNumber = generateTransactionNumber();
+      const registerSession = await offlineDB.getOpenRegisterSession();
       
       const transaction: Transaction = {
         id: `temp_${Date.now()}`,
@@ -231,15 +505,22 @@ export function usePOS() {
         subtotal: cart.subtotal,
         discount_amount: cart.discount_amount,
         tax_amount: cart.tax_amount,
+        tax_breakdown: cart.tax_breakdown,
+        prices_include_tax: cart.prices_include_tax,
         total: cart.total,
         payment_method: paymentMethod,
         customer_id: customerInfo?.id,
         created_at: new Date().toISOString(),
-        status: 'completed'
+        status: 'completed',
+        register_session_number: registerSession?.session_number,
+        location_id: tillLocationId || undefined,
+        service_ticket_id: getCartTicketId(cart.items)
       };
 
       // Save transaction locally first
       await offlineDB.saveTransaction(transaction);
+      await updateSerialRegister(transaction);
+      await updateLotQuantities(transaction);
 
       if (isOnline) {
         try {
@@ -252,10 +533,15 @@ export function usePOS() {
               subtotal: transaction.subtotal,
               discount_amount: transaction.discount_amount,
               tax_amount: transaction.tax_amount,
+              tax_breakdown: transaction.tax_breakdown,
+              prices_include_tax: transaction.prices_include_tax,
               total: transaction.total,
               payment_method: transaction.payment_method,
               customer_id: transaction.customer_id,
-              status: transaction.status
+              status: transaction.status,
+              register_session_number: transaction.register_session_number,
+              location_id: transaction.location_id,
+              service_ticket_id: transaction.service_ticket_id
             }])
             .select()
             .single();
@@ -265,7 +551,7 @@ export function usePOS() {
           transaction.id = data.id;
 
           // Update product stock
-          await updateProductStock(cart.items);
+          await updateProductStock(cart.items, transaction.transaction_number, transaction.location_id);
         } catch (error) {
           console.warn('Online transaction save failed, queuing for sync:', error);
           // Queue for sync when online
@@ -282,6 +568,7 @@ export function usePOS() {
         });
       }
 
+      await settleCachedTicket(transaction);
       setLastTransaction(transaction);
       await clearCart();
       
@@ -291,36 +578,194 @@ export function usePOS() {
     } finally {
       setIsProcessing(false);
     }
-  }, [cart, clearCart, isOnline]);
+  }, [cart, clearCart, isOnline, tillLocationId]);
 
-  const updateProductStock = async (items: CartItem[]) => {
-    for (const item of items) {
-      if (item.variant_id) {
-        // Update variant stock
-        await supabase
-          .from('product_variants')
-          .update({
-            quantity_in_stock: supabase.raw(`quantity_in_stock - ${item.quantity}`)
-          })
-          .eq('id', item.variant_id);
+  // The server updates serials from the transaction itself; this keeps the offline register in step
+  const updateSerialRegister = async (transaction: Transaction) => {
+    if (!transaction.items.some(item => item.serial_number)) return;
+    const serials = await syncManager.getOfflineSerials();
+    await syncManager.saveOfflineSerials(applyTransactionToSerials(serials, transaction));
+  };
+
+  const updateLotQuantities = async (transaction: Transaction) => {
+    if (!transaction.items.some(item => item.lot_number)) return;
+    const lots = await syncManager.getOfflineLots();
+    await syncManager.saveOfflineLots(applyTransactionToLots(lots, transaction));
+  };
+
+  // The server settles the ticket from the transaction; this keeps the cached tickets in step
+  const settleCachedTicket = async (transaction: Transaction) => {
+    if (!transaction.service_ticket_id) return;
+    const tickets = (await offlineDB.getSetting('service_tickets')) as unknown as ServiceTicket[] || [];
+    const settled = tickets.map(ticket => ticket.id === transaction.service_ticket_id
+      ? { ...ticket, paid: true, status: 'delivered' as const, transaction_id: transaction.id }
+      : ticket);
+    await offlineDB.saveSetting('service_tickets', settled as unknown as Record<string, unknown>);
+  };
+
+  const updateProductStock = async (items: CartItem[], transactionNumber: string, locationId?: string) => {
+    await syncManager.recordOrQueueStockMovements(buildSaleMovements(items, transactionNumber, locationId));
+  };
+
+  const findTransactionByNumber = useCallback(async (transactionNumber: string): Promise<Transaction | null> => {
+    const number = transactionNumber.trim();
+    if (!number) return null;
+
+    if (isOnline) {
+      try {
+        const { data, error } = await supabase
+          .from('transactions')
+          .select('*')
+          .eq('transaction_number', number)
+          .maybeSingle();
+
+        if (error) throw error;
+        if (data) return data;
+      } catch (error) {
+        console.warn('Online transaction lookup failed, trying offline:', error);
+      }
+    }
+
+    return (await offlineDB.getTransactionByNumber(number)) || null;
+  }, [isOnline]);
+
+  const findTicketByNumber = useCallback(async (ticketNumber: string): Promise<ServiceTicket | null> => {
+    const number = ticketNumber.trim().toUpperCase();
+    if (!number) return null;
+
+    if (isOnline) {
+      try {
+        const { data, error } = await supabase
+          .from('service_tickets')
+          .select('*, customer:customers(*)')
+          .eq('ticket_number', number)
+          .maybeSingle();
+
+        if (error) throw error;
+        if (data) return data;
+      } catch (error) {
+        console.warn('Online ticket lookup failed, trying offline:', error);
+      }
+    }
+
+    const tickets = (await offlineDB.getSetting('service_tickets')) as unknown as ServiceTicket[] || [];
+    return tickets.find(ticket => ticket.ticket_number === number) || null;
+  }, [isOnline]);
+
+  const getTransactionRefunds = useCallback(async (original: Transaction): Promise<Transaction[]> => {
+    const refunds = new Map<string, Transaction>();
+
+    if (isOnline && !original.id.startsWith('temp_')) {
+      try {
+        const { data, error } = await supabase
+          .from('transactions')
+          .select('*')
+          .eq('original_transaction_id', original.id);
+
+        if (error) throw error;
+        (data || []).forEach((refund: Transaction) => refunds.set(refund.transaction_number, refund));
+      } catch (error) {
+        console.warn('Online refund lookup failed, using offline data:', error);
+      }
+    }
+
+    // Include refunds still waiting to sync
+    const localRefunds = await offlineDB.getRefundsForTransaction(original.transaction_number);
+    localRefunds.forEach(refund => {
+      if (!refunds.has(refund.transaction_number)) {
+        refunds.set(refund.transaction_number, refund);
+      }
+    });
+
+    return Array.from(refunds.values());
+  }, [isOnline]);
+
+  const processRefund = useCallback(async (request: RefundRequest) => {
+    setIsProcessing(true);
+
+    try {
+      const priorRefunds = await getTransactionRefunds(request.original);
+      const refund = buildRefundTransaction(
+        request,
+        getRefundedQuantities(priorRefunds),
+        generateTransactionNumber('RFD')
+      );
+      const registerSession = await offlineDB.getOpenRegisterSession();
+      refund.register_session_number = registerSession?.session_number;
+      // Returned goods go back on the shelf of the till taking the refund
+      refund.location_id = tillLocationId || undefined;
+
+      // Save refund locally first
+      await offlineDB.saveTransaction(refund);
+      await updateSerialRegister(refund);
+      await updateLotQuantities(refund);
+
+      if (isOnline && !request.original.id.startsWith('temp_')) {
+        let saved: { id: string } | null = null;
+        try {
+          const { data, error } = await supabase
+            .from('transactions')
+            .insert([{
+              transaction_number: refund.transaction_number,
+              items: refund.items,
+              subtotal: refund.subtotal,
+              discount_amount: refund.discount_amount,
+              tax_amount: refund.tax_amount,
+              tax_breakdown: refund.tax_breakdown,
+              prices_include_tax: refund.prices_include_tax,
+              total: refund.total,
+              payment_method: refund.payment_method,
+              customer_id: refund.customer_id,
+              status: refund.status,
+              transaction_type: 'refund',
+              original_transaction_id: refund.original_transaction_id,
+              refund_reason: refund.refund_reason,
+              register_session_number: refund.register_session_number,
+              location_id: refund.location_id
+            }])
+            .select()
+            .single();
+
+          if (error) throw error;
+          saved = data;
+        } catch (error) {
+          console.warn('Online refund save failed, queuing for sync:', error);
+          await syncManager.queueAction({
+            type: 'CREATE_REFUND',
+            data: refund
+          });
+        }
+
+        // Once the refund is on the server only its restock can still need a retry
+        if (saved) {
+          await offlineDB.deleteTransaction(refund.id);
+          refund.id = saved.id;
+          await offlineDB.saveTransaction(refund);
+
+          // Return restockable items to inventory
+          await syncManager.restockRefundItems(refund.items, refund.transaction_number, refund.location_id);
+        }
       } else {
-        // Update product stock
-        await supabase
-          .from('products')
-          .update({
-            quantity_in_stock: supabase.raw(`quantity_in_stock - ${item.quantity}`)
-          })
-          .eq('id', item.product_id);
+        // Queue for sync when online
+        await syncManager.queueAction({
+          type: 'CREATE_REFUND',
+          data: refund
+        });
       }
+
+      setLastTransaction(refund);
+      return refund;
+    } finally {
+      setIsProcessing(false);
     }
-  };
+  }, [getTransactionRefunds, isOnline, tillLocationId]);
 
-  const generateTransactionNumber = () => {
+  const generateTransactionNumber = (prefix = 'TXN') => {
     const date = new Date();
     const dateStr = date.toISOString().slice(0, 10).replace(/-/g, '');
     const timeStr = date.toTimeString().slice(0, 8).replace(/:/g, '');
     const random = Math.floor(Math.random() * 1000).toString().padStart(3, '0');
-    return `TXN${dateStr}${timeStr}${random}`;
+    return `${prefix}${dateStr}${timeStr}${random}`;
   };
 
   const playBeepSound = () => {
@@ -345,7 +790,47 @@ export function usePOS() {
     }
   };
 
-  const findProductByBarcode = async (barcode: string): Promise<{ product: Product; variant?: ProductVariant } | null> => {
+  const findProductByBarcode = async (
+    barcode: string
+  ): Promise<{ product: Product; variant?: ProductVariant; measure?: MeasuredScan } | null> => {
+    const match = await findProductByExactBarcode(barcode);
+    if (match) return match;
+
+    // Scale labels carry the product's PLU plus a price or weight rather than a catalogue barcode
+    const code = parseVariableMeasureBarcode(barcode, appSettings.barcodes.variable_measure);
+    if (!code) return null;
+
+    const product = await findProductByPlu(code.plu);
+    return product ? { product, measure: measuredScanFor(barcode, code, product, priceFor(product).price) } : null;
+  };
+
+  const findProductByPlu = async (plu: string): Promise<Product | null> => {
+    if (isOnline) {
+      try {
+        const { data, error } = await supabase
+          .from('products')
+          .select(`
+            *,
+            category:categories!products_category_id_fkey(*),
+            supplier_info:suppliers!products_supplier_id_fkey(*),
+            variants:product_variants(*)
+          `)
+          .eq('plu', plu)
+          .eq('is_active', true)
+          .maybeSingle();
+
+        if (error) throw error;
+        if (data) return data;
+      } catch (error) {
+        console.warn('Online PLU search failed, trying offline:', error);
+      }
+    }
+
+    const products: Product[] = await offlineDB.getProducts();
+    return products.find(product => product.plu === plu && product.is_active !== false) || null;
+  };
+
+  const findProductByExactBarcode = async (barcode: string): Promise<{ product: Product; variant?: ProductVariant } | null> => {
     if (isOnline) {
       try {
         // First try to find by product barcode
@@ -378,6 +863,7 @@ export function usePOS() {
             )
           `)
           .eq('barcode', barcode)
+          .eq('is_active', true)
           .single();
 
         if (!variantError && variants) {
@@ -408,6 +894,9 @@ export function usePOS() {
 
   return {
     cart,
+    heldCarts,
+    promotions,
+    taxClasses,
     settings,
     isProcessing,
     lastTransaction,
@@ -415,13 +904,22 @@ export function usePOS() {
     addToCart,
     updateItemQuantity,
     removeFromCart,
+    collectTicket,
     applyDiscount,
+    applyCoupon,
+    removeCoupon,
     clearCart,
+    parkCart,
+    resumeHeldCart,
+    discardHeldCart,
     processTransaction,
+    processRefund,
+    findTransactionByNumber,
+    findTicketByNumber,
+    getTransactionRefunds,
     findProductByBarcode,
     setSettings: async (newSettings: POSSettings) => {
-      setSettings(newSettings);
-      await offlineDB.saveSetting('pos_settings', newSettings);
+      await updateSettings({ pos: newSettings });
     }
   };
 }
\ No newline at end of file
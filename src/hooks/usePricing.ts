@@ -0,0 +1,189 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Product, ProductVariant } from '../types/inventory';
+import { PriceChange, ScheduledPrice, ScheduledPriceFormData, TillPrice } from '../types/pricing';
+import { supabase } from '../lib/supabase';
+import { syncManager } from '../lib/syncManager';
+import { getTillPrice, sortPriceHistory, validateScheduledPrice } from '../lib/pricing';
+
+export function usePricing() {
+  const [scheduledPrices, setScheduledPrices] = useState<ScheduledPrice[]>([]);
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
+
+  useEffect(() => {
+    loadScheduledPrices();
+
+    const unsubscribe = syncManager.onOnlineStatusChange(setIsOnline);
+    return unsubscribe;
+  }, []);
+
+  // Scheduled prices are cached by the sync manager so the till charges them offline
+  const loadScheduledPrices = async () => {
+    if (navigator.onLine) {
+      try {
+        await syncManager.applyDuePriceChanges();
+        const { data, error } = await supabase
+          .from('scheduled_prices')
+          .select('*')
+          .eq('status', 'scheduled');
+
+        if (error) throw error;
+
+        if (data) {
+          setScheduledPrices(data);
+          await syncManager.saveOfflineScheduledPrices(data);
+          return;
+        }
+      } catch (error) {
+        console.warn('Online scheduled prices load failed, using offline data:', error);
+      }
+    }
+
+    setScheduledPrices(await syncManager.getOfflineScheduledPrices());
+  };
+
+  const priceFor = useCallback((product: Product, variant?: ProductVariant): TillPrice => {
+    return getTillPrice(product, variant, scheduledPrices);
+  }, [scheduledPrices]);
+
+  const getPriceHistory = useCallback(async (productId: string): Promise<PriceChange[]> => {
+    if (isOnline) {
+      try {
+        const { data, error } = await supabase
+          .from('price_history')
+          .select('*')
+          .eq('product_id', productId)
+          .order('created_at', { ascending: false });
+
+        if (error) throw error;
+        return data || [];
+      } catch (error) {
+        console.warn('Online price history load failed, using offline data:', error);
+      }
+    }
+
+    const offlineHistory = await syncManager.getOfflinePriceHistory();
+    return sortPriceHistory(offlineHistory.filter(change => change.product_id === productId));
+  }, [isOnline]);
+
+  // Every scheduled price of one product, including applied and cancelled ones when online
+  const getProductSchedules = useCallback(async (productId: string): Promise<ScheduledPrice[]> => {
+    if (isOnline) {
+      try {
+        const { data, error } = await supabase
+          .from('scheduled_prices')
+          .select('*')
+          .eq('product_id', productId)
+          .order('starts_at', { ascending: false });
+
+        if (error) throw error;
+        return data || [];
+      } catch (error) {
+        console.warn('Online scheduled prices load failed, using offline data:', error);
+      }
+    }
+
+    const offlinePrices = await syncManager.getOfflineScheduledPrices();
+    return offlinePrices
+      .filter(entry => entry.product_id === productId)
+      .sort((a, b) => b.starts_at.localeCompare(a.starts_at));
+  }, [isOnline]);
+
+  const schedulePrice = useCallback(async (product: Product, form: ScheduledPriceFormData): Promise<ScheduledPrice> => {
+    try {
+      const problem = validateScheduledPrice(form);
+      if (problem) throw new Error(problem);
+
+      const payload = {
+        product_id: product.id,
+        variant_id: form.variant_id || null,
+        kind: form.kind,
+        price: form.price,
+        starts_at: new Date(form.starts_at).toISOString(),
+        ends_at: form.kind === 'sale' && form.ends_at ? new Date(form.ends_at).toISOString() : null,
+        notes: form.notes?.trim() || null
+      };
+
+      if (isOnline) {
+        const { data, error } = await supabase
+          .from('scheduled_prices')
+          .insert([payload])
+          .select()
+          .single();
+
+        if (error) throw error;
+
+        // A change that starts now goes straight into the catalogue
+        await syncManager.applyDuePriceChanges();
+        await loadScheduledPrices();
+        return data;
+      } else {
+        // The queued insert shares the entry's temporary id, so cancelling before it syncs can drop it
+        const tempId = `temp_${Date.now()}`;
+        await syncManager.queueAction({
+          type: 'SCHEDULE_PRICE',
+          id: tempId,
+          data: payload
+        });
+
+        const tempEntry: ScheduledPrice = {
+          ...payload,
+          id: tempId,
+          status: 'scheduled',
+          created_at: new Date().toISOString(),
+          updated_at: new Date().toISOString()
+        };
+
+        const updated = [...await syncManager.getOfflineScheduledPrices(), tempEntry];
+        await syncManager.saveOfflineScheduledPrices(updated);
+        setScheduledPrices(updated);
+        return tempEntry;
+      }
+    } catch (err) {
+      throw new Error(err instanceof Error ? err.message : 'Failed to schedule price');
+    }
+  }, [isOnline]);
+
+  const cancelScheduledPrice = useCallback(async (id: string): Promise<void> => {
+    try {
+      if (id.startsWith('temp_')) {
+        // Never reached the server: dropping the queued insert is the whole cancellation
+        await syncManager.removeQueuedAction(id);
+        const updated = (await syncManager.getOfflineScheduledPrices()).filter(entry => entry.id !== id);
+        await syncManager.saveOfflineScheduledPrices(updated);
+        setScheduledPrices(updated);
+      } else if (isOnline) {
+        const { error } = await supabase
+          .from('scheduled_prices')
+          .update({ status: 'cancelled' })
+          .eq('id', id)
+          .eq('status', 'scheduled');
+
+        if (error) throw error;
+
+        await loadScheduledPrices();
+      } else {
+        await syncManager.queueAction({
+          type: 'CANCEL_SCHEDULED_PRICE',
+          data: { id }
+        });
+
+        const updated = (await syncManager.getOfflineScheduledPrices()).filter(entry => entry.id !== id);
+        await syncManager.saveOfflineScheduledPrices(updated);
+        setScheduledPrices(updated);
+      }
+    } catch (err) {
+      throw new Error(err instanceof Error ? err.message : 'Failed to cancel scheduled price');
+    }
+  }, [isOnline]);
+
+  return {
+    scheduledPrices,
+    isOnline,
+    priceFor,
+    getPriceHistory,
+    getProductSchedules,
+    schedulePrice,
+    cancelScheduledPrice,
+    refreshScheduledPrices: loadScheduledPrices
+  };
+}
@@ -0,0 +1,170 @@
+import { useState, useEffect } from 'react';
+import { Promotion, PromotionFormData } from '../types/promotions';
+import { supabase } from '../lib/supabase';
+import { syncManager } from '../lib/syncManager';
+import { offlineDB } from '../lib/offlineDB';
+import { normalizeCouponCode } from '../lib/promotions';
+
+const readOfflinePromotions = async () =>
+  (await offlineDB.getSetting('promotions')) as unknown as Promotion[] || [];
+
+export function usePromotions() {
+  const [promotions, setPromotions] = useState<Promotion[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
+
+  useEffect(() => {
+    loadPromotions();
+
+    const unsubscribe = syncManager.onOnlineStatusChange(setIsOnline);
+    return unsubscribe;
+  }, []);
+
+  const loadPromotions = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      if (navigator.onLine) {
+        try {
+          const { data, error } = await supabase
+            .from('promotions')
+            .select('*')
+            .order('priority', { ascending: false });
+
+          if (error) throw error;
+
+          setPromotions(data || []);
+
+          if (data) {
+            await offlineDB.saveSetting('promotions', data as unknown as Record<string, unknown>);
+          }
+        } catch (serverError) {
+          console.warn('Server load failed, falling back to offline data:', serverError);
+          setPromotions(await readOfflinePromotions());
+        }
+      } else {
+        setPromotions(await readOfflinePromotions());
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load promotions');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const savePromotionsOffline = async (updated: Promotion[]) => {
+    setPromotions(updated);
+    await offlineDB.saveSetting('promotions', updated as unknown as Record<string, unknown>);
+  };
+
+  const normalizeFormData = (promotionData: PromotionFormData): PromotionFormData => ({
+    ...promotionData,
+    coupon_code: promotionData.coupon_code ? normalizeCouponCode(promotionData.coupon_code) : undefined
+  });
+
+  const createPromotion = async (promotionData: PromotionFormData) => {
+    try {
+      const payload = normalizeFormData(promotionData);
+
+      if (isOnline) {
+        const { data, error } = await supabase
+          .from('promotions')
+          .insert([payload])
+          .select()
+          .single();
+
+        if (error) throw error;
+
+        await loadPromotions();
+        return data;
+      } else {
+        await syncManager.queueAction({
+          type: 'CREATE_PROMOTION',
+          data: payload
+        });
+
+        const tempPromotion: Promotion = {
+          ...payload,
+          id: `temp_${Date.now()}`,
+          created_at: new Date().toISOString(),
+          updated_at: new Date().toISOString()
+        };
+
+        await savePromotionsOffline([...promotions, tempPromotion]);
+        return tempPromotion;
+      }
+    } catch (err) {
+      throw new Error(err instanceof Error ? err.message : 'Failed to create promotion');
+    }
+  };
+
+  const updatePromotion = async (id: string, promotionData: PromotionFormData) => {
+    try {
+      const payload = normalizeFormData(promotionData);
+
+      if (isOnline) {
+        const { data, error } = await supabase
+          .from('promotions')
+          .update(payload)
+          .eq('id', id)
+          .select()
+          .single();
+
+        if (error) throw error;
+
+        await loadPromotions();
+        return data;
+      } else {
+        await syncManager.queueAction({
+          type: 'UPDATE_PROMOTION',
+          data: { ...payload, id }
+        });
+
+        const updated = promotions.map(promotion =>
+          promotion.id === id ? { ...promotion, ...payload, updated_at: new Date().toISOString() } : promotion
+        );
+        await savePromotionsOffline(updated);
+        return updated.find(promotion => promotion.id === id);
+      }
+    } catch (err) {
+      throw new Error(err instanceof Error ? err.message : 'Failed to update promotion');
+    }
+  };
+
+  const deletePromotion = async (id: string) => {
+    try {
+      if (isOnline) {
+        const { error } = await supabase
+          .from('promotions')
+          .delete()
+          .eq('id', id);
+
+        if (error) throw error;
+
+        await loadPromotions();
+      } else {
+        await syncManager.queueAction({
+          type: 'DELETE_PROMOTION',
+          data: { id }
+        });
+
+        await savePromotionsOffline(promotions.filter(promotion => promotion.id !== id));
+      }
+    } catch (err) {
+      throw new Error(err instanceof Error ? err.message : 'Failed to delete promotion');
+    }
+  };
+
+  return {
+    promotions,
+    loading,
+    error,
+    isOnline,
+    createPromotion,
+    updatePromotion,
+    deletePromotion,
+    refreshData: loadPromotions
+  };
+}
@@ -0,0 +1,400 @@
+import { useState, useEffect } from 'react';
+import { PurchaseOrder, PurchaseOrderFormData, ReceiveLine } from '../types/purchaseOrders';
+import { Supplier, SupplierActivityLog } from '../types/supplier';
+import { Product } from '../types/inventory';
+import { supabase } from '../lib/supabase';
+import { syncManager } from '../lib/syncManager';
+import { offlineDB } from '../lib/offlineDB';
+import {
+  applyReceipt,
+  calculatePurchaseOrderTotals,
+  canReceive,
+  describeReceipt,
+  generatePurchaseOrderNumber,
+  getMinimumOrderShortfall,
+  ReceiptResult
+} from '../lib/purchaseOrders';
+import { buildReceivedSerials, findDuplicateSerials, findKnownSerials } from '../lib/serials';
+import { buildReceivedLots, mergeReceivedLots } from '../lib/lots';
+import { costAfterReceipt, landedUnitCost } from '../lib/costing';
+
+const readOfflinePurchaseOrders = async () =>
+  (await offlineDB.getSetting('purchase_orders')) as unknown as PurchaseOrder[] || [];
+
+export function usePurchaseOrders() {
+  const [purchaseOrders, setPurchaseOrders] = useState<PurchaseOrder[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
+
+  useEffect(() => {
+    loadPurchaseOrders();
+
+    const unsubscribe = syncManager.onOnlineStatusChange(setIsOnline);
+    return unsubscribe;
+  }, []);
+
+  const loadPurchaseOrders = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      if (navigator.onLine) {
+        try {
+          const { data, error } = await supabase
+            .from('purchase_orders')
+            .select('*')
+            .order('created_at', { ascending: false });
+
+          if (error) throw error;
+
+          setPurchaseOrders(data || []);
+
+          if (data) {
+            await offlineDB.saveSetting('purchase_orders', data as unknown as Record<string, unknown>);
+          }
+        } catch (serverError) {
+          console.warn('Server load failed, falling back to offline data:', serverError);
+          setPurchaseOrders(await readOfflinePurchaseOrders());
+        }
+      } else {
+        setPurchaseOrders(await readOfflinePurchaseOrders());
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load purchase orders');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Push online or queue it, the same way register sessions are kept
+  const pushPurchaseOrder = async (order: PurchaseOrder) => {
+    let saved = order;
+
+    if (isOnline) {
+      const { id, ...orderData } = order;
+      const { data, error } = await supabase
+        .from('purchase_orders')
+        .upsert([orderData], { onConflict: 'po_number' })
+        .select()
+        .single();
+
+      if (error) throw error;
+      saved = { ...order, id: data?.id || id };
+    } else {
+      await syncManager.queueAction({
+        type: 'SAVE_PURCHASE_ORDER',
+        data: order
+      });
+    }
+
+    return saved;
+  };
+
+  const storePurchaseOrders = async (saved: PurchaseOrder[]) => {
+    const savedByNumber = new Map(saved.map(o => [o.po_number, o]));
+    const updated = [
+      ...saved.filter(o => !purchaseOrders.some(existing => existing.po_number === o.po_number)),
+      ...purchaseOrders.map(o => savedByNumber.get(o.po_number) || o)
+    ];
+
+    setPurchaseOrders(updated);
+    await offlineDB.saveSetting('purchase_orders', updated as unknown as Record<string, unknown>);
+  };
+
+  const persistPurchaseOrder = async (order: PurchaseOrder) => {
+    const saved = await pushPurchaseOrder(order);
+    await storePurchaseOrders([saved]);
+    return saved;
+  };
+
+  const logSupplierActivity = async (activity: Omit<SupplierActivityLog, 'id' | 'created_at'>) => {
+    if (isOnline) {
+      const { error } = await supabase
+        .from('supplier_activity_log')
+        .insert([activity]);
+
+      if (error) throw error;
+    } else {
+      await syncManager.queueAction({
+        type: 'ADD_SUPPLIER_ACTIVITY',
+        data: activity
+      });
+    }
+  };
+
+  const findOrder = (poNumber: string) => {
+    const order = purchaseOrders.find(o => o.po_number === poNumber);
+    if (!order) throw new Error('Purchase order not found');
+    return order;
+  };
+
+  const buildOrder = (formData: PurchaseOrderFormData, supplier: Supplier, base?: PurchaseOrder): PurchaseOrder => {
+    const now = new Date().toISOString();
+    const lines = formData.lines.filter(line => line.quantity_ordered > 0);
+
+    return {
+      ...base,
+      po_number: base?.po_number || generatePurchaseOrderNumber(),
+      supplier_id: supplier.id,
+      supplier_name: supplier.name,
+      status: base?.status || 'draft',
+      lines,
+      ...calculatePurchaseOrderTotals(lines, formData.discount_percentage),
+      discount_percentage: formData.discount_percentage,
+      expected_date: formData.expected_date || undefined,
+      notes: formData.notes || undefined,
+      receipts: base?.receipts || [],
+      created_at: base?.created_at || now,
+      updated_at: now
+    };
+  };
+
+  const createPurchaseOrder = async (formData: PurchaseOrderFormData, supplier: Supplier) => {
+    try {
+      if (formData.lines.length === 0) throw new Error('Add at least one product to the order');
+      return await persistPurchaseOrder(buildOrder(formData, supplier));
+    } catch (err) {
+      throw new Error(err instanceof Error ? err.message : 'Failed to create purchase order');
+    }
+  };
+
+  // One draft per supplier, e.g. from the reorder planner; drafts saved before a failure are kept
+  const createDraftOrders = async (drafts: { formData: PurchaseOrderFormData; supplier: Supplier }[]) => {
+    const saved: PurchaseOrder[] = [];
+    try {
+      for (const { formData, supplier } of drafts) {
+        if (formData.lines.length === 0) continue;
+        saved.push(await pushPurchaseOrder(buildOrder(formData, supplier)));
+      }
+      return saved;
+    } catch (err) {
+      throw new Error(err instanceof Error ? err.message : 'Failed to create purchase orders');
+    } finally {
+      if (saved.length > 0) await storePurchaseOrders(saved);
+    }
+  };
+
+  const updatePurchaseOrder = async (poNumber: string, formData: PurchaseOrderFormData, supplier: Supplier) => {
+    try {
+      const order = findOrder(poNumber);
+      if (order.status !== 'draft') throw new Error('Only draft purchase orders can be edited');
+      return await persistPurchaseOrder(buildOrder(formData, supplier, order));
+    } catch (err) {
+      throw new Error(err instanceof Error ? err.message : 'Failed to update purchase order');
+    }
+  };
+
+  // Sending locks the order; the supplier's minimum order amount must be met first
+  const markOrdered = async (poNumber: string, supplier?: Supplier) => {
+    try {
+      const order = findOrder(poNumber);
+      if (order.status !== 'draft') throw new Error('Only draft purchase orders can be sent');
+      if (order.lines.length === 0) throw new Error('Add at least one product to the order');
+
+      const shortfall = getMinimumOrderShortfall(order.subtotal, supplier);
+      if (shortfall > 0) {
+        throw new Error(`Order is ${shortfall.toFixed(2)} below the supplier's minimum of ${supplier?.minimum_order_amount.toFixed(2)}`);
+      }
+
+      const now = new Date().toISOString();
+      const saved = await persistPurchaseOrder({ ...order, status: 'ordered', ordered_at: now, updated_at: now });
+
+      await logSupplierActivity({
+        supplier_id: order.supplier_id,
+        activity_type: 'order_placed',
+        description: `Purchase order ${order.po_number} placed (${order.total.toFixed(2)})`,
+        reference_id: saved.id,
+        metadata: { po_number: order.po_number, total: order.total, line_count: order.lines.length }
+      });
+
+      return saved;
+    } catch (err) {
+      throw new Error(err instanceof Error ? err.message : 'Failed to send purchase order');
+    }
+  };
+
+  const cancelPurchaseOrder = async (poNumber: string) => {
+    try {
+      const order = findOrder(poNumber);
+      if (order.status !== 'draft' && order.status !== 'ordered') {
+        throw new Error('Orders that have started receiving cannot be cancelled');
+      }
+      return await persistPurchaseOrder({ ...order, status: 'cancelled', updated_at: new Date().toISOString() });
+    } catch (err) {
+      throw new Error(err instanceof Error ? err.message : 'Failed to cancel purchase order');
+    }
+  };
+
+  // Serialized units must each arrive with a serial that isn't already on record
+  const registerReceivedSerials = async (
+    order: PurchaseOrder,
+    received: ReceiptResult['received'],
+    products: Product[]
+  ) => {
+    received.forEach(line => {
+      const product = products.find(p => p.id === line.product_id);
+      if (product?.is_serialized && (line.serials || []).length !== line.quantity) {
+        throw new Error(`Scan ${line.quantity} serial number(s) for ${line.product_name}`);
+      }
+    });
+
+    const serials = buildReceivedSerials(order, received);
+    if (serials.length === 0) return;
+
+    const numbers = serials.map(serial => serial.serial_number);
+    const duplicates = findDuplicateSerials(numbers);
+    if (duplicates.length > 0) throw new Error(`Serial number(s) scanned twice: ${duplicates.join(', ')}`);
+
+    const cached = await syncManager.getOfflineSerials();
+    const known = findKnownSerials(numbers, cached);
+    if (known.length > 0) throw new Error(`Serial number(s) already on record: ${known.join(', ')}`);
+
+    if (isOnline) {
+      await syncManager.registerSerials(serials);
+    } else {
+      await syncManager.queueAction({
+        type: 'REGISTER_SERIALS',
+        data: serials
+      });
+    }
+    await syncManager.saveOfflineSerials([...cached, ...serials]);
+  };
+
+  // Units on lot-tracked lines are added to the lot they arrived in. The stock is already in by
+  // then, so lots are queued one by one rather than failing the receipt
+  const recordReceivedLots = async (order: PurchaseOrder, received: ReceiptResult['received']) => {
+    const lots = buildReceivedLots(order, received);
+    if (lots.length === 0) return;
+
+    if (isOnline) {
+      await syncManager.receiveOrQueueLots(lots);
+    } else {
+      for (const lot of lots) {
+        await syncManager.queueAction({
+          type: 'RECEIVE_LOTS',
+          data: [lot]
+        });
+      }
+    }
+    await syncManager.saveOfflineLots(mergeReceivedLots(await syncManager.getOfflineLots(), lots));
+  };
+
+  // Receive a full or partial delivery: stock goes up by what arrived and the
+  // supplier's activity log records the delivery
+  const receivePurchaseOrder = async (poNumber: string, receiveLines: ReceiveLine[], notes?: string) => {
+    try {
+      const order = findOrder(poNumber);
+      if (!canReceive(order)) throw new Error('This purchase order is not awaiting delivery');
+
+      const { order: updatedOrder, received } = applyReceipt(order, receiveLines, notes);
+      if (received.length === 0) throw new Error('Enter a quantity for at least one line');
+
+      const cachedProducts = await offlineDB.getProducts();
+      const missingLot = received.find(line =>
+        cachedProducts.some((product: Product) => product.id === line.product_id && product.track_lots) &&
+        !line.lot_number?.trim()
+      );
+      if (missingLot) throw new Error(`Enter the lot number for ${missingLot.product_name}`);
+
+      // Registered first so a clashing serial stops the delivery before any stock moves
+      await registerReceivedSerials(updatedOrder, received, cachedProducts);
+
+      // Deliveries come in at what was paid, which sets the cost of the stock
+      const stockItems = received.map(line => ({
+        product_id: line.product_id,
+        variant_id: line.variant_id,
+        quantity: line.quantity,
+        unit_cost: landedUnitCost(line.unit_cost, order.discount_percentage)
+      }));
+
+      // Stock goes in before the order is marked received, so an order that says it was
+      // received never leaves its delivery out of stock
+      if (isOnline) {
+        await syncManager.receiveStock(stockItems, order.po_number);
+      } else {
+        await syncManager.queueAction({
+          type: 'RECEIVE_STOCK',
+          data: { items: stockItems, po_number: order.po_number }
+        });
+      }
+
+      // The delivery is in stock by now, so a failed save is queued rather than thrown:
+      // receiving the order again would add the same stock twice
+      let saved: PurchaseOrder;
+      try {
+        saved = await persistPurchaseOrder(updatedOrder);
+      } catch (error) {
+        console.warn('Online purchase order save failed, queuing for sync:', error);
+        await syncManager.queueAction({
+          type: 'SAVE_PURCHASE_ORDER',
+          data: updatedOrder
+        });
+        await storePurchaseOrders([updatedOrder]);
+        saved = updatedOrder;
+      }
+
+      await recordReceivedLots(updatedOrder, received);
+
+      // Keep the offline catalogue in step so the POS sees the new stock and cost straight away
+      if (cachedProducts.length > 0) {
+        const baseItems = stockItems.filter(item => !item.variant_id);
+        await offlineDB.saveProducts(cachedProducts.map((product: Product) =>
+          baseItems.filter(item => item.product_id === product.id).reduce((current, item) => ({
+            ...current,
+            quantity_in_stock: current.quantity_in_stock + item.quantity,
+            cost_price: costAfterReceipt(current.quantity_in_stock, current.cost_price, item.quantity, item.unit_cost)
+          }), product)
+        ));
+      }
+
+      const activity: Omit<SupplierActivityLog, 'id' | 'created_at'> = {
+        supplier_id: order.supplier_id,
+        activity_type: 'delivery_received',
+        description: describeReceipt(updatedOrder, received),
+        reference_id: saved.id,
+        metadata: {
+          po_number: order.po_number,
+          status: updatedOrder.status,
+          lines: received.map(line => ({
+            product_id: line.product_id,
+            variant_id: line.variant_id,
+            product_name: line.product_name,
+            quantity: line.quantity,
+            unit_cost: line.unit_cost
+          })),
+          ...(notes ? { notes } : {})
+        }
+      };
+
+      // Like the order itself, the log entry is queued rather than failing a receipt that's in stock
+      try {
+        await logSupplierActivity(activity);
+      } catch (error) {
+        console.warn('Online supplier activity save failed, queuing for sync:', error);
+        await syncManager.queueAction({
+          type: 'ADD_SUPPLIER_ACTIVITY',
+          data: activity
+        });
+      }
+
+      return saved;
+    } catch (err) {
+      throw new Error(err instanceof Error ? err.message : 'Failed to receive purchase order');
+    }
+  };
+
+  return {
+    purchaseOrders,
+    loading,
+    error,
+    isOnline,
+    createPurchaseOrder,
+    createDraftOrders,
+    updatePurchaseOrder,
+    markOrdered,
+    cancelPurchaseOrder,
+    receivePurchaseOrder,
+    refreshData: loadPurchaseOrders
+  };
+}
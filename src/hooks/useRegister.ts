@@ -0,0 +1,189 @@
+import { useState, useEffect } from 'react';
+import { RegisterSession, CashMovement, ZReport } from '../types/register';
+import { Transaction } from '../types/pos';
+import { supabase } from '../lib/supabase';
+import { syncManager } from '../lib/syncManager';
+import { offlineDB } from '../lib/offlineDB';
+import { buildZReport, generateSessionNumber } from '../lib/register';
+
+export function useRegister() {
+  const [currentSession, setCurrentSession] = useState<RegisterSession | null>(null);
+  const [sessions, setSessions] = useState<RegisterSession[]>([]);
+  const [sessionTransactions, setSessionTransactions] = useState<Transaction[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
+
+  useEffect(() => {
+    loadSessions();
+
+    const unsubscribe = syncManager.onOnlineStatusChange(setIsOnline);
+    return unsubscribe;
+  }, []);
+
+  // Register sessions belong to the device running the till, so they are always read locally
+  const loadSessions = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const [openSession, allSessions] = await Promise.all([
+        offlineDB.getOpenRegisterSession(),
+        offlineDB.getRegisterSessions()
+      ]);
+
+      setCurrentSession(openSession || null);
+      setSessions(allSessions);
+      setSessionTransactions(openSession
+        ? await offlineDB.getTransactionsForSession(openSession.session_number)
+        : []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load register sessions');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const persistSession = async (session: RegisterSession) => {
+    await offlineDB.saveRegisterSession(session);
+
+    if (isOnline) {
+      try {
+        const { id, ...sessionData } = session;
+        const { data, error } = await supabase
+          .from('register_sessions')
+          .upsert([sessionData], { onConflict: 'session_number' })
+          .select()
+          .single();
+
+        if (error) throw error;
+
+        if (data && !id) {
+          await offlineDB.saveRegisterSession({ ...session, id: data.id });
+        }
+        return;
+      } catch (serverError) {
+        console.warn('Online register session save failed, queuing for sync:', serverError);
+      }
+    }
+
+    await syncManager.queueAction({
+      type: 'SAVE_REGISTER_SESSION',
+      data: session
+    });
+  };
+
+  const openSession = async (cashierName: string, openingFloat: number) => {
+    try {
+      if (currentSession) {
+        throw new Error('A register session is already open');
+      }
+      if (!cashierName.trim()) {
+        throw new Error('Cashier name is required');
+      }
+      if (openingFloat < 0) {
+        throw new Error('Opening float cannot be negative');
+      }
+
+      const session: RegisterSession = {
+        session_number: generateSessionNumber(),
+        cashier_name: cashierName.trim(),
+        status: 'open',
+        opening_float: openingFloat,
+        cash_movements: [],
+        opened_at: new Date().toISOString()
+      };
+
+      await persistSession(session);
+      await loadSessions();
+      return session;
+    } catch (err) {
+      throw new Error(err instanceof Error ? err.message : 'Failed to open register');
+    }
+  };
+
+  const addCashMovement = async (type: CashMovement['type'], amount: number, reason: string) => {
+    try {
+      if (!currentSession) {
+        throw new Error('No register session is open');
+      }
+      if (!(amount > 0)) {
+        throw new Error('Amount must be greater than zero');
+      }
+      if (!reason.trim()) {
+        throw new Error('A reason is required for cash movements');
+      }
+
+      const movement: CashMovement = {
+        id: `${type}_${Date.now()}`,
+        type,
+        amount,
+        reason: reason.trim(),
+        created_at: new Date().toISOString()
+      };
+
+      const session = await offlineDB.getRegisterSession(currentSession.session_number) || currentSession;
+      const updatedSession: RegisterSession = {
+        ...session,
+        cash_movements: [...session.cash_movements, movement]
+      };
+
+      await persistSession(updatedSession);
+      await loadSessions();
+      return movement;
+    } catch (err) {
+      throw new Error(err instanceof Error ? err.message : 'Failed to record cash movement');
+    }
+  };
+
+  const closeSession = async (countedCash: number, notes?: string): Promise<ZReport> => {
+    try {
+      if (!currentSession) {
+        throw new Error('No register session is open');
+      }
+      if (countedCash < 0) {
+        throw new Error('Counted cash cannot be negative');
+      }
+
+      const session = await offlineDB.getRegisterSession(currentSession.session_number) || currentSession;
+      const transactions = await offlineDB.getTransactionsForSession(session.session_number);
+      const closingSession: RegisterSession = {
+        ...session,
+        status: 'closed',
+        counted_cash: countedCash,
+        notes: notes?.trim() || session.notes,
+        closed_at: new Date().toISOString()
+      };
+
+      const report = buildZReport(closingSession, transactions);
+      const closedSession: RegisterSession = {
+        ...closingSession,
+        expected_cash: report.expected_cash,
+        variance: report.variance,
+        z_report: report
+      };
+
+      await persistSession(closedSession);
+      await loadSessions();
+      return report;
+    } catch (err) {
+      throw new Error(err instanceof Error ? err.message : 'Failed to close register');
+    }
+  };
+
+  // Running (X) report for the open session
+  const currentReport = currentSession ? buildZReport(currentSession, sessionTransactions) : null;
+
+  return {
+    currentSession,
+    currentReport,
+    sessions,
+    loading,
+    error,
+    isOnline,
+    openSession,
+    addCashMovement,
+    closeSession,
+    refreshSession: loadSessions
+  };
+}
@@ -0,0 +1,69 @@
+import { useState, useEffect, useCallback } from 'react';
+import { DemandLine } from '../types/reorder';
+import { fetchAllPages, supabase } from '../lib/supabase';
+import { syncManager } from '../lib/syncManager';
+import { offlineDB } from '../lib/offlineDB';
+
+// Refunded sales still count as demand; the refund itself comes back as negative lines
+const DEMAND_STATUSES = ['completed', 'refunded'];
+
+interface DemandItemRow {
+  product_id: string;
+  quantity: number;
+  transactions: { created_at: string };
+}
+
+export function useReorderPlanner() {
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
+
+  useEffect(() => {
+    const unsubscribe = syncManager.onOnlineStatusChange(setIsOnline);
+    return unsubscribe;
+  }, []);
+
+  // Units sold per line over the last `lookbackDays` days
+  const getDemandLines = useCallback(async (lookbackDays: number): Promise<DemandLine[]> => {
+    const end = new Date().toISOString();
+    const start = new Date(Date.now() - lookbackDays * 24 * 60 * 60 * 1000).toISOString();
+
+    if (isOnline) {
+      try {
+        const rows = await fetchAllPages<DemandItemRow>((from, to) =>
+          supabase
+            .from('transaction_items')
+            .select('product_id, quantity, transactions!inner(created_at, status)')
+            .in('transactions.status', DEMAND_STATUSES)
+            .gte('transactions.created_at', start)
+            .lte('transactions.created_at', end)
+            .order('created_at')
+            .range(from, to) as unknown as PromiseLike<{ data: DemandItemRow[] | null; error: unknown }>
+        );
+        return rows.map(row => ({
+          product_id: row.product_id,
+          quantity: row.quantity,
+          created_at: row.transactions.created_at
+        }));
+      } catch (error) {
+        console.warn('Online sales history load failed, using offline data:', error);
+      }
+    }
+
+    try {
+      const transactions = await offlineDB.getTransactionsByDateRange(start, end);
+      return transactions
+        .filter(tx => DEMAND_STATUSES.includes(tx.status))
+        .flatMap(tx => tx.items.map(item => ({
+          product_id: item.product_id,
+          quantity: item.quantity,
+          created_at: tx.created_at
+        })));
+    } catch (err) {
+      throw new Error(err instanceof Error ? err.message : 'Failed to load sales history');
+    }
+  }, [isOnline]);
+
+  return {
+    isOnline,
+    getDemandLines
+  };
+}
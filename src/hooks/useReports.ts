@@ -0,0 +1,213 @@
+import { useState, useEffect, useCallback } from 'react';
+import { CartItem } from '../types/pos';
+import { PriceChange } from '../types/pricing';
+import { PriceChangeLine, ReportFilters, ReportSourceData, ReportTicket, ReportTransaction, SalesLine } from '../types/reports';
+import { fetchAllPages, supabase } from '../lib/supabase';
+import { syncManager } from '../lib/syncManager';
+import { offlineDB } from '../lib/offlineDB';
+import { allocateLineNet, getDateRangeBounds } from '../lib/reports';
+import { variantLabel } from '../lib/variants';
+
+const REPORTABLE_STATUSES = ['completed', 'refunded'];
+
+const emptyData: ReportSourceData = { lines: [], transactions: [], sessions: [], tickets: [], price_changes: [] };
+
+interface TransactionItemRow {
+  transaction_id: string;
+  product_id: string;
+  quantity: number;
+  total_price: number;
+  // Recorded at sale time; missing on lines from before costs were kept
+  cost_amount: number | null;
+  transactions: ReportTransaction;
+  products: { name: string; product_code: string; category_id?: string; cost_price: number } | null;
+}
+
+interface PriceHistoryRow extends PriceChange {
+  products: { name: string; product_code: string } | null;
+  product_variants: { name: string; value: string; attributes?: Record<string, string> } | null;
+}
+
+async function loadOnlineReportData(filters: ReportFilters): Promise<ReportSourceData> {
+  const { start, end } = getDateRangeBounds(filters);
+
+  const [transactions, items, sessionsResult, ticketsResult, priceHistory] = await Promise.all([
+    fetchAllPages<ReportTransaction>((from, to) =>
+      supabase
+        .from('transactions')
+        .select('id, transaction_number, created_at, status, transaction_type, subtotal, discount_amount, tax_amount, tax_breakdown, prices_include_tax, total, register_session_number')
+        .in('status', REPORTABLE_STATUSES)
+        .gte('created_at', start)
+        .lte('created_at', end)
+        .order('created_at')
+        .range(from, to)
+    ),
+    fetchAllPages<TransactionItemRow>((from, to) =>
+      supabase
+        .from('transaction_items')
+        .select(`
+          transaction_id,
+          product_id,
+          quantity,
+          total_price,
+          cost_amount,
+          transactions!inner(id, transaction_number, created_at, status, transaction_type, subtotal, discount_amount, tax_amount, prices_include_tax, total),
+          products(name, product_code, category_id, cost_price)
+        `)
+        .in('transactions.status', REPORTABLE_STATUSES)
+        .gte('transactions.created_at', start)
+        .lte('transactions.created_at', end)
+        .order('created_at')
+        .range(from, to) as unknown as PromiseLike<{ data: TransactionItemRow[] | null; error: unknown }>
+    ),
+    supabase.from('register_sessions').select('session_number, cashier_name'),
+    supabase
+      .from('service_tickets')
+      .select('id, ticket_number, type, status, price_quote, final_price, paid, transaction_id, created_at')
+      .gte('created_at', start)
+      .lte('created_at', end),
+    fetchAllPages<PriceHistoryRow>((from, to) =>
+      supabase
+        .from('price_history')
+        .select('*, products(name, product_code), product_variants(name, value, attributes)')
+        .gte('created_at', start)
+        .lte('created_at', end)
+        .order('created_at')
+        .range(from, to) as unknown as PromiseLike<{ data: PriceHistoryRow[] | null; error: unknown }>
+    )
+  ]);
+
+  if (sessionsResult.error) throw sessionsResult.error;
+  if (ticketsResult.error) throw ticketsResult.error;
+
+  const lines: SalesLine[] = items.map(item => ({
+    transaction_id: item.transaction_id,
+    transaction_number: item.transactions.transaction_number,
+    transaction_type: item.transactions.transaction_type || 'sale',
+    created_at: item.transactions.created_at,
+    product_id: item.product_id,
+    product_name: item.products?.name || item.product_id,
+    product_code: item.products?.product_code || '',
+    category_id: item.products?.category_id,
+    quantity: item.quantity,
+    gross_amount: item.total_price,
+    net_amount: allocateLineNet(item.total_price, item.transactions),
+    cost_amount: item.cost_amount ?? item.quantity * (item.products?.cost_price || 0)
+  }));
+
+  const price_changes: PriceChangeLine[] = priceHistory.map(({ products, product_variants, ...change }) => ({
+    ...change,
+    product_name: products?.name || change.product_id,
+    product_code: products?.product_code || '',
+    variant_name: product_variants ? variantLabel(product_variants) : undefined
+  }));
+
+  return {
+    lines,
+    transactions,
+    sessions: sessionsResult.data || [],
+    tickets: (ticketsResult.data || []) as ReportTicket[],
+    price_changes
+  };
+}
+
+async function loadOfflineReportData(filters: ReportFilters): Promise<ReportSourceData> {
+  const { start, end } = getDateRangeBounds(filters);
+
+  const [cachedTransactions, products, sessions, cachedTickets, cachedPriceHistory] = await Promise.all([
+    offlineDB.getTransactionsByDateRange(start, end),
+    offlineDB.getProducts(),
+    offlineDB.getRegisterSessions(),
+    offlineDB.getSetting('service_tickets'),
+    syncManager.getOfflinePriceHistory()
+  ]);
+
+  const productsById = new Map(products.map(product => [product.id, product]));
+  const transactions = cachedTransactions.filter(transaction => REPORTABLE_STATUSES.includes(transaction.status));
+
+  // A collected ticket's service line sells no product, as on the server
+  const lines = transactions.flatMap(transaction =>
+    (transaction.items || []).filter((item: CartItem) => item.product_id).map((item: CartItem): SalesLine => {
+      const product = productsById.get(item.product_id);
+      return {
+        transaction_id: transaction.id,
+        transaction_number: transaction.transaction_number,
+        transaction_type: transaction.transaction_type || 'sale',
+        created_at: transaction.created_at,
+        product_id: item.product_id,
+        product_name: item.name,
+        product_code: item.product_code,
+        category_id: item.category_id || product?.category_id,
+        quantity: item.quantity,
+        gross_amount: item.subtotal,
+        net_amount: allocateLineNet(item.subtotal, transaction),
+        cost_amount: item.quantity * (item.unit_cost ?? product?.cost_price ?? 0),
+        kit_components: item.kit_components
+      };
+    })
+  );
+
+  const tickets = ((cachedTickets as unknown as ReportTicket[]) || [])
+    .filter(ticket => ticket.created_at >= start && ticket.created_at <= end);
+
+  const price_changes = cachedPriceHistory
+    .filter(change => change.created_at >= start && change.created_at <= end)
+    .map((change): PriceChangeLine => {
+      const product = productsById.get(change.product_id);
+      const variant = product?.variants?.find(v => v.id === change.variant_id);
+      return {
+        ...change,
+        product_name: product?.name || change.product_id,
+        product_code: product?.product_code || '',
+        variant_name: variant ? variantLabel(variant) : undefined
+      };
+    });
+
+  return { lines, transactions, sessions, tickets, price_changes };
+}
+
+export function useReports(filters: ReportFilters) {
+  const [data, setData] = useState<ReportSourceData>(emptyData);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
+
+  useEffect(() => {
+    const unsubscribe = syncManager.onOnlineStatusChange(setIsOnline);
+    return unsubscribe;
+  }, []);
+
+  const loadReportData = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      if (navigator.onLine) {
+        try {
+          setData(await loadOnlineReportData(filters));
+        } catch (serverError) {
+          console.warn('Server load failed, falling back to offline data:', serverError);
+          setData(await loadOfflineReportData(filters));
+        }
+      } else {
+        setData(await loadOfflineReportData(filters));
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load report data');
+    } finally {
+      setLoading(false);
+    }
+  }, [filters]);
+
+  useEffect(() => {
+    loadReportData();
+  }, [loadReportData, isOnline]);
+
+  return {
+    data,
+    loading,
+    error,
+    isOnline,
+    refreshData: loadReportData
+  };
+}
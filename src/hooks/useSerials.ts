@@ -0,0 +1,250 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Product, ProductVariant } from '../types/inventory';
+import { ProductSerial, SerialHistoryEntry, SerialLookupResult } from '../types/serials';
+import { Customer, ServiceTicket } from '../types/tickets';
+import { supabase } from '../lib/supabase';
+import { syncManager } from '../lib/syncManager';
+import { offlineDB } from '../lib/offlineDB';
+import { findDuplicateSerials, findKnownSerials, getInStockSerials, normalizeSerial } from '../lib/serials';
+
+interface SerialItemRow {
+  unit_price: number;
+  created_at: string;
+  transaction: Pick<SerialHistoryEntry, 'transaction_number' | 'transaction_type' | 'created_at'> | null;
+}
+
+export interface SaleSerialMatch {
+  serial: ProductSerial;
+  product: Product;
+  variant?: ProductVariant;
+}
+
+export function useSerials() {
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
+
+  useEffect(() => {
+    const unsubscribe = syncManager.onOnlineStatusChange(setIsOnline);
+    return unsubscribe;
+  }, []);
+
+  const findSerial = useCallback(async (serialNumber: string): Promise<ProductSerial | undefined> => {
+    const serial = normalizeSerial(serialNumber);
+    if (!serial) return undefined;
+
+    if (isOnline) {
+      try {
+        const { data, error } = await supabase
+          .from('product_serials')
+          .select('*')
+          .eq('serial_number', serial)
+          .maybeSingle();
+
+        if (error) throw error;
+        return data || undefined;
+      } catch (error) {
+        console.warn('Online serial lookup failed, using offline data:', error);
+      }
+    }
+
+    return (await syncManager.getOfflineSerials()).find(s => s.serial_number === serial);
+  }, [isOnline]);
+
+  const getProductSerials = useCallback(async (productId: string): Promise<ProductSerial[]> => {
+    if (isOnline) {
+      try {
+        const { data, error } = await supabase
+          .from('product_serials')
+          .select('*')
+          .eq('product_id', productId)
+          .order('received_at', { ascending: false });
+
+        if (error) throw error;
+        return data || [];
+      } catch (error) {
+        console.warn('Online serial load failed, using offline data:', error);
+      }
+    }
+
+    return (await syncManager.getOfflineSerials()).filter(s => s.product_id === productId);
+  }, [isOnline]);
+
+  // The unit must be on the shelf and, when the product was picked first, belong to it.
+  // A serial missing from the offline register is let through: it may have been received
+  // on another device since the last sync, and the server records it when the sale syncs.
+  const checkSerialForSale = useCallback(async (
+    serialNumber: string,
+    product: Product,
+    variant?: ProductVariant
+  ): Promise<string> => {
+    const serial = normalizeSerial(serialNumber);
+    if (!serial) throw new Error('Scan the serial number or IMEI');
+
+    const record = await findSerial(serial);
+    if (!record) {
+      if (isOnline) throw new Error(`Serial ${serial} is not registered`);
+      return serial;
+    }
+    if (record.product_id !== product.id || (variant && record.variant_id && record.variant_id !== variant.id)) {
+      throw new Error(`Serial ${serial} belongs to a different product`);
+    }
+    if (record.status !== 'in_stock') {
+      throw new Error(`Serial ${serial} is not in stock`);
+    }
+    return serial;
+  }, [findSerial, isOnline]);
+
+  // Scanning a serial on its own adds that exact unit to the sale
+  const findUnitForSale = useCallback(async (serialNumber: string): Promise<SaleSerialMatch | null> => {
+    const serial = await findSerial(serialNumber);
+    if (!serial || serial.status !== 'in_stock') return null;
+
+    let product: Product | undefined;
+    if (isOnline) {
+      const { data } = await supabase
+        .from('products')
+        .select(`
+          *,
+          category:categories!products_category_id_fkey(*),
+          variants:product_variants(*),
+          location_stock(*)
+        `)
+        .eq('id', serial.product_id)
+        .maybeSingle();
+      product = data || undefined;
+    }
+    if (!product) {
+      product = (await offlineDB.getProducts()).find(p => p.id === serial.product_id);
+    }
+    if (!product) return null;
+
+    return {
+      serial,
+      product,
+      variant: serial.variant_id ? product.variants?.find(v => v.id === serial.variant_id) : undefined
+    };
+  }, [findSerial, isOnline]);
+
+  // Register serials for units already on the shelf, e.g. stock counted before tracking was turned on
+  const registerSerials = useCallback(async (
+    product: Product,
+    serialNumbers: string[],
+    variantId?: string
+  ): Promise<ProductSerial[]> => {
+    try {
+      const numbers = serialNumbers.map(normalizeSerial).filter(Boolean);
+      if (numbers.length === 0) throw new Error('Enter at least one serial number');
+
+      const duplicates = findDuplicateSerials(numbers);
+      if (duplicates.length > 0) throw new Error(`Serial number(s) entered twice: ${duplicates.join(', ')}`);
+
+      const cached = await syncManager.getOfflineSerials();
+      const existing = isOnline ? await getProductSerials(product.id) : cached;
+      const known = findKnownSerials(numbers, [...cached, ...existing]);
+      if (known.length > 0) throw new Error(`Serial number(s) already on record: ${known.join(', ')}`);
+
+      const variant = variantId ? product.variants?.find(v => v.id === variantId) : undefined;
+      const onHand = variant ? variant.quantity_in_stock : product.quantity_in_stock;
+      const untracked = onHand - getInStockSerials(existing, product.id, variantId).length;
+      if (numbers.length > untracked) {
+        throw new Error(`Only ${Math.max(untracked, 0)} unit(s) on hand are without a serial number`);
+      }
+
+      const now = new Date().toISOString();
+      const serials: ProductSerial[] = numbers.map(serial_number => ({
+        serial_number,
+        product_id: product.id,
+        variant_id: variantId || null,
+        status: 'in_stock',
+        supplier_id: product.supplier_id,
+        unit_cost: product.cost_price,
+        received_at: now
+      }));
+
+      if (isOnline) {
+        await syncManager.registerSerials(serials);
+      } else {
+        await syncManager.queueAction({
+          type: 'REGISTER_SERIALS',
+          data: serials
+        });
+      }
+      await syncManager.saveOfflineSerials([...cached, ...serials]);
+      return serials;
+    } catch (err) {
+      throw new Error(err instanceof Error ? err.message : 'Failed to register serial numbers');
+    }
+  }, [getProductSerials, isOnline]);
+
+  // Full trace of one unit: where it came from, who bought it, its warranty and any repairs
+  const lookupSerial = useCallback(async (serialNumber: string): Promise<SerialLookupResult | null> => {
+    try {
+      const serial = normalizeSerial(serialNumber);
+      if (!serial) return null;
+      if (!isOnline) throw new Error('Serial lookup needs a connection');
+
+      const { data: record, error } = await supabase
+        .from('product_serials')
+        .select(`
+          *,
+          product:products(name, product_code),
+          variant:product_variants(name, value),
+          customer:customers(*)
+        `)
+        .eq('serial_number', serial)
+        .maybeSingle();
+
+      if (error) throw error;
+
+      const [{ data: items, error: itemsError }, { data: tickets, error: ticketsError }] = await Promise.all([
+        supabase
+          .from('transaction_items')
+          .select('unit_price, created_at, transaction:transactions(transaction_number, transaction_type, created_at)')
+          .eq('serial_number', serial)
+          .order('created_at', { ascending: false }),
+        // Ticket serials are typed by hand, so match them case-insensitively
+        supabase
+          .from('service_tickets')
+          .select('*, customer:customers(*)')
+          .ilike('device_info->>serialNumber', serial)
+          .order('created_at', { ascending: false })
+      ]);
+
+      if (itemsError) throw itemsError;
+      if (ticketsError) throw ticketsError;
+      if (!record && (tickets || []).length === 0) return null;
+
+      const history: SerialHistoryEntry[] = ((items || []) as unknown as SerialItemRow[]).map(item => ({
+        transaction_number: item.transaction?.transaction_number || '',
+        transaction_type: item.transaction?.transaction_type || 'sale',
+        created_at: item.transaction?.created_at || item.created_at,
+        unit_price: Number(item.unit_price)
+      }));
+
+      const { product, variant, customer, ...serialRow } = record || {};
+      const ticketCustomer: Customer | undefined = (tickets as ServiceTicket[] | null)?.[0]?.customer;
+
+      return {
+        serial_number: serial,
+        serial: record ? serialRow as ProductSerial : undefined,
+        product_name: product?.name || '',
+        product_code: product?.product_code || '',
+        variant_name: variant ? `${variant.name}: ${variant.value}` : undefined,
+        customer: customer || ticketCustomer,
+        history,
+        tickets: tickets || []
+      };
+    } catch (err) {
+      throw new Error(err instanceof Error ? err.message : 'Failed to look up serial number');
+    }
+  }, [isOnline]);
+
+  return {
+    isOnline,
+    findSerial,
+    getProductSerials,
+    checkSerialForSale,
+    findUnitForSale,
+    registerSerials,
+    lookupSerial
+  };
+}
@@ -0,0 +1,31 @@
+import { useState, useEffect } from 'react';
+import { AppSettings } from '../types/settings';
+import { settingsStore } from '../lib/settingsStore';
+
+export function useSettings() {
+  const [settings, setSettings] = useState<AppSettings>(settingsStore.get());
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const unsubscribe = settingsStore.subscribe(setSettings);
+    settingsStore.load().finally(() => {
+      setSettings(settingsStore.get());
+      setLoading(false);
+    });
+    return unsubscribe;
+  }, []);
+
+  const updateSettings = async (changes: Partial<Omit<AppSettings, 'updated_at'>>) => {
+    try {
+      return await settingsStore.update(changes);
+    } catch (err) {
+      throw new Error(err instanceof Error ? err.message : 'Failed to save settings');
+    }
+  };
+
+  return {
+    settings,
+    loading,
+    updateSettings
+  };
+}
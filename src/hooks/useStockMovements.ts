@@ -0,0 +1,116 @@
+import { useState, useEffect } from 'react';
+import { StockMovement, StockMovementInput } from '../types/stockMovements';
+import { Product } from '../types/inventory';
+import { supabase } from '../lib/supabase';
+import { syncManager } from '../lib/syncManager';
+import { offlineDB } from '../lib/offlineDB';
+import { applyMovementsToProducts, getLocationQuantity } from '../lib/locations';
+
+const cacheKey = (productId: string) => `stock_movements_${productId}`;
+
+const readOfflineMovements = async (productId: string) =>
+  (await offlineDB.getSetting(cacheKey(productId))) as unknown as StockMovement[] || [];
+
+const saveOfflineMovements = (productId: string, movements: StockMovement[]) =>
+  offlineDB.saveSetting(cacheKey(productId), movements as unknown as Record<string, unknown>);
+
+export function useStockMovements(productId: string) {
+  const [movements, setMovements] = useState<StockMovement[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
+
+  useEffect(() => {
+    loadMovements();
+
+    const unsubscribe = syncManager.onOnlineStatusChange(setIsOnline);
+    return unsubscribe;
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [productId]);
+
+  const loadMovements = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      if (navigator.onLine) {
+        try {
+          const { data, error } = await supabase
+            .from('stock_movements')
+            .select('*')
+            .eq('product_id', productId)
+            .order('created_at', { ascending: false });
+
+          if (error) throw error;
+
+          setMovements(data || []);
+
+          if (data) {
+            await saveOfflineMovements(productId, data);
+          }
+        } catch (serverError) {
+          console.warn('Server load failed, falling back to offline data:', serverError);
+          setMovements(await readOfflineMovements(productId));
+        }
+      } else {
+        setMovements(await readOfflineMovements(productId));
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load stock movements');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Record a manual movement; onHand is the quantity at the movement's location. Offline, the
+  // movement is queued and the cached catalogue is updated so the new stock shows straight away.
+  const recordMovement = async (input: StockMovementInput, onHand: number) => {
+    try {
+      if (input.quantity === 0) throw new Error('This movement does not change stock');
+      if (onHand + input.quantity < 0) throw new Error('Not enough stock on hand for this movement');
+
+      let movement: StockMovement;
+
+      if (isOnline) {
+        const [recorded] = await syncManager.recordStockMovements([input]);
+        movement = recorded;
+      } else {
+        await syncManager.queueAction({
+          type: 'RECORD_STOCK_MOVEMENT',
+          data: input
+        });
+
+        const cachedProducts: Product[] = await offlineDB.getProducts();
+        const cachedProduct = cachedProducts.find(product => product.id === input.product_id);
+        const totalBefore = cachedProduct ? getLocationQuantity(cachedProduct, null, input.variant_id) : onHand;
+
+        movement = {
+          ...input,
+          id: `temp_${Date.now()}`,
+          quantity_after: totalBefore + input.quantity,
+          created_at: new Date().toISOString(),
+          pending: true
+        };
+
+        await offlineDB.saveProducts(applyMovementsToProducts(cachedProducts, [input]));
+      }
+
+      const updated = [movement, ...movements];
+      setMovements(updated);
+      await saveOfflineMovements(productId, updated);
+
+      return movement;
+    } catch (err) {
+      throw new Error(err instanceof Error ? err.message : 'Failed to record stock movement');
+    }
+  };
+
+  return {
+    movements,
+    loading,
+    error,
+    isOnline,
+    recordMovement,
+    refreshMovements: loadMovements
+  };
+}
@@ -0,0 +1,205 @@
+import { useState, useEffect } from 'react';
+import { StockTransfer, StockTransferFormData } from '../types/locations';
+import { StockMovementInput } from '../types/stockMovements';
+import { Product } from '../types/inventory';
+import { supabase } from '../lib/supabase';
+import { syncManager } from '../lib/syncManager';
+import { offlineDB } from '../lib/offlineDB';
+import {
+  applyMovementsToProducts,
+  buildTransferReceiveMovements,
+  buildTransferSendMovements,
+  createStockTransfer,
+  findTransferShortages
+} from '../lib/locations';
+
+const readOfflineTransfers = async () =>
+  (await offlineDB.getSetting('stock_transfers')) as unknown as StockTransfer[] || [];
+
+const byNewest = (a: StockTransfer, b: StockTransfer) => b.created_at.localeCompare(a.created_at);
+
+// Transfers can change on the device while offline, so the most recently updated copy wins
+const mergeTransfers = (server: StockTransfer[], local: StockTransfer[]) => {
+  const merged = new Map(server.map(transfer => [transfer.transfer_number, transfer]));
+  local.forEach(transfer => {
+    const existing = merged.get(transfer.transfer_number);
+    if (!existing || transfer.updated_at > existing.updated_at) {
+      merged.set(transfer.transfer_number, { ...transfer, id: transfer.id || existing?.id });
+    }
+  });
+  return Array.from(merged.values()).sort(byNewest);
+};
+
+export function useStockTransfers() {
+  const [transfers, setTransfers] = useState<StockTransfer[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
+
+  useEffect(() => {
+    loadTransfers();
+
+    const unsubscribe = syncManager.onOnlineStatusChange(setIsOnline);
+    return unsubscribe;
+  }, []);
+
+  const loadTransfers = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const local = await readOfflineTransfers();
+
+      if (navigator.onLine) {
+        try {
+          const { data, error } = await supabase
+            .from('stock_transfers')
+            .select('*')
+            .order('created_at', { ascending: false });
+
+          if (error) throw error;
+
+          const merged = mergeTransfers(data || [], local);
+          setTransfers(merged);
+          await offlineDB.saveSetting('stock_transfers', merged as unknown as Record<string, unknown>);
+        } catch (serverError) {
+          console.warn('Server load failed, falling back to offline data:', serverError);
+          setTransfers([...local].sort(byNewest));
+        }
+      } else {
+        setTransfers([...local].sort(byNewest));
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load stock transfers');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const persistTransfer = async (transfer: StockTransfer) => {
+    let saved = transfer;
+
+    if (isOnline) {
+      try {
+        const { id, ...transferData } = transfer;
+        const { data, error } = await supabase
+          .from('stock_transfers')
+          .upsert([transferData], { onConflict: 'transfer_number' })
+          .select()
+          .single();
+
+        if (error) throw error;
+        saved = { ...transfer, id: data?.id || id };
+      } catch (serverError) {
+        console.warn('Online transfer save failed, queuing for sync:', serverError);
+        await syncManager.queueAction({ type: 'SAVE_STOCK_TRANSFER', data: transfer });
+      }
+    } else {
+      await syncManager.queueAction({ type: 'SAVE_STOCK_TRANSFER', data: transfer });
+    }
+
+    setTransfers(prev => [saved, ...prev.filter(t => t.transfer_number !== saved.transfer_number)].sort(byNewest));
+
+    const cached = await readOfflineTransfers();
+    const updated = [saved, ...cached.filter(t => t.transfer_number !== saved.transfer_number)].sort(byNewest);
+    await offlineDB.saveSetting('stock_transfers', updated as unknown as Record<string, unknown>);
+
+    return saved;
+  };
+
+  // Offline, movements are queued and the cached catalogue is updated so the POS
+  // sees the new per-location stock straight away
+  const applyMovements = async (movements: StockMovementInput[]) => {
+    if (isOnline) {
+      await syncManager.recordStockMovements(movements);
+      return;
+    }
+
+    for (const movement of movements) {
+      await syncManager.queueAction({ type: 'RECORD_STOCK_MOVEMENT', data: movement });
+    }
+
+    const cachedProducts = await offlineDB.getProducts();
+    if (cachedProducts.length > 0) {
+      await offlineDB.saveProducts(applyMovementsToProducts(cachedProducts, movements));
+    }
+  };
+
+  const findTransfer = (transferNumber: string) => {
+    const transfer = transfers.find(t => t.transfer_number === transferNumber);
+    if (!transfer) throw new Error('Transfer not found');
+    return transfer;
+  };
+
+  const createTransfer = async (formData: StockTransferFormData) => {
+    try {
+      if (!formData.from_location_id || !formData.to_location_id) throw new Error('Choose where the stock moves from and to');
+      if (formData.from_location_id === formData.to_location_id) throw new Error('A transfer needs two different locations');
+
+      const transfer = createStockTransfer(formData);
+      if (transfer.lines.length === 0) throw new Error('Add at least one product to transfer');
+
+      return await persistTransfer(transfer);
+    } catch (err) {
+      throw new Error(err instanceof Error ? err.message : 'Failed to create transfer');
+    }
+  };
+
+  // Take the goods off the source location and mark them in transit
+  const sendTransfer = async (transferNumber: string, products: Product[]) => {
+    try {
+      const transfer = findTransfer(transferNumber);
+      if (transfer.status !== 'draft') throw new Error('Only draft transfers can be sent');
+
+      const shortages = findTransferShortages(transfer, products);
+      if (shortages.length > 0) {
+        const { line, available } = shortages[0];
+        throw new Error(`Only ${available} of ${line.product_name} available at the source location`);
+      }
+
+      await applyMovements(buildTransferSendMovements(transfer));
+
+      const now = new Date().toISOString();
+      return await persistTransfer({ ...transfer, status: 'in_transit', sent_at: now, updated_at: now });
+    } catch (err) {
+      throw new Error(err instanceof Error ? err.message : 'Failed to send transfer');
+    }
+  };
+
+  const receiveTransfer = async (transferNumber: string) => {
+    try {
+      const transfer = findTransfer(transferNumber);
+      if (transfer.status !== 'in_transit') throw new Error('Only transfers in transit can be received');
+
+      await applyMovements(buildTransferReceiveMovements(transfer));
+
+      const now = new Date().toISOString();
+      return await persistTransfer({ ...transfer, status: 'received', received_at: now, updated_at: now });
+    } catch (err) {
+      throw new Error(err instanceof Error ? err.message : 'Failed to receive transfer');
+    }
+  };
+
+  // Nothing has moved yet for a draft, so cancelling needs no stock changes
+  const cancelTransfer = async (transferNumber: string) => {
+    try {
+      const transfer = findTransfer(transferNumber);
+      if (transfer.status !== 'draft') throw new Error('Only draft transfers can be cancelled');
+      return await persistTransfer({ ...transfer, status: 'cancelled', updated_at: new Date().toISOString() });
+    } catch (err) {
+      throw new Error(err instanceof Error ? err.message : 'Failed to cancel transfer');
+    }
+  };
+
+  return {
+    transfers,
+    loading,
+    error,
+    isOnline,
+    createTransfer,
+    sendTransfer,
+    receiveTransfer,
+    cancelTransfer,
+    refreshTransfers: loadTransfers
+  };
+}
@@ -0,0 +1,189 @@
+import { useState, useEffect } from 'react';
+import { StocktakeFormData, StocktakeSession } from '../types/stocktake';
+import { Category, Product } from '../types/inventory';
+import { Location } from '../types/locations';
+import { supabase } from '../lib/supabase';
+import { syncManager } from '../lib/syncManager';
+import { offlineDB } from '../lib/offlineDB';
+import { buildStocktakeMovements, createStocktakeSession } from '../lib/stocktake';
+import { applyMovementsToProducts } from '../lib/locations';
+
+const readOfflineStocktakes = async () =>
+  (await offlineDB.getSetting('stocktakes')) as unknown as StocktakeSession[] || [];
+
+const byNewest = (a: StocktakeSession, b: StocktakeSession) => b.created_at.localeCompare(a.created_at);
+
+// Counts are kept on the device first, so the local copy wins when it was changed more recently
+const mergeStocktakes = (server: StocktakeSession[], local: StocktakeSession[]) => {
+  const merged = new Map(server.map(session => [session.session_number, session]));
+  local.forEach(session => {
+    const existing = merged.get(session.session_number);
+    if (!existing || session.updated_at > existing.updated_at) {
+      merged.set(session.session_number, { ...session, id: session.id || existing?.id });
+    }
+  });
+  return Array.from(merged.values()).sort(byNewest);
+};
+
+export function useStocktakes() {
+  const [stocktakes, setStocktakes] = useState<StocktakeSession[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
+
+  useEffect(() => {
+    loadStocktakes();
+
+    const unsubscribe = syncManager.onOnlineStatusChange(setIsOnline);
+    return unsubscribe;
+  }, []);
+
+  const loadStocktakes = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const local = await readOfflineStocktakes();
+
+      if (navigator.onLine) {
+        try {
+          const { data, error } = await supabase
+            .from('stocktakes')
+            .select('*')
+            .order('created_at', { ascending: false });
+
+          if (error) throw error;
+
+          const merged = mergeStocktakes(data || [], local);
+          setStocktakes(merged);
+          await offlineDB.saveSetting('stocktakes', merged as unknown as Record<string, unknown>);
+        } catch (serverError) {
+          console.warn('Server load failed, falling back to offline data:', serverError);
+          setStocktakes([...local].sort(byNewest));
+        }
+      } else {
+        setStocktakes([...local].sort(byNewest));
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load stocktakes');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Every scan lands here, so it only touches the device
+  const saveCounts = async (session: StocktakeSession) => {
+    setStocktakes(prev => [session, ...prev.filter(s => s.session_number !== session.session_number)].sort(byNewest));
+
+    const cached = await readOfflineStocktakes();
+    const updated = [session, ...cached.filter(s => s.session_number !== session.session_number)].sort(byNewest);
+    await offlineDB.saveSetting('stocktakes', updated as unknown as Record<string, unknown>);
+    return session;
+  };
+
+  const persistStocktake = async (session: StocktakeSession) => {
+    let saved = session;
+
+    if (isOnline) {
+      try {
+        const { id, ...sessionData } = session;
+        const { data, error } = await supabase
+          .from('stocktakes')
+          .upsert([sessionData], { onConflict: 'session_number' })
+          .select()
+          .single();
+
+        if (error) throw error;
+        saved = { ...session, id: data?.id || id };
+      } catch (serverError) {
+        console.warn('Online stocktake save failed, queuing for sync:', serverError);
+        await syncManager.queueAction({ type: 'SAVE_STOCKTAKE', data: session });
+      }
+    } else {
+      await syncManager.queueAction({ type: 'SAVE_STOCKTAKE', data: session });
+    }
+
+    return saveCounts(saved);
+  };
+
+  const findStocktake = (sessionNumber: string) => {
+    const session = stocktakes.find(s => s.session_number === sessionNumber);
+    if (!session) throw new Error('Stocktake not found');
+    return session;
+  };
+
+  const createStocktake = async (
+    formData: StocktakeFormData,
+    products: Product[],
+    categories: Category[],
+    locations: Location[]
+  ) => {
+    try {
+      const session = createStocktakeSession(formData, products, categories, locations);
+      if (session.lines.length === 0) throw new Error('There are no products to count in this scope');
+      return await persistStocktake(session);
+    } catch (err) {
+      throw new Error(err instanceof Error ? err.message : 'Failed to create stocktake');
+    }
+  };
+
+  const syncStocktake = async (session: StocktakeSession) => {
+    try {
+      if (session.status !== 'counting') throw new Error('This stocktake is closed');
+      return await persistStocktake({ ...session, updated_at: new Date().toISOString() });
+    } catch (err) {
+      throw new Error(err instanceof Error ? err.message : 'Failed to save stocktake');
+    }
+  };
+
+  // Post approved variances as count corrections. Offline, the movements are queued
+  // and the cached catalogue is corrected so the POS sees the counted stock.
+  const postStocktake = async (session: StocktakeSession) => {
+    try {
+      if (session.status !== 'counting') throw new Error('This stocktake has already been closed');
+
+      const movements = buildStocktakeMovements(session);
+
+      if (isOnline) {
+        await syncManager.recordStockMovements(movements);
+      } else {
+        for (const movement of movements) {
+          await syncManager.queueAction({ type: 'RECORD_STOCK_MOVEMENT', data: movement });
+        }
+
+        const cachedProducts = await offlineDB.getProducts();
+        if (cachedProducts.length > 0) {
+          await offlineDB.saveProducts(applyMovementsToProducts(cachedProducts, movements));
+        }
+      }
+
+      const now = new Date().toISOString();
+      return await persistStocktake({ ...session, status: 'posted', posted_at: now, updated_at: now });
+    } catch (err) {
+      throw new Error(err instanceof Error ? err.message : 'Failed to post stocktake');
+    }
+  };
+
+  const cancelStocktake = async (sessionNumber: string) => {
+    try {
+      const session = findStocktake(sessionNumber);
+      if (session.status !== 'counting') throw new Error('Only open stocktakes can be cancelled');
+      return await persistStocktake({ ...session, status: 'cancelled', updated_at: new Date().toISOString() });
+    } catch (err) {
+      throw new Error(err instanceof Error ? err.message : 'Failed to cancel stocktake');
+    }
+  };
+
+  return {
+    stocktakes,
+    loading,
+    error,
+    isOnline,
+    createStocktake,
+    saveCounts,
+    syncStocktake,
+    postStocktake,
+    cancelStocktake,
+    refreshStocktakes: loadStocktakes
+  };
+}
@@ -0,0 +1,214 @@
+import { useState, useEffect } from 'react';
+import { TaxClass, TaxClassFormData } from '../types/tax';
+import { Category } from '../types/inventory';
+import { supabase } from '../lib/supabase';
+import { syncManager } from '../lib/syncManager';
+import { offlineDB } from '../lib/offlineDB';
+
+const readOfflineTaxClasses = async () =>
+  (await offlineDB.getSetting('tax_classes')) as unknown as TaxClass[] || [];
+
+const setCategoryTaxClass = (categories: Category[], categoryId: string, taxClassId: string | null): Category[] =>
+  categories.map(category => ({
+    ...category,
+    tax_class_id: category.id === categoryId ? taxClassId : category.tax_class_id,
+    children: category.children ? setCategoryTaxClass(category.children, categoryId, taxClassId) : undefined
+  }));
+
+export function useTaxClasses() {
+  const [taxClasses, setTaxClasses] = useState<TaxClass[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
+
+  useEffect(() => {
+    loadTaxClasses();
+
+    const unsubscribe = syncManager.onOnlineStatusChange(setIsOnline);
+    return unsubscribe;
+  }, []);
+
+  const loadTaxClasses = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      if (navigator.onLine) {
+        try {
+          const { data, error } = await supabase
+            .from('tax_classes')
+            .select('*')
+            .order('rate', { ascending: false });
+
+          if (error) throw error;
+
+          setTaxClasses(data || []);
+
+          if (data) {
+            await offlineDB.saveSetting('tax_classes', data as unknown as Record<string, unknown>);
+          }
+        } catch (serverError) {
+          console.warn('Server load failed, falling back to offline data:', serverError);
+          setTaxClasses(await readOfflineTaxClasses());
+        }
+      } else {
+        setTaxClasses(await readOfflineTaxClasses());
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load tax classes');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const saveTaxClassesOffline = async (updated: TaxClass[]) => {
+    setTaxClasses(updated);
+    await offlineDB.saveSetting('tax_classes', updated as unknown as Record<string, unknown>);
+  };
+
+  const withSingleDefault = (list: TaxClass[], defaultId: string) =>
+    list.map(taxClass => ({ ...taxClass, is_default: taxClass.id === defaultId }));
+
+  const createTaxClass = async (taxClassData: TaxClassFormData) => {
+    try {
+      if (isOnline) {
+        if (taxClassData.is_default) await syncManager.clearDefaultTaxClass();
+
+        const { data, error } = await supabase
+          .from('tax_classes')
+          .insert([taxClassData])
+          .select()
+          .single();
+
+        if (error) throw error;
+
+        await loadTaxClasses();
+        return data;
+      } else {
+        await syncManager.queueAction({
+          type: 'CREATE_TAX_CLASS',
+          data: taxClassData
+        });
+
+        const tempTaxClass: TaxClass = {
+          ...taxClassData,
+          id: `temp_${Date.now()}`,
+          created_at: new Date().toISOString(),
+          updated_at: new Date().toISOString()
+        };
+
+        const updated = [...taxClasses, tempTaxClass];
+        await saveTaxClassesOffline(taxClassData.is_default ? withSingleDefault(updated, tempTaxClass.id) : updated);
+        return tempTaxClass;
+      }
+    } catch (err) {
+      throw new Error(err instanceof Error ? err.message : 'Failed to create tax class');
+    }
+  };
+
+  const updateTaxClass = async (id: string, taxClassData: TaxClassFormData) => {
+    try {
+      if (isOnline) {
+        if (taxClassData.is_default) await syncManager.clearDefaultTaxClass();
+
+        const { data, error } = await supabase
+          .from('tax_classes')
+          .update(taxClassData)
+          .eq('id', id)
+          .select()
+          .single();
+
+        if (error) throw error;
+
+        await loadTaxClasses();
+        return data;
+      } else {
+        await syncManager.queueAction({
+          type: 'UPDATE_TAX_CLASS',
+          data: { ...taxClassData, id }
+        });
+
+        const updated = taxClasses.map(taxClass =>
+          taxClass.id === id ? { ...taxClass, ...taxClassData, updated_at: new Date().toISOString() } : taxClass
+        );
+        await saveTaxClassesOffline(taxClassData.is_default ? withSingleDefault(updated, id) : updated);
+        return updated.find(taxClass => taxClass.id === id);
+      }
+    } catch (err) {
+      throw new Error(err instanceof Error ? err.message : 'Failed to update tax class');
+    }
+  };
+
+  const deleteTaxClass = async (id: string) => {
+    try {
+      if (isOnline) {
+        const { error } = await supabase
+          .from('tax_classes')
+          .delete()
+          .eq('id', id);
+
+        if (error) throw error;
+
+        await loadTaxClasses();
+      } else {
+        await syncManager.queueAction({
+          type: 'DELETE_TAX_CLASS',
+          data: { id }
+        });
+
+        await saveTaxClassesOffline(taxClasses.filter(taxClass => taxClass.id !== id));
+      }
+    } catch (err) {
+      throw new Error(err instanceof Error ? err.message : 'Failed to delete tax class');
+    }
+  };
+
+  // Assign (or clear) a category's tax class. The cached catalog is patched as well so
+  // the POS picks up the new class offline through each product's embedded category.
+  const assignCategoryTaxClass = async (categoryId: string, taxClassId: string | null) => {
+    try {
+      if (isOnline) {
+        const { error } = await supabase
+          .from('categories')
+          .update({ tax_class_id: taxClassId })
+          .eq('id', categoryId);
+
+        if (error) throw error;
+      } else {
+        await syncManager.queueAction({
+          type: 'UPDATE_CATEGORY_TAX_CLASS',
+          data: { category_id: categoryId, tax_class_id: taxClassId }
+        });
+      }
+
+      const [categories, products] = await Promise.all([
+        offlineDB.getCategories(),
+        offlineDB.getProducts()
+      ]);
+      await offlineDB.saveCategories(setCategoryTaxClass(categories, categoryId, taxClassId));
+      await offlineDB.saveProducts(products.map(product => ({
+        ...product,
+        category: product.category?.id === categoryId
+          ? { ...product.category, tax_class_id: taxClassId }
+          : product.category,
+        subcategory: product.subcategory?.id === categoryId
+          ? { ...product.subcategory, tax_class_id: taxClassId }
+          : product.subcategory
+      })));
+    } catch (err) {
+      throw new Error(err instanceof Error ? err.message : 'Failed to update category tax class');
+    }
+  };
+
+  return {
+    taxClasses,
+    loading,
+    error,
+    isOnline,
+    createTaxClass,
+    updateTaxClass,
+    deleteTaxClass,
+    assignCategoryTaxClass,
+    refreshData: loadTaxClasses
+  };
+}
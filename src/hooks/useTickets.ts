@@ -1,8 +1,18 @@
 import { useState, useEffect } from 'react';
-import { ServiceTicket, Customer, Technician, TicketFilters, TicketFormData, CustomerFormData, TicketStatusHistory } from '../types/tickets';
+import { ServiceTicket, Customer, Technician, TicketFilters, TicketFormData, CustomerFormData, TicketStatusHistory, TicketPart } from '../types/tickets';
 import { supabase } from '../lib/supabase';
 import { syncManager } from '../lib/syncManager';
 import { offlineDB } from '../lib/offlineDB';
+import { applyMovementsToProducts } from '../lib/locations';
+import {
+  allocateTicketParts,
+  buildTicketPartMovements,
+  completesTicket,
+  consumeTicketParts,
+  getTicketFinalPrice,
+  hasPartsAwaitingStock,
+  validateTicketParts
+} from '../lib/ticketParts';
 
 export function useTickets() {
   const [tickets, setTickets] = useState<ServiceTicket[]>([]);
@@ -182,8 +192,80 @@ export function useTickets() {
     }
   };
 
-  const updateTicket = async (id: string, updates: Partial<ServiceTicket>) => {
+  // Completing a ticket takes its reserved parts off the shelf as repair movements. complete_ticket
+  // does that and the status change together, so a retry can't take the parts twice
+  const completeTicket = async (
+    ticket: ServiceTicket,
+    status: ServiceTicket['status'],
+    changes: Partial<ServiceTicket>
+  ): Promise<ServiceTicket> => {
+    if (hasPartsAwaitingStock(ticket.parts)) {
+      throw new Error('Parts are still awaiting stock');
+    }
+
+    if (isOnline) {
+      if (Object.keys(changes).length > 0) {
+        const { error } = await supabase
+          .from('service_tickets')
+          .update(changes)
+          .eq('id', ticket.id);
+
+        if (error) throw error;
+      }
+
+      const { data, error } = await supabase.rpc('complete_ticket', {
+        p_ticket_id: ticket.id,
+        p_status: status
+      });
+
+      if (error) throw error;
+
+      await loadTickets();
+      return { ...ticket, ...changes, ...data };
+    } else {
+      if (Object.keys(changes).length > 0) {
+        await syncManager.queueAction({
+          type: 'UPDATE_TICKET',
+          id: ticket.id,
+          data: changes
+        });
+      }
+      await syncManager.queueAction({
+        type: 'COMPLETE_TICKET',
+        data: { ticket_id: ticket.id, status }
+      });
+
+      const movements = buildTicketPartMovements(ticket);
+      const cachedProducts = await offlineDB.getProducts();
+      if (cachedProducts.length > 0 && movements.length > 0) {
+        await offlineDB.saveProducts(applyMovementsToProducts(cachedProducts, movements));
+      }
+
+      const updated: ServiceTicket = {
+        ...ticket,
+        ...changes,
+        status,
+        parts: consumeTicketParts(ticket.parts),
+        updated_at: new Date().toISOString()
+      };
+      const updatedTickets = tickets.map(t => (t.id === ticket.id ? updated : t));
+      setTickets(updatedTickets);
+      await offlineDB.saveSetting('service_tickets', updatedTickets as unknown as Record<string, unknown>);
+
+      return updated;
+    }
+  };
+
+  const updateTicket = async (id: string, changes: Partial<ServiceTicket>) => {
     try {
+      const current = tickets.find(t => t.id === id);
+      if (current && changes.status && completesTicket(current, changes.status) && current.parts?.length) {
+        const { status, ...rest } = changes;
+        return await completeTicket(current, status, rest);
+      }
+
+      const updates = changes;
+
       if (isOnline) {
         const { data, error } = await supabase
           .from('service_tickets')
@@ -222,6 +304,52 @@ export function useTickets() {
     }
   };
 
+  // The server decides which parts it can reserve and prices the ticket at parts plus labour
+  const saveTicketParts = async (ticket: ServiceTicket, parts: TicketPart[], laborAmount: number): Promise<ServiceTicket> => {
+    try {
+      const problem = validateTicketParts(parts, laborAmount);
+      if (problem) throw new Error(problem);
+
+      if (isOnline) {
+        const { data, error } = await supabase.rpc('save_ticket_parts', {
+          p_ticket_id: ticket.id,
+          p_parts: parts,
+          p_labor_amount: laborAmount
+        });
+
+        if (error) throw error;
+
+        await loadTickets();
+        return { ...ticket, ...data };
+      } else {
+        await syncManager.queueAction({
+          type: 'SAVE_TICKET_PARTS',
+          data: { ticket_id: ticket.id, parts, labor_amount: laborAmount }
+        });
+
+        const allocated = allocateTicketParts(parts, ticket.parts || [], await syncManager.getOfflineProducts());
+        const awaiting = hasPartsAwaitingStock(allocated);
+        const updated: ServiceTicket = {
+          ...ticket,
+          parts: allocated,
+          labor_amount: laborAmount,
+          final_price: getTicketFinalPrice(allocated, laborAmount),
+          status: awaiting && (ticket.status === 'new' || ticket.status === 'in_progress') ? 'awaiting_parts' : ticket.status,
+          parts_arrived_at: awaiting ? null : ticket.parts_arrived_at,
+          updated_at: new Date().toISOString()
+        };
+
+        const updatedTickets = tickets.map(t => (t.id === ticket.id ? updated : t));
+        setTickets(updatedTickets);
+        await offlineDB.saveSetting('service_tickets', updatedTickets as unknown as Record<string, unknown>);
+
+        return updated;
+      }
+    } catch (err) {
+      throw new Error(err instanceof Error ? err.message : 'Failed to save ticket parts');
+    }
+  };
+
   const createCustomer = async (customerData: CustomerFormData) => {
     try {
       if (isOnline) {
@@ -372,6 +500,7 @@ export function useTickets() {
     isOnline,
     createTicket,
     updateTicket,
+    saveTicketParts,
     createCustomer,
     getTicketStatusHistory,
     filterTickets,
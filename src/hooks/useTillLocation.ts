@@ -0,0 +1,46 @@
+import { useState, useEffect } from 'react';
+import { offlineDB } from '../lib/offlineDB';
+
+// Each till sells from its own location, so this is kept on the device rather than in the
+// shared store settings; empty means the default location
+const TILL_LOCATION_KEY = 'till_location';
+
+let tillLocationId = '';
+let loaded: Promise<void> | null = null;
+const listeners: ((locationId: string) => void)[] = [];
+
+const loadTillLocation = () => {
+  if (!loaded) {
+    loaded = offlineDB.getSetting(TILL_LOCATION_KEY).then(saved => {
+      tillLocationId = (saved?.location_id as string | undefined) || '';
+      listeners.forEach(callback => callback(tillLocationId));
+    });
+  }
+  return loaded;
+};
+
+export function useTillLocation() {
+  const [locationId, setLocationId] = useState(tillLocationId);
+
+  useEffect(() => {
+    listeners.push(setLocationId);
+    loadTillLocation().then(() => setLocationId(tillLocationId));
+    return () => {
+      const index = listeners.indexOf(setLocationId);
+      if (index > -1) {
+        listeners.splice(index, 1);
+      }
+    };
+  }, []);
+
+  const updateTillLocation = async (nextLocationId: string) => {
+    await offlineDB.saveSetting(TILL_LOCATION_KEY, { location_id: nextLocationId });
+    tillLocationId = nextLocationId;
+    listeners.forEach(callback => callback(tillLocationId));
+  };
+
+  return {
+    tillLocationId: locationId,
+    updateTillLocation
+  };
+}
@@ -2,6 +2,7 @@ import i18n from 'i18next';
 import { initReactI18next } from 'react-i18next';
 import en from './locales/en.json';
 import fr from './locales/fr.json';
+import { settingsStore } from '../lib/settingsStore';
 
 const resources = {
   en: {
@@ -27,4 +28,12 @@ i18n
     }
   });
 
+// Use the store-wide default language until this device picks its own
+settingsStore.subscribe(settings => {
+  if (!localStorage.getItem('language') && i18n.language !== settings.language) {
+    i18n.changeLanguage(settings.language);
+  }
+});
+settingsStore.load();
+
 export default i18n;
\ No newline at end of file
@@ -1,14 +1,93 @@
+import { BarcodeSettings, VariableMeasureRule } from '../types/settings';
+import { Product } from '../types/inventory';
+import { MeasuredScan } from '../types/pos';
+import { isMeasured, roundQuantity } from './units';
+
 // Barcode generation utilities
-export function generateBarcode(): string {
-  // Generate a 13-digit EAN barcode
-  const countryCode = '123'; // Example country code
-  const manufacturerCode = Math.floor(Math.random() * 100000).toString().padStart(5, '0');
-  const productCode = Math.floor(Math.random() * 10000).toString().padStart(4, '0');
-  
-  const baseCode = countryCode + manufacturerCode + productCode;
-  const checkDigit = calculateEANCheckDigit(baseCode);
-  
-  return baseCode + checkDigit;
+
+// GS1 keeps 020-029 and 200-299 for numbers that only mean something inside one store
+const RESTRICTED_PREFIX = /^(02|2)/;
+
+export function getBarcodePrefix(settings: BarcodeSettings): string {
+  return settings.scheme === 'gs1' ? settings.company_prefix : settings.in_store_prefix;
+}
+
+export type BarcodeSettingsProblem =
+  | 'invalid_company_prefix'
+  | 'invalid_in_store_prefix'
+  | 'invalid_variable_prefix'
+  | 'prefix_conflict';
+
+// Returns what's wrong with the numbering settings, or null when barcodes can be allocated
+export function validateBarcodeSettings(settings: BarcodeSettings): BarcodeSettingsProblem | null {
+  const rules = settings.variable_measure || [];
+  if (rules.some(rule => !/^2\d$/.test(rule.prefix))) return 'invalid_variable_prefix';
+
+  if (settings.scheme === 'gs1') {
+    return /^\d{6,11}$/.test(settings.company_prefix) && !RESTRICTED_PREFIX.test(settings.company_prefix)
+      ? null
+      : 'invalid_company_prefix';
+  }
+  if (!/^2\d\d$/.test(settings.in_store_prefix)) return 'invalid_in_store_prefix';
+  // Generated numbers would otherwise scan as weighed items
+  return rules.some(rule => settings.in_store_prefix.startsWith(rule.prefix)) ? 'prefix_conflict' : null;
+}
+
+// How many item numbers fit after the prefix, leaving room for the check digit
+export const barcodeCapacity = (prefix: string) => 10 ** (12 - prefix.length) - 1;
+
+// The EAN-13 for the nth item number in a prefix's range
+export function barcodeForSequence(prefix: string, sequence: number): string {
+  if (sequence < 1 || sequence > barcodeCapacity(prefix)) {
+    throw new Error(`Barcode range for prefix ${prefix} is full`);
+  }
+  const base = prefix + String(sequence).padStart(12 - prefix.length, '0');
+  return base + calculateEANCheckDigit(base);
+}
+
+// Item number of a barcode in the prefix's range, or null when it belongs to another range
+export function sequenceFromBarcode(prefix: string, barcode: string): number | null {
+  if (!/^\d{13}$/.test(barcode) || !barcode.startsWith(prefix) || !validateEAN(barcode)) return null;
+  return Number(barcode.slice(prefix.length, 12));
+}
+
+export interface VariableMeasureCode {
+  rule: VariableMeasureRule;
+  plu: string;
+  // Price in currency units or quantity in the product's unit of measure, per rule.kind
+  value: number;
+}
+
+// Reads a scale label; null when the barcode isn't in one of the variable-measure ranges
+export function parseVariableMeasureBarcode(barcode: string, rules: VariableMeasureRule[]): VariableMeasureCode | null {
+  if (!/^\d{13}$/.test(barcode) || !validateEAN(barcode)) return null;
+
+  const rule = rules.find(r => barcode.startsWith(r.prefix));
+  if (!rule) return null;
+
+  return {
+    rule,
+    plu: barcode.slice(2, 7),
+    value: Number(barcode.slice(7, 12)) / 10 ** rule.decimals
+  };
+}
+
+// Price labels on measured products become a quantity at the shelf price; anything else sells as one unit at the label price.
+// Weight labels are charged at the till price, which may be a sale price; the scale prices its labels at the shelf price
+export function measuredScanFor(
+  barcode: string,
+  code: VariableMeasureCode,
+  product: Product,
+  tillPrice = product.selling_price
+): MeasuredScan {
+  if (code.rule.kind === 'measure') {
+    return { barcode, quantity: roundQuantity(code.value), price: tillPrice };
+  }
+  if (!isMeasured(product.unit_of_measure) || product.selling_price <= 0) {
+    return { barcode, quantity: 1, price: code.value };
+  }
+  const quantity = Math.max(roundQuantity(code.value / product.selling_price), 0.001);
+  return { barcode, quantity, price: code.value / quantity };
 }
 
 export function calculateEANCheckDigit(code: string): string {
@@ -19,6 +19,23 @@ export interface ScannerOptions {
   maxRetries?: number;
   retryDelay?: number;
   enableImageEnhancement?: boolean;
+  // Keep the camera running after a scan (e.g. stocktakes); the cooldown still drops duplicate reads
+  continuous?: boolean;
+  cooldownMs?: number;
+}
+
+// Fields read from a GS1-128 / GS1 DataMatrix element string
+export interface GS1Data {
+  gtin?: string;
+  lot?: string;
+  serial?: string;
+  // ISO dates (YYYY-MM-DD)
+  expiry?: string;
+  bestBefore?: string;
+  productionDate?: string;
+  quantity?: number;
+  // Every application identifier found, keyed by AI
+  elements: Record<string, string>;
 }
 
 interface LuminanceSource {
@@ -54,6 +71,7 @@ export class BarcodeScanner {
       enableImageEnhancement: true,
       ...options
     };
+    this.scanCooldown = this.options.cooldownMs ?? this.scanCooldown;
   }
 
   async initialize(): Promise<void> {
@@ -294,7 +312,9 @@ export class BarcodeScanner {
     }
 
     // Stop scanning temporarily to prevent multiple scans
-    this.stopScanning();
+    if (!this.options.continuous) {
+      this.stopScanning();
+    }
 
     // Call the callback
     onScan(result);
@@ -415,5 +435,150 @@ export class BarcodeScanner {
   }
 }
 
+// Group separator (FNC1) ending variable-length GS1 fields
+const GS1_SEPARATOR = '\u001d';
+
+// Symbology identifiers some scanners prefix to GS1 data: GS1-128, DataMatrix, QR and DataBar
+const GS1_SYMBOLOGY_PREFIXES = [']C1', ']d2', ']Q3', ']e0'];
+
+// Application identifiers we understand: fixed length, or variable up to a maximum
+const GS1_AIS: Record<string, { length: number; variable?: boolean }> = {
+  '00': { length: 18 },
+  '01': { length: 14 },
+  '02': { length: 14 },
+  '10': { length: 20, variable: true },
+  '11': { length: 6 },
+  '13': { length: 6 },
+  '15': { length: 6 },
+  '16': { length: 6 },
+  '17': { length: 6 },
+  '20': { length: 2 },
+  '21': { length: 20, variable: true },
+  '22': { length: 20, variable: true },
+  '30': { length: 8, variable: true },
+  '37': { length: 8, variable: true },
+  '240': { length: 30, variable: true },
+  '241': { length: 30, variable: true },
+  '400': { length: 30, variable: true },
+  '410': { length: 13 },
+  '414': { length: 13 },
+  '422': { length: 3 },
+  '7003': { length: 10 }
+};
+
+// Trade measures (310n-369n) carry the decimal position in their fourth digit
+const isMeasureAI = (ai: string) => /^3[1-6]\d\d$/.test(ai);
+
+function matchAI(data: string, position: number): string | null {
+  for (const size of [2, 3, 4]) {
+    const ai = data.slice(position, position + size);
+    if (GS1_AIS[ai] || (size === 4 && isMeasureAI(ai))) return ai;
+  }
+  return null;
+}
+
+function isValidGtin(gtin: string): boolean {
+  if (!/^\d{8,14}$/.test(gtin)) return false;
+  const digits = gtin.split('').map(Number);
+  const check = digits.pop();
+  const sum = digits.reverse().reduce((total, digit, index) => total + digit * (index % 2 === 0 ? 3 : 1), 0);
+  return (10 - (sum % 10)) % 10 === check;
+}
+
+// YYMMDD with the GS1 century window; day 00 means the last day of the month
+function parseGS1Date(value: string): string | undefined {
+  if (!/^\d{6}$/.test(value)) return undefined;
+  const currentYear = new Date().getFullYear();
+  let year = Math.floor(currentYear / 100) * 100 + parseInt(value.slice(0, 2), 10);
+  if (year - currentYear > 50) year -= 100;
+  if (currentYear - year >= 50) year += 100;
+
+  const month = parseInt(value.slice(2, 4), 10);
+  if (month < 1 || month > 12) return undefined;
+  const day = parseInt(value.slice(4, 6), 10) || new Date(Date.UTC(year, month, 0)).getUTCDate();
+
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+// Element strings arrive raw (FNC1 as a group separator) or in the printed "(01)...(17)..." form
+function splitGS1Elements(text: string): Record<string, string> | null {
+  const elements: Record<string, string> = {};
+
+  if (text.startsWith('(')) {
+    const pattern = /\((\d{2,4})\)([^(]*)/g;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(text)) !== null) {
+      elements[match[1]] = match[2].trim();
+    }
+    return Object.keys(elements).length > 0 ? elements : null;
+  }
+
+  let position = 0;
+  while (position < text.length) {
+    if (text[position] === GS1_SEPARATOR) {
+      position++;
+      continue;
+    }
+
+    const ai = matchAI(text, position);
+    if (!ai) break;
+    position += ai.length;
+
+    const spec = GS1_AIS[ai] || { length: 6 };
+    let value: string;
+    if (spec.variable) {
+      const end = text.indexOf(GS1_SEPARATOR, position);
+      value = text.slice(position, end === -1 ? undefined : Math.min(end, position + spec.length));
+    } else {
+      value = text.slice(position, position + spec.length);
+    }
+    position += value.length;
+    elements[ai] = value;
+  }
+
+  return Object.keys(elements).length > 0 ? elements : null;
+}
+
+/**
+ * Parse a GS1-128 or GS1 DataMatrix scan into GTIN, lot, expiry and friends.
+ * Returns null for ordinary barcodes so callers can fall back to a plain lookup.
+ */
+export function parseGS1Barcode(raw: string): GS1Data | null {
+  let text = raw.trim();
+  const prefix = GS1_SYMBOLOGY_PREFIXES.find(p => text.startsWith(p));
+  if (prefix) {
+    text = text.slice(prefix.length);
+  } else if (text.startsWith(GS1_SEPARATOR)) {
+    text = text.slice(1);
+  } else if (!text.startsWith('(') && !(text.startsWith('01') && isValidGtin(text.slice(2, 16)))) {
+    // Without a prefix only a leading, valid GTIN marks the scan as GS1
+    return null;
+  }
+
+  const elements = splitGS1Elements(text);
+  if (!elements) return null;
+
+  const measure = Object.keys(elements).find(ai => ai.startsWith('30') || ai.startsWith('37'));
+  return {
+    gtin: elements['01'] || elements['02'],
+    lot: elements['10'] || undefined,
+    serial: elements['21'] || undefined,
+    expiry: elements['17'] ? parseGS1Date(elements['17']) : undefined,
+    bestBefore: elements['15'] ? parseGS1Date(elements['15']) : undefined,
+    productionDate: elements['11'] ? parseGS1Date(elements['11']) : undefined,
+    quantity: measure ? parseInt(elements[measure], 10) || undefined : undefined,
+    elements
+  };
+}
+
+// A GTIN-14 is stored in the catalogue as the EAN-13, UPC-A or EAN-8 it pads
+export function gtinToBarcodes(gtin: string): string[] {
+  const candidates = [gtin];
+  if (gtin.length === 14 && gtin.startsWith('0')) candidates.push(gtin.slice(1));
+  if (gtin.length === 14 && gtin.startsWith('00')) candidates.push(gtin.slice(2));
+  if (gtin.length === 14 && gtin.startsWith('000000')) candidates.push(gtin.slice(6));
+  return candidates;
+}
+
 // Export singleton instance
 export const barcodeScanner = new BarcodeScanner();
\ No newline at end of file
@@ -0,0 +1,194 @@
+import { BarcodeFormat, EncodeHintType, QRCodeWriter } from '@zxing/library';
+import { BarcodeSymbology } from '../types/labels';
+import { validateEAN, validateUPC } from './barcode';
+import { escapeHtml } from './utils';
+
+// Bar and space widths for Code128 values 0-105, then the stop pattern
+const CODE128_PATTERNS = [
+  '212222', '222122', '222221', '121223', '121322', '131222', '122213', '122312', '132212', '221213',
+  '221312', '231212', '112232', '122132', '122231', '113222', '123122', '123221', '223211', '221132',
+  '221231', '213212', '223112', '312131', '311222', '321122', '321221', '312212', '322112', '322211',
+  '212123', '212321', '232121', '111323', '131123', '131321', '112313', '132113', '132311', '211313',
+  '231113', '231311', '112133', '112331', '132131', '113123', '113321', '133121', '313121', '211331',
+  '231131', '213113', '213311', '213131', '311123', '311321', '331121', '312113', '312311', '332111',
+  '314111', '221411', '431111', '111224', '111422', '121124', '121421', '141122', '141221', '112214',
+  '112412', '122114', '122411', '142112', '142211', '241211', '221114', '413111', '241112', '134111',
+  '111242', '121142', '121241', '114212', '124112', '124211', '411212', '421112', '421211', '212141',
+  '214121', '412121', '111143', '111341', '131141', '114113', '114311', '411113', '411311', '113141',
+  '114131', '311141', '411131', '211412', '211214', '211232', '2331112'
+];
+const CODE128_START_B = 104;
+const CODE128_START_C = 105;
+const CODE128_STOP = 106;
+
+// EAN left-hand odd parity (L) digit patterns; G and R are derived from these
+const EAN_L = ['0001101', '0011001', '0010011', '0111101', '0100011', '0110001', '0101111', '0111011', '0110111', '0001011'];
+// Which left-hand digits use even parity (G), keyed by the first digit
+const EAN_PARITY = ['LLLLLL', 'LLGLGG', 'LLGGLG', 'LLGGGL', 'LGLLGG', 'LGGLLG', 'LGGGLL', 'LGLGLG', 'LGLGGL', 'LGGLGL'];
+
+const EAN_QUIET_LEFT = 11;
+const EAN_QUIET_RIGHT = 7;
+const CODE128_QUIET = 10;
+const QR_QUIET = 2;
+const TEXT_HEIGHT = 10;
+const GUARD_EXTENSION = 5;
+
+const invert = (bits: string) => bits.replace(/[01]/g, bit => (bit === '0' ? '1' : '0'));
+
+// Modules as a string of '1' (bar) and '0' (space), 95 long
+export function encodeEAN13(code: string): string {
+  if (!/^\d{13}$/.test(code) || !validateEAN(code)) {
+    throw new Error(`Invalid EAN-13 barcode: ${code}`);
+  }
+
+  const digits = code.split('').map(Number);
+  const parity = EAN_PARITY[digits[0]];
+  const left = digits.slice(1, 7).map((digit, i) =>
+    parity[i] === 'L' ? EAN_L[digit] : invert(EAN_L[digit]).split('').reverse().join('')
+  );
+  const right = digits.slice(7).map(digit => invert(EAN_L[digit]));
+
+  return `101${left.join('')}01010${right.join('')}101`;
+}
+
+// UPC-A is EAN-13 with a leading zero
+export function encodeUPCA(code: string): string {
+  if (!/^\d{12}$/.test(code) || !validateUPC(code)) {
+    throw new Error(`Invalid UPC-A barcode: ${code}`);
+  }
+  return encodeEAN13(`0${code}`);
+}
+
+// Set C packs digit pairs, so all-digit values of even length print at half the width
+export function encodeCode128(text: string): string {
+  if (text.length === 0) throw new Error('Nothing to encode');
+
+  let values: number[];
+  if (/^(\d\d)+$/.test(text)) {
+    values = [CODE128_START_C, ...(text.match(/\d\d/g) || []).map(Number)];
+  } else {
+    values = [CODE128_START_B, ...text.split('').map(char => {
+      const code = char.charCodeAt(0);
+      if (code < 32 || code > 127) throw new Error(`Code128 cannot encode "${char}"`);
+      return code - 32;
+    })];
+  }
+
+  const checksum = values.reduce((sum, value, i) => sum + value * (i === 0 ? 1 : i), 0) % 103;
+
+  return [...values, checksum, CODE128_STOP]
+    .map(value => CODE128_PATTERNS[value]
+      .split('')
+      .map((width, i) => (i % 2 === 0 ? '1' : '0').repeat(Number(width)))
+      .join(''))
+    .join('');
+}
+
+// Dark modules of a QR code, row by row
+export function encodeQR(text: string): boolean[][] {
+  const hints = new Map<EncodeHintType, unknown>([
+    [EncodeHintType.ERROR_CORRECTION, 'M'],
+    [EncodeHintType.MARGIN, 0]
+  ]);
+  const matrix = new QRCodeWriter().encode(text, BarcodeFormat.QR_CODE, 0, 0, hints);
+
+  return Array.from({ length: matrix.getHeight() }, (_, y) =>
+    Array.from({ length: matrix.getWidth() }, (_, x) => matrix.get(x, y))
+  );
+}
+
+export function resolveSymbology(value: string, preferred: BarcodeSymbology | 'auto'): BarcodeSymbology {
+  if (preferred === 'ean13' && /^\d{13}$/.test(value) && validateEAN(value)) return 'ean13';
+  if (preferred === 'upca' && /^\d{12}$/.test(value) && validateUPC(value)) return 'upca';
+  if (preferred === 'qr') return 'qr';
+  if (preferred === 'auto') {
+    if (/^\d{13}$/.test(value) && validateEAN(value)) return 'ean13';
+    if (/^\d{12}$/.test(value) && validateUPC(value)) return 'upca';
+  }
+  // EAN/UPC requested for a value that isn't one still prints, just as Code128
+  return 'code128';
+}
+
+// One rect per run of bars, each run split where the bar height changes
+const barRects = (modules: string, offset: number, heightAt: (index: number) => number) => {
+  const rects: string[] = [];
+  let start = -1;
+  for (let i = 0; i <= modules.length; i++) {
+    const isBar = modules[i] === '1';
+    const split = start >= 0 && isBar && heightAt(i) !== heightAt(start);
+    if (start >= 0 && (!isBar || split)) {
+      rects.push(`<rect x="${offset + start}" y="0" width="${i - start}" height="${heightAt(start)}"/>`);
+      start = -1;
+    }
+    if (isBar && start < 0) start = i;
+  }
+  return rects.join('');
+};
+
+const textAt = (text: string, x: number, y: number, width?: number) =>
+  `<text x="${x}" y="${y}" text-anchor="middle"${width ? ` textLength="${width}" lengthAdjust="spacing"` : ''}>${escapeHtml(text)}</text>`;
+
+const svg = (width: number, height: number, content: string) =>
+  `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${width} ${height}" width="100%" height="100%" ` +
+  `preserveAspectRatio="xMidYMid meet" shape-rendering="crispEdges">` +
+  `<g fill="#000" font-family="monospace" font-size="${TEXT_HEIGHT - 1}">${content}</g></svg>`;
+
+interface BarcodeSvgOptions {
+  // Height over width of the space the barcode fills, so linear bars grow to use it
+  aspect?: number;
+  show_text?: boolean;
+}
+
+// SVG markup sized in modules; it scales to whatever box it's placed in
+export function renderBarcodeSvg(
+  value: string,
+  symbology: BarcodeSymbology,
+  { aspect = 0.4, show_text = true }: BarcodeSvgOptions = {}
+): string {
+  if (symbology === 'qr') {
+    const matrix = encodeQR(value);
+    const size = matrix.length + QR_QUIET * 2;
+    const path = matrix
+      .flatMap((row, y) => row.map((dark, x) => (dark ? `M${x + QR_QUIET} ${y + QR_QUIET}h1v1h-1z` : '')))
+      .join('');
+    return svg(size, size, `<path d="${path}"/>`);
+  }
+
+  const isEAN = symbology === 'ean13' || symbology === 'upca';
+  const modules = symbology === 'ean13'
+    ? encodeEAN13(value)
+    : symbology === 'upca' ? encodeUPCA(value) : encodeCode128(value);
+  const quietLeft = isEAN ? EAN_QUIET_LEFT : CODE128_QUIET;
+  const width = quietLeft + modules.length + (isEAN ? EAN_QUIET_RIGHT : CODE128_QUIET);
+  const textHeight = show_text ? TEXT_HEIGHT : 0;
+  const barHeight = Math.max(Math.round(width * aspect) - textHeight, 15);
+  const height = barHeight + textHeight;
+
+  if (!isEAN) {
+    const text = show_text ? textAt(value, width / 2, height - 1) : '';
+    return svg(width, height, barRects(modules, quietLeft, () => barHeight) + text);
+  }
+
+  // Guard bars (and UPC-A's first and last digit) drop into the digit row
+  const extended = (i: number) =>
+    i < 3 || (i >= 45 && i < 50) || i >= 92 ||
+    (symbology === 'upca' && ((i >= 3 && i < 10) || (i >= 85 && i < 92)));
+  const heightAt = (i: number) =>
+    show_text && extended(i) ? barHeight + GUARD_EXTENSION : barHeight;
+
+  let text = '';
+  if (show_text) {
+    const y = height - 1;
+    const x = (module: number) => quietLeft + module;
+    text = symbology === 'ean13'
+      ? textAt(value[0], quietLeft - 5, y) +
+        textAt(value.slice(1, 7), x(24), y, 38) +
+        textAt(value.slice(7), x(71), y, 38)
+      : textAt(value[0], quietLeft - 5, y) +
+        textAt(value.slice(1, 6), x(28), y, 30) +
+        textAt(value.slice(6, 11), x(67), y, 30) +
+        textAt(value[11], x(modules.length) + 4, y);
+  }
+
+  return svg(width, height, barRects(modules, quietLeft, heightAt) + text);
+}
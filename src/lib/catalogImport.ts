@@ -0,0 +1,358 @@
+import { Category, Product, Supplier } from '../types/inventory';
+import {
+  CatalogColumnMapping,
+  CatalogField,
+  CatalogImportContext,
+  CatalogImportIssue,
+  CatalogImportOptions,
+  CatalogImportPlan,
+  CatalogImportProduct,
+  CatalogIssueCode
+} from '../types/catalogImport';
+import { SpreadsheetCell } from './spreadsheet';
+import { validateEAN, validateUPC } from './barcode';
+import { activeVariants } from './variants';
+
+type CatalogFieldType = 'text' | 'number' | 'integer' | 'boolean';
+
+interface CatalogFieldDefinition {
+  field: CatalogField;
+  type: CatalogFieldType;
+  // Other header names the column is recognised by, compared without case, accents or punctuation
+  aliases: string[];
+}
+
+export const CATALOG_FIELDS: CatalogFieldDefinition[] = [
+  { field: 'product_code', type: 'text', aliases: ['code', 'sku', 'reference', 'ref', 'codeproduit'] },
+  { field: 'name', type: 'text', aliases: ['productname', 'nom', 'designation'] },
+  { field: 'description', type: 'text', aliases: [] },
+  { field: 'barcode', type: 'text', aliases: ['ean', 'upc', 'gtin', 'codebarre', 'codebarres'] },
+  { field: 'category', type: 'text', aliases: ['categorie'] },
+  { field: 'subcategory', type: 'text', aliases: ['souscategorie'] },
+  { field: 'supplier', type: 'text', aliases: ['fournisseur', 'vendor'] },
+  { field: 'cost_price', type: 'number', aliases: ['cost', 'prixachat', 'cout'] },
+  { field: 'selling_price', type: 'number', aliases: ['price', 'prix', 'prixvente'] },
+  { field: 'quantity_in_stock', type: 'integer', aliases: ['quantity', 'stock', 'qty', 'quantite'] },
+  { field: 'min_stock_level', type: 'integer', aliases: ['minstock', 'stockminimum', 'reorderlevel'] },
+  { field: 'is_serialized', type: 'boolean', aliases: ['serialized'] },
+  { field: 'track_lots', type: 'boolean', aliases: ['lots'] },
+  { field: 'variant_name', type: 'text', aliases: ['variant', 'option', 'variante'] },
+  { field: 'variant_value', type: 'text', aliases: ['optionvalue', 'valeur'] },
+  { field: 'variant_barcode', type: 'text', aliases: ['variantean'] },
+  { field: 'variant_additional_cost', type: 'number', aliases: ['variantcost', 'variantprice'] },
+  { field: 'variant_quantity', type: 'integer', aliases: ['variantstock', 'variantqty'] }
+];
+
+const normalizeHeader = (value: string) =>
+  value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const normalizeName = (value?: string) => (value || '').trim().toLowerCase();
+
+// Map each field to the first unused column whose header matches its key or an alias
+export function guessColumnMapping(headers: string[]): CatalogColumnMapping {
+  const mapping: CatalogColumnMapping = {};
+  const used = new Set<number>();
+
+  CATALOG_FIELDS.forEach(({ field, aliases }) => {
+    const names = [normalizeHeader(field), ...aliases];
+    const index = headers.findIndex((header, i) => !used.has(i) && names.includes(normalizeHeader(header)));
+    if (index >= 0) {
+      mapping[field] = index;
+      used.add(index);
+    }
+  });
+
+  return mapping;
+}
+
+export function findCategory(categories: Category[], name: string, parentId?: string): Category | undefined {
+  const wanted = normalizeName(name);
+  return categories.find(c =>
+    (c.parent_id || undefined) === parentId &&
+    (normalizeName(c.name) === wanted || normalizeName(c.name_fr) === wanted)
+  );
+}
+
+export function findSupplier<T extends Pick<Supplier, 'name'>>(suppliers: T[], name: string): T | undefined {
+  const wanted = normalizeName(name);
+  return suppliers.find(s => normalizeName(s.name) === wanted);
+}
+
+// Accepts a decimal comma and thousands spaces, as spreadsheets in French locales write them
+const parseNumberCell = (raw: string): number | null => {
+  let cleaned = raw.replace(/\s/g, '');
+  if (cleaned.includes(',') && !cleaned.includes('.')) cleaned = cleaned.replace(',', '.');
+  else cleaned = cleaned.replace(/,/g, '');
+  const value = Number(cleaned);
+  return cleaned !== '' && Number.isFinite(value) ? value : null;
+};
+
+const parseBooleanCell = (raw: string): boolean | null => {
+  const value = raw.toLowerCase();
+  if (['true', 'yes', 'oui', 'y', '1', 'x'].includes(value)) return true;
+  if (['false', 'no', 'non', 'n', '0'].includes(value)) return false;
+  return null;
+};
+
+// Only numeric codes of a GTIN length carry a check digit; anything else is an in-store code
+const checkBarcodeDigits = (barcode: string): CatalogIssueCode | null => {
+  if (!/^\d+$/.test(barcode)) return null;
+  if (barcode.length === 13 && !validateEAN(barcode)) return 'invalid_ean';
+  if (barcode.length === 12 && !validateUPC(barcode)) return 'invalid_upc';
+  return null;
+};
+
+const variantKey = (productCode: string, name: string, value: string) =>
+  `${productCode.toLowerCase()}|${normalizeName(name)}:${normalizeName(value)}`;
+
+// Dry run of an import: every row is checked against the file itself and the current catalog.
+// Rows sharing a product code describe one product, one variant per row; the first row of a
+// product carries its details. Products with any error are left out of the plan.
+export function validateCatalogImport(
+  rows: string[][],
+  mapping: CatalogColumnMapping,
+  context: CatalogImportContext,
+  options: CatalogImportOptions
+): CatalogImportPlan {
+  const issues: CatalogImportIssue[] = [];
+  const planned = new Map<string, CatalogImportProduct>();
+  const failed = new Set<string>();
+  const rowCounts = new Map<string, number>();
+  const fileBarcodes = new Map<string, string>();
+  const catalogBarcodes = new Map<string, string>();
+  const existingByCode = new Map(context.products.map(p => [p.product_code.toLowerCase(), p]));
+  let skippedRows = 0;
+
+  context.products.forEach(product => {
+    if (product.barcode) catalogBarcodes.set(product.barcode, product.product_code.toLowerCase());
+    product.variants?.forEach(variant => {
+      if (variant.barcode) catalogBarcodes.set(variant.barcode, variantKey(product.product_code, variant.name, variant.value));
+    });
+  });
+
+  const fieldType = (field: CatalogField) => CATALOG_FIELDS.find(f => f.field === field)!.type;
+
+  rows.forEach((row, index) => {
+    const rowNumber = index + 2;
+    const rowIssues: CatalogImportIssue[] = [];
+    const error = (code: CatalogIssueCode, field?: CatalogField, value?: string) =>
+      rowIssues.push({ row: rowNumber, field, code, value, severity: 'error' });
+
+    const cell = (field: CatalogField) => {
+      const column = mapping[field];
+      return column === undefined ? '' : (row[column] || '').trim();
+    };
+
+    const numberCell = (field: CatalogField) => {
+      const raw = cell(field);
+      if (!raw) return undefined;
+      const value = parseNumberCell(raw);
+      if (value === null || value < 0 || (fieldType(field) === 'integer' && !Number.isInteger(value))) {
+        error('invalid_number', field, raw);
+        return undefined;
+      }
+      return value;
+    };
+
+    const booleanCell = (field: CatalogField) => {
+      const raw = cell(field);
+      if (!raw) return undefined;
+      const value = parseBooleanCell(raw);
+      if (value === null) error('invalid_boolean', field, raw);
+      return value ?? undefined;
+    };
+
+    const claimBarcode = (barcode: string, owner: string, field: CatalogField) => {
+      const digitsIssue = checkBarcodeDigits(barcode);
+      if (digitsIssue) error(digitsIssue, field, barcode);
+
+      const fileOwner = fileBarcodes.get(barcode);
+      if (fileOwner && fileOwner !== owner) error('duplicate_barcode', field, barcode);
+      else fileBarcodes.set(barcode, owner);
+
+      const catalogOwner = catalogBarcodes.get(barcode);
+      if (catalogOwner && catalogOwner !== owner) error('barcode_in_use', field, barcode);
+    };
+
+    const code = cell('product_code');
+    if (!code) {
+      error('missing_required', 'product_code');
+      issues.push(...rowIssues);
+      skippedRows++;
+      return;
+    }
+
+    const key = code.toLowerCase();
+    const existing = existingByCode.get(key);
+    const variantName = cell('variant_name');
+    const variantValue = cell('variant_value');
+    const hasVariant = Boolean(variantName || variantValue);
+    rowCounts.set(key, (rowCounts.get(key) || 0) + 1);
+
+    let product = planned.get(key);
+    if (product && !hasVariant) {
+      error('duplicate_product_code', 'product_code', code);
+    }
+
+    if (!product) {
+      if (existing && options.mode === 'create') error('product_exists', 'product_code', code);
+
+      const name = cell('name');
+      const category = cell('category');
+      const subcategory = cell('subcategory');
+      const supplier = cell('supplier');
+      const barcode = cell('barcode');
+      if (!existing && !name) error('missing_required', 'name');
+      // A subcategory is looked up under the category given on the same row
+      if ((!existing || subcategory) && !category) error('missing_required', 'category');
+
+      // Unknown names become new records only when asked to, otherwise they are errors
+      const knownCategory = category ? findCategory(context.categories, category) : undefined;
+      if (category && !knownCategory && !options.create_missing) error('unknown_category', 'category', category);
+      if (subcategory && category && !options.create_missing &&
+          (!knownCategory || !findCategory(context.categories, subcategory, knownCategory.id))) {
+        error('unknown_subcategory', 'subcategory', subcategory);
+      }
+      if (supplier && !findSupplier(context.suppliers, supplier) && !options.create_missing) {
+        error('unknown_supplier', 'supplier', supplier);
+      }
+      if (barcode) claimBarcode(barcode, key, 'barcode');
+
+      const values: CatalogImportProduct['values'] = {
+        name: name || undefined,
+        description: cell('description') || undefined,
+        barcode: barcode || undefined,
+        cost_price: numberCell('cost_price'),
+        selling_price: numberCell('selling_price'),
+        quantity_in_stock: numberCell('quantity_in_stock'),
+        min_stock_level: numberCell('min_stock_level'),
+        is_serialized: booleanCell('is_serialized'),
+        track_lots: booleanCell('track_lots')
+      };
+
+      product = {
+        row: rowNumber,
+        existing_id: existing?.id,
+        product_code: code,
+        values: Object.fromEntries(Object.entries(values).filter(([, v]) => v !== undefined)),
+        category: category || undefined,
+        subcategory: subcategory || undefined,
+        supplier: supplier || undefined,
+        variants: []
+      };
+      planned.set(key, product);
+    }
+
+    if (hasVariant) {
+      if (!variantName || !variantValue) {
+        error('incomplete_variant', variantName ? 'variant_value' : 'variant_name');
+      } else {
+        const vKey = variantKey(code, variantName, variantValue);
+        if (product.variants.some(v => variantKey(code, v.name, v.value) === vKey)) {
+          error('duplicate_variant', 'variant_value', `${variantName}: ${variantValue}`);
+        }
+        const variantBarcode = cell('variant_barcode');
+        if (variantBarcode) claimBarcode(variantBarcode, vKey, 'variant_barcode');
+
+        const existingVariant = existing && activeVariants(existing).find(v => variantKey(code, v.name, v.value) === vKey);
+        product.variants.push({
+          row: rowNumber,
+          existing_id: existingVariant?.id,
+          name: variantName,
+          value: variantValue,
+          barcode: variantBarcode || undefined,
+          additional_cost: numberCell('variant_additional_cost'),
+          quantity_in_stock: numberCell('variant_quantity')
+        });
+      }
+    }
+
+    issues.push(...rowIssues);
+    if (rowIssues.length > 0) failed.add(key);
+  });
+
+  failed.forEach(key => {
+    skippedRows += rowCounts.get(key) || 0;
+  });
+  const products = [...planned.entries()].filter(([key]) => !failed.has(key)).map(([, product]) => product);
+
+  // Categories and suppliers to create, named by the products that will actually be imported
+  const newCategories = new Map<string, { name: string; parent?: string }>();
+  const newSuppliers = new Map<string, string>();
+  const warn = (row: number, code: CatalogIssueCode, field: CatalogField, value: string) =>
+    issues.push({ row, field, code, value, severity: 'warning' });
+
+  products.forEach(product => {
+    const parent = product.category ? findCategory(context.categories, product.category) : undefined;
+    if (product.category && !parent && !newCategories.has(normalizeName(product.category))) {
+      newCategories.set(normalizeName(product.category), { name: product.category });
+      warn(product.row, 'new_category', 'category', product.category);
+    }
+    if (product.subcategory && product.category &&
+        !(parent && findCategory(context.categories, product.subcategory, parent.id))) {
+      const subKey = `${normalizeName(product.category)}>${normalizeName(product.subcategory)}`;
+      if (!newCategories.has(subKey)) {
+        newCategories.set(subKey, { name: product.subcategory, parent: product.category });
+        warn(product.row, 'new_subcategory', 'subcategory', product.subcategory);
+      }
+    }
+    if (product.supplier && !findSupplier(context.suppliers, product.supplier) &&
+        !newSuppliers.has(normalizeName(product.supplier))) {
+      newSuppliers.set(normalizeName(product.supplier), product.supplier);
+      warn(product.row, 'new_supplier', 'supplier', product.supplier);
+    }
+  });
+
+  return {
+    products,
+    new_categories: [...newCategories.values()],
+    new_suppliers: [...newSuppliers.values()],
+    issues: issues.sort((a, b) => a.row - b.row),
+    skipped_rows: skippedRows
+  };
+}
+
+// One row per product, or per variant with the product details repeated, under the field
+// names the importer maps automatically, so an export can be edited and imported back
+export function buildCatalogRows(
+  products: Product[],
+  categories: Category[],
+  suppliers: Pick<Supplier, 'id' | 'name'>[]
+): SpreadsheetCell[][] {
+  const allCategories = categories.flatMap(c => [c, ...(c.children || [])]);
+  const categoryName = (id?: string) => allCategories.find(c => c.id === id)?.name || '';
+  const yesNo = (value?: boolean) => (value ? 'true' : 'false');
+
+  const rows = products.flatMap(product => {
+    const details: SpreadsheetCell[] = [
+      product.product_code,
+      product.name,
+      product.description || '',
+      product.barcode || '',
+      product.category?.name || categoryName(product.category_id),
+      product.subcategory?.name || categoryName(product.subcategory_id),
+      product.supplier_info?.name || suppliers.find(s => s.id === product.supplier_id)?.name || '',
+      product.cost_price,
+      product.selling_price,
+      product.quantity_in_stock,
+      product.min_stock_level,
+      yesNo(product.is_serialized),
+      yesNo(product.track_lots)
+    ];
+
+    const variants = activeVariants(product);
+    if (variants.length === 0) {
+      return [[...details, '', '', '', '', '']];
+    }
+    return variants.map(variant => [
+      ...details,
+      variant.name,
+      variant.value,
+      variant.barcode || '',
+      variant.additional_cost,
+      variant.quantity_in_stock
+    ]);
+  });
+
+  return [CATALOG_FIELDS.map(f => f.field), ...rows];
+}
@@ -0,0 +1,76 @@
+import { Product } from '../types/inventory';
+import { Transaction } from '../types/pos';
+import { ProductAnalytics } from '../types/analytics';
+import { roundCurrency } from './utils';
+
+const roundUnitCost = (amount: number) => Math.round(amount * 10000) / 10000;
+
+// Statuses whose lines count towards sales and cost of goods sold
+const COSTED_STATUSES: Transaction['status'][] = ['completed', 'refunded'];
+
+// What one unit on a purchase order line cost once the order's discount is taken off
+export function landedUnitCost(unitCost: number, discountPercentage = 0): number {
+  return roundUnitCost(unitCost * (1 - discountPercentage / 100));
+}
+
+// Cost of one unit on hand after a delivery. Both methods carry the stock on hand at the
+// value of what's left of each delivery, so this is the same for weighted average and FIFO
+export function costAfterReceipt(onHand: number, currentCost: number, quantity: number, unitCost: number): number {
+  const before = Math.max(onHand, 0);
+  if (before + quantity <= 0) return unitCost;
+  return roundUnitCost((before * currentCost + quantity * unitCost) / (before + quantity));
+}
+
+export interface ProductSalesFigures {
+  units_sold: number;
+  sales_revenue: number;
+  cost_of_goods_sold: number;
+}
+
+// Refund lines carry negative quantities, so refunds net out of the totals. Lines recorded
+// before sale costs were kept fall back to the product's current cost
+export function summarizeProductSales(
+  transactions: Pick<Transaction, 'items' | 'status'>[],
+  products: Product[]
+): Map<string, ProductSalesFigures> {
+  const productsById = new Map(products.map(product => [product.id, product]));
+  const figures = new Map<string, ProductSalesFigures>();
+
+  transactions
+    .filter(transaction => COSTED_STATUSES.includes(transaction.status))
+    .forEach(transaction => (transaction.items || []).forEach(item => {
+      const unitCost = item.unit_cost ?? productsById.get(item.product_id)?.cost_price ?? 0;
+      const current = figures.get(item.product_id) || { units_sold: 0, sales_revenue: 0, cost_of_goods_sold: 0 };
+      figures.set(item.product_id, {
+        units_sold: current.units_sold + item.quantity,
+        sales_revenue: current.sales_revenue + item.subtotal,
+        cost_of_goods_sold: current.cost_of_goods_sold + item.quantity * unitCost
+      });
+    }));
+
+  return figures;
+}
+
+// Profit per unit and margin come from what was actually sold once there are sales,
+// and from the current cost and price before that
+export function withGrossProfit<T extends Pick<ProductAnalytics, 'cost_price' | 'selling_price'>>(
+  item: T,
+  figures?: ProductSalesFigures
+): T & Pick<ProductAnalytics, 'units_sold' | 'sales_revenue' | 'cost_of_goods_sold' | 'gross_profit' | 'profit_per_unit' | 'profit_margin_percentage'> {
+  const units = figures?.units_sold || 0;
+  const revenue = roundCurrency(figures?.sales_revenue || 0);
+  const cost = roundCurrency(figures?.cost_of_goods_sold || 0);
+  const grossProfit = roundCurrency(revenue - cost);
+
+  return {
+    ...item,
+    units_sold: units,
+    sales_revenue: revenue,
+    cost_of_goods_sold: cost,
+    gross_profit: grossProfit,
+    profit_per_unit: units > 0 ? roundCurrency(grossProfit / units) : item.selling_price - item.cost_price,
+    profit_margin_percentage: units > 0
+      ? (revenue !== 0 ? (grossProfit / revenue) * 100 : 0)
+      : (item.selling_price !== 0 ? ((item.selling_price - item.cost_price) / item.selling_price) * 100 : 0)
+  };
+}
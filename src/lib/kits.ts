@@ -0,0 +1,93 @@
+import { KitComponent, Product, ProductVariant } from '../types/inventory';
+import { CartItem } from '../types/pos';
+import { getUnreservedQuantity } from './locations';
+import { roundQuantity } from './units';
+import { roundCurrency } from './utils';
+
+export const isKit = (product: Pick<Product, 'is_kit' | 'kit_components'>) =>
+  !!product.is_kit && (product.kit_components?.length ?? 0) > 0;
+
+// Serials and lots are picked per unit at the till, which a kit line can't do for its parts
+export function canBeKitComponent(product: Product): boolean {
+  return product.is_active !== false && !product.is_kit && !product.is_serialized && !product.track_lots;
+}
+
+export function kitComponentFor(product: Product, variant?: ProductVariant, quantity = 1): KitComponent {
+  return {
+    product_id: product.id,
+    variant_id: variant?.id || null,
+    name: variant ? `${product.name} – ${variant.name}: ${variant.value}` : product.name,
+    product_code: product.product_code,
+    quantity
+  };
+}
+
+const componentKey = (component: Pick<KitComponent, 'product_id' | 'variant_id'>) =>
+  `${component.product_id}:${component.variant_id || ''}`;
+
+// Returns what's wrong with a kit's component list, or null when it can be saved
+export function validateKitComponents(
+  kitId: string | undefined,
+  components: KitComponent[],
+  products: Product[]
+): string | null {
+  if (components.length === 0) return 'Add at least one component to the kit';
+
+  const productsById = new Map(products.map(product => [product.id, product]));
+  const seen = new Set<string>();
+  for (const component of components) {
+    const product = productsById.get(component.product_id);
+    if (!product) return `Component ${component.name} is no longer in the catalogue`;
+    if (product.id === kitId) return 'A kit cannot contain itself';
+    if (!canBeKitComponent(product)) return `${product.name} cannot be part of a kit`;
+    if (!(component.quantity > 0)) return `Enter a quantity for ${component.name}`;
+
+    const key = componentKey(component);
+    if (seen.has(key)) return `${component.name} is listed more than once`;
+    seen.add(key);
+  }
+  return null;
+}
+
+// Variant components cost what their product costs; a variant's additional cost only moves its price
+export function getKitCost(components: KitComponent[], products: Product[]): number {
+  const productsById = new Map(products.map(product => [product.id, product]));
+  return roundCurrency(components.reduce((sum, component) => {
+    const product = productsById.get(component.product_id);
+    return product ? sum + product.cost_price * component.quantity : sum;
+  }, 0));
+}
+
+// Complete kits that can be made from the components on hand and not held for tickets, at one location when given
+export function getKitAvailability(kit: Product, products: Product[], locationId?: string | null): number {
+  if (!isKit(kit)) return 0;
+
+  const productsById = new Map(products.map(product => [product.id, product]));
+  return Math.min(...kit.kit_components!.map(component => {
+    const product = productsById.get(component.product_id);
+    if (!product || component.quantity <= 0) return 0;
+    const free = getUnreservedQuantity(product, locationId, component.variant_id);
+    return Math.max(Math.floor(roundQuantity(free / component.quantity)), 0);
+  }));
+}
+
+// What can be sold right now: the product's own stock less what open tickets have reserved,
+// or for a kit how many its components make up
+export function getSellableQuantity(product: Product, products: Product[], locationId?: string | null): number {
+  return isKit(product) ? getKitAvailability(product, products, locationId) : getUnreservedQuantity(product, locationId);
+}
+
+// Stock only moves for real products, so kit lines are replaced by their components
+export function expandKitLines<T extends Pick<CartItem, 'product_id' | 'variant_id' | 'quantity' | 'kit_components'>>(
+  items: T[]
+): T[] {
+  return items.flatMap(item => item.kit_components?.length
+    ? item.kit_components.map(component => ({
+      ...item,
+      product_id: component.product_id,
+      variant_id: component.variant_id || undefined,
+      quantity: roundQuantity(item.quantity * component.quantity),
+      kit_components: undefined
+    }))
+    : [item]);
+}
@@ -0,0 +1,186 @@
+import { LabelItem, LabelSettings, LabelTemplate } from '../types/labels';
+import { Product, ProductVariant } from '../types/inventory';
+import { PurchaseOrder } from '../types/purchaseOrders';
+import { renderBarcodeSvg, resolveSymbology } from './barcodeSvg';
+import { escapeHtml, formatCurrency } from './utils';
+
+export const CUSTOM_TEMPLATE_ID = 'custom';
+
+const sheet = (
+  id: string,
+  name: string,
+  page: [number, number],
+  grid: [number, number],
+  label: [number, number],
+  margins: [number, number],
+  gaps: [number, number]
+): LabelTemplate => ({
+  id,
+  name,
+  kind: 'sheet',
+  page_width_mm: page[0],
+  page_height_mm: page[1],
+  columns: grid[0],
+  rows: grid[1],
+  label_width_mm: label[0],
+  label_height_mm: label[1],
+  margin_top_mm: margins[0],
+  margin_left_mm: margins[1],
+  gap_x_mm: gaps[0],
+  gap_y_mm: gaps[1]
+});
+
+const roll = (id: string, name: string, width: number, height: number): LabelTemplate =>
+  ({ ...sheet(id, name, [width, height], [1, 1], [width, height], [0, 0], [0, 0]), kind: 'roll' });
+
+export const LABEL_TEMPLATES: LabelTemplate[] = [
+  sheet('a4-24', 'A4 · 3 × 8 (63.5 × 38.1 mm)', [210, 297], [3, 8], [63.5, 38.1], [15.15, 7.2], [2.5, 0]),
+  sheet('a4-40', 'A4 · 4 × 10 (48.5 × 25.4 mm)', [210, 297], [4, 10], [48.5, 25.4], [21.5, 8], [0, 0]),
+  sheet('letter-30', 'Letter · 3 × 10 (66.7 × 25.4 mm)', [215.9, 279.4], [3, 10], [66.7, 25.4], [12.7, 4.8], [3.2, 0]),
+  roll('roll-58', 'Roll 58 mm (58 × 40 mm)', 58, 40),
+  roll('roll-80', 'Roll 80 mm (80 × 50 mm)', 80, 50)
+];
+
+export const DEFAULT_CUSTOM_TEMPLATE: LabelTemplate = {
+  ...LABEL_TEMPLATES[0],
+  id: CUSTOM_TEMPLATE_ID,
+  name: 'Custom sheet'
+};
+
+export function getLabelTemplate(settings: LabelSettings): LabelTemplate {
+  if (settings.template_id === CUSTOM_TEMPLATE_ID) return settings.custom_template;
+  return LABEL_TEMPLATES.find(template => template.id === settings.template_id) || LABEL_TEMPLATES[0];
+}
+
+export const labelsPerPage = (template: LabelTemplate) => template.columns * template.rows;
+
+export function labelItemFor(product: Product, variant?: ProductVariant, copies = 1): LabelItem {
+  return {
+    key: variant ? `${product.id}:${variant.id}` : product.id,
+    name: variant ? `${product.name} (${variant.name}: ${variant.value})` : product.name,
+    price: product.selling_price + (variant?.additional_cost || 0),
+    product_code: product.product_code,
+    // A variant without its own barcode is still scanned as the parent product
+    barcode: variant?.barcode || product.barcode,
+    copies
+  };
+}
+
+// One label per unit that arrived, comparing the order before and after the delivery
+export function labelItemsForReceipt(before: PurchaseOrder, after: PurchaseOrder, products: Product[]): LabelItem[] {
+  return after.lines.flatMap(line => {
+    const previous = before.lines.find(l => l.id === line.id)?.quantity_received || 0;
+    const copies = line.quantity_received - previous;
+    const product = products.find(p => p.id === line.product_id);
+    if (copies <= 0 || !product) return [];
+
+    const variant = line.variant_id ? product.variants?.find(v => v.id === line.variant_id) : undefined;
+    return [labelItemFor(product, variant, copies)];
+  });
+}
+
+interface LabelDocumentOptions {
+  currency?: string;
+  // Positions already used on the first sheet, so part-used sheets can go back in the printer
+  skip?: number;
+  // Screen-only zoom for in-app previews; printing is always at actual size
+  preview_scale?: number;
+}
+
+const renderBarcode = (item: LabelItem, settings: LabelSettings, aspect: number) => {
+  const value = item.barcode || item.product_code;
+  try {
+    return renderBarcodeSvg(value, resolveSymbology(value, settings.symbology), { aspect });
+  } catch (error) {
+    // Codes with characters Code128 can't carry print without a barcode
+    console.warn(`Cannot render barcode for ${value}:`, error);
+    return '';
+  }
+};
+
+function renderLabel(item: LabelItem, settings: LabelSettings, template: LabelTemplate, currency?: string): string {
+  const height = template.label_height_mm;
+  const padding = Math.min(1.5, height * 0.05);
+  const barcodeShare = settings.style === 'shelf' ? 0.4 : 0.55;
+  const aspect = (height * barcodeShare) / (template.label_width_mm - padding * 2);
+
+  const name = settings.show_name ? `<div class="name">${escapeHtml(item.name)}</div>` : '';
+  const price = settings.show_price ? `<div class="price">${escapeHtml(formatCurrency(item.price, currency))}</div>` : '';
+  const code = settings.show_code ? `<div class="code">${escapeHtml(item.product_code)}</div>` : '';
+  const barcode = `<div class="barcode">${renderBarcode(item, settings, aspect)}</div>`;
+
+  const content = settings.style === 'shelf'
+    ? `${name}${price}${barcode}${code}`
+    : `${name}${barcode}<div class="row">${code}${price}</div>`;
+
+  return `<div class="label ${settings.style}" style="padding:${padding}mm;font-size:${(height * 0.09).toFixed(2)}mm">${content}</div>`;
+}
+
+// Full HTML document with one .page per sheet (or per label on a roll)
+export function buildLabelDocument(
+  items: LabelItem[],
+  settings: LabelSettings,
+  { currency, skip = 0, preview_scale }: LabelDocumentOptions = {}
+): string {
+  const template = getLabelTemplate(settings);
+  const perPage = labelsPerPage(template);
+  const labels = items.flatMap(item => Array.from({ length: Math.max(item.copies, 0) }, () => item));
+  const offset = template.kind === 'sheet' ? Math.min(Math.max(skip, 0), perPage - 1) : 0;
+
+  const pages: string[] = [];
+  labels.forEach((item, i) => {
+    const position = i + offset;
+    const pageIndex = Math.floor(position / perPage);
+    const slot = position % perPage;
+    const left = template.margin_left_mm + (slot % template.columns) * (template.label_width_mm + template.gap_x_mm);
+    const top = template.margin_top_mm + Math.floor(slot / template.columns) * (template.label_height_mm + template.gap_y_mm);
+
+    pages[pageIndex] = (pages[pageIndex] || '') +
+      `<div class="slot" style="left:${left}mm;top:${top}mm">${renderLabel(item, settings, template, currency)}</div>`;
+  });
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8" />
+<title>Labels</title>
+<style>
+  @page { size: ${template.page_width_mm}mm ${template.page_height_mm}mm; margin: 0; }
+  * { box-sizing: border-box; }
+  body { margin: 0; font-family: system-ui, sans-serif; color: #000; }
+  .page { position: relative; width: ${template.page_width_mm}mm; height: ${template.page_height_mm}mm; overflow: hidden; break-after: page; }
+  .page:last-child { break-after: auto; }
+  .slot { position: absolute; width: ${template.label_width_mm}mm; height: ${template.label_height_mm}mm; }
+  .label { width: 100%; height: 100%; display: flex; flex-direction: column; gap: 0.5mm; overflow: hidden; }
+  .name { font-weight: 600; line-height: 1.15; overflow: hidden; display: -webkit-box; -webkit-line-clamp: 2; -webkit-box-orient: vertical; }
+  .price { font-weight: 700; line-height: 1; }
+  .shelf .price { font-size: 2.2em; }
+  .code { font-family: monospace; font-size: 0.85em; }
+  .barcode { flex: 1; min-height: 0; }
+  .barcode svg { display: block; }
+  .row { display: flex; justify-content: space-between; align-items: baseline; }
+  .sticker .price { font-size: 1.3em; }
+  @media screen {
+    body { background: #e5e7eb; padding: 8px; ${preview_scale ? `zoom: ${preview_scale};` : ''} }
+    .page { background: #fff; margin: 0 auto 8px; box-shadow: 0 1px 3px rgba(0, 0, 0, 0.2); }
+  }
+</style>
+</head>
+<body>
+${pages.map(page => `<div class="page">${page || ''}</div>`).join('\n')}
+</body>
+</html>`;
+}
+
+// Same print window approach as reports, so "Save as PDF" works for label files too
+export function printLabels(items: LabelItem[], settings: LabelSettings, options: LabelDocumentOptions = {}) {
+  const printWindow = window.open('', '_blank', 'width=1024,height=768');
+  if (!printWindow) {
+    throw new Error('Unable to open the print window. Please allow pop-ups for this site.');
+  }
+
+  printWindow.document.write(buildLabelDocument(items, settings, options));
+  printWindow.document.close();
+  printWindow.focus();
+  printWindow.print();
+}
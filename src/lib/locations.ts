@@ -0,0 +1,194 @@
+import { Product } from '../types/inventory';
+import { Location, LocationStock, StockTransfer, StockTransferFormData, StockTransferLine } from '../types/locations';
+import { StockMovementInput } from '../types/stockMovements';
+import { normalizeQuantity, roundQuantity } from './units';
+
+export function generateTransferNumber(): string {
+  const date = new Date();
+  const dateStr = date.toISOString().slice(0, 10).replace(/-/g, '');
+  const timeStr = date.toTimeString().slice(0, 8).replace(/:/g, '');
+  const random = Math.floor(Math.random() * 1000).toString().padStart(3, '0');
+  return `TR${dateStr}${timeStr}${random}`;
+}
+
+export function getDefaultLocation(locations: Location[]): Location | undefined {
+  return locations.find(location => location.is_default);
+}
+
+// An empty or unknown id falls back to the default location
+export function resolveLocation(locations: Location[], locationId?: string | null): Location | undefined {
+  return locations.find(location => location.id === locationId) || getDefaultLocation(locations);
+}
+
+const isSameHolding = (row: LocationStock, productId: string, variantId?: string | null) =>
+  row.product_id === productId && (row.variant_id || null) === (variantId || null);
+
+// Without a location, or before per-location stock has been loaded, this is the total on hand
+export function getLocationQuantity(product: Product, locationId?: string | null, variantId?: string | null): number {
+  if (!locationId || !product.location_stock) {
+    const variant = variantId ? product.variants?.find(v => v.id === variantId) : undefined;
+    return variant ? variant.quantity_in_stock : product.quantity_in_stock;
+  }
+
+  return product.location_stock
+    .filter(row => row.location_id === locationId && isSameHolding(row, product.id, variantId))
+    .reduce((sum, row) => sum + row.quantity, 0);
+}
+
+// What can be sold at the location once open tickets have their parts held back. Reservations
+// aren't tied to a location, so the location only gives up what the rest of the store can't cover
+export function getUnreservedQuantity(product: Product, locationId?: string | null, variantId?: string | null): number {
+  const holding = variantId ? product.variants?.find(v => v.id === variantId) : product;
+  if (!holding) return 0;
+
+  const free = holding.quantity_in_stock - (holding.quantity_reserved || 0);
+  return Math.max(roundQuantity(Math.min(getLocationQuantity(product, locationId, variantId), free)), 0);
+}
+
+// True when the product or any of its variants has stock at the location
+export function hasStockAtLocation(product: Product, locationId: string): boolean {
+  if (!product.location_stock) return product.quantity_in_stock > 0;
+  return product.location_stock.some(row => row.location_id === locationId && row.quantity > 0);
+}
+
+// Per-location breakdown of one product or variant, in the order the locations are listed
+export function getStockByLocation(product: Product, locations: Location[], variantId?: string | null) {
+  return locations.map(location => ({
+    location,
+    quantity: getLocationQuantity(product, location.id, variantId)
+  }));
+}
+
+// Mirror recorded movements in cached products while offline, keeping the totals and the
+// per-location rows in step the same way record_stock_movement does on the server
+export function applyMovementsToProducts(products: Product[], movements: StockMovementInput[]): Product[] {
+  return products.map(product => {
+    const productMovements = movements.filter(m => m.product_id === product.id);
+    if (productMovements.length === 0) return product;
+
+    const delta = (variantId?: string) => productMovements
+      .filter(m => (m.variant_id || null) === (variantId || null))
+      .reduce((sum, m) => roundQuantity(sum + m.quantity), 0);
+
+    let locationStock = product.location_stock;
+    if (locationStock) {
+      locationStock = [...locationStock];
+      for (const movement of productMovements) {
+        const locationId = movement.location_id;
+        if (!locationId) continue;
+
+        const index = locationStock.findIndex(row =>
+          row.location_id === locationId && isSameHolding(row, product.id, movement.variant_id)
+        );
+        if (index >= 0) {
+          locationStock[index] = { ...locationStock[index], quantity: roundQuantity(locationStock[index].quantity + movement.quantity) };
+        } else {
+          locationStock.push({
+            location_id: locationId,
+            product_id: product.id,
+            variant_id: movement.variant_id || null,
+            quantity: movement.quantity
+          });
+        }
+      }
+    }
+
+    return {
+      ...product,
+      quantity_in_stock: roundQuantity(product.quantity_in_stock + delta()),
+      variants: product.variants?.map(variant => ({
+        ...variant,
+        quantity_in_stock: roundQuantity(variant.quantity_in_stock + delta(variant.id))
+      })),
+      location_stock: locationStock
+    };
+  });
+}
+
+// Every product and variant that has stock at the location can be picked for a transfer
+export function buildTransferCandidates(products: Product[], locationId: string): StockTransferLine[] {
+  return products
+    .filter(product => product.is_active !== false)
+    .flatMap(product => [
+      {
+        id: product.id,
+        product_id: product.id,
+        product_name: product.name,
+        product_code: product.product_code,
+        quantity: getLocationQuantity(product, locationId),
+        unit_of_measure: product.unit_of_measure
+      },
+      ...(product.variants || []).map(variant => ({
+        id: `${product.id}:${variant.id}`,
+        product_id: product.id,
+        variant_id: variant.id,
+        product_name: `${product.name} – ${variant.name}: ${variant.value}`,
+        product_code: product.product_code,
+        quantity: getLocationQuantity(product, locationId, variant.id),
+        unit_of_measure: product.unit_of_measure
+      }))
+    ])
+    .filter(line => line.quantity > 0)
+    .sort((a, b) => a.product_name.localeCompare(b.product_name));
+}
+
+export function createStockTransfer(formData: StockTransferFormData): StockTransfer {
+  const now = new Date().toISOString();
+
+  return {
+    transfer_number: generateTransferNumber(),
+    from_location_id: formData.from_location_id,
+    to_location_id: formData.to_location_id,
+    status: 'draft',
+    lines: formData.lines
+      .map(line => ({ ...line, quantity: normalizeQuantity(line.quantity, line.unit_of_measure) }))
+      .filter(line => line.quantity > 0),
+    notes: formData.notes.trim() || undefined,
+    created_at: now,
+    updated_at: now
+  };
+}
+
+export function getTransferUnits(transfer: Pick<StockTransfer, 'lines'>): number {
+  return transfer.lines.reduce((sum, line) => roundQuantity(sum + line.quantity), 0);
+}
+
+// Lines asking for more than the source location holds right now
+export function findTransferShortages(transfer: StockTransfer, products: Product[]) {
+  return transfer.lines
+    .map(line => {
+      const product = products.find(p => p.id === line.product_id);
+      const available = product ? getLocationQuantity(product, transfer.from_location_id, line.variant_id) : 0;
+      return { line, available };
+    })
+    .filter(({ line, available }) => line.quantity > available);
+}
+
+// Sending takes the goods off the source location; they are on no shelf until received
+export function buildTransferSendMovements(transfer: StockTransfer): StockMovementInput[] {
+  return transfer.lines
+    .filter(line => line.quantity > 0)
+    .map(line => ({
+      product_id: line.product_id,
+      variant_id: line.variant_id,
+      movement_type: 'transfer',
+      quantity: -line.quantity,
+      reason: 'Transfer sent',
+      reference: transfer.transfer_number,
+      location_id: transfer.from_location_id
+    }));
+}
+
+export function buildTransferReceiveMovements(transfer: StockTransfer): StockMovementInput[] {
+  return transfer.lines
+    .filter(line => line.quantity > 0)
+    .map(line => ({
+      product_id: line.product_id,
+      variant_id: line.variant_id,
+      movement_type: 'transfer',
+      quantity: line.quantity,
+      reason: 'Transfer received',
+      reference: transfer.transfer_number,
+      location_id: transfer.to_location_id
+    }));
+}
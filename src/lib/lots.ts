@@ -0,0 +1,142 @@
+import { CartItem, Transaction } from '../types/pos';
+import { PurchaseOrder } from '../types/purchaseOrders';
+import { ReceiptResult } from './purchaseOrders';
+import { ExpiryStatus, ProductLot } from '../types/lots';
+
+// Lots expiring within this many days are flagged on the dashboard and at the till
+export const NEAR_EXPIRY_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function normalizeLot(value: string): string {
+  return value.trim().toUpperCase();
+}
+
+const sameVariant = (a?: string | null, b?: string | null) => (a || null) === (b || null);
+
+const today = (now: Date) => now.toISOString().slice(0, 10);
+
+export function getExpiryStatus(
+  expiryDate: string | null | undefined,
+  now = new Date(),
+  nearDays = NEAR_EXPIRY_DAYS
+): ExpiryStatus {
+  if (!expiryDate) return 'none';
+  if (expiryDate < today(now)) return 'expired';
+  const horizon = today(new Date(now.getTime() + nearDays * DAY_MS));
+  return expiryDate <= horizon ? 'near_expiry' : 'ok';
+}
+
+// First expired, first out: earliest expiry first, undated lots last, then oldest delivery
+export function sortByExpiry<T extends ProductLot>(lots: T[]): T[] {
+  return [...lots].sort((a, b) => {
+    if (a.expiry_date !== b.expiry_date) {
+      if (!a.expiry_date) return 1;
+      if (!b.expiry_date) return -1;
+      return a.expiry_date < b.expiry_date ? -1 : 1;
+    }
+    return (a.received_at || '').localeCompare(b.received_at || '');
+  });
+}
+
+export function getProductLots(lots: ProductLot[], productId: string, variantId?: string | null): ProductLot[] {
+  return lots.filter(lot => lot.product_id === productId && sameVariant(lot.variant_id, variantId));
+}
+
+// The lot to sell next: the earliest-expiring unexpired lot with units left once the cart is counted
+export function suggestFefoLot(
+  lots: ProductLot[],
+  productId: string,
+  variantId: string | null | undefined,
+  cartItems: CartItem[] = [],
+  now = new Date()
+): ProductLot | undefined {
+  const inCart = new Map<string, number>();
+  cartItems
+    .filter(item => item.lot_number && item.product_id === productId && sameVariant(item.variant_id, variantId))
+    .forEach(item => {
+      const lot = normalizeLot(item.lot_number || '');
+      inCart.set(lot, (inCart.get(lot) || 0) + item.quantity);
+    });
+
+  return sortByExpiry(getProductLots(lots, productId, variantId)).find(lot =>
+    getExpiryStatus(lot.expiry_date, now) !== 'expired' &&
+    lot.quantity - (inCart.get(lot.lot_number) || 0) > 0
+  );
+}
+
+// Lots with stock left that expire within the window, expired ones included
+export function getExpiringLots<T extends ProductLot>(lots: T[], days = NEAR_EXPIRY_DAYS, now = new Date()): T[] {
+  return sortByExpiry(lots.filter(lot => {
+    if (lot.quantity <= 0) return false;
+    const status = getExpiryStatus(lot.expiry_date, now, days);
+    return status === 'expired' || status === 'near_expiry';
+  }));
+}
+
+// Units on hand that are not yet assigned to any lot
+export function getUnassignedQuantity(lots: ProductLot[], onHand: number, productId: string, variantId?: string | null): number {
+  const assigned = getProductLots(lots, productId, variantId).reduce((sum, lot) => sum + lot.quantity, 0);
+  return Math.max(onHand - assigned, 0);
+}
+
+// Lots delivered on a purchase order receipt; lines without a lot number are skipped
+export function buildReceivedLots(
+  order: PurchaseOrder,
+  received: ReceiptResult['received'],
+  receivedAt = new Date().toISOString()
+): ProductLot[] {
+  return received
+    .filter(line => line.lot_number && normalizeLot(line.lot_number))
+    .map(line => ({
+      product_id: line.product_id,
+      variant_id: line.variant_id || null,
+      lot_number: normalizeLot(line.lot_number || ''),
+      expiry_date: line.expiry_date || null,
+      quantity: line.quantity,
+      po_number: order.po_number,
+      supplier_id: order.supplier_id,
+      received_at: receivedAt
+    }));
+}
+
+// Mirror receive_product_lot in the offline cache: a known lot gains units, a new one is added
+export function mergeReceivedLots(lots: ProductLot[], received: ProductLot[]): ProductLot[] {
+  const merged = [...lots];
+  received.forEach(incoming => {
+    const index = merged.findIndex(lot =>
+      lot.product_id === incoming.product_id &&
+      sameVariant(lot.variant_id, incoming.variant_id) &&
+      lot.lot_number === incoming.lot_number
+    );
+    if (index >= 0) {
+      merged[index] = {
+        ...merged[index],
+        quantity: merged[index].quantity + incoming.quantity,
+        expiry_date: incoming.expiry_date || merged[index].expiry_date
+      };
+    } else {
+      merged.push(incoming);
+    }
+  });
+  return merged;
+}
+
+// Mirror track_lot_sales in the offline cache: sales draw lots down, restocked refunds top them up
+export function applyTransactionToLots(lots: ProductLot[], transaction: Transaction): ProductLot[] {
+  const isRefund = transaction.transaction_type === 'refund';
+  const lines = transaction.items.filter(item => item.lot_number && (!isRefund || item.restock));
+  if (lines.length === 0) return lots;
+
+  return lots.map(lot => {
+    const delta = lines
+      .filter(item =>
+        item.product_id === lot.product_id &&
+        sameVariant(item.variant_id, lot.variant_id) &&
+        normalizeLot(item.lot_number || '') === lot.lot_number
+      )
+      // Refund lines carry negative quantities
+      .reduce((sum, item) => sum + (isRefund ? Math.abs(item.quantity) : -Math.abs(item.quantity)), 0);
+    return delta === 0 ? lot : { ...lot, quantity: Math.max(lot.quantity + delta, 0) };
+  });
+}
@@ -3,6 +3,7 @@ import { Product, Category } from '../types/inventory';
 import { Transaction } from '../types/pos';
 import { Customer, CustomerServiceTicket } from '../types/customer';
 import { ServiceTicket } from '../types/tickets';
+import { RegisterSession } from '../types/register';
 
 interface InventoryDB extends DBSchema {
   products: {
@@ -17,7 +18,7 @@ interface InventoryDB extends DBSchema {
   transactions: {
     key: string;
     value: Transaction;
-    indexes: { 'by-date': string; 'by-status': string };
+    indexes: { 'by-date': string; 'by-status': string; 'by-number': string; 'by-original': string };
   };
   customers: {
     key: string;
@@ -29,6 +30,11 @@ interface InventoryDB extends DBSchema {
     value: ServiceTicket;
     indexes: { 'by-customer': string; 'by-status': string; 'by-date': string };
   };
+  register_sessions: {
+    key: string;
+    value: RegisterSession;
+    indexes: { 'by-status': string; 'by-opened': string };
+  };
   sync_queue: {
     key: string;
     value: {
@@ -49,13 +55,13 @@ interface InventoryDB extends DBSchema {
 class OfflineDatabase {
   private db: IDBPDatabase<InventoryDB> | null = null;
   private readonly DB_NAME = 'InventoryDB';
-  private readonly DB_VERSION = 2; // Increment version for new schema
+  private readonly DB_VERSION = 4; // Increment version for new schema
 
   async init(): Promise<void> {
     if (this.db) return;
 
     this.db = await openDB<InventoryDB>(this.DB_NAME, this.DB_VERSION, {
-      upgrade(db, oldVersion) {
+      upgrade(db, oldVersion, _newVersion, transaction) {
         // Products store
         if (oldVersion < 1) {
           const productStore = db.createObjectStore('products', { keyPath: 'id' });
@@ -93,6 +99,20 @@ class OfflineDatabase {
           ticketStore.createIndex('by-status', 'status');
           ticketStore.createIndex('by-date', 'created_at');
         }
+
+        // Index transactions by number and by original sale for refunds in version 3
+        if (oldVersion < 3) {
+          const transactionStore = transaction.objectStore('transactions');
+          transactionStore.createIndex('by-number', 'transaction_number');
+          transactionStore.createIndex('by-original', 'original_transaction_number');
+        }
+
+        // Add register sessions store in version 4
+        if (oldVersion < 4) {
+          const sessionStore = db.createObjectStore('register_sessions', { keyPath: 'session_number' });
+          sessionStore.createIndex('by-status', 'status');
+          sessionStore.createIndex('by-opened', 'opened_at');
+        }
       },
     });
   }
@@ -164,6 +184,49 @@ class OfflineDatabase {
     );
   }
 
+  async deleteTransaction(id: string): Promise<void> {
+    await this.init();
+    await this.db!.delete('transactions', id);
+  }
+
+  async getTransactionByNumber(transactionNumber: string): Promise<Transaction | undefined> {
+    await this.init();
+    return await this.db!.getFromIndex('transactions', 'by-number', transactionNumber);
+  }
+
+  async getRefundsForTransaction(transactionNumber: string): Promise<Transaction[]> {
+    await this.init();
+    return await this.db!.getAllFromIndex('transactions', 'by-original', transactionNumber);
+  }
+
+  // Register Sessions
+  async saveRegisterSession(session: RegisterSession): Promise<void> {
+    await this.init();
+    await this.db!.put('register_sessions', session);
+  }
+
+  async getRegisterSession(sessionNumber: string): Promise<RegisterSession | undefined> {
+    await this.init();
+    return await this.db!.get('register_sessions', sessionNumber);
+  }
+
+  async getOpenRegisterSession(): Promise<RegisterSession | undefined> {
+    await this.init();
+    return await this.db!.getFromIndex('register_sessions', 'by-status', 'open');
+  }
+
+  async getRegisterSessions(): Promise<RegisterSession[]> {
+    await this.init();
+    const sessions = await this.db!.getAllFromIndex('register_sessions', 'by-opened');
+    return sessions.reverse();
+  }
+
+  async getTransactionsForSession(sessionNumber: string): Promise<Transaction[]> {
+    await this.init();
+    const transactions = await this.db!.getAll('transactions');
+    return transactions.filter(tx => tx.register_session_number === sessionNumber);
+  }
+
   // Customers
   async saveCustomer(customer: Customer): Promise<void> {
     await this.init();
@@ -285,7 +348,7 @@ class OfflineDatabase {
   // Utility
   async clear(): Promise<void> {
     await this.init();
-    const stores = ['products', 'categories', 'transactions', 'customers', 'service_tickets', 'sync_queue', 'settings'] as const;
+    const stores = ['products', 'categories', 'transactions', 'customers', 'service_tickets', 'register_sessions', 'sync_queue', 'settings'] as const;
     const tx = this.db!.transaction(stores, 'readwrite');
     await Promise.all(stores.map(store => tx.objectStore(store).clear()));
     await tx.done;
@@ -297,19 +360,21 @@ class OfflineDatabase {
     transactions: number;
     customers: number;
     serviceTickets: number;
+    registerSessions: number;
     syncQueue: number;
   }> {
     await this.init();
-    const [products, categories, transactions, customers, serviceTickets, syncQueue] = await Promise.all([
+    const [products, categories, transactions, customers, serviceTickets, registerSessions, syncQueue] = await Promise.all([
       this.db!.count('products'),
       this.db!.count('categories'),
       this.db!.count('transactions'),
       this.db!.count('customers'),
       this.db!.count('service_tickets'),
+      this.db!.count('register_sessions'),
       this.db!.count('sync_queue')
     ]);
 
-    return { products, categories, transactions, customers, serviceTickets, syncQueue };
+    return { products, categories, transactions, customers, serviceTickets, registerSessions, syncQueue };
   }
 }
 
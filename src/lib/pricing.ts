@@ -0,0 +1,79 @@
+import { Product, ProductVariant } from '../types/inventory';
+import { PriceChange, ScheduledPrice, ScheduledPriceFormData, ScheduledPriceState, TillPrice } from '../types/pricing';
+import { roundCurrency } from './utils';
+
+export function getScheduledPriceState(entry: ScheduledPrice, now = new Date()): ScheduledPriceState {
+  if (entry.status !== 'scheduled') return entry.status;
+  if (new Date(entry.starts_at) > now) return 'upcoming';
+  if (entry.kind === 'sale' && entry.ends_at && new Date(entry.ends_at) <= now) return 'ended';
+  return 'live';
+}
+
+const isLive = (entry: ScheduledPrice, now: Date) => getScheduledPriceState(entry, now) === 'live';
+
+// Latest to start wins when several overlap
+const latestStarted = (entries: ScheduledPrice[]) =>
+  [...entries].sort((a, b) => b.starts_at.localeCompare(a.starts_at))[0];
+
+const forTarget = (entries: ScheduledPrice[], productId: string, variantId: string | null) =>
+  entries.filter(entry => entry.product_id === productId && (entry.variant_id || null) === variantId);
+
+// The catalogue price, counting changes that are due but the server hasn't applied yet
+// (the till may be offline, or hasn't synced since they came into effect)
+export function getRegularPrice(
+  product: Product,
+  variant: ProductVariant | undefined,
+  schedules: ScheduledPrice[],
+  now = new Date()
+): number {
+  const due = schedules.filter(entry => entry.kind === 'change' && isLive(entry, now));
+  const productChange = latestStarted(forTarget(due, product.id, null));
+  const base = productChange ? productChange.price : product.selling_price;
+  if (!variant) return base;
+
+  const variantChange = latestStarted(forTarget(due, product.id, variant.id));
+  return variantChange ? variantChange.price : roundCurrency(base + variant.additional_cost);
+}
+
+// A variant's own sale wins over a product-wide one, which moves variants by their additional cost
+export function getTillPrice(
+  product: Product,
+  variant: ProductVariant | undefined,
+  schedules: ScheduledPrice[],
+  now = new Date()
+): TillPrice {
+  const regular = getRegularPrice(product, variant, schedules, now);
+  const sales = schedules.filter(entry => entry.kind === 'sale' && isLive(entry, now));
+  const variantSale = variant ? latestStarted(forTarget(sales, product.id, variant.id)) : undefined;
+  const productSale = latestStarted(forTarget(sales, product.id, null));
+
+  if (variantSale) {
+    return { price: variantSale.price, regular_price: regular, sale: variantSale };
+  }
+  if (productSale) {
+    const price = variant ? roundCurrency(productSale.price + variant.additional_cost) : productSale.price;
+    return { price, regular_price: regular, sale: productSale };
+  }
+  return { price: regular, regular_price: regular };
+}
+
+// Returns what's wrong with the entry, or null when it can be saved
+export function validateScheduledPrice(form: ScheduledPriceFormData, now = new Date()): string | null {
+  if (!(form.price >= 0)) return 'Enter a price';
+  if (!form.starts_at || Number.isNaN(new Date(form.starts_at).getTime())) return 'Enter when the price starts';
+
+  if (form.kind === 'sale') {
+    if (!form.ends_at || Number.isNaN(new Date(form.ends_at).getTime())) return 'Enter when the sale ends';
+    if (new Date(form.ends_at) <= new Date(form.starts_at)) return 'The sale must end after it starts';
+    if (new Date(form.ends_at) <= now) return 'The sale has already ended';
+  }
+  return null;
+}
+
+export function getPriceChangePercent(change: Pick<PriceChange, 'old_price' | 'new_price'>): number | null {
+  if (change.old_price === null || change.old_price === 0) return null;
+  return roundCurrency(((change.new_price - change.old_price) / change.old_price) * 100);
+}
+
+export const sortPriceHistory = (changes: PriceChange[]) =>
+  [...changes].sort((a, b) => b.created_at.localeCompare(a.created_at));
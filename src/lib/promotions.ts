@@ -0,0 +1,148 @@
+import { CartItem } from '../types/pos';
+import { AppliedPromotion, Promotion } from '../types/promotions';
+import { roundCurrency } from './utils';
+
+export interface PromotionContext {
+  now?: Date;
+  couponCodes?: string[];
+}
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return (hours || 0) * 60 + (minutes || 0);
+};
+
+export const normalizeCouponCode = (code: string) => code.trim().toUpperCase();
+
+// A promotion is live when it is active, inside its date range, inside its weekly
+// time window (windows may wrap past midnight) and, for coupons, the code was entered.
+export function isPromotionLive(promotion: Promotion, context: PromotionContext = {}): boolean {
+  const now = context.now || new Date();
+
+  if (!promotion.is_active) return false;
+  if (promotion.starts_at && new Date(promotion.starts_at) > now) return false;
+  if (promotion.ends_at && new Date(promotion.ends_at) < now) return false;
+
+  if (promotion.days_of_week && promotion.days_of_week.length > 0 &&
+      !promotion.days_of_week.includes(now.getDay())) {
+    return false;
+  }
+
+  if (promotion.start_time && promotion.end_time) {
+    const current = now.getHours() * 60 + now.getMinutes();
+    const start = toMinutes(promotion.start_time);
+    const end = toMinutes(promotion.end_time);
+    const inWindow = start <= end
+      ? current >= start && current < end
+      : current >= start || current < end;
+    if (!inWindow) return false;
+  }
+
+  if (promotion.coupon_code) {
+    const entered = (context.couponCodes || []).map(normalizeCouponCode);
+    if (!entered.includes(normalizeCouponCode(promotion.coupon_code))) return false;
+  }
+
+  return true;
+}
+
+export function promotionMatchesItem(promotion: Promotion, item: CartItem): boolean {
+  const productIds = promotion.product_ids || [];
+  const categoryIds = promotion.category_ids || [];
+
+  // A collected ticket is charged what was agreed on it
+  if (item.service_ticket_id) return false;
+  if (productIds.length === 0 && categoryIds.length === 0) return true;
+  if (productIds.includes(item.product_id)) return true;
+
+  return [item.category_id, item.subcategory_id].some(id => id && categoryIds.includes(id));
+}
+
+export function getPromotionDiscount(promotion: Promotion, item: CartItem): number {
+  const base = item.price * item.quantity;
+
+  switch (promotion.type) {
+    case 'percentage_off':
+      return base * ((promotion.discount_percentage || 0) / 100);
+
+    case 'fixed_price':
+      if (promotion.fixed_price === undefined || promotion.fixed_price === null) return 0;
+      return Math.max(0, item.price - promotion.fixed_price) * item.quantity;
+
+    case 'quantity_break': {
+      const tier = [...(promotion.quantity_breaks || [])]
+        .sort((a, b) => b.min_quantity - a.min_quantity)
+        .find(breakTier => item.quantity >= breakTier.min_quantity);
+      return tier ? base * (tier.discount_percentage / 100) : 0;
+    }
+
+    case 'buy_x_get_y': {
+      const buy = promotion.buy_quantity || 0;
+      const get = promotion.get_quantity || 0;
+      if (buy <= 0 || get <= 0) return 0;
+      const rewardedUnits = Math.floor(item.quantity / (buy + get)) * get;
+      const rewardPercentage = promotion.get_discount_percentage ?? 100;
+      return rewardedUnits * item.price * (rewardPercentage / 100);
+    }
+
+    default:
+      return 0;
+  }
+}
+
+// Evaluate every live promotion against each line. The best exclusive promotion
+// (highest priority, then largest saving) applies, plus any stackable ones, and the
+// combined line discount never exceeds the line's gross amount.
+export function applyPromotions(
+  items: CartItem[],
+  promotions: Promotion[],
+  context: PromotionContext = {}
+): CartItem[] {
+  const live = promotions.filter(promotion => isPromotionLive(promotion, context));
+
+  return items.map(item => {
+    const base = item.price * item.quantity;
+    const candidates = live
+      .filter(promotion => promotionMatchesItem(promotion, item))
+      .map(promotion => ({ promotion, amount: roundCurrency(getPromotionDiscount(promotion, item)) }))
+      .filter(candidate => candidate.amount > 0);
+
+    const exclusive = candidates
+      .filter(candidate => !candidate.promotion.stackable)
+      .sort((a, b) => (b.promotion.priority - a.promotion.priority) || (b.amount - a.amount))[0];
+    const stackable = candidates.filter(candidate => candidate.promotion.stackable);
+    const selected = exclusive ? [exclusive, ...stackable] : stackable;
+
+    let remaining = base;
+    const applied: AppliedPromotion[] = [];
+    selected.forEach(({ promotion, amount }) => {
+      const capped = roundCurrency(Math.min(amount, remaining));
+      if (capped <= 0) return;
+      remaining -= capped;
+      applied.push({
+        promotion_id: promotion.id,
+        name: promotion.name,
+        type: promotion.type,
+        amount: capped,
+        coupon_code: promotion.coupon_code
+      });
+    });
+
+    const discount = roundCurrency(applied.reduce((sum, promotion) => sum + promotion.amount, 0));
+
+    return {
+      ...item,
+      discount_amount: discount,
+      discount_percentage: base > 0 ? roundCurrency((discount / base) * 100) : 0,
+      subtotal: roundCurrency(base - discount),
+      promotions: applied.length > 0 ? applied : undefined
+    };
+  });
+}
+
+export function findCouponPromotion(promotions: Promotion[], code: string): Promotion | undefined {
+  const normalized = normalizeCouponCode(code);
+  return promotions.find(promotion =>
+    promotion.coupon_code && normalizeCouponCode(promotion.coupon_code) === normalized
+  );
+}
@@ -0,0 +1,107 @@
+import { Supplier } from '../types/supplier';
+import { roundCurrency, toDateInputValue } from './utils';
+import { PurchaseOrder, PurchaseOrderLine, PurchaseOrderStatus, ReceiveLine } from '../types/purchaseOrders';
+
+export function generatePurchaseOrderNumber(): string {
+  const date = new Date();
+  const dateStr = date.toISOString().slice(0, 10).replace(/-/g, '');
+  const timeStr = date.toTimeString().slice(0, 8).replace(/:/g, '');
+  const random = Math.floor(Math.random() * 1000).toString().padStart(3, '0');
+  return `PO${dateStr}${timeStr}${random}`;
+}
+
+export function calculatePurchaseOrderTotals(lines: PurchaseOrderLine[], discountPercentage: number) {
+  const subtotal = roundCurrency(lines.reduce((sum, line) => sum + line.quantity_ordered * line.unit_cost, 0));
+  const discount_amount = roundCurrency(subtotal * (discountPercentage / 100));
+
+  return {
+    subtotal,
+    discount_amount,
+    total: roundCurrency(subtotal - discount_amount)
+  };
+}
+
+// Amount still needed to reach the supplier's minimum order, or 0 when it is met.
+// The minimum applies to the subtotal before the supplier's discount.
+export function getMinimumOrderShortfall(subtotal: number, supplier?: Pick<Supplier, 'minimum_order_amount'>): number {
+  const minimum = supplier?.minimum_order_amount || 0;
+  return subtotal >= minimum ? 0 : roundCurrency(minimum - subtotal);
+}
+
+// Orders placed today are expected after the supplier's lead time
+export function getExpectedDeliveryDate(supplier: Pick<Supplier, 'lead_time_days'>, from = new Date()): string {
+  const date = new Date(from);
+  date.setDate(date.getDate() + (supplier.lead_time_days || 0));
+  return toDateInputValue(date);
+}
+
+export function getOutstandingQuantity(line: PurchaseOrderLine): number {
+  return Math.max(line.quantity_ordered - line.quantity_received, 0);
+}
+
+export function canReceive(order: PurchaseOrder): boolean {
+  return order.status === 'ordered' || order.status === 'partially_received';
+}
+
+export interface ReceiptResult {
+  order: PurchaseOrder;
+  // Lines with the quantity actually received this time (over-deliveries are capped)
+  received: (PurchaseOrderLine & { quantity: number; serials?: string[]; lot_number?: string; expiry_date?: string })[];
+}
+
+// Apply a delivery to the order. Quantities are capped at what is still outstanding;
+// the order is received once every line is complete.
+export function applyReceipt(order: PurchaseOrder, receiveLines: ReceiveLine[], notes?: string): ReceiptResult {
+  const now = new Date().toISOString();
+  const requested = new Map(receiveLines.map(line => [line.line_id, line]));
+  const received: ReceiptResult['received'] = [];
+
+  const lines = order.lines.map(line => {
+    const request = requested.get(line.id);
+    const quantity = Math.min(Math.max(request?.quantity || 0, 0), getOutstandingQuantity(line));
+    if (quantity <= 0) return line;
+
+    received.push({
+      ...line,
+      quantity,
+      serials: request?.serials?.slice(0, quantity),
+      lot_number: request?.lot_number,
+      expiry_date: request?.expiry_date
+    });
+    return { ...line, quantity_received: line.quantity_received + quantity };
+  });
+
+  const complete = lines.every(line => getOutstandingQuantity(line) === 0);
+  const status: PurchaseOrderStatus = complete ? 'received' : 'partially_received';
+
+  return {
+    order: {
+      ...order,
+      lines,
+      status,
+      receipts: [
+        ...order.receipts,
+        {
+          received_at: now,
+          lines: received.map(line => ({
+            line_id: line.id,
+            quantity: line.quantity,
+            serials: line.serials,
+            lot_number: line.lot_number,
+            expiry_date: line.expiry_date
+          })),
+          notes
+        }
+      ],
+      received_at: complete ? now : order.received_at,
+      updated_at: now
+    },
+    received
+  };
+}
+
+export function describeReceipt(order: PurchaseOrder, received: ReceiptResult['received']): string {
+  const units = received.reduce((sum, line) => sum + line.quantity, 0);
+  const kind = order.status === 'received' ? 'Final delivery' : 'Partial delivery';
+  return `${kind} for ${order.po_number}: ${units} unit(s) across ${received.length} line(s)`;
+}
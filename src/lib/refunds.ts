@@ -0,0 +1,106 @@
+import { CartItem, PaymentMethod, RefundRequest, Transaction } from '../types/pos';
+import { summarizeTaxes } from './tax';
+import { roundQuantity } from './units';
+import { roundCurrency } from './utils';
+
+// Sum the quantities already returned per original cart line across prior refunds.
+// Refund lines carry negative quantities, so the absolute value is accumulated.
+export function getRefundedQuantities(refunds: Transaction[]): Record<string, number> {
+  return refunds.reduce<Record<string, number>>((acc, refund) => {
+    refund.items.forEach(item => {
+      acc[item.id] = roundQuantity((acc[item.id] || 0) + Math.abs(item.quantity));
+    });
+    return acc;
+  }, {});
+}
+
+export function getRefundableQuantity(item: CartItem, refunded: Record<string, number>): number {
+  return Math.max(0, roundQuantity(item.quantity - (refunded[item.id] || 0)));
+}
+
+export function isFullyRefunded(transaction: Transaction, refunded: Record<string, number>): boolean {
+  return transaction.items.every(item => getRefundableQuantity(item, refunded) === 0);
+}
+
+// Build a refund transaction mirroring the original sale. Every monetary field is
+// negative so that totals over sales and refunds net out. Order-level discount and
+// tax are prorated by each returned line's share of the original subtotal; sales that
+// recorded per-line tax refund each line's own tax so the per-rate breakdown nets out.
+export function buildRefundTransaction(
+  request: RefundRequest,
+  refunded: Record<string, number>,
+  transactionNumber: string
+): Transaction {
+  const { original, lines, tender, reason } = request;
+
+  const items: CartItem[] = lines
+    .filter(line => line.quantity > 0)
+    .map(line => {
+      const item = original.items.find(i => i.id === line.item_id);
+      if (!item) {
+        throw new Error(`Item ${line.item_id} is not part of transaction ${original.transaction_number}`);
+      }
+
+      const available = getRefundableQuantity(item, refunded);
+      if (line.quantity > available) {
+        throw new Error(`Cannot return ${line.quantity} of ${item.name}; only ${available} remaining`);
+      }
+
+      const unitSubtotal = item.quantity > 0 ? item.subtotal / item.quantity : item.price;
+      const lineShare = item.quantity > 0 ? line.quantity / item.quantity : 0;
+      return {
+        ...item,
+        quantity: -line.quantity,
+        discount_amount: -roundCurrency((item.discount_amount / item.quantity) * line.quantity || 0),
+        subtotal: -roundCurrency(unitSubtotal * line.quantity),
+        tax_amount: item.tax_amount !== undefined ? -roundCurrency(item.tax_amount * lineShare) : undefined,
+        taxable_amount: item.taxable_amount !== undefined ? -roundCurrency(item.taxable_amount * lineShare) : undefined,
+        restock: line.restock
+      };
+    });
+
+  if (items.length === 0) {
+    throw new Error('Select at least one item to refund');
+  }
+
+  const subtotal = roundCurrency(items.reduce((sum, item) => sum + item.subtotal, 0));
+  const share = original.subtotal !== 0 ? subtotal / original.subtotal : 0;
+  const discountAmount = roundCurrency(original.discount_amount * share);
+  const taxBreakdown = original.tax_breakdown
+    ? summarizeTaxes(items, !!original.prices_include_tax)
+    : undefined;
+  const taxAmount = taxBreakdown
+    ? roundCurrency(taxBreakdown.reduce((sum, line) => sum + line.tax_amount, 0))
+    : roundCurrency(original.tax_amount * share);
+  const total = original.prices_include_tax
+    ? roundCurrency(subtotal - discountAmount)
+    : roundCurrency(subtotal - discountAmount + taxAmount);
+
+  const paymentMethod: PaymentMethod = {
+    type: tender,
+    amount: total,
+    cash_amount: tender === 'cash' ? total : undefined,
+    card_amount: tender === 'card' ? total : undefined,
+    change_due: 0
+  };
+
+  return {
+    id: `temp_${Date.now()}`,
+    transaction_number: transactionNumber,
+    items,
+    subtotal,
+    discount_amount: discountAmount,
+    tax_amount: taxAmount,
+    tax_breakdown: taxBreakdown,
+    prices_include_tax: original.prices_include_tax,
+    total,
+    payment_method: paymentMethod,
+    customer_id: original.customer_id,
+    created_at: new Date().toISOString(),
+    status: 'completed',
+    transaction_type: 'refund',
+    original_transaction_id: original.id,
+    original_transaction_number: original.transaction_number,
+    refund_reason: reason
+  };
+}
@@ -0,0 +1,93 @@
+import { Transaction } from '../types/pos';
+import { PaymentBreakdown, RegisterSession, ZReport } from '../types/register';
+import { roundCurrency } from './utils';
+
+const emptyBreakdown = (): PaymentBreakdown => ({ count: 0, total: 0, cash: 0, card: 0 });
+
+// Cash that actually stayed in the drawer for a transaction: tendered cash minus change.
+// Refunds carry a negative cash amount, so they reduce the drawer automatically.
+export function getDrawerCash(transaction: Transaction): number {
+  const { payment_method } = transaction;
+  if (payment_method.type === 'card') return 0;
+  return (payment_method.cash_amount || 0) - (payment_method.change_due || 0);
+}
+
+export function buildZReport(session: RegisterSession, transactions: Transaction[]): ZReport {
+  const completed = transactions.filter(tx =>
+    tx.register_session_number === session.session_number && tx.status === 'completed'
+  );
+  const sales = completed.filter(tx => tx.transaction_type !== 'refund');
+  const refunds = completed.filter(tx => tx.transaction_type === 'refund');
+
+  const payments = { cash: emptyBreakdown(), card: emptyBreakdown(), mixed: emptyBreakdown() };
+  let changeGiven = 0;
+
+  completed.forEach(tx => {
+    const { payment_method } = tx;
+    const breakdown = payments[payment_method.type];
+    const drawerCash = getDrawerCash(tx);
+    const card = payment_method.type === 'card'
+      ? (payment_method.card_amount ?? tx.total)
+      : (payment_method.card_amount || 0);
+
+    breakdown.count += 1;
+    breakdown.total += tx.total;
+    breakdown.cash += drawerCash;
+    breakdown.card += card;
+    changeGiven += payment_method.change_due || 0;
+  });
+
+  Object.values(payments).forEach(breakdown => {
+    breakdown.total = roundCurrency(breakdown.total);
+    breakdown.cash = roundCurrency(breakdown.cash);
+    breakdown.card = roundCurrency(breakdown.card);
+  });
+
+  const sum = (list: Transaction[], field: 'total' | 'discount_amount' | 'tax_amount') =>
+    roundCurrency(list.reduce((acc, tx) => acc + (tx[field] || 0), 0));
+
+  const cashIn = roundCurrency(session.cash_movements
+    .filter(movement => movement.type === 'cash_in')
+    .reduce((acc, movement) => acc + movement.amount, 0));
+  const cashOut = roundCurrency(session.cash_movements
+    .filter(movement => movement.type === 'cash_out')
+    .reduce((acc, movement) => acc + movement.amount, 0));
+
+  const cashSales = roundCurrency(payments.cash.cash + payments.mixed.cash);
+  const expectedCash = roundCurrency(session.opening_float + cashSales + cashIn - cashOut);
+  const grossSales = sum(sales, 'total');
+  const refundsTotal = sum(refunds, 'total');
+
+  return {
+    session_number: session.session_number,
+    cashier_name: session.cashier_name,
+    opened_at: session.opened_at,
+    closed_at: session.closed_at,
+    sale_count: sales.length,
+    refund_count: refunds.length,
+    gross_sales: grossSales,
+    refunds_total: refundsTotal,
+    net_sales: roundCurrency(grossSales + refundsTotal),
+    discount_total: sum(completed, 'discount_amount'),
+    tax_total: sum(completed, 'tax_amount'),
+    payments,
+    change_given: roundCurrency(changeGiven),
+    opening_float: session.opening_float,
+    cash_sales: cashSales,
+    cash_in: cashIn,
+    cash_out: cashOut,
+    expected_cash: expectedCash,
+    counted_cash: session.counted_cash,
+    variance: session.counted_cash !== undefined
+      ? roundCurrency(session.counted_cash - expectedCash)
+      : undefined
+  };
+}
+
+export function generateSessionNumber(): string {
+  const date = new Date();
+  const dateStr = date.toISOString().slice(0, 10).replace(/-/g, '');
+  const timeStr = date.toTimeString().slice(0, 8).replace(/:/g, '');
+  const random = Math.floor(Math.random() * 1000).toString().padStart(3, '0');
+  return `REG${dateStr}${timeStr}${random}`;
+}
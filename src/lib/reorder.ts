@@ -0,0 +1,152 @@
+import { Product } from '../types/inventory';
+import { Supplier } from '../types/supplier';
+import { PurchaseOrder } from '../types/purchaseOrders';
+import { DemandLine, ReorderSettings, ReorderSuggestion, SupplierReorderPlan } from '../types/reorder';
+import { isKit } from './kits';
+import { getMinimumOrderShortfall, getOutstandingQuantity } from './purchaseOrders';
+import { roundQuantity } from './units';
+import { roundCurrency } from './utils';
+import { activeVariants } from './variants';
+
+export const DEFAULT_REORDER_SETTINGS: ReorderSettings = {
+  lookback_days: 30,
+  coverage_days: 14,
+  safety_days: 3
+};
+
+// Kits hold no stock, so a kit sold is demand for each of its components at the kit's
+// current make-up; without this, items sold mostly in bundles would never be reordered
+export function expandKitDemand(lines: DemandLine[], products: Product[]): DemandLine[] {
+  const kitsById = new Map(products.filter(isKit).map(kit => [kit.id, kit]));
+
+  return lines.flatMap(line => {
+    const kit = kitsById.get(line.product_id);
+    if (!kit) return [line];
+    return kit.kit_components!.map(component => ({
+      ...line,
+      product_id: component.product_id,
+      quantity: roundQuantity(line.quantity * component.quantity)
+    }));
+  });
+}
+
+// Average units sold per day over the lookback window, net of refunds
+export function calculateDailySales(lines: DemandLine[], lookbackDays: number): Map<string, number> {
+  const net = new Map<string, number>();
+  lines.forEach(line => {
+    net.set(line.product_id, (net.get(line.product_id) || 0) + line.quantity);
+  });
+
+  const days = Math.max(lookbackDays, 1);
+  const daily = new Map<string, number>();
+  net.forEach((quantity, productId) => {
+    if (quantity > 0) daily.set(productId, quantity / days);
+  });
+  return daily;
+}
+
+// Units still to arrive from drafts and open orders, so nothing is suggested twice
+export function getOnOrderQuantities(orders: PurchaseOrder[]): Map<string, number> {
+  const onOrder = new Map<string, number>();
+  orders
+    .filter(order => order.status === 'draft' || order.status === 'ordered' || order.status === 'partially_received')
+    .forEach(order => {
+      order.lines.forEach(line => {
+        onOrder.set(line.product_id, (onOrder.get(line.product_id) || 0) + getOutstandingQuantity(line));
+      });
+    });
+  return onOrder;
+}
+
+// A product is reordered once stock on hand plus on order falls to what sells during the
+// supplier's lead time plus the safety days; the order then tops it up so the safety stock
+// is still there after the coverage days. The static minimum stock level is kept as a floor.
+export function buildReorderSuggestions(
+  products: Product[],
+  suppliers: Supplier[],
+  dailySales: Map<string, number>,
+  onOrder: Map<string, number>,
+  settings: ReorderSettings
+): ReorderSuggestion[] {
+  const suppliersById = new Map(suppliers.filter(s => s.is_active).map(s => [s.id, s]));
+
+  return products.flatMap(product => {
+    const supplier = product.supplier_id ? suppliersById.get(product.supplier_id) : undefined;
+    if (!product.is_active || !supplier || product.is_kit) return [];
+
+    const avgDailySales = dailySales.get(product.id) || 0;
+    const leadTime = supplier.lead_time_days || 0;
+    const minStock = product.min_stock_level || 0;
+    // Sales of a variant count towards its product, so its stock does too
+    const onHand = roundQuantity(activeVariants(product).reduce(
+      (sum, variant) => sum + Math.max(variant.quantity_in_stock, 0),
+      Math.max(product.quantity_in_stock, 0)
+    ));
+    const incoming = onOrder.get(product.id) || 0;
+
+    const reorderPoint = Math.ceil(Math.max(avgDailySales * (leadTime + settings.safety_days), minStock));
+    const target = Math.max(avgDailySales * (leadTime + settings.coverage_days + settings.safety_days), minStock);
+    if (onHand + incoming > reorderPoint || target <= 0) return [];
+
+    const suggested = Math.ceil(target - onHand - incoming);
+    if (suggested <= 0) return [];
+
+    return [{
+      product_id: product.id,
+      product_name: product.name,
+      product_code: product.product_code,
+      supplier_id: supplier.id,
+      unit_cost: product.cost_price,
+      on_hand: onHand,
+      on_order: incoming,
+      min_stock_level: minStock,
+      avg_daily_sales: avgDailySales,
+      days_of_cover: avgDailySales > 0 ? onHand / avgDailySales : null,
+      reorder_point: reorderPoint,
+      suggested_quantity: suggested
+    }];
+  });
+}
+
+// Edited quantities are keyed by product id. Excluded lines stay in the plan but are left
+// out of the subtotal, since they will not be ordered.
+export function groupSuggestionsBySupplier(
+  suggestions: ReorderSuggestion[],
+  suppliers: Supplier[],
+  quantities: Record<string, number> = {},
+  excluded: Set<string> = new Set()
+): SupplierReorderPlan[] {
+  return suppliers
+    .map(supplier => {
+      const lines = suggestions
+        .filter(line => line.supplier_id === supplier.id)
+        .map(line => ({ ...line, suggested_quantity: quantities[line.product_id] ?? line.suggested_quantity }))
+        .sort((a, b) => (a.days_of_cover ?? Infinity) - (b.days_of_cover ?? Infinity));
+      const subtotal = roundCurrency(lines
+        .filter(line => !excluded.has(line.product_id))
+        .reduce((sum, line) => sum + line.suggested_quantity * line.unit_cost, 0));
+      return { supplier, lines, subtotal, shortfall: getMinimumOrderShortfall(subtotal, supplier) };
+    })
+    .filter(plan => plan.lines.length > 0);
+}
+
+// Cover a minimum order shortfall by ordering more of the fastest sellers first,
+// where the extra units are least likely to sit on the shelf
+export function topUpToMinimum(lines: ReorderSuggestion[], shortfall: number): Record<string, number> {
+  const quantities = Object.fromEntries(lines.map(line => [line.product_id, line.suggested_quantity]));
+  const candidates = lines
+    .filter(line => line.unit_cost > 0)
+    .sort((a, b) => b.avg_daily_sales - a.avg_daily_sales);
+  if (candidates.length === 0) return quantities;
+
+  let remaining = shortfall;
+  for (let i = 0; remaining > 0; i = (i + 1) % candidates.length) {
+    const line = candidates[i];
+    // Spread the top-up in steps of about a day of sales, at least one unit
+    const step = Math.max(Math.ceil(line.avg_daily_sales), 1);
+    const units = Math.min(step, Math.ceil(remaining / line.unit_cost));
+    quantities[line.product_id] += units;
+    remaining = roundCurrency(remaining - units * line.unit_cost);
+  }
+  return quantities;
+}
@@ -0,0 +1,84 @@
+import { ReportRow, ReportValueType } from '../types/reports';
+import { formatReportValue } from './reports';
+import { downloadBlob, toCSVText } from './spreadsheet';
+import { escapeHtml } from './utils';
+
+export interface ExportColumn {
+  key: string;
+  label: string;
+  type: ReportValueType;
+}
+
+export interface ExportOptions {
+  title: string;
+  subtitle?: string;
+  columns: ExportColumn[];
+  rows: ReportRow[];
+  totals?: ReportRow;
+  currency?: string;
+}
+
+// Numbers stay raw in CSV so spreadsheets can sum them
+const csvValue = (value: string | number | undefined, type: ReportValueType) => {
+  if (value === undefined || value === '') return '';
+  if (type === 'currency') return Number(value).toFixed(2);
+  return String(value);
+};
+
+export function toCSV({ columns, rows, totals }: ExportOptions): string {
+  return toCSVText([
+    columns.map(col => col.label),
+    ...[...rows, ...(totals ? [totals] : [])].map(row => columns.map(col => csvValue(row[col.key], col.type)))
+  ]);
+}
+
+export function downloadCSV(filename: string, options: ExportOptions) {
+  // BOM so Excel opens accented labels as UTF-8
+  const blob = new Blob(['\uFEFF', toCSV(options)], { type: 'text/csv;charset=utf-8' });
+  downloadBlob(filename.endsWith('.csv') ? filename : `${filename}.csv`, blob);
+}
+
+// Opens the table alone in a new window and hands it to the browser's print
+// dialog, which also covers "Save as PDF"
+export function printReport({ title, subtitle, columns, rows, totals, currency }: ExportOptions) {
+  const printWindow = window.open('', '_blank', 'width=1024,height=768');
+  if (!printWindow) {
+    throw new Error('Unable to open the print window. Please allow pop-ups for this site.');
+  }
+
+  const cell = (row: ReportRow, col: ExportColumn, tag: 'td' | 'th') =>
+    `<${tag} class="${col.type === 'text' ? '' : 'num'}">${escapeHtml(formatReportValue(row[col.key], col.type, currency))}</${tag}>`;
+
+  const body = rows.map(row => `<tr>${columns.map(col => cell(row, col, 'td')).join('')}</tr>`).join('');
+  const footer = totals ? `<tfoot><tr>${columns.map(col => cell(totals, col, 'th')).join('')}</tr></tfoot>` : '';
+
+  printWindow.document.write(`<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8" />
+<title>${escapeHtml(title)}</title>
+<style>
+  body { font-family: system-ui, sans-serif; color: #111; margin: 24px; }
+  h1 { font-size: 20px; margin: 0 0 4px; }
+  p { font-size: 12px; color: #555; margin: 0 0 16px; }
+  table { width: 100%; border-collapse: collapse; font-size: 12px; }
+  th, td { border-bottom: 1px solid #ddd; padding: 6px 8px; text-align: left; }
+  thead th { background: #f3f4f6; }
+  tfoot th { border-top: 2px solid #111; }
+  .num { text-align: right; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+${subtitle ? `<p>${escapeHtml(subtitle)}</p>` : ''}
+<table>
+<thead><tr>${columns.map(col => `<th class="${col.type === 'text' ? '' : 'num'}">${escapeHtml(col.label)}</th>`).join('')}</tr></thead>
+<tbody>${body}</tbody>
+${footer}
+</table>
+</body>
+</html>`);
+  printWindow.document.close();
+  printWindow.focus();
+  printWindow.print();
+}
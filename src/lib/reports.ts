@@ -0,0 +1,529 @@
+import { Category, Product } from '../types/inventory';
+import {
+  PriceChangeLine,
+  ReportColumn,
+  ReportFilters,
+  ReportRow,
+  ReportSession,
+  ReportSourceData,
+  ReportTable,
+  ReportTicket,
+  ReportTransaction,
+  ReportType,
+  ReportValueType,
+  SalesLine
+} from '../types/reports';
+import { getLocationQuantity } from './locations';
+import { roundQuantity } from './units';
+import { formatCurrency, roundCurrency, toDateInputValue, toDateTimeInputValue } from './utils';
+import { activeVariants } from './variants';
+
+export interface ReportContext {
+  products: Product[];
+  categories: Category[];
+  translate: (key: string) => string;
+  // Inventory valuation counts the stock held here; without one it counts every location
+  locationId?: string | null;
+}
+
+type NetFields = Pick<ReportTransaction, 'subtotal' | 'discount_amount' | 'tax_amount' | 'prices_include_tax'>;
+
+const column = (key: string, type: ReportValueType = 'currency'): ReportColumn => ({ key, label: key, type });
+
+// Local-day bounds as ISO strings so they compare directly against stored created_at values
+export function getDateRangeBounds(filters: ReportFilters): { start: string; end: string } {
+  return {
+    start: new Date(`${filters.date_from}T00:00:00`).toISOString(),
+    end: new Date(`${filters.date_to}T23:59:59.999`).toISOString()
+  };
+}
+
+// Revenue excluding discounts and tax; negative for refunds
+export function getTransactionNet(transaction: NetFields): number {
+  const tax = transaction.prices_include_tax ? transaction.tax_amount || 0 : 0;
+  return transaction.subtotal - (transaction.discount_amount || 0) - tax;
+}
+
+// A line's share of its transaction's net revenue, so order discounts and
+// inclusive tax are spread the same way the till spread them
+export function allocateLineNet(lineSubtotal: number, transaction: NetFields): number {
+  if (!transaction.subtotal) return lineSubtotal;
+  return (lineSubtotal / transaction.subtotal) * getTransactionNet(transaction);
+}
+
+const flattenCategories = (categories: Category[]): Category[] =>
+  categories.flatMap(category => [category, ...flattenCategories(category.children || [])]);
+
+const sumRows = (rows: ReportRow[], keys: string[]): ReportRow =>
+  Object.fromEntries(keys.map(key => [key, roundCurrency(rows.reduce((sum, row) => sum + Number(row[key] || 0), 0))]));
+
+const percentOf = (part: number, whole: number) => (whole !== 0 ? roundCurrency((part / whole) * 100) : 0);
+
+const TRANSACTION_TOTAL_KEYS = ['sale_count', 'refund_count', 'gross_sales', 'discounts', 'net_sales', 'tax', 'total'];
+
+// Shared accumulator for reports that group whole transactions (by day, by cashier)
+function groupTransactions(
+  transactions: ReportTransaction[],
+  groupKey: (transaction: ReportTransaction) => string
+): Map<string, ReportRow> {
+  const groups = new Map<string, ReportRow>();
+
+  transactions.forEach(transaction => {
+    const key = groupKey(transaction);
+    const row = groups.get(key) || Object.fromEntries(TRANSACTION_TOTAL_KEYS.map(k => [k, 0]));
+    const isRefund = transaction.transaction_type === 'refund';
+
+    row.sale_count = Number(row.sale_count) + (isRefund ? 0 : 1);
+    row.refund_count = Number(row.refund_count) + (isRefund ? 1 : 0);
+    row.gross_sales = roundCurrency(Number(row.gross_sales) + transaction.subtotal);
+    row.discounts = roundCurrency(Number(row.discounts) + (transaction.discount_amount || 0));
+    row.net_sales = roundCurrency(Number(row.net_sales) + getTransactionNet(transaction));
+    row.tax = roundCurrency(Number(row.tax) + (transaction.tax_amount || 0));
+    row.total = roundCurrency(Number(row.total) + transaction.total);
+    groups.set(key, row);
+  });
+
+  return groups;
+}
+
+function localDateKey(iso: string): string {
+  return toDateInputValue(new Date(iso));
+}
+
+export function buildSalesByDay(transactions: ReportTransaction[]): ReportTable {
+  const groups = groupTransactions(transactions, transaction => localDateKey(transaction.created_at));
+  const rows = Array.from(groups.entries())
+    .map(([date, row]) => ({ key: date, date, ...row }))
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  return {
+    columns: [
+      column('date', 'text'),
+      column('sale_count', 'number'),
+      column('refund_count', 'number'),
+      column('gross_sales'),
+      column('discounts'),
+      column('net_sales'),
+      column('tax'),
+      column('total')
+    ],
+    rows,
+    totals: { date: '', ...sumRows(rows, TRANSACTION_TOTAL_KEYS) }
+  };
+}
+
+export function buildSalesByCashier(
+  transactions: ReportTransaction[],
+  sessions: ReportSession[],
+  translate: (key: string) => string
+): ReportTable {
+  const cashiers = new Map(sessions.map(session => [session.session_number, session.cashier_name]));
+  const unassigned = translate('reports.unassigned');
+  const groups = groupTransactions(transactions, transaction =>
+    (transaction.register_session_number && cashiers.get(transaction.register_session_number)) || unassigned
+  );
+  const rows = Array.from(groups.entries())
+    .map(([cashier, row]): ReportRow => ({
+      key: cashier,
+      cashier,
+      ...row,
+      average_sale: Number(row.sale_count) > 0 ? roundCurrency(Number(row.net_sales) / Number(row.sale_count)) : 0
+    }))
+    .sort((a, b) => Number(b.net_sales) - Number(a.net_sales));
+
+  const totals = sumRows(rows, TRANSACTION_TOTAL_KEYS);
+
+  return {
+    columns: [
+      column('cashier', 'text'),
+      column('sale_count', 'number'),
+      column('refund_count', 'number'),
+      column('gross_sales'),
+      column('discounts'),
+      column('net_sales'),
+      column('average_sale'),
+      column('tax'),
+      column('total')
+    ],
+    rows,
+    totals: {
+      cashier: '',
+      ...totals,
+      average_sale: Number(totals.sale_count) > 0 ? roundCurrency(Number(totals.net_sales) / Number(totals.sale_count)) : 0
+    }
+  };
+}
+
+function groupLinesByProduct(lines: SalesLine[]) {
+  const groups = new Map<string, { line: SalesLine; quantity: number; net: number; cost: number }>();
+
+  lines.forEach(line => {
+    const existing = groups.get(line.product_id);
+    if (existing) {
+      existing.quantity += line.quantity;
+      existing.net += line.net_amount;
+      existing.cost += line.cost_amount;
+    } else {
+      groups.set(line.product_id, { line, quantity: line.quantity, net: line.net_amount, cost: line.cost_amount });
+    }
+  });
+
+  return Array.from(groups.values());
+}
+
+export function buildSalesByProduct(lines: SalesLine[]): ReportTable {
+  const rows = groupLinesByProduct(lines)
+    .map(({ line, quantity, net }) => ({
+      key: line.product_id,
+      product: line.product_name,
+      product_code: line.product_code,
+      quantity,
+      net_sales: roundCurrency(net),
+      average_price: quantity !== 0 ? roundCurrency(net / quantity) : 0
+    }))
+    .sort((a, b) => b.net_sales - a.net_sales);
+
+  return {
+    columns: [
+      column('product', 'text'),
+      column('product_code', 'text'),
+      column('quantity', 'number'),
+      column('net_sales'),
+      column('average_price')
+    ],
+    rows,
+    totals: { product: '', product_code: '', ...sumRows(rows, ['quantity', 'net_sales']), average_price: '' }
+  };
+}
+
+// Units of each component that left the shelf inside kits. Lines synced from the server don't
+// carry the components, so those use the kit's current make-up.
+export function buildKitComponentSales(lines: SalesLine[], products: Product[]): ReportTable {
+  const productsById = new Map(products.map(product => [product.id, product]));
+  const groups = new Map<string, { name: string; product_code: string; quantity: number; kits: Set<string> }>();
+
+  lines.forEach(line => {
+    const components = line.kit_components || productsById.get(line.product_id)?.kit_components || [];
+    components.forEach(component => {
+      const key = `${component.product_id}:${component.variant_id || ''}`;
+      const group = groups.get(key) || { name: component.name, product_code: component.product_code, quantity: 0, kits: new Set() };
+      group.quantity += line.quantity * component.quantity;
+      group.kits.add(line.product_name);
+      groups.set(key, group);
+    });
+  });
+
+  const rows = Array.from(groups.entries())
+    .map(([key, group]) => ({
+      key,
+      product: group.name,
+      product_code: group.product_code,
+      quantity: group.quantity,
+      kits: Array.from(group.kits).sort().join(', ')
+    }))
+    .sort((a, b) => b.quantity - a.quantity);
+
+  return {
+    columns: [
+      column('product', 'text'),
+      column('product_code', 'text'),
+      column('quantity', 'number'),
+      column('kits', 'text')
+    ],
+    rows,
+    totals: { product: '', product_code: '', ...sumRows(rows, ['quantity']), kits: '' }
+  };
+}
+
+export function buildSalesByCategory(
+  lines: SalesLine[],
+  categories: Category[],
+  translate: (key: string) => string
+): ReportTable {
+  const names = new Map(flattenCategories(categories).map(category => [category.id, category.name]));
+  const groups = new Map<string, { quantity: number; net: number }>();
+
+  lines.forEach(line => {
+    const key = line.category_id || '';
+    const existing = groups.get(key) || { quantity: 0, net: 0 };
+    existing.quantity += line.quantity;
+    existing.net += line.net_amount;
+    groups.set(key, existing);
+  });
+
+  const totalNet = lines.reduce((sum, line) => sum + line.net_amount, 0);
+  const rows = Array.from(groups.entries())
+    .map(([categoryId, group]) => ({
+      key: categoryId || 'uncategorized',
+      category: names.get(categoryId) || translate('reports.uncategorized'),
+      quantity: group.quantity,
+      net_sales: roundCurrency(group.net),
+      share: percentOf(group.net, totalNet)
+    }))
+    .sort((a, b) => b.net_sales - a.net_sales);
+
+  return {
+    columns: [
+      column('category', 'text'),
+      column('quantity', 'number'),
+      column('net_sales'),
+      column('share', 'percent')
+    ],
+    rows,
+    totals: { category: '', ...sumRows(rows, ['quantity', 'net_sales']), share: rows.length > 0 ? 100 : 0 }
+  };
+}
+
+export function buildGrossMargin(lines: SalesLine[]): ReportTable {
+  const rows = groupLinesByProduct(lines)
+    .map(({ line, quantity, net, cost }) => ({
+      key: line.product_id,
+      product: line.product_name,
+      product_code: line.product_code,
+      quantity,
+      net_sales: roundCurrency(net),
+      cost: roundCurrency(cost),
+      margin: roundCurrency(net - cost),
+      margin_percent: percentOf(net - cost, net)
+    }))
+    .sort((a, b) => b.margin - a.margin);
+
+  const totals = sumRows(rows, ['quantity', 'net_sales', 'cost', 'margin']);
+
+  return {
+    columns: [
+      column('product', 'text'),
+      column('product_code', 'text'),
+      column('quantity', 'number'),
+      column('net_sales'),
+      column('cost'),
+      column('margin'),
+      column('margin_percent', 'percent')
+    ],
+    rows,
+    totals: {
+      product: '',
+      product_code: '',
+      ...totals,
+      margin_percent: percentOf(Number(totals.margin), Number(totals.net_sales))
+    }
+  };
+}
+
+// Current stock valued at cost and at selling price, grouped by category
+export function buildInventoryValuation(
+  products: Product[],
+  categories: Category[],
+  translate: (key: string) => string,
+  locationId?: string | null
+): ReportTable {
+  const names = new Map(flattenCategories(categories).map(category => [category.id, category.name]));
+  const groups = new Map<string, ReportRow>();
+
+  // Kits hold no stock of their own; each variant holds its own stock at its own price,
+  // and costs what its product costs
+  products.filter(product => product.is_active && !product.is_kit).forEach(product => {
+    const key = product.category_id || '';
+    const holdings = [
+      { units: Math.max(getLocationQuantity(product, locationId), 0), price: product.selling_price },
+      ...activeVariants(product).map(variant => ({
+        units: Math.max(getLocationQuantity(product, locationId, variant.id), 0),
+        price: roundCurrency(product.selling_price + variant.additional_cost)
+      }))
+    ];
+    const units = holdings.reduce((sum, holding) => roundQuantity(sum + holding.units), 0);
+    const retail = holdings.reduce((sum, holding) => sum + holding.units * holding.price, 0);
+    const row = groups.get(key) || {
+      key: key || 'uncategorized',
+      category: names.get(key) || translate('reports.uncategorized'),
+      product_count: 0,
+      units: 0,
+      cost_value: 0,
+      retail_value: 0,
+      potential_margin: 0
+    };
+
+    row.product_count = Number(row.product_count) + 1;
+    row.units = roundQuantity(Number(row.units) + units);
+    row.cost_value = roundCurrency(Number(row.cost_value) + units * product.cost_price);
+    row.retail_value = roundCurrency(Number(row.retail_value) + retail);
+    row.potential_margin = roundCurrency(Number(row.retail_value) - Number(row.cost_value));
+    groups.set(key, row);
+  });
+
+  const rows = Array.from(groups.values()).sort((a, b) => Number(b.cost_value) - Number(a.cost_value));
+
+  return {
+    columns: [
+      column('category', 'text'),
+      column('product_count', 'number'),
+      column('units', 'number'),
+      column('cost_value'),
+      column('retail_value'),
+      column('potential_margin')
+    ],
+    rows,
+    totals: { category: '', ...sumRows(rows, ['product_count', 'units', 'cost_value', 'retail_value', 'potential_margin']) }
+  };
+}
+
+// Tax grouped by class and rate; transactions recorded before per-rate
+// breakdowns existed are reported as a single unnamed line
+export function buildTaxCollected(transactions: ReportTransaction[], translate: (key: string) => string): ReportTable {
+  const groups = new Map<string, ReportRow>();
+
+  const add = (name: string, rate: number | string, taxable: number, tax: number) => {
+    const key = `${name}:${rate}`;
+    const row = groups.get(key) || { key, tax_name: name, rate, taxable_amount: 0, tax_amount: 0 };
+    row.taxable_amount = roundCurrency(Number(row.taxable_amount) + taxable);
+    row.tax_amount = roundCurrency(Number(row.tax_amount) + tax);
+    groups.set(key, row);
+  };
+
+  transactions.forEach(transaction => {
+    if (transaction.tax_breakdown && transaction.tax_breakdown.length > 0) {
+      transaction.tax_breakdown.forEach(line => add(line.name, line.rate, line.taxable_amount, line.tax_amount));
+    } else if (transaction.tax_amount) {
+      add(translate('reports.unspecifiedTax'), '', getTransactionNet(transaction), transaction.tax_amount);
+    }
+  });
+
+  const rows = Array.from(groups.values()).sort((a, b) => Number(b.tax_amount) - Number(a.tax_amount));
+
+  return {
+    columns: [
+      column('tax_name', 'text'),
+      column('rate', 'percent'),
+      column('taxable_amount'),
+      column('tax_amount')
+    ],
+    rows,
+    totals: { tax_name: '', rate: '', ...sumRows(rows, ['taxable_amount', 'tax_amount']) }
+  };
+}
+
+// Ticket value is the final price once set, otherwise the quote
+export function getTicketAmount(ticket: ReportTicket): number {
+  return ticket.final_price ?? ticket.price_quote ?? 0;
+}
+
+export function buildTicketRevenue(tickets: ReportTicket[], translate: (key: string) => string): ReportTable {
+  const groups = new Map<string, ReportRow>();
+
+  tickets.filter(ticket => ticket.status !== 'canceled').forEach(ticket => {
+    const row = groups.get(ticket.type) || {
+      key: ticket.type,
+      ticket_type: translate(`reports.ticketTypes.${ticket.type}`),
+      ticket_count: 0,
+      completed_count: 0,
+      paid_count: 0,
+      collected_count: 0,
+      revenue: 0,
+      outstanding: 0
+    };
+    const amount = getTicketAmount(ticket);
+    const isDone = ticket.status === 'completed' || ticket.status === 'delivered';
+
+    row.ticket_count = Number(row.ticket_count) + 1;
+    row.completed_count = Number(row.completed_count) + (isDone ? 1 : 0);
+    row.paid_count = Number(row.paid_count) + (ticket.paid ? 1 : 0);
+    // Paid through a POS sale rather than outside the till
+    row.collected_count = Number(row.collected_count) + (ticket.transaction_id ? 1 : 0);
+    row.revenue = roundCurrency(Number(row.revenue) + (ticket.paid ? amount : 0));
+    row.outstanding = roundCurrency(Number(row.outstanding) + (isDone && !ticket.paid ? amount : 0));
+    groups.set(ticket.type, row);
+  });
+
+  const rows = Array.from(groups.values()).sort((a, b) => Number(b.revenue) - Number(a.revenue));
+
+  return {
+    columns: [
+      column('ticket_type', 'text'),
+      column('ticket_count', 'number'),
+      column('completed_count', 'number'),
+      column('paid_count', 'number'),
+      column('collected_count', 'number'),
+      column('revenue'),
+      column('outstanding')
+    ],
+    rows,
+    totals: {
+      ticket_type: '',
+      ...sumRows(rows, ['ticket_count', 'completed_count', 'paid_count', 'collected_count', 'revenue', 'outstanding'])
+    }
+  };
+}
+
+export function buildPriceChanges(changes: PriceChangeLine[], translate: (key: string) => string): ReportTable {
+  const rows = [...changes]
+    .sort((a, b) => a.created_at.localeCompare(b.created_at))
+    .map(change => ({
+      key: change.id,
+      date: toDateTimeInputValue(new Date(change.created_at)).replace('T', ' '),
+      product: change.product_name,
+      product_code: change.product_code,
+      variant: change.variant_name || '',
+      old_price: change.old_price ?? '',
+      new_price: change.new_price,
+      price_change: change.old_price !== null ? roundCurrency(change.new_price - change.old_price) : '',
+      change_percent: change.old_price ? percentOf(change.new_price - change.old_price, change.old_price) : '',
+      source: translate(`pricing.sources.${change.source}`),
+      changed_by: change.user_email || ''
+    }));
+
+  return {
+    columns: [
+      column('date', 'text'),
+      column('product', 'text'),
+      column('product_code', 'text'),
+      column('variant', 'text'),
+      column('old_price'),
+      column('new_price'),
+      column('price_change'),
+      column('change_percent', 'percent'),
+      column('source', 'text'),
+      column('changed_by', 'text')
+    ],
+    rows
+  };
+}
+
+export function buildReport(type: ReportType, data: ReportSourceData, context: ReportContext): ReportTable {
+  switch (type) {
+    case 'sales_by_day':
+      return buildSalesByDay(data.transactions);
+    case 'sales_by_product':
+      return buildSalesByProduct(data.lines);
+    case 'kit_components':
+      return buildKitComponentSales(data.lines, context.products);
+    case 'sales_by_category':
+      return buildSalesByCategory(data.lines, context.categories, context.translate);
+    case 'sales_by_cashier':
+      return buildSalesByCashier(data.transactions, data.sessions, context.translate);
+    case 'gross_margin':
+      return buildGrossMargin(data.lines);
+    case 'inventory_valuation':
+      return buildInventoryValuation(context.products, context.categories, context.translate, context.locationId);
+    case 'tax_collected':
+      return buildTaxCollected(data.transactions, context.translate);
+    case 'ticket_revenue':
+      return buildTicketRevenue(data.tickets, context.translate);
+    case 'price_changes':
+      return buildPriceChanges(data.price_changes, context.translate);
+  }
+}
+
+export function formatReportValue(value: string | number | undefined, type: ReportValueType, currency = 'CAD'): string {
+  if (value === undefined || value === '') return '';
+
+  switch (type) {
+    case 'currency':
+      return formatCurrency(Number(value), currency);
+    case 'percent':
+      return `${Number(value).toFixed(1)}%`;
+    case 'number':
+      return Number(value).toLocaleString('en-CA', { maximumFractionDigits: 3 });
+    default:
+      return String(value);
+  }
+}
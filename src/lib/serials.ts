@@ -0,0 +1,89 @@
+import { Transaction } from '../types/pos';
+import { PurchaseOrder } from '../types/purchaseOrders';
+import { ReceiptResult } from './purchaseOrders';
+import { ProductSerial, WarrantyStatus } from '../types/serials';
+
+export function normalizeSerial(value: string): string {
+  return value.trim().toUpperCase();
+}
+
+// Scanners send one serial per line; commas and spaces are accepted for typed lists
+export function parseSerialList(text: string): string[] {
+  return text
+    .split(/[\n,;\s]+/)
+    .map(normalizeSerial)
+    .filter(Boolean);
+}
+
+export function findDuplicateSerials(serials: string[]): string[] {
+  const seen = new Set<string>();
+  const duplicates = new Set<string>();
+  serials.forEach(serial => {
+    if (seen.has(serial)) duplicates.add(serial);
+    seen.add(serial);
+  });
+  return Array.from(duplicates);
+}
+
+// Serials from the list that are already on record
+export function findKnownSerials(serials: string[], known: ProductSerial[]): string[] {
+  const existing = new Set(known.map(serial => serial.serial_number));
+  return serials.filter(serial => existing.has(serial));
+}
+
+export function getWarrantyStatus(serial: Pick<ProductSerial, 'warranty_expires_at'>, now = new Date()): WarrantyStatus {
+  if (!serial.warranty_expires_at) return 'none';
+  return new Date(serial.warranty_expires_at) >= now ? 'active' : 'expired';
+}
+
+export function getInStockSerials(serials: ProductSerial[], productId: string, variantId?: string | null): ProductSerial[] {
+  return serials.filter(serial =>
+    serial.status === 'in_stock' &&
+    serial.product_id === productId &&
+    (serial.variant_id || null) === (variantId || null)
+  );
+}
+
+// Rows for the units that arrived on a purchase order delivery
+export function buildReceivedSerials(
+  order: PurchaseOrder,
+  received: ReceiptResult['received'],
+  receivedAt = new Date().toISOString()
+): ProductSerial[] {
+  return received.flatMap(line => (line.serials || []).map(serial => ({
+    serial_number: normalizeSerial(serial),
+    product_id: line.product_id,
+    variant_id: line.variant_id || null,
+    status: 'in_stock' as const,
+    po_number: order.po_number,
+    supplier_id: order.supplier_id,
+    unit_cost: line.unit_cost,
+    received_at: receivedAt
+  })));
+}
+
+// Mirror track_sold_serials in the offline cache: sold units leave it, restocked returns come back
+export function applyTransactionToSerials(serials: ProductSerial[], transaction: Transaction): ProductSerial[] {
+  const lines = transaction.items.filter(item => item.serial_number);
+  if (lines.length === 0) return serials;
+
+  const isRefund = transaction.transaction_type === 'refund';
+  const statusFor = new Map(lines.map(item => [
+    normalizeSerial(item.serial_number || ''),
+    isRefund ? (item.restock ? 'in_stock' : 'returned') : 'sold'
+  ] as const));
+
+  return serials.map(serial => {
+    const status = statusFor.get(serial.serial_number);
+    if (!status) return serial;
+    return isRefund
+      ? { ...serial, status }
+      : {
+        ...serial,
+        status,
+        transaction_number: transaction.transaction_number,
+        customer_id: transaction.customer_id,
+        sold_at: transaction.created_at
+      };
+  });
+}
@@ -0,0 +1,198 @@
+import { supabase } from './supabase';
+import { offlineDB } from './offlineDB';
+import { syncManager } from './syncManager';
+import { AppSettings } from '../types/settings';
+import { POSSettings } from '../types/pos';
+import { DEFAULT_CUSTOM_TEMPLATE } from './labels';
+
+const SETTINGS_KEY = 'app_settings';
+// Every device in the store shares this single row
+const SETTINGS_ROW_ID = 'default';
+
+export const defaultSettings: AppSettings = {
+  store: {
+    name: 'Tech Store',
+    address: '123 Main St, City, Province',
+    phone: '(555) 123-4567',
+    email: 'info@techstore.com',
+    logo_url: '',
+    tax_id: ''
+  },
+  pos: {
+    tax_rate: 13, // 13% HST for Canada
+    prices_include_tax: false,
+    currency: 'CAD',
+    auto_print_receipt: false,
+    barcode_scanner_enabled: true,
+    sound_enabled: true,
+    default_payment_method: 'cash',
+    held_cart_expiry_hours: 24
+  },
+  receipt: {
+    footer_text: 'Thank you for your business!\nPlease keep this receipt for your records',
+    show_logo: true,
+    show_tax_id: true,
+    show_kit_components: true
+  },
+  labels: {
+    template_id: 'a4-24',
+    custom_template: DEFAULT_CUSTOM_TEMPLATE,
+    style: 'shelf',
+    symbology: 'auto',
+    show_name: true,
+    show_price: true,
+    show_code: true,
+    print_on_receive: false
+  },
+  barcodes: {
+    scheme: 'in_store',
+    company_prefix: '',
+    in_store_prefix: '200',
+    variable_measure: [
+      { prefix: '22', kind: 'price', decimals: 2 },
+      { prefix: '23', kind: 'measure', decimals: 3 }
+    ]
+  },
+  costing: {
+    method: 'weighted_average'
+  },
+  language: 'en',
+  theme: 'system',
+  updated_at: new Date(0).toISOString()
+};
+
+// Fill in sections added after the settings were first saved
+const withDefaults = (saved: Partial<AppSettings>): AppSettings => ({
+  ...defaultSettings,
+  ...saved,
+  store: { ...defaultSettings.store, ...saved.store },
+  pos: { ...defaultSettings.pos, ...saved.pos },
+  receipt: { ...defaultSettings.receipt, ...saved.receipt },
+  labels: { ...defaultSettings.labels, ...saved.labels },
+  barcodes: { ...defaultSettings.barcodes, ...saved.barcodes },
+  costing: { ...defaultSettings.costing, ...saved.costing }
+});
+
+class SettingsStore {
+  private settings: AppSettings = defaultSettings;
+  private listeners: ((settings: AppSettings) => void)[] = [];
+  private loaded: Promise<void> | null = null;
+  private wasSyncing = false;
+
+  constructor() {
+    // Pick up changes made on other devices after each background sync
+    syncManager.onSyncStatusChange(status => {
+      if (this.wasSyncing && !status.isSyncing) {
+        this.pull();
+      }
+      this.wasSyncing = status.isSyncing;
+    });
+  }
+
+  get(): AppSettings {
+    return this.settings;
+  }
+
+  // Load the local copy once, then refresh from Supabase in the background
+  load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = this.loadLocal().then(() => {
+        this.pull();
+      });
+    }
+    return this.loaded;
+  }
+
+  private async loadLocal(): Promise<void> {
+    const saved = await offlineDB.getSetting(SETTINGS_KEY) as Partial<AppSettings> | undefined;
+
+    if (saved) {
+      this.settings = withDefaults(saved);
+    } else {
+      // Older installs kept POS options under their own key
+      const legacyPos = await offlineDB.getSetting('pos_settings') as Partial<POSSettings> | undefined;
+      this.settings = withDefaults({ pos: { ...defaultSettings.pos, ...legacyPos } });
+    }
+
+    this.notify();
+  }
+
+  // Adopt the shared settings when another device saved more recently
+  async pull(): Promise<void> {
+    if (!navigator.onLine) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('store_settings')
+        .select('settings, updated_at')
+        .eq('id', SETTINGS_ROW_ID)
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!data) return;
+
+      if (new Date(data.updated_at) > new Date(this.settings.updated_at)) {
+        this.settings = withDefaults({ ...data.settings, updated_at: data.updated_at });
+        await offlineDB.saveSetting(SETTINGS_KEY, this.settings as unknown as Record<string, unknown>);
+        this.notify();
+      }
+    } catch (error) {
+      console.warn('Failed to load shared settings, using local copy:', error);
+    }
+  }
+
+  async update(changes: Partial<Omit<AppSettings, 'updated_at'>>): Promise<AppSettings> {
+    this.settings = withDefaults({
+      ...this.settings,
+      ...changes,
+      store: { ...this.settings.store, ...changes.store },
+      pos: { ...this.settings.pos, ...changes.pos },
+      receipt: { ...this.settings.receipt, ...changes.receipt },
+      labels: { ...this.settings.labels, ...changes.labels },
+      barcodes: { ...this.settings.barcodes, ...changes.barcodes },
+      costing: { ...this.settings.costing, ...changes.costing },
+      updated_at: new Date().toISOString()
+    });
+
+    await offlineDB.saveSetting(SETTINGS_KEY, this.settings as unknown as Record<string, unknown>);
+    this.notify();
+
+    const row = { id: SETTINGS_ROW_ID, settings: this.settings, updated_at: this.settings.updated_at };
+
+    if (navigator.onLine) {
+      try {
+        const { error } = await supabase
+          .from('store_settings')
+          .upsert([row], { onConflict: 'id' });
+
+        if (error) throw error;
+        return this.settings;
+      } catch (error) {
+        console.warn('Online settings save failed, queuing for sync:', error);
+      }
+    }
+
+    await syncManager.queueAction({
+      type: 'SAVE_STORE_SETTINGS',
+      data: row
+    });
+
+    return this.settings;
+  }
+
+  subscribe(callback: (settings: AppSettings) => void): () => void {
+    this.listeners.push(callback);
+    return () => {
+      const index = this.listeners.indexOf(callback);
+      if (index > -1) {
+        this.listeners.splice(index, 1);
+      }
+    };
+  }
+
+  private notify(): void {
+    this.listeners.forEach(callback => callback(this.settings));
+  }
+}
+
+export const settingsStore = new SettingsStore();
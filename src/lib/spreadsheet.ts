@@ -0,0 +1,317 @@
+// Minimal CSV and XLSX reading and writing for catalog import and export. XLSX files are
+// zip archives of XML parts, so they are unpacked with the browser's DecompressionStream
+// and written uncompressed, without pulling in a spreadsheet library.
+
+export type SpreadsheetFormat = 'csv' | 'xlsx';
+export type SpreadsheetCell = string | number | null | undefined;
+
+const escapeCsv = (value: string) =>
+  /[",;\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+export function toCSVText(rows: SpreadsheetCell[][]): string {
+  return rows
+    .map(row => row.map(cell => escapeCsv(cell === null || cell === undefined ? '' : String(cell))).join(','))
+    .join('\r\n');
+}
+
+// Excel saves CSV with semicolons in locales that use a decimal comma
+const detectDelimiter = (text: string) => {
+  const firstLine = text.slice(0, text.search(/\r?\n|$/));
+  const counts = [',', ';', '\t'].map(d => ({ d, n: firstLine.split(d).length }));
+  return counts.sort((a, b) => b.n - a.n)[0].d;
+};
+
+export function parseCSV(text: string): string[][] {
+  const input = text.replace(/^\uFEFF/, '');
+  const delimiter = detectDelimiter(input);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter(r => r.some(cell => cell.trim() !== ''));
+}
+
+// --- Zip container -------------------------------------------------------
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+const crc32 = (data: Uint8Array) => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+async function readZipEntries(buffer: ArrayBuffer): Promise<Map<string, string>> {
+  const view = new DataView(buffer);
+  const decoder = new TextDecoder();
+
+  // The end of central directory record sits in the last 64 KiB (after an optional comment)
+  let eocd = -1;
+  for (let i = buffer.byteLength - 22; i >= Math.max(0, buffer.byteLength - 65557); i--) {
+    if (view.getUint32(i, true) === 0x06054b50) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) throw new Error('The file is not a valid XLSX workbook');
+
+  const entries = new Map<string, string>();
+  const count = view.getUint16(eocd + 10, true);
+  let offset = view.getUint32(eocd + 16, true);
+
+  for (let i = 0; i < count; i++) {
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = decoder.decode(new Uint8Array(buffer, offset + 46, nameLength));
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (!name.endsWith('.xml') && !name.endsWith('.rels')) continue;
+
+    const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+    const data = new Uint8Array(buffer, dataStart, compressedSize);
+
+    if (method === 0) {
+      entries.set(name, decoder.decode(data));
+    } else if (method === 8) {
+      const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+      entries.set(name, await new Response(stream).text());
+    } else {
+      throw new Error('The XLSX workbook uses an unsupported compression method');
+    }
+  }
+
+  return entries;
+}
+
+// Stored (uncompressed) archive; catalog exports are small enough not to need deflate
+function buildZip(files: { name: string; content: string }[]): Blob {
+  const encoder = new TextEncoder();
+  const chunks: Uint8Array[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+
+  files.forEach(file => {
+    const name = encoder.encode(file.name);
+    const data = encoder.encode(file.content);
+    const crc = crc32(data);
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034b50, true);
+    local.setUint16(4, 20, true);
+    local.setUint32(14, crc, true);
+    local.setUint32(18, data.length, true);
+    local.setUint32(22, data.length, true);
+    local.setUint16(26, name.length, true);
+    chunks.push(new Uint8Array(local.buffer), name, data);
+
+    const entry = new DataView(new ArrayBuffer(46));
+    entry.setUint32(0, 0x02014b50, true);
+    entry.setUint16(4, 20, true);
+    entry.setUint16(6, 20, true);
+    entry.setUint32(16, crc, true);
+    entry.setUint32(20, data.length, true);
+    entry.setUint32(24, data.length, true);
+    entry.setUint16(28, name.length, true);
+    entry.setUint32(42, offset, true);
+    central.push(new Uint8Array(entry.buffer), name);
+
+    offset += 30 + name.length + data.length;
+  });
+
+  const centralSize = central.reduce((sum, part) => sum + part.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, files.length, true);
+  end.setUint16(10, files.length, true);
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);
+
+  return new Blob([...chunks, ...central, new Uint8Array(end.buffer)], {
+    type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+  });
+}
+
+// --- XLSX ----------------------------------------------------------------
+
+const columnIndex = (reference: string) => {
+  const letters = reference.replace(/[0-9]/g, '');
+  return [...letters].reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+};
+
+const columnLetters = (index: number) => {
+  let letters = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    letters = String.fromCharCode(65 + ((n - 1) % 26)) + letters;
+  }
+  return letters;
+};
+
+const textOf = (element: Element) =>
+  Array.from(element.getElementsByTagName('t')).map(t => t.textContent || '').join('');
+
+// Rows of the first worksheet as text; numbers keep the digits Excel stored
+export async function readXLSX(buffer: ArrayBuffer): Promise<string[][]> {
+  const entries = await readZipEntries(buffer);
+  const parser = new DOMParser();
+  const parse = (name: string) => {
+    const xml = entries.get(name);
+    return xml ? parser.parseFromString(xml, 'application/xml') : null;
+  };
+
+  // The first sheet listed in the workbook, through its relationship id
+  let sheetPath = 'xl/worksheets/sheet1.xml';
+  const firstSheet = parse('xl/workbook.xml')?.getElementsByTagName('sheet')[0];
+  const relId = firstSheet?.getAttribute('r:id');
+  const rel = Array.from(parse('xl/_rels/workbook.xml.rels')?.getElementsByTagName('Relationship') || [])
+    .find(r => r.getAttribute('Id') === relId);
+  const target = rel?.getAttribute('Target');
+  if (target) sheetPath = target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+
+  const sharedStrings = Array.from(parse('xl/sharedStrings.xml')?.getElementsByTagName('si') || []).map(textOf);
+  const sheet = parse(sheetPath);
+  if (!sheet) throw new Error('The XLSX workbook has no worksheet');
+
+  const rows: string[][] = [];
+  Array.from(sheet.getElementsByTagName('row')).forEach(rowElement => {
+    const row: string[] = [];
+    Array.from(rowElement.getElementsByTagName('c')).forEach((cell, position) => {
+      const reference = cell.getAttribute('r');
+      const index = reference ? columnIndex(reference) : position;
+      const type = cell.getAttribute('t');
+      const raw = cell.getElementsByTagName('v')[0]?.textContent || '';
+
+      let value = raw;
+      if (type === 's') value = sharedStrings[parseInt(raw)] || '';
+      else if (type === 'inlineStr') value = textOf(cell);
+      else if (type === 'b') value = raw === '1' ? 'true' : 'false';
+
+      while (row.length < index) row.push('');
+      row[index] = value;
+    });
+    rows.push(row);
+  });
+
+  return rows.filter(r => r.some(cell => cell.trim() !== ''));
+}
+
+export function buildXLSX(rows: SpreadsheetCell[][], sheetName = 'Sheet1'): Blob {
+  const sheetRows = rows.map((row, r) => {
+    const cells = row.map((cell, c) => {
+      const ref = `${columnLetters(c)}${r + 1}`;
+      if (cell === null || cell === undefined || cell === '') return '';
+      if (typeof cell === 'number') return `<c r="${ref}"><v>${cell}</v></c>`;
+      // Codes and barcodes stay text so leading zeros survive
+      return `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(cell)}</t></is></c>`;
+    });
+    return `<row r="${r + 1}">${cells.join('')}</row>`;
+  });
+
+  const ns = 'http://schemas.openxmlformats.org';
+  return buildZip([
+    {
+      name: '[Content_Types].xml',
+      content: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?><Types xmlns="${ns}/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/><Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/><Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/></Types>`
+    },
+    {
+      name: '_rels/.rels',
+      content: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?><Relationships xmlns="${ns}/package/2006/relationships"><Relationship Id="rId1" Type="${ns}/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/></Relationships>`
+    },
+    {
+      name: 'xl/workbook.xml',
+      content: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?><workbook xmlns="${ns}/spreadsheetml/2006/main" xmlns:r="${ns}/officeDocument/2006/relationships"><sheets><sheet name="${escapeXml(sheetName.slice(0, 31))}" sheetId="1" r:id="rId1"/></sheets></workbook>`
+    },
+    {
+      name: 'xl/_rels/workbook.xml.rels',
+      content: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?><Relationships xmlns="${ns}/package/2006/relationships"><Relationship Id="rId1" Type="${ns}/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/><Relationship Id="rId2" Type="${ns}/officeDocument/2006/relationships/styles" Target="styles.xml"/></Relationships>`
+    },
+    {
+      name: 'xl/styles.xml',
+      content: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?><styleSheet xmlns="${ns}/spreadsheetml/2006/main"><fonts count="1"><font><sz val="11"/><name val="Calibri"/></font></fonts><fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills><borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders><cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs><cellXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/></cellXfs></styleSheet>`
+    },
+    {
+      name: 'xl/worksheets/sheet1.xml',
+      content: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?><worksheet xmlns="${ns}/spreadsheetml/2006/main"><sheetData>${sheetRows.join('')}</sheetData></worksheet>`
+    }
+  ]);
+}
+
+export async function readSpreadsheetFile(file: File): Promise<string[][]> {
+  if (/\.xlsx$/i.test(file.name)) {
+    return readXLSX(await file.arrayBuffer());
+  }
+  if (/\.xls$/i.test(file.name)) {
+    throw new Error('Old .xls workbooks are not supported. Save the file as .xlsx or .csv');
+  }
+  return parseCSV(await file.text());
+}
+
+export function downloadBlob(filename: string, blob: Blob) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
+
+export function downloadSpreadsheet(filename: string, rows: SpreadsheetCell[][], format: SpreadsheetFormat) {
+  if (format === 'xlsx') {
+    downloadBlob(`${filename}.xlsx`, buildXLSX(rows));
+  } else {
+    // BOM so Excel opens accented text as UTF-8
+    downloadBlob(`${filename}.csv`, new Blob(['\uFEFF', toCSVText(rows)], { type: 'text/csv;charset=utf-8' }));
+  }
+}
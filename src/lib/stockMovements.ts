@@ -0,0 +1,126 @@
+import { UnitOfMeasure } from '../types/inventory';
+import { CartItem } from '../types/pos';
+import {
+  ManualMovementType,
+  StockAdjustmentFormData,
+  StockLedgerCheck,
+  StockMovement,
+  StockMovementInput,
+  StockMovementType
+} from '../types/stockMovements';
+import { expandKitLines } from './kits';
+import { normalizeQuantity, roundQuantity } from './units';
+
+export const STOCK_MOVEMENT_TYPES: StockMovementType[] = [
+  'sale',
+  'refund',
+  'receive',
+  'adjustment',
+  'damage',
+  'theft',
+  'transfer',
+  'count_correction',
+  'repair'
+];
+
+export const MANUAL_MOVEMENT_TYPES: ManualMovementType[] = ['adjustment', 'damage', 'theft', 'transfer', 'count_correction'];
+
+// A collected ticket's parts left the shelf when the ticket was completed
+export function buildSaleMovements(items: CartItem[], transactionNumber?: string, locationId?: string): StockMovementInput[] {
+  return expandKitLines(items.filter(item => !item.service_ticket_id))
+    .filter(item => item.quantity !== 0)
+    .map(item => ({
+      product_id: item.product_id,
+      variant_id: item.variant_id,
+      movement_type: 'sale',
+      quantity: -Math.abs(item.quantity),
+      reference: transactionNumber,
+      location_id: locationId
+    }));
+}
+
+// Only lines marked for restocking go back on the shelf, at the cost they were sold at.
+// A kit line's cost covers all its components, so those come back at the current cost
+export function buildRefundMovements(items: CartItem[], refundNumber?: string, locationId?: string): StockMovementInput[] {
+  return expandKitLines(items.map(item => (item.kit_components?.length ? { ...item, unit_cost: undefined } : item)))
+    .filter(item => item.restock && item.product_id && item.quantity !== 0)
+    .map(item => ({
+      product_id: item.product_id,
+      variant_id: item.variant_id,
+      movement_type: 'refund',
+      quantity: Math.abs(item.quantity),
+      reference: refundNumber,
+      location_id: locationId,
+      unit_cost: item.unit_cost
+    }));
+}
+
+export function buildReceiveMovements(
+  items: { product_id: string; variant_id?: string; quantity: number; unit_cost?: number }[],
+  poNumber?: string
+): StockMovementInput[] {
+  return items
+    .filter(item => item.quantity > 0)
+    .map(item => ({
+      product_id: item.product_id,
+      variant_id: item.variant_id,
+      movement_type: 'receive',
+      quantity: item.quantity,
+      reference: poNumber,
+      unit_cost: item.unit_cost
+    }));
+}
+
+// Damage and theft always remove stock, a count correction moves stock to the counted
+// quantity, and adjustments and transfers go in whichever direction was chosen.
+// Quantities are kept to what the product's unit can hold
+export function getAdjustmentDelta(
+  form: Pick<StockAdjustmentFormData, 'movement_type' | 'direction' | 'quantity'>,
+  onHand: number,
+  unit?: UnitOfMeasure
+): number {
+  const units = normalizeQuantity(Math.abs(form.quantity), unit);
+
+  switch (form.movement_type) {
+    case 'count_correction':
+      return roundQuantity(normalizeQuantity(Math.max(form.quantity, 0), unit) - onHand);
+    case 'damage':
+    case 'theft':
+      return -units;
+    default:
+      return form.direction === 'out' ? -units : units;
+  }
+}
+
+export function buildAdjustmentMovement(
+  productId: string,
+  form: StockAdjustmentFormData,
+  onHand: number,
+  unit?: UnitOfMeasure
+): StockMovementInput {
+  return {
+    product_id: productId,
+    variant_id: form.variant_id,
+    movement_type: form.movement_type,
+    quantity: getAdjustmentDelta(form, onHand, unit),
+    reason: form.reason.trim() || undefined,
+    reference: form.reference.trim() || undefined,
+    location_id: form.location_id || undefined
+  };
+}
+
+export function getLedgerQuantity(movements: StockMovement[], variantId?: string | null): number {
+  return movements
+    .filter(movement => (movement.variant_id || null) === (variantId || null))
+    .reduce((sum, movement) => sum + movement.quantity, 0);
+}
+
+export function checkLedger(onHand: number, movements: StockMovement[], variantId?: string | null): StockLedgerCheck {
+  const ledgerQuantity = getLedgerQuantity(movements, variantId);
+  return {
+    on_hand: onHand,
+    ledger_quantity: ledgerQuantity,
+    difference: onHand - ledgerQuantity,
+    balanced: onHand === ledgerQuantity
+  };
+}
@@ -0,0 +1,143 @@
+import { Category, Product } from '../types/inventory';
+import { Location } from '../types/locations';
+import { StockMovementInput } from '../types/stockMovements';
+import { StocktakeFormData, StocktakeLine, StocktakeSession, StocktakeSummary } from '../types/stocktake';
+import { getLocationQuantity } from './locations';
+import { normalizeQuantity, roundQuantity } from './units';
+import { activeVariants } from './variants';
+import { roundCurrency } from './utils';
+
+export function generateStocktakeNumber(): string {
+  const date = new Date();
+  const dateStr = date.toISOString().slice(0, 10).replace(/-/g, '');
+  const timeStr = date.toTimeString().slice(0, 8).replace(/:/g, '');
+  const random = Math.floor(Math.random() * 1000).toString().padStart(3, '0');
+  return `ST${dateStr}${timeStr}${random}`;
+}
+
+// Snapshot the products in scope at the counted location; each variant is counted on its own line
+export function buildStocktakeLines(products: Product[], categoryId?: string, locationId?: string): StocktakeLine[] {
+  return products
+    // Kits have no stock of their own to count
+    .filter(product => product.is_active !== false && !product.is_kit)
+    .filter(product => !categoryId || product.category_id === categoryId || product.subcategory_id === categoryId)
+    .flatMap(product => [
+      {
+        id: product.id,
+        product_id: product.id,
+        product_name: product.name,
+        product_code: product.product_code,
+        barcode: product.barcode,
+        expected_quantity: getLocationQuantity(product, locationId),
+        counted_quantity: null,
+        unit_of_measure: product.unit_of_measure,
+        unit_cost: product.cost_price,
+        approved: true
+      },
+      ...activeVariants(product).map(variant => ({
+        id: `${product.id}:${variant.id}`,
+        product_id: product.id,
+        variant_id: variant.id,
+        product_name: `${product.name} – ${variant.name}: ${variant.value}`,
+        product_code: product.product_code,
+        barcode: variant.barcode,
+        expected_quantity: getLocationQuantity(product, locationId, variant.id),
+        counted_quantity: null,
+        unit_of_measure: product.unit_of_measure,
+        unit_cost: product.cost_price,
+        approved: true
+      }))
+    ])
+    .sort((a, b) => a.product_name.localeCompare(b.product_name));
+}
+
+export function createStocktakeSession(
+  formData: StocktakeFormData,
+  products: Product[],
+  categories: Category[],
+  locations: Location[] = []
+): StocktakeSession {
+  const now = new Date().toISOString();
+  const category = formData.scope === 'category' ? categories.find(c => c.id === formData.category_id) : undefined;
+  const location = locations.find(l => l.id === formData.location_id);
+
+  return {
+    session_number: generateStocktakeNumber(),
+    name: formData.name.trim(),
+    scope: formData.scope,
+    category_id: category?.id,
+    category_name: category?.name,
+    location_id: location?.id,
+    location_name: location?.name,
+    status: 'counting',
+    lines: buildStocktakeLines(products, category?.id, location?.id),
+    notes: formData.notes.trim() || undefined,
+    created_at: now,
+    updated_at: now
+  };
+}
+
+// Barcodes match exactly; product codes are matched case-insensitively and only
+// resolve to the base product line
+export function findStocktakeLine(lines: StocktakeLine[], code: string): StocktakeLine | undefined {
+  const value = code.trim();
+  if (!value) return undefined;
+
+  return lines.find(line => line.barcode === value) ||
+    lines.find(line => !line.variant_id && line.product_code.toLowerCase() === value.toLowerCase());
+}
+
+export function setLineCount(session: StocktakeSession, lineId: string, counted: number | null): StocktakeSession {
+  return {
+    ...session,
+    lines: session.lines.map(line =>
+      line.id === lineId
+        ? { ...line, counted_quantity: counted === null ? null : Math.max(normalizeQuantity(counted, line.unit_of_measure), 0) }
+        : line
+    ),
+    updated_at: new Date().toISOString()
+  };
+}
+
+export function addLineCount(session: StocktakeSession, lineId: string, quantity = 1): StocktakeSession {
+  const line = session.lines.find(l => l.id === lineId);
+  return setLineCount(session, lineId, (line?.counted_quantity || 0) + quantity);
+}
+
+export function getLineVariance(line: StocktakeLine) {
+  if (line.counted_quantity === null) return { quantity: 0, value: 0 };
+
+  const quantity = roundQuantity(line.counted_quantity - line.expected_quantity);
+  return { quantity, value: roundCurrency(quantity * line.unit_cost) };
+}
+
+export function summarizeStocktake(lines: StocktakeLine[]): StocktakeSummary {
+  return lines.reduce<StocktakeSummary>((summary, line) => {
+    const variance = getLineVariance(line);
+    return {
+      total_lines: summary.total_lines + 1,
+      counted_lines: summary.counted_lines + (line.counted_quantity === null ? 0 : 1),
+      variance_lines: summary.variance_lines + (variance.quantity === 0 ? 0 : 1),
+      variance_units: roundQuantity(summary.variance_units + variance.quantity),
+      variance_value: roundCurrency(summary.variance_value + variance.value)
+    };
+  }, { total_lines: 0, counted_lines: 0, variance_lines: 0, variance_units: 0, variance_value: 0 });
+}
+
+// Only counted, approved lines with a variance are posted. The variance is measured
+// against the snapshot, so sales made while counting stay on the books.
+export function buildStocktakeMovements(session: StocktakeSession): StockMovementInput[] {
+  return session.lines
+    .filter(line => line.approved)
+    .map(line => ({ line, variance: getLineVariance(line) }))
+    .filter(({ variance }) => variance.quantity !== 0)
+    .map(({ line, variance }) => ({
+      product_id: line.product_id,
+      variant_id: line.variant_id,
+      movement_type: 'count_correction',
+      quantity: variance.quantity,
+      reason: `Stocktake: ${session.name || session.session_number}`,
+      reference: session.session_number,
+      location_id: session.location_id
+    }));
+}
@@ -1,7 +1,20 @@
 import { supabase } from './supabase';
 import { offlineDB } from './offlineDB';
 import { Product, Category } from '../types/inventory';
-import { Transaction } from '../types/pos';
+import { CartItem, Transaction } from '../types/pos';
+import { RegisterSession } from '../types/register';
+import { PromotionFormData } from '../types/promotions';
+import { TaxClassFormData } from '../types/tax';
+import { PurchaseOrder } from '../types/purchaseOrders';
+import { SupplierActivityLog, SupplierFormData, SupplierPerformance } from '../types/supplier';
+import { StockMovement, StockMovementInput } from '../types/stockMovements';
+import { StocktakeSession } from '../types/stocktake';
+import { StockTransfer } from '../types/locations';
+import { ProductSerial } from '../types/serials';
+import { ProductLot } from '../types/lots';
+import { PriceChange, ScheduledPrice, ScheduledPriceFormData } from '../types/pricing';
+import { ServiceTicket, TicketPart } from '../types/tickets';
+import { buildReceiveMovements, buildRefundMovements, buildSaleMovements } from './stockMovements';
 
 export interface SyncStatus {
   isOnline: boolean;
@@ -71,6 +84,9 @@ class SyncManager {
 
   private async downloadData(): Promise<void> {
     try {
+      // Bring scheduled price changes that have come due into the catalogue before it's downloaded
+      await this.applyDuePriceChanges();
+
       // Download products
       const { data: products, error: productsError } = await supabase
         .from('products')
@@ -78,7 +94,8 @@ class SyncManager {
           *,
           category:categories!products_category_id_fkey(*),
           subcategory:categories!products_subcategory_id_fkey(*),
-          variants:product_variants(*)
+          variants:product_variants(*),
+          location_stock(*)
         `)
         .eq('is_active', true);
 
@@ -115,6 +132,64 @@ class SyncManager {
 
         await offlineDB.saveCategories(rootCategories);
       }
+
+      // Download promotions so pricing rules work offline
+      const { data: promotions, error: promotionsError } = await supabase
+        .from('promotions')
+        .select('*');
+
+      if (promotionsError) throw promotionsError;
+      if (promotions) await offlineDB.saveSetting('promotions', promotions as unknown as Record<string, unknown>);
+
+      // Download tax classes so per-line tax can be computed offline
+      const { data: taxClasses, error: taxClassesError } = await supabase
+        .from('tax_classes')
+        .select('*');
+
+      if (taxClassesError) throw taxClassesError;
+      if (taxClasses) await offlineDB.saveSetting('tax_classes', taxClasses as unknown as Record<string, unknown>);
+
+      // Download locations so the till knows where it sells from offline
+      const { data: locations, error: locationsError } = await supabase
+        .from('locations')
+        .select('*');
+
+      if (locationsError) throw locationsError;
+      if (locations) await offlineDB.saveSetting('locations', locations as unknown as Record<string, unknown>);
+
+      // Download serial numbers so the till can check scanned units offline
+      const { data: serials, error: serialsError } = await supabase
+        .from('product_serials')
+        .select('*');
+
+      if (serialsError) throw serialsError;
+      if (serials) await this.saveOfflineSerials(serials);
+
+      // Download lots so the till can suggest the first-expiring lot offline
+      const { data: lots, error: lotsError } = await supabase
+        .from('product_lots')
+        .select('*');
+
+      if (lotsError) throw lotsError;
+      if (lots) await this.saveOfflineLots(lots);
+
+      // Download upcoming and live scheduled prices so the till charges them offline
+      const { data: scheduledPrices, error: scheduledPricesError } = await supabase
+        .from('scheduled_prices')
+        .select('*')
+        .eq('status', 'scheduled');
+
+      if (scheduledPricesError) throw scheduledPricesError;
+      if (scheduledPrices) await this.saveOfflineScheduledPrices(scheduledPrices);
+
+      // Download price history for the product pages and the price change report
+      const { data: priceHistory, error: priceHistoryError } = await supabase
+        .from('price_history')
+        .select('*')
+        .order('created_at', { ascending: false });
+
+      if (priceHistoryError) throw priceHistoryError;
+      if (priceHistory) await this.saveOfflinePriceHistory(priceHistory);
     } catch (error) {
       console.error('Error downloading data:', error);
       throw error;
@@ -160,25 +235,114 @@ class SyncManager {
       case 'DELETE_PRODUCT':
         await this.syncDeleteProduct(item.id);
         break;
+      case 'SAVE_PRODUCT_VARIANTS':
+        await this.syncProductVariants(item.id, item.data.variants);
+        break;
       case 'CREATE_TRANSACTION':
         await this.syncCreateTransaction(item.data);
         break;
+      case 'CREATE_REFUND':
+        await this.syncCreateRefund(item.data);
+        break;
+      case 'SAVE_REGISTER_SESSION':
+        await this.syncRegisterSession(item.data);
+        break;
+      case 'CREATE_PROMOTION':
+        await this.syncCreatePromotion(item.data);
+        break;
+      case 'UPDATE_PROMOTION':
+        await this.syncUpdatePromotion(item.data);
+        break;
+      case 'DELETE_PROMOTION':
+        await this.syncDeletePromotion(item.data);
+        break;
+      case 'CREATE_TAX_CLASS':
+        await this.syncCreateTaxClass(item.data);
+        break;
+      case 'UPDATE_TAX_CLASS':
+        await this.syncUpdateTaxClass(item.data);
+        break;
+      case 'DELETE_TAX_CLASS':
+        await this.syncDeleteTaxClass(item.data);
+        break;
+      case 'UPDATE_CATEGORY_TAX_CLASS':
+        await this.syncUpdateCategoryTaxClass(item.data);
+        break;
+      case 'SAVE_STORE_SETTINGS':
+        await this.syncStoreSettings(item.data);
+        break;
       case 'UPDATE_STOCK':
         await this.syncUpdateStock(item.data);
         break;
+      case 'SAVE_PURCHASE_ORDER':
+        await this.syncPurchaseOrder(item.data);
+        break;
+      case 'RECEIVE_STOCK':
+        await this.receiveStock(item.data.items, item.data.po_number);
+        break;
+      case 'RECORD_STOCK_MOVEMENT':
+        await this.recordStockMovements([item.data]);
+        break;
+      case 'SAVE_STOCKTAKE':
+        await this.syncStocktake(item.data);
+        break;
+      case 'SAVE_STOCK_TRANSFER':
+        await this.syncStockTransfer(item.data);
+        break;
+      case 'REGISTER_SERIALS':
+        await this.registerSerials(item.data);
+        break;
+      case 'RECEIVE_LOTS':
+        await this.receiveLots(item.data);
+        break;
+      case 'ADD_SUPPLIER_ACTIVITY':
+        await this.syncSupplierActivity(item.data);
+        break;
+      case 'CREATE_SUPPLIER':
+        await this.syncCreateSupplier(item.data);
+        break;
+      case 'UPDATE_SUPPLIER':
+        await this.syncUpdateSupplier(item.id, item.data);
+        break;
+      case 'DELETE_SUPPLIER':
+        await this.syncDeleteSupplier(item.id);
+        break;
+      case 'ADD_SUPPLIER_PERFORMANCE':
+        await this.syncSupplierPerformance(item.data);
+        break;
+      case 'SCHEDULE_PRICE':
+        await this.syncSchedulePrice(item.data);
+        break;
+      case 'CANCEL_SCHEDULED_PRICE':
+        await this.syncCancelScheduledPrice(item.data.id);
+        break;
+      case 'UPDATE_TICKET':
+        await this.syncUpdateTicket(item.id, item.data);
+        break;
+      case 'SAVE_TICKET_PARTS':
+        await this.syncTicketParts(item.data);
+        break;
+      case 'COMPLETE_TICKET':
+        await this.syncCompleteTicket(item.data);
+        break;
       default:
         console.warn(`Unknown sync item type: ${item.type}`);
     }
   }
 
   private async syncCreateProduct(productData: any): Promise<void> {
+    const { variants, ...product } = productData;
     const { data, error } = await supabase
       .from('products')
-      .insert([productData])
+      .insert([product])
       .select()
       .single();
 
     if (error) throw error;
+
+    if (data && variants?.length) {
+      await this.syncProductVariants(data.id, variants);
+    }
     
     // Update local database with server-generated ID
     if (data) {
@@ -201,6 +365,15 @@ class SyncManager {
     }
   }
 
+  private async syncProductVariants(productId: string, variants: Record<string, unknown>[]): Promise<void> {
+    const { error } = await supabase.rpc('save_product_variants', {
+      p_product_id: productId,
+      p_variants: variants
+    });
+
+    if (error) throw error;
+  }
+
   private async syncDeleteProduct(id: string): Promise<void> {
     const { error } = await supabase
       .from('products')
@@ -219,10 +392,15 @@ class SyncManager {
         subtotal: transactionData.subtotal,
         discount_amount: transactionData.discount_amount,
         tax_amount: transactionData.tax_amount,
+        tax_breakdown: transactionData.tax_breakdown,
+        prices_include_tax: transactionData.prices_include_tax,
         total: transactionData.total,
         payment_method: transactionData.payment_method,
         customer_id: transactionData.customer_id,
-        status: transactionData.status
+        status: transactionData.status,
+        register_session_number: transactionData.register_session_number,
+        location_id: transactionData.location_id,
+        service_ticket_id: transactionData.service_ticket_id
       }])
       .select()
       .single();
@@ -231,60 +409,440 @@ class SyncManager {
 
     // Update product stock
     if (transactionData.items) {
-      await this.updateProductStock(transactionData.items);
+      await this.recordOrQueueStockMovements(
+        buildSaleMovements(transactionData.items, transactionData.transaction_number, transactionData.location_id)
+      );
     }
 
     // Update local transaction with server ID
     if (data) {
+      await offlineDB.deleteTransaction(transactionData.id);
       const updatedTransaction = { ...transactionData, id: data.id };
       await offlineDB.saveTransaction(updatedTransaction);
     }
   }
 
-  private async syncUpdateStock(stockData: any): Promise<void> {
-    const { productId, variantId, quantity } = stockData;
-    
-    if (variantId) {
-      const { error } = await supabase
-        .from('product_variants')
-        .update({
-          quantity_in_stock: supabase.raw(`quantity_in_stock - ${quantity}`)
-        })
-        .eq('id', variantId);
-      
+  private async syncCreateRefund(refundData: Transaction): Promise<void> {
+    // The original sale may itself have been created offline, so resolve its server ID by number
+    const { data: original, error: originalError } = await supabase
+      .from('transactions')
+      .select('id')
+      .eq('transaction_number', refundData.original_transaction_number)
+      .single();
+
+    if (originalError) throw originalError;
+
+    const { data, error } = await supabase
+      .from('transactions')
+      .insert([{
+        transaction_number: refundData.transaction_number,
+        items: refundData.items,
+        subtotal: refundData.subtotal,
+        discount_amount: refundData.discount_amount,
+        tax_amount: refundData.tax_amount,
+        tax_breakdown: refundData.tax_breakdown,
+        prices_include_tax: refundData.prices_include_tax,
+        total: refundData.total,
+        payment_method: refundData.payment_method,
+        customer_id: refundData.customer_id,
+        status: refundData.status,
+        transaction_type: 'refund',
+        original_transaction_id: original.id,
+        refund_reason: refundData.refund_reason,
+        register_session_number: refundData.register_session_number,
+        location_id: refundData.location_id
+      }])
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    await this.restockRefundItems(refundData.items, refundData.transaction_number, refundData.location_id);
+
+    if (data) {
+      await offlineDB.deleteTransaction(refundData.id);
+      await offlineDB.saveTransaction({ ...refundData, id: data.id, original_transaction_id: original.id });
+    }
+  }
+
+  private async syncStoreSettings(row: { id: string; settings: Record<string, unknown>; updated_at: string }): Promise<void> {
+    // Don't let a stale offline edit overwrite settings saved later on another device
+    const { data: current, error: fetchError } = await supabase
+      .from('store_settings')
+      .select('updated_at')
+      .eq('id', row.id)
+      .maybeSingle();
+
+    if (fetchError) throw fetchError;
+    if (current && new Date(current.updated_at) > new Date(row.updated_at)) return;
+
+    const { error } = await supabase
+      .from('store_settings')
+      .upsert([row], { onConflict: 'id' });
+
+    if (error) throw error;
+  }
+
+  private async syncRegisterSession(session: RegisterSession): Promise<void> {
+    const { id, ...sessionData } = session;
+    const { data, error } = await supabase
+      .from('register_sessions')
+      .upsert([sessionData], { onConflict: 'session_number' })
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    // Keep the latest local copy (it may have changed since this item was queued), only attach the server ID
+    if (data && !id) {
+      const local = await offlineDB.getRegisterSession(session.session_number);
+      await offlineDB.saveRegisterSession({ ...(local || session), id: data.id });
+    }
+  }
+
+  private async syncCreatePromotion(promotionData: PromotionFormData): Promise<void> {
+    const { error } = await supabase
+      .from('promotions')
+      .insert([promotionData]);
+
+    if (error) throw error;
+  }
+
+  private async syncUpdatePromotion(promotionData: Partial<PromotionFormData> & { id: string }): Promise<void> {
+    const { id, ...updates } = promotionData;
+    const { error } = await supabase
+      .from('promotions')
+      .update(updates)
+      .eq('id', id);
+
+    if (error) throw error;
+  }
+
+  private async syncDeletePromotion(promotionData: { id: string }): Promise<void> {
+    const { error } = await supabase
+      .from('promotions')
+      .delete()
+      .eq('id', promotionData.id);
+
+    if (error) throw error;
+  }
+
+  private async syncCreateTaxClass(taxClassData: TaxClassFormData): Promise<void> {
+    if (taxClassData.is_default) await this.clearDefaultTaxClass();
+
+    const { error } = await supabase
+      .from('tax_classes')
+      .insert([taxClassData]);
+
+    if (error) throw error;
+  }
+
+  private async syncUpdateTaxClass(taxClassData: Partial<TaxClassFormData> & { id: string }): Promise<void> {
+    const { id, ...updates } = taxClassData;
+    if (updates.is_default) await this.clearDefaultTaxClass();
+
+    const { error } = await supabase
+      .from('tax_classes')
+      .update(updates)
+      .eq('id', id);
+
+    if (error) throw error;
+  }
+
+  private async syncDeleteTaxClass(taxClassData: { id: string }): Promise<void> {
+    const { error } = await supabase
+      .from('tax_classes')
+      .delete()
+      .eq('id', taxClassData.id);
+
+    if (error) throw error;
+  }
+
+  private async syncUpdateCategoryTaxClass(data: { category_id: string; tax_class_id: string | null }): Promise<void> {
+    const { error } = await supabase
+      .from('categories')
+      .update({ tax_class_id: data.tax_class_id })
+      .eq('id', data.category_id);
+
+    if (error) throw error;
+  }
+
+  // Only one tax class may be the default at a time
+  async clearDefaultTaxClass(): Promise<void> {
+    const { error } = await supabase
+      .from('tax_classes')
+      .update({ is_default: false })
+      .eq('is_default', true);
+
+    if (error) throw error;
+  }
+
+  // Every stock change goes through record_stock_movement so it lands in the ledger
+  async recordStockMovements(movements: StockMovementInput[]): Promise<StockMovement[]> {
+    const recorded: StockMovement[] = [];
+
+    for (const movement of movements) {
+      const { data, error } = await supabase.rpc('record_stock_movement', {
+        p_product_id: movement.product_id,
+        p_variant_id: movement.variant_id || null,
+        p_delta: movement.quantity,
+        p_movement_type: movement.movement_type,
+        p_reason: movement.reason || null,
+        p_reference: movement.reference || null,
+        p_location_id: movement.location_id || null,
+        p_unit_cost: movement.unit_cost ?? null
+      });
+
       if (error) throw error;
-    } else {
-      const { error } = await supabase
-        .from('products')
-        .update({
-          quantity_in_stock: supabase.raw(`quantity_in_stock - ${quantity}`)
-        })
-        .eq('id', productId);
-      
+      recorded.push(data);
+    }
+
+    return recorded;
+  }
+
+  // For stock that has to follow a sale or refund already saved on the server: movements are recorded
+  // one at a time and whatever didn't go through is queued on its own, so a retry never moves stock twice
+  async recordOrQueueStockMovements(movements: StockMovementInput[]): Promise<StockMovement[]> {
+    const recorded: StockMovement[] = [];
+
+    for (let index = 0; index < movements.length; index++) {
+      try {
+        recorded.push(...await this.recordStockMovements([movements[index]]));
+      } catch (error) {
+        console.warn('Stock movement failed, queuing the rest for sync:', error);
+        for (const movement of movements.slice(index)) {
+          await this.queueAction({ type: 'RECORD_STOCK_MOVEMENT', data: movement });
+        }
+        break;
+      }
+    }
+
+    return recorded;
+  }
+
+  async restockRefundItems(items: CartItem[], refundNumber?: string, locationId?: string): Promise<void> {
+    await this.recordOrQueueStockMovements(buildRefundMovements(items, refundNumber, locationId));
+  }
+
+  // Adds delivered quantities to stock; used by purchase order receiving. Lines that don't go
+  // through are queued on their own, so neither the till nor a queued retry adds a line twice
+  async receiveStock(
+    items: { product_id: string; variant_id?: string; quantity: number; unit_cost?: number }[],
+    poNumber?: string
+  ): Promise<void> {
+    await this.recordOrQueueStockMovements(buildReceiveMovements(items, poNumber));
+  }
+
+  // Adds units to the serial register; a serial already on record fails the whole batch
+  async registerSerials(serials: ProductSerial[]): Promise<void> {
+    const rows = serials.map(serial => {
+      const row = { ...serial };
+      delete row.id;
+      return row;
+    });
+    const { error } = await supabase
+      .from('product_serials')
+      .insert(rows);
+
+    if (error) throw error;
+  }
+
+  // Scheduled changes only reach the catalogue through apply_due_price_changes, which also logs them
+  async applyDuePriceChanges(): Promise<number> {
+    const { data, error } = await supabase.rpc('apply_due_price_changes');
+
+    if (error) throw error;
+    return data || 0;
+  }
+
+  private async syncSchedulePrice(priceData: ScheduledPriceFormData & { product_id: string }): Promise<void> {
+    const { error } = await supabase
+      .from('scheduled_prices')
+      .insert([priceData]);
+
+    if (error) throw error;
+    await this.applyDuePriceChanges();
+  }
+
+  private async syncCancelScheduledPrice(id: string): Promise<void> {
+    const { error } = await supabase
+      .from('scheduled_prices')
+      .update({ status: 'cancelled' })
+      .eq('id', id)
+      .eq('status', 'scheduled');
+
+    if (error) throw error;
+  }
+
+  private async syncUpdateTicket(id: string, ticketData: Partial<ServiceTicket>): Promise<void> {
+    const { error } = await supabase
+      .from('service_tickets')
+      .update(ticketData)
+      .eq('id', id);
+
+    if (error) throw error;
+  }
+
+  // Reservations are worked out again against server stock, which may differ from the cache
+  private async syncTicketParts(partsData: { ticket_id: string; parts: TicketPart[]; labor_amount: number }): Promise<void> {
+    const { error } = await supabase.rpc('save_ticket_parts', {
+      p_ticket_id: partsData.ticket_id,
+      p_parts: partsData.parts,
+      p_labor_amount: partsData.labor_amount
+    });
+
+    if (error) throw error;
+  }
+
+  // A completion that already went through finds the ticket closed and moves no stock again
+  private async syncCompleteTicket(completion: { ticket_id: string; status: ServiceTicket['status'] }): Promise<void> {
+    const { error } = await supabase.rpc('complete_ticket', {
+      p_ticket_id: completion.ticket_id,
+      p_status: completion.status
+    });
+
+    if (error) throw error;
+  }
+
+  // Adds units to their lots through receive_product_lot, which creates a lot on first delivery
+  async receiveLots(lots: ProductLot[]): Promise<void> {
+    for (const lot of lots) {
+      const { error } = await supabase.rpc('receive_product_lot', {
+        p_product_id: lot.product_id,
+        p_variant_id: lot.variant_id || null,
+        p_lot_number: lot.lot_number,
+        p_expiry_date: lot.expiry_date || null,
+        p_quantity: lot.quantity,
+        p_po_number: lot.po_number || null,
+        p_supplier_id: lot.supplier_id || null
+      });
+
       if (error) throw error;
     }
   }
 
-  private async updateProductStock(items: any[]): Promise<void> {
-    for (const item of items) {
-      if (item.variant_id) {
-        await supabase
-          .from('product_variants')
-          .update({
-            quantity_in_stock: supabase.raw(`quantity_in_stock - ${item.quantity}`)
-          })
-          .eq('id', item.variant_id);
-      } else {
-        await supabase
-          .from('products')
-          .update({
-            quantity_in_stock: supabase.raw(`quantity_in_stock - ${item.quantity}`)
-          })
-          .eq('id', item.product_id);
+  // For lots that follow a delivery already in stock: each lot that doesn't go through is
+  // queued on its own, so a retry never adds a lot twice
+  async receiveOrQueueLots(lots: ProductLot[]): Promise<void> {
+    for (let index = 0; index < lots.length; index++) {
+      try {
+        await this.receiveLots([lots[index]]);
+      } catch (error) {
+        console.warn('Lot receipt failed, queuing the rest for sync:', error);
+        for (const lot of lots.slice(index)) {
+          await this.queueAction({ type: 'RECEIVE_LOTS', data: [lot] });
+        }
+        break;
       }
     }
   }
 
+  private async syncPurchaseOrder(order: PurchaseOrder): Promise<void> {
+    const { id, ...orderData } = order;
+    const { data, error } = await supabase
+      .from('purchase_orders')
+      .upsert([orderData], { onConflict: 'po_number' })
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    if (data && !id) {
+      const cached = (await offlineDB.getSetting('purchase_orders')) as unknown as PurchaseOrder[] || [];
+      const updated = cached.map(o => o.po_number === order.po_number ? { ...o, id: data.id } : o);
+      await offlineDB.saveSetting('purchase_orders', updated as unknown as Record<string, unknown>);
+    }
+  }
+
+  private async syncStocktake(session: StocktakeSession): Promise<void> {
+    const { id, ...sessionData } = session;
+    const { data, error } = await supabase
+      .from('stocktakes')
+      .upsert([sessionData], { onConflict: 'session_number' })
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    if (data && !id) {
+      const cached = (await offlineDB.getSetting('stocktakes')) as unknown as StocktakeSession[] || [];
+      const updated = cached.map(s => s.session_number === session.session_number ? { ...s, id: data.id } : s);
+      await offlineDB.saveSetting('stocktakes', updated as unknown as Record<string, unknown>);
+    }
+  }
+
+  private async syncStockTransfer(transfer: StockTransfer): Promise<void> {
+    const { id, ...transferData } = transfer;
+    const { data, error } = await supabase
+      .from('stock_transfers')
+      .upsert([transferData], { onConflict: 'transfer_number' })
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    if (data && !id) {
+      const cached = (await offlineDB.getSetting('stock_transfers')) as unknown as StockTransfer[] || [];
+      const updated = cached.map(t => t.transfer_number === transfer.transfer_number ? { ...t, id: data.id } : t);
+      await offlineDB.saveSetting('stock_transfers', updated as unknown as Record<string, unknown>);
+    }
+  }
+
+  private async syncSupplierActivity(activity: Omit<SupplierActivityLog, 'id' | 'created_at'>): Promise<void> {
+    const { error } = await supabase
+      .from('supplier_activity_log')
+      .insert([activity]);
+
+    if (error) throw error;
+  }
+
+  private async syncCreateSupplier(supplierData: SupplierFormData): Promise<void> {
+    const { error } = await supabase
+      .from('suppliers')
+      .insert([supplierData]);
+
+    if (error) throw error;
+  }
+
+  private async syncUpdateSupplier(id: string, supplierData: Partial<SupplierFormData>): Promise<void> {
+    const { error } = await supabase
+      .from('suppliers')
+      .update(supplierData)
+      .eq('id', id);
+
+    if (error) throw error;
+  }
+
+  // Suppliers are deactivated rather than deleted so order and product history stays intact
+  private async syncDeleteSupplier(id: string): Promise<void> {
+    const { error } = await supabase
+      .from('suppliers')
+      .update({ is_active: false })
+      .eq('id', id);
+
+    if (error) throw error;
+  }
+
+  private async syncSupplierPerformance(performance: Omit<SupplierPerformance, 'id' | 'created_at'>): Promise<void> {
+    const { error } = await supabase
+      .from('supplier_performance')
+      .insert([performance]);
+
+    if (error) throw error;
+  }
+
+  // Older clients queued bare stock decrements for sales; record them as sale movements
+  private async syncUpdateStock(stockData: any): Promise<void> {
+    const { productId, variantId, quantity } = stockData;
+
+    await this.recordStockMovements([{
+      product_id: productId,
+      variant_id: variantId,
+      movement_type: 'sale',
+      quantity: -Math.abs(quantity)
+    }]);
+  }
+
   // Queue actions for offline sync
   async queueAction(action: {
     type: string;
@@ -295,6 +853,12 @@ class SyncManager {
     this.notifySyncListeners();
   }
 
+  // Withdraws a queued action that hasn't synced yet, e.g. one the user took back while offline
+  async removeQueuedAction(id: string): Promise<void> {
+    await offlineDB.removeSyncQueueItem(id);
+    this.notifySyncListeners();
+  }
+
   // Status methods
   async getSyncStatus(): Promise<SyncStatus> {
     const pendingActions = (await offlineDB.getSyncQueue()).length;
@@ -363,6 +927,38 @@ class SyncManager {
   async findOfflineProductByBarcode(barcode: string): Promise<Product | undefined> {
     return await offlineDB.getProductByBarcode(barcode);
   }
+
+  async getOfflineSerials(): Promise<ProductSerial[]> {
+    return (await offlineDB.getSetting('product_serials')) as unknown as ProductSerial[] || [];
+  }
+
+  async saveOfflineSerials(serials: ProductSerial[]): Promise<void> {
+    await offlineDB.saveSetting('product_serials', serials as unknown as Record<string, unknown>);
+  }
+
+  async getOfflineLots(): Promise<ProductLot[]> {
+    return (await offlineDB.getSetting('product_lots')) as unknown as ProductLot[] || [];
+  }
+
+  async saveOfflineLots(lots: ProductLot[]): Promise<void> {
+    await offlineDB.saveSetting('product_lots', lots as unknown as Record<string, unknown>);
+  }
+
+  async getOfflineScheduledPrices(): Promise<ScheduledPrice[]> {
+    return (await offlineDB.getSetting('scheduled_prices')) as unknown as ScheduledPrice[] || [];
+  }
+
+  async saveOfflineScheduledPrices(prices: ScheduledPrice[]): Promise<void> {
+    await offlineDB.saveSetting('scheduled_prices', prices as unknown as Record<string, unknown>);
+  }
+
+  async getOfflinePriceHistory(): Promise<PriceChange[]> {
+    return (await offlineDB.getSetting('price_history')) as unknown as PriceChange[] || [];
+  }
+
+  async saveOfflinePriceHistory(changes: PriceChange[]): Promise<void> {
+    await offlineDB.saveSetting('price_history', changes as unknown as Record<string, unknown>);
+  }
 }
 
 export const syncManager = new SyncManager();
\ No newline at end of file
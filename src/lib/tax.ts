@@ -0,0 +1,102 @@
+import { CartItem } from '../types/pos';
+import { Product } from '../types/inventory';
+import { TaxBreakdownLine, TaxClass } from '../types/tax';
+import { roundCurrency } from './utils';
+
+export interface TaxOptions {
+  // Percentage applied when neither the item nor a default class resolves a rate
+  defaultRate: number;
+  pricesIncludeTax: boolean;
+  // Order-level discount, spread across lines by their share of the subtotal
+  orderDiscount?: number;
+}
+
+export interface TaxResult {
+  items: CartItem[];
+  tax_amount: number;
+  tax_breakdown: TaxBreakdownLine[];
+}
+
+// Product first, then its subcategory, then its category
+export function getProductTaxClassId(product: Product): string | undefined {
+  return product.tax_class_id || product.subcategory?.tax_class_id || product.category?.tax_class_id || undefined;
+}
+
+export function resolveTaxClass(
+  taxClassId: string | undefined,
+  taxClasses: TaxClass[],
+  defaultRate: number
+): { name: string; rate: number } {
+  const active = taxClasses.filter(taxClass => taxClass.is_active);
+  const taxClass = (taxClassId && active.find(c => c.id === taxClassId)) || active.find(c => c.is_default);
+
+  return taxClass
+    ? { name: taxClass.name, rate: taxClass.rate }
+    : { name: 'Tax', rate: defaultRate };
+}
+
+// Tax extracted from (inclusive) or added to (exclusive) a net line amount
+export function getLineTax(amount: number, rate: number, pricesIncludeTax: boolean): number {
+  if (rate <= 0) return 0;
+  return pricesIncludeTax
+    ? amount - amount / (1 + rate / 100)
+    : amount * (rate / 100);
+}
+
+// Group lines that already carry tax_amount/tax_rate into a per-rate summary
+export function summarizeTaxes(items: CartItem[], pricesIncludeTax: boolean): TaxBreakdownLine[] {
+  const groups = new Map<string, TaxBreakdownLine>();
+
+  items.forEach(item => {
+    const rate = item.tax_rate ?? 0;
+    const name = item.tax_name || 'Tax';
+    const key = `${name}:${rate}`;
+    const tax = item.tax_amount || 0;
+    const taxable = item.taxable_amount ?? (pricesIncludeTax ? item.subtotal - tax : item.subtotal);
+    const existing = groups.get(key);
+
+    if (existing) {
+      existing.taxable_amount = roundCurrency(existing.taxable_amount + taxable);
+      existing.tax_amount = roundCurrency(existing.tax_amount + tax);
+    } else {
+      groups.set(key, {
+        name,
+        rate,
+        taxable_amount: roundCurrency(taxable),
+        tax_amount: roundCurrency(tax)
+      });
+    }
+  });
+
+  return Array.from(groups.values()).sort((a, b) => b.rate - a.rate);
+}
+
+// Compute tax per line after spreading the order discount, then summarise by rate.
+// Each line is rounded to the cent so the breakdown always adds up to the total.
+export function calculateTaxes(items: CartItem[], taxClasses: TaxClass[], options: TaxOptions): TaxResult {
+  const subtotal = items.reduce((sum, item) => sum + item.subtotal, 0);
+  const orderDiscount = options.orderDiscount || 0;
+
+  const taxedItems = items.map(item => {
+    const taxClass = resolveTaxClass(item.tax_class_id, taxClasses, options.defaultRate);
+    const share = subtotal !== 0 ? item.subtotal / subtotal : 0;
+    const lineAmount = item.subtotal - orderDiscount * share;
+    const tax = roundCurrency(getLineTax(lineAmount, taxClass.rate, options.pricesIncludeTax));
+
+    return {
+      ...item,
+      tax_name: taxClass.name,
+      tax_rate: taxClass.rate,
+      tax_amount: tax,
+      taxable_amount: roundCurrency(options.pricesIncludeTax ? lineAmount - tax : lineAmount)
+    };
+  });
+
+  const breakdown = summarizeTaxes(taxedItems, options.pricesIncludeTax);
+
+  return {
+    items: taxedItems,
+    tax_amount: roundCurrency(breakdown.reduce((sum, line) => sum + line.tax_amount, 0)),
+    tax_breakdown: breakdown
+  };
+}
@@ -0,0 +1,93 @@
+import { Product } from '../types/inventory';
+import { CartItem } from '../types/pos';
+import { ServiceTicket } from '../types/tickets';
+import { getPartsTotal } from './ticketParts';
+import { getProductTaxClassId } from './tax';
+import { roundCurrency } from './utils';
+
+// Ticket numbers are TKT + yymmdd + four digits; a QR code may carry one inside a link or other text
+const TICKET_NUMBER_PATTERN = /TKT\d{10}/i;
+
+export function findTicketNumber(code: string): string | null {
+  const match = code.trim().match(TICKET_NUMBER_PATTERN);
+  return match ? match[0].toUpperCase() : null;
+}
+
+export const isTicketLine = (item: Pick<CartItem, 'service_ticket_id'>) => !!item.service_ticket_id;
+
+// A sale collects one ticket at most
+export const getCartTicketId = (items: CartItem[]) => items.find(isTicketLine)?.service_ticket_id;
+
+const consumedParts = (ticket: Pick<ServiceTicket, 'parts'>) =>
+  (ticket.parts || []).filter(part => part.status === 'consumed');
+
+// What the ticket charges for the work itself: the agreed price less the parts, which get lines of their own
+export function getServiceAmount(ticket: Pick<ServiceTicket, 'final_price' | 'price_quote' | 'parts'>): number {
+  const total = ticket.final_price ?? ticket.price_quote;
+  return roundCurrency(Math.max(total - getPartsTotal(consumedParts(ticket)), 0));
+}
+
+// Returns why a ticket can't be collected into this cart, or null when it can
+export function validateTicketForCollection(ticket: ServiceTicket, cartItems: CartItem[]): string | null {
+  if (ticket.paid) return `Ticket ${ticket.ticket_number} has already been paid`;
+  if (ticket.status !== 'completed') return `Ticket ${ticket.ticket_number} isn't completed yet`;
+  const cartTicketId = getCartTicketId(cartItems);
+  if (cartTicketId === ticket.id) return `Ticket ${ticket.ticket_number} is already in the cart`;
+  if (cartTicketId) return 'Only one ticket can be collected per sale';
+  return null;
+}
+
+export function describeTicketDevice(ticket: Pick<ServiceTicket, 'device_info' | 'service_details'>): string {
+  const device = [ticket.device_info?.brand, ticket.device_info?.model].filter(Boolean).join(' ');
+  return device || ticket.service_details?.serviceType || '';
+}
+
+// The service line carries the work, then one line per consumed part at the price agreed on the ticket
+export function buildTicketCartItems(ticket: ServiceTicket, products: Product[]): CartItem[] {
+  const productsById = new Map(products.map(product => [product.id, product]));
+  const parts = consumedParts(ticket);
+  const serviceAmount = getServiceAmount(ticket);
+
+  const partLines = parts.map<CartItem>(part => {
+    const product = productsById.get(part.product_id);
+    const subtotal = roundCurrency(part.quantity * part.unit_price);
+    return {
+      id: `${ticket.id}_${part.id}`,
+      product_id: part.product_id,
+      variant_id: part.variant_id || undefined,
+      name: part.name,
+      product_code: part.product_code,
+      price: part.unit_price,
+      quantity: part.quantity,
+      unit_of_measure: product?.unit_of_measure,
+      discount_amount: 0,
+      discount_percentage: 0,
+      subtotal,
+      image_url: product?.image_url,
+      category_id: product?.category_id,
+      subcategory_id: product?.subcategory_id,
+      tax_class_id: product ? getProductTaxClassId(product) : undefined,
+      unit_cost: part.unit_cost,
+      service_ticket_id: ticket.id
+    };
+  });
+
+  // Nothing left to charge for the work: the part lines alone carry the ticket
+  if (serviceAmount === 0 && partLines.length > 0) return partLines;
+
+  const serviceLine: CartItem = {
+    id: `${ticket.id}_service`,
+    product_id: '',
+    name: `${ticket.type === 'repair' ? 'Repair' : 'Digital service'} ${ticket.ticket_number}`,
+    product_code: ticket.ticket_number,
+    price: serviceAmount,
+    quantity: 1,
+    discount_amount: 0,
+    discount_percentage: 0,
+    subtotal: serviceAmount,
+    variant_name: describeTicketDevice(ticket) || undefined,
+    service_ticket_id: ticket.id
+  };
+
+  return [serviceLine, ...partLines];
+}
@@ -0,0 +1,121 @@
+import { Product, ProductVariant } from '../types/inventory';
+import { StockMovement, StockMovementInput } from '../types/stockMovements';
+import { ServiceTicket, TicketPart } from '../types/tickets';
+import { roundQuantity } from './units';
+import { roundCurrency } from './utils';
+
+const partKey = (part: Pick<TicketPart, 'product_id' | 'variant_id'>) =>
+  `${part.product_id}:${part.variant_id || ''}`;
+
+// Completed, delivered and canceled tickets hold no stock and their parts can't change
+export const holdsParts = (ticket: Pick<ServiceTicket, 'status'>) =>
+  !['completed', 'delivered', 'canceled'].includes(ticket.status);
+
+// Whether moving the ticket to this status takes its parts off the shelf
+export const completesTicket = (ticket: Pick<ServiceTicket, 'status'>, status?: ServiceTicket['status']) =>
+  !!status && (status === 'completed' || status === 'delivered') && holdsParts(ticket);
+
+// Serials and lots are picked per unit at the till, and kits hold no stock of their own
+export function canBeTicketPart(product: Product): boolean {
+  return product.is_active !== false && !product.is_kit && !product.is_serialized && !product.track_lots;
+}
+
+export function ticketPartFor(product: Product, variant: ProductVariant | undefined, unitPrice: number, quantity = 1): TicketPart {
+  return {
+    id: `${partKey({ product_id: product.id, variant_id: variant?.id })}_${Date.now()}`,
+    product_id: product.id,
+    variant_id: variant?.id || null,
+    name: variant ? `${product.name} – ${variant.name}: ${variant.value}` : product.name,
+    product_code: variant?.sku || product.product_code,
+    quantity,
+    unit_price: unitPrice,
+    // Variants cost what their product costs; additional_cost only moves the price
+    unit_cost: product.cost_price,
+    status: 'reserved'
+  };
+}
+
+// Stock on hand that no open ticket has reserved
+export function getFreeStock(product: Product, variant?: ProductVariant): number {
+  const holding = variant ?? product;
+  return roundQuantity(holding.quantity_in_stock - (holding.quantity_reserved || 0));
+}
+
+export const getPartsTotal = (parts: TicketPart[] = []) =>
+  roundCurrency(parts.reduce((sum, part) => sum + part.quantity * part.unit_price, 0));
+
+export const getPartsCost = (parts: TicketPart[] = []) =>
+  roundCurrency(parts.reduce((sum, part) => sum + part.quantity * part.unit_cost, 0));
+
+export const getTicketFinalPrice = (parts: TicketPart[] = [], laborAmount = 0) =>
+  roundCurrency(getPartsTotal(parts) + laborAmount);
+
+export const hasPartsAwaitingStock = (parts: TicketPart[] = []) =>
+  parts.some(part => part.status === 'awaiting_stock');
+
+// A delivery brought in everything the ticket was waiting for
+export const partsHaveArrived = (ticket: Pick<ServiceTicket, 'status' | 'parts_arrived_at'>) =>
+  ticket.status === 'awaiting_parts' && !!ticket.parts_arrived_at;
+
+// Returns what's wrong with a ticket's parts and labour, or null when they can be saved
+export function validateTicketParts(parts: TicketPart[], laborAmount: number): string | null {
+  for (const part of parts) {
+    if (!(part.quantity > 0)) return `Enter a quantity for ${part.name}`;
+    if (!(part.unit_price >= 0)) return `Enter a price for ${part.name}`;
+  }
+  if (!(laborAmount >= 0)) return 'Labour cannot be negative';
+  return null;
+}
+
+// Mirrors save_ticket_parts against the cached catalogue while offline. The ticket keeps
+// the stock it already reserved; other parts take what's free, in the order they're listed
+export function allocateTicketParts(parts: TicketPart[], previousParts: TicketPart[], products: Product[]): TicketPart[] {
+  const productsById = new Map(products.map(product => [product.id, product]));
+  const ownReserved = new Map<string, number>();
+  for (const part of previousParts.filter(p => p.status === 'reserved')) {
+    ownReserved.set(partKey(part), (ownReserved.get(partKey(part)) || 0) + part.quantity);
+  }
+
+  const claimed = new Map<string, number>();
+  return parts.map(part => {
+    const key = partKey(part);
+    const product = productsById.get(part.product_id);
+    const variant = part.variant_id ? product?.variants?.find(v => v.id === part.variant_id) : undefined;
+    const free = product
+      ? getFreeStock(product, variant) + (ownReserved.get(key) || 0) - (claimed.get(key) || 0)
+      : 0;
+
+    if (free >= part.quantity) {
+      claimed.set(key, (claimed.get(key) || 0) + part.quantity);
+      return { ...part, status: 'reserved' as const };
+    }
+    return { ...part, status: 'awaiting_stock' as const };
+  });
+}
+
+export function buildTicketPartMovements(ticket: Pick<ServiceTicket, 'ticket_number' | 'parts'>): StockMovementInput[] {
+  return (ticket.parts || [])
+    .filter(part => part.status === 'reserved')
+    .map(part => ({
+      product_id: part.product_id,
+      variant_id: part.variant_id || undefined,
+      movement_type: 'repair',
+      quantity: -Math.abs(part.quantity),
+      reference: ticket.ticket_number
+    }));
+}
+
+// Marks reserved parts used, valued at what the recorded movements took off the shelf
+// (movements come back in the order buildTicketPartMovements listed them)
+export function consumeTicketParts(parts: TicketPart[] = [], recorded: StockMovement[] = []): TicketPart[] {
+  let index = 0;
+  return parts.map(part => {
+    if (part.status !== 'reserved') return part;
+    const movement = recorded[index++];
+    return {
+      ...part,
+      status: 'consumed' as const,
+      unit_cost: movement?.unit_cost ?? part.unit_cost
+    };
+  });
+}
@@ -0,0 +1,23 @@
+import { UnitOfMeasure } from '../types/inventory';
+
+export const UNITS_OF_MEASURE: UnitOfMeasure[] = ['each', 'kg', 'g', 'lb', 'm', 'ft'];
+
+// Stock columns keep three decimals, enough for grams in kilograms or millimetres in metres
+const QUANTITY_DECIMALS = 3;
+
+export const isMeasured = (unit?: UnitOfMeasure) => !!unit && unit !== 'each';
+
+export function roundQuantity(quantity: number): number {
+  const factor = 10 ** QUANTITY_DECIMALS;
+  return Math.round(quantity * factor) / factor;
+}
+
+// Whole units stay whole; measured quantities are rounded to what stock can record
+export function normalizeQuantity(quantity: number, unit?: UnitOfMeasure): number {
+  return isMeasured(unit) ? roundQuantity(quantity) : Math.floor(quantity);
+}
+
+export function formatQuantity(quantity: number, unit?: UnitOfMeasure): string {
+  if (!isMeasured(unit)) return String(quantity);
+  return `${roundQuantity(quantity).toLocaleString('en-CA', { maximumFractionDigits: QUANTITY_DECIMALS })} ${unit}`;
+}
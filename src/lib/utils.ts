@@ -28,4 +28,32 @@ export function formatDateTime(date: string | Date) {
     hour: '2-digit',
     minute: '2-digit'
   })
-}
\ No newline at end of file
+}
+
+// Money amounts are kept to the cent
+export function roundCurrency(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+// Local calendar date as YYYY-MM-DD, the format <input type="date"> expects
+export function toDateInputValue(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+// Local date and time as YYYY-MM-DDTHH:mm, the format <input type="datetime-local"> expects
+export function toDateTimeInputValue(date: Date): string {
+  const hours = String(date.getHours()).padStart(2, '0');
+  const minutes = String(date.getMinutes()).padStart(2, '0');
+  return `${toDateInputValue(date)}T${hours}:${minutes}`;
+}
+
+// For text written into HTML or SVG markup by hand, e.g. print windows
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
@@ -0,0 +1,135 @@
+import { Product, ProductVariant, ProductVariantFormData, VariantOption } from '../types/inventory';
+
+const SEPARATOR = ' / ';
+
+type VariantAttributesSource = Pick<ProductVariant, 'name' | 'value' | 'attributes'>;
+
+// Retired variants only stay around for their stock history
+export const activeVariants = (product: Pick<Product, 'variants'>): ProductVariant[] =>
+  (product.variants || []).filter(variant => variant.is_active !== false);
+
+// Variants from before option axes are a single name/value pair
+export function getVariantAttributes(variant: VariantAttributesSource): Record<string, string> {
+  return variant.attributes && Object.keys(variant.attributes).length > 0
+    ? variant.attributes
+    : { [variant.name]: variant.value };
+}
+
+// Axes in the order they first appear, for products saved without variant_options
+export function deriveVariantOptions(variants: VariantAttributesSource[]): VariantOption[] {
+  const options: VariantOption[] = [];
+  variants.forEach(variant => {
+    Object.entries(getVariantAttributes(variant)).forEach(([name, value]) => {
+      let option = options.find(o => o.name === name);
+      if (!option) {
+        option = { name, values: [] };
+        options.push(option);
+      }
+      if (!option.values.includes(value)) option.values.push(value);
+    });
+  });
+  return options;
+}
+
+export function getVariantOptions(product: Pick<Product, 'variants' | 'variant_options'>): VariantOption[] {
+  return product.variant_options?.length ? product.variant_options : deriveVariantOptions(activeVariants(product));
+}
+
+const usableOptions = (options: VariantOption[]) =>
+  options.filter(option => option.name.trim() && option.values.length > 0);
+
+export const variantKey = (options: VariantOption[], attributes: Record<string, string>) =>
+  usableOptions(options).map(option => attributes[option.name] ?? '').join('\u0000');
+
+// The name/value pair stored alongside the attributes, e.g. "Color / Model" and "Red / iPhone 15"
+export function variantNameValue(options: VariantOption[], attributes: Record<string, string>) {
+  const axes = usableOptions(options);
+  return {
+    name: axes.map(option => option.name).join(SEPARATOR),
+    value: axes.map(option => attributes[option.name] ?? '').join(SEPARATOR)
+  };
+}
+
+export const variantLabel = (variant: VariantAttributesSource) =>
+  Object.values(getVariantAttributes(variant)).join(SEPARATOR);
+
+// Every combination of the option values, first axis varying slowest
+export function combineOptions(options: VariantOption[]): Record<string, string>[] {
+  const axes = usableOptions(options);
+  if (axes.length === 0) return [];
+  return axes.reduce<Record<string, string>[]>(
+    (combinations, option) => combinations.flatMap(combination =>
+      option.values.map(value => ({ ...combination, [option.name]: value }))
+    ),
+    [{}]
+  );
+}
+
+// Rows for each combination, keeping what was already entered for combinations that still exist
+export function buildVariantMatrix(
+  options: VariantOption[],
+  current: ProductVariantFormData[]
+): ProductVariantFormData[] {
+  const byKey = new Map(current.map(row => [variantKey(options, row.attributes), row]));
+  return combineOptions(options).map(attributes => {
+    const existing = byKey.get(variantKey(options, attributes));
+    return {
+      sku: '',
+      barcode: '',
+      additional_cost: 0,
+      quantity_in_stock: 0,
+      ...existing,
+      ...variantNameValue(options, attributes),
+      attributes
+    };
+  });
+}
+
+export function variantSkuFor(productCode: string, options: VariantOption[], attributes: Record<string, string>): string {
+  const parts = usableOptions(options).map(option =>
+    (attributes[option.name] || '').replace(/[^A-Za-z0-9]/g, '').toUpperCase()
+  );
+  return [productCode.trim(), ...parts].filter(Boolean).join('-');
+}
+
+// Returns what's wrong with the matrix, or null when it can be saved
+export function validateVariantMatrix(
+  options: VariantOption[],
+  variants: ProductVariantFormData[],
+  savedVariants: ProductVariant[]
+): string | null {
+  const names = options.map(option => option.name.trim());
+  if (names.some(name => !name)) return 'Give every option a name';
+  if (new Set(names).size !== names.length) return 'Option names must be different';
+  const empty = options.find(option => option.values.length === 0);
+  if (empty) return `Add at least one value to ${empty.name}`;
+
+  const barcodes = new Set<string>();
+  const skus = new Set<string>();
+  for (const variant of variants) {
+    if (variant.barcode) {
+      if (barcodes.has(variant.barcode)) return `Barcode ${variant.barcode} is used by more than one variant`;
+      barcodes.add(variant.barcode);
+    }
+    if (variant.sku) {
+      if (skus.has(variant.sku)) return `SKU ${variant.sku} is used by more than one variant`;
+      skus.add(variant.sku);
+    }
+  }
+
+  // Removing a variant would leave its stock uncounted
+  const kept = new Set(variants.map(variant => variant.id));
+  const stocked = savedVariants.find(variant => !kept.has(variant.id) && variant.quantity_in_stock !== 0);
+  if (stocked) {
+    return `${variantLabel(stocked)} still has ${stocked.quantity_in_stock} in stock. Adjust it to zero before removing it`;
+  }
+  return null;
+}
+
+// Variants matching every axis picked so far
+export function narrowVariants(variants: ProductVariant[], selection: Record<string, string>): ProductVariant[] {
+  return variants.filter(variant => {
+    const attributes = getVariantAttributes(variant);
+    return Object.entries(selection).every(([axis, value]) => attributes[axis] === value);
+  });
+}
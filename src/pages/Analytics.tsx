@@ -11,6 +11,8 @@ import { ProductAnalytics, SupplierAnalytics, AnalyticsFilters } from '../types/
 import { useTransactions, getEarliestTransactionDate } from '../hooks/useTransactions';
 import { useInventory } from '../hooks/useInventory';
 import { useTickets } from '../hooks/useTickets';
+import { useLocations } from '../hooks/useLocations';
+import { useTillLocation } from '../hooks/useTillLocation';
 import { useTranslation } from 'react-i18next';
 
 export default function Analytics() {
@@ -19,6 +21,8 @@ export default function Analytics() {
   const { transactions } = useTransactions();
   const { products } = useInventory();
   const { tickets } = useTickets();
+  const { activeLocations } = useLocations();
+  const { tillLocationId } = useTillLocation();
 
   // --- Analytics Filter State ---
   const [filters, setFilters] = useState<AnalyticsFilters>({
@@ -29,6 +33,13 @@ export default function Analytics() {
   });
   const [loadingEarliest, setLoadingEarliest] = useState(false);
 
+  // Start from the stock this till sells from; the filter can still switch to any location
+  useEffect(() => {
+    if (tillLocationId) {
+      setFilters(prev => ({ ...prev, location_id: tillLocationId }));
+    }
+  }, [tillLocationId]);
+
   useEffect(() => {
     setLoadingEarliest(true);
     getEarliestAnalyticsDate().then(() => {
@@ -205,7 +216,7 @@ export default function Analytics() {
           </CardTitle>
         </CardHeader>
         <CardContent>
-          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <div className={`grid grid-cols-1 gap-4 ${activeLocations.length > 1 ? 'md:grid-cols-5' : 'md:grid-cols-4'}`}>
             <div>
               <label className="text-sm font-medium mb-2 block">{t('analytics.fromDate') || 'From Date'}</label>
               <input
@@ -240,6 +251,21 @@ export default function Analytics() {
                 <option value="all_time">{t('analytics.allTime') || 'All Time'}</option>
               </select>
             </div>
+            {activeLocations.length > 1 && (
+              <div>
+                <label className="text-sm font-medium mb-2 block">{t('locations.location')}</label>
+                <select
+                  value={filters.location_id || ''}
+                  onChange={e => setFilters(prev => ({ ...prev, location_id: e.target.value || undefined }))}
+                  className="w-full px-3 py-2 border border-border rounded-md bg-background text-foreground dark:bg-background/80"
+                >
+                  <option value="">{t('locations.allLocations')}</option>
+                  {activeLocations.map(location => (
+                    <option key={location.id} value={location.id}>{location.name}</option>
+                  ))}
+                </select>
+              </div>
+            )}
             <div className="flex items-end">
               {/* This button will trigger chart updates in all tabs */}
               <button
@@ -333,6 +359,12 @@ function ProductAnalyticsTab({ filters }: { filters: AnalyticsFilters }) {
   // Top products by inventory value
   const topProducts = [...products].sort((a, b) => b.inventory_value - a.inventory_value).slice(0, 5);
 
+  // Gross profit from the cost of goods recorded on each sale
+  const soldProducts = products.filter(p => p.units_sold !== 0);
+  const totalRevenue = soldProducts.reduce((sum, p) => sum + p.sales_revenue, 0);
+  const totalGrossProfit = soldProducts.reduce((sum, p) => sum + p.gross_profit, 0);
+  const topByProfit = [...soldProducts].sort((a, b) => b.gross_profit - a.gross_profit).slice(0, 5);
+
   // Pie chart helper
   function PieChart({ data, total, size = 120 }: { data: { name: string; count: number }[]; total: number; size?: number }) {
     let startAngle = 0;
@@ -452,6 +484,43 @@ function ProductAnalyticsTab({ filters }: { filters: AnalyticsFilters }) {
         </CardContent>
       </Card>
 
+      {/* Gross Profit Table */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Top Products by Gross Profit</CardTitle>
+          <CardDescription>
+            {formatCurrency(totalGrossProfit)} gross profit on {formatCurrency(totalRevenue)} in sales
+            {totalRevenue !== 0 && ` (${((totalGrossProfit / totalRevenue) * 100).toFixed(1)}% margin)`}, after cost of goods sold
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Units Sold</TableHead>
+                <TableHead>Sales</TableHead>
+                <TableHead>Cost of Goods Sold</TableHead>
+                <TableHead>Gross Profit</TableHead>
+                <TableHead>Margin</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {topByProfit.map((p) => (
+                <TableRow key={p.id}>
+                  <TableCell>{p.name}</TableCell>
+                  <TableCell>{p.units_sold}</TableCell>
+                  <TableCell>{formatCurrency(p.sales_revenue)}</TableCell>
+                  <TableCell>{formatCurrency(p.cost_of_goods_sold)}</TableCell>
+                  <TableCell>{formatCurrency(p.gross_profit)}</TableCell>
+                  <TableCell>{p.profit_margin_percentage.toFixed(1)}%</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
       {/* Top Products Table */}
       <Card>
         <CardHeader>
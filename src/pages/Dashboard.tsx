@@ -4,6 +4,7 @@ import { Package, AlertTriangle, TrendingUp, DollarSign, ShoppingCart, Users, Tr
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { useAnalytics } from '@/hooks/useAnalytics';
 import DashboardCharts from '@/components/analytics/DashboardCharts';
+import ExpiringLotsCard from '@/components/analytics/ExpiringLotsCard';
 
 export default function Dashboard() {
   const { t } = useTranslation();
@@ -161,6 +162,9 @@ export default function Dashboard() {
             </Card>
           </div>
 
+          {/* Near-expiry alerts for lot-tracked stock */}
+          <ExpiringLotsCard />
+
           {/* Error State */}
           {error && (
             <div className="text-red-600 text-sm mt-2">
@@ -1,7 +1,9 @@
 import React, { useState } from 'react';
 import { useTranslation } from 'react-i18next';
-import { AlertCircle, Copy } from 'lucide-react';
+import { AlertCircle, Copy, ScanSearch, Tags } from 'lucide-react';
 import { useInventory } from '../hooks/useInventory';
+import { useTaxClasses } from '../hooks/useTaxClasses';
+import { useLocations } from '../hooks/useLocations';
 import { Product, InventoryFilters, ProductFormData } from '../types/inventory';
 import { useToast } from '@/hooks/useToast';
 import { Button } from '@/components/ui/button';
@@ -9,6 +11,11 @@ import ProductForm from '../components/inventory/ProductForm';
 import ProductList from '../components/inventory/ProductList';
 import ProductFilters from '../components/inventory/ProductFilters';
 import ProductDetails from '../components/inventory/ProductDetails';
+import SerialLookupDialog from '../components/inventory/SerialLookupDialog';
+import CatalogImportDialog from '../components/inventory/CatalogImportDialog';
+import PrintLabelsDialog from '../components/inventory/PrintLabelsDialog';
+import { buildCatalogRows } from '../lib/catalogImport';
+import { downloadSpreadsheet, SpreadsheetFormat } from '../lib/spreadsheet';
 
 function CopiableCode({ value }: { value: string }) {
   const [copied, setCopied] = React.useState(false);
@@ -34,7 +41,10 @@ function CopiableCode({ value }: { value: string }) {
 export default function Inventory() {
   const { t } = useTranslation();
   const { toast } = useToast();
+  const { taxClasses } = useTaxClasses();
+  const { activeLocations } = useLocations();
   const {
+    products,
     categories,
     suppliers,
     loading,
@@ -52,11 +62,15 @@ export default function Inventory() {
   const [editingProduct, setEditingProduct] = useState<Product | null>(null);
   const [viewingProduct, setViewingProduct] = useState<Product | null>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [showSerialLookup, setShowSerialLookup] = useState(false);
+  const [showImport, setShowImport] = useState(false);
+  const [labelProducts, setLabelProducts] = useState<Product[] | null>(null);
   const [filters, setFilters] = useState<InventoryFilters>({
     search: '',
     category_id: '',
     subcategory_id: '',
     supplier_id: '',
+    location_id: '',
     low_stock_only: false,
     is_active: true
   });
@@ -94,18 +108,33 @@ export default function Inventory() {
         quantity_in_stock: formData.quantity_in_stock,
         min_stock_level: formData.min_stock_level,
         supplier_id: formData.supplier_id || undefined,
+        tax_class_id: formData.tax_class_id || null,
         image_url: formData.image_url,
+        is_serialized: formData.is_serialized,
+        warranty_months: formData.warranty_months,
+        track_lots: formData.track_lots,
+        unit_of_measure: formData.unit_of_measure,
+        plu: formData.plu || null,
+        is_kit: formData.is_kit,
+        kit_components: formData.is_kit ? formData.kit_components : [],
+        variant_options: formData.is_kit ? [] : formData.variant_options,
         is_active: true
       };
+      const variants = formData.is_kit ? [] : formData.variants;
 
       if (editingProduct) {
-        await updateProduct(editingProduct.id, productData);
+        // Stock on existing products only changes through recorded stock movements
+        const updateData: Partial<Product> = { ...productData };
+        delete updateData.quantity_in_stock;
+        // Cost follows the cost layers while there is stock to carry it
+        if (!editingProduct.is_kit && editingProduct.quantity_in_stock > 0) delete updateData.cost_price;
+        await updateProduct(editingProduct.id, updateData, variants);
         toast({
           title: "Success",
           description: "Product updated successfully",
         });
       } else {
-        await createProduct(productData);
+        await createProduct(productData, variants);
         toast({
           title: "Success",
           description: "Product created successfully",
@@ -149,18 +178,10 @@ export default function Inventory() {
     // This is now handled by the BarcodeScanButton component in ProductFilters
   };
 
-  const handleExport = () => {
-    toast({
-      title: "Coming Soon",
-      description: "Export functionality will be available soon.",
-    });
-  };
-
-  const handleImport = () => {
-    toast({
-      title: "Coming Soon",
-      description: "Import functionality will be available soon.",
-    });
+  // Exports what the filters currently show, in the layout the importer reads back
+  const handleExport = (format: SpreadsheetFormat) => {
+    const date = new Date().toISOString().slice(0, 10);
+    downloadSpreadsheet(`catalog-${date}`, buildCatalogRows(filteredProducts, categories, suppliers), format);
   };
 
   if (error) {
@@ -199,13 +220,30 @@ export default function Inventory() {
   return (
     <div className="space-y-6">
       {/* Header */}
-      <div>
-        <h1 className="text-3xl font-bold tracking-tight">
-          {t('inventory.title')}
-        </h1>
-        <p className="text-muted-foreground">
-          Manage your product inventory with barcode scanning support
-        </p>
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">
+            {t('inventory.title')}
+          </h1>
+          <p className="text-muted-foreground">
+            Manage your product inventory with barcode scanning support
+          </p>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <Button
+            variant="outline"
+            onClick={() => setLabelProducts(filteredProducts)}
+            disabled={filteredProducts.length === 0}
+            className="flex items-center gap-2"
+          >
+            <Tags className="h-4 w-4" />
+            {t('labels.printLabels')}
+          </Button>
+          <Button variant="outline" onClick={() => setShowSerialLookup(true)} className="flex items-center gap-2">
+            <ScanSearch className="h-4 w-4" />
+            {t('serials.lookupTitle')}
+          </Button>
+        </div>
       </div>
 
       {/* Filters */}
@@ -213,10 +251,11 @@ export default function Inventory() {
         filters={filters}
         categories={categories}
         suppliers={suppliers}
+        locations={activeLocations}
         onFiltersChange={setFilters}
         onScanBarcode={handleScanBarcode}
         onExport={handleExport}
-        onImport={handleImport}
+        onImport={() => setShowImport(true)}
         onRefresh={refreshData}
         onAddProduct={handleAddProduct}
         isLoading={loading}
@@ -228,7 +267,10 @@ export default function Inventory() {
         onEdit={handleEditProduct}
         onDelete={handleDeleteProduct}
         onView={handleViewProduct}
+        onPrintLabels={(product) => setLabelProducts([product])}
         loading={loading}
+        locationId={filters.location_id || undefined}
+        catalog={products}
       />
 
       {/* Product Form Dialog */}
@@ -237,6 +279,8 @@ export default function Inventory() {
           product={editingProduct || undefined}
           categories={categories}
           suppliers={suppliers}
+          taxClasses={taxClasses}
+          products={products}
           onSubmit={handleFormSubmit}
           onCancel={() => {
             setShowForm(false);
@@ -251,11 +295,34 @@ export default function Inventory() {
       {/* Product Details Dialog */}
       {viewingProduct && (
         <ProductDetails
-          product={viewingProduct}
+          product={products.find(p => p.id === viewingProduct.id) || viewingProduct}
           onClose={() => setViewingProduct(null)}
           onEdit={() => handleEditProduct(viewingProduct)}
+          onStockChanged={refreshData}
+          onPriceChanged={refreshData}
+          locations={activeLocations}
+          catalog={products}
         />
       )}
+
+      {/* Catalog Import Dialog */}
+      {showImport && (
+        <CatalogImportDialog open={showImport} onOpenChange={setShowImport} onImported={refreshData} />
+      )}
+
+      {/* Print Labels Dialog */}
+      {labelProducts && (
+        <PrintLabelsDialog
+          open={!!labelProducts}
+          onOpenChange={(open) => !open && setLabelProducts(null)}
+          products={labelProducts}
+        />
+      )}
+
+      {/* Serial Lookup Dialog */}
+      {showSerialLookup && (
+        <SerialLookupDialog open={showSerialLookup} onOpenChange={setShowSerialLookup} />
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,394 @@
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Plus, Edit, Star, Eye, Send, PackageCheck, XCircle, WifiOff, ArrowRightLeft } from 'lucide-react';
+import { Location, LocationFormData, StockTransfer, StockTransferFormData, StockTransferStatus } from '../types/locations';
+import { useLocations } from '../hooks/useLocations';
+import { useStockTransfers } from '../hooks/useStockTransfers';
+import { useInventory } from '../hooks/useInventory';
+import { getTransferUnits } from '../lib/locations';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import LocationForm from '@/components/locations/LocationForm';
+import StockTransferForm from '@/components/locations/StockTransferForm';
+import StockTransferDetails from '@/components/locations/StockTransferDetails';
+import DeleteConfirmation from '@/components/common/DeleteConfirmation';
+import LoadingSpinner from '@/components/common/LoadingSpinner';
+import { UnifiedTable } from '@/components/common/UnifiedTable';
+import { formatDate } from '@/lib/utils';
+
+const TRANSFER_STATUSES: StockTransferStatus[] = ['draft', 'in_transit', 'received', 'cancelled'];
+
+const statusStyles: Record<StockTransferStatus, string> = {
+  draft: 'bg-gray-100 text-gray-800',
+  in_transit: 'bg-blue-100 text-blue-800',
+  received: 'bg-green-100 text-green-800',
+  cancelled: 'bg-red-100 text-red-800'
+};
+
+export default function Locations() {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const { products, refreshData: refreshInventory } = useInventory();
+  const {
+    locations,
+    activeLocations,
+    loading: locationsLoading,
+    isOnline,
+    createLocation,
+    updateLocation,
+    setDefaultLocation
+  } = useLocations();
+  const {
+    transfers,
+    loading: transfersLoading,
+    createTransfer,
+    sendTransfer,
+    receiveTransfer,
+    cancelTransfer
+  } = useStockTransfers();
+
+  const [statusFilter, setStatusFilter] = useState<StockTransferStatus | 'all'>('all');
+
+  // Modal states
+  const [showLocationForm, setShowLocationForm] = useState(false);
+  const [editingLocation, setEditingLocation] = useState<Location | null>(null);
+  const [showTransferForm, setShowTransferForm] = useState(false);
+  const [viewingTransfer, setViewingTransfer] = useState<StockTransfer | null>(null);
+  const [cancellingTransfer, setCancellingTransfer] = useState<StockTransfer | null>(null);
+
+  const locationName = (id: string) => locations.find(l => l.id === id)?.name || '—';
+  const filteredTransfers = transfers.filter(transfer => statusFilter === 'all' || transfer.status === statusFilter);
+
+  // Units on hand across every product and variant held at the location
+  const unitsAt = (locationId: string) => products.reduce((sum, product) =>
+    sum + (product.location_stock || [])
+      .filter(row => row.location_id === locationId)
+      .reduce((units, row) => units + row.quantity, 0), 0);
+
+  const showError = (error: unknown) => {
+    toast({
+      title: t('common.error'),
+      description: error instanceof Error ? error.message : t('errors.savingFailed'),
+      variant: 'destructive',
+    });
+  };
+
+  const handleLocationSubmit = async (formData: LocationFormData) => {
+    try {
+      if (editingLocation) {
+        await updateLocation(editingLocation.id, formData);
+      } else {
+        await createLocation(formData);
+      }
+      toast({
+        title: t('common.success'),
+        description: t('locations.locationSaved'),
+      });
+      setShowLocationForm(false);
+      setEditingLocation(null);
+    } catch (error) {
+      console.error('Error saving location:', error);
+      showError(error);
+    }
+  };
+
+  const handleSetDefault = async (location: Location) => {
+    try {
+      await setDefaultLocation(location.id);
+      toast({
+        title: t('common.success'),
+        description: t('locations.defaultSet', { name: location.name }),
+      });
+    } catch (error) {
+      console.error('Error setting default location:', error);
+      showError(error);
+    }
+  };
+
+  const handleTransferSubmit = async (formData: StockTransferFormData) => {
+    try {
+      const transfer = await createTransfer(formData);
+      toast({
+        title: t('common.success'),
+        description: t('locations.transferSaved', { number: transfer.transfer_number }),
+      });
+      setShowTransferForm(false);
+    } catch (error) {
+      console.error('Error creating transfer:', error);
+      showError(error);
+    }
+  };
+
+  const handleSend = async (transfer: StockTransfer) => {
+    try {
+      await sendTransfer(transfer.transfer_number, products);
+      toast({
+        title: t('common.success'),
+        description: t('locations.sentToast', { number: transfer.transfer_number }),
+      });
+      await refreshInventory();
+    } catch (error) {
+      console.error('Error sending transfer:', error);
+      showError(error);
+    }
+  };
+
+  const handleReceive = async (transfer: StockTransfer) => {
+    try {
+      await receiveTransfer(transfer.transfer_number);
+      toast({
+        title: t('common.success'),
+        description: t('locations.receivedToast', { number: transfer.transfer_number }),
+      });
+      await refreshInventory();
+    } catch (error) {
+      console.error('Error receiving transfer:', error);
+      showError(error);
+    }
+  };
+
+  const handleCancel = async () => {
+    if (!cancellingTransfer) return;
+
+    try {
+      await cancelTransfer(cancellingTransfer.transfer_number);
+      setCancellingTransfer(null);
+    } catch (error) {
+      console.error('Error cancelling transfer:', error);
+      showError(error);
+    }
+  };
+
+  const locationColumns = [
+    {
+      key: 'name',
+      label: t('common.name'),
+      render: (l: Location) => (
+        <div className="flex items-center gap-2">
+          {l.name}
+          {l.is_default && <Badge variant="secondary">{t('locations.default')}</Badge>}
+        </div>
+      )
+    },
+    { key: 'code', label: t('locations.code'), className: 'font-mono', render: (l: Location) => l.code || '—' },
+    { key: 'address', label: t('locations.address'), render: (l: Location) => l.address || '—' },
+    { key: 'units', label: t('locations.unitsOnHand'), type: 'number' as const, render: (l: Location) => unitsAt(l.id) },
+    {
+      key: 'is_active',
+      label: t('common.status'),
+      render: (l: Location) => (
+        <Badge className={l.is_active ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-800'}>
+          {l.is_active ? t('locations.active') : t('locations.inactive')}
+        </Badge>
+      )
+    },
+  ];
+
+  const transferColumns = [
+    { key: 'transfer_number', label: t('locations.number'), className: 'font-mono' },
+    { key: 'from', label: t('locations.from'), render: (tr: StockTransfer) => locationName(tr.from_location_id) },
+    { key: 'to', label: t('locations.to'), render: (tr: StockTransfer) => locationName(tr.to_location_id) },
+    {
+      key: 'status',
+      label: t('common.status'),
+      render: (tr: StockTransfer) => <Badge className={statusStyles[tr.status]}>{t(`locations.statuses.${tr.status}`)}</Badge>
+    },
+    { key: 'lines', label: t('locations.lines'), render: (tr: StockTransfer) => tr.lines.length },
+    { key: 'units', label: t('locations.units'), type: 'number' as const, render: (tr: StockTransfer) => getTransferUnits(tr) },
+    { key: 'created_at', label: t('common.date'), type: 'date' as const, render: (tr: StockTransfer) => formatDate(tr.created_at) },
+  ];
+
+  if (locationsLoading || transfersLoading) {
+    return <LoadingSpinner />;
+  }
+
+  return (
+    <div className="space-y-6 px-4 md:px-8 min-w-0">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">{t('locations.title')}</h1>
+          <p className="text-muted-foreground">{t('locations.description')}</p>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <Button
+            variant="outline"
+            onClick={() => {
+              setEditingLocation(null);
+              setShowLocationForm(true);
+            }}
+            disabled={!isOnline}
+            className="flex items-center gap-2"
+          >
+            <Plus className="h-4 w-4" />
+            {t('locations.addLocation')}
+          </Button>
+          <Button
+            onClick={() => setShowTransferForm(true)}
+            disabled={activeLocations.length < 2}
+            className="flex items-center gap-2"
+          >
+            <ArrowRightLeft className="h-4 w-4" />
+            {t('locations.newTransfer')}
+          </Button>
+        </div>
+      </div>
+
+      {!isOnline && (
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          <WifiOff className="h-4 w-4" />
+          {t('locations.offlineNotice')}
+        </div>
+      )}
+
+      <Tabs defaultValue="transfers" className="space-y-4">
+        <TabsList>
+          <TabsTrigger value="transfers">{t('locations.transfers')}</TabsTrigger>
+          <TabsTrigger value="locations">{t('locations.locations')}</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="transfers" className="space-y-4">
+          <div className="flex justify-end">
+            <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as StockTransferStatus | 'all')}>
+              <SelectTrigger className="w-48 bg-background border-border text-foreground dark:bg-background/80">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-background border-border text-foreground dark:bg-background/80">
+                <SelectItem value="all">{t('locations.allStatuses')}</SelectItem>
+                {TRANSFER_STATUSES.map(status => (
+                  <SelectItem key={status} value={status}>{t(`locations.statuses.${status}`)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <UnifiedTable
+            columns={transferColumns}
+            data={filteredTransfers}
+            loading={transfersLoading}
+            emptyMessage={t('locations.noTransfers')}
+            rowKey={tr => tr.transfer_number}
+            actions={transfer => (
+              <div className="flex items-center justify-end gap-2">
+                <button
+                  className="text-blue-600 hover:text-blue-900"
+                  onClick={() => setViewingTransfer(transfer)}
+                  title={t('common.view')}
+                >
+                  <Eye className="h-4 w-4" />
+                </button>
+                {transfer.status === 'draft' && (
+                  <>
+                    <button
+                      className="text-indigo-600 hover:text-indigo-900"
+                      onClick={() => handleSend(transfer)}
+                      title={t('locations.send')}
+                    >
+                      <Send className="h-4 w-4" />
+                    </button>
+                    <button
+                      className="text-red-600 hover:text-red-900"
+                      onClick={() => setCancellingTransfer(transfer)}
+                      title={t('common.cancel')}
+                    >
+                      <XCircle className="h-4 w-4" />
+                    </button>
+                  </>
+                )}
+                {transfer.status === 'in_transit' && (
+                  <button
+                    className="text-green-600 hover:text-green-900"
+                    onClick={() => handleReceive(transfer)}
+                    title={t('locations.receive')}
+                  >
+                    <PackageCheck className="h-4 w-4" />
+                  </button>
+                )}
+              </div>
+            )}
+          />
+        </TabsContent>
+
+        <TabsContent value="locations" className="space-y-4">
+          <UnifiedTable
+            columns={locationColumns}
+            data={locations}
+            loading={locationsLoading}
+            emptyMessage={t('locations.noLocations')}
+            rowKey={l => l.id}
+            actions={location => (
+              <div className="flex items-center justify-end gap-2">
+                <button
+                  className="text-indigo-600 hover:text-indigo-900 disabled:opacity-50"
+                  onClick={() => {
+                    setEditingLocation(location);
+                    setShowLocationForm(true);
+                  }}
+                  disabled={!isOnline}
+                  title={t('common.edit')}
+                >
+                  <Edit className="h-4 w-4" />
+                </button>
+                {!location.is_default && location.is_active && (
+                  <button
+                    className="text-yellow-600 hover:text-yellow-800 disabled:opacity-50"
+                    onClick={() => handleSetDefault(location)}
+                    disabled={!isOnline}
+                    title={t('locations.makeDefault')}
+                  >
+                    <Star className="h-4 w-4" />
+                  </button>
+                )}
+              </div>
+            )}
+          />
+        </TabsContent>
+      </Tabs>
+
+      {showLocationForm && (
+        <LocationForm
+          key={editingLocation?.id || 'new'}
+          open={showLocationForm}
+          onOpenChange={(open) => {
+            setShowLocationForm(open);
+            if (!open) setEditingLocation(null);
+          }}
+          onSubmit={handleLocationSubmit}
+          location={editingLocation || undefined}
+        />
+      )}
+
+      {showTransferForm && (
+        <StockTransferForm
+          open={showTransferForm}
+          onOpenChange={setShowTransferForm}
+          onSubmit={handleTransferSubmit}
+          locations={activeLocations}
+          products={products}
+        />
+      )}
+
+      {viewingTransfer && (
+        <StockTransferDetails
+          transfer={transfers.find(tr => tr.transfer_number === viewingTransfer.transfer_number) || viewingTransfer}
+          locations={locations}
+          onClose={() => setViewingTransfer(null)}
+        />
+      )}
+
+      {cancellingTransfer && (
+        <DeleteConfirmation
+          open={!!cancellingTransfer}
+          onOpenChange={(open) => !open && setCancellingTransfer(null)}
+          onConfirm={handleCancel}
+          title={t('locations.cancelTitle')}
+          description={t('locations.cancelDescription', { number: cancellingTransfer.transfer_number })}
+          confirmLabel={t('locations.cancelTransfer')}
+        />
+      )}
+    </div>
+  );
+}
@@ -1,12 +1,28 @@
 import React, { useState } from 'react';
-import { CreditCard, RotateCcw, AlertCircle } from 'lucide-react';
+import { CreditCard, RotateCcw, AlertCircle, Undo2, PauseCircle, Wrench } from 'lucide-react';
 import { usePOS } from '../hooks/usePOS';
+import { useRegister } from '../hooks/useRegister';
+import { useSettings } from '../hooks/useSettings';
+import { useSerials } from '../hooks/useSerials';
+import { useLots } from '../hooks/useLots';
+import { gtinToBarcodes, parseGS1Barcode } from '../lib/barcodeScanner';
+import { findTicketNumber } from '../lib/ticketCheckout';
 import BarcodeScanner from '../components/pos/BarcodeScanner';
 import CartDisplay from '../components/pos/CartDisplay';
 import PaymentModal from '../components/pos/PaymentModal';
 import Receipt from '../components/pos/Receipt';
 import ProductSearch from '../components/pos/ProductSearch';
-import { PaymentMethod, Receipt as ReceiptType } from '../types/pos';
+import RefundModal from '../components/pos/RefundModal';
+import HeldCarts from '../components/pos/HeldCarts';
+import ParkCartDialog from '../components/pos/ParkCartDialog';
+import CollectTicketDialog from '../components/pos/CollectTicketDialog';
+import RegisterSessionCard from '../components/pos/RegisterSessionCard';
+import ZReport from '../components/pos/ZReport';
+import SerialNumberDialog from '../components/pos/SerialNumberDialog';
+import { PaymentMethod, Receipt as ReceiptType, RefundRequest } from '../types/pos';
+import { ZReport as ZReportType } from '../types/register';
+import { Product, ProductVariant } from '../types/inventory';
+import { LotSelection } from '../types/lots';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { useToast } from '@/hooks/useToast';
@@ -19,17 +35,32 @@ export default function POS() {
   const { toast } = useToast();
   const {
     cart,
+    heldCarts,
     settings,
     isProcessing,
     lastTransaction,
     addToCart,
     updateItemQuantity,
     removeFromCart,
+    collectTicket,
     applyDiscount,
+    applyCoupon,
+    removeCoupon,
     clearCart,
+    parkCart,
+    resumeHeldCart,
+    discardHeldCart,
     processTransaction,
+    processRefund,
+    findTransactionByNumber,
+    findTicketByNumber,
+    getTransactionRefunds,
     findProductByBarcode
   } = usePOS();
+  const register = useRegister();
+  const { checkSerialForSale, findUnitForSale } = useSerials();
+  const { suggestLotForSale, checkLotForSale } = useLots();
+  const { settings: appSettings } = useSettings();
   const { t } = useTranslation();
 
   const [showPaymentModal, setShowPaymentModal] = useState(false);
@@ -37,20 +68,99 @@ export default function POS() {
   const [searchQuery, setSearchQuery] = useState('');
   const [error, setError] = useState<string | null>(null);
   const [showCameraScanner, setShowCameraScanner] = useState(false);
+  const [showRefundModal, setShowRefundModal] = useState(false);
+  const [showParkDialog, setShowParkDialog] = useState(false);
+  const [showCollectDialog, setShowCollectDialog] = useState(false);
+  const [registerReport, setRegisterReport] = useState<ZReportType | null>(null);
+  const [pendingSerialItem, setPendingSerialItem] = useState<{ product: Product; variant?: ProductVariant } | null>(null);
+
+  // Serialized products wait for their serial to be scanned before reaching the cart.
+  // Lot-tracked products take the scanned lot, or the first-expiring lot on hand (FEFO).
+  const handleAddToCart = async (product: Product, variant?: ProductVariant, quantity?: number, lot?: LotSelection) => {
+    if (product.is_serialized) {
+      setPendingSerialItem({ product, variant });
+      return;
+    }
+    if (product.track_lots) {
+      const selected = lot
+        ? await checkLotForSale(product, variant, lot.lot_number, lot.expiry_date || undefined)
+        : await suggestLotForSale(product, variant, cart.items);
+      await addToCart(product, variant, quantity, undefined, selected);
+      return;
+    }
+    await addToCart(product, variant, quantity);
+  };
+
+  // The catalogue stores the EAN/UPC a GTIN-14 pads, so try each form
+  const findProductByGtin = async (gtin: string) => {
+    for (const barcode of gtinToBarcodes(gtin)) {
+      const result = await findProductByBarcode(barcode);
+      if (result) return result;
+    }
+    return null;
+  };
+
+  const handleSerialSubmit = async (serialNumber: string) => {
+    if (!pendingSerialItem) return;
+    const { product, variant } = pendingSerialItem;
+    const serial = await checkSerialForSale(serialNumber, product, variant);
+    await addToCart(product, variant, 1, serial);
+  };
 
   const handleBarcodeScan = async (barcode: string) => {
     try {
       setError(null);
       setSearchQuery('');
+
+      // A ticket's number or QR code brings a completed service ticket in for payment
+      const ticketNumber = findTicketNumber(barcode);
+      if (ticketNumber) {
+        const ticket = await findTicketByNumber(ticketNumber);
+        if (ticket) {
+          await collectTicket(ticket);
+          return;
+        }
+      }
+
+      // GS1-128 / DataMatrix labels carry the GTIN with lot, expiry or serial in one scan
+      const gs1 = parseGS1Barcode(barcode);
+      if (gs1?.gtin) {
+        const match = await findProductByGtin(gs1.gtin);
+        if (match) {
+          if (match.product.is_serialized && gs1.serial) {
+            const serial = await checkSerialForSale(gs1.serial, match.product, match.variant);
+            await addToCart(match.product, match.variant, 1, serial);
+          } else {
+            await handleAddToCart(
+              match.product,
+              match.variant,
+              1,
+              gs1.lot ? { lot_number: gs1.lot, expiry_date: gs1.expiry } : undefined
+            );
+          }
+          return;
+        }
+      }
       
       const result = await findProductByBarcode(barcode);
+      // A scanned serial or IMEI brings its own product along
+      const unit = result ? null : await findUnitForSale(barcode);
       
       if (result) {
-        await addToCart(result.product, result.variant);
-        toast({
-          title: "Product Added",
-          description: `Added ${result.product.name} to cart`,
-        });
+        if (result.measure) {
+          // Weighed and price-labelled items are never serialized or lot-tracked
+          await addToCart(result.product, undefined, 1, undefined, undefined, result.measure);
+        } else {
+          await handleAddToCart(result.product, result.variant);
+        }
+        if (!result.product.is_serialized) {
+          toast({
+            title: "Product Added",
+            description: `Added ${result.product.name} to cart`,
+          });
+        }
+      } else if (unit) {
+        await addToCart(unit.product, unit.variant, 1, unit.serial.serial_number);
       } else {
         // If not found by barcode, try as search query
         setSearchQuery(barcode);
@@ -65,7 +175,7 @@ export default function POS() {
       console.error('Barcode scan error:', err);
       toast({
         title: "Scan Error",
-        description: "Failed to process the scanned barcode",
+        description: err instanceof Error ? err.message : "Failed to process the scanned barcode",
         variant: "destructive",
       });
     }
@@ -75,8 +185,13 @@ export default function POS() {
     try {
       setError(null);
       await processTransaction(payment, customerInfo);
+      await register.refreshSession();
       setShowPaymentModal(false);
       setShowReceipt(true);
+      if (settings.auto_print_receipt) {
+        // Let the receipt render before opening the print dialog
+        setTimeout(() => window.print(), 300);
+      }
       toast({
         title: "Transaction Complete",
         description: "Payment processed successfully",
@@ -92,6 +207,31 @@ export default function POS() {
     }
   };
 
+  const handleRefund = async (request: RefundRequest) => {
+    const refund = await processRefund(request);
+    await register.refreshSession();
+    setShowReceipt(true);
+    toast({
+      title: t('pos.refund.completed'),
+      description: t('pos.refund.completedDescription', {
+        number: request.original.transaction_number
+      }),
+    });
+    return refund;
+  };
+
+  const handleResumeHeldCart = async (heldCartId: string) => {
+    try {
+      await resumeHeldCart(heldCartId);
+    } catch (err) {
+      toast({
+        title: t('pos.held.resumeFailed'),
+        description: err instanceof Error ? err.message : undefined,
+        variant: "destructive",
+      });
+    }
+  };
+
   const handlePrintReceipt = () => {
     window.print();
   };
@@ -110,14 +250,17 @@ export default function POS() {
     });
   };
 
+  const receiptStoreInfo: ReceiptType['store_info'] = {
+    ...appSettings.store,
+    logo_url: appSettings.receipt.show_logo ? appSettings.store.logo_url : undefined,
+    tax_id: appSettings.receipt.show_tax_id ? appSettings.store.tax_id : undefined
+  };
+
   const receipt: ReceiptType | null = lastTransaction ? {
     transaction: lastTransaction,
-    store_info: {
-      name: 'Tech Store',
-      address: '123 Main St, City, Province',
-      phone: '(555) 123-4567',
-      email: 'info@techstore.com'
-    }
+    store_info: receiptStoreInfo,
+    footer_text: appSettings.receipt.footer_text,
+    show_kit_components: appSettings.receipt.show_kit_components
   } : null;
 
   return (
@@ -170,7 +313,7 @@ export default function POS() {
                   onScan={handleBarcodeScan}
                   isEnabled={settings.barcode_scanner_enabled}
                   placeholder={t('pos.scanPlaceholder')}
-                  addToCart={addToCart}
+                  addToCart={handleAddToCart}
                   onCameraScanClick={() => setShowCameraScanner(true)}
                 />
                 <CameraScannerModal
@@ -226,9 +369,46 @@ export default function POS() {
                 >
                   {t('pos.removeDiscount')}
                 </Button>
+                <Button
+                  variant="outline"
+                  onClick={() => setShowRefundModal(true)}
+                  className="col-span-2 border-border text-foreground dark:bg-background/80"
+                >
+                  <Undo2 className="h-4 w-4 mr-2" />
+                  {t('pos.refund.button')}
+                </Button>
+                <Button
+                  variant="outline"
+                  onClick={() => setShowCollectDialog(true)}
+                  className="col-span-2 border-border text-foreground dark:bg-background/80"
+                >
+                  <Wrench className="h-4 w-4 mr-2" />
+                  {t('pos.collect.button')}
+                </Button>
               </div>
             </CardContent>
           </Card>
+
+          {/* Register Session */}
+          <RegisterSessionCard
+            session={register.currentSession}
+            report={register.currentReport}
+            onOpenSession={register.openSession}
+            onCashMovement={register.addCashMovement}
+            onCloseSession={register.closeSession}
+            onShowReport={setRegisterReport}
+            lastReport={register.sessions.find(session => session.z_report)?.z_report}
+            currency={settings.currency}
+          />
+
+          {/* Held Carts */}
+          <HeldCarts
+            heldCarts={heldCarts}
+            onResume={handleResumeHeldCart}
+            onDiscard={discardHeldCart}
+            canResume={cart.items.length === 0}
+            currency={settings.currency}
+          />
         </div>
 
         {/* Right Column - Cart and Checkout */}
@@ -239,6 +419,8 @@ export default function POS() {
             onUpdateQuantity={updateItemQuantity}
             onRemoveItem={removeFromCart}
             onApplyDiscount={applyDiscount}
+            onApplyCoupon={applyCoupon}
+            onRemoveCoupon={removeCoupon}
             currency={settings.currency}
           />
 
@@ -253,6 +435,15 @@ export default function POS() {
               <RotateCcw className="h-4 w-4 mr-2" />
               {t('pos.clearCart')}
             </Button>
+            <Button
+              variant="outline"
+              onClick={() => setShowParkDialog(true)}
+              disabled={cart.items.length === 0 || isProcessing}
+              className="flex-1 border-border text-foreground dark:bg-background/80"
+            >
+              <PauseCircle className="h-4 w-4 mr-2" />
+              {t('pos.held.park')}
+            </Button>
             {cart.items.length > 0 && (
               <Button
                 onClick={() => setShowPaymentModal(true)}
@@ -277,9 +468,48 @@ export default function POS() {
           onPayment={handlePayment}
           onCancel={() => setShowPaymentModal(false)}
           currency={settings.currency}
+          initialCustomerId={cart.customer_id}
+          defaultPaymentType={settings.default_payment_method}
         />
       )}
 
+      {/* Serial Number Dialog */}
+      <SerialNumberDialog
+        open={!!pendingSerialItem}
+        onOpenChange={(open) => !open && setPendingSerialItem(null)}
+        productName={pendingSerialItem?.product.name || ''}
+        onSubmit={handleSerialSubmit}
+      />
+
+      {/* Park Sale Dialog */}
+      <ParkCartDialog
+        open={showParkDialog}
+        onOpenChange={setShowParkDialog}
+        onPark={parkCart}
+        initialCustomerId={cart.customer_id}
+      />
+
+      {/* Collect Ticket Dialog */}
+      <CollectTicketDialog
+        open={showCollectDialog}
+        onOpenChange={setShowCollectDialog}
+        onFindTicket={findTicketByNumber}
+        onCollect={collectTicket}
+        cartItems={cart.items}
+        currency={settings.currency}
+      />
+
+      {/* Refund Modal */}
+      <RefundModal
+        open={showRefundModal}
+        onOpenChange={setShowRefundModal}
+        onFindTransaction={findTransactionByNumber}
+        onGetRefunds={getTransactionRefunds}
+        onRefund={handleRefund}
+        isProcessing={isProcessing}
+        currency={settings.currency}
+      />
+
       {/* Receipt Modal */}
       {showReceipt && receipt && (
         <Receipt
@@ -291,6 +521,17 @@ export default function POS() {
         />
       )}
 
+      {/* Register Report Modal */}
+      {registerReport && (
+        <ZReport
+          report={registerReport}
+          storeName={receiptStoreInfo.name}
+          onPrint={handlePrintReceipt}
+          onClose={() => setRegisterReport(null)}
+          currency={settings.currency}
+        />
+      )}
+
       {/* Place TransactionsTable below the main POS interface */}
       <div className="w-full max-w-screen mt-8">
         <TransactionsTable />
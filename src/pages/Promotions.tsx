@@ -0,0 +1,312 @@
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Plus, Search, Filter, Edit, Trash2, Ticket, Clock } from 'lucide-react';
+import { Promotion, PromotionFormData } from '../types/promotions';
+import { usePromotions } from '../hooks/usePromotions';
+import { useInventory } from '../hooks/useInventory';
+import { isPromotionLive } from '../lib/promotions';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import PromotionForm from '@/components/promotions/PromotionForm';
+import DeleteConfirmation from '@/components/common/DeleteConfirmation';
+import LoadingSpinner from '@/components/common/LoadingSpinner';
+import { UnifiedTable } from '@/components/common/UnifiedTable';
+
+type StatusFilter = 'all' | 'live' | 'active' | 'inactive';
+
+export default function Promotions() {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const { promotions, loading, createPromotion, updatePromotion, deletePromotion } = usePromotions();
+  const { products, categories } = useInventory();
+
+  const [searchTerm, setSearchTerm] = useState('');
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('all');
+
+  // Modal states
+  const [showCreateForm, setShowCreateForm] = useState(false);
+  const [showEditForm, setShowEditForm] = useState(false);
+  const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
+  const [selectedPromotion, setSelectedPromotion] = useState<Promotion | null>(null);
+
+  // Coupon promotions are only "live" once the code is entered, so treat the code as entered here
+  const isLiveNow = (promotion: Promotion) =>
+    isPromotionLive(promotion, { couponCodes: promotion.coupon_code ? [promotion.coupon_code] : [] });
+
+  const filteredPromotions = promotions.filter(promotion => {
+    const term = searchTerm.toLowerCase();
+    const matchesSearch = !term ||
+      promotion.name.toLowerCase().includes(term) ||
+      (promotion.coupon_code || '').toLowerCase().includes(term);
+
+    const matchesStatus =
+      statusFilter === 'all' ||
+      (statusFilter === 'live' && isLiveNow(promotion)) ||
+      (statusFilter === 'active' && promotion.is_active) ||
+      (statusFilter === 'inactive' && !promotion.is_active);
+
+    return matchesSearch && matchesStatus;
+  });
+
+  // Handle promotion creation
+  const handleCreatePromotion = async (promotionData: PromotionFormData) => {
+    try {
+      await createPromotion(promotionData);
+      toast({
+        title: t('common.success'),
+        description: t('promotions.created'),
+      });
+      setShowCreateForm(false);
+    } catch (error) {
+      console.error('Error creating promotion:', error);
+      toast({
+        title: t('common.error'),
+        description: error instanceof Error ? error.message : t('errors.savingFailed'),
+        variant: 'destructive',
+      });
+    }
+  };
+
+  // Handle promotion update
+  const handleUpdatePromotion = async (promotionData: PromotionFormData) => {
+    if (!selectedPromotion) return;
+
+    try {
+      await updatePromotion(selectedPromotion.id, promotionData);
+      toast({
+        title: t('common.success'),
+        description: t('promotions.updated'),
+      });
+      setShowEditForm(false);
+      setSelectedPromotion(null);
+    } catch (error) {
+      console.error('Error updating promotion:', error);
+      toast({
+        title: t('common.error'),
+        description: error instanceof Error ? error.message : t('errors.savingFailed'),
+        variant: 'destructive',
+      });
+    }
+  };
+
+  // Handle promotion deletion
+  const handleDeletePromotion = async () => {
+    if (!selectedPromotion) return;
+
+    try {
+      await deletePromotion(selectedPromotion.id);
+      toast({
+        title: t('common.success'),
+        description: t('promotions.deleted'),
+      });
+      setShowDeleteConfirm(false);
+      setSelectedPromotion(null);
+    } catch (error) {
+      console.error('Error deleting promotion:', error);
+      toast({
+        title: t('common.error'),
+        description: error instanceof Error ? error.message : t('errors.savingFailed'),
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const describeMechanics = (promotion: Promotion) => {
+    switch (promotion.type) {
+      case 'percentage_off':
+        return t('promotions.summary.percentageOff', { value: promotion.discount_percentage || 0 });
+      case 'fixed_price':
+        return t('promotions.summary.fixedPrice', { value: (promotion.fixed_price || 0).toFixed(2) });
+      case 'quantity_break':
+        return (promotion.quantity_breaks || [])
+          .map(tier => t('promotions.summary.quantityBreak', { quantity: tier.min_quantity, value: tier.discount_percentage }))
+          .join(', ');
+      case 'buy_x_get_y':
+        return t('promotions.summary.buyXGetY', {
+          buy: promotion.buy_quantity || 0,
+          get: promotion.get_quantity || 0,
+          value: promotion.get_discount_percentage ?? 100
+        });
+      default:
+        return '';
+    }
+  };
+
+  const describeTargets = (promotion: Promotion) => {
+    if (promotion.product_ids.length === 0 && promotion.category_ids.length === 0) {
+      return t('promotions.allItems');
+    }
+    const parts = [];
+    if (promotion.category_ids.length > 0) {
+      parts.push(t('promotions.categoryCount', { count: promotion.category_ids.length }));
+    }
+    if (promotion.product_ids.length > 0) {
+      parts.push(t('promotions.productCount', { count: promotion.product_ids.length }));
+    }
+    return parts.join(', ');
+  };
+
+  const getStatusBadge = (promotion: Promotion) => {
+    if (!promotion.is_active) {
+      return <Badge variant="secondary">{t('promotions.inactive')}</Badge>;
+    }
+    return isLiveNow(promotion)
+      ? <Badge className="bg-green-100 text-green-800">{t('promotions.live')}</Badge>
+      : <Badge variant="outline">{t('promotions.scheduled')}</Badge>;
+  };
+
+  const columns = [
+    { key: 'name', label: t('promotions.name') },
+    { key: 'type', label: t('promotions.type'), render: (p: Promotion) => t(`promotions.types.${p.type}`) },
+    { key: 'mechanics', label: t('promotions.mechanics'), render: (p: Promotion) => describeMechanics(p) },
+    { key: 'targets', label: t('promotions.appliesTo'), render: (p: Promotion) => describeTargets(p) },
+    {
+      key: 'conditions',
+      label: t('promotions.conditions'),
+      render: (p: Promotion) => (
+        <div className="flex flex-wrap gap-1">
+          {p.coupon_code && (
+            <Badge variant="outline" className="flex items-center gap-1 font-mono">
+              <Ticket className="h-3 w-3" />
+              {p.coupon_code}
+            </Badge>
+          )}
+          {p.start_time && p.end_time && (
+            <Badge variant="outline" className="flex items-center gap-1">
+              <Clock className="h-3 w-3" />
+              {p.start_time.slice(0, 5)}–{p.end_time.slice(0, 5)}
+            </Badge>
+          )}
+          {p.stackable && <Badge variant="outline">{t('promotions.stackable')}</Badge>}
+        </div>
+      )
+    },
+    { key: 'priority', label: t('promotions.priority'), type: 'number' as const },
+    { key: 'is_active', label: t('common.status'), render: (p: Promotion) => getStatusBadge(p) },
+  ];
+
+  if (loading) {
+    return <LoadingSpinner />;
+  }
+
+  return (
+    <div className="space-y-6 px-4 md:px-8 min-w-0">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">{t('promotions.title')}</h1>
+          <p className="text-muted-foreground">{t('promotions.description')}</p>
+        </div>
+        <Button onClick={() => setShowCreateForm(true)} className="flex items-center gap-2">
+          <Plus className="h-4 w-4" />
+          {t('promotions.addNew')}
+        </Button>
+      </div>
+
+      {/* Filters */}
+      <Card className="bg-card border border-border dark:bg-card/80">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Filter className="h-5 w-5" />
+            {t('common.filter')}
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <div className="relative md:col-span-2">
+              <Search className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+              <Input
+                placeholder={t('promotions.searchPlaceholder')}
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+                className="pl-10 bg-background border-border text-foreground dark:bg-background/80"
+              />
+            </div>
+            <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as StatusFilter)}>
+              <SelectTrigger className="bg-background border-border text-foreground dark:bg-background/80">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-background border-border text-foreground dark:bg-background/80">
+                <SelectItem value="all">{t('promotions.allStatuses')}</SelectItem>
+                <SelectItem value="live">{t('promotions.live')}</SelectItem>
+                <SelectItem value="active">{t('promotions.active')}</SelectItem>
+                <SelectItem value="inactive">{t('promotions.inactive')}</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Promotions Table */}
+      <UnifiedTable
+        columns={columns}
+        data={filteredPromotions}
+        loading={loading}
+        emptyMessage={t('promotions.noPromotions')}
+        rowKey={p => p.id}
+        actions={promotion => (
+          <div className="flex items-center justify-end gap-2">
+            <button
+              className="text-indigo-600 hover:text-indigo-900"
+              onClick={() => {
+                setSelectedPromotion(promotion);
+                setShowEditForm(true);
+              }}
+              title={t('common.edit')}
+            >
+              <Edit className="h-4 w-4" />
+            </button>
+            <button
+              className="text-red-600 hover:text-red-900"
+              onClick={() => {
+                setSelectedPromotion(promotion);
+                setShowDeleteConfirm(true);
+              }}
+              title={t('common.delete')}
+            >
+              <Trash2 className="h-4 w-4" />
+            </button>
+          </div>
+        )}
+      />
+
+      {/* Modals */}
+      {showCreateForm && (
+        <PromotionForm
+          open={showCreateForm}
+          onOpenChange={setShowCreateForm}
+          onSubmit={handleCreatePromotion}
+          products={products}
+          categories={categories}
+          title={t('promotions.addNew')}
+        />
+      )}
+
+      {showEditForm && selectedPromotion && (
+        <PromotionForm
+          open={showEditForm}
+          onOpenChange={setShowEditForm}
+          onSubmit={handleUpdatePromotion}
+          promotion={selectedPromotion}
+          products={products}
+          categories={categories}
+          title={t('promotions.editTitle')}
+        />
+      )}
+
+      {showDeleteConfirm && selectedPromotion && (
+        <DeleteConfirmation
+          open={showDeleteConfirm}
+          onOpenChange={setShowDeleteConfirm}
+          onConfirm={handleDeletePromotion}
+          title={t('promotions.deleteTitle')}
+          description={t('promotions.deleteDescription', { name: selectedPromotion.name })}
+        />
+      )}
+    </div>
+  );
+}
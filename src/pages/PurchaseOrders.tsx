@@ -0,0 +1,348 @@
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Plus, Search, Filter, Edit, Send, PackageCheck, XCircle } from 'lucide-react';
+import { PurchaseOrder, PurchaseOrderFormData, PurchaseOrderStatus, ReceiveLine } from '../types/purchaseOrders';
+import { Supplier } from '../types/supplier';
+import { usePurchaseOrders } from '../hooks/usePurchaseOrders';
+import { useSuppliers } from '../hooks/useSuppliers';
+import { useInventory } from '../hooks/useInventory';
+import { useSettings } from '../hooks/useSettings';
+import { canReceive } from '../lib/purchaseOrders';
+import { labelItemsForReceipt, printLabels } from '../lib/labels';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import PurchaseOrderForm from '@/components/purchasing/PurchaseOrderForm';
+import ReceiveDeliveryDialog from '@/components/purchasing/ReceiveDeliveryDialog';
+import DeleteConfirmation from '@/components/common/DeleteConfirmation';
+import LoadingSpinner from '@/components/common/LoadingSpinner';
+import { UnifiedTable } from '@/components/common/UnifiedTable';
+import { formatCurrency, formatDate } from '@/lib/utils';
+
+const STATUSES: PurchaseOrderStatus[] = ['draft', 'ordered', 'partially_received', 'received', 'cancelled'];
+
+const statusStyles: Record<PurchaseOrderStatus, string> = {
+  draft: 'bg-gray-100 text-gray-800',
+  ordered: 'bg-blue-100 text-blue-800',
+  partially_received: 'bg-yellow-100 text-yellow-800',
+  received: 'bg-green-100 text-green-800',
+  cancelled: 'bg-red-100 text-red-800'
+};
+
+export default function PurchaseOrders() {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const { settings } = useSettings();
+  const { suppliers } = useSuppliers();
+  const { products, refreshData: refreshInventory } = useInventory();
+  const {
+    purchaseOrders,
+    loading,
+    createPurchaseOrder,
+    updatePurchaseOrder,
+    markOrdered,
+    cancelPurchaseOrder,
+    receivePurchaseOrder
+  } = usePurchaseOrders();
+
+  const [searchTerm, setSearchTerm] = useState('');
+  const [statusFilter, setStatusFilter] = useState<PurchaseOrderStatus | 'all'>('all');
+  const [supplierFilter, setSupplierFilter] = useState('all');
+
+  // Modal states
+  const [showForm, setShowForm] = useState(false);
+  const [editingOrder, setEditingOrder] = useState<PurchaseOrder | null>(null);
+  const [receivingOrder, setReceivingOrder] = useState<PurchaseOrder | null>(null);
+  const [cancellingOrder, setCancellingOrder] = useState<PurchaseOrder | null>(null);
+
+  const currency = settings.pos.currency;
+  const money = (amount: number) => formatCurrency(amount, currency);
+
+  const filteredOrders = purchaseOrders.filter(order => {
+    const term = searchTerm.toLowerCase();
+    const matchesSearch = !term ||
+      order.po_number.toLowerCase().includes(term) ||
+      order.supplier_name.toLowerCase().includes(term) ||
+      order.lines.some(line => line.product_name.toLowerCase().includes(term));
+
+    return matchesSearch &&
+      (statusFilter === 'all' || order.status === statusFilter) &&
+      (supplierFilter === 'all' || order.supplier_id === supplierFilter);
+  });
+
+  const showError = (error: unknown) => {
+    toast({
+      title: t('common.error'),
+      description: error instanceof Error ? error.message : t('errors.savingFailed'),
+      variant: 'destructive',
+    });
+  };
+
+  const handleSubmit = async (formData: PurchaseOrderFormData, supplier: Supplier) => {
+    try {
+      if (editingOrder) {
+        await updatePurchaseOrder(editingOrder.po_number, formData, supplier);
+      } else {
+        await createPurchaseOrder(formData, supplier);
+      }
+      toast({
+        title: t('common.success'),
+        description: t('purchaseOrders.saved'),
+      });
+      setShowForm(false);
+      setEditingOrder(null);
+    } catch (error) {
+      console.error('Error saving purchase order:', error);
+      showError(error);
+    }
+  };
+
+  const handleMarkOrdered = async (order: PurchaseOrder) => {
+    try {
+      await markOrdered(order.po_number, suppliers.find(s => s.id === order.supplier_id));
+      toast({
+        title: t('common.success'),
+        description: t('purchaseOrders.sentToast', { number: order.po_number }),
+      });
+    } catch (error) {
+      console.error('Error sending purchase order:', error);
+      showError(error);
+    }
+  };
+
+  // The delivery is already booked by now, so a blocked print window is reported on its own
+  const printReceivedLabels = (before: PurchaseOrder, after: PurchaseOrder) => {
+    const items = labelItemsForReceipt(before, after, products);
+    if (items.length === 0) return;
+
+    try {
+      printLabels(items, settings.labels, { currency });
+    } catch (error) {
+      console.error('Error printing labels:', error);
+      showError(error);
+    }
+  };
+
+  const handleReceive = async (lines: ReceiveLine[], notes?: string) => {
+    if (!receivingOrder) return;
+
+    try {
+      const saved = await receivePurchaseOrder(receivingOrder.po_number, lines, notes);
+      toast({
+        title: t('common.success'),
+        description: saved.status === 'received'
+          ? t('purchaseOrders.fullyReceived', { number: saved.po_number })
+          : t('purchaseOrders.partiallyReceived', { number: saved.po_number }),
+      });
+      setReceivingOrder(null);
+      if (settings.labels.print_on_receive) {
+        printReceivedLabels(receivingOrder, saved);
+      }
+      await refreshInventory();
+    } catch (error) {
+      console.error('Error receiving purchase order:', error);
+      showError(error);
+    }
+  };
+
+  const handleCancel = async () => {
+    if (!cancellingOrder) return;
+
+    try {
+      await cancelPurchaseOrder(cancellingOrder.po_number);
+      setCancellingOrder(null);
+    } catch (error) {
+      console.error('Error cancelling purchase order:', error);
+      showError(error);
+    }
+  };
+
+  const receivedProgress = (order: PurchaseOrder) => {
+    const ordered = order.lines.reduce((sum, line) => sum + line.quantity_ordered, 0);
+    const received = order.lines.reduce((sum, line) => sum + line.quantity_received, 0);
+    return `${received} / ${ordered}`;
+  };
+
+  const columns = [
+    { key: 'po_number', label: t('purchaseOrders.number'), className: 'font-mono' },
+    { key: 'supplier_name', label: t('purchaseOrders.supplier') },
+    {
+      key: 'status',
+      label: t('common.status'),
+      render: (o: PurchaseOrder) => <Badge className={statusStyles[o.status]}>{t(`purchaseOrders.statuses.${o.status}`)}</Badge>
+    },
+    { key: 'lines', label: t('purchaseOrders.lines'), render: (o: PurchaseOrder) => o.lines.length },
+    { key: 'received', label: t('purchaseOrders.received'), render: (o: PurchaseOrder) => receivedProgress(o) },
+    { key: 'total', label: t('common.total'), type: 'number' as const, render: (o: PurchaseOrder) => money(o.total) },
+    {
+      key: 'expected_date',
+      label: t('purchaseOrders.expectedDate'),
+      type: 'date' as const,
+      render: (o: PurchaseOrder) => (o.expected_date ? formatDate(`${o.expected_date}T00:00:00`) : '—')
+    },
+    { key: 'created_at', label: t('common.date'), type: 'date' as const, render: (o: PurchaseOrder) => formatDate(o.created_at) },
+  ];
+
+  if (loading) {
+    return <LoadingSpinner />;
+  }
+
+  return (
+    <div className="space-y-6 px-4 md:px-8 min-w-0">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">{t('purchaseOrders.title')}</h1>
+          <p className="text-muted-foreground">{t('purchaseOrders.description')}</p>
+        </div>
+        <Button
+          onClick={() => {
+            setEditingOrder(null);
+            setShowForm(true);
+          }}
+          className="flex items-center gap-2"
+        >
+          <Plus className="h-4 w-4" />
+          {t('purchaseOrders.addNew')}
+        </Button>
+      </div>
+
+      {/* Filters */}
+      <Card className="bg-card border border-border dark:bg-card/80">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Filter className="h-5 w-5" />
+            {t('common.filter')}
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <div className="relative md:col-span-2">
+              <Search className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+              <Input
+                placeholder={t('purchaseOrders.searchPlaceholder')}
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+                className="pl-10 bg-background border-border text-foreground dark:bg-background/80"
+              />
+            </div>
+            <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as PurchaseOrderStatus | 'all')}>
+              <SelectTrigger className="bg-background border-border text-foreground dark:bg-background/80">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-background border-border text-foreground dark:bg-background/80">
+                <SelectItem value="all">{t('purchaseOrders.allStatuses')}</SelectItem>
+                {STATUSES.map(status => (
+                  <SelectItem key={status} value={status}>{t(`purchaseOrders.statuses.${status}`)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={supplierFilter} onValueChange={setSupplierFilter}>
+              <SelectTrigger className="bg-background border-border text-foreground dark:bg-background/80">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-background border-border text-foreground dark:bg-background/80">
+                <SelectItem value="all">{t('purchaseOrders.allSuppliers')}</SelectItem>
+                {suppliers.map(supplier => (
+                  <SelectItem key={supplier.id} value={supplier.id}>{supplier.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Purchase Orders Table */}
+      <UnifiedTable
+        columns={columns}
+        data={filteredOrders}
+        loading={loading}
+        emptyMessage={t('purchaseOrders.noOrders')}
+        rowKey={o => o.po_number}
+        actions={order => (
+          <div className="flex items-center justify-end gap-2">
+            {order.status === 'draft' && (
+              <>
+                <button
+                  className="text-indigo-600 hover:text-indigo-900"
+                  onClick={() => {
+                    setEditingOrder(order);
+                    setShowForm(true);
+                  }}
+                  title={t('common.edit')}
+                >
+                  <Edit className="h-4 w-4" />
+                </button>
+                <button
+                  className="text-blue-600 hover:text-blue-900"
+                  onClick={() => handleMarkOrdered(order)}
+                  title={t('purchaseOrders.markOrdered')}
+                >
+                  <Send className="h-4 w-4" />
+                </button>
+              </>
+            )}
+            {canReceive(order) && (
+              <button
+                className="text-green-600 hover:text-green-900"
+                onClick={() => setReceivingOrder(order)}
+                title={t('purchaseOrders.receive')}
+              >
+                <PackageCheck className="h-4 w-4" />
+              </button>
+            )}
+            {(order.status === 'draft' || order.status === 'ordered') && (
+              <button
+                className="text-red-600 hover:text-red-900"
+                onClick={() => setCancellingOrder(order)}
+                title={t('purchaseOrders.cancelOrder')}
+              >
+                <XCircle className="h-4 w-4" />
+              </button>
+            )}
+          </div>
+        )}
+      />
+
+      {/* Modals */}
+      {showForm && (
+        <PurchaseOrderForm
+          open={showForm}
+          onOpenChange={(open) => {
+            setShowForm(open);
+            if (!open) setEditingOrder(null);
+          }}
+          onSubmit={handleSubmit}
+          order={editingOrder || undefined}
+          suppliers={suppliers}
+          products={products}
+          currency={currency}
+          title={editingOrder ? t('purchaseOrders.editTitle', { number: editingOrder.po_number }) : t('purchaseOrders.addNew')}
+        />
+      )}
+
+      {receivingOrder && (
+        <ReceiveDeliveryDialog
+          open={!!receivingOrder}
+          onOpenChange={(open) => !open && setReceivingOrder(null)}
+          order={receivingOrder}
+          products={products}
+          onReceive={handleReceive}
+        />
+      )}
+
+      {cancellingOrder && (
+        <DeleteConfirmation
+          open={!!cancellingOrder}
+          onOpenChange={(open) => !open && setCancellingOrder(null)}
+          onConfirm={handleCancel}
+          title={t('purchaseOrders.cancelTitle')}
+          description={t('purchaseOrders.cancelDescription', { number: cancellingOrder.po_number })}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,306 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useNavigate } from 'react-router-dom';
+import { AlertTriangle, FilePlus, RefreshCw, Settings2 } from 'lucide-react';
+import { DemandLine, ReorderSettings, ReorderSuggestion, SupplierReorderPlan } from '../types/reorder';
+import { PurchaseOrderFormData } from '../types/purchaseOrders';
+import { useReorderPlanner } from '../hooks/useReorderPlanner';
+import { usePurchaseOrders } from '../hooks/usePurchaseOrders';
+import { useSuppliers } from '../hooks/useSuppliers';
+import { useInventory } from '../hooks/useInventory';
+import { useSettings } from '../hooks/useSettings';
+import { useDebounce } from '../hooks/useDebounce';
+import { getExpectedDeliveryDate } from '../lib/purchaseOrders';
+import {
+  buildReorderSuggestions,
+  calculateDailySales,
+  DEFAULT_REORDER_SETTINGS,
+  expandKitDemand,
+  getOnOrderQuantities,
+  groupSuggestionsBySupplier,
+  topUpToMinimum
+} from '../lib/reorder';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import LoadingSpinner from '@/components/common/LoadingSpinner';
+import { formatCurrency } from '@/lib/utils';
+
+const SETTING_FIELDS: (keyof ReorderSettings)[] = ['lookback_days', 'coverage_days', 'safety_days'];
+
+export default function ReorderPlanner() {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const navigate = useNavigate();
+  const { settings } = useSettings();
+  const { suppliers, loading: suppliersLoading } = useSuppliers();
+  const { products, loading: productsLoading } = useInventory();
+  const { purchaseOrders, loading: ordersLoading, createDraftOrders } = usePurchaseOrders();
+  const { getDemandLines } = useReorderPlanner();
+
+  const [planSettings, setPlanSettings] = useState<ReorderSettings>(DEFAULT_REORDER_SETTINGS);
+  const [demandLines, setDemandLines] = useState<DemandLine[]>([]);
+  const [demandLoading, setDemandLoading] = useState(true);
+  // Edited quantities and rejected lines, keyed by product id
+  const [quantities, setQuantities] = useState<Record<string, number>>({});
+  const [excluded, setExcluded] = useState<Set<string>>(new Set());
+  const [creating, setCreating] = useState(false);
+
+  const lookbackDays = useDebounce(planSettings.lookback_days, 500);
+  const currency = settings.pos.currency;
+  const money = (amount: number) => formatCurrency(amount, currency);
+
+  const loadDemand = async () => {
+    setDemandLoading(true);
+    try {
+      setDemandLines(await getDemandLines(lookbackDays));
+    } catch (error) {
+      console.error('Error loading sales history:', error);
+      toast({
+        title: t('common.error'),
+        description: error instanceof Error ? error.message : t('reorder.loadFailed'),
+        variant: 'destructive',
+      });
+    } finally {
+      setDemandLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadDemand();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [lookbackDays, getDemandLines]);
+
+  const suggestions = useMemo(() => buildReorderSuggestions(
+    products,
+    suppliers,
+    calculateDailySales(expandKitDemand(demandLines, products), lookbackDays),
+    getOnOrderQuantities(purchaseOrders),
+    planSettings
+  ), [products, suppliers, demandLines, lookbackDays, purchaseOrders, planSettings]);
+
+  const plans = groupSuggestionsBySupplier(suggestions, suppliers, quantities, excluded);
+
+  const isAccepted = (line: ReorderSuggestion) => !excluded.has(line.product_id) && line.suggested_quantity > 0;
+  const acceptedCount = plans.reduce((count, plan) => count + plan.lines.filter(isAccepted).length, 0);
+
+  const updateSetting = (field: keyof ReorderSettings, value: string) => {
+    setPlanSettings(prev => ({ ...prev, [field]: Math.max(parseInt(value) || 0, field === 'lookback_days' ? 1 : 0) }));
+    // Suggestions change with the settings, so earlier edits no longer apply
+    setQuantities({});
+  };
+
+  const setAccepted = (productId: string, accepted: boolean) => {
+    setExcluded(prev => {
+      const next = new Set(prev);
+      if (accepted) next.delete(productId); else next.add(productId);
+      return next;
+    });
+  };
+
+  const handleTopUp = (plan: SupplierReorderPlan) => {
+    const topped = topUpToMinimum(plan.lines.filter(isAccepted), plan.shortfall);
+    setQuantities(prev => ({ ...prev, ...topped }));
+  };
+
+  const handleCreateDrafts = async () => {
+    const drafts = plans.map(plan => {
+      const formData: PurchaseOrderFormData = {
+        supplier_id: plan.supplier.id,
+        lines: plan.lines.filter(isAccepted).map(line => ({
+          id: line.product_id,
+          product_id: line.product_id,
+          product_name: line.product_name,
+          product_code: line.product_code,
+          quantity_ordered: line.suggested_quantity,
+          quantity_received: 0,
+          unit_cost: line.unit_cost
+        })),
+        discount_percentage: plan.supplier.discount_percentage || 0,
+        expected_date: getExpectedDeliveryDate(plan.supplier),
+        notes: t('reorder.draftNote')
+      };
+      return { formData, supplier: plan.supplier };
+    });
+
+    setCreating(true);
+    try {
+      const saved = await createDraftOrders(drafts);
+      toast({
+        title: t('common.success'),
+        description: t('reorder.draftsCreated', { count: saved.length }),
+      });
+      setQuantities({});
+      setExcluded(new Set());
+      navigate('/purchase-orders');
+    } catch (error) {
+      console.error('Error creating draft purchase orders:', error);
+      toast({
+        title: t('common.error'),
+        description: error instanceof Error ? error.message : t('errors.savingFailed'),
+        variant: 'destructive',
+      });
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  if (suppliersLoading || productsLoading || ordersLoading) {
+    return <LoadingSpinner />;
+  }
+
+  return (
+    <div className="space-y-6 px-4 md:px-8 min-w-0">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">{t('reorder.title')}</h1>
+          <p className="text-muted-foreground">{t('reorder.description')}</p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={loadDemand} disabled={demandLoading} className="flex items-center gap-2">
+            <RefreshCw className="h-4 w-4" />
+            {t('reorder.refresh')}
+          </Button>
+          <Button onClick={handleCreateDrafts} disabled={creating || acceptedCount === 0} className="flex items-center gap-2">
+            <FilePlus className="h-4 w-4" />
+            {creating ? t('common.loading') : t('reorder.createDrafts', { count: acceptedCount })}
+          </Button>
+        </div>
+      </div>
+
+      {/* Settings */}
+      <Card className="bg-card border border-border dark:bg-card/80">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Settings2 className="h-5 w-5" />
+            {t('reorder.settings')}
+          </CardTitle>
+          <CardDescription>{t('reorder.settingsDescription')}</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            {SETTING_FIELDS.map(field => (
+              <div key={field} className="space-y-1">
+                <Label htmlFor={`reorder-${field}`}>{t(`reorder.fields.${field}`)}</Label>
+                <Input
+                  id={`reorder-${field}`}
+                  type="number"
+                  min={field === 'lookback_days' ? 1 : 0}
+                  value={planSettings[field]}
+                  onChange={(e) => updateSetting(field, e.target.value)}
+                />
+                <p className="text-xs text-muted-foreground">{t(`reorder.hints.${field}`)}</p>
+              </div>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+
+      {demandLoading ? (
+        <LoadingSpinner />
+      ) : plans.length === 0 ? (
+        <p className="text-center py-12 text-muted-foreground">{t('reorder.noSuggestions')}</p>
+      ) : (
+        plans.map(plan => (
+          <Card key={plan.supplier.id} className="bg-card border border-border dark:bg-card/80 min-w-0">
+            <CardHeader>
+              <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-2">
+                <div>
+                  <CardTitle>{plan.supplier.name}</CardTitle>
+                  <CardDescription>
+                    {t('reorder.supplierTerms', {
+                      days: plan.supplier.lead_time_days || 0,
+                      minimum: money(plan.supplier.minimum_order_amount || 0)
+                    })}
+                  </CardDescription>
+                </div>
+                <div className="text-right">
+                  <div className="text-sm text-muted-foreground">{t('reorder.subtotal')}</div>
+                  <div className="text-xl font-semibold">{money(plan.subtotal)}</div>
+                </div>
+              </div>
+              {plan.shortfall > 0 && plan.lines.some(isAccepted) && (
+                <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 rounded-md bg-orange-50 dark:bg-orange-900/20 p-3 text-sm text-orange-800 dark:text-orange-300">
+                  <span className="flex items-center gap-2">
+                    <AlertTriangle className="h-4 w-4 shrink-0" />
+                    {t('reorder.belowMinimum', { amount: money(plan.shortfall) })}
+                  </span>
+                  <Button size="sm" variant="outline" onClick={() => handleTopUp(plan)}>
+                    {t('reorder.topUp')}
+                  </Button>
+                </div>
+              )}
+            </CardHeader>
+            <CardContent>
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-10" />
+                      <TableHead>{t('common.product')}</TableHead>
+                      <TableHead className="text-right">{t('reorder.onHand')}</TableHead>
+                      <TableHead className="text-right">{t('reorder.onOrder')}</TableHead>
+                      <TableHead className="text-right">{t('reorder.dailySales')}</TableHead>
+                      <TableHead className="text-right">{t('reorder.daysOfCover')}</TableHead>
+                      <TableHead className="text-right">{t('reorder.reorderPoint')}</TableHead>
+                      <TableHead className="text-right">{t('reorder.orderQuantity')}</TableHead>
+                      <TableHead className="text-right">{t('common.total')}</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {plan.lines.map(line => {
+                      const accepted = !excluded.has(line.product_id);
+                      return (
+                        <TableRow key={line.product_id} className={accepted ? undefined : 'opacity-50'}>
+                          <TableCell>
+                            <Checkbox
+                              checked={accepted}
+                              onCheckedChange={(checked) => setAccepted(line.product_id, checked === true)}
+                              aria-label={t('reorder.accept')}
+                            />
+                          </TableCell>
+                          <TableCell>
+                            <div className="font-medium">{line.product_name}</div>
+                            <div className="text-xs font-mono text-muted-foreground">{line.product_code}</div>
+                          </TableCell>
+                          <TableCell className="text-right">{line.on_hand}</TableCell>
+                          <TableCell className="text-right">{line.on_order}</TableCell>
+                          <TableCell className="text-right">{line.avg_daily_sales.toFixed(2)}</TableCell>
+                          <TableCell className="text-right">
+                            {line.days_of_cover === null ? '—' : Math.floor(line.days_of_cover)}
+                          </TableCell>
+                          <TableCell className="text-right">{line.reorder_point}</TableCell>
+                          <TableCell className="text-right">
+                            <Input
+                              type="number"
+                              min="0"
+                              value={line.suggested_quantity}
+                              onChange={(e) => setQuantities(prev => ({
+                                ...prev,
+                                [line.product_id]: Math.max(parseInt(e.target.value) || 0, 0)
+                              }))}
+                              className="w-24 ml-auto text-right"
+                              disabled={!accepted}
+                            />
+                          </TableCell>
+                          <TableCell className="text-right whitespace-nowrap">
+                            {money(line.suggested_quantity * line.unit_cost)}
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              </div>
+            </CardContent>
+          </Card>
+        ))
+      )}
+    </div>
+  );
+}
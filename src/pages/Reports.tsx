@@ -1,21 +1,273 @@
-import React from 'react';
-import { BarChart3 } from 'lucide-react';
+import { useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Filter, Download, Printer, RefreshCw, WifiOff } from 'lucide-react';
+import { ReportFilters, ReportRow, ReportType } from '../types/reports';
+import { useReports } from '../hooks/useReports';
+import { useInventory } from '../hooks/useInventory';
+import { useSettings } from '../hooks/useSettings';
+import { useLocations } from '../hooks/useLocations';
+import { buildReport, formatReportValue } from '../lib/reports';
+import { downloadCSV, printReport } from '../lib/reportExport';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { UnifiedTable } from '@/components/common/UnifiedTable';
+import { toDateInputValue } from '@/lib/utils';
+
+const REPORT_TYPES: ReportType[] = [
+  'sales_by_day',
+  'sales_by_product',
+  'kit_components',
+  'sales_by_category',
+  'sales_by_cashier',
+  'gross_margin',
+  'inventory_valuation',
+  'tax_collected',
+  'ticket_revenue',
+  'price_changes'
+];
+
+type QuickRange = 'today' | 'last7' | 'last30' | 'thisMonth';
+
+const getQuickRange = (range: QuickRange): ReportFilters => {
+  const today = new Date();
+  const from = new Date(today);
+
+  if (range === 'last7') from.setDate(today.getDate() - 6);
+  if (range === 'last30') from.setDate(today.getDate() - 29);
+  if (range === 'thisMonth') from.setDate(1);
+
+  return { date_from: toDateInputValue(from), date_to: toDateInputValue(today) };
+};
 
 export default function Reports() {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const { settings } = useSettings();
+  const { products, categories } = useInventory();
+  const { activeLocations } = useLocations();
+
+  const [reportType, setReportType] = useState<ReportType>('sales_by_day');
+  const [filters, setFilters] = useState<ReportFilters>(() => getQuickRange('last30'));
+  const [locationId, setLocationId] = useState('all');
+  const { data, loading, error, isOnline, refreshData } = useReports(filters);
+
+  const currency = settings.pos.currency;
+  // Inventory valuation is a snapshot of current stock, so the date range doesn't apply
+  const usesDateRange = reportType !== 'inventory_valuation';
+
+  const table = useMemo(
+    () => buildReport(reportType, data, {
+      products,
+      categories,
+      translate: t,
+      locationId: locationId === 'all' ? null : locationId
+    }),
+    [reportType, data, products, categories, t, locationId]
+  );
+
+  const exportColumns = table.columns.map(col => ({
+    key: col.key,
+    label: t(`reports.columns.${col.label}`),
+    type: col.type
+  }));
+
+  const reportTitle = t(`reports.types.${reportType}`);
+  const selectedLocation = activeLocations.find(location => location.id === locationId);
+  const reportSubtitle = usesDateRange
+    ? t('reports.rangeLabel', { from: filters.date_from, to: filters.date_to })
+    : t('reports.asOf', {
+      date: toDateInputValue(new Date()),
+      location: selectedLocation?.name || t('locations.allLocations')
+    });
+
+  const columns = exportColumns.map(col => ({
+    key: col.key,
+    label: col.label,
+    type: col.type === 'text' ? (col.key === 'date' ? 'date' as const : 'string' as const) : 'number' as const,
+    className: col.type === 'text' ? undefined : 'text-right',
+    render: (row: ReportRow) => formatReportValue(row[col.key], col.type, currency)
+  }));
+
+  const handleExportCSV = () => {
+    const suffix = usesDateRange
+      ? `${filters.date_from}_${filters.date_to}`
+      : [toDateInputValue(new Date()), selectedLocation?.code || selectedLocation?.name].filter(Boolean).join('_');
+    downloadCSV(`${reportType}_${suffix}`, {
+      title: reportTitle,
+      columns: exportColumns,
+      rows: table.rows,
+      totals: table.totals
+    });
+  };
+
+  const handlePrint = () => {
+    try {
+      printReport({
+        title: `${settings.store.name} — ${reportTitle}`,
+        subtitle: reportSubtitle,
+        columns: exportColumns,
+        rows: table.rows,
+        totals: table.totals,
+        currency
+      });
+    } catch (err) {
+      toast({
+        title: t('common.error'),
+        description: err instanceof Error ? err.message : t('reports.printFailed'),
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const totalsSummary = table.totals
+    ? exportColumns.filter(col => col.type !== 'text' && table.totals?.[col.key] !== '')
+    : [];
+
   return (
-    <div className="flex flex-col items-center justify-center min-h-[60vh] text-center px-4 md:px-8 min-w-0">
-      <div className="mb-6">
-        <span className="inline-flex items-center justify-center rounded-full bg-blue-100 p-6">
-          <BarChart3 className="h-12 w-12 text-blue-600" />
-        </span>
-      </div>
-      <h1 className="text-3xl font-bold mb-2">Reports & Analytics</h1>
-      <p className="text-lg text-muted-foreground mb-6 max-w-xl">
-        Powerful reporting features are coming soon. You'll be able to view sales, inventory, and customer analytics in beautiful, exportable formats. Stay tuned!
-      </p>
-      <div className="flex gap-4">
-        <button className="px-6 py-2 rounded-md bg-blue-600 text-white font-medium shadow hover:bg-gray-200 transition">Back to Dashboard</button>
+    <div className="space-y-6 px-4 md:px-8 min-w-0">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight flex items-center gap-3">
+            {t('reports.title')}
+            {!isOnline && (
+              <Badge variant="secondary" className="flex items-center gap-1">
+                <WifiOff className="h-3 w-3" />
+                {t('reports.offlineData')}
+              </Badge>
+            )}
+          </h1>
+          <p className="text-muted-foreground">{t('reports.description')}</p>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <Button variant="outline" onClick={refreshData} disabled={loading}>
+            <RefreshCw className={`h-4 w-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+            {t('common.refresh')}
+          </Button>
+          <Button variant="outline" onClick={handleExportCSV} disabled={loading || table.rows.length === 0}>
+            <Download className="h-4 w-4 mr-2" />
+            {t('reports.exportCsv')}
+          </Button>
+          <Button onClick={handlePrint} disabled={loading || table.rows.length === 0}>
+            <Printer className="h-4 w-4 mr-2" />
+            {t('reports.printPdf')}
+          </Button>
+        </div>
       </div>
+
+      {/* Filters */}
+      <Card className="bg-card border border-border dark:bg-card/80">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Filter className="h-5 w-5" />
+            {t('common.filter')}
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <div className="space-y-2 md:col-span-2">
+              <Label>{t('reports.reportType')}</Label>
+              <Select value={reportType} onValueChange={(value) => setReportType(value as ReportType)}>
+                <SelectTrigger className="bg-background border-border text-foreground dark:bg-background/80">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-background border-border text-foreground dark:bg-background/80">
+                  {REPORT_TYPES.map(type => (
+                    <SelectItem key={type} value={type}>{t(`reports.types.${type}`)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="report-from">{t('reports.dateFrom')}</Label>
+              <Input
+                id="report-from"
+                type="date"
+                value={filters.date_from}
+                max={filters.date_to}
+                disabled={!usesDateRange}
+                onChange={(e) => e.target.value && setFilters(prev => ({ ...prev, date_from: e.target.value }))}
+                className="bg-background border-border text-foreground dark:bg-background/80"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="report-to">{t('reports.dateTo')}</Label>
+              <Input
+                id="report-to"
+                type="date"
+                value={filters.date_to}
+                min={filters.date_from}
+                disabled={!usesDateRange}
+                onChange={(e) => e.target.value && setFilters(prev => ({ ...prev, date_to: e.target.value }))}
+                className="bg-background border-border text-foreground dark:bg-background/80"
+              />
+            </div>
+          </div>
+          {usesDateRange ? (
+            <div className="flex flex-wrap gap-2">
+              {(['today', 'last7', 'last30', 'thisMonth'] as QuickRange[]).map(range => (
+                <Button key={range} variant="outline" size="sm" onClick={() => setFilters(getQuickRange(range))}>
+                  {t(`reports.ranges.${range}`)}
+                </Button>
+              ))}
+            </div>
+          ) : (
+            <div className="flex flex-col sm:flex-row sm:items-center gap-4">
+              {activeLocations.length > 1 && (
+                <div className="space-y-2 sm:w-64">
+                  <Label>{t('locations.location')}</Label>
+                  <Select value={locationId} onValueChange={setLocationId}>
+                    <SelectTrigger className="bg-background border-border text-foreground dark:bg-background/80">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent className="bg-background border-border text-foreground dark:bg-background/80">
+                      <SelectItem value="all">{t('locations.allLocations')}</SelectItem>
+                      {activeLocations.map(location => (
+                        <SelectItem key={location.id} value={location.id}>{location.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+              <p className="text-sm text-muted-foreground">{t('reports.valuationHint')}</p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {error && (
+        <div className="rounded-md border border-red-200 bg-red-50 p-4 text-sm text-red-700">
+          {error}
+        </div>
+      )}
+
+      {/* Totals */}
+      {!loading && table.rows.length > 0 && totalsSummary.length > 0 && (
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          {totalsSummary.map(col => (
+            <Card key={col.key} className="bg-card border border-border dark:bg-card/80">
+              <CardContent className="pt-6">
+                <p className="text-sm text-muted-foreground">{col.label}</p>
+                <p className="text-2xl font-bold">{formatReportValue(table.totals?.[col.key], col.type, currency)}</p>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      {/* Report Table */}
+      <UnifiedTable
+        columns={columns}
+        data={table.rows}
+        loading={loading}
+        emptyMessage={t('reports.noData')}
+        rowKey={row => String(row.key)}
+      />
     </div>
   );
-} 
\ No newline at end of file
+}
@@ -1,21 +1,98 @@
-import React from 'react';
-import { Settings as SettingsIcon } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+import { AppSettings } from '../types/settings';
+import { useSettings } from '../hooks/useSettings';
+import { useLocations } from '../hooks/useLocations';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { useToast } from '@/hooks/use-toast';
+import LoadingSpinner from '@/components/common/LoadingSpinner';
+import StoreInfoSettings from '@/components/settings/StoreInfoSettings';
+import POSOptionsSettings from '@/components/settings/POSOptionsSettings';
+import ReceiptOptionsSettings from '@/components/settings/ReceiptOptionsSettings';
+import LabelOptionsSettings from '@/components/settings/LabelOptionsSettings';
+import BarcodeNumberingSettings from '@/components/settings/BarcodeNumberingSettings';
+import CostingSettings from '@/components/settings/CostingSettings';
+import PreferencesSettings from '@/components/settings/PreferencesSettings';
+import TaxClassManager from '@/components/settings/TaxClassManager';
 
 export default function Settings() {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const { settings, loading, updateSettings } = useSettings();
+  const { activeLocations } = useLocations();
+
+  const handleSave = async (changes: Partial<Omit<AppSettings, 'updated_at'>>) => {
+    try {
+      await updateSettings(changes);
+      toast({
+        title: t('common.success'),
+        description: t('settings.saved'),
+      });
+    } catch (error) {
+      console.error('Error saving settings:', error);
+      toast({
+        title: t('common.error'),
+        description: error instanceof Error ? error.message : t('errors.savingFailed'),
+        variant: 'destructive',
+      });
+    }
+  };
+
+  if (loading) {
+    return <LoadingSpinner />;
+  }
+
   return (
-    <div className="flex flex-col items-center justify-center min-h-[60vh] text-center px-4 md:px-8 min-w-0">
-      <div className="mb-6">
-        <span className="inline-flex items-center justify-center rounded-full bg-yellow-100 p-6">
-          <SettingsIcon className="h-12 w-12 text-yellow-600" />
-        </span>
-      </div>
-      <h1 className="text-3xl font-bold mb-2">Settings</h1>
-      <p className="text-lg text-muted-foreground mb-6 max-w-xl">
-        The settings page is coming soon. You'll soon be able to customize your preferences, manage users, and configure system options. Stay tuned!
-      </p>
-      <div className="flex gap-4 justify-center">
-        <button className="px-6 py-2 rounded-md bg-blue-600 text-white font-medium shadow hover:bg-gray-200 transition">Back to Dashboard</button>
+    <div className="space-y-6 px-4 md:px-8 min-w-0">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">{t('settings.title')}</h1>
+        <p className="text-muted-foreground">{t('settings.description')}</p>
       </div>
+
+      <Tabs defaultValue="store" className="space-y-4">
+        <TabsList>
+          <TabsTrigger value="store">{t('settings.tabs.store')}</TabsTrigger>
+          <TabsTrigger value="pos">{t('settings.tabs.pos')}</TabsTrigger>
+          <TabsTrigger value="tax">{t('settings.tabs.tax')}</TabsTrigger>
+          <TabsTrigger value="receipt">{t('settings.tabs.receipt')}</TabsTrigger>
+          <TabsTrigger value="labels">{t('settings.tabs.labels')}</TabsTrigger>
+          <TabsTrigger value="inventory">{t('settings.tabs.inventory')}</TabsTrigger>
+          <TabsTrigger value="preferences">{t('settings.tabs.preferences')}</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="store" className="space-y-4">
+          <StoreInfoSettings store={settings.store} onSave={(store) => handleSave({ store })} />
+        </TabsContent>
+
+        <TabsContent value="pos" className="space-y-4">
+          <POSOptionsSettings pos={settings.pos} locations={activeLocations} onSave={(pos) => handleSave({ pos })} />
+        </TabsContent>
+
+        <TabsContent value="tax" className="space-y-4">
+          <TaxClassManager />
+        </TabsContent>
+
+        <TabsContent value="receipt" className="space-y-4">
+          <ReceiptOptionsSettings receipt={settings.receipt} onSave={(receipt) => handleSave({ receipt })} />
+        </TabsContent>
+
+        <TabsContent value="labels" className="space-y-4">
+          <BarcodeNumberingSettings barcodes={settings.barcodes} onSave={(barcodes) => handleSave({ barcodes })} />
+          <LabelOptionsSettings labels={settings.labels} onSave={(labels) => handleSave({ labels })} />
+        </TabsContent>
+
+        <TabsContent value="inventory" className="space-y-4">
+          <CostingSettings costing={settings.costing} onSave={(costing) => handleSave({ costing })} />
+        </TabsContent>
+
+        <TabsContent value="preferences" className="space-y-4">
+          <PreferencesSettings
+            language={settings.language}
+            theme={settings.theme}
+            onSave={(preferences) => handleSave(preferences)}
+          />
+        </TabsContent>
+      </Tabs>
     </div>
   );
-} 
\ No newline at end of file
+}
@@ -0,0 +1,212 @@
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Plus, Play, Eye, WifiOff } from 'lucide-react';
+import { StocktakeFormData, StocktakeSession, StocktakeStatus } from '../types/stocktake';
+import { useStocktakes } from '../hooks/useStocktakes';
+import { useInventory } from '../hooks/useInventory';
+import { useSettings } from '../hooks/useSettings';
+import { useLocations } from '../hooks/useLocations';
+import { summarizeStocktake } from '../lib/stocktake';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { useToast } from '@/hooks/use-toast';
+import NewStocktakeDialog from '@/components/stocktake/NewStocktakeDialog';
+import StocktakeCounter from '@/components/stocktake/StocktakeCounter';
+import LoadingSpinner from '@/components/common/LoadingSpinner';
+import { UnifiedTable } from '@/components/common/UnifiedTable';
+import { formatCurrency, formatDate } from '@/lib/utils';
+
+const statusStyles: Record<StocktakeStatus, string> = {
+  counting: 'bg-blue-100 text-blue-800',
+  posted: 'bg-green-100 text-green-800',
+  cancelled: 'bg-red-100 text-red-800'
+};
+
+export default function Stocktake() {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const { settings } = useSettings();
+  const { products, categories, refreshData: refreshInventory } = useInventory();
+  const { activeLocations } = useLocations();
+  const {
+    stocktakes,
+    loading,
+    isOnline,
+    createStocktake,
+    saveCounts,
+    syncStocktake,
+    postStocktake,
+    cancelStocktake
+  } = useStocktakes();
+
+  const [showNewForm, setShowNewForm] = useState(false);
+  const [activeNumber, setActiveNumber] = useState<string | null>(null);
+
+  const currency = settings.pos.currency;
+  const activeSession = stocktakes.find(s => s.session_number === activeNumber);
+
+  const showError = (error: unknown) => {
+    toast({
+      title: t('common.error'),
+      description: error instanceof Error ? error.message : t('errors.savingFailed'),
+      variant: 'destructive',
+    });
+  };
+
+  const handleCreate = async (formData: StocktakeFormData) => {
+    try {
+      const session = await createStocktake(formData, products, categories, activeLocations);
+      setShowNewForm(false);
+      setActiveNumber(session.session_number);
+    } catch (error) {
+      console.error('Error creating stocktake:', error);
+      showError(error);
+    }
+  };
+
+  const handleSave = async (session: StocktakeSession) => {
+    try {
+      await syncStocktake(session);
+      toast({
+        title: t('common.success'),
+        description: isOnline ? t('stocktake.saved') : t('stocktake.savedOffline'),
+      });
+    } catch (error) {
+      console.error('Error saving stocktake:', error);
+      showError(error);
+    }
+  };
+
+  const handlePost = async (session: StocktakeSession) => {
+    try {
+      const posted = await postStocktake(session);
+      toast({
+        title: t('common.success'),
+        description: t('stocktake.postedToast', { number: posted.session_number }),
+      });
+      await refreshInventory();
+    } catch (error) {
+      console.error('Error posting stocktake:', error);
+      showError(error);
+    }
+  };
+
+  const handleCancel = async () => {
+    if (!activeNumber) return;
+
+    try {
+      await cancelStocktake(activeNumber);
+    } catch (error) {
+      console.error('Error cancelling stocktake:', error);
+      showError(error);
+    }
+  };
+
+  const columns = [
+    { key: 'session_number', label: t('stocktake.number'), className: 'font-mono' },
+    { key: 'name', label: t('common.name'), render: (s: StocktakeSession) => s.name || '—' },
+    {
+      key: 'scope',
+      label: t('stocktake.scope'),
+      render: (s: StocktakeSession) => (s.scope === 'category' ? s.category_name : t('stocktake.scopes.all'))
+    },
+    ...(activeLocations.length > 1
+      ? [{ key: 'location_name', label: t('locations.location'), render: (s: StocktakeSession) => s.location_name || '—' }]
+      : []),
+    {
+      key: 'status',
+      label: t('common.status'),
+      render: (s: StocktakeSession) => <Badge className={statusStyles[s.status]}>{t(`stocktake.statuses.${s.status}`)}</Badge>
+    },
+    {
+      key: 'progress',
+      label: t('stocktake.counted'),
+      render: (s: StocktakeSession) => {
+        const summary = summarizeStocktake(s.lines);
+        return `${summary.counted_lines} / ${summary.total_lines}`;
+      }
+    },
+    {
+      key: 'variance_value',
+      label: t('stocktake.varianceValue'),
+      type: 'number' as const,
+      render: (s: StocktakeSession) => formatCurrency(summarizeStocktake(s.lines).variance_value, currency)
+    },
+    { key: 'created_at', label: t('common.date'), type: 'date' as const, render: (s: StocktakeSession) => formatDate(s.created_at) },
+  ];
+
+  if (loading) {
+    return <LoadingSpinner />;
+  }
+
+  if (activeSession) {
+    return (
+      <div className="space-y-6 px-4 md:px-8 min-w-0">
+        <StocktakeCounter
+          key={`${activeSession.session_number}-${activeSession.status}`}
+          session={activeSession}
+          currency={currency}
+          isOnline={isOnline}
+          onChange={saveCounts}
+          onSave={handleSave}
+          onPost={handlePost}
+          onCancel={handleCancel}
+          onClose={() => setActiveNumber(null)}
+        />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6 px-4 md:px-8 min-w-0">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">{t('stocktake.title')}</h1>
+          <p className="text-muted-foreground">{t('stocktake.description')}</p>
+        </div>
+        <Button onClick={() => setShowNewForm(true)} className="flex items-center gap-2">
+          <Plus className="h-4 w-4" />
+          {t('stocktake.addNew')}
+        </Button>
+      </div>
+
+      {!isOnline && (
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          <WifiOff className="h-4 w-4" />
+          {t('stocktake.offlineNotice')}
+        </div>
+      )}
+
+      <UnifiedTable
+        columns={columns}
+        data={stocktakes}
+        loading={loading}
+        emptyMessage={t('stocktake.noSessions')}
+        rowKey={s => s.session_number}
+        actions={session => (
+          <div className="flex items-center justify-end gap-2">
+            <button
+              className={session.status === 'counting' ? 'text-green-600 hover:text-green-900' : 'text-blue-600 hover:text-blue-900'}
+              onClick={() => setActiveNumber(session.session_number)}
+              title={session.status === 'counting' ? t('stocktake.continue') : t('common.view')}
+            >
+              {session.status === 'counting' ? <Play className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+            </button>
+          </div>
+        )}
+      />
+
+      {showNewForm && (
+        <NewStocktakeDialog
+          open={showNewForm}
+          onOpenChange={setShowNewForm}
+          onSubmit={handleCreate}
+          products={products}
+          categories={categories}
+          locations={activeLocations}
+        />
+      )}
+    </div>
+  );
+}
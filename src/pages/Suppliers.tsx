@@ -0,0 +1,344 @@
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Plus, Search, Filter, Edit, Trash2, Eye, Star } from 'lucide-react';
+import { Supplier, SupplierFormData } from '../types/supplier';
+import { useSuppliers } from '../hooks/useSuppliers';
+import { useInventory } from '../hooks/useInventory';
+import { useSettings } from '../hooks/useSettings';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import SupplierForm from '@/components/suppliers/SupplierForm';
+import SupplierDetails from '@/components/suppliers/SupplierDetails';
+import DeleteConfirmation from '@/components/common/DeleteConfirmation';
+import LoadingSpinner from '@/components/common/LoadingSpinner';
+import { UnifiedTable } from '@/components/common/UnifiedTable';
+import { formatCurrency } from '@/lib/utils';
+
+type StatusFilter = 'active' | 'inactive' | 'all';
+
+const RATING_OPTIONS = [0, 2, 3, 4, 4.5];
+
+export default function Suppliers() {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const { settings } = useSettings();
+  const { products } = useInventory();
+  const {
+    loading,
+    createSupplier,
+    updateSupplier,
+    deleteSupplier,
+    filterSuppliers,
+    getSupplierPerformance,
+    addSupplierPerformance,
+    getSupplierActivityLog
+  } = useSuppliers();
+
+  const [searchTerm, setSearchTerm] = useState('');
+  const [ratingMin, setRatingMin] = useState(0);
+  const [leadTimeMax, setLeadTimeMax] = useState(0);
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('active');
+
+  // Modal states
+  const [showCreateForm, setShowCreateForm] = useState(false);
+  const [showEditForm, setShowEditForm] = useState(false);
+  const [showDetails, setShowDetails] = useState(false);
+  const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
+  const [selectedSupplier, setSelectedSupplier] = useState<Supplier | null>(null);
+
+  const currency = settings.pos.currency;
+
+  const filteredSuppliers = filterSuppliers({
+    search: searchTerm,
+    rating_min: ratingMin,
+    lead_time_max: leadTimeMax,
+    is_active: statusFilter === 'all' ? undefined : statusFilter === 'active'
+  });
+
+  const productCounts = products.reduce<Record<string, number>>((counts, product) => {
+    if (product.supplier_id) {
+      counts[product.supplier_id] = (counts[product.supplier_id] || 0) + 1;
+    }
+    return counts;
+  }, {});
+
+  const showError = (error: unknown) => {
+    toast({
+      title: t('common.error'),
+      description: error instanceof Error ? error.message : t('errors.savingFailed'),
+      variant: 'destructive',
+    });
+  };
+
+  // Handle supplier creation
+  const handleCreateSupplier = async (supplierData: SupplierFormData) => {
+    try {
+      await createSupplier(supplierData);
+      toast({
+        title: t('common.success'),
+        description: t('suppliers.created'),
+      });
+      setShowCreateForm(false);
+    } catch (error) {
+      console.error('Error creating supplier:', error);
+      showError(error);
+    }
+  };
+
+  // Handle supplier update
+  const handleUpdateSupplier = async (supplierData: SupplierFormData) => {
+    if (!selectedSupplier) return;
+
+    try {
+      await updateSupplier(selectedSupplier.id, supplierData);
+      toast({
+        title: t('common.success'),
+        description: t('suppliers.updated'),
+      });
+      setShowEditForm(false);
+      setSelectedSupplier(null);
+    } catch (error) {
+      console.error('Error updating supplier:', error);
+      showError(error);
+    }
+  };
+
+  // Suppliers are deactivated rather than removed so purchase history keeps its references
+  const handleDeleteSupplier = async () => {
+    if (!selectedSupplier) return;
+
+    try {
+      await deleteSupplier(selectedSupplier.id);
+      toast({
+        title: t('common.success'),
+        description: t('suppliers.deactivated'),
+      });
+      setShowDeleteConfirm(false);
+      setSelectedSupplier(null);
+    } catch (error) {
+      console.error('Error deactivating supplier:', error);
+      showError(error);
+    }
+  };
+
+  const columns = [
+    { key: 'name', label: t('suppliers.fields.name') },
+    { key: 'contact_person', label: t('suppliers.fields.contact_person'), render: (s: Supplier) => s.contact_person || '—' },
+    {
+      key: 'email',
+      label: t('suppliers.contact'),
+      render: (s: Supplier) => (
+        <div className="text-sm">
+          <div>{s.email || '—'}</div>
+          {s.phone && <div className="text-muted-foreground">{s.phone}</div>}
+        </div>
+      )
+    },
+    {
+      key: 'lead_time_days',
+      label: t('suppliers.fields.lead_time_days'),
+      type: 'number' as const,
+      render: (s: Supplier) => t('suppliers.performance.days', { count: s.lead_time_days })
+    },
+    {
+      key: 'minimum_order_amount',
+      label: t('suppliers.fields.minimum_order_amount'),
+      type: 'number' as const,
+      render: (s: Supplier) => formatCurrency(s.minimum_order_amount, currency)
+    },
+    {
+      key: 'discount_percentage',
+      label: t('suppliers.fields.discount_percentage'),
+      type: 'number' as const,
+      render: (s: Supplier) => `${s.discount_percentage}%`
+    },
+    {
+      key: 'rating',
+      label: t('suppliers.fields.rating'),
+      type: 'number' as const,
+      render: (s: Supplier) => (
+        <span className="flex items-center gap-1">
+          <Star className="h-4 w-4 text-yellow-500 fill-yellow-500" />
+          {s.rating}
+        </span>
+      )
+    },
+    {
+      key: 'products',
+      label: t('suppliers.tabs.products'),
+      render: (s: Supplier) => productCounts[s.id] || 0
+    },
+    {
+      key: 'is_active',
+      label: t('common.status'),
+      render: (s: Supplier) => s.is_active
+        ? <Badge className="bg-green-100 text-green-800">{t('suppliers.active')}</Badge>
+        : <Badge variant="secondary">{t('suppliers.inactive')}</Badge>
+    },
+  ];
+
+  if (loading) {
+    return <LoadingSpinner />;
+  }
+
+  return (
+    <div className="space-y-6 px-4 md:px-8 min-w-0">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">{t('suppliers.title')}</h1>
+          <p className="text-muted-foreground">{t('suppliers.description')}</p>
+        </div>
+        <Button onClick={() => setShowCreateForm(true)} className="flex items-center gap-2">
+          <Plus className="h-4 w-4" />
+          {t('suppliers.addNew')}
+        </Button>
+      </div>
+
+      {/* Filters */}
+      <Card className="bg-card border border-border dark:bg-card/80">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Filter className="h-5 w-5" />
+            {t('common.filter')}
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+            <div className="relative md:col-span-2">
+              <Search className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+              <Input
+                placeholder={t('suppliers.searchPlaceholder')}
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+                className="pl-10 bg-background border-border text-foreground dark:bg-background/80"
+              />
+            </div>
+            <Select value={String(ratingMin)} onValueChange={(value) => setRatingMin(Number(value))}>
+              <SelectTrigger className="bg-background border-border text-foreground dark:bg-background/80">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-background border-border text-foreground dark:bg-background/80">
+                {RATING_OPTIONS.map(rating => (
+                  <SelectItem key={rating} value={String(rating)}>
+                    {rating === 0 ? t('suppliers.anyRating') : t('suppliers.minRating', { rating })}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              type="number"
+              min="0"
+              value={leadTimeMax || ''}
+              onChange={(e) => setLeadTimeMax(parseInt(e.target.value) || 0)}
+              placeholder={t('suppliers.maxLeadTime')}
+              className="bg-background border-border text-foreground dark:bg-background/80"
+            />
+            <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as StatusFilter)}>
+              <SelectTrigger className="bg-background border-border text-foreground dark:bg-background/80">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-background border-border text-foreground dark:bg-background/80">
+                <SelectItem value="active">{t('suppliers.active')}</SelectItem>
+                <SelectItem value="inactive">{t('suppliers.inactive')}</SelectItem>
+                <SelectItem value="all">{t('suppliers.allStatuses')}</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Suppliers Table */}
+      <UnifiedTable
+        columns={columns}
+        data={filteredSuppliers}
+        loading={loading}
+        emptyMessage={t('suppliers.noSuppliers')}
+        rowKey={s => s.id}
+        actions={supplier => (
+          <div className="flex items-center justify-end gap-2">
+            <button
+              className="text-blue-600 hover:text-blue-900"
+              onClick={() => {
+                setSelectedSupplier(supplier);
+                setShowDetails(true);
+              }}
+              title={t('common.view')}
+            >
+              <Eye className="h-4 w-4" />
+            </button>
+            <button
+              className="text-indigo-600 hover:text-indigo-900"
+              onClick={() => {
+                setSelectedSupplier(supplier);
+                setShowEditForm(true);
+              }}
+              title={t('common.edit')}
+            >
+              <Edit className="h-4 w-4" />
+            </button>
+            {supplier.is_active && (
+              <button
+                className="text-red-600 hover:text-red-900"
+                onClick={() => {
+                  setSelectedSupplier(supplier);
+                  setShowDeleteConfirm(true);
+                }}
+                title={t('suppliers.deactivate')}
+              >
+                <Trash2 className="h-4 w-4" />
+              </button>
+            )}
+          </div>
+        )}
+      />
+
+      {/* Modals */}
+      {showCreateForm && (
+        <SupplierForm
+          open={showCreateForm}
+          onOpenChange={setShowCreateForm}
+          onSubmit={handleCreateSupplier}
+          title={t('suppliers.addNew')}
+        />
+      )}
+
+      {showEditForm && selectedSupplier && (
+        <SupplierForm
+          open={showEditForm}
+          onOpenChange={setShowEditForm}
+          onSubmit={handleUpdateSupplier}
+          supplier={selectedSupplier}
+          title={t('suppliers.editTitle')}
+        />
+      )}
+
+      {showDetails && selectedSupplier && (
+        <SupplierDetails
+          open={showDetails}
+          onOpenChange={setShowDetails}
+          supplier={selectedSupplier}
+          products={products}
+          currency={currency}
+          loadPerformance={getSupplierPerformance}
+          loadActivity={getSupplierActivityLog}
+          addPerformance={addSupplierPerformance}
+        />
+      )}
+
+      {showDeleteConfirm && selectedSupplier && (
+        <DeleteConfirmation
+          open={showDeleteConfirm}
+          onOpenChange={setShowDeleteConfirm}
+          onConfirm={handleDeleteSupplier}
+          title={t('suppliers.deactivateTitle')}
+          description={t('suppliers.deactivateDescription', { name: selectedSupplier.name })}
+        />
+      )}
+    </div>
+  );
+}
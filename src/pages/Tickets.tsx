@@ -2,9 +2,10 @@
 
 import React, { useState } from 'react';
 import { useTranslation } from 'react-i18next';
-import { AlertCircle, LayoutList, KanbanSquare, Eye, Edit, Clock, CheckCircle, AlertTriangle, GripVertical, Copy } from 'lucide-react';
+import { AlertCircle, LayoutList, KanbanSquare, Eye, Edit, Clock, CheckCircle, AlertTriangle, GripVertical, Copy, Package } from 'lucide-react';
 import { useTickets } from '../hooks/useTickets';
-import { ServiceTicket, TicketFilters as TicketFiltersType, TicketFormData, CustomerFormData, TicketStatusHistory } from '../types/tickets';
+import { ServiceTicket, TicketFilters as TicketFiltersType, TicketFormData, CustomerFormData, TicketStatusHistory, TicketPart } from '../types/tickets';
+import { partsHaveArrived } from '../lib/ticketParts';
 import TicketForm from '../components/tickets/TicketForm';
 import TicketList from '../components/tickets/TicketList';
 import TicketFiltersComponent from '../components/tickets/TicketFilters';
@@ -15,6 +16,7 @@ import { useToast } from '../hooks/useToast';
 const TICKET_STATUSES = [
   { key: 'new', label: 'New', color: 'bg-blue-100 text-blue-800', icon: <Clock className="h-4 w-4" /> },
   { key: 'in_progress', label: 'In Progress', color: 'bg-yellow-100 text-yellow-800', icon: <AlertTriangle className="h-4 w-4" /> },
+  { key: 'awaiting_parts', label: 'Awaiting Parts', color: 'bg-orange-100 text-orange-800', icon: <Package className="h-4 w-4" /> },
   { key: 'completed', label: 'Completed', color: 'bg-green-100 text-green-800', icon: <CheckCircle className="h-4 w-4" /> },
   { key: 'delivered', label: 'Delivered', color: 'bg-purple-100 text-purple-800', icon: <CheckCircle className="h-4 w-4" /> },
   { key: 'canceled', label: 'Canceled', color: 'bg-red-100 text-red-800', icon: <AlertTriangle className="h-4 w-4" /> },
@@ -29,6 +31,7 @@ export default function Tickets() {
     error,
     createTicket,
     updateTicket,
+    saveTicketParts,
     createCustomer,
     getTicketStatusHistory,
     filterTickets,
@@ -97,6 +100,12 @@ export default function Tickets() {
     }
   };
 
+  const handleSaveParts = async (parts: TicketPart[], laborAmount: number) => {
+    if (!viewingTicket) return;
+    const updated = await saveTicketParts(viewingTicket, parts, laborAmount);
+    setViewingTicket(updated);
+  };
+
   const handleCreateCustomer = async (customerData: CustomerFormData) => {
     return await createCustomer(customerData);
   };
@@ -238,6 +247,7 @@ export default function Tickets() {
           statusHistory={statusHistory}
           onClose={() => setViewingTicket(null)}
           onEdit={() => handleEditTicket(viewingTicket)}
+          onSaveParts={handleSaveParts}
         />
       )}
     </div>
@@ -296,10 +306,18 @@ function KanbanBoard({ tickets, onView, onEdit, loading, statusFilter, priorityF
             e.preventDefault();
             setDragOverStatus(null);
             if (draggedTicket && draggedTicket.status !== status.key) {
-              await updateTicket(draggedTicket.id, { ...draggedTicket, status: status.key as ServiceTicket['status'] });
-              toast({ title: 'Ticket updated', description: `Ticket #${draggedTicket.ticket_number} moved to ${t(`tickets.${status.key}`)}` });
+              try {
+                await updateTicket(draggedTicket.id, { status: status.key as ServiceTicket['status'] });
+                toast({ title: 'Ticket updated', description: `Ticket #${draggedTicket.ticket_number} moved to ${t(`tickets.${status.key}`)}` });
+                refreshData();
+              } catch (err) {
+                toast({
+                  title: t('common.error'),
+                  description: err instanceof Error ? err.message : t('errors.savingFailed'),
+                  variant: 'destructive'
+                });
+              }
               setDraggedTicket(null);
-              refreshData();
             } else if (draggedTicket && draggedTicket.status === status.key) {
               // Optional: shake animation or feedback
             }
@@ -351,6 +369,9 @@ function KanbanBoard({ tickets, onView, onEdit, loading, statusFilter, priorityF
                       <button onClick={e => { e.stopPropagation(); onEdit(ticket); }} title={t('common.edit')} className="text-indigo-600 hover:text-indigo-900"><Edit className="h-4 w-4" /></button>
                     </div>
                   </div>
+                  {partsHaveArrived(ticket) && (
+                    <span className="self-start inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800">{t('ticketParts.partsIn')}</span>
+                  )}
                   <div className="text-xs text-gray-400 mt-1">{new Date(ticket.created_at).toLocaleDateString()}</div>
                 </CardContent>
               </Card>
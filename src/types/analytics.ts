@@ -32,6 +32,7 @@ export interface AnalyticsFilters {
   dateFrom: string;
   dateTo: string;
   category: string;
+  location_id?: string;
   timePeriod: 'daily' | 'weekly' | 'monthly' | 'all_time';
 }
 
@@ -50,6 +51,11 @@ export interface ProductAnalytics {
   profit_per_unit: number;
   profit_margin_percentage: number;
   inventory_value: number;
+  // Net of refunds, with cost of goods sold as recorded on each sale line
+  units_sold: number;
+  sales_revenue: number;
+  cost_of_goods_sold: number;
+  gross_profit: number;
   stock_status: 'in_stock' | 'low_stock' | 'out_of_stock';
   created_at: string;
   updated_at: string;
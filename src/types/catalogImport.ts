@@ -0,0 +1,112 @@
+import { Category, Product, Supplier } from './inventory';
+
+export type CatalogField =
+  | 'product_code'
+  | 'name'
+  | 'description'
+  | 'barcode'
+  | 'category'
+  | 'subcategory'
+  | 'supplier'
+  | 'cost_price'
+  | 'selling_price'
+  | 'quantity_in_stock'
+  | 'min_stock_level'
+  | 'is_serialized'
+  | 'track_lots'
+  | 'variant_name'
+  | 'variant_value'
+  | 'variant_barcode'
+  | 'variant_additional_cost'
+  | 'variant_quantity';
+
+// Spreadsheet column index per catalog field; unmapped fields are left out
+export type CatalogColumnMapping = Partial<Record<CatalogField, number>>;
+
+// 'create' only adds new product codes; 'upsert' also updates products that already exist
+export type CatalogImportMode = 'create' | 'upsert';
+
+export interface CatalogImportOptions {
+  mode: CatalogImportMode;
+  // Create categories and suppliers the file names but the catalog doesn't have yet
+  create_missing: boolean;
+}
+
+export type CatalogIssueCode =
+  | 'missing_required'
+  | 'invalid_number'
+  | 'invalid_boolean'
+  | 'duplicate_product_code'
+  | 'product_exists'
+  | 'duplicate_barcode'
+  | 'barcode_in_use'
+  | 'invalid_ean'
+  | 'invalid_upc'
+  | 'unknown_category'
+  | 'unknown_subcategory'
+  | 'unknown_supplier'
+  | 'incomplete_variant'
+  | 'duplicate_variant'
+  | 'new_category'
+  | 'new_subcategory'
+  | 'new_supplier';
+
+export interface CatalogImportIssue {
+  // Spreadsheet row number, counting the header as row 1
+  row: number;
+  field?: CatalogField;
+  code: CatalogIssueCode;
+  value?: string;
+  severity: 'error' | 'warning';
+}
+
+export interface CatalogImportVariant {
+  row: number;
+  existing_id?: string;
+  name: string;
+  value: string;
+  barcode?: string;
+  additional_cost?: number;
+  // Only applied to new variants; stock on existing ones changes through stock movements
+  quantity_in_stock?: number;
+}
+
+export interface CatalogImportProduct {
+  row: number;
+  existing_id?: string;
+  product_code: string;
+  // Only the cells filled in; blank cells keep the current value of an existing product
+  values: Partial<Pick<Product,
+    'name' | 'description' | 'barcode' | 'cost_price' | 'selling_price' |
+    'quantity_in_stock' | 'min_stock_level' | 'is_serialized' | 'track_lots'
+  >>;
+  category?: string;
+  subcategory?: string;
+  supplier?: string;
+  variants: CatalogImportVariant[];
+}
+
+export interface CatalogImportPlan {
+  // Products with no errors, ready to write
+  products: CatalogImportProduct[];
+  new_categories: { name: string; parent?: string }[];
+  new_suppliers: string[];
+  issues: CatalogImportIssue[];
+  skipped_rows: number;
+}
+
+// Current catalog the file is checked against, including inactive products
+export interface CatalogImportContext {
+  products: Product[];
+  // Flat list, subcategories point to their parent through parent_id
+  categories: Category[];
+  suppliers: Pick<Supplier, 'id' | 'name'>[];
+}
+
+export interface CatalogImportResult {
+  created: number;
+  updated: number;
+  variants: number;
+  categories: number;
+  suppliers: number;
+}
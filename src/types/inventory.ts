@@ -1,3 +1,8 @@
+import { LocationStock } from './locations';
+
+// 'each' products are sold in whole units; the rest by a decimal measure such as weight or length
+export type UnitOfMeasure = 'each' | 'kg' | 'g' | 'lb' | 'm' | 'ft';
+
 export interface Product {
   id: string;
   name: string;
@@ -9,10 +14,26 @@ export interface Product {
   cost_price: number;
   selling_price: number;
   quantity_in_stock: number;
+  // Units held for repair tickets
+  quantity_reserved?: number;
   min_stock_level: number;
   supplier?: string; // Legacy field, will be removed
   supplier_id?: string;
+  tax_class_id?: string | null;
   image_url?: string;
+  // Each unit carries its own serial/IMEI, captured at receiving and scanned at sale
+  is_serialized?: boolean;
+  warranty_months?: number;
+  // Stock is received and sold by lot, each with its own expiry date
+  track_lots?: boolean;
+  unit_of_measure?: UnitOfMeasure;
+  // Item number printed in variable-measure (price or weight embedded) barcodes
+  plu?: string | null;
+  // Kits hold no stock of their own; selling one takes its components off the shelf
+  is_kit?: boolean;
+  kit_components?: KitComponent[];
+  // Axes the variants are generated from, e.g. Color × Model
+  variant_options?: VariantOption[];
   is_active: boolean;
   created_at: string;
   updated_at: string;
@@ -20,25 +41,49 @@ export interface Product {
   category?: Category;
   subcategory?: Category;
   supplier_info?: Supplier;
+  location_stock?: LocationStock[];
+}
+
+export interface VariantOption {
+  name: string;
+  values: string[];
 }
 
 export interface ProductVariant {
   id: string;
   product_id: string;
+  // Axis names and values joined with " / " so older screens can show them as one pair
   name: string;
   value: string;
+  // Value per option axis; empty on variants created before option axes
+  attributes?: Record<string, string>;
+  sku?: string | null;
   additional_cost: number;
   quantity_in_stock: number;
+  quantity_reserved?: number;
   barcode?: string;
+  // Variants dropped from the matrix after stock was recorded against them are kept for the ledger
+  is_active?: boolean;
   created_at: string;
 }
 
+// Quantity of one product or variant that goes into a single kit. Name and code are copied
+// when the kit is saved so receipts read the same after a component is renamed.
+export interface KitComponent {
+  product_id: string;
+  variant_id?: string | null;
+  name: string;
+  product_code: string;
+  quantity: number;
+}
+
 export interface Category {
   id: string;
   name: string;
   name_fr?: string;
   parent_id?: string;
   description?: string;
+  tax_class_id?: string | null;
   is_active: boolean;
   created_at: string;
   children?: Category[];
@@ -68,13 +113,26 @@ export interface ProductFormData {
   quantity_in_stock: number;
   min_stock_level: number;
   supplier_id: string;
+  tax_class_id: string;
   image_url: string;
+  is_serialized: boolean;
+  warranty_months: number;
+  track_lots: boolean;
+  unit_of_measure: UnitOfMeasure;
+  plu: string;
+  is_kit: boolean;
+  kit_components: KitComponent[];
+  variant_options: VariantOption[];
   variants: ProductVariantFormData[];
 }
 
 export interface ProductVariantFormData {
+  // Set for variants already saved
+  id?: string;
   name: string;
   value: string;
+  attributes: Record<string, string>;
+  sku: string;
   additional_cost: number;
   quantity_in_stock: number;
   barcode: string;
@@ -85,6 +143,7 @@ export interface InventoryFilters {
   category_id: string;
   subcategory_id: string;
   supplier_id: string;
+  location_id: string;
   low_stock_only: boolean;
   is_active: boolean;
 }
\ No newline at end of file
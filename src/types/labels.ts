@@ -0,0 +1,43 @@
+export type BarcodeSymbology = 'ean13' | 'upca' | 'code128' | 'qr';
+
+// Shelf labels put the price first for customers; stickers go on the item itself
+export type LabelStyle = 'shelf' | 'sticker';
+
+export interface LabelTemplate {
+  id: string;
+  name: string;
+  // A roll prints one label per page, sized to the label itself
+  kind: 'sheet' | 'roll';
+  page_width_mm: number;
+  page_height_mm: number;
+  columns: number;
+  rows: number;
+  label_width_mm: number;
+  label_height_mm: number;
+  margin_top_mm: number;
+  margin_left_mm: number;
+  gap_x_mm: number;
+  gap_y_mm: number;
+}
+
+export interface LabelSettings {
+  template_id: string;
+  // Sheet layout for label stock that matches none of the presets
+  custom_template: LabelTemplate;
+  style: LabelStyle;
+  // 'auto' uses EAN-13 or UPC-A when the barcode is a valid one, Code128 otherwise
+  symbology: BarcodeSymbology | 'auto';
+  show_name: boolean;
+  show_price: boolean;
+  show_code: boolean;
+  print_on_receive: boolean;
+}
+
+export interface LabelItem {
+  key: string;
+  name: string;
+  price: number;
+  product_code: string;
+  barcode?: string;
+  copies: number;
+}
@@ -0,0 +1,64 @@
+import { UnitOfMeasure } from './inventory';
+
+export interface Location {
+  id: string;
+  name: string;
+  code?: string;
+  address?: string;
+  // Stock changes that don't name a location land here
+  is_default: boolean;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface LocationFormData {
+  name: string;
+  code: string;
+  address: string;
+  is_active: boolean;
+}
+
+// On-hand quantity of one product or variant at one location
+export interface LocationStock {
+  id?: string;
+  location_id: string;
+  product_id: string;
+  variant_id?: string | null;
+  quantity: number;
+  updated_at?: string;
+}
+
+export type StockTransferStatus = 'draft' | 'in_transit' | 'received' | 'cancelled';
+
+export interface StockTransferLine {
+  id: string;
+  product_id: string;
+  variant_id?: string;
+  product_name: string;
+  product_code: string;
+  quantity: number;
+  // Measured goods move in fractions of their unit
+  unit_of_measure?: UnitOfMeasure;
+}
+
+export interface StockTransfer {
+  id?: string;
+  transfer_number: string;
+  from_location_id: string;
+  to_location_id: string;
+  status: StockTransferStatus;
+  lines: StockTransferLine[];
+  notes?: string;
+  sent_at?: string;
+  received_at?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface StockTransferFormData {
+  from_location_id: string;
+  to_location_id: string;
+  lines: StockTransferLine[];
+  notes: string;
+}
@@ -0,0 +1,30 @@
+export type ExpiryStatus = 'none' | 'ok' | 'near_expiry' | 'expired';
+
+export interface ProductLot {
+  id?: string;
+  product_id: string;
+  variant_id?: string | null;
+  // Trimmed and upper-cased so scanned and typed lots match
+  lot_number: string;
+  // ISO date (YYYY-MM-DD)
+  expiry_date?: string | null;
+  // Units of the lot still on hand
+  quantity: number;
+  po_number?: string;
+  supplier_id?: string;
+  received_at?: string;
+  created_at?: string;
+  updated_at?: string;
+}
+
+// The lot picked for a sale line
+export interface LotSelection {
+  lot_number: string;
+  expiry_date?: string | null;
+}
+
+export interface ExpiringLot extends ProductLot {
+  product_name: string;
+  product_code: string;
+  variant_name?: string;
+}
@@ -1,3 +1,7 @@
+import { KitComponent, UnitOfMeasure } from './inventory';
+import { AppliedPromotion } from './promotions';
+import { TaxBreakdownLine } from './tax';
+
 export interface CartItem {
   id: string;
   product_id: string;
@@ -6,12 +10,43 @@ export interface CartItem {
   product_code: string;
   barcode?: string;
   price: number;
+  // Decimal for products sold by measure, in unit_of_measure
   quantity: number;
+  unit_of_measure?: UnitOfMeasure;
   discount_amount: number;
   discount_percentage: number;
   subtotal: number;
   image_url?: string;
   variant_name?: string;
+  category_id?: string;
+  subcategory_id?: string;
+  promotions?: AppliedPromotion[];
+  tax_class_id?: string;
+  tax_name?: string;
+  tax_rate?: number;
+  tax_amount?: number;
+  taxable_amount?: number;
+  restock?: boolean;
+  // Serialized units are sold one per line
+  serial_number?: string;
+  // Lot-tracked lines draw from a single lot (ISO expiry date)
+  lot_number?: string;
+  expiry_date?: string | null;
+  // Components of one kit on a kit line, as sold
+  kit_components?: KitComponent[];
+  // Cost of one unit, set by the server when the sale is recorded
+  unit_cost?: number;
+  // Catalogue price when the line was charged at a scheduled sale price instead
+  regular_price?: number;
+  // Lines collecting a service ticket: its service line (no product) and its consumed parts
+  service_ticket_id?: string;
+}
+
+// A scale label read at the till: the line's quantity and the unit price that makes it total what the label says
+export interface MeasuredScan {
+  barcode: string;
+  quantity: number;
+  price: number;
 }
 
 export interface Cart {
@@ -20,7 +55,22 @@ export interface Cart {
   discount_amount: number;
   discount_percentage: number;
   tax_amount: number;
+  tax_breakdown?: TaxBreakdownLine[];
+  prices_include_tax?: boolean;
   total: number;
+  customer_id?: string;
+  coupon_codes?: string[];
+  promotion_discount?: number;
+}
+
+export interface HeldCart {
+  id: string;
+  label: string;
+  customer_id?: string;
+  customer_name?: string;
+  cart: Cart;
+  parked_at: string;
+  expires_at: string;
 }
 
 export interface PaymentMethod {
@@ -38,6 +88,8 @@ export interface Transaction {
   subtotal: number;
   discount_amount: number;
   tax_amount: number;
+  tax_breakdown?: TaxBreakdownLine[];
+  prices_include_tax?: boolean;
   total: number;
   payment_method: PaymentMethod;
   customer_id?: string;
@@ -45,6 +97,27 @@ export interface Transaction {
   notes?: string;
   created_at: string;
   status: 'completed' | 'pending' | 'cancelled' | 'refunded';
+  transaction_type?: 'sale' | 'refund';
+  original_transaction_id?: string;
+  original_transaction_number?: string;
+  refund_reason?: string;
+  register_session_number?: string;
+  location_id?: string;
+  // Service ticket collected by this sale
+  service_ticket_id?: string;
+}
+
+export interface RefundLine {
+  item_id: string;
+  quantity: number;
+  restock: boolean;
+}
+
+export interface RefundRequest {
+  original: Transaction;
+  lines: RefundLine[];
+  tender: 'cash' | 'card';
+  reason?: string;
 }
 
 export interface Receipt {
@@ -54,7 +127,11 @@ export interface Receipt {
     address: string;
     phone: string;
     email: string;
+    logo_url?: string;
+    tax_id?: string;
   };
+  footer_text?: string;
+  show_kit_components?: boolean;
   customer_info?: {
     name: string;
     email: string;
@@ -62,10 +139,13 @@ export interface Receipt {
 }
 
 export interface POSSettings {
+  // Fallback percentage used when no tax class applies to an item
   tax_rate: number;
+  prices_include_tax: boolean;
   currency: string;
   auto_print_receipt: boolean;
   barcode_scanner_enabled: boolean;
   sound_enabled: boolean;
   default_payment_method: 'cash' | 'card';
+  held_cart_expiry_hours: number;
 }
\ No newline at end of file
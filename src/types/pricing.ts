@@ -0,0 +1,60 @@
+// Edits made in the catalogue, or scheduled changes coming into effect
+export type PriceChangeSource = 'manual' | 'scheduled';
+
+// One change to a product's selling price, or to a variant's price (product price plus its additional cost)
+export interface PriceChange {
+  id: string;
+  product_id: string;
+  variant_id?: string | null;
+  // Null for the price a product or variant was created with
+  old_price: number | null;
+  new_price: number;
+  source: PriceChangeSource;
+  scheduled_price_id?: string | null;
+  user_id?: string | null;
+  user_email?: string | null;
+  created_at: string;
+}
+
+// A change replaces the catalogue price from its start; a sale is charged at the till
+// between its start and end and leaves the catalogue price alone
+export type ScheduledPriceKind = 'change' | 'sale';
+
+export type ScheduledPriceStatus = 'scheduled' | 'applied' | 'cancelled';
+
+// Where a scheduled price stands right now, worked out from its status and dates
+export type ScheduledPriceState = 'upcoming' | 'live' | 'ended' | 'applied' | 'cancelled';
+
+export interface ScheduledPrice {
+  id: string;
+  product_id: string;
+  // Null for the product's own price; product-wide sales carry over to variants with their additional cost
+  variant_id?: string | null;
+  kind: ScheduledPriceKind;
+  price: number;
+  starts_at: string;
+  // Sales only
+  ends_at?: string | null;
+  status: ScheduledPriceStatus;
+  notes?: string | null;
+  applied_at?: string | null;
+  user_email?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ScheduledPriceFormData {
+  variant_id?: string;
+  kind: ScheduledPriceKind;
+  price: number;
+  starts_at: string;
+  ends_at?: string;
+  notes?: string;
+}
+
+// The price to charge at the till and, during a sale, what it would have been
+export interface TillPrice {
+  price: number;
+  regular_price: number;
+  sale?: ScheduledPrice;
+}
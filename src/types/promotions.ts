@@ -0,0 +1,66 @@
+export type PromotionType = 'percentage_off' | 'fixed_price' | 'quantity_break' | 'buy_x_get_y';
+
+export interface QuantityBreak {
+  min_quantity: number;
+  discount_percentage: number;
+}
+
+export interface Promotion {
+  id: string;
+  name: string;
+  description?: string;
+  type: PromotionType;
+  is_active: boolean;
+  // Targeting: when both lists are empty the promotion applies to every item
+  product_ids: string[];
+  category_ids: string[];
+  // Mechanics
+  discount_percentage?: number;
+  fixed_price?: number;
+  quantity_breaks?: QuantityBreak[];
+  buy_quantity?: number;
+  get_quantity?: number;
+  get_discount_percentage?: number;
+  // Conditions
+  coupon_code?: string;
+  starts_at?: string;
+  ends_at?: string;
+  days_of_week?: number[];
+  start_time?: string;
+  end_time?: string;
+  stackable: boolean;
+  priority: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface AppliedPromotion {
+  promotion_id: string;
+  name: string;
+  type: PromotionType;
+  amount: number;
+  coupon_code?: string;
+}
+
+export interface PromotionFormData {
+  name: string;
+  description?: string;
+  type: PromotionType;
+  is_active: boolean;
+  product_ids: string[];
+  category_ids: string[];
+  discount_percentage?: number;
+  fixed_price?: number;
+  quantity_breaks?: QuantityBreak[];
+  buy_quantity?: number;
+  get_quantity?: number;
+  get_discount_percentage?: number;
+  coupon_code?: string;
+  starts_at?: string;
+  ends_at?: string;
+  days_of_week?: number[];
+  start_time?: string;
+  end_time?: string;
+  stackable: boolean;
+  priority: number;
+}
@@ -0,0 +1,56 @@
+export type PurchaseOrderStatus = 'draft' | 'ordered' | 'partially_received' | 'received' | 'cancelled';
+
+export interface PurchaseOrderLine {
+  id: string;
+  product_id: string;
+  variant_id?: string;
+  product_name: string;
+  product_code: string;
+  quantity_ordered: number;
+  quantity_received: number;
+  unit_cost: number;
+}
+
+export interface PurchaseOrderReceipt {
+  received_at: string;
+  lines: { line_id: string; quantity: number; serials?: string[]; lot_number?: string; expiry_date?: string }[];
+  notes?: string;
+}
+
+export interface PurchaseOrder {
+  id?: string;
+  po_number: string;
+  supplier_id: string;
+  supplier_name: string;
+  status: PurchaseOrderStatus;
+  lines: PurchaseOrderLine[];
+  subtotal: number;
+  discount_percentage: number;
+  discount_amount: number;
+  total: number;
+  expected_date?: string;
+  notes?: string;
+  receipts: PurchaseOrderReceipt[];
+  ordered_at?: string;
+  received_at?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface PurchaseOrderFormData {
+  supplier_id: string;
+  lines: PurchaseOrderLine[];
+  discount_percentage: number;
+  expected_date: string;
+  notes: string;
+}
+
+export interface ReceiveLine {
+  line_id: string;
+  quantity: number;
+  // One per unit received, for serialized products
+  serials?: string[];
+  // Lot the delivered units belong to, for lot-tracked products (ISO expiry date)
+  lot_number?: string;
+  expiry_date?: string;
+}
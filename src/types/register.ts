@@ -0,0 +1,58 @@
+export interface CashMovement {
+  id: string;
+  type: 'cash_in' | 'cash_out';
+  amount: number;
+  reason: string;
+  created_at: string;
+}
+
+export interface PaymentBreakdown {
+  count: number;
+  total: number;
+  cash: number;
+  card: number;
+}
+
+export interface ZReport {
+  session_number: string;
+  cashier_name: string;
+  opened_at: string;
+  closed_at?: string;
+  sale_count: number;
+  refund_count: number;
+  gross_sales: number;
+  refunds_total: number;
+  net_sales: number;
+  discount_total: number;
+  tax_total: number;
+  payments: {
+    cash: PaymentBreakdown;
+    card: PaymentBreakdown;
+    mixed: PaymentBreakdown;
+  };
+  change_given: number;
+  opening_float: number;
+  cash_sales: number;
+  cash_in: number;
+  cash_out: number;
+  expected_cash: number;
+  counted_cash?: number;
+  variance?: number;
+}
+
+export interface RegisterSession {
+  id?: string;
+  session_number: string;
+  cashier_id?: string;
+  cashier_name: string;
+  status: 'open' | 'closed';
+  opening_float: number;
+  cash_movements: CashMovement[];
+  expected_cash?: number;
+  counted_cash?: number;
+  variance?: number;
+  z_report?: ZReport;
+  notes?: string;
+  opened_at: string;
+  closed_at?: string;
+}
@@ -0,0 +1,42 @@
+import { Supplier } from './supplier';
+
+// Units sold (positive) or refunded (negative) on one line, used to measure demand
+export interface DemandLine {
+  product_id: string;
+  quantity: number;
+  created_at: string;
+}
+
+export interface ReorderSettings {
+  // Days of sales history used for the average
+  lookback_days: number;
+  // Days of sales each order should cover once it arrives
+  coverage_days: number;
+  // Extra days of sales kept as a buffer against late deliveries and demand spikes
+  safety_days: number;
+}
+
+export interface ReorderSuggestion {
+  product_id: string;
+  product_name: string;
+  product_code: string;
+  supplier_id: string;
+  unit_cost: number;
+  on_hand: number;
+  // Outstanding on draft and open purchase orders
+  on_order: number;
+  min_stock_level: number;
+  avg_daily_sales: number;
+  // Days the stock on hand lasts at the current rate; null when nothing sells
+  days_of_cover: number | null;
+  reorder_point: number;
+  suggested_quantity: number;
+}
+
+export interface SupplierReorderPlan {
+  supplier: Supplier;
+  lines: ReorderSuggestion[];
+  subtotal: number;
+  // Amount still needed to reach the supplier's minimum order
+  shortfall: number;
+}
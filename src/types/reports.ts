@@ -0,0 +1,99 @@
+import { KitComponent } from './inventory';
+import { PriceChange } from './pricing';
+import { Transaction } from './pos';
+import { ServiceTicket } from './tickets';
+import { RegisterSession } from './register';
+
+export type ReportType =
+  | 'sales_by_day'
+  | 'sales_by_product'
+  | 'kit_components'
+  | 'sales_by_category'
+  | 'sales_by_cashier'
+  | 'gross_margin'
+  | 'inventory_valuation'
+  | 'tax_collected'
+  | 'ticket_revenue'
+  | 'price_changes';
+
+export interface ReportFilters {
+  // Inclusive local dates, YYYY-MM-DD
+  date_from: string;
+  date_to: string;
+}
+
+// One sold (or refunded, negative) line, normalised from transaction_items online
+// or from the cached transactions offline
+export interface SalesLine {
+  transaction_id: string;
+  transaction_number: string;
+  transaction_type: 'sale' | 'refund';
+  created_at: string;
+  product_id: string;
+  product_name: string;
+  product_code: string;
+  category_id?: string;
+  quantity: number;
+  // Line subtotal after item discounts, before the order discount
+  gross_amount: number;
+  // After the order discount, excluding tax
+  net_amount: number;
+  cost_amount: number;
+  // Kit lines cached offline carry the components they were sold with
+  kit_components?: KitComponent[];
+}
+
+export type ReportTransaction = Pick<
+  Transaction,
+  | 'id'
+  | 'transaction_number'
+  | 'created_at'
+  | 'status'
+  | 'transaction_type'
+  | 'subtotal'
+  | 'discount_amount'
+  | 'tax_amount'
+  | 'tax_breakdown'
+  | 'prices_include_tax'
+  | 'total'
+  | 'register_session_number'
+>;
+
+export type ReportTicket = Pick<
+  ServiceTicket,
+  'id' | 'ticket_number' | 'type' | 'status' | 'price_quote' | 'final_price' | 'paid' | 'transaction_id' | 'created_at'
+>;
+
+export type ReportSession = Pick<RegisterSession, 'session_number' | 'cashier_name'>;
+
+// One catalogue price change with the names of what it was made to
+export interface PriceChangeLine extends PriceChange {
+  product_name: string;
+  product_code: string;
+  variant_name?: string;
+}
+
+export interface ReportSourceData {
+  lines: SalesLine[];
+  transactions: ReportTransaction[];
+  sessions: ReportSession[];
+  tickets: ReportTicket[];
+  price_changes: PriceChangeLine[];
+}
+
+export type ReportValueType = 'text' | 'number' | 'currency' | 'percent';
+
+export interface ReportColumn {
+  key: string;
+  // i18n key under reports.columns
+  label: string;
+  type: ReportValueType;
+}
+
+export type ReportRow = Record<string, string | number>;
+
+export interface ReportTable {
+  columns: ReportColumn[];
+  rows: ReportRow[];
+  totals?: ReportRow;
+}
@@ -0,0 +1,45 @@
+import { Customer, ServiceTicket } from './tickets';
+
+export type SerialStatus = 'in_stock' | 'sold' | 'returned';
+
+export type WarrantyStatus = 'none' | 'active' | 'expired';
+
+export interface ProductSerial {
+  id?: string;
+  // Trimmed and upper-cased so scans match however they were typed
+  serial_number: string;
+  product_id: string;
+  variant_id?: string | null;
+  status: SerialStatus;
+  po_number?: string;
+  supplier_id?: string;
+  unit_cost?: number;
+  received_at?: string;
+  // Latest sale of the unit
+  transaction_number?: string;
+  customer_id?: string;
+  sold_at?: string;
+  warranty_expires_at?: string;
+  created_at?: string;
+  updated_at?: string;
+}
+
+// A sale or refund line that carried the serial
+export interface SerialHistoryEntry {
+  transaction_number: string;
+  transaction_type: 'sale' | 'refund';
+  created_at: string;
+  unit_price: number;
+}
+
+export interface SerialLookupResult {
+  serial_number: string;
+  // Missing when the serial only appears on repair tickets
+  serial?: ProductSerial;
+  product_name: string;
+  product_code: string;
+  variant_name?: string;
+  customer?: Customer;
+  history: SerialHistoryEntry[];
+  tickets: ServiceTicket[];
+}
@@ -0,0 +1,65 @@
+import { POSSettings } from './pos';
+import { LabelSettings } from './labels';
+
+export type AppLanguage = 'en' | 'fr';
+export type ThemePreference = 'light' | 'dark' | 'system';
+
+export interface StoreInfo {
+  name: string;
+  address: string;
+  phone: string;
+  email: string;
+  logo_url?: string;
+  tax_id?: string;
+}
+
+export interface ReceiptSettings {
+  footer_text: string;
+  show_logo: boolean;
+  show_tax_id: boolean;
+  // List what each kit on the receipt is made of
+  show_kit_components: boolean;
+}
+
+export type BarcodeScheme = 'gs1' | 'in_store';
+
+// GS1 variable-measure layout: 2x prefix, 5-digit PLU, 5-digit value, check digit
+export interface VariableMeasureRule {
+  prefix: string;
+  // Whether the value is the label's price or the weighed/measured quantity
+  kind: 'price' | 'measure';
+  decimals: number;
+}
+
+// How new product barcodes are numbered: items are counted up from 1 inside the prefix
+export interface BarcodeSettings {
+  scheme: BarcodeScheme;
+  // Company prefix licensed from GS1, 6 to 11 digits
+  company_prefix: string;
+  // 200-299, only valid inside this store
+  in_store_prefix: string;
+  // Prefixes scales print on weighed and measured items
+  variable_measure: VariableMeasureRule[];
+}
+
+export type CostMethod = 'weighted_average' | 'fifo';
+
+// How the cost of stock is worked out as deliveries arrive at different prices
+export interface CostingSettings {
+  method: CostMethod;
+}
+
+export interface AppSettings {
+  store: StoreInfo;
+  pos: POSSettings;
+  receipt: ReceiptSettings;
+  labels: LabelSettings;
+  barcodes: BarcodeSettings;
+  costing: CostingSettings;
+  // Store-wide defaults; a device's own language/theme choice still wins
+  language: AppLanguage;
+  theme: ThemePreference;
+  updated_at: string;
+}
+
+export type SettingsSection = 'store' | 'pos' | 'receipt' | 'labels' | 'barcodes' | 'costing';
@@ -0,0 +1,62 @@
+export type StockMovementType =
+  | 'sale'
+  | 'refund'
+  | 'receive'
+  | 'adjustment'
+  | 'damage'
+  | 'theft'
+  | 'transfer'
+  | 'count_correction'
+  | 'repair';
+
+// Movement types staff can record by hand; the rest come from sales, refunds and deliveries
+export type ManualMovementType = Extract<StockMovementType, 'adjustment' | 'damage' | 'theft' | 'transfer' | 'count_correction'>;
+
+export interface StockMovement {
+  id: string;
+  product_id: string;
+  variant_id?: string | null;
+  movement_type: StockMovementType;
+  quantity: number;
+  quantity_after: number;
+  reason?: string | null;
+  reference?: string | null;
+  location_id?: string | null;
+  // Cost per unit moved: what a delivery cost, or what outgoing stock was valued at
+  unit_cost?: number | null;
+  user_id?: string | null;
+  user_email?: string | null;
+  created_at: string;
+  pending?: boolean;
+}
+
+export interface StockMovementInput {
+  product_id: string;
+  variant_id?: string;
+  movement_type: StockMovementType;
+  quantity: number;
+  reason?: string;
+  reference?: string;
+  // Omitted for the default location
+  location_id?: string;
+  // Cost per unit of incoming stock; omitted to bring it in at the current cost
+  unit_cost?: number;
+}
+
+export interface StockAdjustmentFormData {
+  movement_type: ManualMovementType;
+  variant_id?: string;
+  location_id: string;
+  direction: 'in' | 'out';
+  // Units moved, or the counted quantity for a count correction
+  quantity: number;
+  reason: string;
+  reference: string;
+}
+
+export interface StockLedgerCheck {
+  on_hand: number;
+  ledger_quantity: number;
+  difference: number;
+  balanced: boolean;
+}
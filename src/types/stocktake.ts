@@ -0,0 +1,54 @@
+import { UnitOfMeasure } from './inventory';
+
+export type StocktakeStatus = 'counting' | 'posted' | 'cancelled';
+
+export type StocktakeScope = 'all' | 'category';
+
+export interface StocktakeLine {
+  id: string;
+  product_id: string;
+  variant_id?: string;
+  product_name: string;
+  product_code: string;
+  barcode?: string;
+  // On-hand quantity when the session was opened
+  expected_quantity: number;
+  counted_quantity: number | null;
+  // Measured products are counted in fractions of their unit
+  unit_of_measure?: UnitOfMeasure;
+  unit_cost: number;
+  approved: boolean;
+}
+
+export interface StocktakeSession {
+  id?: string;
+  session_number: string;
+  name: string;
+  scope: StocktakeScope;
+  category_id?: string;
+  category_name?: string;
+  location_id?: string;
+  location_name?: string;
+  status: StocktakeStatus;
+  lines: StocktakeLine[];
+  notes?: string;
+  posted_at?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface StocktakeFormData {
+  name: string;
+  scope: StocktakeScope;
+  category_id: string;
+  location_id: string;
+  notes: string;
+}
+
+export interface StocktakeSummary {
+  total_lines: number;
+  counted_lines: number;
+  variance_lines: number;
+  variance_units: number;
+  variance_value: number;
+}
@@ -61,5 +61,5 @@ export interface SupplierFilters {
   search: string;
   rating_min: number;
   lead_time_max: number;
-  is_active: boolean;
+  is_active?: boolean;
 }
\ No newline at end of file
@@ -0,0 +1,26 @@
+export interface TaxClass {
+  id: string;
+  name: string;
+  // Percentage, e.g. 13 for 13% HST
+  rate: number;
+  description?: string;
+  is_default: boolean;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface TaxClassFormData {
+  name: string;
+  rate: number;
+  description?: string;
+  is_default: boolean;
+  is_active: boolean;
+}
+
+export interface TaxBreakdownLine {
+  name: string;
+  rate: number;
+  taxable_amount: number;
+  tax_amount: number;
+}
@@ -36,6 +36,26 @@ export interface ServiceDetails {
   additionalInfo?: string;
 }
 
+// Reserved parts are held out of stock on hand; parts awaiting stock are reserved when a
+// delivery brings them in; consumed parts left stock when the ticket was completed
+export type TicketPartStatus = 'reserved' | 'awaiting_stock' | 'consumed';
+
+// A product or variant used on a repair. Name and code are copied when it's attached so the
+// ticket reads the same after the product is renamed.
+export interface TicketPart {
+  id: string;
+  product_id: string;
+  variant_id?: string | null;
+  name: string;
+  product_code: string;
+  quantity: number;
+  // What the customer is charged per unit
+  unit_price: number;
+  // What a unit cost us; the value taken off the shelf once consumed
+  unit_cost: number;
+  status: TicketPartStatus;
+}
+
 export interface ServiceTicket {
   id: string;
   ticket_number: string;
@@ -47,8 +67,15 @@ export interface ServiceTicket {
   status: 'new' | 'in_progress' | 'awaiting_parts' | 'completed' | 'delivered' | 'canceled';
   priority: 'low' | 'medium' | 'high' | 'urgent';
   price_quote: number;
+  // Parts plus labour once parts have been attached
   final_price?: number;
+  parts?: TicketPart[];
+  labor_amount?: number;
+  // Set when a delivery brought in the last part the ticket was waiting for
+  parts_arrived_at?: string | null;
   paid: boolean;
+  // Sale that paid for the ticket when it was collected at the till
+  transaction_id?: string | null;
   notes?: string;
   files: string[];
   created_at: string;
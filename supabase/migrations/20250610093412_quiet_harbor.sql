@@ -0,0 +1,48 @@
+/*
+  # Add refunds and returns to transactions
+
+  1. Changes to transactions table
+    - `transaction_type` (text, 'sale' or 'refund', default 'sale')
+    - `original_transaction_id` (uuid, references the sale a refund belongs to)
+    - `refund_reason` (text, optional)
+
+  2. Conventions
+    - Refund transactions store negative quantities, subtotals, taxes and totals so that
+      sums over `transactions` and `transaction_items` net out returned goods without
+      special casing
+    - The original sale is never modified; refunded quantities are derived from the
+      refund transactions that reference it
+
+  3. Functions
+    - `adjust_product_stock` atomically adds (or removes) stock for a product or variant
+*/
+
+-- Add refund columns to transactions
+ALTER TABLE transactions
+  ADD COLUMN IF NOT EXISTS transaction_type text NOT NULL DEFAULT 'sale'
+    CHECK (transaction_type IN ('sale', 'refund')),
+  ADD COLUMN IF NOT EXISTS original_transaction_id uuid REFERENCES transactions(id) ON DELETE RESTRICT,
+  ADD COLUMN IF NOT EXISTS refund_reason text;
+
+CREATE INDEX IF NOT EXISTS idx_transactions_transaction_type ON transactions(transaction_type);
+CREATE INDEX IF NOT EXISTS idx_transactions_original_transaction_id ON transactions(original_transaction_id);
+
+-- Create function to adjust product or variant stock by a signed delta
+CREATE OR REPLACE FUNCTION adjust_product_stock(
+  p_product_id uuid,
+  p_variant_id uuid,
+  p_delta integer
+)
+RETURNS void AS $$
+BEGIN
+  IF p_variant_id IS NOT NULL THEN
+    UPDATE product_variants
+    SET quantity_in_stock = quantity_in_stock + p_delta
+    WHERE id = p_variant_id;
+  ELSE
+    UPDATE products
+    SET quantity_in_stock = quantity_in_stock + p_delta
+    WHERE id = p_product_id;
+  END IF;
+END;
+$$ LANGUAGE plpgsql;
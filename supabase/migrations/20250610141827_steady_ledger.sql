@@ -0,0 +1,77 @@
+/*
+  # Add register sessions (cash drawer shifts)
+
+  1. New Tables
+    - `register_sessions`
+      - `id` (uuid, primary key)
+      - `session_number` (text, unique, generated on the till so offline sessions can be upserted)
+      - `cashier_id` (uuid, optional)
+      - `cashier_name` (text)
+      - `status` (text, 'open' or 'closed')
+      - `opening_float` (decimal)
+      - `cash_movements` (jsonb, cash in/out payouts with reasons)
+      - `expected_cash` (decimal, set at close)
+      - `counted_cash` (decimal, set at close)
+      - `variance` (decimal, counted minus expected)
+      - `z_report` (jsonb, end-of-day report snapshot)
+      - `notes` (text, optional)
+      - `opened_at`, `closed_at` (timestamps)
+      - `created_at`, `updated_at` (timestamps)
+
+  2. Changes to transactions table
+    - `register_session_number` (text) links each sale or refund to the shift it was rung up in
+
+  3. Security
+    - Enable RLS on register_sessions
+    - Add policies for public read and authenticated management
+*/
+
+CREATE TABLE IF NOT EXISTS register_sessions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  session_number text UNIQUE NOT NULL,
+  cashier_id uuid,
+  cashier_name text NOT NULL,
+  status text NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'closed')),
+  opening_float decimal(10,2) NOT NULL DEFAULT 0,
+  cash_movements jsonb NOT NULL DEFAULT '[]'::jsonb,
+  expected_cash decimal(10,2),
+  counted_cash decimal(10,2),
+  variance decimal(10,2),
+  z_report jsonb,
+  notes text,
+  opened_at timestamptz NOT NULL DEFAULT now(),
+  closed_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE transactions
+  ADD COLUMN IF NOT EXISTS register_session_number text;
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_register_sessions_status ON register_sessions(status);
+CREATE INDEX IF NOT EXISTS idx_register_sessions_opened_at ON register_sessions(opened_at);
+CREATE INDEX IF NOT EXISTS idx_register_sessions_cashier_id ON register_sessions(cashier_id);
+CREATE INDEX IF NOT EXISTS idx_transactions_register_session_number ON transactions(register_session_number);
+
+-- Enable Row Level Security
+ALTER TABLE register_sessions ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for register sessions
+CREATE POLICY "Register sessions are viewable by everyone"
+  ON register_sessions
+  FOR SELECT
+  USING (true);
+
+CREATE POLICY "Authenticated users can manage register sessions"
+  ON register_sessions
+  FOR ALL
+  TO authenticated
+  USING (true)
+  WITH CHECK (true);
+
+-- Create trigger for register_sessions updated_at
+CREATE TRIGGER update_register_sessions_updated_at
+  BEFORE UPDATE ON register_sessions
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,80 @@
+/*
+  # Add promotions and pricing rules
+
+  1. New Tables
+    - `promotions`
+      - `id` (uuid, primary key)
+      - `name` (text)
+      - `description` (text, optional)
+      - `type` (text: percentage_off, fixed_price, quantity_break, buy_x_get_y)
+      - `is_active` (boolean, default true)
+      - `product_ids` (uuid[], targeted products)
+      - `category_ids` (uuid[], targeted categories; both empty means every item)
+      - `discount_percentage` (decimal, percentage_off)
+      - `fixed_price` (decimal, fixed_price such as happy-hour prices)
+      - `quantity_breaks` (jsonb, [{ min_quantity, discount_percentage }])
+      - `buy_quantity`, `get_quantity`, `get_discount_percentage` (buy_x_get_y)
+      - `coupon_code` (text, unique, optional; promotion only applies once entered)
+      - `starts_at`, `ends_at` (timestamps, optional date range)
+      - `days_of_week` (integer[], 0 = Sunday)
+      - `start_time`, `end_time` (time of day window, may wrap past midnight)
+      - `stackable` (boolean, combines with other promotions on the same line)
+      - `priority` (integer, higher wins between exclusive promotions)
+      - `created_at`, `updated_at` (timestamps)
+
+  2. Security
+    - Enable RLS on promotions
+    - Add policies for public read and authenticated management
+*/
+
+CREATE TABLE IF NOT EXISTS promotions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  description text,
+  type text NOT NULL CHECK (type IN ('percentage_off', 'fixed_price', 'quantity_break', 'buy_x_get_y')),
+  is_active boolean NOT NULL DEFAULT true,
+  product_ids uuid[] NOT NULL DEFAULT '{}',
+  category_ids uuid[] NOT NULL DEFAULT '{}',
+  discount_percentage decimal(5,2) CHECK (discount_percentage >= 0 AND discount_percentage <= 100),
+  fixed_price decimal(10,2) CHECK (fixed_price >= 0),
+  quantity_breaks jsonb NOT NULL DEFAULT '[]'::jsonb,
+  buy_quantity integer CHECK (buy_quantity > 0),
+  get_quantity integer CHECK (get_quantity > 0),
+  get_discount_percentage decimal(5,2) DEFAULT 100 CHECK (get_discount_percentage >= 0 AND get_discount_percentage <= 100),
+  coupon_code text UNIQUE,
+  starts_at timestamptz,
+  ends_at timestamptz,
+  days_of_week integer[] NOT NULL DEFAULT '{}',
+  start_time time,
+  end_time time,
+  stackable boolean NOT NULL DEFAULT false,
+  priority integer NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_promotions_is_active ON promotions(is_active);
+CREATE INDEX IF NOT EXISTS idx_promotions_coupon_code ON promotions(coupon_code);
+
+-- Enable Row Level Security
+ALTER TABLE promotions ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for promotions
+CREATE POLICY "Promotions are viewable by everyone"
+  ON promotions
+  FOR SELECT
+  USING (true);
+
+CREATE POLICY "Authenticated users can manage promotions"
+  ON promotions
+  FOR ALL
+  TO authenticated
+  USING (true)
+  WITH CHECK (true);
+
+-- Create trigger for promotions updated_at
+CREATE TRIGGER update_promotions_updated_at
+  BEFORE UPDATE ON promotions
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
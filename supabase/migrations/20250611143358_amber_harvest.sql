@@ -0,0 +1,79 @@
+/*
+  # Add tax classes and per-rate tax breakdown
+
+  1. New Tables
+    - `tax_classes`
+      - `id` (uuid, primary key)
+      - `name` (text, unique)
+      - `rate` (decimal, percentage such as 13 for 13% HST)
+      - `description` (text, optional)
+      - `is_default` (boolean, used for items without an assigned class)
+      - `is_active` (boolean, default true)
+      - `created_at`, `updated_at` (timestamps)
+
+  2. Changes
+    - `products.tax_class_id` and `categories.tax_class_id` assign a class; a product's
+      own class wins over its subcategory, which wins over its category
+    - `transactions.tax_breakdown` (jsonb, [{ name, rate, taxable_amount, tax_amount }])
+    - `transactions.prices_include_tax` (boolean, whether line prices were tax-inclusive)
+
+  3. Data
+    - Seed a default "Standard" 13% class and a 0% "Exempt" class
+
+  4. Security
+    - Enable RLS on tax_classes
+    - Add policies for public read and authenticated management
+*/
+
+CREATE TABLE IF NOT EXISTS tax_classes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text UNIQUE NOT NULL,
+  rate decimal(6,3) NOT NULL DEFAULT 0 CHECK (rate >= 0 AND rate <= 100),
+  description text,
+  is_default boolean NOT NULL DEFAULT false,
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+-- Only one class can be the default
+CREATE UNIQUE INDEX IF NOT EXISTS idx_tax_classes_single_default ON tax_classes(is_default) WHERE is_default;
+
+ALTER TABLE products ADD COLUMN IF NOT EXISTS tax_class_id uuid REFERENCES tax_classes(id) ON DELETE SET NULL;
+ALTER TABLE categories ADD COLUMN IF NOT EXISTS tax_class_id uuid REFERENCES tax_classes(id) ON DELETE SET NULL;
+
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS tax_breakdown jsonb NOT NULL DEFAULT '[]'::jsonb;
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS prices_include_tax boolean NOT NULL DEFAULT false;
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_products_tax_class ON products(tax_class_id);
+CREATE INDEX IF NOT EXISTS idx_categories_tax_class ON categories(tax_class_id);
+
+-- Enable Row Level Security
+ALTER TABLE tax_classes ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for tax classes
+CREATE POLICY "Tax classes are viewable by everyone"
+  ON tax_classes
+  FOR SELECT
+  USING (true);
+
+CREATE POLICY "Authenticated users can manage tax classes"
+  ON tax_classes
+  FOR ALL
+  TO authenticated
+  USING (true)
+  WITH CHECK (true);
+
+-- Create trigger for tax_classes updated_at
+CREATE TRIGGER update_tax_classes_updated_at
+  BEFORE UPDATE ON tax_classes
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Seed default tax classes
+INSERT INTO tax_classes (name, rate, description, is_default)
+VALUES
+  ('Standard', 13, 'HST on taxable goods', true),
+  ('Exempt', 0, 'Zero-rated goods and exempt services', false)
+ON CONFLICT (name) DO NOTHING;
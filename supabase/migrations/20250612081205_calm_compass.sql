@@ -0,0 +1,39 @@
+/*
+  # Add shared store settings
+
+  1. New Tables
+    - `store_settings`
+      - `id` (text, primary key; the app uses a single 'default' row shared by every device)
+      - `settings` (jsonb: store identity, POS options, receipt footer, default language and theme)
+      - `updated_at` (timestamp, written by the client that made the change)
+
+  2. Notes
+    - `updated_at` is set by the client rather than a trigger so devices can tell whether
+      their offline edits are newer than the shared copy
+
+  3. Security
+    - Enable RLS on store_settings
+    - Add policies for public read and authenticated management
+*/
+
+CREATE TABLE IF NOT EXISTS store_settings (
+  id text PRIMARY KEY DEFAULT 'default',
+  settings jsonb NOT NULL DEFAULT '{}'::jsonb,
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- Enable Row Level Security
+ALTER TABLE store_settings ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for store settings
+CREATE POLICY "Store settings are viewable by everyone"
+  ON store_settings
+  FOR SELECT
+  USING (true);
+
+CREATE POLICY "Authenticated users can manage store settings"
+  ON store_settings
+  FOR ALL
+  TO authenticated
+  USING (true)
+  WITH CHECK (true);
@@ -0,0 +1,68 @@
+/*
+  # Add purchase orders
+
+  1. New Tables
+    - `purchase_orders`
+      - `id` (uuid, primary key)
+      - `po_number` (text, unique, generated on the client so offline orders can be upserted)
+      - `supplier_id` (uuid, references suppliers)
+      - `supplier_name` (text, snapshot at the time of ordering)
+      - `status` (text: draft, ordered, partially_received, received, cancelled)
+      - `lines` (jsonb, product lines with ordered/received quantities and unit cost)
+      - `subtotal`, `discount_percentage`, `discount_amount`, `total` (decimal)
+      - `expected_date` (date, optional)
+      - `notes` (text, optional)
+      - `receipts` (jsonb, one entry per delivery received)
+      - `ordered_at`, `received_at` (timestamps)
+      - `created_at`, `updated_at` (timestamps)
+
+  2. Notes
+    - Receiving a delivery increments stock through `adjust_product_stock` and writes a
+      `delivery_received` entry to `supplier_activity_log`
+
+  3. Security
+    - Enable RLS on purchase_orders
+    - Add policies for public read and authenticated management
+*/
+
+CREATE TABLE IF NOT EXISTS purchase_orders (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  po_number text UNIQUE NOT NULL,
+  supplier_id uuid NOT NULL REFERENCES suppliers(id) ON DELETE RESTRICT,
+  supplier_name text NOT NULL,
+  status text NOT NULL DEFAULT 'draft'
+    CHECK (status IN ('draft', 'ordered', 'partially_received', 'received', 'cancelled')),
+  lines jsonb NOT NULL DEFAULT '[]'::jsonb,
+  subtotal decimal(12,2) NOT NULL DEFAULT 0,
+  discount_percentage decimal(5,2) NOT NULL DEFAULT 0,
+  discount_amount decimal(12,2) NOT NULL DEFAULT 0,
+  total decimal(12,2) NOT NULL DEFAULT 0,
+  expected_date date,
+  notes text,
+  receipts jsonb NOT NULL DEFAULT '[]'::jsonb,
+  ordered_at timestamptz,
+  received_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_purchase_orders_supplier_id ON purchase_orders(supplier_id);
+CREATE INDEX IF NOT EXISTS idx_purchase_orders_status ON purchase_orders(status);
+CREATE INDEX IF NOT EXISTS idx_purchase_orders_created_at ON purchase_orders(created_at);
+
+-- Enable Row Level Security
+ALTER TABLE purchase_orders ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for purchase orders
+CREATE POLICY "Purchase orders are viewable by everyone"
+  ON purchase_orders
+  FOR SELECT
+  USING (true);
+
+CREATE POLICY "Authenticated users can manage purchase orders"
+  ON purchase_orders
+  FOR ALL
+  TO authenticated
+  USING (true)
+  WITH CHECK (true);
@@ -0,0 +1,207 @@
+/*
+  # Add stock movements ledger
+
+  1. New Tables
+    - `stock_movements`
+      - `id` (uuid, primary key)
+      - `product_id` (uuid, references products)
+      - `variant_id` (uuid, references product_variants, optional)
+      - `movement_type` (text: sale, refund, receive, adjustment, damage, theft, transfer, count_correction)
+      - `quantity` (integer, signed change; negative when stock leaves)
+      - `quantity_after` (integer, on-hand quantity once the movement was applied)
+      - `reason` (text, optional)
+      - `reference` (text, optional, e.g. a transaction or purchase order number)
+      - `user_id` (uuid) and `user_email` (text) of whoever recorded the movement
+      - `created_at` (timestamp)
+
+  2. Functions
+    - `record_stock_movement` changes stock and appends the matching ledger row in one call
+    - `log_untracked_stock_change` records an `adjustment` for any stock change made outside
+      `record_stock_movement` (new products, direct edits), so the ledger always sums to on-hand
+    - `adjust_product_stock` is dropped: every stock change now goes through `record_stock_movement`
+
+  3. Views
+    - `stock_ledger_discrepancies` lists products and variants whose on-hand quantity no longer
+      matches the sum of their movements
+
+  4. Notes
+    - The ledger is append-only: updates and deletes are rejected, corrections are new movements
+    - Existing stock is carried over as an opening `adjustment` movement
+
+  5. Security
+    - Enable RLS on stock_movements
+    - Add policies for public read and authenticated inserts only
+*/
+
+CREATE TABLE IF NOT EXISTS stock_movements (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id uuid NOT NULL REFERENCES products(id) ON DELETE RESTRICT,
+  variant_id uuid REFERENCES product_variants(id) ON DELETE RESTRICT,
+  movement_type text NOT NULL
+    CHECK (movement_type IN ('sale', 'refund', 'receive', 'adjustment', 'damage', 'theft', 'transfer', 'count_correction')),
+  quantity integer NOT NULL CHECK (quantity <> 0),
+  quantity_after integer NOT NULL,
+  reason text,
+  reference text,
+  user_id uuid DEFAULT auth.uid(),
+  user_email text DEFAULT (auth.jwt() ->> 'email'),
+  created_at timestamptz DEFAULT now()
+);
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_stock_movements_product_id ON stock_movements(product_id);
+CREATE INDEX IF NOT EXISTS idx_stock_movements_variant_id ON stock_movements(variant_id);
+CREATE INDEX IF NOT EXISTS idx_stock_movements_movement_type ON stock_movements(movement_type);
+CREATE INDEX IF NOT EXISTS idx_stock_movements_reference ON stock_movements(reference);
+CREATE INDEX IF NOT EXISTS idx_stock_movements_created_at ON stock_movements(created_at);
+
+-- Carry existing stock over as opening balances
+INSERT INTO stock_movements (product_id, variant_id, movement_type, quantity, quantity_after, reason, user_id, user_email)
+SELECT id, NULL, 'adjustment', quantity_in_stock, quantity_in_stock, 'Opening balance', NULL, NULL
+FROM products
+WHERE quantity_in_stock <> 0;
+
+INSERT INTO stock_movements (product_id, variant_id, movement_type, quantity, quantity_after, reason, user_id, user_email)
+SELECT product_id, id, 'adjustment', quantity_in_stock, quantity_in_stock, 'Opening balance', NULL, NULL
+FROM product_variants
+WHERE quantity_in_stock <> 0;
+
+-- Reject edits to recorded movements
+CREATE OR REPLACE FUNCTION prevent_stock_movement_changes()
+RETURNS trigger AS $$
+BEGIN
+  RAISE EXCEPTION 'Stock movements cannot be changed; record a correcting movement instead';
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER stock_movements_append_only
+  BEFORE UPDATE OR DELETE ON stock_movements
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_stock_movement_changes();
+
+-- Stock changes no longer bypass the ledger
+DROP FUNCTION IF EXISTS adjust_product_stock(uuid, uuid, integer);
+
+-- Create function to change stock and record the movement together
+CREATE OR REPLACE FUNCTION record_stock_movement(
+  p_product_id uuid,
+  p_variant_id uuid,
+  p_delta integer,
+  p_movement_type text,
+  p_reason text DEFAULT NULL,
+  p_reference text DEFAULT NULL
+)
+RETURNS stock_movements AS $$
+DECLARE
+  v_quantity_after integer;
+  v_movement stock_movements;
+BEGIN
+  -- Lets log_untracked_stock_change know this change is already being recorded
+  PERFORM set_config('app.recording_stock_movement', 'on', true);
+
+  IF p_variant_id IS NOT NULL THEN
+    UPDATE product_variants
+    SET quantity_in_stock = quantity_in_stock + p_delta
+    WHERE id = p_variant_id
+    RETURNING quantity_in_stock INTO v_quantity_after;
+  ELSE
+    UPDATE products
+    SET quantity_in_stock = quantity_in_stock + p_delta
+    WHERE id = p_product_id
+    RETURNING quantity_in_stock INTO v_quantity_after;
+  END IF;
+
+  PERFORM set_config('app.recording_stock_movement', 'off', true);
+
+  IF v_quantity_after IS NULL THEN
+    RAISE EXCEPTION 'Product % not found', COALESCE(p_variant_id, p_product_id);
+  END IF;
+
+  INSERT INTO stock_movements (product_id, variant_id, movement_type, quantity, quantity_after, reason, reference)
+  VALUES (p_product_id, p_variant_id, p_movement_type, p_delta, v_quantity_after, p_reason, p_reference)
+  RETURNING * INTO v_movement;
+
+  RETURN v_movement;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Record stock changes that bypass record_stock_movement
+CREATE OR REPLACE FUNCTION log_untracked_stock_change()
+RETURNS trigger AS $$
+DECLARE
+  v_delta integer;
+BEGIN
+  IF current_setting('app.recording_stock_movement', true) = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    v_delta := COALESCE(NEW.quantity_in_stock, 0);
+  ELSE
+    v_delta := COALESCE(NEW.quantity_in_stock, 0) - COALESCE(OLD.quantity_in_stock, 0);
+  END IF;
+
+  IF v_delta = 0 THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO stock_movements (product_id, variant_id, movement_type, quantity, quantity_after, reason)
+  VALUES (
+    CASE WHEN TG_TABLE_NAME = 'product_variants' THEN NEW.product_id ELSE NEW.id END,
+    CASE WHEN TG_TABLE_NAME = 'product_variants' THEN NEW.id ELSE NULL END,
+    'adjustment',
+    v_delta,
+    NEW.quantity_in_stock,
+    CASE WHEN TG_OP = 'INSERT' THEN 'Opening stock' ELSE 'Direct stock edit' END
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER products_stock_ledger
+  AFTER INSERT OR UPDATE OF quantity_in_stock ON products
+  FOR EACH ROW
+  EXECUTE FUNCTION log_untracked_stock_change();
+
+CREATE TRIGGER product_variants_stock_ledger
+  AFTER INSERT OR UPDATE OF quantity_in_stock ON product_variants
+  FOR EACH ROW
+  EXECUTE FUNCTION log_untracked_stock_change();
+
+-- On-hand quantities that disagree with the ledger
+CREATE OR REPLACE VIEW stock_ledger_discrepancies AS
+SELECT
+  p.id AS product_id,
+  NULL::uuid AS variant_id,
+  p.quantity_in_stock AS on_hand,
+  COALESCE(SUM(m.quantity), 0)::integer AS ledger_quantity
+FROM products p
+LEFT JOIN stock_movements m ON m.product_id = p.id AND m.variant_id IS NULL
+GROUP BY p.id, p.quantity_in_stock
+HAVING p.quantity_in_stock <> COALESCE(SUM(m.quantity), 0)
+UNION ALL
+SELECT
+  v.product_id,
+  v.id AS variant_id,
+  v.quantity_in_stock AS on_hand,
+  COALESCE(SUM(m.quantity), 0)::integer AS ledger_quantity
+FROM product_variants v
+LEFT JOIN stock_movements m ON m.variant_id = v.id
+GROUP BY v.id, v.product_id, v.quantity_in_stock
+HAVING v.quantity_in_stock <> COALESCE(SUM(m.quantity), 0);
+
+-- Enable Row Level Security
+ALTER TABLE stock_movements ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for stock movements; there are deliberately no update or delete policies
+CREATE POLICY "Stock movements are viewable by everyone"
+  ON stock_movements
+  FOR SELECT
+  USING (true);
+
+CREATE POLICY "Authenticated users can record stock movements"
+  ON stock_movements
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (true);
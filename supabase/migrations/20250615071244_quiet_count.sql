@@ -0,0 +1,59 @@
+/*
+  # Add stocktakes
+
+  1. New Tables
+    - `stocktakes`
+      - `id` (uuid, primary key)
+      - `session_number` (text, unique, generated on the client so offline counts can be upserted)
+      - `name` (text)
+      - `scope` (text: all, category)
+      - `category_id` (uuid, references categories, optional) and `category_name` (text snapshot)
+      - `status` (text: counting, posted, cancelled)
+      - `lines` (jsonb, expected quantity snapshot, counted quantity, unit cost and approval per line)
+      - `notes` (text, optional)
+      - `posted_at` (timestamp)
+      - `created_at`, `updated_at` (timestamps)
+
+  2. Notes
+    - Posting a stocktake records approved variances as `count_correction` movements in
+      `stock_movements`, referenced by the session number
+
+  3. Security
+    - Enable RLS on stocktakes
+    - Add policies for public read and authenticated management
+*/
+
+CREATE TABLE IF NOT EXISTS stocktakes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  session_number text UNIQUE NOT NULL,
+  name text NOT NULL DEFAULT '',
+  scope text NOT NULL DEFAULT 'all' CHECK (scope IN ('all', 'category')),
+  category_id uuid REFERENCES categories(id) ON DELETE SET NULL,
+  category_name text,
+  status text NOT NULL DEFAULT 'counting' CHECK (status IN ('counting', 'posted', 'cancelled')),
+  lines jsonb NOT NULL DEFAULT '[]'::jsonb,
+  notes text,
+  posted_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_stocktakes_status ON stocktakes(status);
+CREATE INDEX IF NOT EXISTS idx_stocktakes_created_at ON stocktakes(created_at);
+
+-- Enable Row Level Security
+ALTER TABLE stocktakes ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for stocktakes
+CREATE POLICY "Stocktakes are viewable by everyone"
+  ON stocktakes
+  FOR SELECT
+  USING (true);
+
+CREATE POLICY "Authenticated users can manage stocktakes"
+  ON stocktakes
+  FOR ALL
+  TO authenticated
+  USING (true)
+  WITH CHECK (true);
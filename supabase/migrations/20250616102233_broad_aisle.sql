@@ -0,0 +1,297 @@
+/*
+  # Add stock locations and transfers
+
+  1. New Tables
+    - `locations`
+      - `id` (uuid, primary key)
+      - `name` (text, unique)
+      - `code` (text, optional short label, e.g. SHOP or BACK)
+      - `address` (text, optional)
+      - `is_default` (boolean, exactly one location is the default)
+      - `is_active` (boolean)
+      - `created_at`, `updated_at` (timestamps)
+    - `location_stock`
+      - `id` (uuid, primary key)
+      - `location_id` (uuid, references locations)
+      - `product_id` (uuid, references products)
+      - `variant_id` (uuid, references product_variants, optional)
+      - `quantity` (integer, on hand at this location)
+      - `updated_at` (timestamp)
+    - `stock_transfers`
+      - `id` (uuid, primary key)
+      - `transfer_number` (text, unique, generated on the device so transfers can be created offline)
+      - `from_location_id`, `to_location_id` (uuid, references locations)
+      - `status` (text: draft, in_transit, received, cancelled)
+      - `lines` (jsonb, products and quantities being moved)
+      - `notes` (text, optional)
+      - `sent_at`, `received_at` (timestamps, optional)
+      - `created_at`, `updated_at` (timestamps)
+
+  2. Changes
+    - `stock_movements.location_id` records where each movement happened
+    - `transactions.location_id` records which location a sale or refund came from
+    - `stocktakes.location_id` and `location_name` record which location was counted
+
+  3. Functions
+    - `record_stock_movement` takes an optional `p_location_id` (the default location when omitted)
+      and keeps `location_stock` in step with the product and variant totals
+    - `log_untracked_stock_change` books direct stock edits against the default location
+
+  4. Notes
+    - `products.quantity_in_stock` and `product_variants.quantity_in_stock` stay the total across
+      locations, so existing screens and reports keep working
+    - Existing stock is placed in a new default location, "Main store"
+    - Sending a transfer removes stock from the source location; receiving adds it at the
+      destination, so goods in transit are not counted as on hand anywhere
+
+  5. Security
+    - Enable RLS on all new tables
+    - Add policies for public read and authenticated write access
+*/
+
+CREATE TABLE IF NOT EXISTS locations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text UNIQUE NOT NULL,
+  code text,
+  address text,
+  is_default boolean DEFAULT false,
+  is_active boolean DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_locations_single_default ON locations(is_default) WHERE is_default;
+
+INSERT INTO locations (name, code, is_default)
+VALUES ('Main store', 'MAIN', true)
+ON CONFLICT (name) DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS location_stock (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  location_id uuid NOT NULL REFERENCES locations(id) ON DELETE RESTRICT,
+  product_id uuid NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  variant_id uuid REFERENCES product_variants(id) ON DELETE CASCADE,
+  quantity integer NOT NULL DEFAULT 0,
+  updated_at timestamptz DEFAULT now()
+);
+
+-- One row per location and holding; product-level stock has no variant
+CREATE UNIQUE INDEX IF NOT EXISTS idx_location_stock_holding
+  ON location_stock(location_id, product_id, (COALESCE(variant_id, '00000000-0000-0000-0000-000000000000'::uuid)));
+CREATE INDEX IF NOT EXISTS idx_location_stock_product_id ON location_stock(product_id);
+CREATE INDEX IF NOT EXISTS idx_location_stock_variant_id ON location_stock(variant_id);
+
+-- Carry existing stock over into the default location
+INSERT INTO location_stock (location_id, product_id, variant_id, quantity)
+SELECT l.id, p.id, NULL, p.quantity_in_stock
+FROM products p
+CROSS JOIN locations l
+WHERE l.is_default AND p.quantity_in_stock <> 0;
+
+INSERT INTO location_stock (location_id, product_id, variant_id, quantity)
+SELECT l.id, v.product_id, v.id, v.quantity_in_stock
+FROM product_variants v
+CROSS JOIN locations l
+WHERE l.is_default AND v.quantity_in_stock <> 0;
+
+ALTER TABLE stock_movements ADD COLUMN IF NOT EXISTS location_id uuid REFERENCES locations(id);
+CREATE INDEX IF NOT EXISTS idx_stock_movements_location_id ON stock_movements(location_id);
+
+-- Earlier movements all happened in the one store; the ledger is append-only, so lift the guard for the backfill
+ALTER TABLE stock_movements DISABLE TRIGGER stock_movements_append_only;
+UPDATE stock_movements SET location_id = (SELECT id FROM locations WHERE is_default) WHERE location_id IS NULL;
+ALTER TABLE stock_movements ENABLE TRIGGER stock_movements_append_only;
+
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS location_id uuid REFERENCES locations(id);
+
+ALTER TABLE stocktakes ADD COLUMN IF NOT EXISTS location_id uuid REFERENCES locations(id);
+ALTER TABLE stocktakes ADD COLUMN IF NOT EXISTS location_name text;
+
+CREATE TABLE IF NOT EXISTS stock_transfers (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  transfer_number text UNIQUE NOT NULL,
+  from_location_id uuid NOT NULL REFERENCES locations(id) ON DELETE RESTRICT,
+  to_location_id uuid NOT NULL REFERENCES locations(id) ON DELETE RESTRICT,
+  status text NOT NULL DEFAULT 'draft'
+    CHECK (status IN ('draft', 'in_transit', 'received', 'cancelled')),
+  lines jsonb NOT NULL DEFAULT '[]'::jsonb,
+  notes text,
+  sent_at timestamptz,
+  received_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CHECK (from_location_id <> to_location_id)
+);
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_stock_transfers_status ON stock_transfers(status);
+CREATE INDEX IF NOT EXISTS idx_stock_transfers_from_location_id ON stock_transfers(from_location_id);
+CREATE INDEX IF NOT EXISTS idx_stock_transfers_to_location_id ON stock_transfers(to_location_id);
+CREATE INDEX IF NOT EXISTS idx_stock_transfers_created_at ON stock_transfers(created_at);
+
+-- Add or remove stock at one location
+CREATE OR REPLACE FUNCTION apply_location_stock(
+  p_location_id uuid,
+  p_product_id uuid,
+  p_variant_id uuid,
+  p_delta integer
+)
+RETURNS void AS $$
+BEGIN
+  INSERT INTO location_stock (location_id, product_id, variant_id, quantity)
+  VALUES (p_location_id, p_product_id, p_variant_id, p_delta)
+  ON CONFLICT (location_id, product_id, (COALESCE(variant_id, '00000000-0000-0000-0000-000000000000'::uuid)))
+  DO UPDATE SET quantity = location_stock.quantity + EXCLUDED.quantity, updated_at = now();
+END;
+$$ LANGUAGE plpgsql;
+
+-- The location argument changes the signature, so replace the old function outright
+DROP FUNCTION IF EXISTS record_stock_movement(uuid, uuid, integer, text, text, text);
+
+CREATE OR REPLACE FUNCTION record_stock_movement(
+  p_product_id uuid,
+  p_variant_id uuid,
+  p_delta integer,
+  p_movement_type text,
+  p_reason text DEFAULT NULL,
+  p_reference text DEFAULT NULL,
+  p_location_id uuid DEFAULT NULL
+)
+RETURNS stock_movements AS $$
+DECLARE
+  v_location_id uuid;
+  v_quantity_after integer;
+  v_movement stock_movements;
+BEGIN
+  v_location_id := COALESCE(p_location_id, (SELECT id FROM locations WHERE is_default));
+
+  IF v_location_id IS NULL THEN
+    RAISE EXCEPTION 'No stock location given and no default location is set';
+  END IF;
+
+  -- Lets log_untracked_stock_change know this change is already being recorded
+  PERFORM set_config('app.recording_stock_movement', 'on', true);
+
+  IF p_variant_id IS NOT NULL THEN
+    UPDATE product_variants
+    SET quantity_in_stock = quantity_in_stock + p_delta
+    WHERE id = p_variant_id
+    RETURNING quantity_in_stock INTO v_quantity_after;
+  ELSE
+    UPDATE products
+    SET quantity_in_stock = quantity_in_stock + p_delta
+    WHERE id = p_product_id
+    RETURNING quantity_in_stock INTO v_quantity_after;
+  END IF;
+
+  PERFORM set_config('app.recording_stock_movement', 'off', true);
+
+  IF v_quantity_after IS NULL THEN
+    RAISE EXCEPTION 'Product % not found', COALESCE(p_variant_id, p_product_id);
+  END IF;
+
+  PERFORM apply_location_stock(v_location_id, p_product_id, p_variant_id, p_delta);
+
+  INSERT INTO stock_movements (product_id, variant_id, movement_type, quantity, quantity_after, reason, reference, location_id)
+  VALUES (p_product_id, p_variant_id, p_movement_type, p_delta, v_quantity_after, p_reason, p_reference, v_location_id)
+  RETURNING * INTO v_movement;
+
+  RETURN v_movement;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Record stock changes that bypass record_stock_movement against the default location
+CREATE OR REPLACE FUNCTION log_untracked_stock_change()
+RETURNS trigger AS $$
+DECLARE
+  v_delta integer;
+  v_location_id uuid;
+  v_product_id uuid;
+  v_variant_id uuid;
+BEGIN
+  IF current_setting('app.recording_stock_movement', true) = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    v_delta := COALESCE(NEW.quantity_in_stock, 0);
+  ELSE
+    v_delta := COALESCE(NEW.quantity_in_stock, 0) - COALESCE(OLD.quantity_in_stock, 0);
+  END IF;
+
+  IF v_delta = 0 THEN
+    RETURN NEW;
+  END IF;
+
+  v_product_id := CASE WHEN TG_TABLE_NAME = 'product_variants' THEN NEW.product_id ELSE NEW.id END;
+  v_variant_id := CASE WHEN TG_TABLE_NAME = 'product_variants' THEN NEW.id ELSE NULL END;
+  SELECT id INTO v_location_id FROM locations WHERE is_default;
+
+  IF v_location_id IS NOT NULL THEN
+    PERFORM apply_location_stock(v_location_id, v_product_id, v_variant_id, v_delta);
+  END IF;
+
+  INSERT INTO stock_movements (product_id, variant_id, movement_type, quantity, quantity_after, reason, location_id)
+  VALUES (
+    v_product_id,
+    v_variant_id,
+    'adjustment',
+    v_delta,
+    NEW.quantity_in_stock,
+    CASE WHEN TG_OP = 'INSERT' THEN 'Opening stock' ELSE 'Direct stock edit' END,
+    v_location_id
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Create trigger for updated_at; transfers keep the device's timestamp so offline edits merge
+CREATE TRIGGER update_locations_updated_at
+  BEFORE UPDATE ON locations
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Enable Row Level Security
+ALTER TABLE locations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE location_stock ENABLE ROW LEVEL SECURITY;
+ALTER TABLE stock_transfers ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for locations
+CREATE POLICY "Locations are viewable by everyone"
+  ON locations
+  FOR SELECT
+  USING (true);
+
+CREATE POLICY "Authenticated users can manage locations"
+  ON locations
+  FOR ALL
+  TO authenticated
+  USING (true)
+  WITH CHECK (true);
+
+-- Create policies for location stock; rows are written by record_stock_movement
+CREATE POLICY "Location stock is viewable by everyone"
+  ON location_stock
+  FOR SELECT
+  USING (true);
+
+CREATE POLICY "Authenticated users can update location stock"
+  ON location_stock
+  FOR ALL
+  TO authenticated
+  USING (true)
+  WITH CHECK (true);
+
+-- Create policies for stock transfers
+CREATE POLICY "Stock transfers are viewable by everyone"
+  ON stock_transfers
+  FOR SELECT
+  USING (true);
+
+CREATE POLICY "Authenticated users can manage stock transfers"
+  ON stock_transfers
+  FOR ALL
+  TO authenticated
+  USING (true)
+  WITH CHECK (true);
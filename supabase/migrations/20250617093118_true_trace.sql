@@ -0,0 +1,167 @@
+/*
+  # Add serial number and IMEI tracking
+
+  1. Changes
+    - `products.is_serialized` (boolean, default false): each unit carries its own serial/IMEI
+    - `products.warranty_months` (integer, default 0): warranty granted from the sale date
+    - `transaction_items.serial_number` (text): the unit sold or returned on that line
+
+  2. New Tables
+    - `product_serials`
+      - `id` (uuid, primary key)
+      - `serial_number` (text, unique, stored trimmed and upper-cased)
+      - `product_id` (uuid, references products) and `variant_id` (uuid, references product_variants, optional)
+      - `status` (text: in_stock, sold, returned)
+      - `po_number` (text), `supplier_id` (uuid, references suppliers), `unit_cost` (decimal)
+        and `received_at` (timestamp) describing where the unit came from
+      - `transaction_number` (text), `customer_id` (uuid, references customers), `sold_at` and
+        `warranty_expires_at` (timestamps) describing the latest sale
+      - `created_at`, `updated_at` (timestamps)
+
+  3. Functions
+    - `populate_transaction_items()` now copies each cart line's `serial_number`
+    - `track_sold_serials()` marks units sold on a sale and back in stock (or returned, when
+      the refund does not restock) on a refund. Sales synced from offline tills may carry
+      serials that were never registered; those are recorded as sold rather than rejected.
+
+  4. Security
+    - Enable RLS on product_serials
+    - Add policies for public read and authenticated management
+*/
+
+ALTER TABLE products
+  ADD COLUMN IF NOT EXISTS is_serialized boolean NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS warranty_months integer NOT NULL DEFAULT 0 CHECK (warranty_months >= 0);
+
+ALTER TABLE transaction_items
+  ADD COLUMN IF NOT EXISTS serial_number text;
+
+CREATE INDEX IF NOT EXISTS idx_transaction_items_serial_number ON transaction_items(serial_number);
+
+CREATE TABLE IF NOT EXISTS product_serials (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  serial_number text UNIQUE NOT NULL,
+  product_id uuid NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  variant_id uuid REFERENCES product_variants(id) ON DELETE SET NULL,
+  status text NOT NULL DEFAULT 'in_stock' CHECK (status IN ('in_stock', 'sold', 'returned')),
+  po_number text,
+  supplier_id uuid REFERENCES suppliers(id) ON DELETE SET NULL,
+  unit_cost decimal(10,2),
+  received_at timestamptz DEFAULT now(),
+  transaction_number text,
+  customer_id uuid REFERENCES customers(id) ON DELETE SET NULL,
+  sold_at timestamptz,
+  warranty_expires_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_product_serials_product_id ON product_serials(product_id);
+CREATE INDEX IF NOT EXISTS idx_product_serials_status ON product_serials(status);
+CREATE INDEX IF NOT EXISTS idx_product_serials_transaction_number ON product_serials(transaction_number);
+
+ALTER TABLE product_serials ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Product serials are viewable by everyone"
+  ON product_serials
+  FOR SELECT
+  USING (true);
+
+CREATE POLICY "Authenticated users can manage product serials"
+  ON product_serials
+  FOR ALL
+  TO authenticated
+  USING (true)
+  WITH CHECK (true);
+
+CREATE TRIGGER update_product_serials_updated_at
+  BEFORE UPDATE ON product_serials
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE OR REPLACE FUNCTION populate_transaction_items()
+RETURNS TRIGGER AS $$
+DECLARE
+  item jsonb;
+BEGIN
+  -- Clear existing items for this transaction
+  DELETE FROM transaction_items WHERE transaction_id = NEW.id;
+
+  -- Insert new items from jsonb
+  FOR item IN SELECT * FROM jsonb_array_elements(NEW.items)
+  LOOP
+    INSERT INTO transaction_items (
+      transaction_id,
+      product_id,
+      variant_id,
+      quantity,
+      unit_price,
+      discount_amount,
+      total_price,
+      serial_number
+    ) VALUES (
+      NEW.id,
+      (item->>'product_id')::uuid,
+      CASE WHEN item->>'variant_id' != '' THEN (item->>'variant_id')::uuid ELSE NULL END,
+      (item->>'quantity')::integer,
+      (item->>'price')::decimal,
+      (item->>'discount_amount')::decimal,
+      (item->>'subtotal')::decimal,
+      NULLIF(item->>'serial_number', '')
+    );
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION track_sold_serials()
+RETURNS TRIGGER AS $$
+DECLARE
+  item jsonb;
+  v_serial text;
+  v_warranty integer;
+BEGIN
+  FOR item IN SELECT * FROM jsonb_array_elements(NEW.items)
+  LOOP
+    v_serial := upper(trim(COALESCE(item->>'serial_number', '')));
+    CONTINUE WHEN v_serial = '';
+
+    IF NEW.transaction_type = 'refund' THEN
+      UPDATE product_serials
+      SET status = CASE WHEN COALESCE((item->>'restock')::boolean, false) THEN 'in_stock' ELSE 'returned' END
+      WHERE serial_number = v_serial;
+    ELSE
+      SELECT warranty_months INTO v_warranty FROM products WHERE id = (item->>'product_id')::uuid;
+
+      INSERT INTO product_serials (
+        serial_number, product_id, variant_id, status, received_at,
+        transaction_number, customer_id, sold_at, warranty_expires_at
+      ) VALUES (
+        v_serial,
+        (item->>'product_id')::uuid,
+        CASE WHEN item->>'variant_id' != '' THEN (item->>'variant_id')::uuid ELSE NULL END,
+        'sold',
+        NULL,
+        NEW.transaction_number,
+        NEW.customer_id,
+        NEW.created_at,
+        CASE WHEN COALESCE(v_warranty, 0) > 0 THEN NEW.created_at + make_interval(months => v_warranty) END
+      )
+      ON CONFLICT (serial_number) DO UPDATE SET
+        status = 'sold',
+        transaction_number = EXCLUDED.transaction_number,
+        customer_id = EXCLUDED.customer_id,
+        sold_at = EXCLUDED.sold_at,
+        warranty_expires_at = EXCLUDED.warranty_expires_at;
+    END IF;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER track_sold_serials_trigger
+  AFTER INSERT ON transactions
+  FOR EACH ROW
+  EXECUTE FUNCTION track_sold_serials();
@@ -0,0 +1,186 @@
+/*
+  # Add lot/batch and expiry tracking
+
+  1. Changes
+    - `products.track_lots` (boolean, default false): stock is received and sold by lot
+    - `transaction_items.lot_number` (text) and `transaction_items.expiry_date` (date): the lot
+      sold or returned on that line
+
+  2. New Tables
+    - `product_lots`
+      - `id` (uuid, primary key)
+      - `product_id` (uuid, references products) and `variant_id` (uuid, references product_variants, optional)
+      - `lot_number` (text, stored trimmed and upper-cased, unique per product and variant)
+      - `expiry_date` (date, optional)
+      - `quantity` (integer): units of the lot still on hand
+      - `po_number` (text), `supplier_id` (uuid, references suppliers) and `received_at` (timestamp)
+        describing the first delivery of the lot
+      - `created_at`, `updated_at` (timestamps)
+
+  3. Functions
+    - `receive_product_lot` adds delivered units to a lot, creating it on first delivery
+    - `populate_transaction_items()` now copies each cart line's `lot_number` and `expiry_date`
+    - `track_lot_sales()` takes sold units off their lot and puts restocked refunds back. Lot
+      quantities never drop below zero, so offline sales of an already empty lot still sync.
+
+  4. Security
+    - Enable RLS on product_lots
+    - Add policies for public read and authenticated management
+*/
+
+ALTER TABLE products
+  ADD COLUMN IF NOT EXISTS track_lots boolean NOT NULL DEFAULT false;
+
+ALTER TABLE transaction_items
+  ADD COLUMN IF NOT EXISTS lot_number text,
+  ADD COLUMN IF NOT EXISTS expiry_date date;
+
+CREATE TABLE IF NOT EXISTS product_lots (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id uuid NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  variant_id uuid REFERENCES product_variants(id) ON DELETE CASCADE,
+  lot_number text NOT NULL,
+  expiry_date date,
+  quantity integer NOT NULL DEFAULT 0 CHECK (quantity >= 0),
+  po_number text,
+  supplier_id uuid REFERENCES suppliers(id) ON DELETE SET NULL,
+  received_at timestamptz DEFAULT now(),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+-- Variant is optional, so uniqueness treats a missing variant as its own value
+CREATE UNIQUE INDEX IF NOT EXISTS idx_product_lots_unique_lot
+  ON product_lots(product_id, COALESCE(variant_id, '00000000-0000-0000-0000-000000000000'::uuid), lot_number);
+CREATE INDEX IF NOT EXISTS idx_product_lots_expiry_date ON product_lots(expiry_date);
+
+ALTER TABLE product_lots ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Product lots are viewable by everyone"
+  ON product_lots
+  FOR SELECT
+  USING (true);
+
+CREATE POLICY "Authenticated users can manage product lots"
+  ON product_lots
+  FOR ALL
+  TO authenticated
+  USING (true)
+  WITH CHECK (true);
+
+CREATE TRIGGER update_product_lots_updated_at
+  BEFORE UPDATE ON product_lots
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE OR REPLACE FUNCTION receive_product_lot(
+  p_product_id uuid,
+  p_variant_id uuid,
+  p_lot_number text,
+  p_expiry_date date,
+  p_quantity integer,
+  p_po_number text DEFAULT NULL,
+  p_supplier_id uuid DEFAULT NULL
+)
+RETURNS product_lots AS $$
+DECLARE
+  v_lot product_lots;
+  v_lot_number text := upper(trim(p_lot_number));
+BEGIN
+  IF v_lot_number = '' THEN
+    RAISE EXCEPTION 'Lot number is required';
+  END IF;
+
+  UPDATE product_lots
+  SET quantity = quantity + p_quantity,
+      expiry_date = COALESCE(p_expiry_date, expiry_date)
+  WHERE product_id = p_product_id
+    AND variant_id IS NOT DISTINCT FROM p_variant_id
+    AND lot_number = v_lot_number
+  RETURNING * INTO v_lot;
+
+  IF NOT FOUND THEN
+    INSERT INTO product_lots (product_id, variant_id, lot_number, expiry_date, quantity, po_number, supplier_id)
+    VALUES (p_product_id, p_variant_id, v_lot_number, p_expiry_date, GREATEST(p_quantity, 0), p_po_number, p_supplier_id)
+    RETURNING * INTO v_lot;
+  END IF;
+
+  RETURN v_lot;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION populate_transaction_items()
+RETURNS TRIGGER AS $$
+DECLARE
+  item jsonb;
+BEGIN
+  -- Clear existing items for this transaction
+  DELETE FROM transaction_items WHERE transaction_id = NEW.id;
+
+  -- Insert new items from jsonb
+  FOR item IN SELECT * FROM jsonb_array_elements(NEW.items)
+  LOOP
+    INSERT INTO transaction_items (
+      transaction_id,
+      product_id,
+      variant_id,
+      quantity,
+      unit_price,
+      discount_amount,
+      total_price,
+      serial_number,
+      lot_number,
+      expiry_date
+    ) VALUES (
+      NEW.id,
+      (item->>'product_id')::uuid,
+      CASE WHEN item->>'variant_id' != '' THEN (item->>'variant_id')::uuid ELSE NULL END,
+      (item->>'quantity')::integer,
+      (item->>'price')::decimal,
+      (item->>'discount_amount')::decimal,
+      (item->>'subtotal')::decimal,
+      NULLIF(item->>'serial_number', ''),
+      NULLIF(item->>'lot_number', ''),
+      NULLIF(item->>'expiry_date', '')::date
+    );
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION track_lot_sales()
+RETURNS TRIGGER AS $$
+DECLARE
+  item jsonb;
+  v_lot text;
+  v_quantity integer;
+BEGIN
+  FOR item IN SELECT * FROM jsonb_array_elements(NEW.items)
+  LOOP
+    v_lot := upper(trim(COALESCE(item->>'lot_number', '')));
+    CONTINUE WHEN v_lot = '';
+
+    -- Refund lines carry negative quantities
+    IF NEW.transaction_type = 'refund' THEN
+      CONTINUE WHEN NOT COALESCE((item->>'restock')::boolean, false);
+      v_quantity := abs((item->>'quantity')::integer);
+    ELSE
+      v_quantity := -abs((item->>'quantity')::integer);
+    END IF;
+
+    UPDATE product_lots
+    SET quantity = GREATEST(quantity + v_quantity, 0)
+    WHERE product_id = (item->>'product_id')::uuid
+      AND variant_id IS NOT DISTINCT FROM (CASE WHEN item->>'variant_id' != '' THEN (item->>'variant_id')::uuid ELSE NULL END)
+      AND lot_number = v_lot;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER track_lot_sales_trigger
+  AFTER INSERT ON transactions
+  FOR EACH ROW
+  EXECUTE FUNCTION track_lot_sales();
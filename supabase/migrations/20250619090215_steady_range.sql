@@ -0,0 +1,92 @@
+/*
+  # Sequential barcode numbering
+
+  1. New Tables
+    - `barcode_sequences`
+      - `prefix` (text, primary key): GS1 company prefix or in-store 2xx prefix
+      - `last_value` (bigint): last item number handed out under the prefix
+      - `updated_at` (timestamp)
+
+  2. Functions
+    - `generate_barcode(p_prefix)` replaces the random `generate_barcode()`. It counts up from
+      the prefix's last item number and skips numbers already on a product or variant, which
+      covers barcodes devices allocated offline from their own counters.
+
+  3. Security
+    - Enable RLS on barcode_sequences
+    - Add policies for public read and authenticated management
+*/
+
+CREATE TABLE IF NOT EXISTS barcode_sequences (
+  prefix text PRIMARY KEY CHECK (prefix ~ '^[0-9]{3,11}$'),
+  last_value bigint NOT NULL DEFAULT 0,
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE barcode_sequences ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Barcode sequences are viewable by everyone"
+  ON barcode_sequences
+  FOR SELECT
+  USING (true);
+
+CREATE POLICY "Authenticated users can manage barcode sequences"
+  ON barcode_sequences
+  FOR ALL
+  TO authenticated
+  USING (true)
+  WITH CHECK (true);
+
+CREATE TRIGGER update_barcode_sequences_updated_at
+  BEFORE UPDATE ON barcode_sequences
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+DROP FUNCTION IF EXISTS generate_barcode();
+
+CREATE OR REPLACE FUNCTION generate_barcode(p_prefix text DEFAULT '200')
+RETURNS text AS $$
+DECLARE
+  v_digits integer := 12 - length(p_prefix);
+  v_next bigint;
+  v_base text;
+  v_sum integer;
+  v_barcode text;
+  i integer;
+BEGIN
+  IF p_prefix !~ '^[0-9]{3,11}$' THEN
+    RAISE EXCEPTION 'Invalid barcode prefix: %', p_prefix;
+  END IF;
+
+  INSERT INTO barcode_sequences (prefix)
+  VALUES (p_prefix)
+  ON CONFLICT (prefix) DO NOTHING;
+
+  LOOP
+    -- The row lock taken here keeps two tills from being handed the same number
+    UPDATE barcode_sequences
+    SET last_value = last_value + 1
+    WHERE prefix = p_prefix
+    RETURNING last_value INTO v_next;
+
+    IF v_next >= 10::bigint ^ v_digits THEN
+      RAISE EXCEPTION 'Barcode range for prefix % is full', p_prefix;
+    END IF;
+
+    v_base := p_prefix || lpad(v_next::text, v_digits, '0');
+    v_sum := 0;
+    FOR i IN 1..12 LOOP
+      v_sum := v_sum + substring(v_base, i, 1)::integer * CASE WHEN i % 2 = 0 THEN 3 ELSE 1 END;
+    END LOOP;
+    v_barcode := v_base || ((10 - v_sum % 10) % 10)::text;
+
+    IF NOT EXISTS (
+      SELECT 1 FROM products WHERE barcode = v_barcode
+      UNION ALL
+      SELECT 1 FROM product_variants WHERE barcode = v_barcode
+    ) THEN
+      RETURN v_barcode;
+    END IF;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql;
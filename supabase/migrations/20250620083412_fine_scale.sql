@@ -0,0 +1,273 @@
+/*
+  # Sell products by weight and length
+
+  1. Changes
+    - `products.unit_of_measure` (text: each, kg, g, lb, m, ft; defaults to each)
+    - `products.plu` (text, optional 5-digit code printed in scale labels, unique)
+    - Stock quantities become `numeric(12,3)` so weighed and cut-to-length items can be sold in
+      fractions:
+      - `products.quantity_in_stock`, `product_variants.quantity_in_stock`
+      - `transaction_items.quantity`
+      - `stock_movements.quantity`, `stock_movements.quantity_after`
+      - `location_stock.quantity`
+
+  2. Functions
+    - `apply_location_stock` and `record_stock_movement` take a numeric delta
+    - `log_untracked_stock_change` and `populate_transaction_items` keep fractional quantities
+
+  3. Notes
+    - `product_analytics`, `supplier_analytics` and `stock_ledger_discrepancies` read the altered
+      columns, so they are dropped and recreated unchanged apart from the ledger quantity type
+    - Serial and lot tracking stay in whole units; the app only offers them for products sold each
+*/
+
+ALTER TABLE products ADD COLUMN IF NOT EXISTS unit_of_measure text NOT NULL DEFAULT 'each'
+  CHECK (unit_of_measure IN ('each', 'kg', 'g', 'lb', 'm', 'ft'));
+ALTER TABLE products ADD COLUMN IF NOT EXISTS plu text CHECK (plu ~ '^[0-9]{5}$');
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_products_plu ON products(plu) WHERE plu IS NOT NULL;
+
+DROP VIEW IF EXISTS product_analytics;
+DROP VIEW IF EXISTS supplier_analytics;
+DROP VIEW IF EXISTS stock_ledger_discrepancies;
+
+ALTER TABLE products ALTER COLUMN quantity_in_stock TYPE numeric(12,3);
+ALTER TABLE product_variants ALTER COLUMN quantity_in_stock TYPE numeric(12,3);
+ALTER TABLE transaction_items ALTER COLUMN quantity TYPE numeric(12,3);
+ALTER TABLE stock_movements ALTER COLUMN quantity TYPE numeric(12,3);
+ALTER TABLE stock_movements ALTER COLUMN quantity_after TYPE numeric(12,3);
+ALTER TABLE location_stock ALTER COLUMN quantity TYPE numeric(12,3);
+
+-- Create view for product analytics
+CREATE OR REPLACE VIEW product_analytics AS
+SELECT
+  p.id,
+  p.sku,
+  p.name,
+  p.category_id,
+  c.name as category_name,
+  p.supplier_id,
+  s.name as supplier_name,
+  p.cost_price,
+  p.selling_price,
+  p.quantity_in_stock,
+  p.min_stock_level,
+  (p.selling_price - p.cost_price) as profit_per_unit,
+  ((p.selling_price - p.cost_price) / p.selling_price * 100) as profit_margin_percentage,
+  (p.quantity_in_stock * p.cost_price) as inventory_value,
+  CASE
+    WHEN p.quantity_in_stock = 0 THEN 'out_of_stock'
+    WHEN p.quantity_in_stock <= p.min_stock_level THEN 'low_stock'
+    ELSE 'in_stock'
+  END as stock_status,
+  p.created_at,
+  p.updated_at
+FROM products p
+LEFT JOIN categories c ON p.category_id = c.id
+LEFT JOIN suppliers s ON p.supplier_id = s.id
+WHERE p.is_active = true;
+
+-- Create view for supplier analytics
+CREATE OR REPLACE VIEW supplier_analytics AS
+SELECT
+  s.id,
+  s.name,
+  s.contact_person,
+  s.email,
+  s.phone,
+  s.rating,
+  s.lead_time_days,
+  s.minimum_order_amount,
+  s.discount_percentage,
+  COUNT(p.id) as total_products,
+  SUM(p.quantity_in_stock * p.cost_price) as total_inventory_value,
+  AVG(p.cost_price) as avg_product_cost,
+  COUNT(CASE WHEN p.quantity_in_stock <= p.min_stock_level THEN 1 END) as low_stock_products,
+  s.created_at,
+  s.updated_at
+FROM suppliers s
+LEFT JOIN products p ON s.id = p.supplier_id AND p.is_active = true
+WHERE s.is_active = true
+GROUP BY s.id, s.name, s.contact_person, s.email, s.phone, s.rating,
+         s.lead_time_days, s.minimum_order_amount, s.discount_percentage,
+         s.created_at, s.updated_at;
+
+-- On-hand quantities that disagree with the ledger
+CREATE OR REPLACE VIEW stock_ledger_discrepancies AS
+SELECT
+  p.id AS product_id,
+  NULL::uuid AS variant_id,
+  p.quantity_in_stock AS on_hand,
+  COALESCE(SUM(m.quantity), 0)::numeric(12,3) AS ledger_quantity
+FROM products p
+LEFT JOIN stock_movements m ON m.product_id = p.id AND m.variant_id IS NULL
+GROUP BY p.id, p.quantity_in_stock
+HAVING p.quantity_in_stock <> COALESCE(SUM(m.quantity), 0)
+UNION ALL
+SELECT
+  v.product_id,
+  v.id AS variant_id,
+  v.quantity_in_stock AS on_hand,
+  COALESCE(SUM(m.quantity), 0)::numeric(12,3) AS ledger_quantity
+FROM product_variants v
+LEFT JOIN stock_movements m ON m.variant_id = v.id
+GROUP BY v.id, v.product_id, v.quantity_in_stock
+HAVING v.quantity_in_stock <> COALESCE(SUM(m.quantity), 0);
+
+-- The delta type is part of the signature, so replace both functions outright
+DROP FUNCTION IF EXISTS record_stock_movement(uuid, uuid, integer, text, text, text, uuid);
+DROP FUNCTION IF EXISTS apply_location_stock(uuid, uuid, uuid, integer);
+
+-- Add or remove stock at one location
+CREATE OR REPLACE FUNCTION apply_location_stock(
+  p_location_id uuid,
+  p_product_id uuid,
+  p_variant_id uuid,
+  p_delta numeric
+)
+RETURNS void AS $$
+BEGIN
+  INSERT INTO location_stock (location_id, product_id, variant_id, quantity)
+  VALUES (p_location_id, p_product_id, p_variant_id, p_delta)
+  ON CONFLICT (location_id, product_id, (COALESCE(variant_id, '00000000-0000-0000-0000-000000000000'::uuid)))
+  DO UPDATE SET quantity = location_stock.quantity + EXCLUDED.quantity, updated_at = now();
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION record_stock_movement(
+  p_product_id uuid,
+  p_variant_id uuid,
+  p_delta numeric,
+  p_movement_type text,
+  p_reason text DEFAULT NULL,
+  p_reference text DEFAULT NULL,
+  p_location_id uuid DEFAULT NULL
+)
+RETURNS stock_movements AS $$
+DECLARE
+  v_location_id uuid;
+  v_quantity_after numeric;
+  v_movement stock_movements;
+BEGIN
+  v_location_id := COALESCE(p_location_id, (SELECT id FROM locations WHERE is_default));
+
+  IF v_location_id IS NULL THEN
+    RAISE EXCEPTION 'No stock location given and no default location is set';
+  END IF;
+
+  -- Lets log_untracked_stock_change know this change is already being recorded
+  PERFORM set_config('app.recording_stock_movement', 'on', true);
+
+  IF p_variant_id IS NOT NULL THEN
+    UPDATE product_variants
+    SET quantity_in_stock = quantity_in_stock + p_delta
+    WHERE id = p_variant_id
+    RETURNING quantity_in_stock INTO v_quantity_after;
+  ELSE
+    UPDATE products
+    SET quantity_in_stock = quantity_in_stock + p_delta
+    WHERE id = p_product_id
+    RETURNING quantity_in_stock INTO v_quantity_after;
+  END IF;
+
+  PERFORM set_config('app.recording_stock_movement', 'off', true);
+
+  IF v_quantity_after IS NULL THEN
+    RAISE EXCEPTION 'Product % not found', COALESCE(p_variant_id, p_product_id);
+  END IF;
+
+  PERFORM apply_location_stock(v_location_id, p_product_id, p_variant_id, p_delta);
+
+  INSERT INTO stock_movements (product_id, variant_id, movement_type, quantity, quantity_after, reason, reference, location_id)
+  VALUES (p_product_id, p_variant_id, p_movement_type, p_delta, v_quantity_after, p_reason, p_reference, v_location_id)
+  RETURNING * INTO v_movement;
+
+  RETURN v_movement;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Record stock changes that bypass record_stock_movement against the default location
+CREATE OR REPLACE FUNCTION log_untracked_stock_change()
+RETURNS trigger AS $$
+DECLARE
+  v_delta numeric;
+  v_location_id uuid;
+  v_product_id uuid;
+  v_variant_id uuid;
+BEGIN
+  IF current_setting('app.recording_stock_movement', true) = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    v_delta := COALESCE(NEW.quantity_in_stock, 0);
+  ELSE
+    v_delta := COALESCE(NEW.quantity_in_stock, 0) - COALESCE(OLD.quantity_in_stock, 0);
+  END IF;
+
+  IF v_delta = 0 THEN
+    RETURN NEW;
+  END IF;
+
+  v_product_id := CASE WHEN TG_TABLE_NAME = 'product_variants' THEN NEW.product_id ELSE NEW.id END;
+  v_variant_id := CASE WHEN TG_TABLE_NAME = 'product_variants' THEN NEW.id ELSE NULL END;
+  SELECT id INTO v_location_id FROM locations WHERE is_default;
+
+  IF v_location_id IS NOT NULL THEN
+    PERFORM apply_location_stock(v_location_id, v_product_id, v_variant_id, v_delta);
+  END IF;
+
+  INSERT INTO stock_movements (product_id, variant_id, movement_type, quantity, quantity_after, reason, location_id)
+  VALUES (
+    v_product_id,
+    v_variant_id,
+    'adjustment',
+    v_delta,
+    NEW.quantity_in_stock,
+    CASE WHEN TG_OP = 'INSERT' THEN 'Opening stock' ELSE 'Direct stock edit' END,
+    v_location_id
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION populate_transaction_items()
+RETURNS TRIGGER AS $$
+DECLARE
+  item jsonb;
+BEGIN
+  -- Clear existing items for this transaction
+  DELETE FROM transaction_items WHERE transaction_id = NEW.id;
+
+  -- Insert new items from jsonb
+  FOR item IN SELECT * FROM jsonb_array_elements(NEW.items)
+  LOOP
+    INSERT INTO transaction_items (
+      transaction_id,
+      product_id,
+      variant_id,
+      quantity,
+      unit_price,
+      discount_amount,
+      total_price,
+      serial_number,
+      lot_number,
+      expiry_date
+    ) VALUES (
+      NEW.id,
+      (item->>'product_id')::uuid,
+      CASE WHEN item->>'variant_id' != '' THEN (item->>'variant_id')::uuid ELSE NULL END,
+      (item->>'quantity')::numeric,
+      (item->>'price')::decimal,
+      (item->>'discount_amount')::decimal,
+      (item->>'subtotal')::decimal,
+      NULLIF(item->>'serial_number', ''),
+      NULLIF(item->>'lot_number', ''),
+      NULLIF(item->>'expiry_date', '')::date
+    );
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
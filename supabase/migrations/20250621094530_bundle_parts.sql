@@ -0,0 +1,20 @@
+/*
+  # Product kits and bundles
+
+  1. Changes
+    - `products.is_kit` (boolean): the product is sold as a bundle of other products
+    - `products.kit_components` (jsonb): the products or variants in one kit with their quantities,
+      plus each component's name and code as they were when the kit was saved
+
+  2. Notes
+    - A kit holds no stock of its own. The till records stock movements against its components,
+      so availability is worked out from component stock
+    - Sales keep the components on each kit line in `transactions.items`, which the receipt and
+      the bundle components report read
+*/
+
+ALTER TABLE products ADD COLUMN IF NOT EXISTS is_kit boolean NOT NULL DEFAULT false;
+ALTER TABLE products ADD COLUMN IF NOT EXISTS kit_components jsonb NOT NULL DEFAULT '[]'::jsonb
+  CHECK (jsonb_typeof(kit_components) = 'array');
+
+CREATE INDEX IF NOT EXISTS idx_products_is_kit ON products(is_kit) WHERE is_kit;
@@ -0,0 +1,101 @@
+/*
+  # Variant option axes
+
+  1. Changes
+    - `products.variant_options` (jsonb): the option axes variants are generated from, as
+      `[{ "name": "Color", "values": ["Black", "Red"] }, ...]`
+    - `product_variants.attributes` (jsonb): the value on each axis, e.g. `{ "Color": "Red", "Model": "iPhone 15" }`
+    - `product_variants.sku` (text, optional, unique among active variants)
+    - `product_variants.is_active` (boolean): false once a variant with history has been dropped from
+      its product's matrix
+
+  2. Functions
+    - `save_product_variants(p_product_id, p_variants)`: replaces a product's variant list in one go.
+      Rows with an id are updated, rows without one are inserted with their opening stock, and
+      variants left out are deleted, or retired when sales or stock movements refer to them
+
+  3. Notes
+    - `name` and `value` still hold the axis names and values joined with " / " so screens that show
+      a single name/value pair keep working
+    - Stock on existing variants is never changed here; it only moves through stock movements. A
+      variant that still has stock can't be dropped
+*/
+
+ALTER TABLE products ADD COLUMN IF NOT EXISTS variant_options jsonb NOT NULL DEFAULT '[]'::jsonb
+  CHECK (jsonb_typeof(variant_options) = 'array');
+
+ALTER TABLE product_variants ADD COLUMN IF NOT EXISTS attributes jsonb NOT NULL DEFAULT '{}'::jsonb
+  CHECK (jsonb_typeof(attributes) = 'object');
+ALTER TABLE product_variants ADD COLUMN IF NOT EXISTS sku text;
+ALTER TABLE product_variants ADD COLUMN IF NOT EXISTS is_active boolean NOT NULL DEFAULT true;
+
+-- Variants saved as a single name/value pair become a one-axis matrix
+UPDATE product_variants
+SET attributes = jsonb_build_object(name, value)
+WHERE attributes = '{}'::jsonb AND name IS NOT NULL AND value IS NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_product_variants_sku ON product_variants(sku)
+  WHERE sku IS NOT NULL AND is_active;
+
+CREATE OR REPLACE FUNCTION save_product_variants(p_product_id uuid, p_variants jsonb)
+RETURNS SETOF product_variants AS $$
+DECLARE
+  item jsonb;
+  v_kept uuid[];
+  v_removed product_variants;
+BEGIN
+  SELECT COALESCE(array_agg((e->>'id')::uuid), '{}')
+  INTO v_kept
+  FROM jsonb_array_elements(p_variants) e
+  WHERE NULLIF(e->>'id', '') IS NOT NULL;
+
+  -- Drop the ones left out first so their SKUs and barcodes can be reused
+  FOR v_removed IN
+    SELECT * FROM product_variants
+    WHERE product_id = p_product_id AND is_active AND NOT (id = ANY(v_kept))
+  LOOP
+    IF v_removed.quantity_in_stock <> 0 THEN
+      RAISE EXCEPTION 'Variant % still has % in stock', v_removed.value, v_removed.quantity_in_stock;
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM stock_movements WHERE variant_id = v_removed.id)
+      OR EXISTS (SELECT 1 FROM transaction_items WHERE variant_id = v_removed.id)
+      OR EXISTS (SELECT 1 FROM product_serials WHERE variant_id = v_removed.id)
+    THEN
+      UPDATE product_variants SET is_active = false, barcode = NULL WHERE id = v_removed.id;
+    ELSE
+      DELETE FROM product_variants WHERE id = v_removed.id;
+    END IF;
+  END LOOP;
+
+  FOR item IN SELECT * FROM jsonb_array_elements(p_variants)
+  LOOP
+    IF NULLIF(item->>'id', '') IS NOT NULL THEN
+      UPDATE product_variants
+      SET
+        name = item->>'name',
+        value = item->>'value',
+        attributes = COALESCE(item->'attributes', '{}'::jsonb),
+        sku = NULLIF(item->>'sku', ''),
+        barcode = NULLIF(item->>'barcode', ''),
+        additional_cost = COALESCE((item->>'additional_cost')::decimal, 0)
+      WHERE id = (item->>'id')::uuid AND product_id = p_product_id;
+    ELSE
+      -- Opening stock is logged by log_untracked_stock_change
+      INSERT INTO product_variants (product_id, name, value, attributes, sku, barcode, additional_cost, quantity_in_stock)
+      VALUES (
+        p_product_id,
+        item->>'name',
+        item->>'value',
+        COALESCE(item->'attributes', '{}'::jsonb),
+        NULLIF(item->>'sku', ''),
+        NULLIF(item->>'barcode', ''),
+        COALESCE((item->>'additional_cost')::decimal, 0),
+        COALESCE((item->>'quantity_in_stock')::numeric, 0)
+      );
+    END IF;
+  END LOOP;
+
+  RETURN QUERY SELECT * FROM product_variants WHERE product_id = p_product_id AND is_active;
+END;
+$$ LANGUAGE plpgsql;
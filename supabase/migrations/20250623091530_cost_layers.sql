@@ -0,0 +1,493 @@
+/*
+  # Stock cost layers
+
+  1. Changes
+    - `cost_layers`: one row per batch of stock taken in, with its unit cost and how much of it is
+      still on hand
+    - `stock_movements.unit_cost` (numeric): cost of one unit moved in or out
+    - `transaction_items.unit_cost` and `transaction_items.cost_amount`: cost of goods sold on each line
+    - `product_analytics` adds units sold, sales revenue, cost of goods sold and gross profit, and
+      works profit per unit and margin out from actual sales once a product has sold
+
+  2. Functions
+    - `get_cost_method()`: the store's cost method from `store_settings`, `weighted_average` or `fifo`
+    - `current_unit_cost(product, variant)`: average cost of the stock on hand
+    - `peek_unit_cost(product, variant, quantity, skip)`: what taking stock out would cost, without
+      taking it
+    - `consume_cost_layers(product, variant, quantity)`: takes stock out of the layers and returns the
+      unit cost of what was taken
+    - `cost_stock_movement()`: every stock movement adds a layer when stock comes in and consumes
+      layers when it goes out, then keeps `products.cost_price` at the average of what's left
+    - `record_stock_movement` takes an optional `p_unit_cost` for stock coming in
+    - `stamp_transaction_costs()`: sets `unit_cost` on each sale line before it's saved; kit lines cost
+      the sum of their components and refunds keep the cost of the sale they reverse
+
+  3. Notes
+    - FIFO takes stock from the oldest layer first. Weighted average takes the same share of every
+      layer, so the average cost of what's left doesn't change
+    - Stock moved between locations is still the same stock, so transfers leave the layers alone
+    - Existing stock is carried over as one layer per product or variant at its current cost, and
+      past sale lines are costed at the product's current cost
+    - A variant costs what its product costs until its own deliveries add layers; `additional_cost`
+      is what the variant adds to the selling price, not to the cost
+*/
+
+CREATE TABLE IF NOT EXISTS cost_layers (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id uuid NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  variant_id uuid REFERENCES product_variants(id) ON DELETE CASCADE,
+  unit_cost numeric(12,4) NOT NULL CHECK (unit_cost >= 0),
+  quantity_received numeric(12,3) NOT NULL CHECK (quantity_received > 0),
+  quantity_remaining numeric(12,3) NOT NULL CHECK (quantity_remaining >= 0),
+  reference text,
+  received_at timestamptz NOT NULL DEFAULT now(),
+  created_at timestamptz DEFAULT now()
+);
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_cost_layers_open
+  ON cost_layers(product_id, variant_id, received_at)
+  WHERE quantity_remaining > 0;
+
+ALTER TABLE stock_movements ADD COLUMN IF NOT EXISTS unit_cost numeric(12,4);
+ALTER TABLE transaction_items ADD COLUMN IF NOT EXISTS unit_cost numeric(12,4);
+ALTER TABLE transaction_items ADD COLUMN IF NOT EXISTS cost_amount numeric(12,2);
+
+-- Enable Row Level Security
+ALTER TABLE cost_layers ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for cost layers
+CREATE POLICY "Cost layers are viewable by everyone"
+  ON cost_layers
+  FOR SELECT
+  USING (true);
+
+CREATE POLICY "Authenticated users can manage cost layers"
+  ON cost_layers
+  FOR ALL
+  TO authenticated
+  USING (true)
+  WITH CHECK (true);
+
+CREATE OR REPLACE FUNCTION get_cost_method()
+RETURNS text AS $$
+  SELECT COALESCE(
+    (SELECT settings->'costing'->>'method' FROM store_settings WHERE id = 'default'),
+    'weighted_average'
+  );
+$$ LANGUAGE sql STABLE;
+
+-- Falls back to the catalogue cost when nothing is on hand
+CREATE OR REPLACE FUNCTION current_unit_cost(p_product_id uuid, p_variant_id uuid)
+RETURNS numeric AS $$
+DECLARE
+  v_cost numeric;
+BEGIN
+  SELECT SUM(quantity_remaining * unit_cost) / NULLIF(SUM(quantity_remaining), 0)
+  INTO v_cost
+  FROM cost_layers
+  WHERE product_id = p_product_id
+    AND variant_id IS NOT DISTINCT FROM p_variant_id
+    AND quantity_remaining > 0;
+
+  IF v_cost IS NULL THEN
+    SELECT cost_price
+    INTO v_cost
+    FROM products
+    WHERE id = p_product_id;
+  END IF;
+
+  RETURN ROUND(COALESCE(v_cost, 0), 4);
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- p_skip is stock already spoken for by earlier lines of the same sale
+CREATE OR REPLACE FUNCTION peek_unit_cost(
+  p_product_id uuid,
+  p_variant_id uuid,
+  p_quantity numeric,
+  p_skip numeric DEFAULT 0
+)
+RETURNS numeric AS $$
+DECLARE
+  v_layer cost_layers;
+  v_skip numeric := p_skip;
+  v_left numeric := p_quantity;
+  v_take numeric;
+  v_total numeric := 0;
+BEGIN
+  IF p_quantity <= 0 OR get_cost_method() <> 'fifo' THEN
+    RETURN current_unit_cost(p_product_id, p_variant_id);
+  END IF;
+
+  FOR v_layer IN
+    SELECT * FROM cost_layers
+    WHERE product_id = p_product_id
+      AND variant_id IS NOT DISTINCT FROM p_variant_id
+      AND quantity_remaining > 0
+    ORDER BY received_at, created_at
+  LOOP
+    EXIT WHEN v_left <= 0;
+    v_take := LEAST(GREATEST(v_layer.quantity_remaining - v_skip, 0), v_left);
+    v_skip := GREATEST(v_skip - v_layer.quantity_remaining, 0);
+    v_total := v_total + v_take * v_layer.unit_cost;
+    v_left := v_left - v_take;
+  END LOOP;
+
+  IF v_left > 0 THEN
+    v_total := v_total + v_left * current_unit_cost(p_product_id, p_variant_id);
+  END IF;
+
+  RETURN ROUND(v_total / p_quantity, 4);
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Stock sold beyond what the layers hold is costed at the current cost
+CREATE OR REPLACE FUNCTION consume_cost_layers(p_product_id uuid, p_variant_id uuid, p_quantity numeric)
+RETURNS numeric AS $$
+DECLARE
+  v_layer cost_layers;
+  v_on_hand numeric;
+  v_average numeric;
+  v_left numeric := p_quantity;
+  v_take numeric;
+  v_total numeric := 0;
+BEGIN
+  v_average := current_unit_cost(p_product_id, p_variant_id);
+
+  IF p_quantity <= 0 THEN
+    RETURN v_average;
+  END IF;
+
+  IF get_cost_method() = 'fifo' THEN
+    FOR v_layer IN
+      SELECT * FROM cost_layers
+      WHERE product_id = p_product_id
+        AND variant_id IS NOT DISTINCT FROM p_variant_id
+        AND quantity_remaining > 0
+      ORDER BY received_at, created_at
+      FOR UPDATE
+    LOOP
+      EXIT WHEN v_left <= 0;
+      v_take := LEAST(v_layer.quantity_remaining, v_left);
+      UPDATE cost_layers SET quantity_remaining = quantity_remaining - v_take WHERE id = v_layer.id;
+      v_total := v_total + v_take * v_layer.unit_cost;
+      v_left := v_left - v_take;
+    END LOOP;
+  ELSE
+    SELECT COALESCE(SUM(quantity_remaining), 0)
+    INTO v_on_hand
+    FROM cost_layers
+    WHERE product_id = p_product_id
+      AND variant_id IS NOT DISTINCT FROM p_variant_id
+      AND quantity_remaining > 0;
+
+    IF v_on_hand > 0 THEN
+      v_take := LEAST(v_on_hand, p_quantity);
+      UPDATE cost_layers
+      SET quantity_remaining = ROUND(quantity_remaining * (1 - v_take / v_on_hand), 3)
+      WHERE product_id = p_product_id
+        AND variant_id IS NOT DISTINCT FROM p_variant_id
+        AND quantity_remaining > 0;
+      v_total := v_take * v_average;
+      v_left := p_quantity - v_take;
+    END IF;
+  END IF;
+
+  v_total := v_total + v_left * v_average;
+
+  RETURN ROUND(v_total / p_quantity, 4);
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION cost_stock_movement()
+RETURNS trigger AS $$
+DECLARE
+  v_average numeric;
+BEGIN
+  IF NEW.movement_type = 'transfer'
+    AND EXISTS (SELECT 1 FROM stock_transfers WHERE transfer_number = NEW.reference)
+  THEN
+    NEW.unit_cost := current_unit_cost(NEW.product_id, NEW.variant_id);
+    RETURN NEW;
+  END IF;
+
+  IF NEW.quantity > 0 THEN
+    NEW.unit_cost := ROUND(COALESCE(NEW.unit_cost, current_unit_cost(NEW.product_id, NEW.variant_id)), 4);
+    INSERT INTO cost_layers (product_id, variant_id, unit_cost, quantity_received, quantity_remaining, reference)
+    VALUES (NEW.product_id, NEW.variant_id, NEW.unit_cost, NEW.quantity, NEW.quantity, NEW.reference);
+  ELSE
+    NEW.unit_cost := consume_cost_layers(NEW.product_id, NEW.variant_id, -NEW.quantity);
+  END IF;
+
+  -- Variants without layers of their own fall back to the product's cost, so only base products
+  -- move it
+  IF NEW.variant_id IS NULL THEN
+    SELECT SUM(quantity_remaining * unit_cost) / NULLIF(SUM(quantity_remaining), 0)
+    INTO v_average
+    FROM cost_layers
+    WHERE product_id = NEW.product_id AND variant_id IS NULL AND quantity_remaining > 0;
+
+    IF v_average IS NOT NULL THEN
+      UPDATE products SET cost_price = ROUND(v_average, 2)
+      WHERE id = NEW.product_id AND cost_price IS DISTINCT FROM ROUND(v_average, 2);
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER cost_stock_movement_trigger
+  BEFORE INSERT ON stock_movements
+  FOR EACH ROW
+  EXECUTE FUNCTION cost_stock_movement();
+
+-- The unit cost is part of the signature, so replace the function outright
+DROP FUNCTION IF EXISTS record_stock_movement(uuid, uuid, numeric, text, text, text, uuid);
+
+CREATE OR REPLACE FUNCTION record_stock_movement(
+  p_product_id uuid,
+  p_variant_id uuid,
+  p_delta numeric,
+  p_movement_type text,
+  p_reason text DEFAULT NULL,
+  p_reference text DEFAULT NULL,
+  p_location_id uuid DEFAULT NULL,
+  p_unit_cost numeric DEFAULT NULL
+)
+RETURNS stock_movements AS $$
+DECLARE
+  v_location_id uuid;
+  v_quantity_after numeric;
+  v_movement stock_movements;
+BEGIN
+  v_location_id := COALESCE(p_location_id, (SELECT id FROM locations WHERE is_default));
+
+  IF v_location_id IS NULL THEN
+    RAISE EXCEPTION 'No stock location given and no default location is set';
+  END IF;
+
+  -- Lets log_untracked_stock_change know this change is already being recorded
+  PERFORM set_config('app.recording_stock_movement', 'on', true);
+
+  IF p_variant_id IS NOT NULL THEN
+    UPDATE product_variants
+    SET quantity_in_stock = quantity_in_stock + p_delta
+    WHERE id = p_variant_id
+    RETURNING quantity_in_stock INTO v_quantity_after;
+  ELSE
+    UPDATE products
+    SET quantity_in_stock = quantity_in_stock + p_delta
+    WHERE id = p_product_id
+    RETURNING quantity_in_stock INTO v_quantity_after;
+  END IF;
+
+  PERFORM set_config('app.recording_stock_movement', 'off', true);
+
+  IF v_quantity_after IS NULL THEN
+    RAISE EXCEPTION 'Product % not found', COALESCE(p_variant_id, p_product_id);
+  END IF;
+
+  PERFORM apply_location_stock(v_location_id, p_product_id, p_variant_id, p_delta);
+
+  -- cost_stock_movement fills in unit_cost when none is given
+  INSERT INTO stock_movements (product_id, variant_id, movement_type, quantity, quantity_after, reason, reference, location_id, unit_cost)
+  VALUES (p_product_id, p_variant_id, p_movement_type, p_delta, v_quantity_after, p_reason, p_reference, v_location_id, p_unit_cost)
+  RETURNING * INTO v_movement;
+
+  RETURN v_movement;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION stamp_transaction_costs()
+RETURNS trigger AS $$
+DECLARE
+  item jsonb;
+  component jsonb;
+  v_items jsonb := '[]'::jsonb;
+  v_taken jsonb := '{}'::jsonb;
+  v_key text;
+  v_quantity numeric;
+  v_variant_id uuid;
+  v_unit_cost numeric;
+BEGIN
+  FOR item IN SELECT * FROM jsonb_array_elements(COALESCE(NEW.items, '[]'::jsonb))
+  LOOP
+    v_variant_id := NULLIF(item->>'variant_id', '')::uuid;
+    v_quantity := COALESCE((item->>'quantity')::numeric, 0);
+    v_unit_cost := NULL;
+
+    IF NEW.transaction_type = 'refund' THEN
+      -- A refund puts back stock at what it cost when it was sold
+      v_unit_cost := (item->>'unit_cost')::numeric;
+
+      IF v_unit_cost IS NULL AND NEW.original_transaction_id IS NOT NULL THEN
+        SELECT ti.unit_cost
+        INTO v_unit_cost
+        FROM transaction_items ti
+        WHERE ti.transaction_id = NEW.original_transaction_id
+          AND ti.product_id = (item->>'product_id')::uuid
+          AND ti.variant_id IS NOT DISTINCT FROM v_variant_id
+          AND ti.unit_cost IS NOT NULL
+        LIMIT 1;
+      END IF;
+
+      v_unit_cost := COALESCE(v_unit_cost, current_unit_cost((item->>'product_id')::uuid, v_variant_id));
+    ELSIF jsonb_array_length(COALESCE(item->'kit_components', '[]'::jsonb)) > 0 THEN
+      v_unit_cost := 0;
+      FOR component IN SELECT * FROM jsonb_array_elements(item->'kit_components')
+      LOOP
+        v_key := (component->>'product_id') || ':' || COALESCE(component->>'variant_id', '');
+        v_unit_cost := v_unit_cost + (component->>'quantity')::numeric * peek_unit_cost(
+          (component->>'product_id')::uuid,
+          NULLIF(component->>'variant_id', '')::uuid,
+          v_quantity * (component->>'quantity')::numeric,
+          COALESCE((v_taken->>v_key)::numeric, 0)
+        );
+        v_taken := v_taken || jsonb_build_object(
+          v_key,
+          COALESCE((v_taken->>v_key)::numeric, 0) + v_quantity * (component->>'quantity')::numeric
+        );
+      END LOOP;
+      v_unit_cost := ROUND(v_unit_cost, 4);
+    ELSE
+      v_key := (item->>'product_id') || ':' || COALESCE(v_variant_id::text, '');
+      v_unit_cost := peek_unit_cost(
+        (item->>'product_id')::uuid,
+        v_variant_id,
+        v_quantity,
+        COALESCE((v_taken->>v_key)::numeric, 0)
+      );
+      v_taken := v_taken || jsonb_build_object(v_key, COALESCE((v_taken->>v_key)::numeric, 0) + v_quantity);
+    END IF;
+
+    v_items := v_items || jsonb_build_array(item || jsonb_build_object('unit_cost', v_unit_cost));
+  END LOOP;
+
+  NEW.items := v_items;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER stamp_transaction_costs_trigger
+  BEFORE INSERT ON transactions
+  FOR EACH ROW
+  EXECUTE FUNCTION stamp_transaction_costs();
+
+CREATE OR REPLACE FUNCTION populate_transaction_items()
+RETURNS TRIGGER AS $$
+DECLARE
+  item jsonb;
+BEGIN
+  -- Clear existing items for this transaction
+  DELETE FROM transaction_items WHERE transaction_id = NEW.id;
+
+  -- Insert new items from jsonb
+  FOR item IN SELECT * FROM jsonb_array_elements(NEW.items)
+  LOOP
+    INSERT INTO transaction_items (
+      transaction_id,
+      product_id,
+      variant_id,
+      quantity,
+      unit_price,
+      discount_amount,
+      total_price,
+      serial_number,
+      lot_number,
+      expiry_date,
+      unit_cost,
+      cost_amount
+    ) VALUES (
+      NEW.id,
+      (item->>'product_id')::uuid,
+      CASE WHEN item->>'variant_id' != '' THEN (item->>'variant_id')::uuid ELSE NULL END,
+      (item->>'quantity')::numeric,
+      (item->>'price')::decimal,
+      (item->>'discount_amount')::decimal,
+      (item->>'subtotal')::decimal,
+      NULLIF(item->>'serial_number', ''),
+      NULLIF(item->>'lot_number', ''),
+      NULLIF(item->>'expiry_date', '')::date,
+      (item->>'unit_cost')::numeric,
+      ROUND((item->>'unit_cost')::numeric * (item->>'quantity')::numeric, 2)
+    );
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Carry existing stock over as opening layers
+INSERT INTO cost_layers (product_id, variant_id, unit_cost, quantity_received, quantity_remaining, reference)
+SELECT id, NULL, cost_price, quantity_in_stock, quantity_in_stock, 'Opening balance'
+FROM products
+WHERE NOT is_kit AND quantity_in_stock > 0;
+
+INSERT INTO cost_layers (product_id, variant_id, unit_cost, quantity_received, quantity_remaining, reference)
+SELECT v.product_id, v.id, p.cost_price, v.quantity_in_stock, v.quantity_in_stock, 'Opening balance'
+FROM product_variants v
+JOIN products p ON p.id = v.product_id
+WHERE v.quantity_in_stock > 0;
+
+UPDATE transaction_items ti
+SET
+  unit_cost = p.cost_price,
+  cost_amount = ROUND(p.cost_price * ti.quantity, 2)
+FROM products p
+WHERE p.id = ti.product_id AND ti.unit_cost IS NULL;
+
+DROP VIEW IF EXISTS product_analytics;
+
+-- Create view for product analytics
+CREATE OR REPLACE VIEW product_analytics AS
+SELECT
+  p.id,
+  p.sku,
+  p.name,
+  p.category_id,
+  c.name as category_name,
+  p.supplier_id,
+  s.name as supplier_name,
+  p.cost_price,
+  p.selling_price,
+  p.quantity_in_stock,
+  p.min_stock_level,
+  COALESCE(sales.units_sold, 0) as units_sold,
+  COALESCE(sales.sales_revenue, 0) as sales_revenue,
+  COALESCE(sales.cost_of_goods_sold, 0) as cost_of_goods_sold,
+  COALESCE(sales.sales_revenue, 0) - COALESCE(sales.cost_of_goods_sold, 0) as gross_profit,
+  CASE
+    WHEN COALESCE(sales.units_sold, 0) <> 0
+      THEN (sales.sales_revenue - sales.cost_of_goods_sold) / sales.units_sold
+    ELSE (p.selling_price - p.cost_price)
+  END as profit_per_unit,
+  CASE
+    WHEN COALESCE(sales.units_sold, 0) <> 0
+      THEN (sales.sales_revenue - sales.cost_of_goods_sold) / NULLIF(sales.sales_revenue, 0) * 100
+    ELSE ((p.selling_price - p.cost_price) / p.selling_price * 100)
+  END as profit_margin_percentage,
+  (p.quantity_in_stock * p.cost_price) as inventory_value,
+  CASE
+    WHEN p.quantity_in_stock = 0 THEN 'out_of_stock'
+    WHEN p.quantity_in_stock <= p.min_stock_level THEN 'low_stock'
+    ELSE 'in_stock'
+  END as stock_status,
+  p.created_at,
+  p.updated_at
+FROM products p
+LEFT JOIN categories c ON p.category_id = c.id
+LEFT JOIN suppliers s ON p.supplier_id = s.id
+LEFT JOIN (
+  SELECT
+    ti.product_id,
+    SUM(ti.quantity) as units_sold,
+    SUM(ti.total_price) as sales_revenue,
+    SUM(COALESCE(ti.cost_amount, 0)) as cost_of_goods_sold
+  FROM transaction_items ti
+  JOIN transactions t ON t.id = ti.transaction_id
+  WHERE t.status IN ('completed', 'refunded')
+  GROUP BY ti.product_id
+) sales ON sales.product_id = p.id
+WHERE p.is_active = true;
@@ -0,0 +1,191 @@
+/*
+  # Price history and scheduled prices
+
+  1. Changes
+    - `price_history`: one row per change to a product's selling price or a variant's price (the
+      product price plus its additional cost), with the old and new price, who made it and whether
+      it was an edit or a scheduled change coming into effect
+    - `scheduled_prices`: prices set ahead of time for a product or one variant
+      - `change` replaces the catalogue price from `starts_at`
+      - `sale` is charged at the till from `starts_at` until `ends_at` and leaves the catalogue alone
+
+  2. Functions
+    - `log_price_change()`: writes `price_history` whenever a price is set or changed
+    - `apply_due_price_changes()`: moves changes whose start has passed into the catalogue and marks
+      them applied; returns how many were applied
+
+  3. Notes
+    - Existing prices are carried over as each product's and variant's starting price
+    - There is no scheduler in the database. The app applies due changes when it syncs, and the till
+      works out due changes and live sales from its cached copy of `scheduled_prices` so they take
+      effect on time offline too
+    - Changing a product's price moves its variants too; only the product's change is logged
+*/
+
+CREATE TABLE IF NOT EXISTS scheduled_prices (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id uuid NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  variant_id uuid REFERENCES product_variants(id) ON DELETE CASCADE,
+  kind text NOT NULL CHECK (kind IN ('change', 'sale')),
+  price decimal(10,2) NOT NULL CHECK (price >= 0),
+  starts_at timestamptz NOT NULL,
+  ends_at timestamptz,
+  status text NOT NULL DEFAULT 'scheduled'
+    CHECK (status IN ('scheduled', 'applied', 'cancelled')),
+  notes text,
+  applied_at timestamptz,
+  user_id uuid DEFAULT auth.uid(),
+  user_email text DEFAULT (auth.jwt() ->> 'email'),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CHECK (
+    (kind = 'change' AND ends_at IS NULL)
+    OR (kind = 'sale' AND ends_at IS NOT NULL AND ends_at > starts_at)
+  )
+);
+
+CREATE TABLE IF NOT EXISTS price_history (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id uuid NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  variant_id uuid REFERENCES product_variants(id) ON DELETE CASCADE,
+  old_price decimal(10,2),
+  new_price decimal(10,2) NOT NULL,
+  source text NOT NULL DEFAULT 'manual' CHECK (source IN ('manual', 'scheduled')),
+  scheduled_price_id uuid REFERENCES scheduled_prices(id) ON DELETE SET NULL,
+  user_id uuid DEFAULT auth.uid(),
+  user_email text DEFAULT (auth.jwt() ->> 'email'),
+  created_at timestamptz DEFAULT now()
+);
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_scheduled_prices_product_id ON scheduled_prices(product_id);
+CREATE INDEX IF NOT EXISTS idx_scheduled_prices_pending ON scheduled_prices(starts_at) WHERE status = 'scheduled';
+CREATE INDEX IF NOT EXISTS idx_price_history_product_id ON price_history(product_id);
+CREATE INDEX IF NOT EXISTS idx_price_history_created_at ON price_history(created_at);
+
+-- Enable Row Level Security
+ALTER TABLE scheduled_prices ENABLE ROW LEVEL SECURITY;
+ALTER TABLE price_history ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for scheduled prices
+CREATE POLICY "Scheduled prices are viewable by everyone"
+  ON scheduled_prices
+  FOR SELECT
+  USING (true);
+
+CREATE POLICY "Authenticated users can manage scheduled prices"
+  ON scheduled_prices
+  FOR ALL
+  TO authenticated
+  USING (true)
+  WITH CHECK (true);
+
+-- Price history is written by log_price_change only
+CREATE POLICY "Price history is viewable by everyone"
+  ON price_history
+  FOR SELECT
+  USING (true);
+
+CREATE POLICY "Authenticated users can record price history"
+  ON price_history
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (true);
+
+CREATE TRIGGER update_scheduled_prices_updated_at
+  BEFORE UPDATE ON scheduled_prices
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Carry existing prices over as where each history starts
+INSERT INTO price_history (product_id, variant_id, old_price, new_price, user_id, user_email)
+SELECT id, NULL, NULL, selling_price, NULL, NULL
+FROM products;
+
+INSERT INTO price_history (product_id, variant_id, old_price, new_price, user_id, user_email)
+SELECT v.product_id, v.id, NULL, p.selling_price + COALESCE(v.additional_cost, 0), NULL, NULL
+FROM product_variants v
+JOIN products p ON p.id = v.product_id
+WHERE v.is_active;
+
+-- apply_due_price_changes says which scheduled price a change came from through app.scheduled_price_id
+CREATE OR REPLACE FUNCTION log_price_change()
+RETURNS trigger AS $$
+DECLARE
+  v_base numeric;
+  v_old numeric;
+  v_new numeric;
+  v_scheduled_price_id uuid;
+BEGIN
+  IF TG_TABLE_NAME = 'product_variants' THEN
+    SELECT selling_price INTO v_base FROM products WHERE id = NEW.product_id;
+    v_new := v_base + COALESCE(NEW.additional_cost, 0);
+    v_old := CASE WHEN TG_OP = 'UPDATE' THEN v_base + COALESCE(OLD.additional_cost, 0) END;
+  ELSE
+    v_new := NEW.selling_price;
+    v_old := CASE WHEN TG_OP = 'UPDATE' THEN OLD.selling_price END;
+  END IF;
+
+  IF v_old IS NOT DISTINCT FROM v_new THEN
+    RETURN NEW;
+  END IF;
+
+  v_scheduled_price_id := NULLIF(current_setting('app.scheduled_price_id', true), '')::uuid;
+
+  INSERT INTO price_history (product_id, variant_id, old_price, new_price, source, scheduled_price_id)
+  VALUES (
+    CASE WHEN TG_TABLE_NAME = 'product_variants' THEN NEW.product_id ELSE NEW.id END,
+    CASE WHEN TG_TABLE_NAME = 'product_variants' THEN NEW.id ELSE NULL END,
+    v_old,
+    v_new,
+    CASE WHEN v_scheduled_price_id IS NULL THEN 'manual' ELSE 'scheduled' END,
+    v_scheduled_price_id
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER log_product_price_change
+  AFTER INSERT OR UPDATE OF selling_price ON products
+  FOR EACH ROW
+  EXECUTE FUNCTION log_price_change();
+
+CREATE TRIGGER log_variant_price_change
+  AFTER INSERT OR UPDATE OF additional_cost ON product_variants
+  FOR EACH ROW
+  EXECUTE FUNCTION log_price_change();
+
+CREATE OR REPLACE FUNCTION apply_due_price_changes()
+RETURNS integer AS $$
+DECLARE
+  v_change scheduled_prices;
+  v_applied integer := 0;
+BEGIN
+  FOR v_change IN
+    SELECT * FROM scheduled_prices
+    WHERE kind = 'change' AND status = 'scheduled' AND starts_at <= now()
+    ORDER BY starts_at, created_at
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    PERFORM set_config('app.scheduled_price_id', v_change.id::text, true);
+
+    -- A variant's price is stored as what it adds to the product's price
+    IF v_change.variant_id IS NOT NULL THEN
+      UPDATE product_variants v
+      SET additional_cost = v_change.price - p.selling_price
+      FROM products p
+      WHERE v.id = v_change.variant_id AND p.id = v.product_id;
+    ELSE
+      UPDATE products SET selling_price = v_change.price WHERE id = v_change.product_id;
+    END IF;
+
+    UPDATE scheduled_prices SET status = 'applied', applied_at = now() WHERE id = v_change.id;
+    v_applied := v_applied + 1;
+  END LOOP;
+
+  PERFORM set_config('app.scheduled_price_id', '', true);
+
+  RETURN v_applied;
+END;
+$$ LANGUAGE plpgsql;
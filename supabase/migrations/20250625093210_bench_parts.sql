@@ -0,0 +1,257 @@
+/*
+  # Repair parts taken from inventory
+
+  1. Changes
+    - `service_tickets.parts`: products and variants a technician has attached to a ticket, each with
+      its quantity, the price charged, its cost and where it stands
+      - `reserved`: held for the ticket out of stock on hand
+      - `awaiting_stock`: not enough free stock yet; the ticket waits for a delivery
+      - `consumed`: taken off the shelf when the ticket was completed
+    - `service_tickets.labor_amount`: labour charged on top of the parts
+    - `service_tickets.parts_arrived_at`: set when a delivery brings in the last part a ticket was
+      waiting for, so it can be picked up again
+    - `products.quantity_reserved` and `product_variants.quantity_reserved`: units held by open tickets
+    - New stock movement type `repair` for parts used on a ticket
+
+  2. Functions
+    - `reserved_ticket_quantity()`: units of a product or variant reserved by open tickets
+    - `stock_on_hand()`: units of a product or variant in stock across all locations
+    - `refresh_reserved_stock()`: recalculates `quantity_reserved` for one product or variant
+    - `save_ticket_parts()`: saves a ticket's parts and labour, reserving what free stock allows,
+      and sets its final price to the parts plus labour
+    - `allocate_received_ticket_parts()`: when a delivery is received, reserves it for tickets waiting
+      on that part, oldest ticket first
+
+  3. Notes
+    - Completed, delivered and canceled tickets hold no reservations; the app records the `repair`
+      movements and marks parts consumed when a ticket is completed
+    - A ticket waiting on parts is moved to `awaiting_parts` when it is new or in progress
+*/
+
+ALTER TABLE service_tickets
+  ADD COLUMN IF NOT EXISTS parts jsonb NOT NULL DEFAULT '[]'::jsonb,
+  ADD COLUMN IF NOT EXISTS labor_amount decimal(10,2) NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS parts_arrived_at timestamptz;
+
+ALTER TABLE products
+  ADD COLUMN IF NOT EXISTS quantity_reserved numeric(12,3) NOT NULL DEFAULT 0;
+
+ALTER TABLE product_variants
+  ADD COLUMN IF NOT EXISTS quantity_reserved numeric(12,3) NOT NULL DEFAULT 0;
+
+ALTER TABLE stock_movements DROP CONSTRAINT IF EXISTS stock_movements_movement_type_check;
+ALTER TABLE stock_movements ADD CONSTRAINT stock_movements_movement_type_check
+  CHECK (movement_type IN ('sale', 'refund', 'receive', 'adjustment', 'damage', 'theft', 'transfer', 'count_correction', 'repair'));
+
+CREATE INDEX IF NOT EXISTS idx_service_tickets_parts ON service_tickets USING gin (parts);
+
+CREATE OR REPLACE FUNCTION reserved_ticket_quantity(
+  p_product_id uuid,
+  p_variant_id uuid,
+  p_except_ticket_id uuid DEFAULT NULL
+)
+RETURNS numeric AS $$
+  SELECT COALESCE(SUM((part->>'quantity')::numeric), 0)
+  FROM service_tickets t
+  CROSS JOIN LATERAL jsonb_array_elements(t.parts) part
+  WHERE t.status NOT IN ('completed', 'delivered', 'canceled')
+    AND t.id IS DISTINCT FROM p_except_ticket_id
+    AND part->>'status' = 'reserved'
+    AND (part->>'product_id')::uuid = p_product_id
+    AND NULLIF(part->>'variant_id', '')::uuid IS NOT DISTINCT FROM p_variant_id;
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION stock_on_hand(p_product_id uuid, p_variant_id uuid)
+RETURNS numeric AS $$
+  SELECT CASE
+    WHEN p_variant_id IS NOT NULL THEN (SELECT quantity_in_stock FROM product_variants WHERE id = p_variant_id)
+    ELSE (SELECT quantity_in_stock FROM products WHERE id = p_product_id)
+  END;
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION refresh_reserved_stock(p_product_id uuid, p_variant_id uuid)
+RETURNS void AS $$
+BEGIN
+  IF p_variant_id IS NOT NULL THEN
+    UPDATE product_variants
+    SET quantity_reserved = reserved_ticket_quantity(p_product_id, p_variant_id)
+    WHERE id = p_variant_id;
+  ELSE
+    UPDATE products
+    SET quantity_reserved = reserved_ticket_quantity(p_product_id, NULL)
+    WHERE id = p_product_id;
+  END IF;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Covers parts added, removed or consumed, and tickets closed or reopened
+CREATE OR REPLACE FUNCTION refresh_ticket_reservations()
+RETURNS trigger AS $$
+DECLARE
+  v_item record;
+BEGIN
+  FOR v_item IN
+    SELECT DISTINCT
+      (part->>'product_id')::uuid AS product_id,
+      NULLIF(part->>'variant_id', '')::uuid AS variant_id
+    FROM jsonb_array_elements(
+      (CASE WHEN TG_OP = 'INSERT' THEN '[]'::jsonb ELSE COALESCE(OLD.parts, '[]'::jsonb) END)
+      || (CASE WHEN TG_OP = 'DELETE' THEN '[]'::jsonb ELSE COALESCE(NEW.parts, '[]'::jsonb) END)
+    ) part
+  LOOP
+    PERFORM refresh_reserved_stock(v_item.product_id, v_item.variant_id);
+  END LOOP;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER refresh_ticket_reservations
+  AFTER INSERT OR UPDATE OF parts, status OR DELETE ON service_tickets
+  FOR EACH ROW
+  EXECUTE FUNCTION refresh_ticket_reservations();
+
+-- Parts already reserved by the ticket keep their stock; the rest take what other tickets haven't
+CREATE OR REPLACE FUNCTION save_ticket_parts(
+  p_ticket_id uuid,
+  p_parts jsonb,
+  p_labor_amount numeric DEFAULT 0
+)
+RETURNS service_tickets AS $$
+DECLARE
+  v_ticket service_tickets;
+  part jsonb;
+  v_parts jsonb := '[]'::jsonb;
+  v_claimed jsonb := '{}'::jsonb;
+  v_key text;
+  v_product_id uuid;
+  v_variant_id uuid;
+  v_quantity numeric;
+  v_available numeric;
+  v_status text;
+  v_awaiting boolean := false;
+  v_parts_total numeric := 0;
+BEGIN
+  SELECT * INTO v_ticket FROM service_tickets WHERE id = p_ticket_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Ticket % not found', p_ticket_id;
+  END IF;
+
+  IF v_ticket.status IN ('completed', 'delivered', 'canceled') THEN
+    RAISE EXCEPTION 'Parts can only be changed on open tickets';
+  END IF;
+
+  FOR part IN SELECT * FROM jsonb_array_elements(COALESCE(p_parts, '[]'::jsonb))
+  LOOP
+    v_product_id := (part->>'product_id')::uuid;
+    v_variant_id := NULLIF(part->>'variant_id', '')::uuid;
+    v_quantity := COALESCE((part->>'quantity')::numeric, 0);
+
+    IF v_quantity <= 0 THEN
+      RAISE EXCEPTION 'Enter a quantity for %', part->>'name';
+    END IF;
+
+    v_key := v_product_id::text || ':' || COALESCE(v_variant_id::text, '');
+    v_available := COALESCE(stock_on_hand(v_product_id, v_variant_id), 0)
+      - reserved_ticket_quantity(v_product_id, v_variant_id, p_ticket_id)
+      - COALESCE((v_claimed->>v_key)::numeric, 0);
+
+    IF v_available >= v_quantity THEN
+      v_status := 'reserved';
+      v_claimed := v_claimed || jsonb_build_object(v_key, COALESCE((v_claimed->>v_key)::numeric, 0) + v_quantity);
+    ELSE
+      v_status := 'awaiting_stock';
+      v_awaiting := true;
+    END IF;
+
+    v_parts := v_parts || jsonb_build_array(part || jsonb_build_object('status', v_status));
+    v_parts_total := v_parts_total + v_quantity * COALESCE((part->>'unit_price')::numeric, 0);
+  END LOOP;
+
+  UPDATE service_tickets
+  SET
+    parts = v_parts,
+    labor_amount = COALESCE(p_labor_amount, 0),
+    final_price = round(COALESCE(p_labor_amount, 0) + v_parts_total, 2),
+    status = CASE WHEN v_awaiting AND status IN ('new', 'in_progress') THEN 'awaiting_parts' ELSE status END,
+    parts_arrived_at = CASE WHEN v_awaiting THEN NULL ELSE parts_arrived_at END
+  WHERE id = p_ticket_id
+  RETURNING * INTO v_ticket;
+
+  RETURN v_ticket;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION allocate_received_ticket_parts()
+RETURNS trigger AS $$
+DECLARE
+  v_ticket service_tickets;
+  part jsonb;
+  v_parts jsonb;
+  v_claimed numeric;
+  v_quantity numeric;
+  v_allocated boolean;
+  v_awaiting boolean;
+BEGIN
+  FOR v_ticket IN
+    SELECT t.*
+    FROM service_tickets t
+    WHERE t.status NOT IN ('completed', 'delivered', 'canceled')
+      AND EXISTS (
+        SELECT 1
+        FROM jsonb_array_elements(t.parts) p
+        WHERE p->>'status' = 'awaiting_stock'
+          AND (p->>'product_id')::uuid = NEW.product_id
+          AND NULLIF(p->>'variant_id', '')::uuid IS NOT DISTINCT FROM NEW.variant_id
+      )
+    ORDER BY t.created_at
+    FOR UPDATE
+  LOOP
+    v_parts := '[]'::jsonb;
+    v_claimed := 0;
+    v_allocated := false;
+    v_awaiting := false;
+
+    FOR part IN SELECT * FROM jsonb_array_elements(v_ticket.parts)
+    LOOP
+      IF part->>'status' = 'awaiting_stock'
+        AND (part->>'product_id')::uuid = NEW.product_id
+        AND NULLIF(part->>'variant_id', '')::uuid IS NOT DISTINCT FROM NEW.variant_id
+      THEN
+        v_quantity := COALESCE((part->>'quantity')::numeric, 0);
+
+        IF COALESCE(stock_on_hand(NEW.product_id, NEW.variant_id), 0)
+          - reserved_ticket_quantity(NEW.product_id, NEW.variant_id) - v_claimed >= v_quantity
+        THEN
+          part := part || jsonb_build_object('status', 'reserved');
+          v_claimed := v_claimed + v_quantity;
+          v_allocated := true;
+        END IF;
+      END IF;
+
+      IF part->>'status' = 'awaiting_stock' THEN
+        v_awaiting := true;
+      END IF;
+
+      v_parts := v_parts || jsonb_build_array(part);
+    END LOOP;
+
+    IF v_allocated THEN
+      UPDATE service_tickets
+      SET
+        parts = v_parts,
+        parts_arrived_at = CASE WHEN v_awaiting THEN NULL ELSE now() END
+      WHERE id = v_ticket.id;
+    END IF;
+  END LOOP;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER allocate_received_ticket_parts
+  AFTER INSERT ON stock_movements
+  FOR EACH ROW
+  WHEN (NEW.movement_type = 'receive' AND NEW.quantity > 0)
+  EXECUTE FUNCTION allocate_received_ticket_parts();
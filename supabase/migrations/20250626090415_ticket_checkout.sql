@@ -0,0 +1,171 @@
+/*
+  # Service tickets paid at the till
+
+  1. Changes
+    - `transactions.service_ticket_id`: the service ticket a sale collected
+    - `service_tickets.transaction_id`: the sale that paid for the ticket
+
+  2. Functions
+    - `stamp_transaction_costs()`: the service line of a ticket has no product and no cost, and the
+      ticket's parts keep the cost they were consumed at
+    - `populate_transaction_items()`: skips the service line, which has no product to record
+    - `settle_service_ticket()`: marks the collected ticket paid and delivered and links it to the sale
+
+  3. Notes
+    - A collected ticket comes through as one service line for the work, priced at the ticket's final
+      price less its parts, plus one line per consumed part
+    - The parts already left stock when the ticket was completed, so the sale records no movements for them
+*/
+
+ALTER TABLE transactions
+  ADD COLUMN IF NOT EXISTS service_ticket_id uuid REFERENCES service_tickets(id) ON DELETE SET NULL;
+
+ALTER TABLE service_tickets
+  ADD COLUMN IF NOT EXISTS transaction_id uuid REFERENCES transactions(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_transactions_service_ticket_id ON transactions(service_ticket_id);
+
+CREATE OR REPLACE FUNCTION stamp_transaction_costs()
+RETURNS trigger AS $$
+DECLARE
+  item jsonb;
+  component jsonb;
+  v_items jsonb := '[]'::jsonb;
+  v_taken jsonb := '{}'::jsonb;
+  v_key text;
+  v_quantity numeric;
+  v_variant_id uuid;
+  v_unit_cost numeric;
+BEGIN
+  FOR item IN SELECT * FROM jsonb_array_elements(COALESCE(NEW.items, '[]'::jsonb))
+  LOOP
+    v_variant_id := NULLIF(item->>'variant_id', '')::uuid;
+    v_quantity := COALESCE((item->>'quantity')::numeric, 0);
+    v_unit_cost := NULL;
+
+    IF NULLIF(item->>'product_id', '') IS NULL THEN
+      -- The work on a service ticket costs nothing out of stock
+      v_unit_cost := NULL;
+    ELSIF NEW.transaction_type = 'refund' THEN
+      -- A refund puts back stock at what it cost when it was sold
+      v_unit_cost := (item->>'unit_cost')::numeric;
+
+      IF v_unit_cost IS NULL AND NEW.original_transaction_id IS NOT NULL THEN
+        SELECT ti.unit_cost
+        INTO v_unit_cost
+        FROM transaction_items ti
+        WHERE ti.transaction_id = NEW.original_transaction_id
+          AND ti.product_id = (item->>'product_id')::uuid
+          AND ti.variant_id IS NOT DISTINCT FROM v_variant_id
+          AND ti.unit_cost IS NOT NULL
+        LIMIT 1;
+      END IF;
+
+      v_unit_cost := COALESCE(v_unit_cost, current_unit_cost((item->>'product_id')::uuid, v_variant_id));
+    ELSIF NULLIF(item->>'service_ticket_id', '') IS NOT NULL THEN
+      -- Ticket parts were taken off the shelf when the ticket was completed
+      v_unit_cost := COALESCE(
+        (item->>'unit_cost')::numeric,
+        current_unit_cost((item->>'product_id')::uuid, v_variant_id)
+      );
+    ELSIF jsonb_array_length(COALESCE(item->'kit_components', '[]'::jsonb)) > 0 THEN
+      v_unit_cost := 0;
+      FOR component IN SELECT * FROM jsonb_array_elements(item->'kit_components')
+      LOOP
+        v_key := (component->>'product_id') || ':' || COALESCE(component->>'variant_id', '');
+        v_unit_cost := v_unit_cost + (component->>'quantity')::numeric * peek_unit_cost(
+          (component->>'product_id')::uuid,
+          NULLIF(component->>'variant_id', '')::uuid,
+          v_quantity * (component->>'quantity')::numeric,
+          COALESCE((v_taken->>v_key)::numeric, 0)
+        );
+        v_taken := v_taken || jsonb_build_object(
+          v_key,
+          COALESCE((v_taken->>v_key)::numeric, 0) + v_quantity * (component->>'quantity')::numeric
+        );
+      END LOOP;
+      v_unit_cost := ROUND(v_unit_cost, 4);
+    ELSE
+      v_key := (item->>'product_id') || ':' || COALESCE(v_variant_id::text, '');
+      v_unit_cost := peek_unit_cost(
+        (item->>'product_id')::uuid,
+        v_variant_id,
+        v_quantity,
+        COALESCE((v_taken->>v_key)::numeric, 0)
+      );
+      v_taken := v_taken || jsonb_build_object(v_key, COALESCE((v_taken->>v_key)::numeric, 0) + v_quantity);
+    END IF;
+
+    v_items := v_items || jsonb_build_array(item || jsonb_build_object('unit_cost', v_unit_cost));
+  END LOOP;
+
+  NEW.items := v_items;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION populate_transaction_items()
+RETURNS TRIGGER AS $$
+DECLARE
+  item jsonb;
+BEGIN
+  -- Clear existing items for this transaction
+  DELETE FROM transaction_items WHERE transaction_id = NEW.id;
+
+  -- Insert new items from jsonb; a ticket's service line has no product to record
+  FOR item IN
+    SELECT * FROM jsonb_array_elements(NEW.items) i
+    WHERE NULLIF(i->>'product_id', '') IS NOT NULL
+  LOOP
+    INSERT INTO transaction_items (
+      transaction_id,
+      product_id,
+      variant_id,
+      quantity,
+      unit_price,
+      discount_amount,
+      total_price,
+      serial_number,
+      lot_number,
+      expiry_date,
+      unit_cost,
+      cost_amount
+    ) VALUES (
+      NEW.id,
+      (item->>'product_id')::uuid,
+      CASE WHEN item->>'variant_id' != '' THEN (item->>'variant_id')::uuid ELSE NULL END,
+      (item->>'quantity')::numeric,
+      (item->>'price')::decimal,
+      (item->>'discount_amount')::decimal,
+      (item->>'subtotal')::decimal,
+      NULLIF(item->>'serial_number', ''),
+      NULLIF(item->>'lot_number', ''),
+      NULLIF(item->>'expiry_date', '')::date,
+      (item->>'unit_cost')::numeric,
+      ROUND((item->>'unit_cost')::numeric * (item->>'quantity')::numeric, 2)
+    );
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION settle_service_ticket()
+RETURNS trigger AS $$
+BEGIN
+  UPDATE service_tickets
+  SET
+    paid = true,
+    status = 'delivered',
+    transaction_id = NEW.id
+  WHERE id = NEW.service_ticket_id;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER settle_service_ticket
+  AFTER INSERT ON transactions
+  FOR EACH ROW
+  WHEN (NEW.service_ticket_id IS NOT NULL AND NEW.transaction_type IS DISTINCT FROM 'refund')
+  EXECUTE FUNCTION settle_service_ticket();
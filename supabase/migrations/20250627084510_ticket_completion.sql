@@ -0,0 +1,75 @@
+/*
+  # Completing a ticket in one step
+
+  1. Functions
+    - `complete_ticket()`: takes a ticket's reserved parts off the shelf as `repair` movements, marks
+      them consumed at what the movements cost, and sets the ticket's new status
+
+  2. Notes
+    - The movements and the status change commit together, so a completion that fails part way
+      leaves the parts reserved and the ticket open, and one sent again after it went through finds
+      the ticket already closed and moves no stock
+    - A ticket still waiting on parts can't be completed
+*/
+
+CREATE OR REPLACE FUNCTION complete_ticket(
+  p_ticket_id uuid,
+  p_status text
+)
+RETURNS service_tickets AS $$
+DECLARE
+  v_ticket service_tickets;
+  part jsonb;
+  v_parts jsonb := '[]'::jsonb;
+  v_movement stock_movements;
+BEGIN
+  SELECT * INTO v_ticket FROM service_tickets WHERE id = p_ticket_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Ticket % not found', p_ticket_id;
+  END IF;
+
+  IF p_status NOT IN ('completed', 'delivered') THEN
+    RAISE EXCEPTION 'A ticket can''t be completed as %', p_status;
+  END IF;
+
+  -- Already closed, most likely by an earlier try that went through: nothing is left to take
+  IF v_ticket.status IN ('completed', 'delivered', 'canceled') THEN
+    RETURN v_ticket;
+  END IF;
+
+  FOR part IN SELECT * FROM jsonb_array_elements(COALESCE(v_ticket.parts, '[]'::jsonb))
+  LOOP
+    IF part->>'status' = 'awaiting_stock' THEN
+      RAISE EXCEPTION 'Parts are still awaiting stock';
+    END IF;
+
+    IF part->>'status' = 'reserved' THEN
+      v_movement := record_stock_movement(
+        (part->>'product_id')::uuid,
+        NULLIF(part->>'variant_id', '')::uuid,
+        -abs((part->>'quantity')::numeric),
+        'repair',
+        NULL,
+        v_ticket.ticket_number
+      );
+
+      part := part || jsonb_build_object(
+        'status', 'consumed',
+        'unit_cost', COALESCE(v_movement.unit_cost, (part->>'unit_cost')::numeric)
+      );
+    END IF;
+
+    v_parts := v_parts || jsonb_build_array(part);
+  END LOOP;
+
+  UPDATE service_tickets
+  SET
+    parts = v_parts,
+    status = p_status
+  WHERE id = p_ticket_id
+  RETURNING * INTO v_ticket;
+
+  RETURN v_ticket;
+END;
+$$ LANGUAGE plpgsql;